@@ -158,6 +158,40 @@ entry fun replace_data_entry(
     medical_passport::replace_data_entry(passport, data_type, seal_id, metadata_blob_id, clock)
 }
 
+/// 既存データ種の EntryData を、記録済みの値が想定どおりのときだけ置き換える
+///
+/// ## 用途
+/// - 複数端末からの保存での上書き防止（compare-and-swap）
+/// - 読み込み時点の metadata_blob_id を渡し、他端末が先に保存していれば abort する
+///
+/// ## パラメータ
+/// - `passport`: MedicalPassportへの可変参照
+/// - `data_type`: 置き換えるデータ種キー（文字列）
+/// - `seal_id`: 新しい Seal 暗号化 ID（バイナリ形式）
+/// - `metadata_blob_id`: 新しいメタデータBlob ID（空文字不可）
+/// - `expected_metadata_blob_id`: 置き換え前に記録されているはずのメタデータBlob ID
+/// - `clock`: Sui Clock（タイムスタンプ取得用）
+///
+/// ## Aborts
+/// - `E_DATA_ENTRY_CONFLICT`: 記録済みのメタデータBlob IDが想定と異なる
+entry fun replace_data_entry_if_current(
+    passport: &mut MedicalPassport,
+    data_type: String,
+    seal_id: vector<u8>,
+    metadata_blob_id: String,
+    expected_metadata_blob_id: String,
+    clock: &Clock
+) {
+    medical_passport::replace_data_entry_if_current(
+        passport,
+        data_type,
+        seal_id,
+        metadata_blob_id,
+        expected_metadata_blob_id,
+        clock
+    )
+}
+
 /// データ種の EntryData を取得
 ///
 /// ## パラメータ
@@ -251,7 +285,7 @@ public fun has_passport(registry: &PassportRegistry, owner: address): bool {
 /// 2. `passport`のIDを取得
 /// 3. `PassportRegistry`の`address -> object::ID`マッピングで、特定のパスポートがsenderのものかを確認
 /// 4. senderが指定パスポートを所有していなければabort（アクセス拒否）
-/// 5. 要求されたseal_idがEntryDataに格納されたseal_idと一致するかを確認
+/// 5. 要求されたseal_idがEntryDataに格納されたseal_id（またはそのエントリ固有seal_id）と一致するかを確認
 /// 6. 一致しなければabort、一致すれば関数終了（アクセス許可）
 ///
 /// ## パラメータ
@@ -292,7 +326,8 @@ entry fun seal_approve_patient_only(
 /// 3. 現在時刻を取得
 /// 4. 有効期限を計算（現在時刻 + duration_ms）
 /// 5. ConsentTokenを生成
-/// 6. 共有オブジェクトとして公開
+/// 6. `ConsentTokenCreatedEvent`を発行
+/// 7. 共有オブジェクトとして公開
 ///
 /// ## パラメータ
 /// - `passport`: パスポートオブジェクトへの参照（IDと所有者検証用）
@@ -337,7 +372,8 @@ entry fun create_consent_token(
         ctx
     );
 
-    // 共有オブジェクトとして公開
+    // 作成イベントを発行し、共有オブジェクトとして公開
+    consent_token::emit_created_event(&token);
     consent_token::share_consent_token(token);
 }
 
@@ -355,6 +391,7 @@ entry fun create_consent_token(
 /// 1. トランザクション送信者を取得
 /// 2. 送信者がトークンのgrantorと一致することを確認
 /// 3. `consent_token::revoke_consent_internal()`を呼び出して無効化
+/// 4. `ConsentTokenRevokedEvent`を発行
 ///
 /// ## パラメータ
 /// - `token`: 無効化するトークン（共有オブジェクト）
@@ -376,6 +413,49 @@ entry fun revoke_consent_token(
 
     // トークンを無効化
     consent_token::revoke_consent_internal(token, sender);
+    consent_token::emit_revoked_event(token);
+}
+
+/// ConsentTokenによる復号試行を記録する
+///
+/// ## 概要
+/// `seal_approve_consent`はDry Run専用で記録を残せないため、
+/// 医師側アプリが復号の後にこの関数を呼び出し、患者がアクセス履歴を確認できるようにします。
+///
+/// ## 権限
+/// - 有効なトークンであれば誰でも呼び出し可能（記録者のアドレスがそのまま`accessor`として残る）
+/// - 記録内容（`success`を含む）は呼び出し元の自己申告で、鍵サーバーでの復号とは照合されない
+///
+/// ## 動作
+/// 1. トークンが有効（未失効・期限内）であることを確認（共有終了後の記録を防止）
+/// 2. `scope`がトークンのscopesに含まれることを確認（無関係なスコープの記録を防止）
+/// 3. `ConsentAccessLoggedEvent`を発行
+///
+/// ## パラメータ
+/// - `token`: 使用したConsentToken（共有オブジェクト）
+/// - `scope`: 使用したスコープ（データ種、またはエントリ単位の`"<data_type>#<nonce hex>"`）
+/// - `success`: 復号に成功したか
+/// - `clock`: Sui Clock（記録時刻取得用）
+/// - `ctx`: トランザクションコンテキスト（送信者取得用）
+///
+/// ## Aborts
+/// - `E_CONSENT_REVOKED`: トークンが無効化されている
+/// - `E_CONSENT_EXPIRED`: 有効期限切れ
+/// - `E_SCOPE_NOT_ALLOWED`: スコープがトークンに含まれていない
+entry fun log_consent_access(
+    token: &ConsentToken,
+    scope: String,
+    success: bool,
+    clock: &Clock,
+    ctx: &tx_context::TxContext
+) {
+    assert!(consent_token::is_active(token), consent_token::e_consent_revoked());
+    assert!(
+        sui::clock::timestamp_ms(clock) < consent_token::get_expiration(token),
+        consent_token::e_consent_expired()
+    );
+    consent_token::verify_scope(token, scope);
+    consent_token::emit_access_event(token, tx_context::sender(ctx), scope, success, clock);
 }
 
 /// Seal用アクセス検証関数（Dry Run専用）
@@ -387,7 +467,7 @@ entry fun revoke_consent_token(
 /// この関数がabortしなければ、復号鍵の提供が許可されます。
 ///
 /// ## アクセス制御ロジック
-/// 1. 要求されたseal_idがEntryDataに格納されたseal_idと一致するかを確認
+/// 1. 要求されたseal_idがEntryDataに格納されたseal_id（またはそのエントリ固有seal_id）と一致するかを確認
 /// 2. `auth_payload`（BCSエンコードされた`SealAuthPayload`）をデシリアライズ
 /// 3. Payloadを分解して`secret`と`target_passport_id`、`requested_scope`を取得
 /// 4. `data_type`とPayload内の`requested_scope`が一致することを確認
@@ -395,7 +475,8 @@ entry fun revoke_consent_token(
 /// 6. 有効期限を確認
 /// 7. パスポートIDの整合性を確認（Payloadの`target_passport_id`とTokenの`passport_id`、passportのIDが一致するか）
 /// 8. ハッシュロック検証（生`secret`をハッシュ化し、オンチェーンの`secret_hash`と比較）
-/// 9. スコープ検証（`data_type`がTokenのscopesに含まれているか）
+/// 9. スコープ検証（`data_type`がTokenのscopesに含まれているか。
+///    エントリ固有seal_idは`"<data_type>#<nonce hex>"`のスコープでも可）
 ///
 /// ## パラメータ
 /// - `id`: 要求されたSeal ID（UTF-8バイト）
@@ -429,11 +510,11 @@ entry fun seal_approve_consent(
     clock: &Clock
 ) {
     // 1. Seal ID検証
-    // EntryDataを取得し、要求されたseal_idが一致するかを確認
-    // MystenLabs Seal公式パターンに準拠したバイナリ同士の直接比較
+    // EntryDataを取得し、要求されたseal_id（またはエントリ固有seal_id）が一致するかを確認
+    // エントリ固有seal_idの場合はnonceを受け取り、スコープ検証に使用
     let entry = medical_passport::get_data_entry(passport, data_type);
     let stored_seal_id = medical_passport::get_entry_seal_id(entry);
-    assert!(id == *stored_seal_id, seal_accessor::e_invalid_seal_id());
+    let entry_nonce = seal_accessor::assert_seal_id(&id, stored_seal_id);
 
     // 2. BCSデシリアライズ（peel_*系の関数を使用）
     // SealAuthPayload構造体をauth_payloadから読み取る
@@ -466,8 +547,13 @@ entry fun seal_approve_consent(
 
     // 7. スコープ検証
     // ConsentTokenのscopesフィールドにdata_typeが含まれているかを確認
+    // エントリ固有seal_idは"<data_type>#<nonce hex>"のスコープでも許可
     // スコープが許可されていない場合はE_SCOPE_NOT_ALLOWEDでabort
-    consent_token::verify_scope(token, data_type);
+    if (vector::is_empty(&entry_nonce)) {
+        consent_token::verify_scope(token, data_type);
+    } else {
+        consent_token::verify_entry_scope(token, data_type, entry_nonce);
+    };
 
     // 検証成功（関数終了 = Sealが「OK」と判断）
 }
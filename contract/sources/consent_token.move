@@ -8,13 +8,16 @@
 /// - トークン作成のバリデーション
 /// - フィールドアクセス（getter関数）
 /// - Payload分解関数
+/// - 作成・無効化イベントの発行（フロントエンドのトークン一覧用）
+/// - アクセス記録イベントの発行（患者向けアクセス履歴用）
 ///
 /// ## 注意
 /// - 公開APIは `accessor.move` に集約
 module cure_pocket::consent_token;
 
 use sui::clock::Clock;
-use std::string::String;
+use sui::hex;
+use std::string::{Self as string, String};
 use std::hash;
 
 // ============================================================
@@ -34,6 +37,7 @@ use std::hash;
 /// - `grantor`: 発行者（患者）のアドレス
 /// - `secret_hash`: 合言葉のハッシュ（sha3_256）
 /// - `scopes`: 閲覧許可スコープ（例: "medication", "lab_results"）
+///   個別エントリのみの共有は "<data_type>#<nonce hex>"（例: "lab_results#9f2c..."）
 /// - `expiration_ms`: 有効期限（Unix timestamp ms）
 /// - `is_active`: 有効フラグ（患者が無効化可能）
 public struct ConsentToken has key, store {
@@ -70,6 +74,60 @@ public struct SealAuthPayload has drop {
     requested_scope: String,
 }
 
+/// ConsentToken作成イベント
+///
+/// ## 用途
+/// - 患者が発行したConsentTokenをオフチェーンで列挙する（送信者でイベントを検索）
+/// - 現在の状態（有効/無効化）はトークンオブジェクト自体から取得する
+///
+/// ## フィールド
+/// - `token_id`: 作成されたConsentTokenのID
+/// - `passport_id`: 紐づくパスポートID
+/// - `grantor`: 発行者（患者）のアドレス
+/// - `scopes`: 閲覧許可スコープ
+/// - `expiration_ms`: 有効期限（Unix timestamp ms）
+public struct ConsentTokenCreatedEvent has copy, drop {
+    token_id: object::ID,
+    passport_id: object::ID,
+    grantor: address,
+    scopes: vector<String>,
+    expiration_ms: u64,
+}
+
+/// ConsentToken無効化イベント
+///
+/// ## フィールド
+/// - `token_id`: 無効化されたConsentTokenのID
+/// - `passport_id`: 紐づくパスポートID
+/// - `grantor`: 発行者（患者）のアドレス
+public struct ConsentTokenRevokedEvent has copy, drop {
+    token_id: object::ID,
+    passport_id: object::ID,
+    grantor: address,
+}
+
+/// ConsentTokenによる復号試行の記録イベント
+///
+/// ## 用途
+/// - 医師がQRコードで患者データを復号した（または失敗した）ことを患者に示す
+/// - `seal_approve_consent`はDry Run専用のため、復号後に医師側アプリが別トランザクションで記録する
+///
+/// ## フィールド
+/// - `token_id`: 使用されたConsentTokenのID
+/// - `passport_id`: 紐づくパスポートID
+/// - `accessor`: 復号を試みたアドレス（医師）
+/// - `scope`: 使用されたスコープ（トークンのscopesのいずれか）
+/// - `success`: 復号に成功したか
+/// - `timestamp_ms`: 記録時刻（Unix timestamp ms）
+public struct ConsentAccessLoggedEvent has copy, drop {
+    token_id: object::ID,
+    passport_id: object::ID,
+    accessor: address,
+    scope: String,
+    success: bool,
+    timestamp_ms: u64,
+}
+
 /// テスト専用: ConsentToken を破棄
 #[test_only]
 public fun destroy_consent_token_for_tests(token: ConsentToken) {
@@ -397,6 +455,61 @@ public(package) fun share_consent_token(token: ConsentToken) {
     sui::transfer::share_object(token);
 }
 
+// ============================================================
+// パッケージ内部関数: イベント発行
+// ============================================================
+
+/// ConsentToken作成イベントを発行
+///
+/// ## パラメータ
+/// - `token`: 作成されたConsentToken（共有前に呼び出す）
+public(package) fun emit_created_event(token: &ConsentToken) {
+    sui::event::emit(ConsentTokenCreatedEvent {
+        token_id: object::id(token),
+        passport_id: token.passport_id,
+        grantor: token.grantor,
+        scopes: token.scopes,
+        expiration_ms: token.expiration_ms,
+    });
+}
+
+/// ConsentToken無効化イベントを発行
+///
+/// ## パラメータ
+/// - `token`: 無効化されたConsentToken
+public(package) fun emit_revoked_event(token: &ConsentToken) {
+    sui::event::emit(ConsentTokenRevokedEvent {
+        token_id: object::id(token),
+        passport_id: token.passport_id,
+        grantor: token.grantor,
+    });
+}
+
+/// 復号試行の記録イベントを発行
+///
+/// ## パラメータ
+/// - `token`: 使用されたConsentToken
+/// - `accessor`: 復号を試みたアドレス
+/// - `scope`: 使用されたスコープ（呼び出し側で`verify_scope`済み）
+/// - `success`: 復号に成功したか
+/// - `clock`: Sui Clock（記録時刻取得用）
+public(package) fun emit_access_event(
+    token: &ConsentToken,
+    accessor: address,
+    scope: String,
+    success: bool,
+    clock: &Clock
+) {
+    sui::event::emit(ConsentAccessLoggedEvent {
+        token_id: object::id(token),
+        passport_id: token.passport_id,
+        accessor,
+        scope,
+        success,
+        timestamp_ms: sui::clock::timestamp_ms(clock),
+    });
+}
+
 // ============================================================
 // パッケージ内部関数: ConsentToken無効化
 // ============================================================
@@ -511,18 +624,50 @@ public(package) fun verify_scope(
     token: &ConsentToken,
     requested_scope: String
 ) {
+    // スコープが見つからなかった場合はabort
+    assert!(has_scope(token, &requested_scope), E_SCOPE_NOT_ALLOWED);
+}
+
+/// エントリ固有seal_idのスコープ検証関数
+///
+/// ## 概要
+/// エントリ固有seal_id（seal_id || nonce）で暗号化されたデータBlobは、
+/// データ種全体のスコープ（例: "lab_results"）か、
+/// そのエントリだけのスコープ（例: "lab_results#<nonce hex>"）のどちらかで復号を許可します。
+///
+/// ## パラメータ
+/// - `token`: ConsentTokenへの参照
+/// - `data_type`: データ種別
+/// - `entry_nonce`: エントリ固有seal_idのnonce（バイナリ）
+///
+/// ## Aborts
+/// - `E_SCOPE_NOT_ALLOWED`: どちらのスコープも許可されていない
+public(package) fun verify_entry_scope(
+    token: &ConsentToken,
+    data_type: String,
+    entry_nonce: vector<u8>
+) {
+    if (has_scope(token, &data_type)) {
+        return // データ種全体が共有されている
+    };
+
+    let mut entry_scope = data_type;
+    string::append_utf8(&mut entry_scope, b"#");
+    string::append_utf8(&mut entry_scope, hex::encode(entry_nonce));
+    assert!(has_scope(token, &entry_scope), E_SCOPE_NOT_ALLOWED);
+}
+
+/// スコープが含まれているかを判定（文字列の完全一致）
+fun has_scope(token: &ConsentToken, requested_scope: &String): bool {
     let scopes = get_scopes(token);
     let len = vector::length(scopes);
     let mut i = 0;
-    
+
     while (i < len) {
-        let scope = vector::borrow(scopes, i);
-        if (*scope == requested_scope) {
-            return // スコープが見つかったので検証成功
+        if (vector::borrow(scopes, i) == requested_scope) {
+            return true
         };
         i = i + 1;
     };
-    
-    // スコープが見つからなかった場合はabort
-    abort E_SCOPE_NOT_ALLOWED
+    false
 }
@@ -182,6 +182,9 @@ const E_INVALID_DATA_TYPE: u64 = 13;
 /// データエントリの Seal ID が空
 const E_EMPTY_ENTRY_SEAL_ID: u64 = 14;
 
+/// 置き換え対象のメタデータBlob IDが想定と異なる（他の端末が先に保存した）
+const E_DATA_ENTRY_CONFLICT: u64 = 15;
+
 // ============================================================
 // エラーコードゲッター
 // ============================================================
@@ -481,6 +484,46 @@ public(package) fun replace_data_entry(
     };
 }
 
+/// EntryData が想定どおりのときだけ置き換える（compare-and-swap）
+///
+/// ## 用途
+/// - 複数端末からの保存で、他端末の変更を黙って上書きしないようにする
+/// - クライアントは読み込んだ時点の metadata_blob_id を `expected_metadata_blob_id` に渡し、
+///   不一致で abort したら最新のメタデータとマージして保存し直す
+///
+/// ## パラメータ
+/// - `passport`: MedicalPassport への可変参照
+/// - `data_type`: 置き換えるデータ種キー（文字列）
+/// - `seal_id`: 新しい Seal 暗号化 ID（バイナリ形式）
+/// - `metadata_blob_id`: 新しいメタデータBlob ID（空文字不可）
+/// - `expected_metadata_blob_id`: 置き換え前に記録されているはずのメタデータBlob ID
+/// - `clock`: Sui Clock（タイムスタンプ取得用）
+///
+/// ## Aborts
+/// - `E_DATA_ENTRY_NOT_FOUND`: 指定キーが未登録
+/// - `E_DATA_ENTRY_CONFLICT`: 記録済みのメタデータBlob IDが`expected_metadata_blob_id`と異なる
+/// - その他は `replace_data_entry` と同じ
+public(package) fun replace_data_entry_if_current(
+    passport: &mut MedicalPassport,
+    data_type: String,
+    seal_id: vector<u8>,
+    metadata_blob_id: String,
+    expected_metadata_blob_id: String,
+    clock: &Clock
+) {
+    assert!(
+        df::exists_<String>(&passport.id, data_type),
+        E_DATA_ENTRY_NOT_FOUND
+    );
+    let current = df::borrow<String, EntryData>(&passport.id, data_type);
+    assert!(
+        current.metadata_blob_id == expected_metadata_blob_id,
+        E_DATA_ENTRY_CONFLICT
+    );
+
+    replace_data_entry(passport, data_type, seal_id, metadata_blob_id, clock);
+}
+
 /// 指定データ種の EntryData を取得
 ///
 /// ## パラメータ
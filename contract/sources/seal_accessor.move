@@ -26,6 +26,12 @@ const E_NO_ACCESS: u64 = 102;
 /// Seal IDが登録済みのEntryDataのseal_idと一致しない
 const E_INVALID_SEAL_ID: u64 = 103;
 
+/// エントリ固有seal_idのnonce長（bytes）
+///
+/// エントリ固有seal_id = EntryDataのseal_id || nonce（16 bytes）
+/// 処方箋・検査日・画像検査など個別のパーティションだけを共有するために使用
+const ENTRY_NONCE_LENGTH: u64 = 16;
+
 /// E_NO_ACCESS エラーコードを取得
 ///
 /// ## 用途
@@ -50,6 +56,54 @@ public(package) fun e_invalid_seal_id(): u64 {
     E_INVALID_SEAL_ID
 }
 
+// ============================================================
+// Seal ID検証
+// ============================================================
+
+/// 要求されたSeal IDがEntryDataのseal_id、またはそのエントリ固有seal_idであることを確認
+///
+/// ## 概要
+/// データ種のseal_idそのもの（メタデータBlobと通常のデータBlob）に加えて、
+/// seal_idの後ろにnonceを付けたエントリ固有seal_id（個別共有用のデータBlob）を許可する。
+/// エントリ固有seal_idはEntryDataのseal_idを前置するため、ローテーション後は無効になる。
+///
+/// ## パラメータ
+/// - `id`: 要求されたSeal ID（バイナリ）
+/// - `stored_seal_id`: EntryDataに格納されたseal_id（バイナリ）
+///
+/// ## 返り値
+/// - エントリ固有seal_idの場合はnonce、データ種のseal_idの場合は空のvector
+///
+/// ## Aborts
+/// - `E_INVALID_SEAL_ID`: どちらの形式とも一致しない
+public(package) fun assert_seal_id(
+    id: &vector<u8>,
+    stored_seal_id: &vector<u8>
+): vector<u8> {
+    if (id == stored_seal_id) {
+        return vector::empty()
+    };
+
+    let prefix_length = vector::length(stored_seal_id);
+    assert!(
+        vector::length(id) == prefix_length + ENTRY_NONCE_LENGTH,
+        E_INVALID_SEAL_ID
+    );
+
+    let mut nonce = vector::empty<u8>();
+    let mut i = 0;
+    while (i < vector::length(id)) {
+        let byte = *vector::borrow(id, i);
+        if (i < prefix_length) {
+            assert!(byte == *vector::borrow(stored_seal_id, i), E_INVALID_SEAL_ID);
+        } else {
+            vector::push_back(&mut nonce, byte);
+        };
+        i = i + 1;
+    };
+    nonce
+}
+
 // ============================================================
 // Sealアクセス制御関数
 // ============================================================
@@ -66,7 +120,7 @@ public(package) fun e_invalid_seal_id(): u64 {
 /// 2. `passport`のIDを取得
 /// 3. `PassportRegistry`の`address -> object::ID`マッピングで、特定のパスポートがsenderのものかを確認
 /// 4. senderが指定パスポートを所有していなければabort（アクセス拒否）
-/// 5. 要求されたseal_idがEntryDataに格納されたseal_idと一致するかを確認
+/// 5. 要求されたseal_idがEntryDataに格納されたseal_id（またはそのエントリ固有seal_id）と一致するかを確認
 /// 6. 一致しなければabort、一致すれば関数終了（アクセス許可）
 ///
 /// ## 注意
@@ -105,9 +159,9 @@ public(package) fun seal_approve_patient_only_internal(
     let entry = medical_passport::get_data_entry(passport, data_type);
     let stored_seal_id = medical_passport::get_entry_seal_id(entry);
 
-    // 5. 要求されたid（バイナリ）と保存されたseal_id（バイナリ）を直接比較
-    // MystenLabs Seal公式パターンに準拠したバイナリ同士の比較
-    assert!(id == *stored_seal_id, E_INVALID_SEAL_ID);
+    // 5. 要求されたid（バイナリ）と保存されたseal_id（バイナリ）を比較
+    // 患者本人はエントリ固有seal_id（seal_id || nonce）も復号できる
+    assert_seal_id(&id, stored_seal_id);
 
     // 6. すべての検証をパスすれば関数終了（Sealが「OK」と判断）
 }
@@ -40,6 +40,23 @@ module cure_pocket::consent_token_tests {
         scopes
     }
 
+    // テストヘルパー: USER1のConsentTokenを共有オブジェクトとして作成
+    fun share_test_token(scenario: &mut ts::Scenario) {
+        ts::next_tx(scenario, USER1);
+        let clock = clock::create_for_testing(ts::ctx(scenario));
+        let token = consent_token::create_consent_internal(
+            object::id_from_address(PASSPORT_ID),
+            USER1,
+            create_test_secret_hash(),
+            create_test_scopes(),
+            86400000u64,
+            &clock,
+            ts::ctx(scenario)
+        );
+        consent_token::share_consent_token(token);
+        clock::destroy_for_testing(clock);
+    }
+
     // テストヘルパー: テスト用MedicalPassportを作成
     fun create_test_passport(ctx: &mut sui::tx_context::TxContext): MedicalPassport {
         let country_code = string::utf8(b"JP");
@@ -1492,4 +1509,260 @@ module cure_pocket::consent_token_tests {
 
         ts::end(scenario);
     }
+
+    // ============================================================
+    // エントリ固有seal_idテスト
+    // ============================================================
+
+    // テストヘルパー: エントリ固有seal_idのnonce（16 bytes）
+    fun create_test_entry_nonce(): vector<u8> {
+        x"0102030405060708090a0b0c0d0e0f10"
+    }
+
+    // テストヘルパー: エントリ固有seal_id（EntryDataのseal_id || nonce）
+    fun create_test_entry_specific_seal_id(): vector<u8> {
+        let mut id = create_test_entry_seal_id();
+        vector::append(&mut id, create_test_entry_nonce());
+        id
+    }
+
+    // テストヘルパー: 指定スコープのトークンでseal_approve_consentを実行
+    fun approve_consent_with_scopes(scopes: vector<String>, id: vector<u8>) {
+        let mut scenario = ts::begin(USER1);
+        {
+            cure_pocket::init_for_testing(ts::ctx(&mut scenario));
+        };
+
+        let passport_id;
+        ts::next_tx(&mut scenario, USER1);
+        {
+            let clock = clock::create_for_testing(ts::ctx(&mut scenario));
+            let mut passport = create_test_passport(ts::ctx(&mut scenario));
+            passport_id = sui::object::id(&passport);
+            add_test_entry_data(&mut passport, &clock);
+            medical_passport::transfer_to(passport, USER1);
+
+            let token = consent_token::create_consent_internal(
+                passport_id,
+                USER1,
+                create_test_secret_hash(),
+                scopes,
+                86400000u64,
+                &clock,
+                ts::ctx(&mut scenario)
+            );
+            consent_token::share_consent_token(token);
+            clock::destroy_for_testing(clock);
+        };
+
+        ts::next_tx(&mut scenario, USER2);
+        {
+            let passport = ts::take_from_address<MedicalPassport>(&scenario, USER1);
+            let token = ts::take_shared<ConsentToken>(&scenario);
+            let clock = clock::create_for_testing(ts::ctx(&mut scenario));
+
+            let mut auth_payload = bcs::to_bytes(&create_test_secret());
+            vector::append(&mut auth_payload, bcs::to_bytes(&object::id_to_address(&passport_id)));
+            let requested_scope = string::utf8(b"medications");
+            vector::append(&mut auth_payload, bcs::to_bytes(&requested_scope));
+
+            accessor::seal_approve_consent(
+                id,
+                auth_payload,
+                &token,
+                &passport,
+                requested_scope,
+                &clock
+            );
+
+            ts::return_to_address(USER1, passport);
+            ts::return_shared(token);
+            clock::destroy_for_testing(clock);
+        };
+
+        ts::end(scenario);
+    }
+
+    /// エントリ単位のスコープでエントリ固有seal_idを復号できる
+    #[test]
+    fun test_entry_scope_allows_entry_seal_id() {
+        let scopes = vector[string::utf8(b"medications#0102030405060708090a0b0c0d0e0f10")];
+        approve_consent_with_scopes(scopes, create_test_entry_specific_seal_id());
+    }
+
+    /// データ種全体のスコープはエントリ固有seal_idも許可する
+    #[test]
+    fun test_data_type_scope_allows_entry_seal_id() {
+        approve_consent_with_scopes(create_test_scopes(), create_test_entry_specific_seal_id());
+    }
+
+    /// エントリ単位のスコープではメタデータ（データ種のseal_id）を復号できない
+    #[test]
+    #[expected_failure(abort_code = 209, location = consent_token)]
+    fun test_entry_scope_rejects_data_type_seal_id() {
+        let scopes = vector[string::utf8(b"medications#0102030405060708090a0b0c0d0e0f10")];
+        approve_consent_with_scopes(scopes, create_test_entry_seal_id());
+    }
+
+    /// 別エントリのスコープでは復号できない
+    #[test]
+    #[expected_failure(abort_code = 209, location = consent_token)]
+    fun test_entry_scope_rejects_other_entry() {
+        let scopes = vector[string::utf8(b"medications#ffffffffffffffffffffffffffffffff")];
+        approve_consent_with_scopes(scopes, create_test_entry_specific_seal_id());
+    }
+
+    /// 無効化でConsentTokenRevokedEventが1件発行される
+    ///
+    /// 仕様:
+    /// - ConsentTokenを作成
+    /// - accessor::revoke_consent_tokenで無効化
+    /// - 無効化トランザクションのユーザーイベントが1件であることを確認
+    #[test]
+    fun test_revoke_consent_token_emits_event() {
+        let mut scenario = ts::begin(USER1);
+
+        ts::next_tx(&mut scenario, USER1);
+        {
+            let clock = clock::create_for_testing(ts::ctx(&mut scenario));
+            let token = consent_token::create_consent_internal(
+                object::id_from_address(PASSPORT_ID),
+                USER1,
+                create_test_secret_hash(),
+                create_test_scopes(),
+                86400000u64,
+                &clock,
+                ts::ctx(&mut scenario)
+            );
+            consent_token::share_consent_token(token);
+            clock::destroy_for_testing(clock);
+        };
+
+        ts::next_tx(&mut scenario, USER1);
+        {
+            let mut token = ts::take_shared<ConsentToken>(&scenario);
+            accessor::revoke_consent_token(&mut token, ts::ctx(&mut scenario));
+            ts::return_shared(token);
+        };
+
+        let effects = ts::next_tx(&mut scenario, USER1);
+        assert!(ts::num_user_events(&effects) == 1, 0);
+
+        ts::end(scenario);
+    }
+
+    /// 復号試行の記録でConsentAccessLoggedEventが1件発行される
+    ///
+    /// 仕様:
+    /// - ConsentTokenを作成
+    /// - USER2（医師）がaccessor::log_consent_accessでスコープ内のアクセスを記録
+    /// - 記録トランザクションのユーザーイベントが1件であることを確認
+    #[test]
+    fun test_log_consent_access_emits_event() {
+        let mut scenario = ts::begin(USER1);
+        share_test_token(&mut scenario);
+
+        ts::next_tx(&mut scenario, USER2);
+        {
+            let token = ts::take_shared<ConsentToken>(&scenario);
+            let clock = clock::create_for_testing(ts::ctx(&mut scenario));
+            accessor::log_consent_access(
+                &token,
+                string::utf8(b"medications"),
+                true,
+                &clock,
+                ts::ctx(&mut scenario)
+            );
+            clock::destroy_for_testing(clock);
+            ts::return_shared(token);
+        };
+
+        let effects = ts::next_tx(&mut scenario, USER2);
+        assert!(ts::num_user_events(&effects) == 1, 0);
+
+        ts::end(scenario);
+    }
+
+    /// トークンに含まれないスコープのアクセスは記録できない
+    #[test]
+    #[expected_failure(abort_code = 209, location = consent_token)]
+    fun test_log_consent_access_rejects_unknown_scope() {
+        let mut scenario = ts::begin(USER1);
+        share_test_token(&mut scenario);
+
+        ts::next_tx(&mut scenario, USER2);
+        {
+            let token = ts::take_shared<ConsentToken>(&scenario);
+            let clock = clock::create_for_testing(ts::ctx(&mut scenario));
+            accessor::log_consent_access(
+                &token,
+                string::utf8(b"allergies"),
+                false,
+                &clock,
+                ts::ctx(&mut scenario)
+            );
+            clock::destroy_for_testing(clock);
+            ts::return_shared(token);
+        };
+
+        ts::end(scenario);
+    }
+
+    /// 失効したトークンではアクセスを記録できない
+    #[test]
+    #[expected_failure(abort_code = 201, location = accessor)]
+    fun test_log_consent_access_rejects_revoked_token() {
+        let mut scenario = ts::begin(USER1);
+        share_test_token(&mut scenario);
+
+        ts::next_tx(&mut scenario, USER1);
+        {
+            let mut token = ts::take_shared<ConsentToken>(&scenario);
+            accessor::revoke_consent_token(&mut token, ts::ctx(&mut scenario));
+            ts::return_shared(token);
+        };
+
+        ts::next_tx(&mut scenario, USER2);
+        {
+            let token = ts::take_shared<ConsentToken>(&scenario);
+            let clock = clock::create_for_testing(ts::ctx(&mut scenario));
+            accessor::log_consent_access(
+                &token,
+                string::utf8(b"medications"),
+                true,
+                &clock,
+                ts::ctx(&mut scenario)
+            );
+            clock::destroy_for_testing(clock);
+            ts::return_shared(token);
+        };
+
+        ts::end(scenario);
+    }
+
+    /// 期限切れのトークンではアクセスを記録できない
+    #[test]
+    #[expected_failure(abort_code = 202, location = accessor)]
+    fun test_log_consent_access_rejects_expired_token() {
+        let mut scenario = ts::begin(USER1);
+        share_test_token(&mut scenario);
+
+        ts::next_tx(&mut scenario, USER2);
+        {
+            let token = ts::take_shared<ConsentToken>(&scenario);
+            let mut clock = clock::create_for_testing(ts::ctx(&mut scenario));
+            clock::increment_for_testing(&mut clock, 86400000u64);
+            accessor::log_consent_access(
+                &token,
+                string::utf8(b"medications"),
+                false,
+                &clock,
+                ts::ctx(&mut scenario)
+            );
+            clock::destroy_for_testing(clock);
+            ts::return_shared(token);
+        };
+
+        ts::end(scenario);
+    }
 }
@@ -118,6 +118,78 @@ module cure_pocket::medical_passport_tests {
         ts::end(scenario);
     }
 
+    /// 記録済みのメタデータBlob IDが想定どおりなら置き換えられる
+    #[test]
+    fun replace_if_current_overwrites_when_expected_matches() {
+        let mut scenario = ts::begin(ADMIN);
+        {
+            let ctx = ts::ctx(&mut scenario);
+            let (country_code, analytics_opt_in) = passport_data();
+            let mut passport = medical_passport::create_passport_internal(
+                country_code,
+                analytics_opt_in,
+                ctx,
+            );
+
+            let clk = clock::create_for_testing(ctx);
+            let key = string::utf8(b"self_metrics");
+            accessor::add_data_entry(&mut passport, key, b"entry-seal-001", sample_metadata_blob_id(), &clk);
+            accessor::replace_data_entry_if_current(
+                &mut passport,
+                key,
+                b"entry-seal-001",
+                string::utf8(b"new_metadata_blob"),
+                sample_metadata_blob_id(),
+                &clk
+            );
+
+            let entry = accessor::get_data_entry(&passport, key);
+            let stored = accessor::get_entry_metadata_blob_id(entry);
+            assert!(*stored == string::utf8(b"new_metadata_blob"), 0);
+
+            accessor::remove_data_entry(&mut passport, key);
+            clock::destroy_for_testing(clk);
+            test_utils::destroy_passport(passport);
+        };
+        ts::end(scenario);
+    }
+
+    /// 他の端末が先に保存していた（想定と異なるメタデータBlob ID）場合は abort
+    #[test]
+    #[expected_failure(abort_code = 15, location = medical_passport)]
+    fun replace_if_current_aborts_on_stale_expected() {
+        let mut scenario = ts::begin(ADMIN);
+        {
+            let ctx = ts::ctx(&mut scenario);
+            let (country_code, analytics_opt_in) = passport_data();
+            let mut passport = medical_passport::create_passport_internal(
+                country_code,
+                analytics_opt_in,
+                ctx,
+            );
+
+            let clk = clock::create_for_testing(ctx);
+            let key = string::utf8(b"self_metrics");
+            accessor::add_data_entry(&mut passport, key, b"entry-seal-001", sample_metadata_blob_id(), &clk);
+            // 他の端末の保存
+            accessor::replace_data_entry(&mut passport, key, b"entry-seal-001", string::utf8(b"other_device_blob"), &clk);
+            // 古いBlob IDを前提にした保存は abort
+            accessor::replace_data_entry_if_current(
+                &mut passport,
+                key,
+                b"entry-seal-001",
+                string::utf8(b"stale_device_blob"),
+                sample_metadata_blob_id(),
+                &clk
+            );
+
+            accessor::remove_data_entry(&mut passport, key);
+            clock::destroy_for_testing(clk);
+            test_utils::destroy_passport(passport);
+        };
+        ts::end(scenario);
+    }
+
     #[test]
     #[expected_failure(abort_code = 11, location = medical_passport)]
     fun add_dynamic_field_duplicate_aborts() {
@@ -193,4 +193,36 @@ module cure_pocket::seal_accessor_tests {
         };
         ts::end(scenario);
     }
+
+    /// エントリ固有seal_id（seal_id || 16バイトnonce）はnonceを返す
+    #[test]
+    fun assert_seal_id_accepts_entry_seal_id() {
+        let stored = b"entry-seal-id-12345";
+        let nonce = x"0102030405060708090a0b0c0d0e0f10";
+        let mut id = stored;
+        vector::append(&mut id, nonce);
+
+        assert!(seal_accessor::assert_seal_id(&id, &stored) == nonce, 0);
+        assert!(vector::is_empty(&seal_accessor::assert_seal_id(&stored, &stored)), 1);
+    }
+
+    /// 別のseal_idを前置したidはE_INVALID_SEAL_ID(103)でabort
+    #[test]
+    #[expected_failure(abort_code = seal_accessor::E_INVALID_SEAL_ID)]
+    fun assert_seal_id_rejects_other_prefix() {
+        let stored = b"entry-seal-id-12345";
+        let mut id = b"entry-seal-id-99999";
+        vector::append(&mut id, x"0102030405060708090a0b0c0d0e0f10");
+        seal_accessor::assert_seal_id(&id, &stored);
+    }
+
+    /// nonce長が16バイトでないidはE_INVALID_SEAL_ID(103)でabort
+    #[test]
+    #[expected_failure(abort_code = seal_accessor::E_INVALID_SEAL_ID)]
+    fun assert_seal_id_rejects_wrong_nonce_length() {
+        let stored = b"entry-seal-id-12345";
+        let mut id = stored;
+        vector::append(&mut id, x"0102");
+        seal_accessor::assert_seal_id(&id, &stored);
+    }
 }
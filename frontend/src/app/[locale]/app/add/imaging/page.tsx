@@ -4,16 +4,20 @@ import { useCurrentAccount } from "@mysten/dapp-kit";
 import { useRouter } from "next/navigation";
 import { useLocale, useTranslations } from "next-intl";
 import { useState } from "react";
+import { toast } from "sonner";
 import { ImagingForm } from "@/components/forms/ImagingForm";
 import { useApp } from "@/contexts/AppContext";
+import { useOutbox } from "@/contexts/OutboxContext";
 import { useEncryptAndStore } from "@/hooks/useEncryptAndStore";
 import { usePassport } from "@/hooks/usePassport";
 import { useUpdatePassportData } from "@/hooks/useUpdatePassportData";
+import { addDataEntryWrite, createDataEntryBatch } from "@/lib/dataEntryBatch";
+import { DataEntryConflictError } from "@/lib/dataEntryConflict";
 import { createImagingMeta, generateDicomUIDs } from "@/lib/imagingHelpers";
 import { getDataEntry } from "@/lib/suiClient";
 import { getTheme } from "@/lib/themes";
 import type { ImagingReport } from "@/types";
-import type { ImagingMetadataEntry } from "@/types/metadata";
+import type { BaseMetadataEntry, ImagingMetadataEntry } from "@/types/metadata";
 
 /**
  * 画像レポートの追加フォームページ
@@ -30,10 +34,11 @@ export default function AddImagingPage() {
 	const { encryptAndStoreMultiple, encryptImage, progress, isEncrypting } =
 		useEncryptAndStore();
 	const {
-		updateMultiplePassportData,
+		commitDataEntryBatch,
 		isUpdating,
 		error: passportError,
 	} = useUpdatePassportData();
+	const { enqueue } = useOutbox();
 
 	const [uploadError, setUploadError] = useState<string | null>(null);
 
@@ -84,6 +89,10 @@ export default function AddImagingPage() {
 			}
 
 			const metaBlobId = metaResults[0].blobId;
+			const metaManifest = metaResults[0].manifest;
+			const metaEndEpoch = metaResults[0].endEpoch;
+			const metaSha256 = metaResults[0].sha256;
+			const metaSize = metaResults[0].size;
 
 			// v3.0.0: Create metadata blob with entry reference
 			// Check if data entries already exist to determine mode (add or replace)
@@ -98,13 +107,31 @@ export default function AddImagingPage() {
 			const shouldReplaceBinary = existingBinaryEntry !== null;
 
 			// Create metadata structure with entry pointing to data blob
-			const metadataEntry: ImagingMetadataEntry = {
+			const dataBlob: BaseMetadataEntry = {
 				blob_id: metaBlobId,
-				study_id: dicomUIDs.studyUid,
+				...(metaEndEpoch !== undefined && { end_epoch: metaEndEpoch }),
+				...(metaManifest && { chunk_manifest: metaManifest }),
+				...(metaSha256 && { sha256: metaSha256 }),
+				size: metaSize,
+			};
+			const studyFields = {
 				study_date: report.examDate || new Date().toISOString().split("T")[0],
 				modality: report.type || "other",
 				body_part: report.bodyPart || "",
 				binary_blob_id: binaryBlobId,
+				...(binaryResult.endEpoch !== undefined && {
+					binary_end_epoch: binaryResult.endEpoch,
+				}),
+				...(binaryResult.manifest && {
+					binary_chunk_manifest: binaryResult.manifest,
+				}),
+				...(binaryResult.sha256 && { binary_sha256: binaryResult.sha256 }),
+				binary_size: binaryResult.storedSize,
+			} satisfies Omit<ImagingMetadataEntry, "blob_id" | "study_id">;
+			const metadataEntry: ImagingMetadataEntry = {
+				...dataBlob,
+				study_id: dicomUIDs.studyUid,
+				...studyFields,
 			};
 
 			// v3.0.0: メタデータBlobを作成（暗号化・アップロード用）
@@ -133,22 +160,59 @@ export default function AddImagingPage() {
 
 			const metadataBlobId = metadataUploadResult[0].blobId;
 
-			// Update passport with imaging_meta and imaging_binary
-			await updateMultiplePassportData({
-				passportId: passport.id,
-				dataEntries: [
-					{
-						dataType: "imaging_meta",
-						metadataBlobId: metadataBlobId,
-						replace: shouldReplaceMetadata,
-					},
-					{
-						dataType: "imaging_binary",
-						metadataBlobId: binaryBlobId, // Binary uses data blob ID as metadata
-						replace: shouldReplaceBinary,
-					},
-				],
+			// Update passport with imaging_meta and imaging_binary (one signature)
+			// 読み込んだ時点のmetadata_blob_idから変わっていればabort（compare-and-swap）
+			let batch = createDataEntryBatch(passport.id);
+			batch = addDataEntryWrite(batch, {
+				dataType: "imaging_meta",
+				metadataBlobId: metadataBlobId,
+				replace: shouldReplaceMetadata,
+				expectedMetadataBlobId: existingMetaEntry?.metadataBlobId,
+			});
+			batch = addDataEntryWrite(batch, {
+				dataType: "imaging_binary",
+				metadataBlobId: binaryBlobId, // Binary uses data blob ID as metadata
+				replace: shouldReplaceBinary,
+				expectedMetadataBlobId: existingBinaryEntry?.metadataBlobId,
 			});
+			try {
+				await commitDataEntryBatch(batch);
+			} catch (error) {
+				if (!(error instanceof DataEntryConflictError)) {
+					throw error;
+				}
+				// 他端末が先に保存した: アップロード済みのBlobでアウトボックスに渡し、
+				// 現在のメタデータとstudy_id単位で三方向マージする
+				console.warn(
+					"[AddImaging] imaging_meta changed on another device, merging via outbox",
+				);
+				// imaging_binaryのEntryDataはseal_idを登録するだけ（画像Blobは
+				// studyのentryのbinary_blob_idから辿る）ので、未登録の場合のみ追加する
+				if (!existingBinaryEntry) {
+					await commitDataEntryBatch(
+						addDataEntryWrite(createDataEntryBatch(passport.id), {
+							dataType: "imaging_binary",
+							metadataBlobId: binaryBlobId,
+							replace: false,
+						}),
+					);
+				}
+				const result = await enqueue({
+					id: dicomUIDs.studyUid,
+					owner: currentAccount.address,
+					passportId: passport.id,
+					dataType: "imaging_meta",
+					partitionField: "study_id",
+					partitions: [
+						{ key: dicomUIDs.studyUid, blob: dataBlob, entry: studyFields },
+					],
+					// 新しいstudyのため、他端末で同じパーティションが作られていれば競合
+					baseEntries: { [dicomUIDs.studyUid]: null },
+				});
+				if (result === "queued") {
+					toast.info(t("storage.outbox.queued"));
+				}
+			}
 
 			// Success - navigate back
 			router.push(`/${locale}/app`);
@@ -13,10 +13,13 @@ import Image from "next/image";
 import { useRouter } from "next/navigation";
 import { useLocale, useTranslations } from "next-intl";
 import { useRef, useState } from "react";
+import { toast } from "sonner";
+import { v4 as uuidv4 } from "uuid";
 import { useApp } from "@/contexts/AppContext";
+import { useOutbox } from "@/contexts/OutboxContext";
 import { usePassport } from "@/hooks/usePassport";
 import { useSessionKeyManager } from "@/hooks/useSessionKeyManager";
-import { useUpdatePassportData } from "@/hooks/useUpdatePassportData";
+import { downloadEntryBlob } from "@/lib/blobIntegrity";
 import {
 	calculateFlag,
 	createMetaData,
@@ -29,22 +32,22 @@ import {
 	type LabGroupId,
 	mapOCRResultToFormValues,
 } from "@/lib/labResultsConverter";
+import { getBaseEntries } from "@/lib/outbox";
 import {
 	buildPatientAccessPTB,
-	calculateThreshold,
 	createSealClient,
 	decryptHealthData,
 	encryptHealthData,
-	SEAL_KEY_SERVERS,
+	getSealThreshold,
 } from "@/lib/seal";
-import { generateSealId } from "@/lib/sealIdGenerator";
+import { resolveSealId } from "@/lib/sealIdRotation";
 import { getDataEntry, PASSPORT_REGISTRY_ID } from "@/lib/suiClient";
 import { getTheme } from "@/lib/themes";
-import { downloadFromWalrusByBlobId, uploadToWalrus } from "@/lib/walrus";
+import { downloadFromWalrusByBlobId } from "@/lib/walrus";
 import type { LabResult, LabResultsData } from "@/types/healthData";
-import {
-	createEmptyMetadata,
-	type LabResultsMetadataEntry,
+import type {
+	LabResultsMetadata,
+	LabResultsMetadataEntry,
 } from "@/types/metadata";
 
 type InputMode = "image" | "manual";
@@ -95,7 +98,7 @@ export default function AddLabPage() {
 	const suiClient = useSuiClient();
 	const currentAccount = useCurrentAccount();
 	const { passport } = usePassport();
-	const { updatePassportData, isUpdating } = useUpdatePassportData();
+	const { enqueue } = useOutbox();
 	const { sessionKey } = useSessionKeyManager();
 
 	// 入力モード
@@ -233,13 +236,14 @@ export default function AddLabPage() {
 		setIsSaving(true);
 
 		try {
-			// seal_id を生成（lab_results タイプ用）
-			const labResultsSealId = await generateSealId(
-				currentAccount.address,
-				"lab_results",
-			);
+			// seal_id を取得（lab_results タイプ用、ローテーション済みならSBTの値）
+			const labResultsSealId = await resolveSealId({
+				passportId: passport.id,
+				address: currentAccount.address,
+				dataType: "lab_results",
+			});
 			console.log(
-				`[AddLab] Generated seal_id for lab_results: ${labResultsSealId.substring(0, 16)}...`,
+				`[AddLab] Resolved seal_id for lab_results: ${labResultsSealId.substring(0, 16)}...`,
 			);
 
 			// フォーム値をLabResultsDataに変換
@@ -256,19 +260,24 @@ export default function AddLabPage() {
 				gender,
 			);
 
-			// v3.0.0: 既存のlab_resultsメタデータを読み込む
+			// v3.0.0: test_dateでパーティション分割
+			// 同じ検査日のentryがあれば、そのデータBlobの結果だけをマージする
 			console.log("[AddLab] Loading existing lab_results metadata...");
-			const existingEntry = await getDataEntry(passport.id, "lab_results");
-
 			const existingLabResults: LabResult[] = [];
-			const isNewEntry = existingEntry === null;
+			// 読み込んだ時点の同日entryのBlob（他端末の同日変更との競合検出用）
+			let baseEntries: Record<string, string | null> | undefined;
 
-			if (existingEntry?.metadataBlobId) {
-				console.log(
-					`[AddLab] Found existing metadata blob: ${existingEntry.metadataBlobId.substring(0, 16)}...`,
-				);
+			try {
+				const existingEntry = await getDataEntry(passport.id, "lab_results");
+				if (!existingEntry?.metadataBlobId) {
+					baseEntries = { [testDate]: null };
+				}
+
+				if (existingEntry?.metadataBlobId) {
+					console.log(
+						`[AddLab] Found existing metadata blob: ${existingEntry.metadataBlobId.substring(0, 16)}...`,
+					);
 
-				try {
 					// SessionKeyチェック
 					if (!sessionKey) {
 						throw new Error(
@@ -292,52 +301,42 @@ export default function AddLabPage() {
 					const encryptedMetadata = await downloadFromWalrusByBlobId(
 						existingEntry.metadataBlobId,
 					);
-					const metadataData = await decryptHealthData({
+					const metadata = (await decryptHealthData({
 						encryptedData: encryptedMetadata,
 						sealClient,
 						sessionKey,
 						txBytes,
 						sealId: labResultsSealId,
-					});
-
-					const metadata = metadataData as unknown as {
-						entries: Array<{ blob_id: string }>;
-					};
-
-					// 各データBlobを読み込んでマージ
-					for (const entry of metadata.entries || []) {
-						try {
-							const encryptedData = await downloadFromWalrusByBlobId(
-								entry.blob_id,
-							);
-							const decryptedData = await decryptHealthData({
-								encryptedData,
-								sealClient,
-								sessionKey,
-								txBytes,
-								sealId: labResultsSealId,
-							});
-
-							const existingData = decryptedData as unknown as LabResultsData;
-							existingLabResults.push(...(existingData.lab_results || []));
-						} catch (blobError) {
-							console.error(
-								`[AddLab] Failed to load blob ${entry.blob_id}:`,
-								blobError,
-							);
-						}
+					})) as unknown as LabResultsMetadata;
+					baseEntries = getBaseEntries(metadata.entries || [], "test_date", [
+						testDate,
+					]);
+
+					// 同じ検査日のデータBlobを読み込んでマージ
+					for (const entry of (metadata.entries || []).filter(
+						(e) => e.test_date === testDate,
+					)) {
+						const encryptedData = await downloadEntryBlob(entry, "lab_results");
+						const existingData = (await decryptHealthData({
+							encryptedData,
+							sealClient,
+							sessionKey,
+							txBytes,
+							sealId: labResultsSealId,
+						})) as unknown as LabResultsData;
+						existingLabResults.push(...(existingData.lab_results || []));
 					}
 
 					console.log(
-						`[AddLab] Loaded ${existingLabResults.length} existing lab results`,
+						`[AddLab] Loaded ${existingLabResults.length} existing lab results for ${testDate}`,
 					);
-				} catch (error) {
-					console.error("[AddLab] Failed to load existing data:", error);
-					// 既存データの読み込みに失敗しても続行（新規データとして保存）
 				}
+			} catch (error) {
+				console.error("[AddLab] Failed to load existing data:", error);
+				// 既存データの読み込みに失敗しても続行（新規データとして保存）
 			}
 
-			// 既存のlab_results配列と新しいlab_results配列をマージ
+			// 同日の既存lab_results配列と新しいlab_results配列をマージ
 			const labResultsData: LabResultsData = {
 				meta: createMetaData(),
 				lab_results: [...existingLabResults, ...newLabResultsData.lab_results],
@@ -350,9 +349,9 @@ export default function AddLabPage() {
 
 			// Seal clientを作成
 			const sealClient = createSealClient(suiClient);
-			const threshold = calculateThreshold(SEAL_KEY_SERVERS.length);
+			const threshold = getSealThreshold();
 
-			// LabResultsDataを暗号化
+			// LabResultsDataを暗号化（アウトボックスには暗号化済みペイロードのみ保存）
 			const { encryptedObject } = await encryptHealthData({
 				healthData: labResultsData as unknown as never,
 				sealClient,
@@ -364,50 +363,30 @@ export default function AddLabPage() {
 				`[AddLab] Encrypted data size: ${encryptedObject.byteLength} bytes`,
 			);
 
-			// Walrusにアップロード（データBlob）
-			const walrusRef = await uploadToWalrus(encryptedObject);
-
-			console.log(
-				`[AddLab] Data blob upload complete, blobId: ${walrusRef.blobId}`,
-			);
-
-			// v3.0.0: メタデータBlobを作成してアップロード
-			const metadataEntry: LabResultsMetadataEntry = {
-				blob_id: walrusRef.blobId,
-				test_date: testDate,
+			// アウトボックス経由でアップロード・SBT更新（失敗時は自動リトライ）
+			const entry = {
 				facility: facility.trim(),
-				test_count: newLabResultsData.lab_results[0]?.items.length || 0,
-			};
-
-			const metadata = {
-				...createEmptyMetadata("lab_results"),
-				entries: [metadataEntry],
-			};
-
-			// メタデータを暗号化
-			const { encryptedObject: encryptedMetadata } = await encryptHealthData({
-				healthData: metadata as unknown as never,
-				sealClient,
-				sealId: labResultsSealId,
-				threshold,
-			});
-
-			// メタデータBlobをアップロード
-			const metadataRef = await uploadToWalrus(encryptedMetadata);
-			console.log(
-				`[AddLab] Metadata blob upload complete, blobId: ${metadataRef.blobId}`,
-			);
-
-			// パスポートのDynamic Fieldを更新
-			console.log("[AddLab] Updating passport data...");
-			await updatePassportData({
+				test_count: labResultsData.lab_results.reduce(
+					(count, result) => count + result.items.length,
+					0,
+				),
+			} satisfies Partial<LabResultsMetadataEntry>;
+
+			const result = await enqueue({
+				id: uuidv4(),
+				owner: currentAccount.address,
 				passportId: passport.id,
 				dataType: "lab_results",
-				metadataBlobId: metadataRef.blobId,
-				replace: !isNewEntry,
+				partitionField: "test_date",
+				partitions: [{ key: testDate, payload: encryptedObject, entry }],
+				baseEntries,
 			});
 
-			console.log("[AddLab] Save complete!");
+			if (result === "queued") {
+				toast.info(t("storage.outbox.queued"));
+			}
+
+			console.log(`[AddLab] Save ${result}`);
 			router.push(`/${locale}/app/labs`);
 		} catch (error) {
 			console.error("[AddLab] Save failed:", error);
@@ -793,11 +772,11 @@ export default function AddLabPage() {
 					<button
 						type="button"
 						onClick={handleSave}
-						disabled={isSaving || isUpdating}
+						disabled={isSaving}
 						className="w-full rounded-xl py-4 px-6 font-semibold text-white transition-all disabled:opacity-50 shadow-lg"
 						style={{ backgroundColor: theme.colors.primary }}
 					>
-						{isSaving || isUpdating ? (
+						{isSaving ? (
 							<>
 								<Loader2 className="inline mr-2 animate-spin" size={20} />
 								{t("common.saving") || "保存中..."}
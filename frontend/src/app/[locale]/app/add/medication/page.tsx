@@ -13,34 +13,22 @@ import Image from "next/image";
 import { useRouter } from "next/navigation";
 import { useLocale, useTranslations } from "next-intl";
 import { useRef, useState } from "react";
+import { toast } from "sonner";
 import { v4 as uuidv4 } from "uuid";
 import { DrugAutocomplete } from "@/components/DrugAutocomplete";
 import { useApp } from "@/contexts/AppContext";
+import { useOutbox } from "@/contexts/OutboxContext";
 import { usePassport } from "@/hooks/usePassport";
-import { useSessionKeyManager } from "@/hooks/useSessionKeyManager";
-import { useUpdatePassportData } from "@/hooks/useUpdatePassportData";
+import { prescriptionToMedicationsData } from "@/lib/prescriptionConverter";
 import {
-	createMetaData,
-	prescriptionToMedicationsData,
-} from "@/lib/prescriptionConverter";
-import {
-	buildPatientAccessPTB,
-	calculateThreshold,
 	createSealClient,
-	decryptHealthData,
 	encryptHealthData,
-	SEAL_KEY_SERVERS,
+	getSealThreshold,
 } from "@/lib/seal";
-import { generateSealId } from "@/lib/sealIdGenerator";
-import { getDataEntry, PASSPORT_REGISTRY_ID } from "@/lib/suiClient";
+import { resolveSealId } from "@/lib/sealIdRotation";
 import { getTheme } from "@/lib/themes";
-import { downloadFromWalrusByBlobId, uploadToWalrus } from "@/lib/walrus";
 import type { Prescription, PrescriptionMedication } from "@/types";
-import type { Medication, MedicationsData } from "@/types/healthData";
-import {
-	createEmptyMetadata,
-	type MedicationsMetadataEntry,
-} from "@/types/metadata";
+import type { MedicationsMetadataEntry } from "@/types/metadata";
 
 type InputMode = "image" | "manual";
 
@@ -87,8 +75,7 @@ export default function AddPrescriptionPage() {
 	const suiClient = useSuiClient();
 	const currentAccount = useCurrentAccount();
 	const { passport } = usePassport();
-	const { updatePassportData, isUpdating } = useUpdatePassportData();
-	const { sessionKey } = useSessionKeyManager();
+	const { enqueue } = useOutbox();
 
 	// 入力モード
 	const [inputMode, setInputMode] = useState<InputMode>("image");
@@ -232,13 +219,14 @@ export default function AddPrescriptionPage() {
 		}
 
 		try {
-			// seal_id を生成（medications タイプ用）
-			const medicationsSealId = await generateSealId(
-				currentAccount.address,
-				"medications",
-			);
+			// seal_id を取得（medications タイプ用、ローテーション済みならSBTの値）
+			const medicationsSealId = await resolveSealId({
+				passportId: passport.id,
+				address: currentAccount.address,
+				dataType: "medications",
+			});
 			console.log(
-				`[AddMedication] Generated seal_id for medications: ${medicationsSealId.substring(0, 16)}...`,
+				`[AddMedication] Resolved seal_id for medications: ${medicationsSealId.substring(0, 16)}...`,
 			);
 			// 処方箋オブジェクトを作成
 			const prescription: Prescription = {
@@ -269,126 +257,22 @@ export default function AddPrescriptionPage() {
 			// PrescriptionをMedicationsData (JSON形式) に変換
 			const newMedicationsData = prescriptionToMedicationsData(prescription);
 
-			// v3.0.0: 既存のmedicationsメタデータを読み込む
-			console.log("[AddMedication] Loading existing medications metadata...");
-			const existingEntry = await getDataEntry(passport.id, "medications");
-
-			const existingMedications: Medication[] = [];
-			const isNewEntry = existingEntry === null;
-
-			if (existingEntry?.metadataBlobId) {
-				console.log(
-					`[AddMedication] Found existing metadata blob: ${existingEntry.metadataBlobId.substring(0, 16)}...`,
-				);
-
-				try {
-					// SessionKeyチェック
-					if (!sessionKey) {
-						throw new Error(
-							"SessionKeyが見つかりません。再度ログインしてください。",
-						);
-					}
-
-					// PTBを準備
-					const txBytes = await buildPatientAccessPTB({
-						passportObjectId: passport.id,
-						registryObjectId: PASSPORT_REGISTRY_ID,
-						suiClient,
-						sealId: medicationsSealId,
-						dataType: "medications",
-					});
-
-					// Seal clientを作成
-					const sealClient = createSealClient(suiClient);
-
-					// メタデータBlobをダウンロード・復号化
-					const encryptedMetadata = await downloadFromWalrusByBlobId(
-						existingEntry.metadataBlobId,
-					);
-					const metadataData = await decryptHealthData({
-						encryptedData: encryptedMetadata,
-						sealClient,
-						sessionKey,
-						txBytes,
-						sealId: medicationsSealId,
-					});
-
-					const metadata = metadataData as unknown as {
-						entries: Array<{ blob_id: string }>;
-					};
-
-					// 各データBlobを読み込んでマージ
-					for (const entry of metadata.entries || []) {
-						try {
-							const encryptedData = await downloadFromWalrusByBlobId(
-								entry.blob_id,
-							);
-							const decryptedData = await decryptHealthData({
-								encryptedData,
-								sealClient,
-								sessionKey,
-								txBytes,
-								sealId: medicationsSealId,
-							});
-
-							const existingData = decryptedData as unknown as MedicationsData;
-							existingMedications.push(...(existingData.medications || []));
-						} catch (blobError) {
-							console.error(
-								`[AddMedication] Failed to load blob ${entry.blob_id}:`,
-								blobError,
-							);
-						}
-					}
-
-					console.log(
-						`[AddMedication] Loaded ${existingMedications.length} existing medications`,
-					);
-				} catch (error) {
-					console.error("[AddMedication] Failed to load existing data:", error);
-					// 既存データの読み込みに失敗しても続行（新規データとして保存）
-				}
-			}
-
-			// 既存のmedications配列と新しいmedications配列をマージ
-			const medicationsData: MedicationsData = {
-				meta: createMetaData(),
-				medications: [
-					...existingMedications,
-					...newMedicationsData.medications,
-				],
-			};
-
-			// 暗号化前のデータを詳細に表示
-			console.log(
-				"[AddMedication] ========== MedicationsData Before Encryption ==========",
-			);
-			console.log("[AddMedication] Type:", typeof medicationsData);
-			console.log("[AddMedication] Raw medicationsData:", medicationsData);
-			console.log(
-				"[AddMedication] JSON stringified:",
-				JSON.stringify(medicationsData, null, 2),
-			);
-			console.log("[AddMedication] Keys:", Object.keys(medicationsData || {}));
+			// v3.0.0: データBlobには今回の処方箋のみを格納し、prescription_idでパーティション分割
+			// （既存の処方箋は別entryとして残る）
 			console.log(
 				"[AddMedication] Medications count:",
-				medicationsData.medications?.length || 0,
-			);
-			console.log(
-				"[AddMedication] =============================================",
+				newMedicationsData.medications.length,
 			);
 
-			// 直接暗号化・アップロード
-			console.log("[AddMedication] Encrypting and uploading to Walrus...");
+			// 暗号化（アウトボックスには暗号化済みペイロードのみ保存）
+			console.log("[AddMedication] Encrypting medications data...");
 			setIsSaving(true);
 
-			// Seal clientを作成
 			const sealClient = createSealClient(suiClient);
-			const threshold = calculateThreshold(SEAL_KEY_SERVERS.length);
+			const threshold = getSealThreshold();
 
-			// MedicationsDataを暗号化
 			const { encryptedObject } = await encryptHealthData({
-				healthData: medicationsData as unknown as never,
+				healthData: newMedicationsData as unknown as never,
 				sealClient,
 				sealId: medicationsSealId,
 				threshold,
@@ -398,56 +282,40 @@ export default function AddPrescriptionPage() {
 				`[AddMedication] Encrypted data size: ${encryptedObject.byteLength} bytes`,
 			);
 
-			// Walrusにアップロード（データBlob）
-			const walrusRef = await uploadToWalrus(encryptedObject);
-			setIsSaving(false);
-
-			console.log(
-				`[AddMedication] Data blob upload complete, blobId: ${walrusRef.blobId}`,
-			);
-
-			// v3.0.0: メタデータBlobを作成してアップロード
-			const prescriptionId = `prescription-${Date.now()}`;
-			const metadataEntry: MedicationsMetadataEntry = {
-				blob_id: walrusRef.blobId,
-				prescription_id: prescriptionId,
+			// アウトボックス経由でアップロード・SBT更新（失敗時は自動リトライ）
+			const entry = {
 				prescription_date: prescription.prescriptionDate,
 				clinic: prescription.clinic,
 				medication_count: newMedicationsData.medications.length,
-			};
+			} satisfies Partial<MedicationsMetadataEntry>;
 
-			const metadata = {
-				...createEmptyMetadata("medications"),
-				entries: [metadataEntry],
-			};
-
-			// メタデータを暗号化
-			const { encryptedObject: encryptedMetadata } = await encryptHealthData({
-				healthData: metadata as unknown as never,
-				sealClient,
-				sealId: medicationsSealId,
-				threshold,
-			});
-
-			// メタデータBlobをアップロード
-			const metadataRef = await uploadToWalrus(encryptedMetadata);
-			console.log(
-				`[AddMedication] Metadata blob upload complete, blobId: ${metadataRef.blobId}`,
-			);
-
-			// パスポートのDynamic Fieldを更新
-			console.log("[AddMedication] Updating passport data...");
-			await updatePassportData({
+			const result = await enqueue({
+				id: prescription.id,
+				owner: currentAccount.address,
 				passportId: passport.id,
 				dataType: "medications",
-				metadataBlobId: metadataRef.blobId,
-				replace: !isNewEntry, // 既存データがあれば置き換え、なければ新規追加
+				partitionField: "prescription_id",
+				partitions: [
+					{
+						key: `prescription-${prescription.id}`,
+						payload: encryptedObject,
+						entry,
+					},
+				],
+				// 新しい処方箋のため、他端末で同じパーティションが作られていれば競合
+				baseEntries: { [`prescription-${prescription.id}`]: null },
 			});
+			setIsSaving(false);
 
-			console.log("[AddMedication] Save complete!");
+			if (result === "queued") {
+				toast.info(t("storage.outbox.queued"));
+			}
+
+			console.log(`[AddMedication] Save ${result}`);
 			router.push(`/${locale}/app/medications`);
 		} catch (error) {
 			console.error("[AddMedication] Save failed:", error);
+			setIsSaving(false);
 			alert(
 				`保存に失敗しました: ${error instanceof Error ? error.message : "不明なエラー"}`,
 			);
@@ -1039,13 +907,13 @@ export default function AddPrescriptionPage() {
 					<button
 						type="button"
 						onClick={handleSave}
-						disabled={isSaving || isUpdating}
+						disabled={isSaving}
 						className="w-full rounded-xl py-4 font-medium text-white transition-all hover:scale-[1.02] active:scale-95 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
 						style={{
 							backgroundImage: `linear-gradient(to top right, ${theme.colors.primary}, ${theme.colors.secondary})`,
 						}}
 					>
-						{isSaving || isUpdating ? (
+						{isSaving ? (
 							<>
 								<Loader2 className="inline mr-2 animate-spin" size={18} />
 								{t("actions.saving")}
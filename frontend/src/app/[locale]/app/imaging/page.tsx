@@ -1,5 +1,6 @@
 "use client";
 
+import { useCurrentAccount } from "@mysten/dapp-kit";
 import { Loader2, Plus, X } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { useLocale, useTranslations } from "next-intl";
@@ -7,12 +8,15 @@ import { useCallback, useEffect, useMemo, useState } from "react";
 import { ImagingImageViewer } from "@/components/ImagingImageViewer";
 import { useApp } from "@/contexts/AppContext";
 import { useDecryptAndFetch } from "@/hooks/useDecryptAndFetch";
+import { usePasskeyGate } from "@/hooks/usePasskeyGate";
 import { usePassport } from "@/hooks/usePassport";
 import { useSessionKeyManager } from "@/hooks/useSessionKeyManager";
+import { checkPasskeyAccess } from "@/lib/passkeyGate";
 import { getDataEntry } from "@/lib/suiClient";
 import { getTheme } from "@/lib/themes";
 import type { ImagingReport } from "@/types";
 import type { ImagingMetaData } from "@/types/healthData";
+import type { ImagingMetadataEntry } from "@/types/metadata";
 
 /**
  * DICOM Modalityを ImagingReport type にマッピング
@@ -42,6 +46,7 @@ function mapModalityToType(
  * 画像レポート一覧ページ
  * 登録された画像レポートを一覧表示する（追加は別ページに遷移）
  * seal_id は useDecryptAndFetch フック内で自動生成される
+ * 復号の前にパスキーを確認し、拒否された場合は記録を表示しない
  */
 export default function ImagingPage() {
 	const t = useTranslations();
@@ -51,6 +56,7 @@ export default function ImagingPage() {
 	const theme = getTheme(settings.theme);
 
 	// Passport and session key
+	const currentAccount = useCurrentAccount();
 	const { passport, has_passport, loading: passportLoading } = usePassport();
 	const {
 		sessionKey,
@@ -61,6 +67,10 @@ export default function ImagingPage() {
 	// Unified decrypt hook (seal_id retrieved from SBT Dynamic Fields)
 	const { decryptWithSealId, isDecrypting } = useDecryptAndFetch();
 
+	// Data types hidden because the passkey check failed
+	const { blocked: passkeyBlocked } = usePasskeyGate();
+	const imagingBlocked = passkeyBlocked.includes("imaging_meta");
+
 	// State
 	const [walrusReports, setWalrusReports] = useState<ImagingReport[]>([]);
 	const [isLoading, setIsLoading] = useState(false);
@@ -72,11 +82,17 @@ export default function ImagingPage() {
 	// Walrusからデータを読み込む
 	const loadImagingFromWalrus = useCallback(async () => {
 		// パスポートがない場合はスキップ
-		if (!has_passport || !passport) {
+		if (!has_passport || !passport || !currentAccount?.address) {
 			console.log("[Imaging] No passport found, skipping data load");
 			return;
 		}
 
+		// パスキーの確認に失敗済みの場合はPasskeyGateBannerからの再試行を待つ
+		if (imagingBlocked) {
+			setWalrusReports([]);
+			return;
+		}
+
 		// SessionKeyがない場合は生成
 		if (!sessionKey || !sessionKeyValid) {
 			console.log("[Imaging] Generating new SessionKey...");
@@ -88,6 +104,18 @@ export default function ImagingPage() {
 		setError(null);
 
 		try {
+			// 復号の前にパスキーを確認（登録されている場合）
+			const allowed = await checkPasskeyAccess(currentAccount.address, [
+				"imaging_meta",
+				"imaging_binary",
+			]);
+			if (!allowed.includes("imaging_meta")) {
+				console.log("[Imaging] Passkey check failed, records stay hidden");
+				setWalrusReports([]);
+				return;
+			}
+			const showImages = allowed.includes("imaging_binary");
+
 			console.log("[Imaging] Loading imaging data from Walrus...");
 
 			// Step 1: パスポートからEntryData（seal_id + metadata_blob_id）を取得 (v3.0.0)
@@ -125,7 +153,7 @@ export default function ImagingPage() {
 
 			// メタデータからentriesを取得
 			const topMetadata = topMetadataResult as unknown as {
-				entries: Array<{ blob_id: string }>;
+				entries: ImagingMetadataEntry[];
 			};
 			if (!topMetadata.entries || topMetadata.entries.length === 0) {
 				console.log("[Imaging] No entries in metadata");
@@ -153,6 +181,8 @@ export default function ImagingPage() {
 						dataType: "imaging_meta",
 						sessionKey,
 						passportId: passport.id,
+						sha256: entry.sha256,
+						partition: entry.study_id,
 					});
 
 					console.log("[Imaging] Decrypted meta data:", decryptedMeta);
@@ -216,44 +246,55 @@ export default function ImagingPage() {
 							continue;
 						}
 
-						// 画像のObjectURLを生成
+						// 画像のObjectURLを生成（パスキーで拒否された場合は画像を表示しない）
 						let imageObjectUrl: string | undefined;
 						let imageLoadError: string | undefined;
 
-						try {
-							console.log(
-								`[Imaging] 🔄 Attempting to decrypt image: ${binaryBlobId}`,
-							);
-							// 画像バイナリを復号化（DFから取得したseal_idを使用）
-							if (!binarySealId) {
-								throw new Error("Binary seal_id not found in EntryData");
+						if (showImages) {
+							try {
+								console.log(
+									`[Imaging] 🔄 Attempting to decrypt image: ${binaryBlobId}`,
+								);
+								// 画像バイナリを復号化（DFから取得したseal_idを使用）
+								if (!binarySealId) {
+									throw new Error("Binary seal_id not found in EntryData");
+								}
+								const imagingBinary = await decryptWithSealId({
+									blobId: binaryBlobId,
+									sealId: binarySealId,
+									dataType: "imaging_binary",
+									sessionKey,
+									passportId: passport.id,
+									// メタデータエントリが同じBlobを指す場合のみ記録済みハッシュで検証
+									sha256:
+										entry.binary_blob_id === binaryBlobId
+											? entry.binary_sha256
+											: undefined,
+									partition: entry.study_id,
+								});
+								imageObjectUrl = imagingBinary.objectUrl;
+								console.log(
+									`[Imaging] ✅ Successfully generated ObjectURL: ${imageObjectUrl}`,
+								);
+							} catch (imgError) {
+								const errorMsg =
+									imgError instanceof Error
+										? imgError.message
+										: "Unknown error";
+								console.error(
+									`[Imaging] ❌ Failed to decrypt image ${binaryBlobId}:`,
+									{
+										error: errorMsg,
+										stack:
+											imgError instanceof Error ? imgError.stack : undefined,
+										type:
+											imgError instanceof Error
+												? imgError.constructor.name
+												: typeof imgError,
+									},
+								);
+								imageLoadError = `画像の読み込みに失敗: ${errorMsg}`;
 							}
-							const imagingBinary = await decryptWithSealId({
-								blobId: binaryBlobId,
-								sealId: binarySealId,
-								dataType: "imaging_binary",
-								sessionKey,
-								passportId: passport.id,
-							});
-							imageObjectUrl = imagingBinary.objectUrl;
-							console.log(
-								`[Imaging] ✅ Successfully generated ObjectURL: ${imageObjectUrl}`,
-							);
-						} catch (imgError) {
-							const errorMsg =
-								imgError instanceof Error ? imgError.message : "Unknown error";
-							console.error(
-								`[Imaging] ❌ Failed to decrypt image ${binaryBlobId}:`,
-								{
-									error: errorMsg,
-									stack: imgError instanceof Error ? imgError.stack : undefined,
-									type:
-										imgError instanceof Error
-											? imgError.constructor.name
-											: typeof imgError,
-								},
-							);
-							imageLoadError = `画像の読み込みに失敗: ${errorMsg}`;
 						}
 
 						// デバッグ: 最終状態を確認
@@ -336,6 +377,8 @@ export default function ImagingPage() {
 	}, [
 		passport,
 		has_passport,
+		currentAccount,
+		imagingBlocked,
 		sessionKey,
 		sessionKeyValid,
 		generateSessionKey,
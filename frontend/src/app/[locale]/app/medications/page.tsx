@@ -1,13 +1,16 @@
 "use client";
 
+import { useCurrentAccount } from "@mysten/dapp-kit";
 import { Calendar, Loader2, Plus } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { useLocale, useTranslations } from "next-intl";
 import { useCallback, useEffect, useState } from "react";
 import { useApp } from "@/contexts/AppContext";
 import { useDecryptAndFetch } from "@/hooks/useDecryptAndFetch";
+import { usePasskeyGate } from "@/hooks/usePasskeyGate";
 import { usePassport } from "@/hooks/usePassport";
 import { useSessionKeyManager } from "@/hooks/useSessionKeyManager";
+import { checkPasskeyAccess } from "@/lib/passkeyGate";
 import {
 	type DisplayMedication,
 	medicationsDataToDisplayData,
@@ -15,11 +18,13 @@ import {
 import { getDataEntry } from "@/lib/suiClient";
 import { getTheme } from "@/lib/themes";
 import type { MedicationsData } from "@/types/healthData";
+import type { MedicationsMetadataEntry } from "@/types/metadata";
 
 /**
  * 処方箋一覧ページ
  * Walrusから medications データ(JSON形式) を読み込んで表示
  * seal_id は useDecryptAndFetch フック内で自動生成される
+ * 復号の前にパスキーを確認し、拒否された場合は記録を表示しない
  */
 export default function MedicationsPage() {
 	const t = useTranslations();
@@ -29,6 +34,7 @@ export default function MedicationsPage() {
 	const theme = getTheme(settings.theme);
 
 	// Passport and session key
+	const currentAccount = useCurrentAccount();
 	const { passport, has_passport, loading: passportLoading } = usePassport();
 	const {
 		sessionKey,
@@ -39,6 +45,10 @@ export default function MedicationsPage() {
 	// Unified decrypt hook (seal_id retrieved from SBT Dynamic Fields)
 	const { decryptWithSealId, isDecrypting } = useDecryptAndFetch();
 
+	// Data types hidden because the passkey check failed
+	const { blocked: passkeyBlocked } = usePasskeyGate();
+	const medicationsBlocked = passkeyBlocked.includes("medications");
+
 	// State
 	const [medications, setMedications] = useState<DisplayMedication[]>([]);
 	const [isLoading, setIsLoading] = useState(false);
@@ -47,11 +57,17 @@ export default function MedicationsPage() {
 	// Walrusからデータを読み込む
 	const loadMedicationsFromWalrus = useCallback(async () => {
 		// パスポートがない場合はスキップ
-		if (!has_passport || !passport) {
+		if (!has_passport || !passport || !currentAccount?.address) {
 			console.log("[Medications] No passport found, skipping data load");
 			return;
 		}
 
+		// パスキーの確認に失敗済みの場合はPasskeyGateBannerからの再試行を待つ
+		if (medicationsBlocked) {
+			setMedications([]);
+			return;
+		}
+
 		// SessionKeyがない場合は生成
 		if (!sessionKey || !sessionKeyValid) {
 			console.log("[Medications] Generating new SessionKey...");
@@ -63,6 +79,16 @@ export default function MedicationsPage() {
 		setError(null);
 
 		try {
+			// 復号の前にパスキーを確認（登録されている場合）
+			const allowed = await checkPasskeyAccess(currentAccount.address, [
+				"medications",
+			]);
+			if (!allowed.includes("medications")) {
+				console.log("[Medications] Passkey check failed, records stay hidden");
+				setMedications([]);
+				return;
+			}
+
 			console.log("[Medications] Loading medications from Walrus...");
 
 			// Step 1: パスポートからEntryData（seal_id + metadata_blob_id）を取得 (v3.0.0)
@@ -92,7 +118,7 @@ export default function MedicationsPage() {
 
 			// メタデータからentriesを取得
 			const metadata = metadataResult as unknown as {
-				entries: Array<{ blob_id: string }>;
+				entries: MedicationsMetadataEntry[];
 			};
 			if (!metadata.entries || metadata.entries.length === 0) {
 				console.log("[Medications] No entries in metadata");
@@ -120,6 +146,8 @@ export default function MedicationsPage() {
 						dataType: "medications",
 						sessionKey,
 						passportId: passport.id,
+						sha256: entry.sha256,
+						partition: entry.prescription_id,
 					});
 
 					// 復号化結果の詳細をコンソールに表示
@@ -198,6 +226,8 @@ export default function MedicationsPage() {
 	}, [
 		passport,
 		has_passport,
+		currentAccount,
+		medicationsBlocked,
 		sessionKey,
 		sessionKeyValid,
 		generateSessionKey,
@@ -1,24 +1,35 @@
 "use client";
 
-import { useCurrentAccount } from "@mysten/dapp-kit";
+import { useCurrentAccount, useSuiClient } from "@mysten/dapp-kit";
 import { Check, Plus, Save, X } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { useLocale, useTranslations } from "next-intl";
 import { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
 import { v4 as uuidv4 } from "uuid";
 import { DiseaseSelect } from "@/components/forms/DiseaseSelect";
 import { useApp } from "@/contexts/AppContext";
-import { useCheckDataEntryExists } from "@/hooks/useCheckDataEntryExists";
+import { useOutbox } from "@/contexts/OutboxContext";
 import {
 	type HealthDataTypes,
 	useEncryptAndStore,
 } from "@/hooks/useEncryptAndStore";
 import { usePassport } from "@/hooks/usePassport";
+import { useSessionKeyManager } from "@/hooks/useSessionKeyManager";
 import { useUpdatePassportData } from "@/hooks/useUpdatePassportData";
+import {
+	addDataEntryWrite,
+	createDataEntryBatch,
+	type DataEntryWrite,
+} from "@/lib/dataEntryBatch";
+import { DataEntryConflictError } from "@/lib/dataEntryConflict";
+import { loadEntryMetadata } from "@/lib/metadataLoader";
+import { getBaseEntries, SINGLE_BLOB_PARTITION_KEY } from "@/lib/outbox";
 import {
 	historiesToConditions,
 	profileToBasicProfile,
 } from "@/lib/profileConverter";
+import { getDataEntry } from "@/lib/suiClient";
 import { getTheme } from "@/lib/themes";
 import type { AgeBand, MedicalHistory, PatientProfile } from "@/types";
 import type { DataType } from "@/types/healthData";
@@ -55,7 +66,9 @@ export default function ConditionsPage() {
 	const router = useRouter();
 	const locale = useLocale();
 	const t = useTranslations("conditions");
+	const tRoot = useTranslations();
 	const currentAccount = useCurrentAccount();
+	const suiClient = useSuiClient();
 	const {
 		settings,
 		profile,
@@ -74,11 +87,12 @@ export default function ConditionsPage() {
 		error: _encryptError,
 	} = useEncryptAndStore();
 	const {
-		updateMultiplePassportData,
+		commitDataEntryBatch,
 		isUpdating,
 		error: _updateError,
 	} = useUpdatePassportData();
-	const { checkExists } = useCheckDataEntryExists();
+	const { enqueue } = useOutbox();
+	const { sessionKey, isValid: sessionKeyValid } = useSessionKeyManager();
 
 	const [isSaving, setIsSaving] = useState(false);
 	const [showSuccess, setShowSuccess] = useState(false);
@@ -244,20 +258,28 @@ export default function ConditionsPage() {
 			const encryptionResults = await encryptAndStoreMultiple(dataItems);
 
 			// Step 3: 各データ型に対してv3.0.0メタデータBlobを作成してアップロード
-			const dataEntries = await Promise.all(
+			const saves = await Promise.all(
 				encryptionResults.map(async (result) => {
-					const exists = await checkExists(passport.id, result.dataType);
+					// 構築元のEntryData（compare-and-swapと競合時のマージの基準）
+					const existing = await getDataEntry(passport.id, result.dataType);
 
 					// v3.0.0メタデータエントリを作成
+					const blobFields = {
+						blob_id: result.blobId,
+						...(result.endEpoch !== undefined && {
+							end_epoch: result.endEpoch,
+						}),
+						...(result.manifest && { chunk_manifest: result.manifest }),
+						...(result.sha256 && { sha256: result.sha256 }),
+						size: result.size,
+					};
+					const entryFields: Omit<ConditionsMetadataEntry, "blob_id"> | null =
+						result.dataType === "basic_profile"
+							? null
+							: { condition_count: cleanedConditions.length };
 					const metadataEntry:
 						| BasicProfileMetadataEntry
-						| ConditionsMetadataEntry =
-						result.dataType === "basic_profile"
-							? { blob_id: result.blobId }
-							: {
-									blob_id: result.blobId,
-									condition_count: cleanedConditions.length,
-								};
+						| ConditionsMetadataEntry = { ...blobFields, ...entryFields };
 
 					// v3.0.0メタデータ構造を作成
 					const metadata = {
@@ -275,22 +297,88 @@ export default function ConditionsPage() {
 						},
 					]);
 
-					return {
+					// 確定後にデータ型ごとのローカル状態を反映
+					const applyLocal =
+						result.dataType === "basic_profile"
+							? () => updateProfile(profileToSave)
+							: () => setMedicalHistories(historiesToSave);
+					const write: DataEntryWrite = {
 						dataType: result.dataType,
 						metadataBlobId: metadataUploadResult[0].blobId, // メタデータBlobのID
-						replace: exists,
+						replace: existing !== null,
+						// 読み込んだ時点から変わっていればabort（compare-and-swap）
+						expectedMetadataBlobId: existing?.metadataBlobId,
+						reconcile: applyLocal,
+					};
+					return {
+						dataType: result.dataType as DataType,
+						write,
+						existing,
+						blobFields,
+						entryFields,
+						applyLocal,
 					};
 				}),
 			);
 
-			// Step 4: 1トランザクションで全データ型を登録
-			await updateMultiplePassportData({
-				passportId: passport.id,
-				dataEntries,
-			});
-
-			updateProfile(profileToSave);
-			setMedicalHistories(historiesToSave);
+			// Step 4: 1トランザクション（署名1回）で全データ型を登録
+			const batch = saves.reduce(
+				(current, save) => addDataEntryWrite(current, save.write),
+				createDataEntryBatch(passport.id),
+			);
+			try {
+				await commitDataEntryBatch(batch);
+			} catch (error) {
+				if (!(error instanceof DataEntryConflictError)) {
+					throw error;
+				}
+				// 他端末が先に保存した: アップロード済みのBlobでアウトボックスに渡す。
+				// 単一blobのため、読み込んだ時点のentryから変わっていれば
+				// 画面上で「自分の変更」「他端末の変更」を選ばせる
+				if (!sessionKey || !sessionKeyValid) {
+					throw error;
+				}
+				console.warn(
+					"[ConditionSave] Profile changed on another device, merging via outbox",
+				);
+				let queued = false;
+				for (const save of saves) {
+					const { dataType, existing } = save;
+					const base = existing
+						? await loadEntryMetadata({
+								suiClient,
+								sessionKey,
+								passportId: passport.id,
+								dataType,
+								entry: existing,
+							})
+						: null;
+					const result = await enqueue({
+						id: `${passport.id}:${dataType}`,
+						owner: currentAccount.address,
+						passportId: passport.id,
+						dataType,
+						partitionField: null,
+						partitions: [
+							{
+								key: SINGLE_BLOB_PARTITION_KEY,
+								blob: save.blobFields,
+								entry: { ...save.entryFields },
+							},
+						],
+						baseEntries: getBaseEntries(base?.metadata.entries ?? [], null, [
+							SINGLE_BLOB_PARTITION_KEY,
+						]),
+					});
+					save.applyLocal();
+					if (result === "queued") {
+						queued = true;
+					}
+				}
+				if (queued) {
+					toast.info(tRoot("storage.outbox.queued"));
+				}
+			}
 			setShowSuccess(true);
 
 			if (skipConditions) {
@@ -3,6 +3,15 @@
 import { Check, Shield, TrendingUp } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { useTranslations } from "next-intl";
+import { PasskeyGateSettings } from "@/components/PasskeyGateSettings";
+import { RecordCacheSettings } from "@/components/RecordCacheSettings";
+import { RecordImport } from "@/components/RecordImport";
+import { RecoveryKitExport } from "@/components/RecoveryKitExport";
+import { SealIdRotation } from "@/components/SealIdRotation";
+import { SealKeyServerDiagnostics } from "@/components/SealKeyServerDiagnostics";
+import { SessionKeySettings } from "@/components/SessionKeySettings";
+import { StorageCleanup } from "@/components/StorageCleanup";
+import { StorageDashboard } from "@/components/StorageDashboard";
 import { useApp } from "@/contexts/AppContext";
 import { type Locale, localeNames, locales } from "@/i18n/config";
 import { getTheme, themes } from "@/lib/themes";
@@ -212,6 +221,15 @@ export default function SettingsPage() {
 						</div>
 					</div>
 				</div>
+				<StorageDashboard />
+				<StorageCleanup />
+				<SessionKeySettings />
+				<RecordCacheSettings />
+				<PasskeyGateSettings />
+				<SealKeyServerDiagnostics />
+				<SealIdRotation />
+				<RecoveryKitExport />
+				<RecordImport />
 			</div>
 
 			{/* Profile Section */}
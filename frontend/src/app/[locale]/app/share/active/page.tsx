@@ -0,0 +1,233 @@
+"use client";
+
+import { Ban, Clock, RefreshCw, ShieldCheck } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { ConsentAccessTimeline } from "@/components/ConsentAccessTimeline";
+import { useApp } from "@/contexts/AppContext";
+import { useConsentAccesses } from "@/hooks/useConsentAccesses";
+import { useConsentTokens } from "@/hooks/useConsentTokens";
+import {
+	type ConsentTokenInfo,
+	type ConsentTokenStatus,
+	getConsentTokenStatus,
+} from "@/lib/consentTokens";
+import { getScopeDataType } from "@/lib/entrySharing";
+import { getTheme } from "@/lib/themes";
+
+const STATUS_COLORS: Record<ConsentTokenStatus, string> = {
+	active: "#16A34A",
+	expired: "#6B7280",
+	revoked: "#DC2626",
+};
+
+/**
+ * 発行済みの共有（ConsentToken）一覧ページ
+ * スコープ・有効期限・状態・アクセス履歴を表示し、個別または一括で無効化する
+ */
+export default function ActiveSharesPage() {
+	const t = useTranslations();
+	const { settings } = useApp();
+	const theme = getTheme(settings.theme);
+	const { tokens, refresh, revoke, isLoading, revoking, error } =
+		useConsentTokens();
+	const {
+		accessesByToken,
+		refresh: refreshAccesses,
+		isLoading: isAccessLoading,
+		error: accessError,
+	} = useConsentAccesses(tokens.map((token) => token.id));
+
+	const now = Date.now();
+	const activeIds = tokens
+		.filter((token) => getConsentTokenStatus(token, now) === "active")
+		.map((token) => token.id);
+
+	/**
+	 * スコープを表示用ラベルに変換（エントリ単位のスコープはデータ種ごとに件数でまとめる）
+	 */
+	const formatScopes = (token: ConsentTokenInfo): string[] => {
+		const entryCounts = new Map<string, number>();
+		const labels: string[] = [];
+		for (const scope of token.scopes) {
+			const dataType = getScopeDataType(scope);
+			if (scope === dataType) {
+				labels.push(t(`storage.dataTypes.${dataType}`));
+			} else {
+				entryCounts.set(dataType, (entryCounts.get(dataType) ?? 0) + 1);
+			}
+		}
+		for (const [dataType, count] of entryCounts) {
+			labels.push(
+				t("consentTokens.entryScope", {
+					dataType: t(`storage.dataTypes.${dataType}`),
+					count,
+				}),
+			);
+		}
+		return labels;
+	};
+
+	const handleRevoke = async (tokenId: string) => {
+		if (!confirm(t("consentTokens.revokeConfirm"))) {
+			return;
+		}
+		try {
+			await revoke([tokenId]);
+		} catch {
+			// error state is shown below
+		}
+	};
+
+	const handleRevokeAll = async () => {
+		if (
+			!confirm(t("consentTokens.revokeAllConfirm", { count: activeIds.length }))
+		) {
+			return;
+		}
+		try {
+			await revoke(activeIds);
+		} catch {
+			// error state is shown below
+		}
+	};
+
+	return (
+		<div className="px-4 md:px-8 lg:px-12 py-4 lg:py-8 pb-24 lg:pb-8">
+			<div className="lg:hidden mb-6 flex items-center">
+				<ShieldCheck
+					className="mr-2 h-5 w-5"
+					style={{ color: theme.colors.primary }}
+				/>
+				<h1 className="text-lg font-bold" style={{ color: theme.colors.text }}>
+					{t("consentTokens.title")}
+				</h1>
+			</div>
+
+			<p
+				className="mb-6 text-sm md:text-base"
+				style={{ color: theme.colors.textSecondary }}
+			>
+				{t("consentTokens.description")}
+			</p>
+
+			<div className="mb-4 flex flex-wrap justify-end gap-2">
+				<button
+					type="button"
+					onClick={() => {
+						void refresh();
+						void refreshAccesses();
+					}}
+					disabled={isLoading || isAccessLoading}
+					className="flex items-center gap-2 rounded-lg border px-3 py-1.5 text-sm font-medium transition-opacity disabled:opacity-50"
+					style={{
+						borderColor: `${theme.colors.textSecondary}40`,
+						color: theme.colors.text,
+					}}
+				>
+					<RefreshCw size={14} className={isLoading ? "animate-spin" : ""} />
+					{t("consentTokens.refresh")}
+				</button>
+				<button
+					type="button"
+					onClick={handleRevokeAll}
+					disabled={activeIds.length === 0 || revoking.length > 0}
+					className="flex items-center gap-2 rounded-lg px-3 py-1.5 text-sm font-medium text-red-600 transition-opacity disabled:opacity-50"
+				>
+					<Ban size={14} />
+					{t("consentTokens.revokeAll")}
+				</button>
+			</div>
+
+			{error && (
+				<p className="mb-4 text-sm text-red-600">
+					{t("consentTokens.error", { message: error })}
+				</p>
+			)}
+			{accessError && (
+				<p className="mb-4 text-sm text-red-600">
+					{t("consentTokens.accesses.loadFailed", { message: accessError })}
+				</p>
+			)}
+
+			{tokens.length === 0 ? (
+				<div
+					className="rounded-xl p-6 text-center text-sm shadow-sm"
+					style={{
+						backgroundColor: theme.colors.surface,
+						color: theme.colors.textSecondary,
+					}}
+				>
+					{isLoading ? t("consentTokens.loading") : t("consentTokens.empty")}
+				</div>
+			) : (
+				<ul className="space-y-3">
+					{tokens.map((token) => {
+						const status = getConsentTokenStatus(token, now);
+						const isRevoking = revoking.includes(token.id);
+						return (
+							<li
+								key={token.id}
+								className="rounded-xl p-4 shadow-sm"
+								style={{ backgroundColor: theme.colors.surface }}
+							>
+								<div className="flex items-start justify-between gap-3">
+									<div className="min-w-0 space-y-1">
+										<p
+											className="font-medium"
+											style={{ color: theme.colors.text }}
+										>
+											{formatScopes(token).join(", ")}
+										</p>
+										<p
+											className="flex items-center gap-1 text-sm"
+											style={{ color: theme.colors.textSecondary }}
+										>
+											<Clock size={14} />
+											{t("consentTokens.expires", {
+												date: new Date(token.expiresAt).toLocaleString(),
+											})}
+										</p>
+										{token.createdAt && (
+											<p
+												className="text-xs"
+												style={{ color: theme.colors.textSecondary }}
+											>
+												{t("consentTokens.created", {
+													date: new Date(token.createdAt).toLocaleString(),
+												})}
+											</p>
+										)}
+									</div>
+									<span
+										className="shrink-0 rounded-full px-2 py-0.5 text-xs font-medium text-white"
+										style={{ backgroundColor: STATUS_COLORS[status] }}
+									>
+										{t(`consentTokens.status.${status}`)}
+									</span>
+								</div>
+								{status === "active" && (
+									<div className="mt-2 flex justify-end">
+										<button
+											type="button"
+											onClick={() => handleRevoke(token.id)}
+											disabled={revoking.length > 0}
+											className="flex items-center gap-2 rounded-lg px-3 py-1.5 text-sm font-medium text-red-600 transition-opacity disabled:opacity-50"
+										>
+											<Ban size={14} />
+											{isRevoking
+												? t("consentTokens.revoking")
+												: t("consentTokens.revoke")}
+										</button>
+									</div>
+								)}
+								<ConsentAccessTimeline
+									accesses={accessesByToken[token.id] ?? []}
+								/>
+							</li>
+						);
+					})}
+				</ul>
+			)}
+		</div>
+	);
+}
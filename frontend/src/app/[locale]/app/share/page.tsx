@@ -1,10 +1,6 @@
 "use client";
 
-import {
-	useCurrentAccount,
-	useSignAndExecuteTransaction,
-	useSuiClient,
-} from "@mysten/dapp-kit";
+import { useCurrentAccount, useSuiClient } from "@mysten/dapp-kit";
 import { Transaction } from "@mysten/sui/transactions";
 import { sha3_256 } from "@noble/hashes/sha3";
 import {
@@ -18,12 +14,22 @@ import {
 	Package,
 	QrCode,
 	Scan,
+	ShieldCheck,
 } from "lucide-react";
-import { useTranslations } from "next-intl";
+import { useRouter } from "next/navigation";
+import { useLocale, useTranslations } from "next-intl";
 import QRCode from "qrcode";
 import { useEffect, useState } from "react";
+import { ShareEntryPicker } from "@/components/ShareEntryPicker";
 import { useApp } from "@/contexts/AppContext";
+import { useEntrySharing } from "@/hooks/useEntrySharing";
 import { usePassport } from "@/hooks/usePassport";
+import { useSponsoredTransaction } from "@/hooks/useSponsoredTransaction";
+import {
+	buildConsentScopes,
+	type SharedEntryRef,
+	supportsEntrySharing,
+} from "@/lib/entrySharing";
 import { PACKAGE_ID, PASSPORT_REGISTRY_ID } from "@/lib/suiClient";
 import { getTheme } from "@/lib/themes";
 import type { DataType } from "@/types/healthData";
@@ -55,6 +61,8 @@ const uiCategoryToDataType: Record<UiCategory, DataType> = {
  */
 export default function EmergencyCardPage() {
 	const t = useTranslations();
+	const locale = useLocale();
+	const router = useRouter();
 	const {
 		medications,
 		allergies,
@@ -66,9 +74,11 @@ export default function EmergencyCardPage() {
 		walletAddress,
 	} = useApp();
 	const { passport } = usePassport();
+	const { isolateEntries } = useEntrySharing();
 	const suiClient = useSuiClient();
 	const currentAccount = useCurrentAccount();
-	const { mutateAsync: signAndExecute } = useSignAndExecuteTransaction();
+	const { signAndExecuteTransaction: signAndExecute } =
+		useSponsoredTransaction();
 	const theme = getTheme(settings.theme);
 	const [consentUrl, setConsentUrl] = useState("");
 	const [expiresAt, setExpiresAt] = useState("");
@@ -78,6 +88,9 @@ export default function EmergencyCardPage() {
 		"medications",
 		"allergies",
 	]);
+	const [pickedEntries, setPickedEntries] = useState<
+		Partial<Record<DataType, string[]>>
+	>({});
 	const [qrImageUrl, setQrImageUrl] = useState("");
 
 	useEffect(() => {
@@ -118,6 +131,11 @@ export default function EmergencyCardPage() {
 	const latestImaging = imagingReports[0];
 	const recentVitals = vitalSigns.slice(0, 3);
 
+	// 個別エントリを選べるデータ種（選択中のカテゴリのみ）
+	const entryDataTypes = [
+		...new Set(selectedCategories.map((cat) => uiCategoryToDataType[cat])),
+	].filter(supportsEntrySharing);
+
 	const handleCategoryToggle = (category: UiCategory) => {
 		setSelectedCategories((prev) =>
 			prev.includes(category)
@@ -283,9 +301,23 @@ export default function EmergencyCardPage() {
 			const expiresAtIso = new Date(Date.now() + durationMs).toISOString();
 
 			// 3) UIカテゴリーをコントラクトのdataTypeに変換（重複を除去）
-			const contractScopes = [
+			//    個別エントリを選んだデータ種は、選んだエントリを専用seal_idに移してエントリ単位で許可
+			const dataTypes = [
 				...new Set(selectedCategories.map((cat) => uiCategoryToDataType[cat])),
 			];
+			const sharedEntries: SharedEntryRef[] = [];
+			for (const dataType of entryDataTypes) {
+				const blobIds = pickedEntries[dataType] ?? [];
+				if (blobIds.length > 0) {
+					sharedEntries.push(...(await isolateEntries(dataType, blobIds)));
+				}
+			}
+			const contractScopes = buildConsentScopes(
+				dataTypes.filter(
+					(dataType) => !sharedEntries.some((entry) => entry.d === dataType),
+				),
+				sharedEntries,
+			);
 
 			// 4) Build PTB for create_consent_token
 			const tx = new Transaction();
@@ -323,6 +355,7 @@ export default function EmergencyCardPage() {
 				passportId: passport.id,
 				secret: newSecret,
 				scopes: contractScopes,
+				entries: sharedEntries,
 				expiresAt: expiresAtIso,
 			});
 
@@ -422,6 +455,15 @@ export default function EmergencyCardPage() {
 				</div>
 			</div>
 
+			{/* Entry Selection */}
+			<ShareEntryPicker
+				dataTypes={entryDataTypes}
+				picked={pickedEntries}
+				onChange={(dataType, blobIds) =>
+					setPickedEntries((prev) => ({ ...prev, [dataType]: blobIds }))
+				}
+			/>
+
 			{/* QR Code Display */}
 			<div
 				className="mb-4 rounded-xl p-6 shadow-sm md:p-8"
@@ -484,6 +526,15 @@ export default function EmergencyCardPage() {
 				>
 					{isGenerating ? t("share.generating") : t("share.generateQR")}
 				</button>
+				<button
+					type="button"
+					onClick={() => router.push(`/${locale}/app/share/active`)}
+					className="mt-3 flex w-full items-center justify-center gap-2 rounded-lg p-3 text-sm font-medium"
+					style={{ color: theme.colors.primary }}
+				>
+					<ShieldCheck className="h-4 w-4" />
+					{t("consentTokens.manage")}
+				</button>
 			</div>
 
 			{/* Data Preview */}
@@ -709,6 +760,7 @@ function buildQrPayload(params: {
 	passportId: string;
 	secret: string;
 	scopes: string[];
+	entries: SharedEntryRef[];
 	expiresAt: string;
 }): string {
 	const payload = {
@@ -717,6 +769,8 @@ function buildQrPayload(params: {
 		passport: params.passportId,
 		secret: params.secret,
 		scope: params.scopes,
+		// エントリ単位の共有時のみ（医師側はメタデータを復号できないため参照を同梱）
+		...(params.entries.length > 0 && { entries: params.entries }),
 		exp: params.expiresAt,
 	};
 
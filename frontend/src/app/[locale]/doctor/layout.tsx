@@ -4,6 +4,8 @@ import { useCurrentAccount } from "@mysten/dapp-kit";
 import { Wallet } from "lucide-react";
 import Image from "next/image";
 import { useTranslations } from "next-intl";
+import { BlobIntegrityNotifier } from "@/components/BlobIntegrityNotifier";
+import { SessionKeyBanner } from "@/components/SessionKeyBanner";
 import { WalletButton } from "@/components/wallet/WalletButton";
 
 interface DoctorLayoutProps {
@@ -78,6 +80,8 @@ export default function DoctorLayout({ children }: DoctorLayoutProps) {
 			)}
 
 			{/* メインコンテンツ */}
+			<SessionKeyBanner />
+			<BlobIntegrityNotifier />
 			{children}
 		</div>
 	);
@@ -11,6 +11,7 @@ import {
 import { useRouter } from "next/navigation";
 import { useLocale, useTranslations } from "next-intl";
 import { useMemo, useRef, useState } from "react";
+import { getScopeDataType, type SharedEntryRef } from "@/lib/entrySharing";
 import type { DataType } from "@/lib/mockData";
 
 interface QRPayload {
@@ -18,7 +19,8 @@ interface QRPayload {
 	token?: string;
 	passport?: string;
 	secret?: string;
-	scope?: DataType[];
+	scope?: string[];
+	entries?: SharedEntryRef[];
 	exp?: string;
 }
 
@@ -151,6 +153,7 @@ export default function DoctorPage() {
 								token: payload.token,
 								secret: payload.secret,
 								scope: payload.scope,
+								entries: payload.entries,
 								exp: payload.exp,
 							}),
 						);
@@ -284,14 +287,16 @@ export default function DoctorPage() {
 								<div className="space-y-2 text-sm">
 									{qrData.scope && qrData.scope.length > 0 && (
 										<div className="flex gap-2 flex-wrap">
-											{qrData.scope.map((s) => (
-												<span
-													key={s}
-													className="px-3 py-1 bg-white rounded-full text-blue-700 font-medium shadow-sm"
-												>
-													{dataTypeLabel[s] || s}
-												</span>
-											))}
+											{[...new Set(qrData.scope.map(getScopeDataType))].map(
+												(s) => (
+													<span
+														key={s}
+														className="px-3 py-1 bg-white rounded-full text-blue-700 font-medium shadow-sm"
+													>
+														{dataTypeLabel[s as DataType] || s}
+													</span>
+												),
+											)}
 										</div>
 									)}
 									{qrData.exp && (
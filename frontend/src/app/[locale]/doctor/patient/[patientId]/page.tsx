@@ -7,8 +7,17 @@ import { useLocale, useTranslations } from "next-intl";
 import { use, useEffect, useMemo, useRef, useState } from "react";
 import { useConsentDecrypt } from "@/hooks/useConsentDecrypt";
 import { useSessionKeyManager } from "@/hooks/useSessionKeyManager";
+import { getEntryPartitionKey } from "@/lib/blobIntegrity";
+import { getAccessScope } from "@/lib/consentAccessLog";
+import {
+	getScopeDataType,
+	parseSharedEntryRefs,
+	type SharedEntryRef,
+} from "@/lib/entrySharing";
+import { deriveEntrySealId } from "@/lib/sealIdGenerator";
 import { getDataEntry } from "@/lib/suiClient";
 import { type DataScope, toContractDataType } from "@/types/doctor";
+import type { BaseMetadataEntry } from "@/types/metadata";
 
 type FetchState = "idle" | "loading" | "success" | "error";
 
@@ -34,6 +43,7 @@ export default function DoctorPatientPage({ params }: DoctorPatientPageProps) {
 
 	const {
 		decryptWithConsent,
+		flushAccessLog,
 		stage,
 		error: consentError,
 		reset,
@@ -56,6 +66,8 @@ export default function DoctorPatientPage({ params }: DoctorPatientPageProps) {
 	>([]);
 	const [fetchMessage, setFetchMessage] = useState<string | null>(null);
 	const [qrScopes, setQrScopes] = useState<DataScope[]>([]);
+	const [qrTokenScopes, setQrTokenScopes] = useState<string[]>([]);
+	const [qrEntries, setQrEntries] = useState<SharedEntryRef[]>([]);
 	const [isScanning, setIsScanning] = useState(false);
 	const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -97,8 +109,10 @@ export default function DoctorPatientPage({ params }: DoctorPatientPageProps) {
 				if (payload.token) setConsentTokenId(payload.token);
 				if (payload.secret) setSecret(payload.secret);
 				if (payload.scope && Array.isArray(payload.scope)) {
-					setQrScopes(payload.scope as DataScope[]);
+					setQrScopes(toQrScopes(payload.scope));
+					setQrTokenScopes(payload.scope);
 				}
+				setQrEntries(parseSharedEntryRefs(payload.entries));
 				// 使用後は削除（セキュリティ対策）
 				sessionStorage.removeItem("qrPayload");
 			} catch (e) {
@@ -161,8 +175,10 @@ export default function DoctorPatientPage({ params }: DoctorPatientPageProps) {
 						if (payload.token) setConsentTokenId(payload.token);
 						if (payload.secret) setSecret(payload.secret);
 						if (payload.scope && Array.isArray(payload.scope)) {
-							setQrScopes(payload.scope);
+							setQrScopes(toQrScopes(payload.scope));
+							setQrTokenScopes(payload.scope);
 						}
+						setQrEntries(parseSharedEntryRefs(payload.entries));
 
 						setFetchMessage(t("doctor.qrScanSuccessShort"));
 					} catch (err) {
@@ -232,6 +248,35 @@ export default function DoctorPatientPage({ params }: DoctorPatientPageProps) {
 			console.log(
 				`[DoctorPage] Retrieved seal_id from DF: ${sealId.substring(0, 16)}...`,
 			);
+
+			// エントリ単位で共有された場合はメタデータを復号できないため、QRの参照を直接復号
+			const sharedEntries = qrEntries.filter(
+				(entry) => entry.d === contractDataType,
+			);
+			if (sharedEntries.length > 0) {
+				const decrypted: Array<{ blobId: string; data: unknown }> = [];
+				for (const entry of sharedEntries) {
+					decrypted.push(
+						await decryptWithConsent({
+							blobId: entry.b,
+							sealId: deriveEntrySealId(sealId, entry.n),
+							passportId: patientId,
+							consentTokenId,
+							dataType: contractDataType,
+							secret,
+							sessionKey,
+							accessScope: getAccessScope(
+								qrTokenScopes,
+								contractDataType,
+								entry.n,
+							),
+						}),
+					);
+				}
+				setResults(decrypted);
+				setFetchState("success");
+				return;
+			}
 			console.log(
 				`[DoctorPage] Metadata blob ID: ${metadataBlobId.substring(0, 16)}...`,
 			);
@@ -249,7 +294,7 @@ export default function DoctorPatientPage({ params }: DoctorPatientPageProps) {
 
 			// メタデータからエントリを取得
 			const metadata = metadataRes.data as {
-				entries?: Array<{ blob_id: string }>;
+				entries?: BaseMetadataEntry[];
 			};
 			const entries = metadata?.entries || [];
 
@@ -276,6 +321,8 @@ export default function DoctorPatientPage({ params }: DoctorPatientPageProps) {
 					dataType: contractDataType,
 					secret,
 					sessionKey,
+					sha256: entry.sha256,
+					partition: getEntryPartitionKey(entry),
 				});
 				decrypted.push(res);
 			}
@@ -288,6 +335,9 @@ export default function DoctorPatientPage({ params }: DoctorPatientPageProps) {
 				err instanceof Error ? err.message : t("doctor.fetchFailed"),
 			);
 			setFetchState("error");
+		} finally {
+			// 患者のアクセス履歴に今回の復号試行を記録
+			await flushAccessLog();
 		}
 	};
 
@@ -504,6 +554,13 @@ export default function DoctorPatientPage({ params }: DoctorPatientPageProps) {
 	);
 }
 
+/**
+ * QRのスコープを表示用のDataScopeに変換（エントリスコープはデータ種にまとめる）
+ */
+function toQrScopes(scopes: string[]): DataScope[] {
+	return [...new Set(scopes.map(getScopeDataType))] as DataScope[];
+}
+
 function AlertCard({
 	title,
 	message,
@@ -0,0 +1,290 @@
+"use client";
+
+import jsQR from "jsqr";
+import { Download, FileKey, KeyRound, QrCode } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useState } from "react";
+import { downloadVerifiedBlob } from "@/lib/blobIntegrity";
+import {
+	decryptWithBackupKey,
+	joinRecoveryKitQrParts,
+	openRecoveryKit,
+	parseRecoveryKitFile,
+	type RecoveryKitContents,
+	type RecoveryKitFile,
+	type RecoveryKitKey,
+} from "@/lib/recoveryKit";
+import { decodeEnvelope, JSON_CONTENT_TYPE } from "@/lib/sealEnvelope";
+import { downloadFromWalrusByBlobId } from "@/lib/walrus";
+
+/**
+ * QRコード画像からテキストを読み取る
+ */
+function readQrImage(file: File): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const imageUrl = URL.createObjectURL(file);
+		const img = new Image();
+		img.onload = () => {
+			URL.revokeObjectURL(imageUrl);
+			const canvas = document.createElement("canvas");
+			const ctx = canvas.getContext("2d");
+			if (!ctx) {
+				reject(new Error("Canvas is not available"));
+				return;
+			}
+			canvas.width = img.width;
+			canvas.height = img.height;
+			ctx.drawImage(img, 0, 0);
+			const imageData = ctx.getImageData(0, 0, img.width, img.height);
+			const code = jsQR(imageData.data, imageData.width, imageData.height);
+			if (code) {
+				resolve(code.data);
+			} else {
+				reject(new Error(`No QR code found in ${file.name}`));
+			}
+		};
+		img.onerror = () => {
+			URL.revokeObjectURL(imageUrl);
+			reject(new Error(`Could not load ${file.name}`));
+		};
+		img.src = imageUrl;
+	});
+}
+
+/**
+ * 復号したデータをファイルとして保存する
+ */
+function saveFile(data: BlobPart, type: string, filename: string) {
+	const url = URL.createObjectURL(new Blob([data], { type }));
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = filename;
+	link.click();
+	URL.revokeObjectURL(url);
+}
+
+export default function RecoveryPage() {
+	const t = useTranslations();
+	const [kitFile, setKitFile] = useState<RecoveryKitFile | null>(null);
+	const [passphrase, setPassphrase] = useState("");
+	const [contents, setContents] = useState<RecoveryKitContents | null>(null);
+	const [busyBlobId, setBusyBlobId] = useState<string | null>(null);
+	const [isUnlocking, setIsUnlocking] = useState(false);
+	const [message, setMessage] = useState<{
+		type: "error" | "success";
+		text: string;
+	} | null>(null);
+
+	const loadKitText = (text: string) => {
+		setKitFile(parseRecoveryKitFile(text));
+		setContents(null);
+		setMessage(null);
+	};
+
+	const handleKitFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		e.target.value = "";
+		if (!file) return;
+		try {
+			loadKitText(await file.text());
+		} catch (err) {
+			setMessage({
+				type: "error",
+				text: err instanceof Error ? err.message : String(err),
+			});
+		}
+	};
+
+	const handleQrImages = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const files = Array.from(e.target.files ?? []);
+		e.target.value = "";
+		if (files.length === 0) return;
+		try {
+			const parts = await Promise.all(files.map(readQrImage));
+			loadKitText(joinRecoveryKitQrParts(parts));
+		} catch (err) {
+			setMessage({
+				type: "error",
+				text: err instanceof Error ? err.message : String(err),
+			});
+		}
+	};
+
+	const handleUnlock = async () => {
+		if (!kitFile) return;
+		setIsUnlocking(true);
+		setMessage(null);
+		try {
+			setContents(await openRecoveryKit(kitFile, passphrase));
+			setPassphrase("");
+		} catch (err) {
+			setMessage({
+				type: "error",
+				text: err instanceof Error ? err.message : String(err),
+			});
+		} finally {
+			setIsUnlocking(false);
+		}
+	};
+
+	const handleRecover = async (entry: RecoveryKitKey) => {
+		setBusyBlobId(entry.blobId);
+		setMessage(null);
+		try {
+			// Sealを経由せず、キットのバックアップ鍵で直接復号
+			const encrypted = entry.dataType
+				? await downloadVerifiedBlob(entry.blobId, {
+						sha256: entry.sha256,
+						dataType: entry.dataType,
+					})
+				: await downloadFromWalrusByBlobId(entry.blobId);
+			const decrypted = await decryptWithBackupKey(encrypted, entry.key);
+			const baseName = `${entry.dataType ?? "blob"}-${entry.blobId.slice(0, 8)}`;
+
+			const { contentType, payload } = await decodeEnvelope(decrypted);
+
+			if (contentType === JSON_CONTENT_TYPE) {
+				const json = JSON.parse(new TextDecoder().decode(payload));
+				saveFile(
+					JSON.stringify(json, null, 2),
+					JSON_CONTENT_TYPE,
+					`${baseName}.json`,
+				);
+			} else {
+				saveFile(payload.buffer as ArrayBuffer, contentType, baseName);
+			}
+			setMessage({ type: "success", text: t("recovery.recovered") });
+		} catch (err) {
+			console.error("[Recovery] Failed to recover blob:", err);
+			setMessage({
+				type: "error",
+				text: t("recovery.recoverError", {
+					message: err instanceof Error ? err.message : String(err),
+				}),
+			});
+		} finally {
+			setBusyBlobId(null);
+		}
+	};
+
+	return (
+		<div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-blue-50">
+			<div className="max-w-3xl mx-auto px-4 py-8 space-y-6">
+				<div>
+					<h1 className="flex items-center gap-2 text-2xl font-bold text-gray-900">
+						<KeyRound className="h-6 w-6 text-blue-600" />
+						{t("recovery.title")}
+					</h1>
+					<p className="mt-2 text-sm text-gray-600">
+						{t("recovery.description")}
+					</p>
+				</div>
+
+				{/* キットの読み込み */}
+				<div className="rounded-2xl border border-gray-200 bg-white p-6 shadow-sm space-y-4">
+					<h2 className="font-bold text-gray-900">{t("recovery.loadKit")}</h2>
+					<div className="flex flex-wrap gap-3">
+						<label className="flex cursor-pointer items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700">
+							<FileKey className="h-4 w-4" />
+							{t("recovery.chooseFile")}
+							<input
+								type="file"
+								accept="application/json,.json"
+								onChange={handleKitFile}
+								className="hidden"
+							/>
+						</label>
+						<label className="flex cursor-pointer items-center gap-2 rounded-lg border border-blue-600 px-4 py-2 text-sm font-medium text-blue-600 hover:bg-blue-50">
+							<QrCode className="h-4 w-4" />
+							{t("recovery.chooseQrImages")}
+							<input
+								type="file"
+								accept="image/*"
+								multiple
+								onChange={handleQrImages}
+								className="hidden"
+							/>
+						</label>
+					</div>
+
+					{kitFile && !contents && (
+						<div className="space-y-3">
+							<p className="text-sm text-gray-700">
+								{t("recovery.kitInfo", {
+									owner: kitFile.owner,
+									date: new Date(kitFile.createdAt).toLocaleString(),
+									count: kitFile.keyCount,
+								})}
+							</p>
+							<div className="flex gap-2">
+								<input
+									type="password"
+									value={passphrase}
+									onChange={(e) => setPassphrase(e.target.value)}
+									placeholder={t("recovery.passphrase")}
+									className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm"
+								/>
+								<button
+									type="button"
+									onClick={handleUnlock}
+									disabled={!passphrase || isUnlocking}
+									className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white disabled:opacity-50"
+								>
+									{isUnlocking ? t("recovery.unlocking") : t("recovery.unlock")}
+								</button>
+							</div>
+						</div>
+					)}
+				</div>
+
+				{/* 復号可能なBlob一覧 */}
+				{contents && (
+					<div className="rounded-2xl border border-gray-200 bg-white p-6 shadow-sm">
+						<h2 className="mb-3 font-bold text-gray-900">
+							{t("recovery.blobs", { count: contents.keys.length })}
+						</h2>
+						<ul className="divide-y divide-gray-100">
+							{[...contents.keys].reverse().map((entry) => (
+								<li
+									key={entry.blobId}
+									className="flex items-center justify-between gap-3 py-2 text-sm"
+								>
+									<div className="min-w-0">
+										<p className="font-medium text-gray-900">
+											{entry.dataType
+												? t(`storage.dataTypes.${entry.dataType}`)
+												: t("storage.cleanup.unknownType")}
+										</p>
+										<p className="truncate text-xs text-gray-500">
+											{new Date(entry.createdAt).toLocaleString()} ·{" "}
+											<span className="font-mono">{entry.blobId}</span>
+										</p>
+									</div>
+									<button
+										type="button"
+										onClick={() => handleRecover(entry)}
+										disabled={busyBlobId !== null}
+										className="flex shrink-0 items-center gap-1 rounded-lg border border-blue-600 px-3 py-1.5 text-xs font-medium text-blue-600 disabled:opacity-50"
+									>
+										<Download className="h-3 w-3" />
+										{busyBlobId === entry.blobId
+											? t("recovery.recovering")
+											: t("recovery.recover")}
+									</button>
+								</li>
+							))}
+						</ul>
+					</div>
+				)}
+
+				{message && (
+					<p
+						className={`text-sm ${message.type === "error" ? "text-red-600" : "text-green-700"}`}
+					>
+						{message.text}
+					</p>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -5,8 +5,10 @@
  * POST /api/medications - Add/update medications for a wallet address
  *
  * Authentication:
- * - SessionKey required in X-Session-Key header (base64 encoded JSON)
- * - Wallet address required in query parameter or request body
+ * - SessionKey required in X-Session-Key header (see lib/sessionKey.ts)
+ * - Wallet address required in query parameter or request body; it must be
+ *   the address that signed the SessionKey
+ * - 401 responses carry `code: "INVALID_SESSION_KEY"` and a `reason`
  *
  * Data Flow (v3.0.0):
  * READ:  wallet → passport → dynamic fields → metadata_blob_id → walrus → decrypt metadata → entries[] → decrypt data blobs → medications[]
@@ -15,14 +17,20 @@
 
 import type { SessionKey } from "@mysten/seal";
 import { type NextRequest, NextResponse } from "next/server";
+import { downloadEntryBlob } from "@/lib/blobIntegrity";
 import {
 	buildPatientAccessPTB,
 	createSealClient,
 	decryptHealthData,
 	encryptHealthData,
 } from "@/lib/seal";
-import { generateSealId } from "@/lib/sealIdGenerator";
-import { parseSessionKeyFromHeader } from "@/lib/sessionKey";
+import { resolveSealId } from "@/lib/sealIdRotation";
+import {
+	SESSION_KEY_HEADER,
+	SessionKeyAuthError,
+	type SessionKeyRejectionReason,
+	verifySessionKeyHeader,
+} from "@/lib/sessionKey";
 import {
 	getDataEntry,
 	getMedicalPassport,
@@ -39,6 +47,7 @@ export const runtime = "edge";
 // ==========================================
 
 const PASSPORT_REGISTRY_ID = process.env.NEXT_PUBLIC_PASSPORT_REGISTRY_ID || "";
+const PACKAGE_ID = process.env.NEXT_PUBLIC_PACKAGE_ID || "";
 
 // ==========================================
 // Type Definitions
@@ -50,6 +59,8 @@ const PASSPORT_REGISTRY_ID = process.env.NEXT_PUBLIC_PASSPORT_REGISTRY_ID || "";
 interface ErrorResponse {
 	error: string;
 	code?: string;
+	/** Why the SessionKey was rejected (401 only) */
+	reason?: SessionKeyRejectionReason;
 }
 
 /**
@@ -97,6 +108,22 @@ function errorResponse(
 	);
 }
 
+/**
+ * Create 401 response for a rejected SessionKey
+ */
+function unauthorizedResponse(
+	error: SessionKeyAuthError,
+): NextResponse<ErrorResponse> {
+	return NextResponse.json(
+		{
+			error: error.message,
+			code: "INVALID_SESSION_KEY",
+			reason: error.reason,
+		},
+		{ status: 401 },
+	);
+}
+
 // ==========================================
 // GET /api/medications
 // ==========================================
@@ -107,8 +134,8 @@ function errorResponse(
  * Retrieve medications for a wallet address.
  *
  * Flow:
- * 1. Parse SessionKey from header
- * 2. Get wallet address from query parameter
+ * 1. Get wallet address from query parameter
+ * 2. Verify SessionKey from header (signed by that address)
  * 3. Fetch MedicalPassport from blockchain
  * 4. Get blob_ids from Dynamic Fields ("medications")
  * 5. Download each blob from Walrus
@@ -118,7 +145,7 @@ function errorResponse(
  * 9. Return medications array
  *
  * Headers:
- * - X-Session-Key: base64(JSON) with signature and expiresAt
+ * - X-Session-Key: base64(JSON) of the exported SessionKey
  *
  * Query Parameters:
  * - address: Wallet address (required)
@@ -126,26 +153,13 @@ function errorResponse(
  * Response:
  * - 200: { medications: Medication[], totalBlobs: number }
  * - 400: Invalid request
- * - 401: Unauthorized (SessionKey invalid/expired)
+ * - 401: Unauthorized ({ code: "INVALID_SESSION_KEY", reason })
  * - 404: Passport not found
  * - 500: Server error
  */
 export async function GET(request: NextRequest): Promise<NextResponse> {
 	try {
-		// 1. Parse SessionKey from header
-		const sessionKeyHeader = request.headers.get("X-Session-Key");
-		let sessionKey: SessionKey;
-		try {
-			sessionKey = parseSessionKeyFromHeader(sessionKeyHeader);
-		} catch (error) {
-			return errorResponse(
-				error instanceof Error ? error.message : "Invalid SessionKey",
-				401,
-				"INVALID_SESSION_KEY",
-			);
-		}
-
-		// 2. Get wallet address from query parameter
+		// 1. Get wallet address from query parameter
 		const { searchParams } = new URL(request.url);
 		const address = searchParams.get("address");
 
@@ -153,8 +167,22 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
 			return errorResponse("Missing address parameter", 400, "MISSING_ADDRESS");
 		}
 
-		// 3. Fetch MedicalPassport from blockchain
+		// 2. Verify SessionKey from header
 		const suiClient = getSuiClient();
+		let sessionKey: SessionKey;
+		try {
+			sessionKey = await verifySessionKeyHeader(
+				request.headers.get(SESSION_KEY_HEADER),
+				{ suiClient, packageId: PACKAGE_ID, address },
+			);
+		} catch (error) {
+			if (error instanceof SessionKeyAuthError) {
+				return unauthorizedResponse(error);
+			}
+			throw error;
+		}
+
+		// 3. Fetch MedicalPassport from blockchain
 		const passportId = await getPassportIdByAddress(address);
 
 		if (!passportId) {
@@ -219,7 +247,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
 			// Step 2: Download and decrypt each data blob
 			for (const entry of entries) {
 				try {
-					const encryptedData = await downloadFromWalrusByBlobId(entry.blob_id);
+					const encryptedData = await downloadEntryBlob(entry, "medications");
 
 					const txBytes = await buildPatientAccessPTB({
 						passportObjectId: passportId,
@@ -276,8 +304,8 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
  * Add or update medications for a wallet address.
  *
  * Flow:
- * 1. Parse SessionKey from header
- * 2. Parse request body (address + medications)
+ * 1. Parse request body (address + medications)
+ * 2. Verify SessionKey from header (signed by that address)
  * 3. Fetch MedicalPassport from blockchain
  * 4. Construct HealthData object
  * 5. Encrypt with Seal
@@ -288,7 +316,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
  * The client must call replace_data_entry on-chain to update the passport.
  *
  * Headers:
- * - X-Session-Key: base64(JSON) with signature and expiresAt
+ * - X-Session-Key: base64(JSON) of the exported SessionKey
  *
  * Request Body:
  * {
@@ -299,25 +327,13 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
  * Response:
  * - 200: { blobId: string, message: string }
  * - 400: Invalid request
- * - 401: Unauthorized
+ * - 401: Unauthorized ({ code: "INVALID_SESSION_KEY", reason })
  * - 404: Passport not found
  * - 500: Server error
  */
 export async function POST(request: NextRequest): Promise<NextResponse> {
 	try {
-		// 1. Parse SessionKey from header (validation only, not used for encryption)
-		const sessionKeyHeader = request.headers.get("X-Session-Key");
-		try {
-			parseSessionKeyFromHeader(sessionKeyHeader);
-		} catch (error) {
-			return errorResponse(
-				error instanceof Error ? error.message : "Invalid SessionKey",
-				401,
-				"INVALID_SESSION_KEY",
-			);
-		}
-
-		// 2. Parse request body
+		// 1. Parse request body
 		const body = (await request.json()) as PostMedicationsRequest;
 
 		if (!body.address) {
@@ -336,8 +352,22 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 			);
 		}
 
-		// 3. Fetch MedicalPassport from blockchain
+		// 2. Verify SessionKey from header (authentication only, not used for encryption)
 		const suiClient = getSuiClient();
+		try {
+			await verifySessionKeyHeader(request.headers.get(SESSION_KEY_HEADER), {
+				suiClient,
+				packageId: PACKAGE_ID,
+				address: body.address,
+			});
+		} catch (error) {
+			if (error instanceof SessionKeyAuthError) {
+				return unauthorizedResponse(error);
+			}
+			throw error;
+		}
+
+		// 3. Fetch MedicalPassport from blockchain
 		const passportId = await getPassportIdByAddress(body.address);
 
 		if (!passportId) {
@@ -350,8 +380,12 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 
 		const passport = await getMedicalPassport(passportId);
 
-		// Generate seal_id for medications data type
-		const medicationsSealId = await generateSealId(body.address, "medications");
+		// seal_id for medications data type (on-chain if rotated)
+		const medicationsSealId = await resolveSealId({
+			passportId,
+			address: body.address,
+			dataType: "medications",
+		});
 
 		// 4. Construct HealthData object
 		const healthData: HealthData = {
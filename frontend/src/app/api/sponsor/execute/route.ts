@@ -0,0 +1,90 @@
+import { fromBase64, toBase64 } from "@mysten/bcs";
+import type { SuiTransactionBlockResponse } from "@mysten/sui/client";
+import { TransactionDataBuilder } from "@mysten/sui/transactions";
+import { type NextRequest, NextResponse } from "next/server";
+import type {
+	SponsorExecuteRequestBody,
+	SponsorExecuteResponseBody,
+} from "@/lib/sponsoredTransactions";
+import {
+	getGasCost,
+	getSponsorKeypair,
+	getSponsorStore,
+	recordSponsorshipExecuted,
+	releaseSponsorGasCoin,
+	takePendingSponsorship,
+} from "@/lib/sponsorServer";
+import { getSuiClient } from "@/lib/suiClient";
+
+export const runtime = "edge";
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+	try {
+		const sponsor = getSponsorKeypair();
+		const store = getSponsorStore();
+		if (!sponsor || !store) {
+			return NextResponse.json(
+				{ error: "Sponsorship is not configured" },
+				{ status: 503 },
+			);
+		}
+
+		const body = (await req.json()) as Partial<SponsorExecuteRequestBody>;
+		if (!body.transactionBytes || !body.signature) {
+			return NextResponse.json(
+				{ error: "transactionBytes and signature are required" },
+				{ status: 400 },
+			);
+		}
+		const transactionBytes = fromBase64(body.transactionBytes);
+		const client = getSuiClient();
+
+		// スポンサールートが組み立てたトランザクションだけを一度だけ署名・実行する
+		const pending = await takePendingSponsorship(
+			store,
+			TransactionDataBuilder.getDigestFromBytes(transactionBytes),
+		);
+		if (!pending) {
+			return NextResponse.json(
+				{ error: "Sponsorship expired or already executed" },
+				{ status: 409 },
+			);
+		}
+
+		let result: SuiTransactionBlockResponse;
+		try {
+			const { signature: sponsorSignature } =
+				await sponsor.signTransaction(transactionBytes);
+			result = await client.executeTransactionBlock({
+				transactionBlock: transactionBytes,
+				signature: [body.signature, sponsorSignature],
+				options: { showEffects: true, showRawEffects: true },
+			});
+
+			// 実行されたトランザクションだけを枠と予算に数える（abortしてもガスは消費される）
+			if (result.effects) {
+				await recordSponsorshipExecuted(
+					store,
+					pending.sender,
+					getGasCost(result.effects.gasUsed),
+				);
+				// ガスコインの新しいバージョンが読めるようになってから戻す
+				await client.waitForTransaction({ digest: result.digest });
+			}
+		} finally {
+			await releaseSponsorGasCoin(store, pending.gasCoinId);
+		}
+
+		const response: SponsorExecuteResponseBody = {
+			digest: result.digest,
+			rawEffects: toBase64(new Uint8Array(result.rawEffects ?? [])),
+		};
+		return NextResponse.json(response);
+	} catch (error) {
+		console.error("[sponsor/execute] POST failed", error);
+		return NextResponse.json(
+			{ error: "Failed to execute sponsored transaction" },
+			{ status: 500 },
+		);
+	}
+}
@@ -0,0 +1,168 @@
+import { fromBase64, toBase64 } from "@mysten/bcs";
+import { Transaction, TransactionDataBuilder } from "@mysten/sui/transactions";
+import {
+	isValidSuiAddress,
+	normalizeSuiAddress,
+	SUI_TYPE_ARG,
+} from "@mysten/sui/utils";
+import { verifyPersonalMessageSignature } from "@mysten/sui/verify";
+import { type NextRequest, NextResponse } from "next/server";
+import {
+	getSponsorshipRejection,
+	type SponsorRequestBody,
+	type SponsorResponseBody,
+} from "@/lib/sponsoredTransactions";
+import {
+	getClientIp,
+	getSponsorKeypair,
+	getSponsorLimitRejection,
+	getSponsorLimits,
+	getSponsorStore,
+	releaseSponsorGasCoin,
+	reserveSponsorGasCoin,
+	savePendingSponsorship,
+	takeIpAllowance,
+} from "@/lib/sponsorServer";
+import { getSuiClient, PACKAGE_ID } from "@/lib/suiClient";
+
+export const runtime = "edge";
+
+// 予約候補として読むスポンサーのガスコイン数
+const GAS_COIN_PAGE_SIZE = 50;
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+	try {
+		const sponsor = getSponsorKeypair();
+		const store = getSponsorStore();
+		if (!sponsor || !store || !PACKAGE_ID) {
+			return NextResponse.json(
+				{ error: "Sponsorship is not configured" },
+				{ status: 503 },
+			);
+		}
+
+		const limits = getSponsorLimits();
+		if (
+			!(await takeIpAllowance(
+				store,
+				getClientIp(req.headers),
+				limits.ipHourlyLimit,
+			))
+		) {
+			return NextResponse.json(
+				{ error: "Too many sponsorship requests" },
+				{ status: 429 },
+			);
+		}
+
+		const body = (await req.json()) as Partial<SponsorRequestBody>;
+		if (!body.sender || !isValidSuiAddress(body.sender)) {
+			return NextResponse.json(
+				{ error: "A valid sender is required" },
+				{ status: 400 },
+			);
+		}
+		if (!body.transactionKindBytes || !body.signature) {
+			return NextResponse.json(
+				{ error: "transactionKindBytes and signature are required" },
+				{ status: 400 },
+			);
+		}
+		const sender = normalizeSuiAddress(body.sender);
+		const kindBytes = fromBase64(body.transactionKindBytes);
+
+		// 送信者本人が種別バイト列に署名したリクエストだけを受け付ける
+		try {
+			await verifyPersonalMessageSignature(kindBytes, body.signature, {
+				address: sender,
+				client: getSuiClient(),
+			});
+		} catch {
+			return NextResponse.json(
+				{ error: "Signature does not match the sender" },
+				{ status: 401 },
+			);
+		}
+
+		// 許可したMove関数の呼び出しだけを肩代わりする
+		const tx = Transaction.fromKind(kindBytes);
+		const rejection = getSponsorshipRejection(tx, PACKAGE_ID);
+		if (rejection) {
+			return NextResponse.json({ error: rejection }, { status: 403 });
+		}
+
+		const limitRejection = await getSponsorLimitRejection(
+			store,
+			sender,
+			limits,
+		);
+		if (limitRejection) {
+			return NextResponse.json({ error: limitRejection }, { status: 429 });
+		}
+
+		// 同時のリクエストが同じガスコインを使わないよう、1件ずつ予約する
+		const { data: coins } = await getSuiClient().getCoins({
+			owner: sponsor.toSuiAddress(),
+			coinType: SUI_TYPE_ARG,
+			limit: GAS_COIN_PAGE_SIZE,
+		});
+		const gasCoin = await reserveSponsorGasCoin(
+			store,
+			coins,
+			limits.maxGasBudget,
+		);
+		if (!gasCoin) {
+			return NextResponse.json(
+				{ error: "All sponsor gas coins are in use, try again shortly" },
+				{ status: 503 },
+			);
+		}
+
+		let reserved = false;
+		try {
+			// ガス所有者をスポンサーにしてビルド（ガス予算はdry runで見積もり）
+			tx.setSender(sender);
+			tx.setGasOwner(sponsor.toSuiAddress());
+			tx.setGasPayment([
+				{
+					objectId: gasCoin.coinObjectId,
+					version: gasCoin.version,
+					digest: gasCoin.digest,
+				},
+			]);
+			const transactionBytes = await tx.build({ client: getSuiClient() });
+
+			const budget = tx.getData().gasData.budget;
+			if (budget === null || BigInt(budget) > limits.maxGasBudget) {
+				return NextResponse.json(
+					{ error: `Gas budget ${budget} exceeds the sponsor limit` },
+					{ status: 403 },
+				);
+			}
+
+			// スポンサー署名は実行ルートで付ける（枠は実行後に数える）
+			await savePendingSponsorship(
+				store,
+				TransactionDataBuilder.getDigestFromBytes(transactionBytes),
+				{ sender, gasCoinId: gasCoin.coinObjectId },
+			);
+			reserved = true;
+
+			const response: SponsorResponseBody = {
+				transactionBytes: toBase64(transactionBytes),
+			};
+			return NextResponse.json(response);
+		} finally {
+			// 実行待ちにならなかったガスコインはすぐに戻す
+			if (!reserved) {
+				await releaseSponsorGasCoin(store, gasCoin.coinObjectId);
+			}
+		}
+	} catch (error) {
+		console.error("[sponsor] POST failed", error);
+		return NextResponse.json(
+			{ error: "Failed to sponsor transaction" },
+			{ status: 500 },
+		);
+	}
+}
@@ -0,0 +1,55 @@
+import type { NextRequest } from "next/server";
+import { ZKLOGIN_CALLBACK_MESSAGE } from "@/lib/zkLogin";
+
+export const runtime = "edge";
+
+/**
+ * Page that hands the provider's response to the window that opened it
+ *
+ * @param hash - URL fragment, or null to use the page's own location.hash
+ */
+function callbackPage(hash: string | null): Response {
+	// scriptタグ内に埋め込むため "<" をエスケープする
+	const hashExpr =
+		hash === null
+			? "location.hash"
+			: JSON.stringify(hash).replace(/</g, "\\u003c");
+	const html = `<!doctype html>
+<html><head><meta charset="utf-8"><title>Signing in...</title></head>
+<body><script>
+if (window.opener) {
+	window.opener.postMessage(
+		{ type: ${JSON.stringify(ZKLOGIN_CALLBACK_MESSAGE)}, hash: ${hashExpr} },
+		location.origin,
+	);
+}
+window.close();
+</script></body></html>`;
+	return new Response(html, {
+		headers: {
+			"Content-Type": "text/html; charset=utf-8",
+			"Cache-Control": "no-store",
+		},
+	});
+}
+
+// response_mode=fragment（Google・モック）：IDトークンはURLフラグメントにある
+export function GET(): Response {
+	return callbackPage(null);
+}
+
+// response_mode=form_post（Apple）：IDトークンはフォームで届く
+export async function POST(req: NextRequest): Promise<Response> {
+	try {
+		const form = await req.formData();
+		const idToken = form.get("id_token");
+		const params = new URLSearchParams();
+		if (typeof idToken === "string") {
+			params.set("id_token", idToken);
+		}
+		return callbackPage(`#${params.toString()}`);
+	} catch (error) {
+		console.error("[zklogin/callback] POST failed", error);
+		return callbackPage("#");
+	}
+}
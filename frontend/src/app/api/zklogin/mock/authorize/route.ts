@@ -0,0 +1,47 @@
+import { type NextRequest, NextResponse } from "next/server";
+import {
+	createMockIdToken,
+	isZkLoginMockEnabled,
+	MOCK_ZKLOGIN_CLIENT_ID,
+	ZKLOGIN_CALLBACK_PATH,
+} from "@/lib/zkLogin";
+
+export const runtime = "edge";
+
+/**
+ * Authorization endpoint of the local mock OIDC provider
+ *
+ * Signs in immediately as `login_hint` (default "mock-patient") and
+ * redirects to the callback with an unsigned ID token in the fragment.
+ */
+export function GET(req: NextRequest): NextResponse {
+	if (!isZkLoginMockEnabled()) {
+		return NextResponse.json({ error: "Not found" }, { status: 404 });
+	}
+
+	const params = req.nextUrl.searchParams;
+	const nonce = params.get("nonce");
+	const redirectUri = params.get("redirect_uri");
+	if (!nonce || params.get("client_id") !== MOCK_ZKLOGIN_CLIENT_ID) {
+		return NextResponse.json(
+			{ error: "client_id and nonce are required" },
+			{ status: 400 },
+		);
+	}
+
+	// 自オリジンのコールバック以外にはトークンを渡さない
+	const callback = new URL(ZKLOGIN_CALLBACK_PATH, req.nextUrl.origin);
+	if (redirectUri !== callback.toString()) {
+		return NextResponse.json(
+			{ error: "redirect_uri is not allowed" },
+			{ status: 400 },
+		);
+	}
+
+	const idToken = createMockIdToken({
+		sub: params.get("login_hint") || "mock-patient",
+		nonce,
+	});
+	callback.hash = new URLSearchParams({ id_token: idToken }).toString();
+	return NextResponse.redirect(callback);
+}
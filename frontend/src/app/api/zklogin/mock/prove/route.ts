@@ -0,0 +1,50 @@
+import { type NextRequest, NextResponse } from "next/server";
+import {
+	getIssBase64Details,
+	isZkLoginMockEnabled,
+	type ZkLoginProof,
+	type ZkLoginProverRequestBody,
+} from "@/lib/zkLogin";
+
+export const runtime = "edge";
+
+/**
+ * Dummy prover of the mock OIDC provider
+ *
+ * Returns placeholder proof points with the real issuer details and
+ * header, so accounts and signatures can be assembled locally. The proof
+ * does not verify: mock accounts cannot transact or decrypt.
+ */
+export async function POST(req: NextRequest): Promise<NextResponse> {
+	if (!isZkLoginMockEnabled()) {
+		return NextResponse.json({ error: "Not found" }, { status: 404 });
+	}
+
+	try {
+		const body = (await req.json()) as Partial<ZkLoginProverRequestBody>;
+		if (!body.jwt) {
+			return NextResponse.json({ error: "jwt is required" }, { status: 400 });
+		}
+
+		const proof: ZkLoginProof = {
+			proofPoints: {
+				a: ["0", "0", "1"],
+				b: [
+					["0", "0"],
+					["0", "0"],
+					["1", "0"],
+				],
+				c: ["0", "0", "1"],
+			},
+			issBase64Details: getIssBase64Details(body.jwt),
+			headerBase64: body.jwt.split(".")[0] ?? "",
+		};
+		return NextResponse.json(proof);
+	} catch (error) {
+		console.error("[zklogin/mock/prove] POST failed", error);
+		return NextResponse.json(
+			{ error: "Failed to create mock proof" },
+			{ status: 500 },
+		);
+	}
+}
@@ -0,0 +1,57 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { isZkLoginMockEnabled, MOCK_ZKLOGIN_CLIENT_ID } from "@/lib/zkLogin";
+import { deriveZkLoginSalt, verifyZkLoginIdToken } from "@/lib/zkLoginSalt";
+
+export const runtime = "edge";
+
+interface RequestBody {
+	idToken?: string;
+}
+
+function getAudiences(): string[] {
+	return [
+		process.env.NEXT_PUBLIC_ZKLOGIN_GOOGLE_CLIENT_ID,
+		process.env.NEXT_PUBLIC_ZKLOGIN_APPLE_CLIENT_ID,
+		isZkLoginMockEnabled() ? MOCK_ZKLOGIN_CLIENT_ID : undefined,
+	].filter((aud): aud is string => Boolean(aud));
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+	try {
+		const secret = process.env.ZKLOGIN_SALT_SECRET;
+		if (!secret) {
+			return NextResponse.json(
+				{ error: "zkLogin salt service is not configured" },
+				{ status: 503 },
+			);
+		}
+
+		const body = (await req.json()) as RequestBody;
+		if (!body.idToken) {
+			return NextResponse.json(
+				{ error: "idToken is required" },
+				{ status: 400 },
+			);
+		}
+
+		// 署名・aud・期限を確認したIDトークンにだけsaltを返す
+		const token = await verifyZkLoginIdToken(body.idToken, {
+			audiences: getAudiences(),
+			allowMock: isZkLoginMockEnabled(),
+		});
+		if (!token) {
+			return NextResponse.json(
+				{ error: "ID token is invalid or expired" },
+				{ status: 401 },
+			);
+		}
+
+		return NextResponse.json({ salt: await deriveZkLoginSalt(secret, token) });
+	} catch (error) {
+		console.error("[zklogin/salt] POST failed", error);
+		return NextResponse.json(
+			{ error: "Failed to derive zkLogin salt" },
+			{ status: 500 },
+		);
+	}
+}
@@ -0,0 +1,43 @@
+/**
+ * BlobIntegrityNotifier Component
+ *
+ * Shows a toast whenever a downloaded Walrus blob fails its SHA-256
+ * integrity check, naming the affected data type and partition. Loaders
+ * often skip a failed blob and keep going, so the notification is raised
+ * from lib/blobIntegrity.ts rather than from each caller.
+ *
+ * ## Usage
+ * ```tsx
+ * <BlobIntegrityNotifier />
+ * ```
+ */
+"use client";
+
+import { useTranslations } from "next-intl";
+import { useEffect } from "react";
+import { toast } from "sonner";
+import { onBlobIntegrityError } from "@/lib/blobIntegrity";
+
+export function BlobIntegrityNotifier() {
+	const t = useTranslations();
+
+	useEffect(
+		() =>
+			onBlobIntegrityError((error) => {
+				const dataType = t(`storage.dataTypes.${error.dataType}`);
+				toast.error(t("storage.integrity.title"), {
+					// 同じBlobの失敗は1件のトーストにまとめる
+					id: `blob-integrity-${error.blobId}`,
+					description: error.partition
+						? t("storage.integrity.partition", {
+								dataType,
+								partition: error.partition,
+							})
+						: t("storage.integrity.dataType", { dataType }),
+				});
+			}),
+		[t],
+	);
+
+	return null;
+}
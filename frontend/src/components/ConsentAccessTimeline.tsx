@@ -0,0 +1,100 @@
+/**
+ * ConsentAccessTimeline Component
+ *
+ * Timeline of the decryptions made with one consent token: who opened which
+ * scope and when, and whether the attempt succeeded. The entries are
+ * self-reported by the recipient's app and are labelled as unverified.
+ *
+ * ## Usage
+ * ```tsx
+ * <ConsentAccessTimeline accesses={accessesByToken[token.id] ?? []} />
+ * ```
+ */
+"use client";
+
+import { CheckCircle2, Eye, XCircle } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useApp } from "@/contexts/AppContext";
+import type { ConsentAccessRecord } from "@/lib/consentAccessLog";
+import { getScopeDataType } from "@/lib/entrySharing";
+import { getTheme } from "@/lib/themes";
+
+interface ConsentAccessTimelineProps {
+	/** Accesses of the token, newest first */
+	accesses: ConsentAccessRecord[];
+}
+
+function shortenAddress(address: string): string {
+	return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+export function ConsentAccessTimeline({
+	accesses,
+}: ConsentAccessTimelineProps) {
+	const t = useTranslations();
+	const { settings } = useApp();
+	const theme = getTheme(settings.theme);
+
+	return (
+		<div
+			className="mt-3 border-t pt-3"
+			style={{ borderColor: `${theme.colors.textSecondary}20` }}
+		>
+			<span
+				className="mb-2 flex items-center gap-2 text-sm font-medium"
+				style={{ color: theme.colors.text }}
+			>
+				<Eye size={14} />
+				{t("consentTokens.accesses.title", { count: accesses.length })}
+			</span>
+			{accesses.length === 0 ? (
+				<p className="text-xs" style={{ color: theme.colors.textSecondary }}>
+					{t("consentTokens.accesses.empty")}
+				</p>
+			) : (
+				<>
+					<p
+						className="mb-2 text-xs italic"
+						style={{ color: theme.colors.textSecondary }}
+					>
+						{t("consentTokens.accesses.unverified")}
+					</p>
+					<ol className="space-y-1">
+						{accesses.map((access) => {
+							const dataType = getScopeDataType(access.scope);
+							return (
+								<li
+									key={`${access.timestamp}-${access.accessor}-${access.scope}-${access.success}`}
+									className="flex items-center gap-2 text-xs"
+									style={{ color: theme.colors.textSecondary }}
+								>
+									{access.success ? (
+										<CheckCircle2 size={12} className="text-green-600" />
+									) : (
+										<XCircle size={12} className="text-red-600" />
+									)}
+									<span>{new Date(access.timestamp).toLocaleString()}</span>
+									<span style={{ color: theme.colors.text }}>
+										{dataType === access.scope
+											? t(`storage.dataTypes.${dataType}`)
+											: t("consentTokens.accesses.entry", {
+													dataType: t(`storage.dataTypes.${dataType}`),
+												})}
+									</span>
+									<span className="font-mono" title={access.accessor}>
+										{shortenAddress(access.accessor)}
+									</span>
+									{!access.success && (
+										<span className="text-red-600">
+											{t("consentTokens.accesses.failed")}
+										</span>
+									)}
+								</li>
+							);
+						})}
+					</ol>
+				</>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,183 @@
+/**
+ * OutboxStatus Component
+ *
+ * Lists saves that are still waiting in the outbox (failed uploads or SBT
+ * updates, or saves made while offline). Items are retried automatically;
+ * the banner also offers an immediate retry and lets the user discard an
+ * item they no longer want. Saves that touched partitions another device
+ * changed as well wait here until the user keeps one side.
+ *
+ * ## Usage
+ * ```tsx
+ * <OutboxStatus />
+ * ```
+ */
+"use client";
+
+import { CloudOff, RefreshCw, Trash2 } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useEffect, useState } from "react";
+import { useApp } from "@/contexts/AppContext";
+import { useOutbox } from "@/contexts/OutboxContext";
+import { getTheme } from "@/lib/themes";
+
+export function OutboxStatus() {
+	const t = useTranslations();
+	const { settings } = useApp();
+	const theme = getTheme(settings.theme);
+	const { items, isSyncing, retry, discard, resolveConflict } = useOutbox();
+	const [isOnline, setIsOnline] = useState(true);
+
+	useEffect(() => {
+		const update = () => setIsOnline(navigator.onLine);
+		update();
+		window.addEventListener("online", update);
+		window.addEventListener("offline", update);
+		return () => {
+			window.removeEventListener("online", update);
+			window.removeEventListener("offline", update);
+		};
+	}, []);
+
+	if (items.length === 0) {
+		return null;
+	}
+
+	const handleRetry = async () => {
+		try {
+			await retry();
+		} catch (err) {
+			console.warn("[OutboxStatus] Retry failed:", err);
+		}
+	};
+
+	const handleDiscard = async (id: string) => {
+		if (!confirm(t("storage.outbox.discardConfirm"))) {
+			return;
+		}
+		await discard(id);
+	};
+
+	const handleResolve = async (id: string, choice: "mine" | "theirs") => {
+		try {
+			await resolveConflict(id, choice);
+		} catch (err) {
+			console.warn("[OutboxStatus] Conflict resolution failed:", err);
+		}
+	};
+
+	return (
+		<div
+			className="mx-6 lg:mx-8 mt-4 rounded-xl px-4 py-3 flex flex-col gap-3"
+			style={{
+				backgroundColor: `${theme.colors.primary}10`,
+				color: theme.colors.text,
+			}}
+		>
+			<div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+				<div className="flex items-start gap-3">
+					<CloudOff size={20} className="shrink-0 mt-0.5" />
+					<div className="text-sm">
+						<p className="font-bold">{t("storage.outbox.title")}</p>
+						<p style={{ color: theme.colors.textSecondary }}>
+							{isOnline
+								? t("storage.outbox.pending", { count: items.length })
+								: t("storage.outbox.offline", { count: items.length })}
+						</p>
+					</div>
+				</div>
+				<button
+					type="button"
+					onClick={handleRetry}
+					disabled={isSyncing || !isOnline}
+					className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-white text-sm font-medium transition-opacity disabled:opacity-60"
+					style={{ backgroundColor: theme.colors.primary }}
+				>
+					<RefreshCw size={16} className={isSyncing ? "animate-spin" : ""} />
+					{isSyncing ? t("storage.outbox.syncing") : t("storage.outbox.retry")}
+				</button>
+			</div>
+
+			<ul className="space-y-2">
+				{items.map((item) => (
+					<li
+						key={item.id}
+						className="flex items-start justify-between gap-3 rounded-lg px-3 py-2 text-sm"
+						style={{ backgroundColor: theme.colors.surface }}
+					>
+						<div className="min-w-0">
+							<p className="font-medium">
+								{t("storage.outbox.item", {
+									dataType: t(`storage.dataTypes.${item.dataType}`),
+									partitions: item.partitions
+										.map((partition) => partition.key)
+										.join(", "),
+								})}
+							</p>
+							<p
+								className="text-xs"
+								style={{ color: theme.colors.textSecondary }}
+							>
+								{t("storage.outbox.queuedAt", {
+									date: new Date(item.createdAt).toLocaleString(),
+								})}
+							</p>
+							{item.conflicts && item.conflicts.length > 0 ? (
+								<div className="mt-1 text-xs">
+									<p className="text-amber-700 break-words">
+										{t("storage.outbox.conflict", {
+											partitions: item.conflicts
+												.map((conflict) => conflict.key)
+												.join(", "),
+										})}
+									</p>
+									<div className="mt-2 flex flex-wrap gap-2">
+										<button
+											type="button"
+											onClick={() => handleResolve(item.id, "mine")}
+											disabled={isSyncing}
+											className="rounded-lg px-3 py-1 font-medium text-white transition-opacity disabled:opacity-60"
+											style={{ backgroundColor: theme.colors.primary }}
+										>
+											{t("storage.outbox.keepMine")}
+										</button>
+										<button
+											type="button"
+											onClick={() => handleResolve(item.id, "theirs")}
+											disabled={isSyncing}
+											className="rounded-lg border px-3 py-1 font-medium transition-opacity disabled:opacity-60"
+											style={{
+												borderColor: `${theme.colors.textSecondary}40`,
+											}}
+										>
+											{t("storage.outbox.keepTheirs")}
+										</button>
+									</div>
+								</div>
+							) : (
+								item.lastError && (
+									<p className="text-xs mt-1 text-red-700 break-words">
+										{t("storage.outbox.lastError", {
+											attempts: item.attempts,
+											message: item.lastError,
+										})}
+									</p>
+								)
+							)}
+						</div>
+						<button
+							type="button"
+							onClick={() => handleDiscard(item.id)}
+							disabled={isSyncing}
+							className="shrink-0 p-1 rounded transition-opacity disabled:opacity-40"
+							style={{ color: theme.colors.textSecondary }}
+							aria-label={t("storage.outbox.discard")}
+						>
+							<Trash2 size={16} />
+						</button>
+					</li>
+				))}
+			</ul>
+		</div>
+	);
+}
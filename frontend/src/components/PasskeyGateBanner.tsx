@@ -0,0 +1,68 @@
+/**
+ * PasskeyGateBanner Component
+ *
+ * Shown when the passkey check was cancelled or failed: lists the data
+ * types that stay hidden and asks for the passkey again.
+ *
+ * ## Usage
+ * ```tsx
+ * <PasskeyGateBanner />
+ * ```
+ */
+"use client";
+
+import { Fingerprint } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useApp } from "@/contexts/AppContext";
+import { usePasskeyGate } from "@/hooks/usePasskeyGate";
+import { retryPasskeyAccess } from "@/lib/passkeyGate";
+import { getTheme } from "@/lib/themes";
+
+export function PasskeyGateBanner() {
+	const t = useTranslations();
+	const { settings, refetchProfile } = useApp();
+	const theme = getTheme(settings.theme);
+	const { blocked } = usePasskeyGate();
+
+	if (blocked.length === 0) {
+		return null;
+	}
+
+	const handleRetry = () => {
+		retryPasskeyAccess();
+		void refetchProfile();
+	};
+
+	return (
+		<div
+			className="mx-6 lg:mx-8 mt-4 rounded-xl px-4 py-3 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between"
+			style={{
+				backgroundColor: "#FEF3C7",
+				color: "#92400E",
+			}}
+		>
+			<div className="flex items-start gap-3">
+				<Fingerprint size={20} className="shrink-0 mt-0.5" />
+				<div className="text-sm">
+					<p className="font-bold">{t("passkeyGate.banner.title")}</p>
+					<p>
+						{t("passkeyGate.banner.hidden", {
+							dataTypes: blocked
+								.map((dataType) => t(`storage.dataTypes.${dataType}`))
+								.join(", "),
+						})}
+					</p>
+				</div>
+			</div>
+			<button
+				type="button"
+				onClick={handleRetry}
+				className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-white text-sm font-medium transition-opacity disabled:opacity-60"
+				style={{ backgroundColor: theme.colors.primary }}
+			>
+				<Fingerprint size={16} />
+				{t("passkeyGate.banner.retry")}
+			</button>
+		</div>
+	);
+}
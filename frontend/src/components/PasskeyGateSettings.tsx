@@ -0,0 +1,157 @@
+/**
+ * PasskeyGateSettings Component
+ *
+ * Registers a passkey on this device as a second factor in front of the
+ * owner's records, and sets per data type when it is asked for.
+ *
+ * ## Usage
+ * ```tsx
+ * <PasskeyGateSettings />
+ * ```
+ */
+"use client";
+
+import { Fingerprint, Trash2 } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useApp } from "@/contexts/AppContext";
+import { usePasskeyGate } from "@/hooks/usePasskeyGate";
+import {
+	getPasskeySensitivity,
+	PASSKEY_SESSION_MIN,
+	type PasskeySensitivity,
+} from "@/lib/passkeyGate";
+import { getTheme } from "@/lib/themes";
+import type { DataType } from "@/types/healthData";
+
+const GATED_DATA_TYPES: DataType[] = [
+	"basic_profile",
+	"medications",
+	"conditions",
+	"lab_results",
+	"self_metrics",
+	"imaging_meta",
+];
+
+const SENSITIVITY_OPTIONS: PasskeySensitivity[] = ["off", "session", "always"];
+
+export function PasskeyGateSettings() {
+	const t = useTranslations();
+	const { settings } = useApp();
+	const theme = getTheme(settings.theme);
+	const {
+		config,
+		isSupported,
+		register,
+		remove,
+		setSensitivity,
+		isBusy,
+		error,
+	} = usePasskeyGate();
+
+	const handleRegister = async () => {
+		try {
+			await register(t("appName"));
+		} catch {
+			// error state is shown below
+		}
+	};
+
+	const handleRemove = () => {
+		if (confirm(t("passkeyGate.settings.removeConfirm"))) {
+			remove();
+		}
+	};
+
+	const selectStyle = {
+		backgroundColor: theme.colors.surface,
+		borderColor: `${theme.colors.textSecondary}40`,
+		color: theme.colors.text,
+	};
+
+	return (
+		<div
+			className="mt-4 rounded-xl p-4 shadow-sm"
+			style={{ backgroundColor: theme.colors.surface }}
+		>
+			<span
+				className="mb-2 flex items-center gap-2 font-bold"
+				style={{ color: theme.colors.text }}
+			>
+				<Fingerprint size={16} />
+				{t("passkeyGate.settings.title")}
+			</span>
+
+			<p className="text-sm" style={{ color: theme.colors.textSecondary }}>
+				{t("passkeyGate.settings.description")}
+			</p>
+
+			{!isSupported ? (
+				<p className="mt-3 text-sm text-amber-700">
+					{t("passkeyGate.settings.unsupported")}
+				</p>
+			) : !config ? (
+				<button
+					type="button"
+					onClick={handleRegister}
+					disabled={isBusy}
+					className="mt-3 flex items-center gap-2 rounded-lg px-3 py-1.5 text-sm font-medium text-white transition-opacity disabled:opacity-50"
+					style={{ backgroundColor: theme.colors.primary }}
+				>
+					<Fingerprint size={14} />
+					{isBusy
+						? t("passkeyGate.settings.registering")
+						: t("passkeyGate.settings.register")}
+				</button>
+			) : (
+				<div className="mt-3 space-y-2">
+					<p className="text-sm" style={{ color: theme.colors.accent }}>
+						{t("passkeyGate.settings.registered", {
+							date: new Date(config.createdAt).toLocaleDateString(),
+						})}
+					</p>
+					{GATED_DATA_TYPES.map((dataType) => (
+						<label
+							key={dataType}
+							className="flex items-center justify-between gap-2 text-sm"
+							style={{ color: theme.colors.text }}
+						>
+							{t(`storage.dataTypes.${dataType}`)}
+							<select
+								value={getPasskeySensitivity(config, dataType)}
+								onChange={(e) =>
+									setSensitivity(dataType, e.target.value as PasskeySensitivity)
+								}
+								className="rounded-lg border px-2 py-1 text-sm"
+								style={selectStyle}
+							>
+								{SENSITIVITY_OPTIONS.map((sensitivity) => (
+									<option key={sensitivity} value={sensitivity}>
+										{t(`passkeyGate.sensitivity.${sensitivity}`, {
+											minutes: PASSKEY_SESSION_MIN,
+										})}
+									</option>
+								))}
+							</select>
+						</label>
+					))}
+					<div className="flex justify-end">
+						<button
+							type="button"
+							onClick={handleRemove}
+							className="flex items-center gap-2 rounded-lg px-3 py-1.5 text-sm font-medium text-red-600 transition-opacity disabled:opacity-50"
+						>
+							<Trash2 size={14} />
+							{t("passkeyGate.settings.remove")}
+						</button>
+					</div>
+				</div>
+			)}
+
+			{error && (
+				<p className="mt-3 text-sm text-red-600">
+					{t("passkeyGate.error", { message: error })}
+				</p>
+			)}
+		</div>
+	);
+}
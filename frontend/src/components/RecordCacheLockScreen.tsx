@@ -0,0 +1,137 @@
+/**
+ * RecordCacheLockScreen Component
+ *
+ * Covers the app while the encrypted record cache is locked: at app load
+ * when a PIN has been set up, and again after the auto-lock idle time.
+ * Also restarts the auto-lock timer on user activity. A forgotten PIN
+ * removes the cache; records are then loaded from Walrus again.
+ *
+ * ## Usage
+ * ```tsx
+ * <RecordCacheLockScreen />
+ * ```
+ */
+"use client";
+
+import { Lock } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { type FormEvent, useEffect, useState } from "react";
+import { useApp } from "@/contexts/AppContext";
+import { useRecordCache } from "@/hooks/useRecordCache";
+import { touchRecordCache } from "@/lib/recordCache";
+import { getTheme } from "@/lib/themes";
+
+export function RecordCacheLockScreen() {
+	const t = useTranslations();
+	const { settings } = useApp();
+	const theme = getTheme(settings.theme);
+	const { status, unlock, reset, isBusy, error } = useRecordCache();
+	const [pin, setPin] = useState("");
+
+	// Restart the auto-lock timer on activity
+	useEffect(() => {
+		if (status !== "unlocked") {
+			return;
+		}
+		const events = ["pointerdown", "keydown", "scroll"] as const;
+		for (const event of events) {
+			window.addEventListener(event, touchRecordCache, { passive: true });
+		}
+		return () => {
+			for (const event of events) {
+				window.removeEventListener(event, touchRecordCache);
+			}
+		};
+	}, [status]);
+
+	if (status !== "locked") {
+		return null;
+	}
+
+	const handleUnlock = async (e: FormEvent) => {
+		e.preventDefault();
+		try {
+			await unlock(pin);
+			setPin("");
+		} catch {
+			// error state is shown below
+		}
+	};
+
+	const handleForgot = async () => {
+		if (!confirm(t("recordCache.lock.forgotConfirm"))) {
+			return;
+		}
+		try {
+			await reset();
+			setPin("");
+		} catch {
+			// error state is shown below
+		}
+	};
+
+	return (
+		<div
+			className="fixed inset-0 z-[100] flex items-center justify-center p-6"
+			style={{ backgroundColor: theme.colors.background }}
+		>
+			<form
+				onSubmit={handleUnlock}
+				className="w-full max-w-sm rounded-xl p-6 shadow-sm"
+				style={{ backgroundColor: theme.colors.surface }}
+			>
+				<span
+					className="mb-2 flex items-center gap-2 text-lg font-bold"
+					style={{ color: theme.colors.text }}
+				>
+					<Lock size={18} />
+					{t("recordCache.lock.title")}
+				</span>
+				<p className="text-sm" style={{ color: theme.colors.textSecondary }}>
+					{t("recordCache.lock.description")}
+				</p>
+
+				<input
+					type="password"
+					inputMode="numeric"
+					autoComplete="off"
+					value={pin}
+					onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+					placeholder={t("recordCache.pinPlaceholder")}
+					className="mt-4 w-full rounded-lg border px-3 py-2 text-center text-lg tracking-widest"
+					style={{
+						borderColor: `${theme.colors.textSecondary}40`,
+						color: theme.colors.text,
+						backgroundColor: theme.colors.surface,
+					}}
+				/>
+
+				{error && (
+					<p className="mt-2 text-sm text-red-600">
+						{t("recordCache.error", { message: error })}
+					</p>
+				)}
+
+				<button
+					type="submit"
+					disabled={isBusy || pin.length === 0}
+					className="mt-4 w-full rounded-lg px-3 py-2 text-sm font-medium text-white transition-opacity disabled:opacity-50"
+					style={{ backgroundColor: theme.colors.primary }}
+				>
+					{isBusy
+						? t("recordCache.lock.unlocking")
+						: t("recordCache.lock.unlock")}
+				</button>
+				<button
+					type="button"
+					onClick={handleForgot}
+					disabled={isBusy}
+					className="mt-2 w-full rounded-lg px-3 py-1.5 text-sm font-medium transition-opacity disabled:opacity-50"
+					style={{ color: theme.colors.textSecondary }}
+				>
+					{t("recordCache.lock.forgot")}
+				</button>
+			</form>
+		</div>
+	);
+}
@@ -0,0 +1,198 @@
+/**
+ * RecordCacheSettings Component
+ *
+ * Turns the encrypted on-device record cache on (with a PIN) or off, and
+ * sets the idle time after which it locks again.
+ *
+ * ## Usage
+ * ```tsx
+ * <RecordCacheSettings />
+ * ```
+ */
+"use client";
+
+import { Database, Lock, Trash2 } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useEffect, useState } from "react";
+import { useApp } from "@/contexts/AppContext";
+import { useRecordCache } from "@/hooks/useRecordCache";
+import {
+	isRecordCacheAvailable,
+	MIN_RECORD_CACHE_PIN_LENGTH,
+	RECORD_CACHE_AUTO_LOCK_OPTIONS_MIN,
+} from "@/lib/recordCache";
+import { getTheme } from "@/lib/themes";
+
+export function RecordCacheSettings() {
+	const t = useTranslations();
+	const { settings } = useApp();
+	const theme = getTheme(settings.theme);
+	const {
+		status,
+		setup,
+		lock,
+		reset,
+		autoLockMin,
+		setAutoLockMin,
+		isBusy,
+		error,
+	} = useRecordCache();
+
+	const [isAvailable, setIsAvailable] = useState(false);
+	const [pin, setPin] = useState("");
+	const [confirmation, setConfirmation] = useState("");
+
+	useEffect(() => {
+		setIsAvailable(isRecordCacheAvailable());
+	}, []);
+
+	const pinError =
+		pin.length > 0 && pin.length < MIN_RECORD_CACHE_PIN_LENGTH
+			? t("recordCache.pinTooShort", { min: MIN_RECORD_CACHE_PIN_LENGTH })
+			: confirmation.length > 0 && pin !== confirmation
+				? t("recordCache.pinMismatch")
+				: null;
+
+	const handleSetup = async () => {
+		try {
+			await setup(pin);
+			setPin("");
+			setConfirmation("");
+		} catch {
+			// error state is shown below
+		}
+	};
+
+	const handleReset = async () => {
+		if (!confirm(t("recordCache.settings.turnOffConfirm"))) {
+			return;
+		}
+		try {
+			await reset();
+		} catch {
+			// error state is shown below
+		}
+	};
+
+	const inputStyle = {
+		borderColor: `${theme.colors.textSecondary}40`,
+		color: theme.colors.text,
+		backgroundColor: theme.colors.surface,
+	};
+
+	return (
+		<div
+			className="mt-4 rounded-xl p-4 shadow-sm"
+			style={{ backgroundColor: theme.colors.surface }}
+		>
+			<span
+				className="mb-2 flex items-center gap-2 font-bold"
+				style={{ color: theme.colors.text }}
+			>
+				<Database size={16} />
+				{t("recordCache.settings.title")}
+			</span>
+
+			<p className="text-sm" style={{ color: theme.colors.textSecondary }}>
+				{t("recordCache.settings.description")}
+			</p>
+
+			{!isAvailable ? (
+				<p className="mt-3 text-sm text-amber-700">
+					{t("recordCache.settings.unavailable")}
+				</p>
+			) : status === "disabled" ? (
+				<div className="mt-3 space-y-2">
+					<input
+						type="password"
+						inputMode="numeric"
+						autoComplete="new-password"
+						value={pin}
+						onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+						placeholder={t("recordCache.pinPlaceholder")}
+						className="w-full rounded-lg border px-3 py-2 text-sm"
+						style={inputStyle}
+					/>
+					<input
+						type="password"
+						inputMode="numeric"
+						autoComplete="new-password"
+						value={confirmation}
+						onChange={(e) => setConfirmation(e.target.value.replace(/\D/g, ""))}
+						placeholder={t("recordCache.settings.confirmPlaceholder")}
+						className="w-full rounded-lg border px-3 py-2 text-sm"
+						style={inputStyle}
+					/>
+					{pinError && <p className="text-xs text-red-600">{pinError}</p>}
+					<button
+						type="button"
+						onClick={handleSetup}
+						disabled={
+							isBusy ||
+							pin.length < MIN_RECORD_CACHE_PIN_LENGTH ||
+							pin !== confirmation
+						}
+						className="flex items-center gap-2 rounded-lg px-3 py-1.5 text-sm font-medium text-white transition-opacity disabled:opacity-50"
+						style={{ backgroundColor: theme.colors.primary }}
+					>
+						<Lock size={14} />
+						{isBusy
+							? t("recordCache.settings.turningOn")
+							: t("recordCache.settings.turnOn")}
+					</button>
+				</div>
+			) : status === "unlocked" ? (
+				<div className="mt-3 space-y-3">
+					<p className="text-sm" style={{ color: theme.colors.accent }}>
+						{t("recordCache.settings.enabled")}
+					</p>
+					<label
+						className="flex items-center justify-between gap-2 text-sm"
+						style={{ color: theme.colors.text }}
+					>
+						{t("recordCache.settings.autoLock")}
+						<select
+							value={autoLockMin}
+							onChange={(e) => setAutoLockMin(Number(e.target.value))}
+							className="rounded-lg border px-2 py-1 text-sm"
+							style={inputStyle}
+						>
+							{RECORD_CACHE_AUTO_LOCK_OPTIONS_MIN.map((minutes) => (
+								<option key={minutes} value={minutes}>
+									{t("recordCache.settings.autoLockOption", { minutes })}
+								</option>
+							))}
+						</select>
+					</label>
+					<div className="flex items-center justify-end gap-2">
+						<button
+							type="button"
+							onClick={handleReset}
+							disabled={isBusy}
+							className="flex items-center gap-2 rounded-lg px-3 py-1.5 text-sm font-medium text-red-600 transition-opacity disabled:opacity-50"
+						>
+							<Trash2 size={14} />
+							{t("recordCache.settings.turnOff")}
+						</button>
+						<button
+							type="button"
+							onClick={lock}
+							disabled={isBusy}
+							className="flex items-center gap-2 rounded-lg px-3 py-1.5 text-sm font-medium text-white transition-opacity disabled:opacity-50"
+							style={{ backgroundColor: theme.colors.primary }}
+						>
+							<Lock size={14} />
+							{t("recordCache.settings.lockNow")}
+						</button>
+					</div>
+				</div>
+			) : null}
+
+			{error && (
+				<p className="mt-3 text-sm text-red-600">
+					{t("recordCache.error", { message: error })}
+				</p>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,145 @@
+/**
+ * RecordImport Component
+ *
+ * Lets the owner pick a HealthData bundle file, review how many records of
+ * each data type it holds and save them all with one signature.
+ *
+ * ## Usage
+ * ```tsx
+ * <RecordImport />
+ * ```
+ */
+"use client";
+
+import { FileUp, Upload } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useApp } from "@/contexts/AppContext";
+import { useRecordImport } from "@/hooks/useRecordImport";
+import type { RecordImportDataType } from "@/lib/recordImport";
+import { getTheme } from "@/lib/themes";
+
+/**
+ * Number of records of a data type in the import
+ */
+function countRecords(imported: RecordImportDataType): number {
+	const { recordsField } = imported;
+	if (!recordsField) {
+		return imported.partitions.length;
+	}
+	return imported.partitions.reduce(
+		(sum, partition) =>
+			sum + (partition.data[recordsField] as unknown[]).length,
+		0,
+	);
+}
+
+export function RecordImport() {
+	const t = useTranslations();
+	const { settings } = useApp();
+	const theme = getTheme(settings.theme);
+	const { parseFile, importParsed, parsed, isReady, progress, error } =
+		useRecordImport();
+
+	const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		e.target.value = "";
+		if (!file) {
+			return;
+		}
+		try {
+			await parseFile(file);
+		} catch {
+			// error state is shown below
+		}
+	};
+
+	const handleImport = async () => {
+		try {
+			await importParsed();
+		} catch {
+			// error state is shown below
+		}
+	};
+
+	return (
+		<div
+			className="mt-4 rounded-xl p-4 shadow-sm"
+			style={{ backgroundColor: theme.colors.surface }}
+		>
+			<div className="mb-2 flex items-center justify-between">
+				<span className="font-bold" style={{ color: theme.colors.text }}>
+					{t("recordImport.title")}
+				</span>
+				<label
+					className="flex cursor-pointer items-center gap-2 rounded-lg px-3 py-1.5 text-sm font-medium text-white"
+					style={{ backgroundColor: theme.colors.primary }}
+				>
+					<FileUp size={14} />
+					{t("recordImport.chooseFile")}
+					<input
+						type="file"
+						accept="application/json,.json"
+						className="hidden"
+						onChange={handleFile}
+					/>
+				</label>
+			</div>
+
+			<p className="text-sm" style={{ color: theme.colors.textSecondary }}>
+				{t("recordImport.description")}
+			</p>
+
+			{parsed && (
+				<>
+					<ul className="mt-3 space-y-1">
+						{parsed.map((imported) => (
+							<li
+								key={imported.dataType}
+								className="flex justify-between text-sm"
+								style={{ color: theme.colors.text }}
+							>
+								<span>{t(`storage.dataTypes.${imported.dataType}`)}</span>
+								<span style={{ color: theme.colors.textSecondary }}>
+									{t("recordImport.records", {
+										count: countRecords(imported),
+									})}
+								</span>
+							</li>
+						))}
+					</ul>
+
+					{!isReady && (
+						<p className="mt-3 text-sm" style={{ color: theme.colors.text }}>
+							{t("recordImport.notReady")}
+						</p>
+					)}
+
+					<button
+						type="button"
+						onClick={handleImport}
+						disabled={!isReady || progress === "importing"}
+						className="mt-3 flex w-full items-center justify-center gap-2 rounded-lg px-4 py-2 text-sm font-medium text-white transition-opacity disabled:opacity-50"
+						style={{ backgroundColor: theme.colors.primary }}
+					>
+						<Upload size={16} />
+						{progress === "importing"
+							? t("recordImport.importing")
+							: t("recordImport.import")}
+					</button>
+				</>
+			)}
+
+			{progress === "completed" && (
+				<p className="mt-3 text-sm" style={{ color: theme.colors.accent }}>
+					{t("recordImport.completed")}
+				</p>
+			)}
+
+			{error && (
+				<p className="mt-3 text-sm text-red-600">
+					{t("recordImport.error", { message: error })}
+				</p>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,342 @@
+/**
+ * RecoveryKitExport Component
+ *
+ * Opt-in collection of Seal backup keys and export of the passphrase
+ * wrapped recovery kit, as a file or as a printable set of QR codes. The
+ * kit is what the recovery screen (/recovery) needs to read the record if
+ * the Seal key servers become unavailable. Exported keys are deleted from
+ * the device, so each kit holds the keys collected since the previous one.
+ *
+ * ## Usage
+ * ```tsx
+ * <RecoveryKitExport />
+ * ```
+ */
+"use client";
+
+import { useCurrentAccount } from "@mysten/dapp-kit";
+import { Download, KeyRound, Printer, Trash2 } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useTranslations } from "next-intl";
+import QRCode from "qrcode";
+import { useCallback, useEffect, useState } from "react";
+import { useApp } from "@/contexts/AppContext";
+import {
+	deleteBackupKeys,
+	isBackupKeyStoreAvailable,
+	listBackupKeys,
+	readBackupKeys,
+} from "@/lib/backupKeyStore";
+import {
+	buildRecoveryKitContents,
+	isBackupKeyEscrowEnabled,
+	MIN_RECOVERY_PASSPHRASE_LENGTH,
+	type RecoveryKitFile,
+	sealRecoveryKit,
+	setBackupKeyEscrowEnabled,
+	splitRecoveryKitForQr,
+} from "@/lib/recoveryKit";
+import { getTheme } from "@/lib/themes";
+
+export function RecoveryKitExport() {
+	const t = useTranslations();
+	const { settings } = useApp();
+	const theme = getTheme(settings.theme);
+	const router = useRouter();
+	const currentAccount = useCurrentAccount();
+	const owner = currentAccount?.address;
+
+	const [isAvailable, setIsAvailable] = useState(false);
+	const [enabled, setEnabled] = useState(false);
+	const [keyCount, setKeyCount] = useState(0);
+	const [passphrase, setPassphrase] = useState("");
+	const [confirmation, setConfirmation] = useState("");
+	const [isBusy, setIsBusy] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [exportedCount, setExportedCount] = useState<number | null>(null);
+
+	const refresh = useCallback(async () => {
+		setIsAvailable(isBackupKeyStoreAvailable());
+		if (!owner || !isBackupKeyStoreAvailable()) {
+			setEnabled(false);
+			setKeyCount(0);
+			return;
+		}
+		setEnabled(isBackupKeyEscrowEnabled(owner));
+		try {
+			setKeyCount((await listBackupKeys(owner)).length);
+		} catch (err) {
+			console.warn("[RecoveryKit] Failed to count backup keys:", err);
+		}
+	}, [owner]);
+
+	useEffect(() => {
+		refresh();
+	}, [refresh]);
+
+	const handleToggle = () => {
+		if (!owner) {
+			return;
+		}
+		setBackupKeyEscrowEnabled(owner, !enabled);
+		setEnabled(!enabled);
+	};
+
+	const passphraseError =
+		passphrase.length > 0 && passphrase.length < MIN_RECOVERY_PASSPHRASE_LENGTH
+			? t("recoveryKit.passphraseTooShort", {
+					min: MIN_RECOVERY_PASSPHRASE_LENGTH,
+				})
+			: confirmation.length > 0 && confirmation !== passphrase
+				? t("recoveryKit.passphraseMismatch")
+				: null;
+	const canExport =
+		keyCount > 0 &&
+		passphrase.length >= MIN_RECOVERY_PASSPHRASE_LENGTH &&
+		confirmation === passphrase &&
+		!isBusy;
+
+	/**
+	 * Wrap the collected keys under the passphrase, hand the kit to `action`,
+	 * then delete the exported keys from the device
+	 */
+	const runExport = async (action: (kit: RecoveryKitFile) => Promise<void>) => {
+		if (!owner) {
+			return;
+		}
+		setIsBusy(true);
+		setError(null);
+		setExportedCount(null);
+		try {
+			const records = await readBackupKeys(owner);
+			await action(
+				await sealRecoveryKit(
+					buildRecoveryKitContents(owner, records),
+					passphrase,
+				),
+			);
+			await deleteBackupKeys(
+				owner,
+				records.map((record) => record.id),
+			);
+			setExportedCount(records.length);
+			setPassphrase("");
+			setConfirmation("");
+			await refresh();
+		} catch (err) {
+			console.error("[RecoveryKit] Export failed:", err);
+			setError(err instanceof Error ? err.message : String(err));
+		} finally {
+			setIsBusy(false);
+		}
+	};
+
+	const handleDownload = () =>
+		runExport(async (kit) => {
+			const blob = new Blob([JSON.stringify(kit, null, 2)], {
+				type: "application/json",
+			});
+			const url = URL.createObjectURL(blob);
+			const link = document.createElement("a");
+			link.href = url;
+			link.download = `curepocket-recovery-kit-${new Date(kit.createdAt).toISOString().slice(0, 10)}.json`;
+			link.click();
+			URL.revokeObjectURL(url);
+		});
+
+	const handlePrint = () =>
+		runExport(async (kit) => {
+			const parts = splitRecoveryKitForQr(JSON.stringify(kit));
+			const images = await Promise.all(
+				parts.map((part) =>
+					QRCode.toDataURL(part, {
+						margin: 1,
+						width: 400,
+						errorCorrectionLevel: "M",
+					}),
+				),
+			);
+
+			const win = window.open("", "_blank");
+			if (!win) {
+				throw new Error(t("recoveryKit.popupBlocked"));
+			}
+			const doc = win.document;
+			doc.title = t("recoveryKit.printTitle");
+			const heading = doc.createElement("h1");
+			heading.textContent = t("recoveryKit.printTitle");
+			const note = doc.createElement("p");
+			note.textContent = t("recoveryKit.printNote", {
+				owner: kit.owner,
+				date: new Date(kit.createdAt).toLocaleString(settings.locale),
+				count: kit.keyCount,
+			});
+			doc.body.append(heading, note);
+			images.forEach((src, index) => {
+				const figure = doc.createElement("figure");
+				figure.style.display = "inline-block";
+				figure.style.margin = "8px";
+				figure.style.breakInside = "avoid";
+				const img = doc.createElement("img");
+				img.src = src;
+				img.width = 280;
+				const caption = doc.createElement("figcaption");
+				caption.textContent = `${index + 1} / ${images.length}`;
+				caption.style.textAlign = "center";
+				figure.append(img, caption);
+				doc.body.append(figure);
+			});
+			win.focus();
+			win.print();
+		});
+
+	const handleDelete = async () => {
+		if (!owner || !confirm(t("recoveryKit.deleteConfirm"))) {
+			return;
+		}
+		try {
+			await deleteBackupKeys(owner);
+			await refresh();
+		} catch (err) {
+			setError(err instanceof Error ? err.message : String(err));
+		}
+	};
+
+	const inputStyle = {
+		backgroundColor: theme.colors.surface,
+		borderColor: `${theme.colors.textSecondary}40`,
+		color: theme.colors.text,
+	};
+
+	return (
+		<div
+			className="mt-4 rounded-xl p-4 shadow-sm"
+			style={{ backgroundColor: theme.colors.surface }}
+		>
+			<div className="mb-2 flex items-center justify-between">
+				<span
+					className="flex items-center gap-2 font-bold"
+					style={{ color: theme.colors.text }}
+				>
+					<KeyRound size={16} />
+					{t("recoveryKit.title")}
+				</span>
+				<button
+					type="button"
+					onClick={handleToggle}
+					disabled={!owner || !isAvailable}
+					className={`relative h-7 w-12 rounded-full transition-colors disabled:opacity-50 ${
+						enabled ? "bg-green-500" : "bg-gray-300"
+					}`}
+					aria-pressed={enabled}
+					aria-label={t("recoveryKit.collect")}
+				>
+					<div
+						className={`absolute top-1 h-5 w-5 rounded-full bg-white transition-transform ${
+							enabled ? "translate-x-6" : "translate-x-1"
+						}`}
+					/>
+				</button>
+			</div>
+
+			<p className="text-sm" style={{ color: theme.colors.textSecondary }}>
+				{t("recoveryKit.description")}
+			</p>
+			<p className="mt-2 text-sm" style={{ color: theme.colors.text }}>
+				{enabled
+					? t("recoveryKit.collected", { count: keyCount })
+					: t("recoveryKit.disabled", { count: keyCount })}
+			</p>
+
+			{keyCount > 0 && (
+				<>
+					<div className="mt-3 space-y-2">
+						<input
+							type="password"
+							autoComplete="new-password"
+							value={passphrase}
+							onChange={(e) => setPassphrase(e.target.value)}
+							placeholder={t("recoveryKit.passphrase")}
+							className="w-full rounded-lg border px-3 py-2 text-sm"
+							style={inputStyle}
+						/>
+						<input
+							type="password"
+							autoComplete="new-password"
+							value={confirmation}
+							onChange={(e) => setConfirmation(e.target.value)}
+							placeholder={t("recoveryKit.passphraseConfirm")}
+							className="w-full rounded-lg border px-3 py-2 text-sm"
+							style={inputStyle}
+						/>
+						{passphraseError && (
+							<p className="text-xs text-red-600">{passphraseError}</p>
+						)}
+						<p
+							className="text-xs"
+							style={{ color: theme.colors.textSecondary }}
+						>
+							{t("recoveryKit.passphraseHint")}
+						</p>
+					</div>
+
+					<div className="mt-3 flex flex-wrap gap-2">
+						<button
+							type="button"
+							onClick={handleDownload}
+							disabled={!canExport}
+							className="flex items-center gap-2 rounded-lg px-3 py-1.5 text-sm font-medium text-white transition-opacity disabled:opacity-50"
+							style={{ backgroundColor: theme.colors.primary }}
+						>
+							<Download size={14} />
+							{isBusy ? t("recoveryKit.exporting") : t("recoveryKit.download")}
+						</button>
+						<button
+							type="button"
+							onClick={handlePrint}
+							disabled={!canExport}
+							className="flex items-center gap-2 rounded-lg border px-3 py-1.5 text-sm font-medium transition-opacity disabled:opacity-50"
+							style={{
+								borderColor: theme.colors.primary,
+								color: theme.colors.primary,
+							}}
+						>
+							<Printer size={14} />
+							{t("recoveryKit.print")}
+						</button>
+						<button
+							type="button"
+							onClick={handleDelete}
+							disabled={isBusy}
+							className="flex items-center gap-2 rounded-lg px-3 py-1.5 text-sm font-medium text-red-600 transition-opacity disabled:opacity-50"
+						>
+							<Trash2 size={14} />
+							{t("recoveryKit.delete")}
+						</button>
+					</div>
+				</>
+			)}
+
+			<button
+				type="button"
+				onClick={() => router.push(`/${settings.locale}/recovery`)}
+				className="mt-3 block text-sm underline"
+				style={{ color: theme.colors.primary }}
+			>
+				{t("recoveryKit.openRecovery")}
+			</button>
+
+			{exportedCount !== null && (
+				<p className="mt-3 text-sm" style={{ color: theme.colors.text }}>
+					{t("recoveryKit.exported", { count: exportedCount })}
+				</p>
+			)}
+
+			{error && (
+				<p className="mt-3 text-sm text-red-600">
+					{t("recoveryKit.error", { message: error })}
+				</p>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,211 @@
+/**
+ * SealIdRotation Component
+ *
+ * Lets the owner move a data type to a fresh encryption identity (seal_id)
+ * and re-encrypt all of its records, with progress for the running
+ * rotation and resume / discard for rotations interrupted on this device.
+ * Data types with saves still queued in the outbox cannot be rotated.
+ *
+ * ## Usage
+ * ```tsx
+ * <SealIdRotation />
+ * ```
+ */
+"use client";
+
+import { KeyRound, RotateCw } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useApp } from "@/contexts/AppContext";
+import { useOutbox } from "@/contexts/OutboxContext";
+import { useSealIdRotation } from "@/hooks/useSealIdRotation";
+import { getRotationCounts } from "@/lib/sealIdRotation";
+import { METADATA_DATA_TYPES } from "@/lib/storageExpiry";
+import { getTheme } from "@/lib/themes";
+import type { DataType } from "@/types/healthData";
+
+export function SealIdRotation() {
+	const t = useTranslations();
+	const { settings } = useApp();
+	const theme = getTheme(settings.theme);
+	const {
+		rotate,
+		discard,
+		pendingJobs,
+		activeDataType,
+		counts,
+		revokedShares,
+		isReady,
+		isBusy,
+		progress,
+		error,
+	} = useSealIdRotation();
+	const { items: outboxItems } = useOutbox();
+
+	const pendingByType = new Map(pendingJobs.map((job) => [job.dataType, job]));
+	const queuedByType = new Map<DataType, number>();
+	for (const item of outboxItems) {
+		queuedByType.set(item.dataType, (queuedByType.get(item.dataType) ?? 0) + 1);
+	}
+
+	const handleRotate = async (dataType: DataType) => {
+		if (
+			!pendingByType.has(dataType) &&
+			!confirm(
+				t("sealRotation.confirm", {
+					dataType: t(`storage.dataTypes.${dataType}`),
+				}),
+			)
+		) {
+			return;
+		}
+		try {
+			await rotate(dataType);
+		} catch {
+			// error state is shown below
+		}
+	};
+
+	const handleDiscard = (dataType: DataType) => {
+		if (confirm(t("sealRotation.discardConfirm"))) {
+			discard(dataType);
+		}
+	};
+
+	return (
+		<div
+			className="mt-4 rounded-xl p-4 shadow-sm"
+			style={{ backgroundColor: theme.colors.surface }}
+		>
+			<span
+				className="mb-2 flex items-center gap-2 font-bold"
+				style={{ color: theme.colors.text }}
+			>
+				<KeyRound size={16} />
+				{t("sealRotation.title")}
+			</span>
+
+			<p className="text-sm" style={{ color: theme.colors.textSecondary }}>
+				{t("sealRotation.description")}
+			</p>
+
+			<ul className="mt-3 space-y-2">
+				{METADATA_DATA_TYPES.map((dataType) => {
+					const pending = pendingByType.get(dataType);
+					const isActive = activeDataType === dataType;
+					const pendingCounts = pending ? getRotationCounts(pending) : null;
+					const queued = queuedByType.get(dataType) ?? 0;
+					return (
+						<li
+							key={dataType}
+							className="rounded-lg border p-3 text-sm"
+							style={{ borderColor: `${theme.colors.textSecondary}40` }}
+						>
+							<div className="flex items-center justify-between gap-2">
+								<span
+									className="font-medium"
+									style={{ color: theme.colors.text }}
+								>
+									{t(`storage.dataTypes.${dataType}`)}
+								</span>
+								<div className="flex shrink-0 items-center gap-2">
+									{pending && !(isActive && isBusy) && (
+										<button
+											type="button"
+											onClick={() => handleDiscard(dataType)}
+											disabled={isBusy}
+											className="rounded-lg px-3 py-1.5 text-sm font-medium transition-opacity disabled:opacity-50"
+											style={{ color: theme.colors.textSecondary }}
+										>
+											{t("sealRotation.discard")}
+										</button>
+									)}
+									<button
+										type="button"
+										onClick={() => handleRotate(dataType)}
+										disabled={!isReady || isBusy || queued > 0}
+										className="flex items-center gap-2 rounded-lg px-3 py-1.5 text-sm font-medium text-white transition-opacity disabled:opacity-50"
+										style={{ backgroundColor: theme.colors.primary }}
+									>
+										<RotateCw
+											size={14}
+											className={isActive && isBusy ? "animate-spin" : ""}
+										/>
+										{isActive && isBusy
+											? t(`sealRotation.progress.${progress}`)
+											: pending
+												? t("sealRotation.resume")
+												: t("sealRotation.rotate")}
+									</button>
+								</div>
+							</div>
+
+							{isActive && isBusy && counts && (
+								<div className="mt-2">
+									<div
+										className="h-1.5 overflow-hidden rounded-full"
+										style={{
+											backgroundColor: `${theme.colors.textSecondary}30`,
+										}}
+									>
+										<div
+											className="h-full rounded-full transition-all"
+											style={{
+												width: `${(counts.done / counts.total) * 100}%`,
+												backgroundColor: theme.colors.primary,
+											}}
+										/>
+									</div>
+									<p
+										className="mt-1 text-xs"
+										style={{ color: theme.colors.textSecondary }}
+									>
+										{t("sealRotation.steps", {
+											done: counts.done,
+											total: counts.total,
+										})}
+									</p>
+								</div>
+							)}
+
+							{pending && pendingCounts && !(isActive && isBusy) && (
+								<p className="mt-1 text-xs text-amber-700">
+									{t("sealRotation.interrupted", {
+										date: new Date(pending.updatedAt).toLocaleString(
+											settings.locale,
+										),
+										done: pendingCounts.done,
+										total: pendingCounts.total,
+									})}
+								</p>
+							)}
+
+							{queued > 0 && !(isActive && isBusy) && (
+								<p className="mt-1 text-xs text-amber-700">
+									{t("sealRotation.queuedSaves", { count: queued })}
+								</p>
+							)}
+
+							{isActive && progress === "completed" && (
+								<p
+									className="mt-1 text-xs"
+									style={{ color: theme.colors.accent }}
+								>
+									{t("sealRotation.completed")}
+									{revokedShares
+										? ` ${t("sealRotation.revokedShares", { count: revokedShares })}`
+										: ""}
+								</p>
+							)}
+						</li>
+					);
+				})}
+			</ul>
+
+			{error && (
+				<p className="mt-3 text-sm text-red-600">
+					{t("sealRotation.error", { message: error })}
+				</p>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,184 @@
+/**
+ * SealKeyServerDiagnostics Component
+ *
+ * Lists the configured Seal key servers with their weight and URL, pings
+ * each of them, marks the servers that supplied the keys of the last
+ * decrypt, and warns when the reachable servers no longer meet the
+ * threshold.
+ *
+ * ## Usage
+ * ```tsx
+ * <SealKeyServerDiagnostics />
+ * ```
+ */
+"use client";
+
+import { AlertTriangle, RefreshCw, Server } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useEffect } from "react";
+import { useApp } from "@/contexts/AppContext";
+import { useSealKeyServerDiagnostics } from "@/hooks/useSealKeyServerDiagnostics";
+import { getTheme } from "@/lib/themes";
+
+/**
+ * Shorten an object ID for display
+ */
+function shortId(objectId: string): string {
+	return `${objectId.slice(0, 8)}…${objectId.slice(-6)}`;
+}
+
+export function SealKeyServerDiagnostics() {
+	const t = useTranslations();
+	const { settings } = useApp();
+	const theme = getTheme(settings.theme);
+	const {
+		check,
+		config,
+		servers,
+		reachability,
+		lastDecrypt,
+		isChecking,
+		error,
+	} = useSealKeyServerDiagnostics();
+
+	useEffect(() => {
+		check();
+	}, [check]);
+
+	const answered = new Set(lastDecrypt?.ok ? lastDecrypt.servers : []);
+	const overridden = new Set(
+		config?.servers
+			.filter((server) => server.url)
+			.map((server) => server.objectId),
+	);
+
+	return (
+		<div
+			className="mt-4 rounded-xl p-4 shadow-sm"
+			style={{ backgroundColor: theme.colors.surface }}
+		>
+			<div className="mb-2 flex items-center justify-between">
+				<span
+					className="flex items-center gap-2 font-bold"
+					style={{ color: theme.colors.text }}
+				>
+					<Server size={16} />
+					{t("sealDiagnostics.title")}
+				</span>
+				<button
+					type="button"
+					onClick={() => check()}
+					disabled={isChecking}
+					className="flex items-center gap-2 rounded-lg px-3 py-1.5 text-sm font-medium text-white transition-opacity disabled:opacity-50"
+					style={{ backgroundColor: theme.colors.primary }}
+				>
+					<RefreshCw size={14} className={isChecking ? "animate-spin" : ""} />
+					{isChecking
+						? t("sealDiagnostics.checking")
+						: t("sealDiagnostics.check")}
+				</button>
+			</div>
+
+			<p className="text-sm" style={{ color: theme.colors.textSecondary }}>
+				{t("sealDiagnostics.description")}
+			</p>
+
+			{config && (
+				<p className="mt-2 text-sm" style={{ color: theme.colors.text }}>
+					{t("sealDiagnostics.policy", {
+						threshold: config.threshold,
+						total: config.totalWeight,
+						count: config.servers.length,
+					})}
+				</p>
+			)}
+
+			{reachability?.belowThreshold && (
+				<div className="mt-3 flex items-start gap-2 rounded-lg bg-red-50 p-3 text-sm text-red-700">
+					<AlertTriangle size={16} className="mt-0.5 shrink-0" />
+					<span>
+						{t("sealDiagnostics.belowThreshold", {
+							reachable: reachability.reachableWeight,
+							threshold: reachability.threshold,
+						})}
+					</span>
+				</div>
+			)}
+
+			{servers.length > 0 && (
+				<ul className="mt-3 space-y-2">
+					{servers.map((server) => (
+						<li
+							key={server.objectId}
+							className="rounded-lg border p-3 text-sm"
+							style={{ borderColor: `${theme.colors.textSecondary}40` }}
+						>
+							<div className="flex items-center justify-between gap-2">
+								<span
+									className="truncate font-medium"
+									style={{ color: theme.colors.text }}
+								>
+									{server.name || shortId(server.objectId)}
+								</span>
+								<span
+									className={`shrink-0 text-xs ${
+										server.ping === null
+											? ""
+											: server.ping.ok
+												? "text-green-700"
+												: "text-red-600"
+									}`}
+									style={
+										server.ping === null
+											? { color: theme.colors.textSecondary }
+											: undefined
+									}
+								>
+									{server.ping === null
+										? t("sealDiagnostics.notChecked")
+										: server.ping.ok
+											? t("sealDiagnostics.reachable", {
+													ms: server.ping.latencyMs ?? 0,
+												})
+											: t("sealDiagnostics.unreachable", {
+													message: server.ping.error ?? "",
+												})}
+								</span>
+							</div>
+							<p
+								className="mt-1 truncate text-xs"
+								style={{ color: theme.colors.textSecondary }}
+							>
+								{t("sealDiagnostics.weight", { weight: server.weight })} ·{" "}
+								<span className="font-mono">{server.url || "—"}</span>
+								{overridden.has(server.objectId) &&
+									` (${t("sealDiagnostics.urlOverride")})`}
+							</p>
+							{answered.has(server.objectId) && (
+								<p className="mt-1 text-xs text-green-700">
+									{t("sealDiagnostics.answeredLastDecrypt")}
+								</p>
+							)}
+						</li>
+					))}
+				</ul>
+			)}
+
+			<p className="mt-3 text-xs" style={{ color: theme.colors.textSecondary }}>
+				{lastDecrypt === null
+					? t("sealDiagnostics.noDecrypt")
+					: lastDecrypt.ok
+						? t("sealDiagnostics.lastDecrypt", {
+								date: new Date(lastDecrypt.at).toLocaleString(settings.locale),
+								count: lastDecrypt.servers.length,
+							})
+						: t("sealDiagnostics.lastDecryptFailed", {
+								date: new Date(lastDecrypt.at).toLocaleString(settings.locale),
+								message: lastDecrypt.error ?? "",
+							})}
+			</p>
+
+			{error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+		</div>
+	);
+}
@@ -0,0 +1,143 @@
+/**
+ * SessionKeyBanner Component
+ *
+ * Asks the user to sign a new session key shortly before the current one
+ * expires, with a countdown. Decrypts started after expiry wait for this
+ * signature (lib/sessionLifecycle.ts), so the banner also shows how many
+ * are waiting and lets the user cancel them. After "end session" it offers
+ * to start a new session instead of prompting the wallet on its own.
+ *
+ * ## Usage
+ * ```tsx
+ * <SessionKeyBanner />
+ * ```
+ */
+"use client";
+
+import { Clock, KeyRound } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useEffect, useState } from "react";
+import { useApp } from "@/contexts/AppContext";
+import { useSessionKeyManager } from "@/hooks/useSessionKeyManager";
+import { formatTTL, getRemainingTTL } from "@/lib/sessionKey";
+import {
+	cancelPendingDecrypts,
+	shouldPromptRefresh,
+} from "@/lib/sessionLifecycle";
+import { getTheme } from "@/lib/themes";
+
+export function SessionKeyBanner() {
+	const t = useTranslations();
+	const { settings } = useApp();
+	const theme = getTheme(settings.theme);
+	const {
+		expiresAt,
+		pendingDecrypts,
+		generateSessionKey,
+		isLoading,
+		isEnded,
+		error,
+	} = useSessionKeyManager();
+
+	// Expiry the user chose "not now" for (the prompt returns for the next key)
+	const [dismissedFor, setDismissedFor] = useState<number | null>(null);
+	const [, setTick] = useState(0);
+
+	// Countdown
+	useEffect(() => {
+		if (expiresAt === null) {
+			return;
+		}
+		const timer = setInterval(() => setTick((tick) => tick + 1), 1000);
+		return () => clearInterval(timer);
+	}, [expiresAt]);
+
+	const handleRenew = async () => {
+		await generateSessionKey();
+	};
+
+	const handleDismiss = () => {
+		if (pendingDecrypts > 0) {
+			cancelPendingDecrypts();
+		}
+		setDismissedFor(expiresAt);
+	};
+
+	const prompt =
+		pendingDecrypts > 0 ||
+		(shouldPromptRefresh({ expiresAt, pendingDecrypts }) &&
+			dismissedFor !== expiresAt);
+
+	if (!isEnded && !prompt) {
+		return null;
+	}
+
+	const remaining = expiresAt !== null ? getRemainingTTL(expiresAt) : 0;
+
+	let title: string;
+	let message: string;
+	if (isEnded) {
+		title = t("session.banner.endedTitle");
+		message = t("session.banner.ended");
+	} else if (remaining > 0) {
+		title = t("session.banner.expiringTitle");
+		message = t("session.banner.expiresIn", { time: formatTTL(remaining) });
+	} else {
+		title = t("session.banner.expiredTitle");
+		message = t("session.banner.expired");
+	}
+
+	return (
+		<div
+			className="mx-6 lg:mx-8 mt-4 rounded-xl px-4 py-3 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between"
+			style={{
+				backgroundColor: "#FEF3C7",
+				color: "#92400E",
+			}}
+		>
+			<div className="flex items-start gap-3">
+				<Clock size={20} className="shrink-0 mt-0.5" />
+				<div className="text-sm">
+					<p className="font-bold">{title}</p>
+					<p>{message}</p>
+					{pendingDecrypts > 0 && (
+						<p>{t("session.banner.pending", { count: pendingDecrypts })}</p>
+					)}
+					{error && (
+						<p className="mt-1 text-red-700">
+							{t("session.banner.error", { message: error })}
+						</p>
+					)}
+				</div>
+			</div>
+			<div className="flex shrink-0 items-center gap-2">
+				{!isEnded && (
+					<button
+						type="button"
+						onClick={handleDismiss}
+						disabled={isLoading}
+						className="px-3 py-2 rounded-lg text-sm font-medium transition-opacity disabled:opacity-60"
+					>
+						{pendingDecrypts > 0
+							? t("session.banner.cancel")
+							: t("session.banner.dismiss")}
+					</button>
+				)}
+				<button
+					type="button"
+					onClick={handleRenew}
+					disabled={isLoading}
+					className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-white text-sm font-medium transition-opacity disabled:opacity-60"
+					style={{ backgroundColor: theme.colors.primary }}
+				>
+					<KeyRound size={16} className={isLoading ? "animate-pulse" : ""} />
+					{isLoading
+						? t("session.banner.renewing")
+						: isEnded
+							? t("session.banner.start")
+							: t("session.banner.renew")}
+				</button>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,130 @@
+/**
+ * SessionKeySettings Component
+ *
+ * Session key length for this device, the time left on the current key
+ * and an "end session" action that wipes the key and every decrypted
+ * record held in memory.
+ *
+ * ## Usage
+ * ```tsx
+ * <SessionKeySettings />
+ * ```
+ */
+"use client";
+
+import { Clock, LogOut } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useEffect, useState } from "react";
+import { useApp } from "@/contexts/AppContext";
+import { useSessionKeyManager } from "@/hooks/useSessionKeyManager";
+import { formatTTL, getRemainingTTL } from "@/lib/sessionKey";
+import {
+	getSessionTtlMin,
+	SESSION_TTL_OPTIONS_MIN,
+	setSessionTtlMin,
+} from "@/lib/sessionLifecycle";
+import { getTheme } from "@/lib/themes";
+
+export function SessionKeySettings() {
+	const t = useTranslations();
+	const { settings } = useApp();
+	const theme = getTheme(settings.theme);
+	const { expiresAt, isValid, isEnded, endSession } = useSessionKeyManager();
+
+	const [ttlMin, setTtlMin] = useState<number | null>(null);
+	const [, setTick] = useState(0);
+
+	useEffect(() => {
+		setTtlMin(getSessionTtlMin());
+	}, []);
+
+	// Countdown
+	useEffect(() => {
+		if (expiresAt === null) {
+			return;
+		}
+		const timer = setInterval(() => setTick((tick) => tick + 1), 1000);
+		return () => clearInterval(timer);
+	}, [expiresAt]);
+
+	const handleTtlChange = (minutes: number) => {
+		setTtlMin(setSessionTtlMin(minutes));
+	};
+
+	const handleEndSession = () => {
+		if (confirm(t("session.settings.endConfirm"))) {
+			endSession();
+		}
+	};
+
+	// Keep a device-specific value that is not one of the presets selectable
+	const ttlOptions: number[] = [...SESSION_TTL_OPTIONS_MIN];
+	if (ttlMin !== null && !ttlOptions.includes(ttlMin)) {
+		ttlOptions.push(ttlMin);
+		ttlOptions.sort((a, b) => a - b);
+	}
+
+	return (
+		<div
+			className="mt-4 rounded-xl p-4 shadow-sm"
+			style={{ backgroundColor: theme.colors.surface }}
+		>
+			<span
+				className="mb-2 flex items-center gap-2 font-bold"
+				style={{ color: theme.colors.text }}
+			>
+				<Clock size={16} />
+				{t("session.settings.title")}
+			</span>
+
+			<p className="text-sm" style={{ color: theme.colors.textSecondary }}>
+				{t("session.settings.description")}
+			</p>
+
+			<label
+				className="mt-3 flex items-center justify-between gap-2 text-sm"
+				style={{ color: theme.colors.text }}
+			>
+				{t("session.settings.ttl")}
+				<select
+					value={ttlMin ?? ""}
+					onChange={(e) => handleTtlChange(Number(e.target.value))}
+					className="rounded-lg border px-2 py-1 text-sm"
+					style={{
+						backgroundColor: theme.colors.surface,
+						borderColor: `${theme.colors.textSecondary}40`,
+						color: theme.colors.text,
+					}}
+				>
+					{ttlOptions.map((minutes) => (
+						<option key={minutes} value={minutes}>
+							{t("session.settings.ttlOption", { minutes })}
+						</option>
+					))}
+				</select>
+			</label>
+			<p className="mt-1 text-xs" style={{ color: theme.colors.textSecondary }}>
+				{t("session.settings.ttlNote")}
+			</p>
+
+			<div className="mt-3 flex items-center justify-between gap-2">
+				<span className="text-sm" style={{ color: theme.colors.text }}>
+					{expiresAt !== null && isValid
+						? t("session.settings.remaining", {
+								time: formatTTL(getRemainingTTL(expiresAt)),
+							})
+						: t("session.settings.noSession")}
+				</span>
+				<button
+					type="button"
+					onClick={handleEndSession}
+					disabled={isEnded}
+					className="flex items-center gap-2 rounded-lg px-3 py-1.5 text-sm font-medium text-red-600 transition-opacity disabled:opacity-50"
+				>
+					<LogOut size={14} />
+					{t("session.settings.end")}
+				</button>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,206 @@
+/**
+ * ShareEntryPicker Component
+ *
+ * Lets the patient narrow a shared category down to single entries (one
+ * prescription, one lab date). Categories without
+ * picked entries are shared as a whole.
+ *
+ * ## Usage
+ * ```tsx
+ * <ShareEntryPicker
+ *   dataTypes={["medications", "lab_results"]}
+ *   picked={picked}
+ *   onChange={(dataType, blobIds) => setPicked({ ...picked, [dataType]: blobIds })}
+ * />
+ * ```
+ */
+"use client";
+
+import { ListChecks } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useState } from "react";
+import { useApp } from "@/contexts/AppContext";
+import { useEntrySharing } from "@/hooks/useEntrySharing";
+import { MAX_SHARED_ENTRIES } from "@/lib/entrySharing";
+import { getTheme } from "@/lib/themes";
+import type { DataType } from "@/types/healthData";
+import type {
+	BaseMetadataEntry,
+	LabResultsMetadataEntry,
+	MedicationsMetadataEntry,
+} from "@/types/metadata";
+
+interface ShareEntryPickerProps {
+	/** Selected data types that support entry sharing */
+	dataTypes: DataType[];
+	/** Picked entries (blob_id) per data type */
+	picked: Partial<Record<DataType, string[]>>;
+	/** Called with the new picks of a data type */
+	onChange: (dataType: DataType, blobIds: string[]) => void;
+}
+
+function getEntryLabel(dataType: DataType, entry: BaseMetadataEntry): string {
+	switch (dataType) {
+		case "medications": {
+			const e = entry as MedicationsMetadataEntry;
+			return `${e.prescription_date} · ${e.clinic}`;
+		}
+		case "lab_results": {
+			const e = entry as LabResultsMetadataEntry;
+			return `${e.test_date} · ${e.facility}`;
+		}
+		default:
+			return entry.blob_id;
+	}
+}
+
+export function ShareEntryPicker({
+	dataTypes,
+	picked,
+	onChange,
+}: ShareEntryPickerProps) {
+	const t = useTranslations();
+	const { settings } = useApp();
+	const theme = getTheme(settings.theme);
+	const { loadEntries, isReady } = useEntrySharing();
+
+	const [entries, setEntries] = useState<
+		Partial<Record<DataType, BaseMetadataEntry[]>>
+	>({});
+	const [loading, setLoading] = useState<DataType | null>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	if (dataTypes.length === 0) {
+		return null;
+	}
+
+	const pickedCount = dataTypes.reduce(
+		(sum, dataType) => sum + (picked[dataType]?.length ?? 0),
+		0,
+	);
+
+	const handleLoad = async (dataType: DataType) => {
+		setLoading(dataType);
+		setError(null);
+		try {
+			const loaded = await loadEntries(dataType);
+			setEntries((prev) => ({
+				...prev,
+				[dataType]: loaded?.metadata.entries ?? [],
+			}));
+		} catch (err) {
+			setError(err instanceof Error ? err.message : String(err));
+		} finally {
+			setLoading(null);
+		}
+	};
+
+	const handleToggle = (dataType: DataType, blobId: string) => {
+		const current = picked[dataType] ?? [];
+		onChange(
+			dataType,
+			current.includes(blobId)
+				? current.filter((id) => id !== blobId)
+				: [...current, blobId],
+		);
+	};
+
+	return (
+		<div
+			className="mb-4 rounded-xl p-4 shadow-sm md:p-6"
+			style={{ backgroundColor: theme.colors.surface }}
+		>
+			<span
+				className="mb-2 flex items-center gap-2 font-bold"
+				style={{ color: theme.colors.text }}
+			>
+				<ListChecks size={16} />
+				{t("share.entries.title")}
+			</span>
+			<p className="text-sm" style={{ color: theme.colors.textSecondary }}>
+				{t("share.entries.description", { max: MAX_SHARED_ENTRIES })}
+			</p>
+
+			<div className="mt-3 space-y-3">
+				{dataTypes.map((dataType) => {
+					const list = entries[dataType];
+					const pickedIds = picked[dataType] ?? [];
+					return (
+						<div key={dataType}>
+							<div className="flex items-center justify-between gap-2 text-sm">
+								<span
+									className="font-medium"
+									style={{ color: theme.colors.text }}
+								>
+									{t(`storage.dataTypes.${dataType}`)}
+								</span>
+								{list ? (
+									<span style={{ color: theme.colors.textSecondary }}>
+										{pickedIds.length > 0
+											? t("share.entries.selected", {
+													count: pickedIds.length,
+												})
+											: t("share.entries.all")}
+									</span>
+								) : (
+									<button
+										type="button"
+										onClick={() => handleLoad(dataType)}
+										disabled={!isReady || loading !== null}
+										className="rounded-lg px-3 py-1.5 text-sm font-medium text-white transition-opacity disabled:opacity-50"
+										style={{ backgroundColor: theme.colors.primary }}
+									>
+										{loading === dataType
+											? t("share.entries.loading")
+											: t("share.entries.pick")}
+									</button>
+								)}
+							</div>
+							{list && list.length === 0 && (
+								<p
+									className="mt-1 text-sm"
+									style={{ color: theme.colors.textSecondary }}
+								>
+									{t("share.entries.empty")}
+								</p>
+							)}
+							{list && list.length > 0 && (
+								<ul className="mt-2 space-y-1">
+									{list.map((entry) => {
+										const isPicked = pickedIds.includes(entry.blob_id);
+										return (
+											<li key={entry.blob_id}>
+												<label
+													className="flex items-center gap-2 text-sm"
+													style={{ color: theme.colors.text }}
+												>
+													<input
+														type="checkbox"
+														checked={isPicked}
+														disabled={
+															!isPicked && pickedCount >= MAX_SHARED_ENTRIES
+														}
+														onChange={() =>
+															handleToggle(dataType, entry.blob_id)
+														}
+													/>
+													{getEntryLabel(dataType, entry)}
+												</label>
+											</li>
+										);
+									})}
+								</ul>
+							)}
+						</div>
+					);
+				})}
+			</div>
+
+			{error && (
+				<p className="mt-3 text-sm text-red-600">
+					{t("share.entries.loadFailed", { message: error })}
+				</p>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,40 @@
+/**
+ * StorageBudgetGuard Component
+ *
+ * Asks the user before a Walrus upload that would take the accumulated
+ * storage spend over their budget. Uploads start deep inside lib/walrus.ts,
+ * so the confirmation is registered with lib/storageSpend.ts instead of
+ * being wired through each save flow.
+ *
+ * ## Usage
+ * ```tsx
+ * <StorageBudgetGuard />
+ * ```
+ */
+"use client";
+
+import { useTranslations } from "next-intl";
+import { useEffect } from "react";
+import { formatWal, setStorageBudgetConfirmHandler } from "@/lib/storageSpend";
+
+export function StorageBudgetGuard() {
+	const t = useTranslations();
+
+	useEffect(() => {
+		setStorageBudgetConfirmHandler((warning) =>
+			confirm(
+				t("storage.budget.confirm", {
+					dataType: warning.dataType
+						? t(`storage.dataTypes.${warning.dataType}`)
+						: t("storage.cleanup.unknownType"),
+					cost: formatWal(warning.estimatedCost),
+					spent: formatWal(warning.spent),
+					budget: formatWal(warning.budget),
+				}),
+			),
+		);
+		return () => setStorageBudgetConfirmHandler(null);
+	}, [t]);
+
+	return null;
+}
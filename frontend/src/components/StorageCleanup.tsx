@@ -0,0 +1,184 @@
+/**
+ * StorageCleanup Component
+ *
+ * Lets the owner find Walrus blobs that are no longer referenced by the
+ * passport (superseded metadata / data versions), review them and delete
+ * the selected ones.
+ *
+ * ## Usage
+ * ```tsx
+ * <StorageCleanup />
+ * ```
+ */
+"use client";
+
+import { Search, Trash2 } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useState } from "react";
+import { useApp } from "@/contexts/AppContext";
+import { useBlobGarbageCollector } from "@/hooks/useBlobGarbageCollector";
+import { getTheme } from "@/lib/themes";
+
+/**
+ * Format a byte count for display
+ */
+function formatBytes(bytes: number): string {
+	if (bytes < 1024) {
+		return `${bytes} B`;
+	}
+	if (bytes < 1024 * 1024) {
+		return `${(bytes / 1024).toFixed(1)} KB`;
+	}
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function StorageCleanup() {
+	const t = useTranslations();
+	const { settings } = useApp();
+	const theme = getTheme(settings.theme);
+	const { scan, deleteOrphans, orphans, isReady, progress, error } =
+		useBlobGarbageCollector();
+
+	const [hasScanned, setHasScanned] = useState(false);
+	const [selected, setSelected] = useState<Set<string>>(new Set());
+
+	const isBusy = progress === "scanning" || progress === "deleting";
+
+	const handleScan = async () => {
+		try {
+			const found = await scan();
+			setSelected(new Set(found.map((entry) => entry.objectId)));
+			setHasScanned(true);
+		} catch {
+			// error state is shown below
+		}
+	};
+
+	const handleDelete = async () => {
+		try {
+			await deleteOrphans([...selected]);
+			setSelected(new Set());
+		} catch {
+			// error state is shown below
+		}
+	};
+
+	const toggle = (objectId: string) => {
+		setSelected((prev) => {
+			const next = new Set(prev);
+			if (next.has(objectId)) {
+				next.delete(objectId);
+			} else {
+				next.add(objectId);
+			}
+			return next;
+		});
+	};
+
+	const selectedBytes = orphans
+		.filter((entry) => selected.has(entry.objectId))
+		.reduce((sum, entry) => sum + entry.size, 0);
+
+	return (
+		<div
+			className="mt-4 rounded-xl p-4 shadow-sm"
+			style={{ backgroundColor: theme.colors.surface }}
+		>
+			<div className="mb-2 flex items-center justify-between">
+				<span className="font-bold" style={{ color: theme.colors.text }}>
+					{t("storage.cleanup.title")}
+				</span>
+				<button
+					type="button"
+					onClick={handleScan}
+					disabled={!isReady || isBusy}
+					className="flex items-center gap-2 rounded-lg px-3 py-1.5 text-sm font-medium text-white transition-opacity disabled:opacity-50"
+					style={{ backgroundColor: theme.colors.primary }}
+				>
+					<Search size={14} />
+					{progress === "scanning"
+						? t("storage.cleanup.scanning")
+						: t("storage.cleanup.scan")}
+				</button>
+			</div>
+
+			<p className="text-sm" style={{ color: theme.colors.textSecondary }}>
+				{t("storage.cleanup.description")}
+			</p>
+
+			{hasScanned && orphans.length === 0 && (
+				<p className="mt-3 text-sm" style={{ color: theme.colors.text }}>
+					{t("storage.cleanup.none")}
+				</p>
+			)}
+
+			{orphans.length > 0 && (
+				<>
+					<ul className="mt-3 max-h-64 space-y-1 overflow-y-auto">
+						{orphans.map((entry) => (
+							<li key={entry.objectId}>
+								<label
+									className="flex cursor-pointer items-center gap-3 rounded-lg px-2 py-1.5 text-sm"
+									style={{ color: theme.colors.text }}
+								>
+									<input
+										type="checkbox"
+										checked={selected.has(entry.objectId)}
+										onChange={() => toggle(entry.objectId)}
+									/>
+									<span className="flex-1 truncate">
+										{entry.dataType
+											? t(`storage.dataTypes.${entry.dataType}`)
+											: t("storage.cleanup.unknownType")}
+										<span
+											className="ml-2 font-mono text-xs"
+											style={{ color: theme.colors.textSecondary }}
+										>
+											{entry.blobId.slice(0, 10)}…
+										</span>
+									</span>
+									<span
+										className="text-xs"
+										style={{ color: theme.colors.textSecondary }}
+									>
+										{formatBytes(entry.size)} ·{" "}
+										{new Date(entry.uploadedAt).toLocaleDateString(
+											settings.locale,
+										)}
+									</span>
+								</label>
+							</li>
+						))}
+					</ul>
+
+					<button
+						type="button"
+						onClick={handleDelete}
+						disabled={selected.size === 0 || isBusy}
+						className="mt-3 flex w-full items-center justify-center gap-2 rounded-lg bg-red-500 px-4 py-2 text-sm font-medium text-white transition-opacity disabled:opacity-50"
+					>
+						<Trash2 size={16} />
+						{progress === "deleting"
+							? t("storage.cleanup.deleting")
+							: t("storage.cleanup.delete", {
+									count: selected.size,
+									size: formatBytes(selectedBytes),
+								})}
+					</button>
+				</>
+			)}
+
+			{progress === "completed" && (
+				<p className="mt-3 text-sm" style={{ color: theme.colors.accent }}>
+					{t("storage.cleanup.deleted")}
+				</p>
+			)}
+
+			{error && (
+				<p className="mt-3 text-sm text-red-600">
+					{t("storage.cleanup.error", { message: error })}
+				</p>
+			)}
+		</div>
+	);
+}
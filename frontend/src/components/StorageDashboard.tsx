@@ -0,0 +1,274 @@
+/**
+ * StorageDashboard Component
+ *
+ * Shows what the passport's Walrus storage consists of (blobs and size per
+ * data type), what it has cost so far in WAL, what keeping it for more
+ * epochs would cost, and lets the owner set a budget that is checked
+ * before each upload.
+ *
+ * ## Usage
+ * ```tsx
+ * <StorageDashboard />
+ * ```
+ */
+"use client";
+
+import { BarChart3 } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useEffect, useState } from "react";
+import { useApp } from "@/contexts/AppContext";
+import { useStorageDashboard } from "@/hooks/useStorageDashboard";
+import { FROST_PER_WAL, formatWal } from "@/lib/storageSpend";
+import { projectRenewalCost } from "@/lib/storageUsage";
+import { getTheme } from "@/lib/themes";
+import { DEFAULT_STORAGE_EPOCHS } from "@/lib/walrus";
+
+/**
+ * Format a byte count for display
+ */
+function formatBytes(bytes: number): string {
+	if (bytes < 1024) {
+		return `${bytes} B`;
+	}
+	if (bytes < 1024 * 1024) {
+		return `${(bytes / 1024).toFixed(1)} KB`;
+	}
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function StorageDashboard() {
+	const t = useTranslations();
+	const { settings } = useApp();
+	const theme = getTheme(settings.theme);
+	const {
+		scan,
+		usage,
+		spend,
+		observedRate,
+		budget,
+		setBudget,
+		isReady,
+		progress,
+		error,
+	} = useStorageDashboard();
+
+	const [epochs, setEpochs] = useState(String(DEFAULT_STORAGE_EPOCHS));
+	const [budgetInput, setBudgetInput] = useState("");
+
+	useEffect(() => {
+		setBudgetInput(budget === null ? "" : String(budget / FROST_PER_WAL));
+	}, [budget]);
+
+	const handleScan = async () => {
+		try {
+			await scan();
+		} catch {
+			// error state is shown below
+		}
+	};
+
+	const handleSaveBudget = () => {
+		const wal = Number(budgetInput);
+		setBudget(Number.isFinite(wal) && wal > 0 ? wal : null);
+	};
+
+	const projectionEpochs = Number.parseInt(epochs, 10);
+	const unknownSizeBlobs =
+		usage?.reduce((sum, row) => sum + row.unknownSizeBlobs, 0) ?? 0;
+	const isOverBudget = budget !== null && spend.total > budget;
+
+	return (
+		<div
+			className="mt-4 rounded-xl p-4 shadow-sm"
+			style={{ backgroundColor: theme.colors.surface }}
+		>
+			<div className="mb-2 flex items-center justify-between">
+				<span className="font-bold" style={{ color: theme.colors.text }}>
+					{t("storage.dashboard.title")}
+				</span>
+				<button
+					type="button"
+					onClick={handleScan}
+					disabled={!isReady || progress === "scanning"}
+					className="flex items-center gap-2 rounded-lg px-3 py-1.5 text-sm font-medium text-white transition-opacity disabled:opacity-50"
+					style={{ backgroundColor: theme.colors.primary }}
+				>
+					<BarChart3 size={14} />
+					{progress === "scanning"
+						? t("storage.dashboard.scanning")
+						: t("storage.dashboard.scan")}
+				</button>
+			</div>
+
+			<p className="text-sm" style={{ color: theme.colors.textSecondary }}>
+				{t("storage.dashboard.description")}
+			</p>
+
+			<p className="mt-3 text-sm" style={{ color: theme.colors.text }}>
+				{t("storage.dashboard.totalSpend", { amount: formatWal(spend.total) })}
+			</p>
+			{spend.savedBytes > 0 && (
+				<p className="text-xs" style={{ color: theme.colors.textSecondary }}>
+					{t("storage.dashboard.compressionSaved", {
+						size: formatBytes(spend.savedBytes),
+					})}
+				</p>
+			)}
+
+			{usage && (
+				<>
+					<table className="mt-3 w-full text-sm">
+						<thead>
+							<tr style={{ color: theme.colors.textSecondary }}>
+								<th className="py-1 text-left font-medium">
+									{t("storage.dashboard.dataType")}
+								</th>
+								<th className="py-1 text-right font-medium">
+									{t("storage.dashboard.blobs")}
+								</th>
+								<th className="py-1 text-right font-medium">
+									{t("storage.dashboard.size")}
+								</th>
+								<th className="py-1 text-right font-medium">
+									{t("storage.dashboard.spend")}
+								</th>
+							</tr>
+						</thead>
+						<tbody style={{ color: theme.colors.text }}>
+							{usage.map((row) => (
+								<tr key={row.dataType}>
+									<td className="py-1">
+										{t(`storage.dataTypes.${row.dataType}`)}
+									</td>
+									<td className="py-1 text-right">{row.blobs}</td>
+									<td className="py-1 text-right">{formatBytes(row.bytes)}</td>
+									<td className="py-1 text-right">
+										{formatWal(spend.byDataType[row.dataType] ?? 0)} WAL
+									</td>
+								</tr>
+							))}
+						</tbody>
+					</table>
+
+					{usage.length === 0 && (
+						<p className="mt-3 text-sm" style={{ color: theme.colors.text }}>
+							{t("storage.dashboard.empty")}
+						</p>
+					)}
+
+					<div className="mt-4 flex items-center gap-2 text-sm">
+						<label
+							htmlFor="storage-projection-epochs"
+							style={{ color: theme.colors.text }}
+						>
+							{t("storage.dashboard.projectionEpochs")}
+						</label>
+						<input
+							id="storage-projection-epochs"
+							type="number"
+							min={1}
+							step={1}
+							value={epochs}
+							onChange={(e) => setEpochs(e.target.value)}
+							className="w-20 rounded-lg border px-2 py-1"
+							style={{
+								backgroundColor: theme.colors.surface,
+								borderColor: `${theme.colors.textSecondary}40`,
+								color: theme.colors.text,
+							}}
+						/>
+					</div>
+					{projectionEpochs > 0 && (
+						<p className="mt-2 text-sm" style={{ color: theme.colors.text }}>
+							{t("storage.dashboard.projection", {
+								epochs: projectionEpochs,
+								amount: formatWal(
+									projectRenewalCost(usage, projectionEpochs, observedRate),
+								),
+							})}
+						</p>
+					)}
+					<p
+						className="mt-1 text-xs"
+						style={{ color: theme.colors.textSecondary }}
+					>
+						{observedRate === undefined
+							? t("storage.dashboard.defaultRate")
+							: t("storage.dashboard.observedRate")}
+						{unknownSizeBlobs > 0 &&
+							` ${t("storage.dashboard.unknownSize", { count: unknownSizeBlobs })}`}
+					</p>
+				</>
+			)}
+
+			<div className="mt-4">
+				<label
+					htmlFor="storage-budget"
+					className="text-sm font-medium"
+					style={{ color: theme.colors.text }}
+				>
+					{t("storage.budget.label")}
+				</label>
+				<div className="mt-1 flex items-center gap-2">
+					<input
+						id="storage-budget"
+						type="number"
+						min={0}
+						step="any"
+						value={budgetInput}
+						onChange={(e) => setBudgetInput(e.target.value)}
+						placeholder={t("storage.budget.placeholder")}
+						className="flex-1 rounded-lg border px-2 py-1 text-sm"
+						style={{
+							backgroundColor: theme.colors.surface,
+							borderColor: `${theme.colors.textSecondary}40`,
+							color: theme.colors.text,
+						}}
+					/>
+					<button
+						type="button"
+						onClick={handleSaveBudget}
+						className="rounded-lg px-3 py-1.5 text-sm font-medium text-white transition-opacity disabled:opacity-50"
+						style={{ backgroundColor: theme.colors.primary }}
+					>
+						{t("common.save")}
+					</button>
+					{budget !== null && (
+						<button
+							type="button"
+							onClick={() => setBudget(null)}
+							className="rounded-lg px-3 py-1.5 text-sm font-medium"
+							style={{ color: theme.colors.textSecondary }}
+						>
+							{t("storage.budget.clear")}
+						</button>
+					)}
+				</div>
+				<p
+					className={`mt-1 text-xs ${isOverBudget ? "text-red-600" : ""}`}
+					style={
+						isOverBudget ? undefined : { color: theme.colors.textSecondary }
+					}
+				>
+					{budget === null
+						? t("storage.budget.none")
+						: isOverBudget
+							? t("storage.budget.exceeded", {
+									spent: formatWal(spend.total),
+									budget: formatWal(budget),
+								})
+							: t("storage.budget.status", {
+									spent: formatWal(spend.total),
+									budget: formatWal(budget),
+								})}
+				</p>
+			</div>
+
+			{error && (
+				<p className="mt-3 text-sm text-red-600">
+					{t("storage.dashboard.error", { message: error })}
+				</p>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,114 @@
+/**
+ * StorageExpiryBanner Component
+ *
+ * Checks Walrus storage expiry in the background once the passport and
+ * session key are available, and warns when medical data blobs are expired
+ * or close to expiry. Offers a one-click "extend storage" action.
+ *
+ * ## Usage
+ * ```tsx
+ * <StorageExpiryBanner />
+ * ```
+ */
+"use client";
+
+import { AlertTriangle, RefreshCw } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useEffect, useRef } from "react";
+import { useApp } from "@/contexts/AppContext";
+import { useStorageRenewal } from "@/hooks/useStorageRenewal";
+import { getTheme } from "@/lib/themes";
+
+export function StorageExpiryBanner() {
+	const t = useTranslations();
+	const { settings } = useApp();
+	const theme = getTheme(settings.theme);
+	const {
+		checkExpiry,
+		extendStorage,
+		expiringBlobs,
+		isReady,
+		isBusy,
+		progress,
+		error,
+	} = useStorageRenewal();
+
+	// Run the background check once per session
+	const checkedRef = useRef(false);
+	useEffect(() => {
+		if (!isReady || checkedRef.current) {
+			return;
+		}
+		checkedRef.current = true;
+		checkExpiry().catch((err) => {
+			console.warn("[StorageExpiryBanner] Expiry check failed:", err);
+		});
+	}, [isReady, checkExpiry]);
+
+	const handleExtend = async () => {
+		try {
+			await extendStorage();
+		} catch {
+			// error state is shown by the banner
+		}
+	};
+
+	if (progress === "completed") {
+		return (
+			<div
+				className="mx-6 lg:mx-8 mt-4 rounded-xl px-4 py-3 text-sm"
+				style={{
+					backgroundColor: `${theme.colors.accent}15`,
+					color: theme.colors.text,
+				}}
+			>
+				{t("storage.expiry.extended")}
+			</div>
+		);
+	}
+
+	if (expiringBlobs.length === 0) {
+		return null;
+	}
+
+	const expiredCount = expiringBlobs.filter(
+		(blob) => blob.status === "expired",
+	).length;
+
+	return (
+		<div
+			className="mx-6 lg:mx-8 mt-4 rounded-xl px-4 py-3 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between"
+			style={{
+				backgroundColor: "#FEF3C7",
+				color: "#92400E",
+			}}
+		>
+			<div className="flex items-start gap-3">
+				<AlertTriangle size={20} className="shrink-0 mt-0.5" />
+				<div className="text-sm">
+					<p className="font-bold">{t("storage.expiry.title")}</p>
+					<p>
+						{expiredCount > 0
+							? t("storage.expiry.expired", { count: expiredCount })
+							: t("storage.expiry.expiring", { count: expiringBlobs.length })}
+					</p>
+					{error && (
+						<p className="mt-1 text-red-700">
+							{t("storage.expiry.error", { message: error })}
+						</p>
+					)}
+				</div>
+			</div>
+			<button
+				type="button"
+				onClick={handleExtend}
+				disabled={isBusy}
+				className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-white text-sm font-medium transition-opacity disabled:opacity-60"
+				style={{ backgroundColor: theme.colors.primary }}
+			>
+				<RefreshCw size={16} className={isBusy ? "animate-spin" : ""} />
+				{isBusy ? t("storage.expiry.extending") : t("storage.expiry.extend")}
+			</button>
+		</div>
+	);
+}
@@ -7,8 +7,10 @@ import {
 } from "@mysten/dapp-kit";
 import { getFullnodeUrl } from "@mysten/sui/client";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Toaster } from "sonner";
+import { startWalrusHealthChecks } from "@/lib/walrusTransport";
+import { registerZkLoginWallets } from "@/lib/zkLoginWallet";
 
 /**
  * Sui dApp Kit プロバイダーコンポーネント
@@ -48,6 +50,12 @@ export function SuiProviders({ children }: SuiProvidersProps) {
 			}),
 	);
 
+	// Walrus publisher/aggregatorのヘルスチェック（障害時のフェイルオーバー順序に反映）
+	useEffect(() => startWalrusHealthChecks(), []);
+
+	// ウォレット拡張機能のない患者向けに、zkLoginのプロバイダーをウォレットとして登録
+	useEffect(() => registerZkLoginWallets(), []);
+
 	return (
 		<QueryClientProvider client={queryClient}>
 			<SuiClientProvider
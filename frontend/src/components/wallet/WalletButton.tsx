@@ -5,10 +5,12 @@ import {
 	useCurrentAccount,
 	useWallets,
 } from "@mysten/dapp-kit";
+import type { WalletWithRequiredFeatures } from "@mysten/wallet-standard";
 import { Wallet } from "lucide-react";
 import { useTranslations } from "next-intl";
 import { useState } from "react";
 import { toast } from "sonner";
+import { getZkLoginWalletProvider } from "@/lib/zkLoginWallet";
 import { ConnectedWalletPanel } from "./ConnectedWalletPanel";
 
 interface WalletButtonProps {
@@ -29,10 +31,17 @@ export function WalletButton({
 	const currentAccount = useCurrentAccount();
 	const wallets = useWallets();
 	const [showPanel, setShowPanel] = useState(false);
+	const [showChooser, setShowChooser] = useState(false);
 
 	const isWalletConnected = currentAccount !== null;
 
 	const handleConnectWallet = () => {
+		// 拡張機能とzkLoginなど複数ある場合は選択肢を表示
+		if (wallets.length > 1) {
+			setShowChooser(!showChooser);
+			return;
+		}
+
 		const availableWallet = wallets[0];
 
 		if (!availableWallet) {
@@ -40,9 +49,14 @@ export function WalletButton({
 			return;
 		}
 
+		connectTo(availableWallet);
+	};
+
+	const connectTo = (wallet: WalletWithRequiredFeatures) => {
+		setShowChooser(false);
 		connectWallet(
 			{
-				wallet: availableWallet,
+				wallet,
 			},
 			{
 				onSuccess: () => {
@@ -109,20 +123,51 @@ export function WalletButton({
 			: "bg-white/20 hover:bg-white/30";
 
 	return (
-		<button
-			type="button"
-			onClick={handleConnectWallet}
-			disabled={isConnecting}
-			className={`${baseClasses} ${sizeClasses[size]} ${className} ${colorClasses} disabled:opacity-50 flex items-center gap-1`}
-			aria-label={t("actions.connectWallet")}
-		>
-			<Wallet className="h-3 w-3" />
-			<span className="hidden lg:inline">
-				{isConnecting ? t("wallet.connecting") : t("actions.connectWallet")}
-			</span>
-			<span className="lg:hidden">
-				{isConnecting ? t("wallet.connecting") : t("wallet.connect")}
-			</span>
-		</button>
+		<div className="relative">
+			<button
+				type="button"
+				onClick={handleConnectWallet}
+				disabled={isConnecting}
+				className={`${baseClasses} ${sizeClasses[size]} ${className} ${colorClasses} disabled:opacity-50 flex items-center gap-1`}
+				aria-label={t("actions.connectWallet")}
+				aria-expanded={wallets.length > 1 ? showChooser : undefined}
+			>
+				<Wallet className="h-3 w-3" />
+				<span className="hidden lg:inline">
+					{isConnecting ? t("wallet.connecting") : t("actions.connectWallet")}
+				</span>
+				<span className="lg:hidden">
+					{isConnecting ? t("wallet.connecting") : t("wallet.connect")}
+				</span>
+			</button>
+
+			{showChooser && (
+				<div
+					className={`absolute ${variant === "mobile" ? "left-0" : "right-0"} z-50 mt-2 w-56 rounded-lg border border-gray-200 bg-white p-1 shadow-lg`}
+				>
+					<p className="px-3 py-2 text-xs text-gray-500">
+						{t("wallet.chooseWallet")}
+					</p>
+					{wallets.map((wallet) => {
+						const zkLoginProvider = getZkLoginWalletProvider(wallet);
+						return (
+							<button
+								key={wallet.name}
+								type="button"
+								onClick={() => connectTo(wallet)}
+								className="flex w-full items-center gap-2 rounded-md px-3 py-2 text-left text-sm text-gray-800 hover:bg-gray-100"
+							>
+								<img src={wallet.icon} alt="" className="h-5 w-5 rounded" />
+								<span>
+									{zkLoginProvider
+										? t("wallet.signInWith", { provider: zkLoginProvider.name })
+										: wallet.name}
+								</span>
+							</button>
+						);
+					})}
+				</div>
+			)}
+		</div>
 	);
 }
@@ -6,18 +6,30 @@ import {
 	type ReactNode,
 	useContext,
 	useEffect,
+	useRef,
 	useState,
 } from "react";
+import { usePasskeyGate } from "@/hooks/usePasskeyGate";
 import { usePassport } from "@/hooks/usePassport";
+import { useRecordCache } from "@/hooks/useRecordCache";
 import { useSessionKeyManager } from "@/hooks/useSessionKeyManager";
+import { downloadEntryBlob } from "@/lib/blobIntegrity";
 import { formatReferenceRange } from "@/lib/labResultsConverter";
+import {
+	checkPasskeyAccess,
+	resetPasskeyVerification,
+} from "@/lib/passkeyGate";
 import { calculateAgeBandFromDate } from "@/lib/profileConverter";
+import {
+	lockRecordCache,
+	readRecordCache,
+	writeRecordCache,
+} from "@/lib/recordCache";
 import {
 	buildPatientAccessPTB,
 	createSealClient,
 	decryptHealthData,
 } from "@/lib/seal";
-import { generateSealId } from "@/lib/sealIdGenerator";
 import {
 	getDataEntry,
 	getSuiClient,
@@ -38,6 +50,7 @@ import type {
 import type {
 	BasicProfileData,
 	ConditionsData,
+	DataType,
 	ImagingStudyV2,
 	LabResultsData,
 	MedicationsData,
@@ -49,6 +62,69 @@ import type {
 	SelfMetricsMetadataEntry,
 } from "@/types/metadata";
 
+/**
+ * Decrypted records of every data type as kept in the record cache
+ */
+interface CachedRecords {
+	basic_profile: { profile: PatientProfile; allergies: Allergy[] };
+	conditions: MedicalHistory[];
+	medications: Medication[];
+	lab_results: LabResult[];
+	self_metrics: VitalSign[];
+	imaging_meta: ImagingReport[];
+}
+
+/**
+ * Data types loaded into the app state
+ */
+const RECORD_DATA_TYPES: (keyof CachedRecords)[] = [
+	"basic_profile",
+	"conditions",
+	"medications",
+	"lab_results",
+	"self_metrics",
+	"imaging_meta",
+];
+
+/**
+ * Load stored data types from the record cache
+ *
+ * @param passportId - MedicalPassport object ID
+ * @param owner - Owner wallet address
+ * @param dataTypes - Data types to load (the ones the passkey gate allows)
+ * @returns Cached records, or null unless every stored data type is cached
+ *   for its current EntryData (then Walrus must be read)
+ */
+async function loadCachedRecords(
+	passportId: string,
+	owner: string,
+	dataTypes: DataType[],
+): Promise<Partial<CachedRecords> | null> {
+	const records: Partial<CachedRecords> = {};
+	for (const dataType of RECORD_DATA_TYPES) {
+		if (!dataTypes.includes(dataType)) {
+			continue;
+		}
+		const entry = await getDataEntry(passportId, dataType);
+		if (!entry?.metadataBlobId) {
+			if (dataType === "basic_profile") {
+				return null;
+			}
+			continue;
+		}
+		const cached = await readRecordCache<CachedRecords[typeof dataType]>(
+			owner,
+			dataType,
+			entry.updatedAt,
+		);
+		if (!cached) {
+			return null;
+		}
+		(records as Record<string, unknown>)[dataType] = cached;
+	}
+	return records;
+}
+
 /**
  * Loading states for different data types
  */
@@ -140,7 +216,13 @@ export function AppProvider({ children }: { children: ReactNode }) {
 		sessionKey,
 		generateSessionKey,
 		isValid: sessionKeyValid,
+		isEnded: sessionEnded,
+		generation: sessionGeneration,
 	} = useSessionKeyManager();
+	const { status: recordCacheStatus } = useRecordCache();
+	const { blocked: passkeyBlocked } = usePasskeyGate();
+	// Data types the passkey gate allows for the load in progress
+	const passkeyAccessRef = useRef<DataType[] | null>(null);
 
 	// ウォレットアドレスはdApp Kitから取得
 	const walletAddress = currentAccount?.address || null;
@@ -162,6 +244,24 @@ export function AppProvider({ children }: { children: ReactNode }) {
 		localStorage.setItem("userSettings", JSON.stringify(settings));
 	}, [settings]);
 
+	// Drop decrypted data when the user ends the session
+	useEffect(() => {
+		if (sessionGeneration === 0) {
+			return;
+		}
+		console.log("[AppContext] Session ended, clearing decrypted data");
+		lockRecordCache();
+		resetPasskeyVerification();
+		passkeyAccessRef.current = null;
+		setProfile(null);
+		setMedications([]);
+		setAllergies([]);
+		setMedicalHistories([]);
+		setLabResults([]);
+		setImagingReports([]);
+		setVitalSigns([]);
+	}, [sessionGeneration]);
+
 	// Initialize profile data from encrypted storage
 	useEffect(() => {
 		async function initializeProfileData() {
@@ -178,7 +278,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
 			}
 
 			// Note: seal_id is no longer stored in passport
-			// It's dynamically generated per dataType using generateSealId(address, dataType)
+			// Each EntryData records the seal_id of its dataType (see lib/sealIdRotation.ts)
 
 			// Skip if already generating SessionKey
 			if (isGeneratingSessionKey) {
@@ -188,8 +288,72 @@ export function AppProvider({ children }: { children: ReactNode }) {
 				return;
 			}
 
+			// Skip if profile already loaded (an expiring key is renewed via the refresh prompt)
+			if (profile !== null) {
+				setIsLoadingProfile(false);
+				return;
+			}
+
+			// Wait until the record cache state is known / the user entered the PIN
+			if (recordCacheStatus === "unknown" || recordCacheStatus === "locked") {
+				return;
+			}
+			const owner = currentAccount.address;
+
+			// Ask for the passkey (if one is registered) before anything is
+			// decrypted; kept until this load completes so a SessionKey renewal
+			// does not ask again
+			if (!passkeyAccessRef.current) {
+				// Cancelled before: wait for the retry in PasskeyGateBanner
+				if (passkeyBlocked.includes("basic_profile")) {
+					setIsLoadingProfile(false);
+					return;
+				}
+				setIsLoadingProfile(true);
+				const allowed = await checkPasskeyAccess(owner, RECORD_DATA_TYPES);
+				if (!allowed.includes("basic_profile")) {
+					console.log("[AppContext] Passkey check failed, records stay hidden");
+					setIsLoadingProfile(false);
+					return;
+				}
+				passkeyAccessRef.current = allowed;
+			}
+			const allowedTypes = passkeyAccessRef.current;
+
+			// Step 0: Serve every data type from the record cache when it is current
+			// (no Walrus download and no wallet signature)
+			if (recordCacheStatus === "unlocked") {
+				setIsLoadingProfile(true);
+				const cached = await loadCachedRecords(
+					passport.id,
+					owner,
+					allowedTypes,
+				);
+				if (cached?.basic_profile) {
+					passkeyAccessRef.current = null;
+					setProfile(cached.basic_profile.profile);
+					setAllergies(cached.basic_profile.allergies);
+					setMedicalHistories(cached.conditions ?? []);
+					setMedications(cached.medications ?? []);
+					setLabResults(cached.lab_results ?? []);
+					setVitalSigns(cached.self_metrics ?? []);
+					setImagingReports(cached.imaging_meta ?? []);
+					setIsLoadingProfile(false);
+					console.log("[AppContext] Records loaded from the record cache");
+					return;
+				}
+			}
+
 			// Step 1: Ensure SessionKey is valid
 			if (!sessionKey || !sessionKeyValid) {
+				if (sessionEnded) {
+					console.log(
+						"[AppContext] Session ended, waiting for the user to sign in again",
+					);
+					setIsLoadingProfile(false);
+					return;
+				}
+
 				console.log("[AppContext] SessionKey invalid, generating new one...");
 				setIsLoadingProfile(true);
 				setIsGeneratingSessionKey(true);
@@ -208,12 +372,6 @@ export function AppProvider({ children }: { children: ReactNode }) {
 				return;
 			}
 
-			// Skip if profile already loaded
-			if (profile !== null) {
-				setIsLoadingProfile(false);
-				return;
-			}
-
 			setIsLoading(true);
 			setIsLoadingProfile(true);
 
@@ -225,25 +383,9 @@ export function AppProvider({ children }: { children: ReactNode }) {
 				const sealClient = createSealClient(suiClient);
 
 				// Step 3: Load basic_profile (required)
-				// Generate seal_id for basic_profile dataType
 				setLoadingStates((prev) => ({ ...prev, basic_profile: true }));
-				const basicProfileSealId = await generateSealId(
-					currentAccount.address,
-					"basic_profile",
-				);
-				console.log(
-					`[AppContext] Generated seal_id for basic_profile: ${basicProfileSealId.substring(0, 16)}...`,
-				);
 
-				const basicProfileTxBytes = await buildPatientAccessPTB({
-					passportObjectId: passport.id,
-					registryObjectId: PASSPORT_REGISTRY_ID,
-					suiClient,
-					sealId: basicProfileSealId,
-					dataType: "basic_profile",
-				});
-
-				// v3.0.0: Get metadata_blob_id from EntryData
+				// v3.0.0: Get seal_id and metadata_blob_id from EntryData
 				const basicProfileEntry = await getDataEntry(
 					passport.id,
 					"basic_profile",
@@ -258,6 +400,20 @@ export function AppProvider({ children }: { children: ReactNode }) {
 					return;
 				}
 
+				// seal_id recorded in EntryData (may have been rotated)
+				const basicProfileSealId = basicProfileEntry.sealId;
+				console.log(
+					`[AppContext] Using seal_id for basic_profile: ${basicProfileSealId.substring(0, 16)}...`,
+				);
+
+				const basicProfileTxBytes = await buildPatientAccessPTB({
+					passportObjectId: passport.id,
+					registryObjectId: PASSPORT_REGISTRY_ID,
+					suiClient,
+					sealId: basicProfileSealId,
+					dataType: "basic_profile",
+				});
+
 				// Decrypt metadata blob first
 				const encryptedMetadata = await downloadFromWalrusByBlobId(
 					basicProfileEntry.metadataBlobId,
@@ -279,8 +435,9 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
 				// Get data blob from first entry
 				const latestEntry = metadataData.entries[0];
-				const encryptedData = await downloadFromWalrusByBlobId(
-					latestEntry.blob_id,
+				const encryptedData = await downloadEntryBlob(
+					latestEntry,
+					"basic_profile",
 				);
 				const decryptedData = await decryptHealthData({
 					encryptedData,
@@ -333,22 +490,25 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
 				setProfile(decryptedProfile);
 
-				if (
-					basicProfileData.profile.allergies &&
-					basicProfileData.profile.allergies.length > 0
-				) {
-					const convertedAllergies = basicProfileData.profile.allergies.map(
-						(allergyName, index) => ({
-							id: `allergy-${index}`,
-							substance: allergyName,
-							severity: "moderate" as const,
-							symptoms: "",
-							onsetDate: new Date().toISOString().split("T")[0],
-							notes: "",
-						}),
-					);
+				const convertedAllergies: Allergy[] = (
+					basicProfileData.profile.allergies || []
+				).map((allergyName, index) => ({
+					id: `allergy-${index}`,
+					substance: allergyName,
+					severity: "moderate" as const,
+					symptoms: "",
+					onsetDate: new Date().toISOString().split("T")[0],
+					notes: "",
+				}));
+				if (convertedAllergies.length > 0) {
 					setAllergies(convertedAllergies);
 				}
+				void writeRecordCache(
+					owner,
+					"basic_profile",
+					basicProfileEntry.updatedAt,
+					{ profile: decryptedProfile, allergies: convertedAllergies },
+				);
 
 				setLoadingStates((prev) => ({ ...prev, basic_profile: false }));
 				console.log("[AppContext] Profile loaded successfully");
@@ -358,6 +518,9 @@ export function AppProvider({ children }: { children: ReactNode }) {
 				const dataLoadPromises = [
 					// Load conditions
 					(async () => {
+						if (!allowedTypes.includes("conditions")) {
+							return;
+						}
 						setLoadingStates((prev) => ({ ...prev, conditions: true }));
 						try {
 							// v3.0.0: Get metadata from EntryData
@@ -367,11 +530,21 @@ export function AppProvider({ children }: { children: ReactNode }) {
 							);
 
 							if (conditionsEntry?.metadataBlobId) {
-								// Generate seal_id for conditions
-								const conditionsSealId = await generateSealId(
-									currentAccount.address,
+								const cached = await readRecordCache<MedicalHistory[]>(
+									owner,
 									"conditions",
+									conditionsEntry.updatedAt,
 								);
+								if (cached) {
+									setMedicalHistories(cached);
+									console.log(
+										"[AppContext] Conditions loaded from the record cache",
+									);
+									return;
+								}
+
+								// seal_id recorded in EntryData (may have been rotated)
+								const conditionsSealId = conditionsEntry.sealId;
 								const conditionsTxBytes = await buildPatientAccessPTB({
 									passportObjectId: passport.id,
 									registryObjectId: PASSPORT_REGISTRY_ID,
@@ -395,8 +568,10 @@ export function AppProvider({ children }: { children: ReactNode }) {
 								if (metadataData.entries && metadataData.entries.length > 0) {
 									// Decrypt data blob
 									const latestEntry = metadataData.entries[0];
-									const encryptedConditionsData =
-										await downloadFromWalrusByBlobId(latestEntry.blob_id);
+									const encryptedConditionsData = await downloadEntryBlob(
+										latestEntry,
+										"conditions",
+									);
 									const decryptedConditionsData = await decryptHealthData({
 										encryptedData: encryptedConditionsData,
 										sealClient,
@@ -429,6 +604,12 @@ export function AppProvider({ children }: { children: ReactNode }) {
 										}));
 
 									setMedicalHistories(medicalHistories);
+									void writeRecordCache(
+										owner,
+										"conditions",
+										conditionsEntry.updatedAt,
+										medicalHistories,
+									);
 									console.log("[AppContext] Conditions loaded successfully");
 								}
 							}
@@ -444,6 +625,9 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
 					// Load medications
 					(async () => {
+						if (!allowedTypes.includes("medications")) {
+							return;
+						}
 						setLoadingStates((prev) => ({ ...prev, medications: true }));
 						try {
 							// v3.0.0: Get metadata from EntryData
@@ -453,11 +637,21 @@ export function AppProvider({ children }: { children: ReactNode }) {
 							);
 
 							if (medicationsEntry?.metadataBlobId) {
-								// Generate seal_id for medications
-								const medicationsSealId = await generateSealId(
-									currentAccount.address,
+								const cached = await readRecordCache<Medication[]>(
+									owner,
 									"medications",
+									medicationsEntry.updatedAt,
 								);
+								if (cached) {
+									setMedications(cached);
+									console.log(
+										"[AppContext] Medications loaded from the record cache",
+									);
+									return;
+								}
+
+								// seal_id recorded in EntryData (may have been rotated)
+								const medicationsSealId = medicationsEntry.sealId;
 								const medicationsTxBytes = await buildPatientAccessPTB({
 									passportObjectId: passport.id,
 									registryObjectId: PASSPORT_REGISTRY_ID,
@@ -481,8 +675,10 @@ export function AppProvider({ children }: { children: ReactNode }) {
 								// Load all medication blobs and merge
 								const allMedications: Medication[] = [];
 								for (const entry of metadataData.entries || []) {
-									const encryptedMedicationsData =
-										await downloadFromWalrusByBlobId(entry.blob_id);
+									const encryptedMedicationsData = await downloadEntryBlob(
+										entry,
+										"medications",
+									);
 									const decryptedMedicationsData = await decryptHealthData({
 										encryptedData: encryptedMedicationsData,
 										sealClient,
@@ -514,6 +710,12 @@ export function AppProvider({ children }: { children: ReactNode }) {
 								}
 
 								setMedications(allMedications);
+								void writeRecordCache(
+									owner,
+									"medications",
+									medicationsEntry.updatedAt,
+									allMedications,
+								);
 								console.log("[AppContext] Medications loaded successfully");
 							}
 						} catch (error) {
@@ -528,6 +730,9 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
 					// Load lab_results
 					(async () => {
+						if (!allowedTypes.includes("lab_results")) {
+							return;
+						}
 						setLoadingStates((prev) => ({ ...prev, lab_results: true }));
 						try {
 							// v3.0.0: Get metadata from EntryData
@@ -537,11 +742,21 @@ export function AppProvider({ children }: { children: ReactNode }) {
 							);
 
 							if (labResultsEntry?.metadataBlobId) {
-								// Generate seal_id for lab_results
-								const labResultsSealId = await generateSealId(
-									currentAccount.address,
+								const cached = await readRecordCache<LabResult[]>(
+									owner,
 									"lab_results",
+									labResultsEntry.updatedAt,
 								);
+								if (cached) {
+									setLabResults(cached);
+									console.log(
+										"[AppContext] Lab results loaded from the record cache",
+									);
+									return;
+								}
+
+								// seal_id recorded in EntryData (may have been rotated)
+								const labResultsSealId = labResultsEntry.sealId;
 								const labResultsTxBytes = await buildPatientAccessPTB({
 									passportObjectId: passport.id,
 									registryObjectId: PASSPORT_REGISTRY_ID,
@@ -565,8 +780,10 @@ export function AppProvider({ children }: { children: ReactNode }) {
 								// Load all lab result blobs and merge
 								const convertedLabResults: LabResult[] = [];
 								for (const entry of metadataData.entries || []) {
-									const encryptedLabResultsData =
-										await downloadFromWalrusByBlobId(entry.blob_id);
+									const encryptedLabResultsData = await downloadEntryBlob(
+										entry,
+										"lab_results",
+									);
 									const decryptedLabResultsData = await decryptHealthData({
 										encryptedData: encryptedLabResultsData,
 										sealClient,
@@ -601,6 +818,12 @@ export function AppProvider({ children }: { children: ReactNode }) {
 								}
 
 								setLabResults(convertedLabResults);
+								void writeRecordCache(
+									owner,
+									"lab_results",
+									labResultsEntry.updatedAt,
+									convertedLabResults,
+								);
 								console.log("[AppContext] Lab results loaded successfully");
 							}
 						} catch (error) {
@@ -615,6 +838,9 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
 					// Load self_metrics (vitals)
 					(async () => {
+						if (!allowedTypes.includes("self_metrics")) {
+							return;
+						}
 						setLoadingStates((prev) => ({ ...prev, vitals: true }));
 						try {
 							// v3.0.0: Get metadata from EntryData
@@ -624,11 +850,21 @@ export function AppProvider({ children }: { children: ReactNode }) {
 							);
 
 							if (vitalsEntry?.metadataBlobId) {
-								// Generate seal_id for self_metrics
-								const selfMetricsSealId = await generateSealId(
-									currentAccount.address,
+								const cached = await readRecordCache<VitalSign[]>(
+									owner,
 									"self_metrics",
+									vitalsEntry.updatedAt,
 								);
+								if (cached) {
+									setVitalSigns(cached);
+									console.log(
+										"[AppContext] Vitals loaded from the record cache",
+									);
+									return;
+								}
+
+								// seal_id recorded in EntryData (may have been rotated)
+								const selfMetricsSealId = vitalsEntry.sealId;
 								const selfMetricsTxBytes = await buildPatientAccessPTB({
 									passportObjectId: passport.id,
 									registryObjectId: PASSPORT_REGISTRY_ID,
@@ -652,8 +888,9 @@ export function AppProvider({ children }: { children: ReactNode }) {
 								// Load all vitals blobs and merge
 								const allVitals: VitalSign[] = [];
 								for (const entry of metadataData.entries || []) {
-									const encryptedVitalsData = await downloadFromWalrusByBlobId(
-										entry.blob_id,
+									const encryptedVitalsData = await downloadEntryBlob(
+										entry,
+										"self_metrics",
 									);
 									const decryptedVitalsData = await decryptHealthData({
 										encryptedData: encryptedVitalsData,
@@ -696,6 +933,12 @@ export function AppProvider({ children }: { children: ReactNode }) {
 								}
 
 								setVitalSigns(allVitals);
+								void writeRecordCache(
+									owner,
+									"self_metrics",
+									vitalsEntry.updatedAt,
+									allVitals,
+								);
 								console.log("[AppContext] Vitals loaded successfully");
 							}
 						} catch (error) {
@@ -710,6 +953,9 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
 					// Load imaging
 					(async () => {
+						if (!allowedTypes.includes("imaging_meta")) {
+							return;
+						}
 						setLoadingStates((prev) => ({ ...prev, imaging: true }));
 						try {
 							// v3.0.0: Get metadata from EntryData
@@ -719,11 +965,21 @@ export function AppProvider({ children }: { children: ReactNode }) {
 							);
 
 							if (imagingEntry?.metadataBlobId) {
-								// Generate seal_id for imaging_meta
-								const imagingMetaSealId = await generateSealId(
-									currentAccount.address,
+								const cached = await readRecordCache<ImagingReport[]>(
+									owner,
 									"imaging_meta",
+									imagingEntry.updatedAt,
 								);
+								if (cached) {
+									setImagingReports(cached);
+									console.log(
+										"[AppContext] Imaging loaded from the record cache",
+									);
+									return;
+								}
+
+								// seal_id recorded in EntryData (may have been rotated)
+								const imagingMetaSealId = imagingEntry.sealId;
 								const imagingMetaTxBytes = await buildPatientAccessPTB({
 									passportObjectId: passport.id,
 									registryObjectId: PASSPORT_REGISTRY_ID,
@@ -747,8 +1003,9 @@ export function AppProvider({ children }: { children: ReactNode }) {
 								// Load all imaging blobs and merge
 								const allImaging: ImagingReport[] = [];
 								for (const entry of metadataData.entries || []) {
-									const encryptedImagingData = await downloadFromWalrusByBlobId(
-										entry.blob_id,
+									const encryptedImagingData = await downloadEntryBlob(
+										entry,
+										"imaging_meta",
 									);
 									const decryptedImagingData = await decryptHealthData({
 										encryptedData: encryptedImagingData,
@@ -804,6 +1061,12 @@ export function AppProvider({ children }: { children: ReactNode }) {
 								}
 
 								setImagingReports(allImaging);
+								void writeRecordCache(
+									owner,
+									"imaging_meta",
+									imagingEntry.updatedAt,
+									allImaging,
+								);
 								console.log("[AppContext] Imaging loaded successfully");
 							}
 						} catch (error) {
@@ -835,6 +1098,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
 				console.error("[AppContext] Error type:", typeof error);
 				setIsLoadingProfile(false);
 			} finally {
+				passkeyAccessRef.current = null;
 				setIsLoading(false);
 				setIsLoadingProfile(false);
 			}
@@ -849,8 +1113,11 @@ export function AppProvider({ children }: { children: ReactNode }) {
 		profile,
 		sessionKey,
 		sessionKeyValid,
+		sessionEnded,
 		generateSessionKey,
 		isGeneratingSessionKey,
+		recordCacheStatus,
+		passkeyBlocked,
 	]);
 
 	// setWalletAddressはdApp Kitが管理するため、空実装
@@ -999,6 +1266,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
 	const refetchProfile = async () => {
 		console.log("[AppContext] Manual profile refetch requested");
+		passkeyAccessRef.current = null;
 		// Reset profile state to trigger reload
 		setProfile(null);
 		setIsLoadingProfile(true);
@@ -0,0 +1,359 @@
+/**
+ * OutboxContext
+ *
+ * 保存処理のアウトボックス（IndexedDB）を管理するコンテキスト
+ *
+ * ## 機能
+ * - 暗号化済みペイロードをキューに積み、即座に送信を試行
+ * - 失敗したアイテムはオンライン復帰時・定期実行で自動リトライ
+ * - 保留中アイテムの一覧・手動リトライ・破棄
+ * - 他端末と同じパーティションを変更した場合の競合解決（自分の変更/他端末の変更を残す）
+ *
+ * 再送の冪等性は lib/outbox.ts の processOutboxItem が保証する。
+ */
+"use client";
+
+import { useCurrentAccount, useSuiClient } from "@mysten/dapp-kit";
+import {
+	createContext,
+	type ReactNode,
+	useCallback,
+	useContext,
+	useEffect,
+	useRef,
+	useState,
+} from "react";
+import { useApp } from "@/contexts/AppContext";
+import { useSessionKeyManager } from "@/hooks/useSessionKeyManager";
+import { useUpdatePassportData } from "@/hooks/useUpdatePassportData";
+import { loadPassportMetadata } from "@/lib/metadataLoader";
+import {
+	attachOutboxBackupKeys,
+	createOutboxItem,
+	markOutboxItemFailed,
+	type OutboxConflictChoice,
+	type OutboxDeps,
+	type OutboxItem,
+	type OutboxItemInput,
+	processOutboxItem,
+	resolveOutboxConflicts,
+} from "@/lib/outbox";
+import {
+	deleteOutboxItem,
+	isOutboxStoreAvailable,
+	listOutboxItems,
+	putOutboxItem,
+} from "@/lib/outboxStore";
+import {
+	createSealClient,
+	encryptHealthData,
+	getSealThreshold,
+} from "@/lib/seal";
+import { resolveSealId } from "@/lib/sealIdRotation";
+import { getDataEntry } from "@/lib/suiClient";
+import { uploadToWalrus } from "@/lib/walrus";
+
+// ==========================================
+// 型定義
+// ==========================================
+
+/**
+ * enqueueの結果
+ * - synced: その場で送信完了
+ * - queued: アウトボックスに残り、後でリトライされる
+ */
+export type OutboxEnqueueResult = "synced" | "queued";
+
+interface OutboxContextType {
+	/** 保留中のアイテム（古い順） */
+	items: OutboxItem[];
+	/** 送信処理中かどうか */
+	isSyncing: boolean;
+	/** 保存をキューに積み、即座に送信を試行 */
+	enqueue: (input: OutboxItemInput) => Promise<OutboxEnqueueResult>;
+	/** バックオフを無視して今すぐリトライ */
+	retry: () => Promise<void>;
+	/** アイテムを破棄（保存内容は失われる） */
+	discard: (id: string) => Promise<void>;
+	/** 競合したパーティションをどちらの変更で残すか決めて再送 */
+	resolveConflict: (id: string, choice: OutboxConflictChoice) => Promise<void>;
+}
+
+// ==========================================
+// 定数
+// ==========================================
+
+/** 自動リトライの確認間隔 */
+const RETRY_CHECK_INTERVAL_MS = 60 * 1000;
+
+const OutboxContext = createContext<OutboxContextType | undefined>(undefined);
+
+export function OutboxProvider({ children }: { children: ReactNode }) {
+	const suiClient = useSuiClient();
+	const currentAccount = useCurrentAccount();
+	const { sessionKey, isValid: sessionKeyValid } = useSessionKeyManager();
+	const { updatePassportData } = useUpdatePassportData();
+	const { refetchProfile } = useApp();
+
+	const [items, setItems] = useState<OutboxItem[]>([]);
+	const [isSyncing, setIsSyncing] = useState(false);
+	const processingRef = useRef<Promise<string[]> | null>(null);
+	// refetchProfileは毎レンダー再生成されるためrefで保持
+	const refetchProfileRef = useRef(refetchProfile);
+
+	useEffect(() => {
+		refetchProfileRef.current = refetchProfile;
+	}, [refetchProfile]);
+
+	const owner = currentAccount?.address ?? null;
+
+	const refreshItems = useCallback(async () => {
+		if (!owner || !isOutboxStoreAvailable()) {
+			setItems([]);
+			return;
+		}
+		setItems(await listOutboxItems(owner));
+	}, [owner]);
+
+	/**
+	 * アイテム再送に使う依存関係
+	 */
+	const createDeps = useCallback(
+		(): OutboxDeps => ({
+			uploadBlob: (payload, item) =>
+				uploadToWalrus(payload, {
+					owner: item.owner,
+					dataType: item.dataType,
+				}),
+			loadMetadata: async (item) => {
+				const entry = await getDataEntry(item.passportId, item.dataType);
+				if (!entry?.metadataBlobId) {
+					return null;
+				}
+				// 既存entryとのマージには復号が必要
+				if (!sessionKey || !sessionKeyValid) {
+					throw new Error("Session key required to merge with saved records");
+				}
+				const loaded = await loadPassportMetadata({
+					suiClient,
+					sessionKey,
+					passportId: item.passportId,
+					dataType: item.dataType,
+				});
+				return loaded
+					? {
+							metadataBlobId: loaded.entry.metadataBlobId,
+							metadata: loaded.metadata,
+						}
+					: null;
+			},
+			encryptMetadata: async (metadata, item) => {
+				const { encryptedObject } = await encryptHealthData({
+					healthData: metadata as unknown as never,
+					sealClient: createSealClient(suiClient),
+					sealId: await resolveSealId({
+						passportId: item.passportId,
+						address: item.owner,
+						dataType: item.dataType,
+					}),
+					threshold: getSealThreshold(),
+				});
+				return encryptedObject;
+			},
+			getCurrentMetadataBlobId: async (item) =>
+				(await getDataEntry(item.passportId, item.dataType))?.metadataBlobId ??
+				null,
+			updatePassport: (item, metadataBlobId, replace) =>
+				updatePassportData({
+					passportId: item.passportId,
+					dataType: item.dataType,
+					metadataBlobId,
+					replace,
+					// 構築元のメタデータから変わっていればabort（compare-and-swap）
+					expectedMetadataBlobId: item.baseMetadataBlobId ?? undefined,
+				}),
+			persist: putOutboxItem,
+		}),
+		[sessionKey, sessionKeyValid, suiClient, updatePassportData],
+	);
+
+	/**
+	 * 期限の来たアイテムを古い順に送信
+	 *
+	 * 同じデータ種のアイテムは順序を保つため、1件失敗したら
+	 * そのデータ種の後続アイテムはスキップする。
+	 *
+	 * @param force - trueならバックオフ待ちのアイテムも送信
+	 * @returns 送信完了したアイテムID
+	 */
+	const processQueue = useCallback(
+		async (force = false): Promise<string[]> => {
+			if (processingRef.current) {
+				return processingRef.current;
+			}
+			if (!owner || !isOutboxStoreAvailable()) {
+				return [];
+			}
+			if (typeof navigator !== "undefined" && !navigator.onLine) {
+				console.log("[Outbox] Offline, skipping sync");
+				return [];
+			}
+
+			const run = async (): Promise<string[]> => {
+				const completed: string[] = [];
+				const blockedDataTypes = new Set<string>();
+				setIsSyncing(true);
+				try {
+					const deps = createDeps();
+					for (const item of await listOutboxItems(owner)) {
+						if (blockedDataTypes.has(item.dataType)) {
+							continue;
+						}
+						// 競合はユーザーが解決するまで再送しない
+						if (item.conflicts && item.conflicts.length > 0) {
+							blockedDataTypes.add(item.dataType);
+							continue;
+						}
+						if (!force && item.nextAttemptAt > Date.now()) {
+							blockedDataTypes.add(item.dataType);
+							continue;
+						}
+
+						try {
+							console.log(
+								`[Outbox] Processing ${item.dataType} item ${item.id} (attempt ${item.attempts + 1})`,
+							);
+							await processOutboxItem(item, deps);
+							await deleteOutboxItem(item.id);
+							completed.push(item.id);
+							console.log(`[Outbox] Applied item ${item.id}`);
+						} catch (error) {
+							console.error(`[Outbox] Item ${item.id} failed:`, error);
+							blockedDataTypes.add(item.dataType);
+							// 進捗はpersistで保存済みのため最新状態に失敗を記録
+							const latest =
+								(await listOutboxItems(owner)).find((i) => i.id === item.id) ??
+								item;
+							await putOutboxItem(markOutboxItemFailed(latest, error));
+						}
+					}
+				} finally {
+					await refreshItems();
+					setIsSyncing(false);
+				}
+				return completed;
+			};
+
+			processingRef.current = run().finally(() => {
+				processingRef.current = null;
+			});
+			return processingRef.current;
+		},
+		[owner, createDeps, refreshItems],
+	);
+
+	const enqueue = useCallback(
+		async (input: OutboxItemInput): Promise<OutboxEnqueueResult> => {
+			const item = await attachOutboxBackupKeys(createOutboxItem(input));
+			await putOutboxItem(item);
+			await refreshItems();
+			console.log(`[Outbox] Queued ${item.dataType} item ${item.id}`);
+
+			// 実行中の送信があれば完了を待ってから、待機中の先行アイテムも含めて送信
+			await processingRef.current;
+			const completed = await processQueue(true);
+			return completed.includes(item.id) ? "synced" : "queued";
+		},
+		[processQueue, refreshItems],
+	);
+
+	const retry = useCallback(async () => {
+		await processingRef.current;
+		const completed = await processQueue(true);
+		if (completed.length > 0) {
+			await refetchProfileRef.current();
+		}
+	}, [processQueue]);
+
+	const discard = useCallback(
+		async (id: string) => {
+			await deleteOutboxItem(id);
+			await refreshItems();
+		},
+		[refreshItems],
+	);
+
+	const resolveConflict = useCallback(
+		async (id: string, choice: OutboxConflictChoice) => {
+			if (!owner) {
+				return;
+			}
+			const item = (await listOutboxItems(owner)).find((i) => i.id === id);
+			if (!item) {
+				return;
+			}
+			const resolved = resolveOutboxConflicts(item, choice);
+			if (
+				resolved.partitions.length === 0 &&
+				resolved.removedPartitions.length === 0
+			) {
+				// 他端末の変更を全て残す場合は送信するものがない
+				await deleteOutboxItem(id);
+				await refreshItems();
+				return;
+			}
+			await putOutboxItem(resolved);
+			await refreshItems();
+			await retry();
+		},
+		[owner, refreshItems, retry],
+	);
+
+	// 溜まっているアイテムを送信し、反映されたらプロフィールを再読み込み
+	const syncInBackground = useCallback(() => {
+		processQueue()
+			.then((completed) => {
+				if (completed.length > 0) {
+					return refetchProfileRef.current();
+				}
+			})
+			.catch((error) => {
+				console.error("[Outbox] Background sync failed:", error);
+			});
+	}, [processQueue]);
+
+	// ウォレット切り替え・SessionKey更新時に一覧を読み込んで送信
+	useEffect(() => {
+		refreshItems()
+			.then(syncInBackground)
+			.catch((error) => {
+				console.error("[Outbox] Failed to load outbox:", error);
+			});
+	}, [refreshItems, syncInBackground]);
+
+	// オンライン復帰時・定期的に自動リトライ
+	useEffect(() => {
+		window.addEventListener("online", syncInBackground);
+		const interval = setInterval(syncInBackground, RETRY_CHECK_INTERVAL_MS);
+		return () => {
+			window.removeEventListener("online", syncInBackground);
+			clearInterval(interval);
+		};
+	}, [syncInBackground]);
+
+	return (
+		<OutboxContext.Provider
+			value={{ items, isSyncing, enqueue, retry, discard, resolveConflict }}
+		>
+			{children}
+		</OutboxContext.Provider>
+	);
+}
+
+export function useOutbox() {
+	const context = useContext(OutboxContext);
+	if (context === undefined) {
+		throw new Error("useOutbox must be used within an OutboxProvider");
+	}
+	return context;
+}
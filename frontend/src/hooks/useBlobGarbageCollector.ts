@@ -0,0 +1,280 @@
+/**
+ * useBlobGarbageCollector Hook (v3.0.0)
+ *
+ * Finds and deletes Walrus blobs that are no longer referenced by the passport.
+ *
+ * ## Features
+ * - Mark: walk SBT EntryData → metadata blob → data / binary blobs
+ * - Sweep: compare with the locally tracked upload journal
+ * - Review: orphaned blobs are listed before anything is deleted
+ * - Delete: selected blob objects are deleted in one transaction and the
+ *   reclaimed Storage resources are returned to the owner
+ *
+ * ## Safety
+ * - The scan aborts if any data type's metadata cannot be read, so an
+ *   unreadable metadata blob never makes its data look orphaned
+ * - Blobs uploaded within ORPHAN_GRACE_PERIOD_MS are never reported
+ * - Blobs of queued outbox saves and unfinished seal_id rotations are
+ *   reachable until they are applied
+ * - Journal entries whose object no longer exists or is no longer owned by
+ *   the user are dropped instead of being deleted
+ *
+ * ## Usage
+ * ```typescript
+ * const { scan, deleteOrphans, orphans } = useBlobGarbageCollector();
+ *
+ * await scan();
+ * await deleteOrphans(orphans.map((o) => o.objectId));
+ * ```
+ */
+"use client";
+
+import {
+	useCurrentAccount,
+	useSignAndExecuteTransaction,
+	useSuiClient,
+} from "@mysten/dapp-kit";
+import { useCallback, useState } from "react";
+import { usePassport } from "@/hooks/usePassport";
+import { useSessionKeyManager } from "@/hooks/useSessionKeyManager";
+import { collectReachableBlobIds, findOrphanedBlobs } from "@/lib/blobGc";
+import { loadPassportMetadata } from "@/lib/metadataLoader";
+import { getOutboxItemBlobIds } from "@/lib/outbox";
+import { isOutboxStoreAvailable, listOutboxItems } from "@/lib/outboxStore";
+import { getRotationJobBlobIds, loadRotationJobs } from "@/lib/sealIdRotation";
+import { METADATA_DATA_TYPES } from "@/lib/storageExpiry";
+import { getDataEntry } from "@/lib/suiClient";
+import {
+	loadUploadJournal,
+	removeFromUploadJournal,
+	type UploadJournalEntry,
+} from "@/lib/uploadJournal";
+import { buildDeleteBlobsTransaction } from "@/lib/walrusSystem";
+import type { BaseMetadata, BaseMetadataEntry } from "@/types/metadata";
+
+/**
+ * GC progress stages
+ */
+export type BlobGcProgress =
+	| "idle"
+	| "scanning"
+	| "deleting"
+	| "completed"
+	| "error";
+
+/**
+ * Hook return type
+ */
+export interface UseBlobGarbageCollectorReturn {
+	/** Find orphaned blobs (does not delete anything) */
+	scan: () => Promise<UploadJournalEntry[]>;
+	/** Delete the given orphaned blob objects */
+	deleteOrphans: (objectIds: string[]) => Promise<void>;
+	/** Orphans found by the last scan */
+	orphans: UploadJournalEntry[];
+	/** Whether passport and session key are available for a scan */
+	isReady: boolean;
+	/** Current progress stage */
+	progress: BlobGcProgress;
+	/** Error message if the last operation failed */
+	error: string | null;
+}
+
+/**
+ * Orphaned Walrus blob garbage collection hook
+ *
+ * @returns GC state and controls
+ */
+export function useBlobGarbageCollector(): UseBlobGarbageCollectorReturn {
+	const suiClient = useSuiClient();
+	const currentAccount = useCurrentAccount();
+	const { passport } = usePassport();
+	const { sessionKey } = useSessionKeyManager();
+	const { mutateAsync: signAndExecuteTransaction } =
+		useSignAndExecuteTransaction();
+
+	const [orphans, setOrphans] = useState<UploadJournalEntry[]>([]);
+	const [progress, setProgress] = useState<BlobGcProgress>("idle");
+	const [error, setError] = useState<string | null>(null);
+
+	/**
+	 * Drop journal entries whose blob object is gone or no longer ours
+	 */
+	const pruneStaleEntries = useCallback(
+		async (
+			owner: string,
+			candidates: UploadJournalEntry[],
+		): Promise<UploadJournalEntry[]> => {
+			if (candidates.length === 0) {
+				return [];
+			}
+
+			const objects = await suiClient.multiGetObjects({
+				ids: candidates.map((entry) => entry.objectId),
+				options: { showOwner: true },
+			});
+
+			const live: UploadJournalEntry[] = [];
+			const stale: string[] = [];
+			candidates.forEach((entry, index) => {
+				const objectOwner = objects[index]?.data?.owner;
+				const ownedByUser =
+					typeof objectOwner === "object" &&
+					objectOwner !== null &&
+					"AddressOwner" in objectOwner &&
+					objectOwner.AddressOwner === owner;
+				if (ownedByUser) {
+					live.push(entry);
+				} else {
+					stale.push(entry.objectId);
+				}
+			});
+
+			if (stale.length > 0) {
+				console.log(
+					`[BlobGC] Dropping ${stale.length} stale journal entr(ies)`,
+				);
+				removeFromUploadJournal(owner, stale);
+			}
+
+			return live;
+		},
+		[suiClient],
+	);
+
+	/**
+	 * Find orphaned blobs
+	 */
+	const scan = useCallback(async (): Promise<UploadJournalEntry[]> => {
+		if (!passport || !sessionKey || !currentAccount?.address) {
+			throw new Error("Prerequisites not met");
+		}
+
+		setProgress("scanning");
+		setError(null);
+
+		try {
+			const owner = currentAccount.address;
+
+			// Mark: SBT roots and decrypted metadata
+			const rootBlobIds: string[] = [];
+			const metadata: Array<BaseMetadata<BaseMetadataEntry>> = [];
+			for (const dataType of METADATA_DATA_TYPES) {
+				const loaded = await loadPassportMetadata({
+					suiClient,
+					sessionKey,
+					passportId: passport.id,
+					dataType,
+				});
+				if (loaded) {
+					rootBlobIds.push(loaded.entry.metadataBlobId);
+					metadata.push(loaded.metadata);
+				}
+			}
+
+			// imaging_binary EntryData points directly at a data blob
+			const binaryEntry = await getDataEntry(passport.id, "imaging_binary");
+			if (binaryEntry?.metadataBlobId) {
+				rootBlobIds.push(binaryEntry.metadataBlobId);
+			}
+
+			// Queued saves and rotations: uploaded but not referenced by the SBT yet
+			const pendingBlobIds: string[] = [];
+			if (isOutboxStoreAvailable()) {
+				for (const item of await listOutboxItems(owner)) {
+					pendingBlobIds.push(...getOutboxItemBlobIds(item));
+				}
+			}
+			for (const job of loadRotationJobs(owner)) {
+				pendingBlobIds.push(...getRotationJobBlobIds(job));
+			}
+
+			const reachable = collectReachableBlobIds({
+				rootBlobIds,
+				metadata,
+				pendingBlobIds,
+			});
+			console.log(`[BlobGC] ${reachable.size} reachable blob(s)`);
+
+			// Sweep: journal entries that are not reachable
+			const candidates = findOrphanedBlobs(loadUploadJournal(owner), reachable);
+			const found = await pruneStaleEntries(owner, candidates);
+			console.log(`[BlobGC] ${found.length} orphaned blob(s)`);
+
+			setOrphans(found);
+			setProgress("idle");
+			return found;
+		} catch (err) {
+			console.error("[BlobGC] Scan failed:", err);
+			const errorMessage =
+				err instanceof Error
+					? err.message
+					: "Failed to scan for orphaned blobs";
+			setError(errorMessage);
+			setProgress("error");
+			throw new Error(errorMessage);
+		}
+	}, [passport, sessionKey, currentAccount, suiClient, pruneStaleEntries]);
+
+	/**
+	 * Delete the given orphaned blob objects
+	 */
+	const deleteOrphans = useCallback(
+		async (objectIds: string[]): Promise<void> => {
+			if (!currentAccount?.address) {
+				throw new Error("Wallet not connected");
+			}
+
+			// Only objects found by the last scan may be deleted
+			const orphanIds = new Set(orphans.map((entry) => entry.objectId));
+			const targets = objectIds.filter((id) => orphanIds.has(id));
+			if (targets.length === 0) {
+				return;
+			}
+
+			setProgress("deleting");
+			setError(null);
+
+			try {
+				const owner = currentAccount.address;
+				const tx = await buildDeleteBlobsTransaction({
+					suiClient,
+					blobObjectIds: targets,
+					owner,
+				});
+
+				console.log(`[BlobGC] Deleting ${targets.length} blob object(s)...`);
+				const result = await signAndExecuteTransaction({ transaction: tx });
+				await suiClient.waitForTransaction({
+					digest: result.digest,
+					options: { showEffects: true },
+				});
+				console.log(`[BlobGC] Deletion finalized: ${result.digest}`);
+
+				removeFromUploadJournal(owner, targets);
+				const deleted = new Set(targets);
+				setOrphans((prev) =>
+					prev.filter((entry) => !deleted.has(entry.objectId)),
+				);
+				setProgress("completed");
+			} catch (err) {
+				console.error("[BlobGC] Deletion failed:", err);
+				const errorMessage =
+					err instanceof Error ? err.message : "Failed to delete blobs";
+				setError(errorMessage);
+				setProgress("error");
+				throw new Error(errorMessage);
+			}
+		},
+		[currentAccount, orphans, suiClient, signAndExecuteTransaction],
+	);
+
+	return {
+		scan,
+		deleteOrphans,
+		orphans,
+		isReady: Boolean(passport && sessionKey && currentAccount),
+		progress,
+		error,
+	};
+}
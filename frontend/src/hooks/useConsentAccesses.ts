@@ -0,0 +1,83 @@
+/**
+ * useConsentAccesses Hook
+ *
+ * Access history of the patient's consent tokens (lib/consentAccessLog.ts),
+ * grouped per token for the active shares screen.
+ *
+ * ## Usage
+ * ```typescript
+ * const { tokens } = useConsentTokens();
+ * const { accessesByToken } = useConsentAccesses(tokens.map((t) => t.id));
+ * ```
+ */
+"use client";
+
+import { useSuiClient } from "@mysten/dapp-kit";
+import { useCallback, useEffect, useState } from "react";
+import {
+	type ConsentAccessRecord,
+	listConsentAccesses,
+} from "@/lib/consentAccessLog";
+
+/**
+ * Hook return type
+ */
+export interface UseConsentAccessesReturn {
+	/** Accesses per ConsentToken ID, newest first */
+	accessesByToken: Record<string, ConsentAccessRecord[]>;
+	/** Reload the accesses */
+	refresh: () => Promise<void>;
+	/** Whether the accesses are loading */
+	isLoading: boolean;
+	/** Error message of the last load */
+	error: string | null;
+}
+
+/**
+ * Consent access history hook
+ *
+ * @param tokenIds - ConsentToken object IDs
+ * @returns Accesses grouped by token
+ */
+export function useConsentAccesses(
+	tokenIds: string[],
+): UseConsentAccessesReturn {
+	const suiClient = useSuiClient();
+	const [accessesByToken, setAccessesByToken] = useState<
+		Record<string, ConsentAccessRecord[]>
+	>({});
+	const [isLoading, setIsLoading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	// Stable dependency for the token list
+	const tokenKey = tokenIds.join(",");
+
+	const refresh = useCallback(async () => {
+		const ids = tokenKey ? tokenKey.split(",") : [];
+		if (ids.length === 0) {
+			setAccessesByToken({});
+			return;
+		}
+		setIsLoading(true);
+		setError(null);
+		try {
+			const records = await listConsentAccesses({ suiClient, tokenIds: ids });
+			const grouped: Record<string, ConsentAccessRecord[]> = {};
+			for (const record of records) {
+				grouped[record.tokenId] = [...(grouped[record.tokenId] ?? []), record];
+			}
+			setAccessesByToken(grouped);
+		} catch (err) {
+			console.error("[ConsentAccessLog] Load failed:", err);
+			setError(err instanceof Error ? err.message : String(err));
+		} finally {
+			setIsLoading(false);
+		}
+	}, [tokenKey, suiClient]);
+
+	useEffect(() => {
+		void refresh();
+	}, [refresh]);
+
+	return { accessesByToken, refresh, isLoading, error };
+}
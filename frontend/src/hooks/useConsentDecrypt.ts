@@ -1,16 +1,20 @@
 "use client";
 
-import { useSuiClient } from "@mysten/dapp-kit";
+import { useSignAndExecuteTransaction, useSuiClient } from "@mysten/dapp-kit";
 import type { SessionKey } from "@mysten/seal";
-import { useCallback, useState } from "react";
+import { useCallback, useRef, useState } from "react";
+import { downloadVerifiedBlob } from "@/lib/blobIntegrity";
+import {
+	buildAccessLogTransaction,
+	type ConsentAccessAttempt,
+} from "@/lib/consentAccessLog";
 import {
 	buildConsentAccessPTB,
 	buildSealAuthPayloadBytes,
 	createSealClient,
 	decryptHealthData,
 } from "@/lib/seal";
-import { downloadFromWalrusByBlobId } from "@/lib/walrus";
-import type { HealthData } from "@/types/healthData";
+import type { DataType, HealthData } from "@/types/healthData";
 
 export type ConsentDecryptionStage =
 	| "idle"
@@ -29,6 +33,12 @@ export interface ConsentDecryptionParams {
 	dataType: string;
 	secret: string;
 	sessionKey: SessionKey;
+	/** Expected SHA-256 of the encrypted blob (metadata entry sha256) */
+	sha256?: string;
+	/** Partition key value, used to describe integrity errors */
+	partition?: string;
+	/** Token scope recorded in the access log (defaults to dataType) */
+	accessScope?: string;
 }
 
 export interface ConsentDecryptionResult {
@@ -40,6 +50,8 @@ export interface UseConsentDecryptReturn {
 	decryptWithConsent: (
 		params: ConsentDecryptionParams,
 	) => Promise<ConsentDecryptionResult>;
+	/** Record the attempts made since the last flush on-chain (one transaction per token) */
+	flushAccessLog: () => Promise<void>;
 	stage: ConsentDecryptionStage;
 	error: string | null;
 	reset: () => void;
@@ -48,15 +60,29 @@ export interface UseConsentDecryptReturn {
 /**
  * Decrypt Walrus blob with Seal consent flow
  *
- * 1. Download encrypted blob
+ * 1. Download encrypted blob (verified when sha256 is given)
  * 2. Build SealAuthPayload (secret + passportId + scope)
  * 3. Build PTB for `seal_approve_consent`
  * 4. Decrypt with Seal + SessionKey
+ *
+ * Attempts that reach the key servers are kept until `flushAccessLog`
+ * records them for the patient (lib/consentAccessLog.ts).
  */
 export function useConsentDecrypt(): UseConsentDecryptReturn {
 	const suiClient = useSuiClient();
+	const { mutateAsync: signAndExecuteTransaction } =
+		useSignAndExecuteTransaction();
 	const [stage, setStage] = useState<ConsentDecryptionStage>("idle");
 	const [error, setError] = useState<string | null>(null);
+	const pendingAttempts = useRef(new Map<string, ConsentAccessAttempt[]>());
+
+	const recordAttempt = useCallback(
+		(tokenId: string, attempt: ConsentAccessAttempt) => {
+			const attempts = pendingAttempts.current.get(tokenId) ?? [];
+			pendingAttempts.current.set(tokenId, [...attempts, attempt]);
+		},
+		[],
+	);
 
 	const reset = useCallback(() => {
 		setStage("idle");
@@ -75,6 +101,9 @@ export function useConsentDecrypt(): UseConsentDecryptReturn {
 				dataType,
 				secret,
 				sessionKey,
+				sha256,
+				partition,
+				accessScope = dataType,
 			} = params;
 
 			setStage("fetching");
@@ -82,7 +111,11 @@ export function useConsentDecrypt(): UseConsentDecryptReturn {
 
 			try {
 				// 1. Walrus download
-				const encryptedData = await downloadFromWalrusByBlobId(blobId);
+				const encryptedData = await downloadVerifiedBlob(blobId, {
+					sha256,
+					dataType: dataType as DataType,
+					partition,
+				});
 
 				// 2. Build SealAuthPayload
 				setStage("building_ptb");
@@ -105,13 +138,23 @@ export function useConsentDecrypt(): UseConsentDecryptReturn {
 				// 4. Decrypt with Seal (using seal_id from EntryData)
 				setStage("decrypting");
 				const sealClient = createSealClient(suiClient);
-				const data = await decryptHealthData({
-					encryptedData,
-					sealClient,
-					sessionKey,
-					txBytes,
-					sealId, // Pass seal_id for verification
-				});
+				let data: HealthData;
+				try {
+					data = await decryptHealthData({
+						encryptedData,
+						sealClient,
+						sessionKey,
+						txBytes,
+						sealId, // Pass seal_id for verification
+					});
+				} catch (decryptError) {
+					recordAttempt(consentTokenId, {
+						scope: accessScope,
+						success: false,
+					});
+					throw decryptError;
+				}
+				recordAttempt(consentTokenId, { scope: accessScope, success: true });
 
 				setStage("completed");
 				return { data, blobId };
@@ -123,11 +166,31 @@ export function useConsentDecrypt(): UseConsentDecryptReturn {
 				throw err;
 			}
 		},
-		[suiClient],
+		[suiClient, recordAttempt],
 	);
 
+	const flushAccessLog = useCallback(async () => {
+		const pending = [...pendingAttempts.current];
+		pendingAttempts.current.clear();
+
+		for (const [tokenId, attempts] of pending) {
+			try {
+				const result = await signAndExecuteTransaction({
+					transaction: buildAccessLogTransaction(tokenId, attempts),
+				});
+				console.log(
+					`[ConsentAccessLog] Recorded ${attempts.length} attempt(s): ${result.digest}`,
+				);
+			} catch (err) {
+				// The record is best effort; the fetched data stays usable
+				console.warn("[ConsentAccessLog] Failed to record access:", err);
+			}
+		}
+	}, [signAndExecuteTransaction]);
+
 	return {
 		decryptWithConsent,
+		flushAccessLog,
 		stage,
 		error,
 		reset,
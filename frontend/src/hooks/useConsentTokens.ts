@@ -0,0 +1,112 @@
+/**
+ * useConsentTokens Hook
+ *
+ * Consent tokens granted from the connected wallet's passport
+ * (lib/consentTokens.ts) and their revocation.
+ *
+ * ## Usage
+ * ```typescript
+ * const { tokens, revoke } = useConsentTokens();
+ *
+ * await revoke(tokens.filter((t) => t.isActive).map((t) => t.id));
+ * ```
+ */
+"use client";
+
+import { useCurrentAccount, useSuiClient } from "@mysten/dapp-kit";
+import { useCallback, useEffect, useState } from "react";
+import { usePassport } from "@/hooks/usePassport";
+import { useSponsoredTransaction } from "@/hooks/useSponsoredTransaction";
+import {
+	buildRevokeConsentTokensTransaction,
+	type ConsentTokenInfo,
+	listConsentTokens,
+} from "@/lib/consentTokens";
+
+/**
+ * Hook return type
+ */
+export interface UseConsentTokensReturn {
+	/** Tokens granted from the passport, newest first */
+	tokens: ConsentTokenInfo[];
+	/** Reload the tokens */
+	refresh: () => Promise<void>;
+	/** Revoke tokens in one transaction */
+	revoke: (tokenIds: string[]) => Promise<void>;
+	/** Whether the tokens are loading */
+	isLoading: boolean;
+	/** Token IDs being revoked */
+	revoking: string[];
+	/** Error message of the last load or revocation */
+	error: string | null;
+}
+
+/**
+ * Consent token management hook
+ *
+ * @returns Tokens and revocation controls
+ */
+export function useConsentTokens(): UseConsentTokensReturn {
+	const suiClient = useSuiClient();
+	const currentAccount = useCurrentAccount();
+	const { passport } = usePassport();
+	const { signAndExecuteTransaction } = useSponsoredTransaction();
+
+	const [tokens, setTokens] = useState<ConsentTokenInfo[]>([]);
+	const [isLoading, setIsLoading] = useState(false);
+	const [revoking, setRevoking] = useState<string[]>([]);
+	const [error, setError] = useState<string | null>(null);
+
+	const owner = currentAccount?.address ?? null;
+	const passportId = passport?.id ?? null;
+
+	const refresh = useCallback(async () => {
+		if (!owner || !passportId) {
+			setTokens([]);
+			return;
+		}
+		setIsLoading(true);
+		setError(null);
+		try {
+			setTokens(await listConsentTokens({ suiClient, owner, passportId }));
+		} catch (err) {
+			console.error("[ConsentTokens] Load failed:", err);
+			setError(err instanceof Error ? err.message : String(err));
+		} finally {
+			setIsLoading(false);
+		}
+	}, [owner, passportId, suiClient]);
+
+	useEffect(() => {
+		void refresh();
+	}, [refresh]);
+
+	const revoke = useCallback(
+		async (tokenIds: string[]) => {
+			if (tokenIds.length === 0) {
+				return;
+			}
+			setRevoking(tokenIds);
+			setError(null);
+			try {
+				const result = await signAndExecuteTransaction({
+					transaction: buildRevokeConsentTokensTransaction(tokenIds),
+				});
+				await suiClient.waitForTransaction({ digest: result.digest });
+				console.log(
+					`[ConsentTokens] Revoked ${tokenIds.length} token(s): ${result.digest}`,
+				);
+				await refresh();
+			} catch (err) {
+				console.error("[ConsentTokens] Revocation failed:", err);
+				setError(err instanceof Error ? err.message : String(err));
+				throw err;
+			} finally {
+				setRevoking([]);
+			}
+		},
+		[signAndExecuteTransaction, suiClient, refresh],
+	);
+
+	return { tokens, refresh, revoke, isLoading, revoking, error };
+}
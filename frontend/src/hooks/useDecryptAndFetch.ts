@@ -5,7 +5,7 @@
  * Uses metadata blob architecture for efficient data access.
  *
  * ## Features
- * - Download encrypted data from Walrus
+ * - Download encrypted data from Walrus (verified against the entry's SHA-256)
  * - Retrieve seal_id from MedicalPassport Dynamic Fields (EntryData.seal_id)
  * - Build PTB for access control verification
  * - Decrypt with Seal using SessionKey
@@ -44,6 +44,11 @@
 import { useCurrentAccount, useSuiClient } from "@mysten/dapp-kit";
 import type { SessionKey } from "@mysten/seal";
 import { useCallback, useState } from "react";
+import {
+	BlobIntegrityError,
+	downloadVerifiedBlob,
+	getEntryPartitionKey,
+} from "@/lib/blobIntegrity";
 import { decryptImagingBinaryInternal } from "@/lib/imagingBinary";
 import {
 	buildPatientAccessPTB,
@@ -109,6 +114,10 @@ export interface DirectDecryptionParams {
 	passportId: string;
 	/** PassportRegistry object ID (optional, defaults to env) */
 	registryId?: string;
+	/** Expected SHA-256 of the encrypted blob (metadata entry sha256) */
+	sha256?: string;
+	/** Partition key value, used to describe integrity errors */
+	partition?: string;
 }
 
 /**
@@ -203,9 +212,19 @@ export function useDecryptAndFetch(): UseDecryptAndFetchReturn {
 			sessionKey: SessionKey;
 			passportId: string;
 			registryId?: string;
+			sha256?: string;
+			partition?: string;
 		}): Promise<DecryptedData<T>> => {
-			const { blobId, sealId, dataType, sessionKey, passportId, registryId } =
-				params;
+			const {
+				blobId,
+				sealId,
+				dataType,
+				sessionKey,
+				passportId,
+				registryId,
+				sha256,
+				partition,
+			} = params;
 
 			// Get registry ID from environment if not provided
 			const effectiveRegistryId = registryId || PASSPORT_REGISTRY_ID;
@@ -218,7 +237,11 @@ export function useDecryptAndFetch(): UseDecryptAndFetchReturn {
 			setProgress("fetching");
 			console.log(`[DecryptAndFetch] Fetching blob: ${blobId}...`);
 
-			const encryptedData = await downloadFromWalrusByBlobId(blobId);
+			const encryptedData = await downloadVerifiedBlob(blobId, {
+				sha256,
+				dataType,
+				partition,
+			});
 
 			console.log(`[DecryptAndFetch] Downloaded ${encryptedData.length} bytes`);
 
@@ -459,16 +482,9 @@ export function useDecryptAndFetch(): UseDecryptAndFetchReturn {
 					metadata.entries.length > 0
 				) {
 					// Find entry by partition key value
-					targetEntry = metadata.entries.find((entry) => {
-						// Check common partition keys
-						const e = entry as unknown as Record<string, unknown>;
-						return (
-							e.month_key === partitionKeyValue ||
-							e.prescription_id === partitionKeyValue ||
-							e.test_date === partitionKeyValue ||
-							e.study_id === partitionKeyValue
-						);
-					});
+					targetEntry = metadata.entries.find(
+						(entry) => getEntryPartitionKey(entry) === partitionKeyValue,
+					);
 				}
 
 				if (!targetEntry && metadata.entries && metadata.entries.length > 0) {
@@ -492,6 +508,8 @@ export function useDecryptAndFetch(): UseDecryptAndFetchReturn {
 					sessionKey,
 					passportId,
 					registryId,
+					sha256: targetEntry.sha256,
+					partition: getEntryPartitionKey(targetEntry),
 				});
 			} catch (err) {
 				console.error("[DecryptAndFetch] Operation failed:", err);
@@ -503,7 +521,8 @@ export function useDecryptAndFetch(): UseDecryptAndFetchReturn {
 						: "Failed to fetch and decrypt data";
 				setError(errorMessage);
 
-				throw new Error(errorMessage);
+				// Integrity errors keep their type so callers can tell them apart
+				throw err instanceof BlobIntegrityError ? err : new Error(errorMessage);
 			}
 		},
 		[suiClient, currentAccount, decryptInternal],
@@ -516,8 +535,16 @@ export function useDecryptAndFetch(): UseDecryptAndFetchReturn {
 		async <T extends DataType>(
 			params: DirectDecryptionParams & { dataType: T },
 		): Promise<DecryptedData<T>> => {
-			const { blobId, sealId, dataType, sessionKey, passportId, registryId } =
-				params;
+			const {
+				blobId,
+				sealId,
+				dataType,
+				sessionKey,
+				passportId,
+				registryId,
+				sha256,
+				partition,
+			} = params;
 
 			setProgress("fetching");
 			setError(null);
@@ -534,6 +561,8 @@ export function useDecryptAndFetch(): UseDecryptAndFetchReturn {
 					sessionKey,
 					passportId,
 					registryId,
+					sha256,
+					partition,
 				});
 			} catch (err) {
 				console.error("[DecryptAndFetch] Operation failed:", err);
@@ -545,7 +574,8 @@ export function useDecryptAndFetch(): UseDecryptAndFetchReturn {
 						: "Failed to fetch and decrypt data";
 				setError(errorMessage);
 
-				throw new Error(errorMessage);
+				// Integrity errors keep their type so callers can tell them apart
+				throw err instanceof BlobIntegrityError ? err : new Error(errorMessage);
 			}
 		},
 		[decryptInternal],
@@ -15,7 +15,7 @@
  * ## Encryption Flow
  * 1. Validate HealthData against schema
  * 2. Generate seal_id from wallet address and data type (scoped)
- * 3. Encrypt HealthData with Seal (2-of-n threshold)
+ * 3. Encrypt HealthData with Seal (configured t-of-n threshold)
  * 4. Upload encrypted blob to Walrus
  * 5. Return walrus_blob_id and seal_id for on-chain storage
  *
@@ -42,12 +42,12 @@ import { useCurrentAccount, useSuiClient } from "@mysten/dapp-kit";
 import { useCallback, useState } from "react";
 import { encryptAndStoreImagingBinary } from "@/lib/imagingBinary";
 import {
-	calculateThreshold,
 	createSealClient,
 	encryptHealthData,
-	SEAL_KEY_SERVERS,
+	getSealKeyServerConfig,
+	getSealThreshold,
 } from "@/lib/seal";
-import { generateSealId } from "@/lib/sealIdGenerator";
+import { resolveSealId } from "@/lib/sealIdRotation";
 import {
 	HealthDataValidationError,
 	validateBasicProfileData,
@@ -70,6 +70,7 @@ import type {
 	MedicationsData,
 	SelfMetricsData,
 } from "@/types/healthData";
+import type { ChunkManifest } from "@/types/metadata";
 
 /**
  * Encryption and storage progress stages
@@ -107,6 +108,16 @@ export interface EncryptionResult {
 	sealId: string;
 	/** Backup encryption key (optional, for recovery) */
 	backupKey?: Uint8Array;
+	/** Last Walrus epoch the blob is stored for */
+	endEpoch?: number;
+	/** Chunk manifest when the encrypted payload exceeded MAX_BLOB_SIZE */
+	manifest?: ChunkManifest;
+	/** SHA-256 (hex) of the encrypted payload */
+	sha256?: string;
+	/** Stored (encrypted) size in bytes */
+	size: number;
+	/** Bytes saved by compressing the payload before encryption */
+	savedBytes: number;
 }
 
 /**
@@ -119,6 +130,16 @@ export interface ImageEncryptionResult {
 	contentType: string;
 	/** Original file size in bytes */
 	size: number;
+	/** Stored (encrypted) size in bytes */
+	storedSize: number;
+	/** Bytes saved by compressing the image before encryption */
+	savedBytes: number;
+	/** Last Walrus epoch the blob is stored for */
+	endEpoch?: number;
+	/** Chunk manifest when the encrypted image exceeded MAX_BLOB_SIZE */
+	manifest?: ChunkManifest;
+	/** SHA-256 (hex) of the encrypted image */
+	sha256?: string;
 }
 
 /**
@@ -134,7 +155,7 @@ export interface UseEncryptAndStoreReturn {
 	encryptAndStoreMultiple: (
 		dataItems: Array<{ data: HealthDataTypes; dataType: DataType }>,
 	) => Promise<EncryptionResult[]>;
-	/** Encrypt image file and upload to Walrus (seal_id auto-generated for "imaging_binary") */
+	/** Encrypt image file and upload to Walrus (seal_id resolved for "imaging_binary") */
 	encryptImage: (file: File) => Promise<ImageEncryptionResult>;
 	/** Decrypt multiple blob IDs and return the data */
 	decryptMultiple: (
@@ -212,11 +233,14 @@ export function useEncryptAndStore(): UseEncryptAndStoreReturn {
 					"[EncryptAndStore] Validation passed, proceeding with encryption...",
 				);
 
-				// Step 2: Generate scoped seal_id from wallet address and dataType
+				// Step 2: Resolve scoped seal_id (on-chain, or derived from wallet address and dataType)
 				setProgress("generating_seal_id");
-				const sealId = await generateSealId(currentAccount.address, dataType);
+				const sealId = await resolveSealId({
+					address: currentAccount.address,
+					dataType,
+				});
 				console.log(
-					`[EncryptAndStore] Generated seal_id for ${dataType}: ${sealId.substring(0, 16)}...`,
+					`[EncryptAndStore] Resolved seal_id for ${dataType}: ${sealId.substring(0, 16)}...`,
 				);
 
 				// Step 3: Create Seal client
@@ -224,19 +248,20 @@ export function useEncryptAndStore(): UseEncryptAndStoreReturn {
 				const sealClient = createSealClient(suiClient);
 
 				// Step 4: Calculate threshold based on number of key servers
-				const threshold = calculateThreshold(SEAL_KEY_SERVERS.length);
+				const threshold = getSealThreshold();
 
 				console.log(
-					`[EncryptAndStore] Encrypting HealthData with Seal (threshold: ${threshold}, servers: ${SEAL_KEY_SERVERS.length})...`,
+					`[EncryptAndStore] Encrypting HealthData with Seal (threshold: ${threshold}, servers: ${getSealKeyServerConfig().servers.length})...`,
 				);
 
 				// Step 5: Encrypt HealthData
-				const { encryptedObject, backupKey } = await encryptHealthData({
-					healthData,
-					sealClient,
-					sealId,
-					threshold,
-				});
+				const { encryptedObject, backupKey, savedBytes } =
+					await encryptHealthData({
+						healthData,
+						sealClient,
+						sealId,
+						threshold,
+					});
 
 				console.log(
 					`[EncryptAndStore] Encryption complete, size: ${encryptedObject.length} bytes`,
@@ -246,7 +271,10 @@ export function useEncryptAndStore(): UseEncryptAndStoreReturn {
 				setProgress("uploading");
 				console.log("[EncryptAndStore] Uploading to Walrus...");
 
-				const walrusRef = await uploadToWalrus(encryptedObject);
+				const walrusRef = await uploadToWalrus(encryptedObject, {
+					owner: currentAccount.address,
+					dataType: dataType as DataType,
+				});
 
 				console.log(
 					`[EncryptAndStore] Upload complete, blobId: ${walrusRef.blobId}`,
@@ -260,6 +288,11 @@ export function useEncryptAndStore(): UseEncryptAndStoreReturn {
 					dataType,
 					sealId,
 					backupKey,
+					endEpoch: walrusRef.endEpoch,
+					manifest: walrusRef.manifest,
+					sha256: walrusRef.sha256,
+					size: walrusRef.size,
+					savedBytes,
 				};
 			} catch (err) {
 				console.error("[EncryptAndStore] Operation failed:", err);
@@ -373,17 +406,20 @@ export function useEncryptAndStore(): UseEncryptAndStoreReturn {
 					"[EncryptAndStoreMultiple] All validations passed, proceeding with batch encryption...",
 				);
 
-				// Step 2: Generate unique seal_id for each item based on its dataType
+				// Step 2: Resolve the seal_id of each item based on its dataType
 				setProgress("generating_seal_id");
 				const itemsWithSealId = await Promise.all(
 					dataItems.map(async (item) => ({
 						...item,
-						sealId: await generateSealId(currentAccount.address, item.dataType),
+						sealId: await resolveSealId({
+							address: currentAccount.address,
+							dataType: item.dataType,
+						}),
 					})),
 				);
 
 				console.log(
-					`[EncryptAndStoreMultiple] Generated ${itemsWithSealId.length} unique seal_ids for each dataType`,
+					`[EncryptAndStoreMultiple] Resolved ${itemsWithSealId.length} seal_ids for each dataType`,
 				);
 
 				// Step 3: Create Seal client
@@ -391,7 +427,7 @@ export function useEncryptAndStore(): UseEncryptAndStoreReturn {
 				const sealClient = createSealClient(suiClient);
 
 				// Step 4: Calculate threshold
-				const threshold = calculateThreshold(SEAL_KEY_SERVERS.length);
+				const threshold = getSealThreshold();
 
 				console.log(
 					`[EncryptAndStoreMultiple] Batch encrypting ${dataItems.length} items with Seal (threshold: ${threshold})...`,
@@ -399,19 +435,23 @@ export function useEncryptAndStore(): UseEncryptAndStoreReturn {
 
 				// Step 5: Encrypt all items in parallel (each with its own seal_id)
 				const encryptionPromises = itemsWithSealId.map(async (item) => {
-					const { encryptedObject, backupKey } = await encryptHealthData({
-						healthData: item.data,
-						sealClient,
-						sealId: item.sealId,
-						threshold,
-					});
+					const { encryptedObject, backupKey, savedBytes } =
+						await encryptHealthData({
+							healthData: item.data,
+							sealClient,
+							sealId: item.sealId,
+							threshold,
+						});
 
 					console.log(
 						`[EncryptAndStoreMultiple] Encrypted ${item.dataType}, size: ${encryptedObject.length} bytes`,
 					);
 
 					// Step 6: Upload to Walrus
-					const walrusRef = await uploadToWalrus(encryptedObject);
+					const walrusRef = await uploadToWalrus(encryptedObject, {
+						owner: currentAccount.address,
+						dataType: item.dataType,
+					});
 
 					console.log(
 						`[EncryptAndStoreMultiple] Uploaded ${item.dataType}, blobId: ${walrusRef.blobId}`,
@@ -422,6 +462,11 @@ export function useEncryptAndStore(): UseEncryptAndStoreReturn {
 						dataType: item.dataType,
 						sealId: item.sealId,
 						backupKey,
+						endEpoch: walrusRef.endEpoch,
+						manifest: walrusRef.manifest,
+						sha256: walrusRef.sha256,
+						size: walrusRef.size,
+						savedBytes,
 					};
 				});
 
@@ -523,12 +568,10 @@ export function useEncryptAndStore(): UseEncryptAndStoreReturn {
 
 	/**
 	 * Encrypt image file and upload to Walrus
-	 * seal_id is automatically generated with "imaging_binary" scope
+	 * seal_id is resolved for the "imaging_binary" scope (on-chain, or derived)
 	 */
 	const encryptImage = useCallback(
-		async (
-			file: File,
-		): Promise<{ blobId: string; contentType: string; size: number }> => {
+		async (file: File): Promise<ImageEncryptionResult> => {
 			if (!currentAccount?.address) {
 				throw new Error("Wallet not connected");
 			}
@@ -0,0 +1,229 @@
+/**
+ * useEntrySharing Hook (v3.0.0)
+ *
+ * Lists the entries of a data type for the share screen and gives picked
+ * entries their own entry seal_id (lib/entrySharing.ts) so a consent token
+ * can be scoped to them alone.
+ *
+ * Entries are only decrypted after the passkey check (lib/passkeyGate.ts),
+ * as AppContext does before it shows records.
+ *
+ * ## Isolation Flow
+ * 1. Load EntryData and metadata
+ * 2. For each picked entry still under the data type seal_id: decrypt,
+ *    re-encrypt under a new entry seal_id and upload
+ * 3. Re-encrypt the metadata with the new blob references and
+ *    replace_data_entry (seal_id unchanged)
+ *
+ * Entries that already have an entry seal_id are reused as they are.
+ * Superseded blobs are left for storage cleanup.
+ *
+ * ## Usage
+ * ```typescript
+ * const { loadEntries, isolateEntries } = useEntrySharing();
+ *
+ * const loaded = await loadEntries("lab_results");
+ * const refs = await isolateEntries("lab_results", [loaded.metadata.entries[0].blob_id]);
+ * ```
+ */
+"use client";
+
+import { useCurrentAccount, useSuiClient } from "@mysten/dapp-kit";
+import { useCallback } from "react";
+import { usePassport } from "@/hooks/usePassport";
+import { useSessionKeyManager } from "@/hooks/useSessionKeyManager";
+import { useUpdatePassportData } from "@/hooks/useUpdatePassportData";
+import { downloadEntryBlob } from "@/lib/blobIntegrity";
+import {
+	replaceEntryBlob,
+	type SharedEntryRef,
+	toSharedEntryRef,
+} from "@/lib/entrySharing";
+import {
+	type LoadedMetadata,
+	loadPassportMetadata,
+} from "@/lib/metadataLoader";
+import { checkPasskeyAccess } from "@/lib/passkeyGate";
+import {
+	buildPatientAccessPTB,
+	createSealClient,
+	decryptHealthData,
+	encryptHealthData,
+	getSealThreshold,
+} from "@/lib/seal";
+import { deriveEntrySealId, generateEntryNonce } from "@/lib/sealIdGenerator";
+import { getDataEntry, PASSPORT_REGISTRY_ID } from "@/lib/suiClient";
+import { toEntryBlobFields, uploadToWalrus } from "@/lib/walrus";
+import type { DataType } from "@/types/healthData";
+
+/**
+ * Hook return type
+ */
+export interface UseEntrySharingReturn {
+	/** Load the entries of a data type after the passkey check (null if it has no data) */
+	loadEntries: (dataType: DataType) => Promise<LoadedMetadata | null>;
+	/** Give picked entries (by blob_id) their own seal_id and return their references */
+	isolateEntries: (
+		dataType: DataType,
+		blobIds: string[],
+	) => Promise<SharedEntryRef[]>;
+	/** Whether passport and session key are available */
+	isReady: boolean;
+}
+
+/**
+ * Entry sharing hook
+ *
+ * @returns Entry loading and isolation
+ */
+export function useEntrySharing(): UseEntrySharingReturn {
+	const suiClient = useSuiClient();
+	const currentAccount = useCurrentAccount();
+	const { passport } = usePassport();
+	const { sessionKey } = useSessionKeyManager();
+	const { updatePassportData } = useUpdatePassportData();
+
+	const owner = currentAccount?.address ?? null;
+
+	const loadEntries = useCallback(
+		async (dataType: DataType): Promise<LoadedMetadata | null> => {
+			if (!passport || !sessionKey || !owner) {
+				throw new Error("Prerequisites not met");
+			}
+			// Ask for the passkey before decrypting (if one is registered)
+			const allowed = await checkPasskeyAccess(owner, [dataType]);
+			if (!allowed.includes(dataType)) {
+				throw new Error(`Passkey check failed, ${dataType} stays hidden`);
+			}
+			return loadPassportMetadata({
+				suiClient,
+				sessionKey,
+				passportId: passport.id,
+				dataType,
+			});
+		},
+		[passport, sessionKey, owner, suiClient],
+	);
+
+	const isolateEntries = useCallback(
+		async (
+			dataType: DataType,
+			blobIds: string[],
+		): Promise<SharedEntryRef[]> => {
+			if (!passport || !sessionKey || !owner) {
+				throw new Error("Prerequisites not met");
+			}
+			if (blobIds.length === 0) {
+				return [];
+			}
+
+			try {
+				// Step 1: Current EntryData and metadata
+				const loaded = await loadEntries(dataType);
+				if (!loaded) {
+					throw new Error(`No ${dataType} data to share`);
+				}
+				const { entry } = loaded;
+				let { metadata } = loaded;
+				const picked = metadata.entries.filter((e) =>
+					blobIds.includes(e.blob_id),
+				);
+				if (picked.length !== blobIds.length) {
+					throw new Error(`Some ${dataType} entries no longer exist`);
+				}
+
+				// Step 2: Re-encrypt entries still under the data type seal_id
+				const pending = picked.filter((e) => !e.seal_id);
+				if (pending.length > 0) {
+					const sealClient = createSealClient(suiClient);
+					const threshold = getSealThreshold();
+					const txBytes = await buildPatientAccessPTB({
+						passportObjectId: passport.id,
+						registryObjectId: PASSPORT_REGISTRY_ID,
+						suiClient,
+						sealId: entry.sealId,
+						dataType,
+					});
+
+					for (const metadataEntry of pending) {
+						const encryptedData = await downloadEntryBlob(
+							metadataEntry,
+							dataType,
+						);
+						const healthData = await decryptHealthData({
+							encryptedData,
+							sealClient,
+							sessionKey,
+							txBytes,
+							sealId: entry.sealId,
+						});
+						const sealId = deriveEntrySealId(
+							entry.sealId,
+							generateEntryNonce(),
+						);
+						const { encryptedObject } = await encryptHealthData({
+							healthData,
+							sealClient,
+							sealId,
+							threshold,
+						});
+						const ref = await uploadToWalrus(encryptedObject, {
+							owner,
+							dataType,
+						});
+						metadata = replaceEntryBlob(metadata, metadataEntry.blob_id, {
+							...toEntryBlobFields(ref),
+							seal_id: sealId,
+						});
+						console.log(
+							`[EntrySharing] ${dataType} entry ${metadataEntry.blob_id} → ${ref.blobId}`,
+						);
+					}
+
+					// Step 3: Metadata with the new references, same seal_id
+					const { encryptedObject } = await encryptHealthData({
+						healthData: metadata as unknown as never,
+						sealClient,
+						sealId: entry.sealId,
+						threshold,
+					});
+					const metadataRef = await uploadToWalrus(encryptedObject, {
+						owner,
+						dataType,
+					});
+					const current = await getDataEntry(passport.id, dataType);
+					if (current?.metadataBlobId !== entry.metadataBlobId) {
+						throw new Error(
+							`${dataType} was changed while preparing the share; try again`,
+						);
+					}
+					await updatePassportData({
+						passportId: passport.id,
+						dataType,
+						metadataBlobId: metadataRef.blobId,
+						replace: true,
+						sealId: entry.sealId,
+						expectedMetadataBlobId: entry.metadataBlobId,
+					});
+				}
+
+				// Re-encrypted entries were replaced in place, so indices still match
+				return metadata.entries
+					.filter((_, index) =>
+						blobIds.includes(loaded.metadata.entries[index].blob_id),
+					)
+					.map((e) => toSharedEntryRef(dataType, e, entry.sealId));
+			} catch (err) {
+				console.error("[EntrySharing] Failed to isolate entries:", err);
+				throw err;
+			}
+		},
+		[passport, sessionKey, owner, suiClient, loadEntries, updatePassportData],
+	);
+
+	return {
+		loadEntries,
+		isolateEntries,
+		isReady: !!passport && !!sessionKey,
+	};
+}
@@ -11,6 +11,7 @@
  * ## アーキテクチャ
  * - SBT DataEntry → メタデータBlob → データBlob[] の2層構造
  * - 同じデータ種のメタデータとデータBlobは全て同一seal_idで暗号化
+ *   （個別共有したエントリのみエントリ専用seal_id、lib/entrySharing.ts 参照）
  */
 "use client";
 
@@ -19,18 +20,18 @@ import { useCallback, useMemo } from "react";
 import { usePassport } from "@/hooks/usePassport";
 import { useSessionKeyManager } from "@/hooks/useSessionKeyManager";
 import { useUpdatePassportData } from "@/hooks/useUpdatePassportData";
+import { downloadEntryBlob } from "@/lib/blobIntegrity";
 import {
 	buildPatientAccessPTB,
-	calculateThreshold,
 	createSealClient,
 	decryptHealthData,
 	encryptHealthData,
-	SEAL_KEY_SERVERS,
+	getSealThreshold,
 } from "@/lib/seal";
-import { generateSealId } from "@/lib/sealIdGenerator";
+import { resolveSealId } from "@/lib/sealIdRotation";
 import { getDataEntry, PASSPORT_REGISTRY_ID } from "@/lib/suiClient";
 import { downloadFromWalrusByBlobId, uploadToWalrus } from "@/lib/walrus";
-import type { DataType } from "@/types/healthData";
+import type { DataType, WalrusBlobReference } from "@/types/healthData";
 import {
 	type BaseMetadata,
 	type BaseMetadataEntry,
@@ -62,8 +63,11 @@ export interface MetadataManager<TEntry extends BaseMetadataEntry> {
 	/** 特定entryのデータBlob復号化 */
 	loadDataBlob: <TData>(entry: TEntry) => Promise<TData>;
 
-	/** データBlobの暗号化・アップロード（blobId返却） */
-	uploadDataBlob: <TData>(data: TData) => Promise<string>;
+	/** データBlobの暗号化のみ（アウトボックス経由で送信する場合） */
+	encryptDataBlob: <TData>(data: TData) => Promise<Uint8Array>;
+
+	/** データBlobの暗号化・アップロード（Blob参照返却、1MB超はチャンク分割） */
+	uploadDataBlob: <TData>(data: TData) => Promise<WalrusBlobReference>;
 
 	/** entryの追加/更新（パーティションキーベース） */
 	upsertEntry: (
@@ -104,14 +108,18 @@ export function useMetadataManager<TEntry extends BaseMetadataEntry>(
 	const { updatePassportData } = useUpdatePassportData();
 
 	/**
-	 * seal_idを取得
+	 * seal_idを取得（SBTに記録済みならそのseal_id、ローテーション後も追従する）
 	 */
 	const getSealId = useCallback(async (): Promise<string> => {
 		if (!currentAccount?.address) {
 			throw new Error("Wallet not connected");
 		}
-		return generateSealId(currentAccount.address, dataType);
-	}, [currentAccount, dataType]);
+		return resolveSealId({
+			passportId: passport?.id,
+			address: currentAccount.address,
+			dataType,
+		});
+	}, [passport, currentAccount, dataType]);
 
 	/**
 	 * 新規エントリかどうかを確認
@@ -199,7 +207,7 @@ export function useMetadataManager<TEntry extends BaseMetadataEntry>(
 
 				// 暗号化
 				const sealClient = createSealClient(suiClient);
-				const threshold = calculateThreshold(SEAL_KEY_SERVERS.length);
+				const threshold = getSealThreshold();
 				const { encryptedObject } = await encryptHealthData({
 					healthData: updatedMetadata as unknown as never,
 					sealClient,
@@ -208,7 +216,10 @@ export function useMetadataManager<TEntry extends BaseMetadataEntry>(
 				});
 
 				// Walrusにアップロード
-				const walrusRef = await uploadToWalrus(encryptedObject);
+				const walrusRef = await uploadToWalrus(encryptedObject, {
+					owner: currentAccount.address,
+					dataType,
+				});
 				console.log(`[MetadataManager] Metadata uploaded: ${walrusRef.blobId}`);
 
 				// 新規か既存かを判定
@@ -253,7 +264,7 @@ export function useMetadataManager<TEntry extends BaseMetadataEntry>(
 				console.log(`[MetadataManager] Loading data blob: ${entry.blob_id}`);
 
 				// データBlobをダウンロード
-				const encryptedData = await downloadFromWalrusByBlobId(entry.blob_id);
+				const encryptedData = await downloadEntryBlob(entry, dataType);
 
 				// 復号化用のPTBを構築
 				const txBytes = await buildPatientAccessPTB({
@@ -283,42 +294,56 @@ export function useMetadataManager<TEntry extends BaseMetadataEntry>(
 		[passport, sessionKey, currentAccount, dataType, getSealId, suiClient],
 	);
 
+	/**
+	 * データBlobの暗号化
+	 */
+	const encryptDataBlob = useCallback(
+		async <TData>(data: TData): Promise<Uint8Array> => {
+			const sealId = await getSealId();
+			const sealClient = createSealClient(suiClient);
+			const threshold = getSealThreshold();
+			const { encryptedObject } = await encryptHealthData({
+				healthData: data as unknown as never,
+				sealClient,
+				sealId,
+				threshold,
+			});
+			return encryptedObject;
+		},
+		[getSealId, suiClient],
+	);
+
 	/**
 	 * データBlobのアップロード
 	 */
 	const uploadDataBlob = useCallback(
-		async <TData>(data: TData): Promise<string> => {
+		async <TData>(data: TData): Promise<WalrusBlobReference> => {
 			if (!currentAccount?.address) {
 				throw new Error("Wallet not connected");
 			}
 
 			try {
-				const sealId = await getSealId();
 				console.log(`[MetadataManager] Uploading data blob for ${dataType}`);
 
 				// 暗号化
-				const sealClient = createSealClient(suiClient);
-				const threshold = calculateThreshold(SEAL_KEY_SERVERS.length);
-				const { encryptedObject } = await encryptHealthData({
-					healthData: data as unknown as never,
-					sealClient,
-					sealId,
-					threshold,
-				});
+				const encryptedObject = await encryptDataBlob(data);
 
 				// Walrusにアップロード
-				const walrusRef = await uploadToWalrus(encryptedObject);
+				const walrusRef = await uploadToWalrus(encryptedObject, {
+					owner: currentAccount.address,
+					dataType,
+				});
 				console.log(
 					`[MetadataManager] Data blob uploaded: ${walrusRef.blobId}`,
 				);
 
-				return walrusRef.blobId;
+				return walrusRef;
 			} catch (err) {
 				console.error("[MetadataManager] Failed to upload data blob:", err);
 				throw err;
 			}
 		},
-		[currentAccount, dataType, getSealId, suiClient],
+		[currentAccount, dataType, encryptDataBlob],
 	);
 
 	/**
@@ -400,6 +425,7 @@ export function useMetadataManager<TEntry extends BaseMetadataEntry>(
 			loadMetadata,
 			saveMetadata,
 			loadDataBlob,
+			encryptDataBlob,
 			uploadDataBlob,
 			upsertEntry,
 			removeEntry,
@@ -410,6 +436,7 @@ export function useMetadataManager<TEntry extends BaseMetadataEntry>(
 			loadMetadata,
 			saveMetadata,
 			loadDataBlob,
+			encryptDataBlob,
 			uploadDataBlob,
 			upsertEntry,
 			removeEntry,
@@ -6,7 +6,8 @@
  * パスポートを発行するカスタムフック。
  *
  * ## 主な仕様
- * - `useSignAndExecuteTransaction`を使用してトランザクションを送信
+ * - `useSponsoredTransaction`を使用してトランザクションを送信
+ *   （SUIを持たないウォレットはスポンサーがガスを負担、lib/sponsoredTransactions.ts）
  * - `mint_medical_passport`エントリー関数を呼び出すPTBを構築
  * - 国コードはブラウザのロケールまたはユーザー設定から取得（デフォルト: "JP"）
  * - 統計データ提供同意フラグ（`analytics_opt_in`）を指定可能（デフォルト: false）
@@ -19,9 +20,9 @@
  */
 "use client";
 
-import { useSignAndExecuteTransaction } from "@mysten/dapp-kit";
 import { Transaction } from "@mysten/sui/transactions";
 import { useState } from "react";
+import { useSponsoredTransaction } from "@/hooks/useSponsoredTransaction";
 
 /**
  * パッケージIDを取得
@@ -102,11 +103,9 @@ export interface UseMintPassportReturn {
 export function useMintPassport(
 	onMintSuccess?: (digest: string) => void,
 ): UseMintPassportReturn {
-	const {
-		mutate: sign_and_execute,
-		isPending,
-		error,
-	} = useSignAndExecuteTransaction();
+	const { signAndExecuteTransaction: sign_and_execute } =
+		useSponsoredTransaction();
+	const [is_pending, set_is_pending] = useState(false);
 	const [mint_error, set_mint_error] = useState<Error | null>(null);
 	const [is_success, set_is_success] = useState(false);
 
@@ -121,72 +120,56 @@ export function useMintPassport(
 		country_code?: string,
 		analytics_opt_in?: boolean,
 	): Promise<string | undefined> {
-		return new Promise((resolve, reject) => {
-			try {
-				// 環境変数の確認
-				const package_id = get_package_id();
-				const registry_id = get_registry_id();
+		try {
+			// 環境変数の確認
+			const package_id = get_package_id();
+			const registry_id = get_registry_id();
 
-				// 国コードが指定されていない場合はデフォルト値を使用
-				const final_country_code = country_code || get_default_country_code();
-				// analytics_opt_inが指定されていない場合はfalseを使用
-				const final_analytics_opt_in = analytics_opt_in ?? false;
+			// 国コードが指定されていない場合はデフォルト値を使用
+			const final_country_code = country_code || get_default_country_code();
+			// analytics_opt_inが指定されていない場合はfalseを使用
+			const final_analytics_opt_in = analytics_opt_in ?? false;
 
-				// Transactionを構築
-				const tx = new Transaction();
-				tx.moveCall({
-					target: `${package_id}::accessor::mint_medical_passport`,
-					arguments: [
-						tx.object(registry_id), // PassportRegistry (shared object)
-						tx.pure.string(final_country_code), // country_code
-						tx.pure.bool(final_analytics_opt_in), // analytics_opt_in
-					],
-				});
+			// Transactionを構築
+			const tx = new Transaction();
+			tx.moveCall({
+				target: `${package_id}::accessor::mint_medical_passport`,
+				arguments: [
+					tx.object(registry_id), // PassportRegistry (shared object)
+					tx.pure.string(final_country_code), // country_code
+					tx.pure.bool(final_analytics_opt_in), // analytics_opt_in
+				],
+			});
 
-				// トランザクションを送信
-				sign_and_execute(
-					{
-						transaction: tx,
-					},
-					{
-						onSuccess: (result) => {
-							// 成功時の処理
-							set_mint_error(null);
-							set_is_success(true);
-							const digest = result.digest;
-							// コールバック実行
-							onMintSuccess?.(digest);
-							resolve(digest);
-						},
-						onError: (error) => {
-							// エラー時の処理
-							const error_message =
-								error instanceof Error
-									? error.message
-									: "パスポート発行に失敗しました";
-							const mint_error_obj = new Error(error_message);
-							set_mint_error(mint_error_obj);
-							reject(mint_error_obj);
-						},
-					},
-				);
-			} catch (error) {
-				// エラーハンドリング
-				const error_message =
-					error instanceof Error
-						? error.message
-						: "パスポート発行に失敗しました";
-				const mint_error_obj = new Error(error_message);
-				set_mint_error(mint_error_obj);
-				reject(mint_error_obj);
-			}
-		});
+			// トランザクションを送信
+			set_is_pending(true);
+			const result = await sign_and_execute({
+				transaction: tx,
+			});
+
+			// 成功時の処理
+			set_mint_error(null);
+			set_is_success(true);
+			const digest = result.digest;
+			// コールバック実行
+			onMintSuccess?.(digest);
+			return digest;
+		} catch (error) {
+			// エラーハンドリング
+			const error_message =
+				error instanceof Error ? error.message : "パスポート発行に失敗しました";
+			const mint_error_obj = new Error(error_message);
+			set_mint_error(mint_error_obj);
+			throw mint_error_obj;
+		} finally {
+			set_is_pending(false);
+		}
 	}
 
 	return {
 		mint,
-		isPending,
+		isPending: is_pending,
 		isSuccess: is_success,
-		error: mint_error || (error as Error | null),
+		error: mint_error,
 	};
 }
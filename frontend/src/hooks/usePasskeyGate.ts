@@ -0,0 +1,138 @@
+/**
+ * usePasskeyGate Hook
+ *
+ * Passkey registered for the connected wallet (lib/passkeyGate.ts), its
+ * per data type sensitivity, and the data types currently hidden because
+ * the passkey check failed.
+ *
+ * ## Usage
+ * ```typescript
+ * const { config, register, blocked } = usePasskeyGate();
+ *
+ * if (!config) {
+ *   await register("CurePocket");
+ * }
+ * ```
+ */
+"use client";
+
+import { useCurrentAccount } from "@mysten/dapp-kit";
+import { useCallback, useEffect, useState, useSyncExternalStore } from "react";
+import {
+	getPasskeyGateState,
+	isPasskeySupported,
+	loadPasskeyGateConfig,
+	onPasskeyGateChange,
+	type PasskeyGateConfig,
+	type PasskeySensitivity,
+	registerPasskey,
+	removePasskeyGateConfig,
+	savePasskeyGateConfig,
+} from "@/lib/passkeyGate";
+import type { DataType } from "@/types/healthData";
+
+/**
+ * Hook return type
+ */
+export interface UsePasskeyGateReturn {
+	/** Passkey registered on this device (null if none) */
+	config: PasskeyGateConfig | null;
+	/** Whether this browser supports passkeys */
+	isSupported: boolean;
+	/** Register a passkey (replaces an existing one) */
+	register: (appName: string) => Promise<void>;
+	/** Remove the passkey (turns the gate off) */
+	remove: () => void;
+	/** Change when a data type asks for the passkey */
+	setSensitivity: (dataType: DataType, sensitivity: PasskeySensitivity) => void;
+	/** Data types hidden because the passkey check failed */
+	blocked: DataType[];
+	/** Whether a registration is running */
+	isBusy: boolean;
+	/** Error message of the last registration */
+	error: string | null;
+}
+
+/**
+ * Passkey gate hook
+ *
+ * @returns Passkey configuration and controls
+ */
+export function usePasskeyGate(): UsePasskeyGateReturn {
+	const currentAccount = useCurrentAccount();
+	const owner = currentAccount?.address ?? null;
+
+	const shared = useSyncExternalStore(
+		onPasskeyGateChange,
+		getPasskeyGateState,
+		getPasskeyGateState,
+	);
+	const [config, setConfig] = useState<PasskeyGateConfig | null>(null);
+	const [isSupported, setIsSupported] = useState(false);
+	const [isBusy, setIsBusy] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		setIsSupported(isPasskeySupported());
+	}, []);
+
+	useEffect(() => {
+		setConfig(owner ? loadPasskeyGateConfig(owner) : null);
+	}, [owner]);
+
+	const register = useCallback(
+		async (appName: string) => {
+			if (!owner) {
+				throw new Error("Wallet not connected");
+			}
+			setIsBusy(true);
+			setError(null);
+			try {
+				setConfig(await registerPasskey(owner, appName));
+			} catch (err) {
+				console.error("[PasskeyGate] Registration failed:", err);
+				setError(err instanceof Error ? err.message : String(err));
+				throw err;
+			} finally {
+				setIsBusy(false);
+			}
+		},
+		[owner],
+	);
+
+	const remove = useCallback(() => {
+		if (!owner) {
+			return;
+		}
+		removePasskeyGateConfig(owner);
+		setConfig(null);
+	}, [owner]);
+
+	const setSensitivity = useCallback(
+		(dataType: DataType, sensitivity: PasskeySensitivity) => {
+			setConfig((prev) => {
+				if (!prev) {
+					return prev;
+				}
+				const next = {
+					...prev,
+					sensitivity: { ...prev.sensitivity, [dataType]: sensitivity },
+				};
+				savePasskeyGateConfig(next);
+				return next;
+			});
+		},
+		[],
+	);
+
+	return {
+		config,
+		isSupported,
+		register,
+		remove,
+		setSensitivity,
+		blocked: shared.blocked,
+		isBusy,
+		error,
+	};
+}
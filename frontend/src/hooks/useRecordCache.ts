@@ -0,0 +1,142 @@
+/**
+ * useRecordCache Hook
+ *
+ * Lock state and controls of the encrypted record cache
+ * (lib/recordCache.ts) for the connected wallet. The state is shared by
+ * every instance, so the lock screen, settings and AppContext agree on
+ * whether cached records can be read.
+ *
+ * ## Usage
+ * ```typescript
+ * const { status, unlock } = useRecordCache();
+ *
+ * if (status === "locked") {
+ *   await unlock(pin);
+ * }
+ * ```
+ */
+"use client";
+
+import { useCurrentAccount } from "@mysten/dapp-kit";
+import { useCallback, useEffect, useState, useSyncExternalStore } from "react";
+import {
+	DEFAULT_RECORD_CACHE_AUTO_LOCK_MIN,
+	getRecordCacheAutoLockMin,
+	getRecordCacheState,
+	loadRecordCacheStatus,
+	lockRecordCache,
+	onRecordCacheChange,
+	type RecordCacheStatus,
+	resetRecordCache,
+	setRecordCacheAutoLockMin,
+	setupRecordCache,
+	unlockRecordCache,
+} from "@/lib/recordCache";
+
+/**
+ * Hook return type
+ */
+export interface UseRecordCacheReturn {
+	/** Cache status of the connected wallet */
+	status: RecordCacheStatus;
+	/** Set up the cache with a new PIN (replaces an existing cache) */
+	setup: (pin: string) => Promise<void>;
+	/** Unlock the cache with the PIN */
+	unlock: (pin: string) => Promise<void>;
+	/** Lock the cache now */
+	lock: () => void;
+	/** Remove the cache and its PIN */
+	reset: () => Promise<void>;
+	/** Idle time before auto-lock (minutes) */
+	autoLockMin: number;
+	/** Change the idle time before auto-lock */
+	setAutoLockMin: (minutes: number) => void;
+	/** Whether a setup / unlock / reset is running */
+	isBusy: boolean;
+	/** Error message of the last action */
+	error: string | null;
+}
+
+/**
+ * Record cache hook
+ *
+ * @returns Cache status and controls
+ */
+export function useRecordCache(): UseRecordCacheReturn {
+	const currentAccount = useCurrentAccount();
+	const owner = currentAccount?.address ?? null;
+
+	const shared = useSyncExternalStore(
+		onRecordCacheChange,
+		getRecordCacheState,
+		getRecordCacheState,
+	);
+	const [autoLockMin, setAutoLockMinState] = useState(
+		DEFAULT_RECORD_CACHE_AUTO_LOCK_MIN,
+	);
+	const [isBusy, setIsBusy] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		setAutoLockMinState(getRecordCacheAutoLockMin());
+	}, []);
+
+	useEffect(() => {
+		if (owner) {
+			void loadRecordCacheStatus(owner);
+		}
+	}, [owner]);
+
+	const run = useCallback(
+		async (action: (owner: string) => Promise<void>): Promise<void> => {
+			if (!owner) {
+				throw new Error("Wallet not connected");
+			}
+			setIsBusy(true);
+			setError(null);
+			try {
+				await action(owner);
+			} catch (err) {
+				console.error("[RecordCache] Action failed:", err);
+				setError(err instanceof Error ? err.message : String(err));
+				throw err;
+			} finally {
+				setIsBusy(false);
+			}
+		},
+		[owner],
+	);
+
+	const setup = useCallback(
+		(pin: string) => run((address) => setupRecordCache(address, pin)),
+		[run],
+	);
+
+	const unlock = useCallback(
+		(pin: string) => run((address) => unlockRecordCache(address, pin)),
+		[run],
+	);
+
+	const reset = useCallback(
+		() => run((address) => resetRecordCache(address)),
+		[run],
+	);
+
+	const setAutoLockMin = useCallback((minutes: number) => {
+		setRecordCacheAutoLockMin(minutes);
+		setAutoLockMinState(minutes);
+	}, []);
+
+	return {
+		status:
+			owner && shared.owner === owner.toLowerCase() ? shared.status : "unknown",
+		setup,
+		unlock,
+		lock: lockRecordCache,
+		reset,
+		autoLockMin,
+		setAutoLockMin,
+		isBusy,
+		error,
+	};
+}
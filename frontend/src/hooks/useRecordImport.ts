@@ -0,0 +1,228 @@
+/**
+ * useRecordImport Hook (v3.0.0)
+ *
+ * Imports a HealthData bundle file into the passport.
+ *
+ * ## Features
+ * - Parse: the bundle is split into data types and partitions
+ *   (lib/recordImport.ts)
+ * - Merge: partitions already saved are decrypted and merged by record id
+ * - Commit: every data type's SBT update is signed once (DataEntryBatch)
+ *
+ * ## Safety
+ * - The passkey gate is checked before any saved record is decrypted
+ * - Each replace is a compare-and-swap on the metadata it was built from;
+ *   a save from another device during the import fails it as a whole
+ *
+ * ## Usage
+ * ```typescript
+ * const { parseFile, importParsed, parsed } = useRecordImport();
+ *
+ * await parseFile(file);
+ * await importParsed();
+ * ```
+ */
+"use client";
+
+import { useCurrentAccount, useSuiClient } from "@mysten/dapp-kit";
+import { useCallback, useState } from "react";
+import { useApp } from "@/contexts/AppContext";
+import { usePassport } from "@/hooks/usePassport";
+import { useSessionKeyManager } from "@/hooks/useSessionKeyManager";
+import { useUpdatePassportData } from "@/hooks/useUpdatePassportData";
+import { downloadEntryBlob } from "@/lib/blobIntegrity";
+import { loadPassportMetadata } from "@/lib/metadataLoader";
+import { checkPasskeyAccess } from "@/lib/passkeyGate";
+import {
+	importRecords,
+	parseHealthDataBundle,
+	type RecordImportDataType,
+	type RecordImportDeps,
+} from "@/lib/recordImport";
+import {
+	buildPatientAccessPTB,
+	createSealClient,
+	decryptHealthData,
+	encryptHealthData,
+	getSealThreshold,
+} from "@/lib/seal";
+import { getEntrySealId } from "@/lib/sealIdGenerator";
+import { resolveSealId } from "@/lib/sealIdRotation";
+import { PASSPORT_REGISTRY_ID } from "@/lib/suiClient";
+import { uploadToWalrus } from "@/lib/walrus";
+import type { DataType } from "@/types/healthData";
+
+/**
+ * Import progress stages
+ */
+export type RecordImportProgress = "idle" | "importing" | "completed" | "error";
+
+/**
+ * Hook return type
+ */
+export interface UseRecordImportReturn {
+	/** Read and parse an import file (nothing is saved yet) */
+	parseFile: (file: File) => Promise<RecordImportDataType[]>;
+	/** Save the parsed records with one signature */
+	importParsed: () => Promise<void>;
+	/** Records of the last parsed file */
+	parsed: RecordImportDataType[] | null;
+	/** Whether passport and session key are available for an import */
+	isReady: boolean;
+	/** Current progress stage */
+	progress: RecordImportProgress;
+	/** Error message if the last operation failed */
+	error: string | null;
+}
+
+/**
+ * HealthData bundle import hook
+ *
+ * @returns Import state and controls
+ */
+export function useRecordImport(): UseRecordImportReturn {
+	const suiClient = useSuiClient();
+	const currentAccount = useCurrentAccount();
+	const { passport } = usePassport();
+	const { sessionKey, isValid } = useSessionKeyManager();
+	const { commitDataEntryBatch } = useUpdatePassportData();
+	const { refetchProfile } = useApp();
+
+	const [parsed, setParsed] = useState<RecordImportDataType[] | null>(null);
+	const [progress, setProgress] = useState<RecordImportProgress>("idle");
+	const [error, setError] = useState<string | null>(null);
+
+	const isReady = !!passport && !!currentAccount?.address && isValid;
+
+	const parseFile = useCallback(
+		async (file: File): Promise<RecordImportDataType[]> => {
+			setError(null);
+			setProgress("idle");
+			setParsed(null);
+			try {
+				const dataTypes = parseHealthDataBundle(JSON.parse(await file.text()));
+				setParsed(dataTypes);
+				return dataTypes;
+			} catch (err) {
+				const errorMessage =
+					err instanceof Error ? err.message : "Failed to read import file";
+				setError(errorMessage);
+				throw new Error(errorMessage);
+			}
+		},
+		[],
+	);
+
+	const importParsed = useCallback(async () => {
+		if (!passport || !currentAccount?.address || !sessionKey || !isValid) {
+			throw new Error("Passport and session key required");
+		}
+		if (!parsed) {
+			throw new Error("No import file parsed");
+		}
+		const owner = currentAccount.address;
+
+		setProgress("importing");
+		setError(null);
+
+		try {
+			// Ask for the passkey once before saved records are merged
+			const dataTypes = parsed.map((imported) => imported.dataType);
+			const allowed = await checkPasskeyAccess(owner, dataTypes);
+			const blocked = dataTypes.filter((type) => !allowed.includes(type));
+			if (blocked.length > 0) {
+				throw new Error(
+					`Passkey check failed, ${blocked.join(", ")} cannot be merged`,
+				);
+			}
+
+			const sealClient = createSealClient(suiClient);
+			const threshold = getSealThreshold();
+			// Data type seal_id of each loaded data type (decrypting saved partitions)
+			const sealIds = new Map<DataType, string>();
+
+			const deps: RecordImportDeps = {
+				loadMetadata: async (dataType) => {
+					const loaded = await loadPassportMetadata({
+						suiClient,
+						sessionKey,
+						passportId: passport.id,
+						dataType,
+					});
+					if (!loaded) {
+						return null;
+					}
+					sealIds.set(dataType, loaded.entry.sealId);
+					return {
+						metadataBlobId: loaded.entry.metadataBlobId,
+						metadata: loaded.metadata,
+					};
+				},
+				loadDataBlob: async (entry, dataType) => {
+					const dataTypeSealId = sealIds.get(dataType);
+					if (!dataTypeSealId) {
+						throw new Error(`${dataType} metadata was not loaded`);
+					}
+					const txBytes = await buildPatientAccessPTB({
+						passportObjectId: passport.id,
+						registryObjectId: PASSPORT_REGISTRY_ID,
+						suiClient,
+						sealId: dataTypeSealId,
+						dataType,
+					});
+					const data = await decryptHealthData({
+						encryptedData: await downloadEntryBlob(entry, dataType),
+						sealClient,
+						sessionKey,
+						txBytes,
+						sealId: getEntrySealId(entry, dataTypeSealId),
+					});
+					return data as unknown as Record<string, unknown>;
+				},
+				uploadBlob: async (data, dataType, sealId) => {
+					const { encryptedObject } = await encryptHealthData({
+						healthData: data as unknown as never,
+						sealClient,
+						sealId:
+							sealId ??
+							(await resolveSealId({
+								passportId: passport.id,
+								address: owner,
+								dataType,
+							})),
+						threshold,
+					});
+					return uploadToWalrus(encryptedObject, { owner, dataType });
+				},
+				commit: async (batch) => {
+					await commitDataEntryBatch(batch);
+				},
+			};
+
+			await importRecords(passport.id, parsed, deps);
+			console.log("[RecordImport] Import completed");
+
+			setParsed(null);
+			setProgress("completed");
+			await refetchProfile();
+		} catch (err) {
+			console.error("[RecordImport] Import failed:", err);
+			const errorMessage =
+				err instanceof Error ? err.message : "Failed to import records";
+			setError(errorMessage);
+			setProgress("error");
+			throw new Error(errorMessage);
+		}
+	}, [
+		passport,
+		currentAccount,
+		sessionKey,
+		isValid,
+		parsed,
+		suiClient,
+		commitDataEntryBatch,
+		refetchProfile,
+	]);
+
+	return { parseFile, importParsed, parsed, isReady, progress, error };
+}
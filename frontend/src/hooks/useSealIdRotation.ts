@@ -0,0 +1,496 @@
+/**
+ * useSealIdRotation Hook (v3.0.0)
+ *
+ * Moves a data type to a fresh seal_id, e.g. after a consent secret leaked.
+ *
+ * ## What rotation protects against
+ * - Consent tokens: seal_approve_consent checks a token against the seal_id
+ *   EntryData holds now, so the active tokens covering the data type are
+ *   revoked in the swap transaction
+ * - Copies of the old blobs: keys fetched for the old seal_id open only the
+ *   old blobs (delete them with blob GC)
+ * - Not a leaked session key: it approves whatever seal_id EntryData holds,
+ *   the new one included, until its TTL expires
+ * - Not data already decrypted
+ *
+ * ## Rotation Flow
+ * 1. Load EntryData and metadata; create (or resume) the rotation job
+ * 2. Decrypt each data blob under the old seal_id, re-encrypt under the new
+ *    one (entry seal_ids keep their nonce) and upload (progress is saved
+ *    after every blob); for imaging_meta, re-encrypt the image binaries
+ *    under a new imaging_binary seal_id as well
+ * 3. Re-encrypt the metadata with the new blob references and upload it
+ * 4. replace_data_entry with the new seal_id and metadata blob ID (and the
+ *    imaging_binary EntryData for imaging_meta), and revoke_consent_token
+ *    for the active tokens covering the data type, in one transaction
+ *
+ * A failed or interrupted rotation is resumed by rotating the same data
+ * type again. Superseded blobs are left for storage cleanup.
+ *
+ * A data type with saves queued in the outbox is not rotated: they are
+ * checked before step 1 and again before step 4.
+ *
+ * ## Usage
+ * ```typescript
+ * const { rotate, pendingJobs, counts } = useSealIdRotation();
+ *
+ * await rotate("medications");
+ * ```
+ */
+"use client";
+
+import { useCurrentAccount, useSuiClient } from "@mysten/dapp-kit";
+import { useCallback, useEffect, useState } from "react";
+import { usePassport } from "@/hooks/usePassport";
+import { useSessionKeyManager } from "@/hooks/useSessionKeyManager";
+import { useUpdatePassportData } from "@/hooks/useUpdatePassportData";
+import {
+	downloadEntryBlob,
+	downloadImagingBinaryBlob,
+	downloadVerifiedBlob,
+} from "@/lib/blobIntegrity";
+import {
+	getConsentTokensCoveringDataType,
+	listConsentTokens,
+} from "@/lib/consentTokens";
+import { addDataEntryWrite, createDataEntryBatch } from "@/lib/dataEntryBatch";
+import { reencryptImagingBinary } from "@/lib/imagingBinary";
+import { loadPassportMetadata } from "@/lib/metadataLoader";
+import { isOutboxStoreAvailable, listOutboxItems } from "@/lib/outboxStore";
+import {
+	buildPatientAccessPTB,
+	createSealClient,
+	decryptHealthData,
+	encryptHealthData,
+	getSealThreshold,
+} from "@/lib/seal";
+import {
+	generateRotationNonce,
+	generateSealId,
+	getEntrySealId,
+} from "@/lib/sealIdGenerator";
+import {
+	applyRotatedBlobs,
+	clearRotationJob,
+	createRotationJob,
+	getRotatedEntrySealId,
+	getRotationCounts,
+	getRotationResumeState,
+	loadRotationJob,
+	loadRotationJobs,
+	rebaseRotationJob,
+	recordRotatedBinary,
+	recordRotatedBlob,
+	SealIdRotationBlockedError,
+	type SealIdRotationCounts,
+	type SealIdRotationJob,
+	saveRotationJob,
+} from "@/lib/sealIdRotation";
+import { getDataEntry, PASSPORT_REGISTRY_ID } from "@/lib/suiClient";
+import { toEntryBlobFields, uploadToWalrus } from "@/lib/walrus";
+import type { DataType } from "@/types/healthData";
+import type { ImagingMetadataEntry } from "@/types/metadata";
+
+/**
+ * Rotation progress stages
+ */
+export type SealIdRotationProgress =
+	| "idle"
+	| "loading"
+	| "reencrypting_data"
+	| "uploading_metadata"
+	| "updating_passport"
+	| "completed"
+	| "error";
+
+/**
+ * Hook return type
+ */
+export interface UseSealIdRotationReturn {
+	/** Rotate the seal_id of a data type (resumes an unfinished rotation) */
+	rotate: (dataType: DataType) => Promise<void>;
+	/** Drop the unfinished rotation of a data type */
+	discard: (dataType: DataType) => void;
+	/** Unfinished rotations saved on this device */
+	pendingJobs: SealIdRotationJob[];
+	/** Data type of the running or last rotation */
+	activeDataType: DataType | null;
+	/** Finished / total steps of the running rotation */
+	counts: SealIdRotationCounts | null;
+	/** Consent tokens revoked by the last completed rotation */
+	revokedShares: number | null;
+	/** Whether passport and session key are available */
+	isReady: boolean;
+	/** Whether a rotation is running */
+	isBusy: boolean;
+	/** Current progress stage */
+	progress: SealIdRotationProgress;
+	/** Error message if the last rotation failed */
+	error: string | null;
+}
+
+/**
+ * Refuse to rotate while saves of the data type are queued in the outbox
+ *
+ * @throws SealIdRotationBlockedError if any are queued
+ */
+async function assertNoQueuedSaves(
+	owner: string,
+	dataType: DataType,
+): Promise<void> {
+	if (!isOutboxStoreAvailable()) {
+		return;
+	}
+	const queued = (await listOutboxItems(owner)).filter(
+		(item) => item.dataType === dataType,
+	).length;
+	if (queued > 0) {
+		throw new SealIdRotationBlockedError(dataType, queued);
+	}
+}
+
+/**
+ * Seal ID rotation hook
+ *
+ * @returns Rotation controls and progress
+ */
+export function useSealIdRotation(): UseSealIdRotationReturn {
+	const suiClient = useSuiClient();
+	const currentAccount = useCurrentAccount();
+	const { passport } = usePassport();
+	const { sessionKey } = useSessionKeyManager();
+	const { updatePassportData, commitDataEntryBatch } = useUpdatePassportData();
+
+	const [pendingJobs, setPendingJobs] = useState<SealIdRotationJob[]>([]);
+	const [activeDataType, setActiveDataType] = useState<DataType | null>(null);
+	const [counts, setCounts] = useState<SealIdRotationCounts | null>(null);
+	const [revokedShares, setRevokedShares] = useState<number | null>(null);
+	const [progress, setProgress] = useState<SealIdRotationProgress>("idle");
+	const [error, setError] = useState<string | null>(null);
+
+	const owner = currentAccount?.address ?? null;
+
+	useEffect(() => {
+		setPendingJobs(owner ? loadRotationJobs(owner) : []);
+	}, [owner]);
+
+	/**
+	 * Persist job progress and reflect it in state
+	 */
+	const saveProgress = useCallback((job: SealIdRotationJob) => {
+		saveRotationJob(job);
+		setCounts(getRotationCounts(job));
+		setPendingJobs(loadRotationJobs(job.owner));
+	}, []);
+
+	/**
+	 * Rotate the seal_id of a data type
+	 */
+	const rotate = useCallback(
+		async (dataType: DataType): Promise<void> => {
+			if (!passport || !sessionKey || !owner) {
+				throw new Error("Prerequisites not met");
+			}
+
+			setActiveDataType(dataType);
+			setCounts(null);
+			setRevokedShares(null);
+			setProgress("loading");
+			setError(null);
+
+			let job: SealIdRotationJob | null = null;
+			try {
+				await assertNoQueuedSaves(owner, dataType);
+
+				const loaded = await loadPassportMetadata({
+					suiClient,
+					sessionKey,
+					passportId: passport.id,
+					dataType,
+				});
+				if (!loaded) {
+					throw new Error(`No ${dataType} data to rotate`);
+				}
+				const { entry, metadata } = loaded;
+				// imaging_meta entries point at binaries under the imaging_binary seal_id
+				const binaryEntry =
+					dataType === "imaging_meta"
+						? await getDataEntry(passport.id, "imaging_binary")
+						: null;
+
+				// Step 1: Resume the saved job or start a new one
+				job = loadRotationJob(owner, dataType);
+				if (job && binaryEntry && !job.binary) {
+					// Saved before binaries were rotated along with imaging_meta
+					job = null;
+				}
+				if (job) {
+					const state = getRotationResumeState(job, entry);
+					if (state === "completed") {
+						console.log(
+							`[SealIdRotation] ${dataType} already uses the new seal_id`,
+						);
+						clearRotationJob(owner, dataType);
+						setPendingJobs(loadRotationJobs(owner));
+						setProgress("completed");
+						return;
+					}
+					job =
+						state === "resume"
+							? rebaseRotationJob(job, entry, metadata, binaryEntry)
+							: null;
+				}
+				if (!job) {
+					const rotationNonce = generateRotationNonce();
+					job = createRotationJob({
+						owner,
+						passportId: passport.id,
+						dataType,
+						entry,
+						metadata,
+						rotationNonce,
+						newSealId: await generateSealId(owner, dataType, rotationNonce),
+						binaryEntry,
+						newBinarySealId: binaryEntry
+							? await generateSealId(owner, "imaging_binary", rotationNonce)
+							: undefined,
+					});
+				}
+				saveProgress(job);
+				console.log(
+					`[SealIdRotation] Rotating ${dataType}: ${job.oldSealId.substring(0, 16)}... → ${job.newSealId.substring(0, 16)}...`,
+				);
+
+				// Step 2: Re-encrypt data blobs under the new seal_id
+				setProgress("reencrypting_data");
+				const sealClient = createSealClient(suiClient);
+				const threshold = getSealThreshold();
+				const txBytes = await buildPatientAccessPTB({
+					passportObjectId: passport.id,
+					registryObjectId: PASSPORT_REGISTRY_ID,
+					suiClient,
+					sealId: job.oldSealId,
+					dataType,
+				});
+
+				for (const metadataEntry of metadata.entries) {
+					if (job.rotated[metadataEntry.blob_id]) {
+						continue;
+					}
+					const encryptedData = await downloadEntryBlob(
+						metadataEntry,
+						dataType,
+					);
+					const healthData = await decryptHealthData({
+						encryptedData,
+						sealClient,
+						sessionKey,
+						txBytes,
+						sealId: getEntrySealId(metadataEntry, job.oldSealId),
+					});
+					const sealId = getRotatedEntrySealId(metadataEntry, job);
+					const { encryptedObject } = await encryptHealthData({
+						healthData,
+						sealClient,
+						sealId,
+						threshold,
+					});
+					const ref = await uploadToWalrus(encryptedObject, {
+						owner,
+						dataType,
+					});
+					job = recordRotatedBlob(job, metadataEntry.blob_id, {
+						...toEntryBlobFields(ref),
+						...(sealId !== job.newSealId && { seal_id: sealId }),
+					});
+					saveProgress(job);
+				}
+
+				// Step 2b: Re-encrypt image binaries under the new imaging_binary seal_id
+				const binary = job.binary;
+				if (binary) {
+					const binaryTxBytes = await buildPatientAccessPTB({
+						passportObjectId: passport.id,
+						registryObjectId: PASSPORT_REGISTRY_ID,
+						suiClient,
+						sealId: binary.oldSealId,
+						dataType: "imaging_binary",
+					});
+					const imagingEntries = metadata.entries as ImagingMetadataEntry[];
+					for (const binaryBlobId of binary.blobIds) {
+						if (binary.rotated[binaryBlobId]) {
+							continue;
+						}
+						const imagingEntry = imagingEntries.find(
+							(e) => e.binary_blob_id === binaryBlobId,
+						);
+						const encryptedData = imagingEntry
+							? await downloadImagingBinaryBlob(imagingEntry)
+							: await downloadVerifiedBlob(binaryBlobId, {
+									dataType: "imaging_binary",
+								});
+						const ref = await reencryptImagingBinary({
+							encryptedData,
+							sealClient,
+							sessionKey,
+							txBytes: binaryTxBytes,
+							sealId: binary.newSealId,
+							threshold,
+							owner,
+						});
+						job = recordRotatedBinary(
+							job,
+							binaryBlobId,
+							toEntryBlobFields(ref),
+						);
+						saveProgress(job);
+					}
+				}
+
+				// Step 3: Re-encrypt metadata pointing at the new blobs
+				let metadataBlobId = job.metadataBlobId;
+				if (!metadataBlobId) {
+					setProgress("uploading_metadata");
+					const { encryptedObject } = await encryptHealthData({
+						healthData: applyRotatedBlobs(metadata, job) as unknown as never,
+						sealClient,
+						sealId: job.newSealId,
+						threshold,
+					});
+					const metadataRef = await uploadToWalrus(encryptedObject, {
+						owner,
+						dataType,
+					});
+					metadataBlobId = metadataRef.blobId;
+					job = { ...job, metadataBlobId };
+					saveProgress(job);
+				}
+
+				// Step 4: Swap seal_id and metadata blob and revoke the data type's
+				// shares in one transaction (active tokens would open the new seal_id)
+				setProgress("updating_passport");
+				await assertNoQueuedSaves(owner, dataType);
+				const current = await getDataEntry(passport.id, dataType);
+				const currentBinary = job.binary
+					? await getDataEntry(passport.id, "imaging_binary")
+					: null;
+				if (
+					current?.metadataBlobId !== job.sourceMetadataBlobId ||
+					(job.binary &&
+						currentBinary?.metadataBlobId !== job.binary.sourceBlobId)
+				) {
+					throw new Error(
+						`${dataType} was changed during the rotation; rotate again to continue`,
+					);
+				}
+				const tokens = await listConsentTokens({
+					suiClient,
+					owner,
+					passportId: passport.id,
+				});
+				const revokeConsentTokenIds = [
+					...new Set(
+						[
+							...getConsentTokensCoveringDataType(tokens, dataType),
+							...(job.binary
+								? getConsentTokensCoveringDataType(tokens, "imaging_binary")
+								: []),
+						].map((token) => token.id),
+					),
+				];
+				if (job.binary) {
+					// Both EntryData values move together so no image is left
+					// under a seal_id the metadata no longer matches
+					const binaryBlob = job.binary.rotated[job.binary.sourceBlobId];
+					let batch = createDataEntryBatch(passport.id);
+					batch = addDataEntryWrite(batch, {
+						dataType,
+						metadataBlobId,
+						replace: true,
+						sealId: job.newSealId,
+						expectedMetadataBlobId: job.sourceMetadataBlobId,
+					});
+					batch = addDataEntryWrite(batch, {
+						dataType: "imaging_binary",
+						metadataBlobId: binaryBlob.blob_id,
+						replace: true,
+						sealId: job.binary.newSealId,
+						expectedMetadataBlobId: job.binary.sourceBlobId,
+					});
+					await commitDataEntryBatch({ ...batch, revokeConsentTokenIds });
+				} else {
+					await updatePassportData({
+						passportId: passport.id,
+						dataType,
+						metadataBlobId,
+						replace: true,
+						sealId: job.newSealId,
+						expectedMetadataBlobId: job.sourceMetadataBlobId,
+						revokeConsentTokenIds,
+					});
+				}
+
+				clearRotationJob(owner, dataType);
+				setRevokedShares(revokeConsentTokenIds.length);
+				setPendingJobs(loadRotationJobs(owner));
+				setCounts((prev) => prev && { ...prev, done: prev.total });
+				setProgress("completed");
+				console.log(`[SealIdRotation] ${dataType} rotated`);
+			} catch (err) {
+				console.error("[SealIdRotation] Rotation failed:", err);
+				const message = err instanceof Error ? err.message : String(err);
+				if (job) {
+					saveProgress({ ...job, error: message, updatedAt: Date.now() });
+				}
+				setError(message);
+				setProgress("error");
+				throw err;
+			}
+		},
+		[
+			passport,
+			sessionKey,
+			owner,
+			suiClient,
+			updatePassportData,
+			commitDataEntryBatch,
+			saveProgress,
+		],
+	);
+
+	/**
+	 * Drop the unfinished rotation of a data type
+	 */
+	const discard = useCallback(
+		(dataType: DataType) => {
+			if (!owner) {
+				return;
+			}
+			clearRotationJob(owner, dataType);
+			setPendingJobs(loadRotationJobs(owner));
+			if (activeDataType === dataType) {
+				setCounts(null);
+				setProgress("idle");
+				setError(null);
+			}
+		},
+		[owner, activeDataType],
+	);
+
+	return {
+		rotate,
+		discard,
+		pendingJobs,
+		activeDataType,
+		counts,
+		revokedShares,
+		isReady: !!passport && !!sessionKey,
+		isBusy:
+			progress === "loading" ||
+			progress === "reencrypting_data" ||
+			progress === "uploading_metadata" ||
+			progress === "updating_passport",
+		progress,
+		error,
+	};
+}
@@ -0,0 +1,168 @@
+/**
+ * useSealKeyServerDiagnostics Hook
+ *
+ * Checks the configured Seal key servers for the diagnostics panel in
+ * settings.
+ *
+ * ## Features
+ * - Config: weights, URL overrides and threshold from the environment
+ * - Ping: each server's service endpoint, with latency
+ * - Quorum: whether the servers that answered can still meet the threshold
+ * - Last decrypt: which servers supplied the keys of the latest decrypt
+ *
+ * ## Usage
+ * ```typescript
+ * const { check, servers, reachability } = useSealKeyServerDiagnostics();
+ *
+ * await check();
+ * if (reachability?.belowThreshold) { ... }
+ * ```
+ */
+"use client";
+
+import { useSuiClient } from "@mysten/dapp-kit";
+import { useCallback, useEffect, useState } from "react";
+import { getSealKeyServerConfig, loadSealKeyServers } from "@/lib/seal";
+import {
+	getLastSealDecrypt,
+	type KeyServerPingResult,
+	type KeyServerReachability,
+	onSealDecrypt,
+	pingKeyServer,
+	type SealDecryptRecord,
+	type SealKeyServerConfig,
+	type SealKeyServerEntry,
+	summarizeKeyServerReachability,
+} from "@/lib/sealKeyServers";
+
+/**
+ * Configured key server with its latest ping
+ */
+export interface KeyServerDiagnostics extends SealKeyServerEntry {
+	/** On-chain name (empty until loaded) */
+	name: string;
+	/** Effective URL (override or on-chain) */
+	url: string;
+	/** Latest ping result (null before the first check) */
+	ping: KeyServerPingResult | null;
+}
+
+/**
+ * Hook return type
+ */
+export interface UseSealKeyServerDiagnosticsReturn {
+	/** Load the servers and ping each of them */
+	check: () => Promise<void>;
+	/** Parsed configuration (null if it is invalid) */
+	config: SealKeyServerConfig | null;
+	/** Configured servers with their latest ping */
+	servers: KeyServerDiagnostics[];
+	/** Reachable weight vs threshold (null before the first check) */
+	reachability: KeyServerReachability | null;
+	/** Outcome of the most recent decrypt in this page */
+	lastDecrypt: SealDecryptRecord | null;
+	/** Whether a check is running */
+	isChecking: boolean;
+	/** Configuration or loading error */
+	error: string | null;
+}
+
+/**
+ * Seal key server diagnostics hook
+ *
+ * @returns Diagnostics state and check function
+ */
+export function useSealKeyServerDiagnostics(): UseSealKeyServerDiagnosticsReturn {
+	const suiClient = useSuiClient();
+
+	const [config, setConfig] = useState<SealKeyServerConfig | null>(null);
+	const [servers, setServers] = useState<KeyServerDiagnostics[]>([]);
+	const [reachability, setReachability] =
+		useState<KeyServerReachability | null>(null);
+	const [lastDecrypt, setLastDecrypt] = useState<SealDecryptRecord | null>(
+		null,
+	);
+	const [isChecking, setIsChecking] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		setLastDecrypt(getLastSealDecrypt());
+		return onSealDecrypt(setLastDecrypt);
+	}, []);
+
+	const check = useCallback(async () => {
+		setIsChecking(true);
+		setError(null);
+
+		let currentConfig: SealKeyServerConfig;
+		try {
+			currentConfig = getSealKeyServerConfig();
+			setConfig(currentConfig);
+		} catch (err) {
+			setConfig(null);
+			setServers([]);
+			setReachability(null);
+			setError(err instanceof Error ? err.message : String(err));
+			setIsChecking(false);
+			return;
+		}
+
+		try {
+			const loaded = await loadSealKeyServers(suiClient);
+			setServers(loaded.map((server) => ({ ...server, ping: null })));
+
+			const pings = await Promise.all(
+				loaded.map((server) =>
+					server.url
+						? pingKeyServer(server)
+						: Promise.resolve<KeyServerPingResult>({
+								objectId: server.objectId,
+								url: "",
+								ok: false,
+								latencyMs: null,
+								error: "No URL registered",
+								checkedAt: Date.now(),
+							}),
+				),
+			);
+			setServers(
+				loaded.map((server, index) => ({ ...server, ping: pings[index] })),
+			);
+
+			const summary = summarizeKeyServerReachability(currentConfig, pings);
+			setReachability(summary);
+			if (summary.belowThreshold) {
+				console.warn(
+					`[SealDiagnostics] Reachable weight ${summary.reachableWeight} is below threshold ${summary.threshold}`,
+				);
+			}
+		} catch (err) {
+			console.error("[SealDiagnostics] Failed to check key servers:", err);
+			// Key server metadata could not be loaded: nothing is reachable
+			setServers(
+				currentConfig.servers.map((server) => ({
+					...server,
+					name: "",
+					url: server.url ?? "",
+					ping: null,
+				})),
+			);
+			setReachability(summarizeKeyServerReachability(currentConfig, []));
+			setError(
+				`Failed to load key servers: ${err instanceof Error ? err.message : String(err)}`,
+			);
+		} finally {
+			setIsChecking(false);
+		}
+	}, [suiClient]);
+
+	return {
+		check,
+		config,
+		servers,
+		reachability,
+		lastDecrypt,
+		isChecking,
+		error,
+	};
+}
@@ -1,13 +1,17 @@
 /**
  * useSessionKeyManager Hook
  *
- * Manages Seal SessionKey lifecycle with automatic renewal and wallet signing.
+ * Manages the Seal SessionKey lifecycle with wallet signing. The key is
+ * shared by every instance of the hook (lib/sessionLifecycle.ts), so one
+ * signature serves all screens.
  *
  * ## Features
- * - SessionKey creation with wallet signature
- * - 10-minute TTL management
- * - Automatic renewal before expiration
- * - Error handling and retry logic
+ * - SessionKey creation with wallet signature (concurrent calls share one prompt)
+ * - Per-device TTL (1–30 minutes, chosen in settings)
+ * - Restore of the persisted key on page load
+ * - Refresh prompt before expiration (SessionKeyBanner) instead of a silent
+ *   signature request; decrypts started with an expired key wait for it
+ * - End session: wipes the key and decrypted in-memory data
  *
  * ## SessionKey Flow
  * 1. Create SessionKey with SessionKey.create()
@@ -36,22 +40,20 @@ import {
 	useSuiClient,
 } from "@mysten/dapp-kit";
 import { ExpiredSessionKeyError, SessionKey } from "@mysten/seal";
-import { useCallback, useEffect, useRef, useState } from "react";
-
-/**
- * SessionKey TTL in minutes (default: env or 30 minutes, max 30 enforced by SDK)
- */
-const DEFAULT_SESSION_TTL_MIN = Math.min(
-	30,
-	Math.max(1, Number(process.env.NEXT_PUBLIC_SESSION_TTL_MIN || 30)),
-);
-
-const SESSION_KEY_STORAGE = "curepocket_session_key_v1";
-
-/**
- * Auto-renewal trigger threshold in minutes (renew when 2 minutes remaining)
- */
-const RENEWAL_THRESHOLD_MIN = 2;
+import { useCallback, useEffect, useState, useSyncExternalStore } from "react";
+import { isExpired } from "@/lib/sessionKey";
+import {
+	cancelPendingDecrypts,
+	clearStoredSessionKey,
+	endSession,
+	getSessionLifecycleState,
+	getSessionTtlMin,
+	loadStoredSessionKey,
+	onSessionLifecycleChange,
+	saveStoredSessionKey,
+	setSessionKey,
+	setSessionRefreshing,
+} from "@/lib/sessionLifecycle";
 
 /**
  * Package ID for access control policies
@@ -59,20 +61,9 @@ const RENEWAL_THRESHOLD_MIN = 2;
 const PACKAGE_ID = process.env.NEXT_PUBLIC_PACKAGE_ID || "";
 
 /**
- * SessionKey manager state
+ * Signature request in progress (shared so that only one wallet prompt opens)
  */
-interface SessionKeyState {
-	/** Current SessionKey instance */
-	sessionKey: SessionKey | null;
-	/** Expiration timestamp in milliseconds */
-	expiresAt: number | null;
-	/** Whether the session key is currently valid */
-	isValid: boolean;
-	/** Whether session key generation is in progress */
-	isLoading: boolean;
-	/** Error message if generation failed */
-	error: string | null;
-}
+let pendingGeneration: Promise<void> | null = null;
 
 /**
  * Hook return type
@@ -90,145 +81,116 @@ export interface UseSessionKeyManagerReturn {
 	error: string | null;
 	/** Time until expiration in milliseconds (null if no session key) */
 	timeUntilExpiration: number | null;
+	/** Expiration timestamp in milliseconds (null if no session key) */
+	expiresAt: number | null;
+	/** Decrypts waiting for a new signature */
+	pendingDecrypts: number;
+	/** Whether the user ended the session (no automatic signature prompts) */
+	isEnded: boolean;
+	/** Incremented when the session is ended (key for trees holding decrypted data) */
+	generation: number;
+	/** Wipe the session key and decrypted in-memory data */
+	endSession: () => void;
 }
 
 /**
  * SessionKey lifecycle manager hook
  *
- * @param ttlMin - SessionKey TTL in minutes (default: 10)
- * @param autoRenew - Enable automatic renewal before expiration (default: true)
+ * @param ttlMin - SessionKey TTL in minutes (default: the TTL chosen for this device)
  * @returns SessionKey manager state and controls
  */
 export function useSessionKeyManager(
-	ttlMin = DEFAULT_SESSION_TTL_MIN,
-	autoRenew = true,
+	ttlMin?: number,
 ): UseSessionKeyManagerReturn {
 	const currentAccount = useCurrentAccount();
 	const suiClient = useSuiClient();
 	const { mutateAsync: signPersonalMessage } = useSignPersonalMessage();
 
-	const [state, setState] = useState<SessionKeyState>({
-		sessionKey: null,
-		expiresAt: null,
-		isValid: false,
-		isLoading: false,
-		error: null,
-	});
-
-	// Renewal timer reference
-	const renewalTimerRef = useRef<NodeJS.Timeout | null>(null);
-
-	/**
-	 * Clear renewal timer
-	 */
-	const clearRenewalTimer = useCallback(() => {
-		if (renewalTimerRef.current) {
-			clearTimeout(renewalTimerRef.current);
-			renewalTimerRef.current = null;
-		}
-	}, []);
-
-	/**
-	 * Check if session key is still valid
-	 */
-	const checkValidity = useCallback(() => {
-		if (!state.expiresAt) return false;
-		return Date.now() < state.expiresAt;
-	}, [state.expiresAt]);
+	const lifecycle = useSyncExternalStore(
+		onSessionLifecycleChange,
+		getSessionLifecycleState,
+		getSessionLifecycleState,
+	);
+	const [error, setError] = useState<string | null>(null);
+	const [, setExpiryTick] = useState(0);
+
+	// Only expose the shared key to the account it was issued for
+	const ownsKey =
+		!!lifecycle.sessionKey &&
+		lifecycle.sessionKey.getAddress() === currentAccount?.address;
+	const sessionKey = ownsKey ? lifecycle.sessionKey : null;
+	const expiresAt = ownsKey ? lifecycle.expiresAt : null;
+	const isValid = expiresAt !== null && !isExpired(expiresAt);
 
 	/**
 	 * Generate a new SessionKey with wallet signature
 	 */
 	const generateSessionKey = useCallback(async () => {
 		if (!currentAccount?.address) {
-			setState((prev) => ({
-				...prev,
-				error: "Wallet not connected",
-				isLoading: false,
-			}));
+			setError("Wallet not connected");
 			return;
 		}
 
 		if (!PACKAGE_ID) {
-			setState((prev) => ({
-				...prev,
-				error: "Package ID not configured",
-				isLoading: false,
-			}));
+			setError("Package ID not configured");
 			return;
 		}
 
-		setState((prev) => ({
-			...prev,
-			isLoading: true,
-			error: null,
-		}));
-
-		try {
-			// Step 1: Create SessionKey
-			const newSessionKey = await SessionKey.create({
-				address: currentAccount.address,
-				packageId: PACKAGE_ID,
-				ttlMin,
-				suiClient,
-			});
-
-			// Step 2: Get personal message to sign
-			const personalMessage = newSessionKey.getPersonalMessage();
-
-			// Step 3: Request wallet signature
-			const signatureResult = await signPersonalMessage({
-				message: personalMessage,
-			});
-
-			// Step 4: Set signature to complete SessionKey initialization
-			// ✅ Pass signature directly (no conversion needed)
-			await newSessionKey.setPersonalMessageSignature(
-				signatureResult.signature,
-			);
-
-			// Calculate expiration time
-			const expiresAt = Date.now() + ttlMin * 60 * 1000;
-
-			// Update state
-			setState({
-				sessionKey: newSessionKey,
-				expiresAt,
-				isValid: true,
-				isLoading: false,
-				error: null,
-			});
-
-			// Persist session key for reuse (avoid repeated signature prompts until expiry)
-			const exported = newSessionKey.export();
-			const persistable = {
-				address: exported.address,
-				packageId: exported.packageId,
-				mvrName: exported.mvrName,
-				creationTimeMs: exported.creationTimeMs,
-				ttlMin: exported.ttlMin,
-				personalMessageSignature: exported.personalMessageSignature,
-				sessionKey: exported.sessionKey,
-			};
-			localStorage.setItem(SESSION_KEY_STORAGE, JSON.stringify(persistable));
+		if (pendingGeneration) {
+			return pendingGeneration;
+		}
 
-			console.log(
-				`[SessionKey] Generated successfully, expires at ${new Date(expiresAt).toISOString()}`,
-			);
-		} catch (error) {
-			console.error("[SessionKey] Generation failed:", error);
-			setState((prev) => ({
-				...prev,
-				sessionKey: null,
-				expiresAt: null,
-				isValid: false,
-				isLoading: false,
-				error:
+		setError(null);
+		setSessionRefreshing(true);
+
+		const address = currentAccount.address;
+		const keyTtlMin = ttlMin ?? getSessionTtlMin();
+		pendingGeneration = (async () => {
+			try {
+				// Step 1: Create SessionKey
+				const newSessionKey = await SessionKey.create({
+					address,
+					packageId: PACKAGE_ID,
+					ttlMin: keyTtlMin,
+					suiClient,
+				});
+
+				// Step 2: Get personal message to sign
+				const personalMessage = newSessionKey.getPersonalMessage();
+
+				// Step 3: Request wallet signature
+				const signatureResult = await signPersonalMessage({
+					message: personalMessage,
+				});
+
+				// Step 4: Set signature to complete SessionKey initialization
+				await newSessionKey.setPersonalMessageSignature(
+					signatureResult.signature,
+				);
+
+				// Calculate expiration time
+				const expiresAt = Date.now() + keyTtlMin * 60 * 1000;
+
+				// Persist session key for reuse (avoid repeated signature prompts until expiry)
+				saveStoredSessionKey(newSessionKey);
+				setSessionKey(newSessionKey, expiresAt);
+
+				console.log(
+					`[SessionKey] Generated successfully, expires at ${new Date(expiresAt).toISOString()}`,
+				);
+			} catch (error) {
+				console.error("[SessionKey] Generation failed:", error);
+				const message =
 					error instanceof Error
 						? error.message
-						: "Failed to generate session key",
-			}));
-		}
+						: "Failed to generate session key";
+				setError(message);
+				cancelPendingDecrypts(message);
+			} finally {
+				pendingGeneration = null;
+			}
+		})();
+		return pendingGeneration;
 	}, [currentAccount, suiClient, signPersonalMessage, ttlMin]);
 
 	/**
@@ -237,101 +199,62 @@ export function useSessionKeyManager(
 	useEffect(() => {
 		if (!currentAccount) return;
 
-		const stored = localStorage.getItem(SESSION_KEY_STORAGE);
+		const shared = getSessionLifecycleState();
+		if (
+			shared.ended ||
+			shared.sessionKey?.getAddress() === currentAccount.address
+		) {
+			return;
+		}
+
+		const stored = loadStoredSessionKey(currentAccount.address, PACKAGE_ID);
 		if (!stored) return;
 
 		try {
-			const parsed = JSON.parse(stored);
-			if (
-				parsed.address !== currentAccount.address ||
-				parsed.packageId !== PACKAGE_ID
-			) {
-				// Different user or package; ignore
-				return;
-			}
-
-			// Stored session key must include a personal message signature; otherwise discard
-			if (!parsed.personalMessageSignature) {
-				localStorage.removeItem(SESSION_KEY_STORAGE);
-				return;
-			}
-
-			const restored = SessionKey.import(parsed, suiClient);
-			const expiresAt = parsed.creationTimeMs + parsed.ttlMin * 60 * 1000;
-
-			setState({
-				sessionKey: restored,
-				expiresAt,
-				isValid: !restored.isExpired(),
-				isLoading: false,
-				error: null,
-			});
+			const restored = SessionKey.import(stored, suiClient);
+			setSessionKey(
+				restored,
+				stored.creationTimeMs + stored.ttlMin * 60 * 1000,
+			);
 		} catch (e) {
 			// Cleanup corrupted/expired cache
 			if (e instanceof ExpiredSessionKeyError) {
-				localStorage.removeItem(SESSION_KEY_STORAGE);
+				clearStoredSessionKey();
 			}
 			console.warn("[SessionKey] Restore failed, will regenerate", e);
 		}
 	}, [currentAccount, suiClient]);
 
 	/**
-	 * Schedule auto-renewal before expiration
-	 */
-	const scheduleAutoRenewal = useCallback(() => {
-		if (!autoRenew || !state.expiresAt) return;
-
-		clearRenewalTimer();
-
-		const timeUntilRenewal =
-			state.expiresAt - Date.now() - RENEWAL_THRESHOLD_MIN * 60 * 1000;
-
-		if (timeUntilRenewal > 0) {
-			renewalTimerRef.current = setTimeout(() => {
-				console.log("[SessionKey] Auto-renewing session key");
-				generateSessionKey();
-			}, timeUntilRenewal);
-		}
-	}, [autoRenew, state.expiresAt, generateSessionKey, clearRenewalTimer]);
-
-	/**
-	 * Effect: Update validity status periodically
+	 * Effect: Re-render when the session key expires
 	 */
 	useEffect(() => {
-		const validityCheckInterval = setInterval(() => {
-			const isValid = checkValidity();
-			setState((prev) => {
-				if (prev.isValid !== isValid) {
-					return { ...prev, isValid };
-				}
-				return prev;
-			});
-		}, 1000); // Check every second
-
-		return () => clearInterval(validityCheckInterval);
-	}, [checkValidity]);
+		if (expiresAt === null || isExpired(expiresAt)) return;
 
-	/**
-	 * Effect: Schedule auto-renewal when session key is generated
-	 */
-	useEffect(() => {
-		scheduleAutoRenewal();
-		return () => clearRenewalTimer();
-	}, [scheduleAutoRenewal, clearRenewalTimer]);
+		const expiryTimer = setTimeout(
+			() => setExpiryTick((tick) => tick + 1),
+			expiresAt - Date.now(),
+		);
+		return () => clearTimeout(expiryTimer);
+	}, [expiresAt]);
 
 	/**
 	 * Calculate time until expiration
 	 */
-	const timeUntilExpiration = state.expiresAt
-		? Math.max(0, state.expiresAt - Date.now())
-		: null;
+	const timeUntilExpiration =
+		expiresAt !== null ? Math.max(0, expiresAt - Date.now()) : null;
 
 	return {
-		sessionKey: state.sessionKey,
-		isValid: state.isValid,
+		sessionKey,
+		isValid,
 		generateSessionKey,
-		isLoading: state.isLoading,
-		error: state.error,
+		isLoading: lifecycle.isRefreshing,
+		error,
 		timeUntilExpiration,
+		expiresAt,
+		pendingDecrypts: lifecycle.pendingDecrypts,
+		isEnded: lifecycle.ended,
+		generation: lifecycle.generation,
+		endSession,
 	};
 }
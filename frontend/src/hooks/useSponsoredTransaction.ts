@@ -0,0 +1,112 @@
+/**
+ * useSponsoredTransaction Hook
+ *
+ * Drop-in replacement for `useSignAndExecuteTransaction().mutateAsync` that
+ * lets the sponsor API pay gas for wallets without SUI
+ * (lib/sponsoredTransactions.ts).
+ *
+ * ## Flow
+ * - Sponsorship disabled, or the wallet holds enough SUI: the wallet signs
+ *   and executes as before
+ * - Otherwise: build the transaction kind → wallet signs it as a personal
+ *   message (proves the sender) → sponsor adds gas → wallet signs the
+ *   transaction → sponsor co-signs and executes
+ *
+ * ## Usage
+ * ```typescript
+ * const { signAndExecuteTransaction } = useSponsoredTransaction();
+ * const { digest } = await signAndExecuteTransaction({ transaction: tx });
+ * ```
+ */
+"use client";
+
+import {
+	useCurrentAccount,
+	useSignAndExecuteTransaction,
+	useSignPersonalMessage,
+	useSignTransaction,
+	useSuiClient,
+} from "@mysten/dapp-kit";
+import type { Transaction } from "@mysten/sui/transactions";
+import { useCallback } from "react";
+import {
+	executeSponsoredTransaction,
+	isSponsorshipEnabled,
+	requestSponsorship,
+	SELF_PAY_MIN_BALANCE_MIST,
+} from "@/lib/sponsoredTransactions";
+
+/**
+ * Hook return type
+ */
+export interface UseSponsoredTransactionReturn {
+	/** Sign and execute a transaction, sponsored if the wallet cannot pay gas */
+	signAndExecuteTransaction: (input: {
+		transaction: Transaction;
+	}) => Promise<{ digest: string }>;
+}
+
+/**
+ * Sponsored transaction hook
+ *
+ * @returns Sign-and-execute function
+ */
+export function useSponsoredTransaction(): UseSponsoredTransactionReturn {
+	const suiClient = useSuiClient();
+	const currentAccount = useCurrentAccount();
+	const { mutateAsync: walletSignAndExecute } = useSignAndExecuteTransaction();
+	const { mutateAsync: signTransaction } = useSignTransaction();
+	const { mutateAsync: signPersonalMessage } = useSignPersonalMessage();
+
+	const signAndExecuteTransaction = useCallback(
+		async ({ transaction }: { transaction: Transaction }) => {
+			const sender = currentAccount?.address;
+			if (!isSponsorshipEnabled() || !sender) {
+				return walletSignAndExecute({ transaction });
+			}
+
+			const { totalBalance } = await suiClient.getBalance({ owner: sender });
+			if (BigInt(totalBalance) >= SELF_PAY_MIN_BALANCE_MIST) {
+				return walletSignAndExecute({ transaction });
+			}
+
+			console.log(
+				`[Sponsor] Balance ${totalBalance} MIST, requesting sponsorship...`,
+			);
+			transaction.setSenderIfNotSet(sender);
+			const transactionKindBytes = await transaction.build({
+				client: suiClient,
+				onlyTransactionKind: true,
+			});
+			const { signature } = await signPersonalMessage({
+				message: transactionKindBytes,
+			});
+			const sponsored = await requestSponsorship({
+				sender,
+				transactionKindBytes,
+				signature,
+			});
+
+			const signed = await signTransaction({
+				transaction: sponsored.transactionBytes,
+			});
+			const result = await executeSponsoredTransaction({
+				transactionBytes: signed.bytes,
+				signature: signed.signature,
+			});
+			signed.reportTransactionEffects(result.rawEffects);
+
+			console.log(`[Sponsor] Sponsored transaction executed: ${result.digest}`);
+			return { digest: result.digest };
+		},
+		[
+			currentAccount,
+			suiClient,
+			walletSignAndExecute,
+			signTransaction,
+			signPersonalMessage,
+		],
+	);
+
+	return { signAndExecuteTransaction };
+}
@@ -0,0 +1,195 @@
+/**
+ * useStorageDashboard Hook (v3.0.0)
+ *
+ * Collects what the passport's Walrus storage consists of and what it has
+ * cost, for the storage dashboard in settings.
+ *
+ * ## Features
+ * - Usage: blob count and size per data type from the decrypted metadata
+ *   (requires a session key)
+ * - Spend: accumulated WAL cost from the local spend ledger
+ * - Rate: average price paid so far, used for renewal projections
+ * - Budget: read / update the user's storage budget
+ *
+ * ## Usage
+ * ```typescript
+ * const { scan, usage, spend, budget, setBudget } = useStorageDashboard();
+ *
+ * await scan();
+ * setBudget(5); // WAL
+ * ```
+ */
+"use client";
+
+import { useCurrentAccount, useSuiClient } from "@mysten/dapp-kit";
+import { useCallback, useEffect, useState } from "react";
+import { usePassport } from "@/hooks/usePassport";
+import { useSessionKeyManager } from "@/hooks/useSessionKeyManager";
+import { loadPassportMetadata } from "@/lib/metadataLoader";
+import { METADATA_DATA_TYPES } from "@/lib/storageExpiry";
+import {
+	FROST_PER_WAL,
+	getObservedStorageRate,
+	getStorageBudget,
+	loadStorageSpend,
+	type StorageSpendSummary,
+	setStorageBudget,
+	summarizeStorageSpend,
+} from "@/lib/storageSpend";
+import {
+	type DataTypeStorageUsage,
+	journalSizeLookup,
+	summarizeStorageUsage,
+} from "@/lib/storageUsage";
+import { loadUploadJournal } from "@/lib/uploadJournal";
+import type { BaseMetadata, BaseMetadataEntry } from "@/types/metadata";
+
+/**
+ * Dashboard progress stages
+ */
+export type StorageDashboardProgress = "idle" | "scanning" | "error";
+
+/**
+ * Hook return type
+ */
+export interface UseStorageDashboardReturn {
+	/** Aggregate blob sizes from the current metadata */
+	scan: () => Promise<DataTypeStorageUsage[]>;
+	/** Usage per data type from the last scan (null before the first scan) */
+	usage: DataTypeStorageUsage[] | null;
+	/** Accumulated spend (FROST) */
+	spend: StorageSpendSummary;
+	/** Observed price in FROST per KB per epoch (undefined if nothing paid yet) */
+	observedRate: number | undefined;
+	/** Storage budget (FROST), null when not set */
+	budget: number | null;
+	/** Set (WAL) or clear (null) the storage budget */
+	setBudget: (wal: number | null) => void;
+	/** Whether passport and session key are available for a scan */
+	isReady: boolean;
+	/** Current progress stage */
+	progress: StorageDashboardProgress;
+	/** Error message if the last scan failed */
+	error: string | null;
+}
+
+const EMPTY_SPEND: StorageSpendSummary = {
+	total: 0,
+	byDataType: {},
+	savedBytes: 0,
+};
+
+/**
+ * Storage usage / spend / budget hook
+ *
+ * @returns Dashboard state and controls
+ */
+export function useStorageDashboard(): UseStorageDashboardReturn {
+	const suiClient = useSuiClient();
+	const currentAccount = useCurrentAccount();
+	const { passport } = usePassport();
+	const { sessionKey } = useSessionKeyManager();
+
+	const [usage, setUsage] = useState<DataTypeStorageUsage[] | null>(null);
+	const [spend, setSpend] = useState<StorageSpendSummary>(EMPTY_SPEND);
+	const [observedRate, setObservedRate] = useState<number | undefined>();
+	const [budget, setBudgetState] = useState<number | null>(null);
+	const [progress, setProgress] = useState<StorageDashboardProgress>("idle");
+	const [error, setError] = useState<string | null>(null);
+
+	const owner = currentAccount?.address;
+
+	/**
+	 * Reload ledger and budget from localStorage
+	 */
+	const loadLocal = useCallback(() => {
+		if (!owner) {
+			setSpend(EMPTY_SPEND);
+			setObservedRate(undefined);
+			setBudgetState(null);
+			return;
+		}
+		const records = loadStorageSpend(owner);
+		setSpend(summarizeStorageSpend(records));
+		setObservedRate(getObservedStorageRate(records));
+		setBudgetState(getStorageBudget(owner));
+	}, [owner]);
+
+	useEffect(() => {
+		loadLocal();
+		setUsage(null);
+	}, [loadLocal]);
+
+	/**
+	 * Aggregate blob sizes from the current metadata
+	 */
+	const scan = useCallback(async (): Promise<DataTypeStorageUsage[]> => {
+		if (!passport || !sessionKey || !owner) {
+			throw new Error("Prerequisites not met");
+		}
+
+		setProgress("scanning");
+		setError(null);
+
+		try {
+			const metadata: Array<BaseMetadata<BaseMetadataEntry>> = [];
+			for (const dataType of METADATA_DATA_TYPES) {
+				const loaded = await loadPassportMetadata({
+					suiClient,
+					sessionKey,
+					passportId: passport.id,
+					dataType,
+				});
+				if (loaded) {
+					metadata.push(loaded.metadata);
+				}
+			}
+
+			const result = summarizeStorageUsage(
+				metadata,
+				journalSizeLookup(loadUploadJournal(owner)),
+			);
+			console.log(
+				`[StorageDashboard] ${result.reduce((sum, row) => sum + row.blobs, 0)} blob(s) in ${result.length} data type(s)`,
+			);
+
+			loadLocal();
+			setUsage(result);
+			setProgress("idle");
+			return result;
+		} catch (err) {
+			console.error("[StorageDashboard] Scan failed:", err);
+			const errorMessage =
+				err instanceof Error ? err.message : "Failed to load storage usage";
+			setError(errorMessage);
+			setProgress("error");
+			throw new Error(errorMessage);
+		}
+	}, [passport, sessionKey, owner, suiClient, loadLocal]);
+
+	/**
+	 * Set (WAL) or clear (null) the storage budget
+	 */
+	const setBudget = useCallback(
+		(wal: number | null) => {
+			if (!owner) {
+				throw new Error("Wallet not connected");
+			}
+			setStorageBudget(owner, wal === null ? null : wal * FROST_PER_WAL);
+			setBudgetState(getStorageBudget(owner));
+		},
+		[owner],
+	);
+
+	return {
+		scan,
+		usage,
+		spend,
+		observedRate,
+		budget,
+		setBudget,
+		isReady: Boolean(passport && sessionKey && currentAccount),
+		progress,
+		error,
+	};
+}
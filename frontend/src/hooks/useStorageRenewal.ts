@@ -0,0 +1,297 @@
+/**
+ * useStorageRenewal Hook (v3.0.0)
+ *
+ * Finds Walrus blobs that are expired or close to expiry and extends them.
+ *
+ * ## Features
+ * - Walk the metadata of every data type on the passport
+ * - Compare recorded end epochs (end_epoch / binary_end_epoch) with the
+ *   current Walrus epoch
+ * - One-call renewal: re-store affected blobs for more epochs, record the
+ *   new end epochs in metadata and update the SBT in a single transaction
+ *
+ * ## Renewal Flow
+ * 1. Re-store each affected blob (same content-addressed blob ID)
+ * 2. Write new end epochs into the metadata entries
+ * 3. Re-encrypt and upload the metadata blob (itself stored for the new period)
+ * 4. replace_data_entry for every renewed data type in one PTB
+ *
+ * ## Usage
+ * ```typescript
+ * const { checkExpiry, extendStorage, expiringBlobs } = useStorageRenewal();
+ *
+ * await checkExpiry();
+ * if (expiringBlobs.length > 0) {
+ *   await extendStorage();
+ * }
+ * ```
+ */
+"use client";
+
+import { useCurrentAccount, useSuiClient } from "@mysten/dapp-kit";
+import { useCallback, useState } from "react";
+import { usePassport } from "@/hooks/usePassport";
+import { useSessionKeyManager } from "@/hooks/useSessionKeyManager";
+import { useUpdatePassportData } from "@/hooks/useUpdatePassportData";
+import {
+	type LoadedMetadata,
+	loadPassportMetadata,
+} from "@/lib/metadataLoader";
+import {
+	createSealClient,
+	encryptHealthData,
+	getSealThreshold,
+} from "@/lib/seal";
+import { resolveSealId } from "@/lib/sealIdRotation";
+import {
+	applyRenewedEpochs,
+	type ExpiringBlob,
+	findExpiringBlobs,
+	METADATA_DATA_TYPES,
+} from "@/lib/storageExpiry";
+import {
+	DEFAULT_STORAGE_EPOCHS,
+	extendBlobStorage,
+	uploadToWalrus,
+} from "@/lib/walrus";
+import { getCurrentWalrusEpoch } from "@/lib/walrusSystem";
+import type { DataType } from "@/types/healthData";
+
+/**
+ * Renewal progress stages
+ */
+export type StorageRenewalProgress =
+	| "idle"
+	| "checking"
+	| "renewing_blobs"
+	| "uploading_metadata"
+	| "updating_passport"
+	| "completed"
+	| "error";
+
+/**
+ * Hook return type
+ */
+export interface UseStorageRenewalReturn {
+	/** Scan all data types for expired / expiring blobs */
+	checkExpiry: () => Promise<ExpiringBlob[]>;
+	/** Extend storage of every blob found by the last check */
+	extendStorage: (epochs?: number) => Promise<void>;
+	/** Blobs found by the last check */
+	expiringBlobs: ExpiringBlob[];
+	/** Current Walrus epoch at the last check */
+	currentEpoch: number | null;
+	/** Whether passport and session key are available for a check */
+	isReady: boolean;
+	/** Whether a check or renewal is running */
+	isBusy: boolean;
+	/** Current progress stage */
+	progress: StorageRenewalProgress;
+	/** Error message if the last operation failed */
+	error: string | null;
+}
+
+/**
+ * Walrus storage expiry check and renewal hook
+ *
+ * @returns Expiry state and renewal controls
+ */
+export function useStorageRenewal(): UseStorageRenewalReturn {
+	const suiClient = useSuiClient();
+	const currentAccount = useCurrentAccount();
+	const { passport } = usePassport();
+	const { sessionKey } = useSessionKeyManager();
+	const { updateMultiplePassportData } = useUpdatePassportData();
+
+	const [expiringBlobs, setExpiringBlobs] = useState<ExpiringBlob[]>([]);
+	const [metadataByType, setMetadataByType] = useState<
+		Map<DataType, LoadedMetadata>
+	>(new Map());
+	const [currentEpoch, setCurrentEpoch] = useState<number | null>(null);
+	const [progress, setProgress] = useState<StorageRenewalProgress>("idle");
+	const [error, setError] = useState<string | null>(null);
+
+	/**
+	 * Scan all data types for expired / expiring blobs
+	 */
+	const checkExpiry = useCallback(async (): Promise<ExpiringBlob[]> => {
+		if (!passport || !sessionKey) {
+			return [];
+		}
+
+		setProgress("checking");
+		setError(null);
+
+		try {
+			const epoch = await getCurrentWalrusEpoch(suiClient);
+			console.log(`[StorageRenewal] Current Walrus epoch: ${epoch}`);
+
+			const found: ExpiringBlob[] = [];
+			const loaded = new Map<DataType, LoadedMetadata>();
+
+			for (const dataType of METADATA_DATA_TYPES) {
+				const loadedMetadata = await loadPassportMetadata({
+					suiClient,
+					sessionKey,
+					passportId: passport.id,
+					dataType,
+				});
+				if (!loadedMetadata) {
+					continue;
+				}
+				const { metadata } = loadedMetadata;
+				const blobs = findExpiringBlobs(metadata, epoch);
+				if (blobs.length > 0) {
+					loaded.set(dataType, loadedMetadata);
+					found.push(...blobs);
+				}
+			}
+
+			console.log(
+				`[StorageRenewal] ${found.length} blob(s) expired or expiring`,
+			);
+
+			setCurrentEpoch(epoch);
+			setMetadataByType(loaded);
+			setExpiringBlobs(found);
+			setProgress("idle");
+			return found;
+		} catch (err) {
+			console.error("[StorageRenewal] Expiry check failed:", err);
+			const errorMessage =
+				err instanceof Error ? err.message : "Failed to check storage expiry";
+			setError(errorMessage);
+			setProgress("error");
+			throw new Error(errorMessage);
+		}
+	}, [passport, sessionKey, suiClient]);
+
+	/**
+	 * Extend storage of every blob found by the last check
+	 */
+	const extendStorage = useCallback(
+		async (epochs: number = DEFAULT_STORAGE_EPOCHS): Promise<void> => {
+			if (!passport || !currentAccount?.address) {
+				throw new Error("Prerequisites not met");
+			}
+			if (expiringBlobs.length === 0) {
+				return;
+			}
+
+			setError(null);
+
+			try {
+				// Step 1: Re-store affected blobs
+				setProgress("renewing_blobs");
+				const renewedByType = new Map<
+					DataType,
+					Array<{ blob: ExpiringBlob; endEpoch: number | undefined }>
+				>();
+				for (const blob of expiringBlobs) {
+					console.log(
+						`[StorageRenewal] Extending ${blob.dataType} ${blob.kind} blob ${blob.blobId}`,
+					);
+					const endEpoch = await extendBlobStorage(
+						blob.blobId,
+						blob.chunkManifest,
+						{
+							epochs,
+							owner: currentAccount.address,
+							dataType:
+								blob.kind === "binary" ? "imaging_binary" : blob.dataType,
+						},
+					);
+					const renewed = renewedByType.get(blob.dataType) ?? [];
+					renewed.push({ blob, endEpoch });
+					renewedByType.set(blob.dataType, renewed);
+				}
+
+				// Step 2-3: Record new end epochs and re-upload metadata
+				setProgress("uploading_metadata");
+				const sealClient = createSealClient(suiClient);
+				const threshold = getSealThreshold();
+				const dataEntries: Array<{
+					dataType: DataType;
+					metadataBlobId: string;
+					replace: boolean;
+					expectedMetadataBlobId: string;
+				}> = [];
+
+				for (const [dataType, renewed] of renewedByType) {
+					const loadedMetadata = metadataByType.get(dataType);
+					if (!loadedMetadata) {
+						continue;
+					}
+					const updatedMetadata = applyRenewedEpochs(
+						loadedMetadata.metadata,
+						renewed,
+					);
+					const sealId = await resolveSealId({
+						passportId: passport.id,
+						address: currentAccount.address,
+						dataType,
+					});
+					const { encryptedObject } = await encryptHealthData({
+						healthData: updatedMetadata as unknown as never,
+						sealClient,
+						sealId,
+						threshold,
+					});
+					const metadataRef = await uploadToWalrus(encryptedObject, {
+						epochs,
+						owner: currentAccount.address,
+						dataType,
+					});
+					dataEntries.push({
+						dataType,
+						metadataBlobId: metadataRef.blobId,
+						replace: true,
+						// Fails if a save landed since the check (renew again afterwards)
+						expectedMetadataBlobId: loadedMetadata.entry.metadataBlobId,
+					});
+				}
+
+				// Step 4: Point the SBT at the new metadata blobs
+				setProgress("updating_passport");
+				if (dataEntries.length > 0) {
+					await updateMultiplePassportData({
+						passportId: passport.id,
+						dataEntries,
+					});
+				}
+
+				console.log("[StorageRenewal] Storage extended successfully");
+				setExpiringBlobs([]);
+				setMetadataByType(new Map());
+				setProgress("completed");
+			} catch (err) {
+				console.error("[StorageRenewal] Renewal failed:", err);
+				const errorMessage =
+					err instanceof Error ? err.message : "Failed to extend storage";
+				setError(errorMessage);
+				setProgress("error");
+				throw new Error(errorMessage);
+			}
+		},
+		[
+			passport,
+			currentAccount,
+			expiringBlobs,
+			metadataByType,
+			suiClient,
+			updateMultiplePassportData,
+		],
+	);
+
+	return {
+		checkExpiry,
+		extendStorage,
+		expiringBlobs,
+		currentEpoch,
+		isReady: Boolean(passport && sessionKey),
+		isBusy:
+			progress !== "idle" && progress !== "completed" && progress !== "error",
+		progress,
+		error,
+	};
+}
@@ -9,10 +9,18 @@
  * - Call replace_data_entry contract function (replace existing data type)
  * - Transaction status management with error handling
  * - Single metadata blob ID per data type
+ * - Keeps the seal_id recorded on-chain (rotated types keep their identity)
+ * - Compare-and-swap replaces: with `expectedMetadataBlobId`, a save built
+ *   from stale metadata fails with DataEntryConflictError
+ * - Batches of several data types signed once, reconciled from the
+ *   transaction effects (lib/dataEntryBatch.ts)
+ * - Gas sponsored for wallets without SUI (lib/sponsoredTransactions.ts)
+ * - Consent tokens revoked in the same transaction (seal_id rotation)
  *
  * ## Contract Functions (v3.0.0)
  * - `add_data_entry(passport, data_type, seal_id, metadata_blob_id, clock)`
  * - `replace_data_entry(passport, data_type, seal_id, metadata_blob_id, clock)`
+ * - `replace_data_entry_if_current(passport, data_type, seal_id, metadata_blob_id, expected_metadata_blob_id, clock)`
  *
  * ## Usage
  * ```typescript
@@ -33,19 +41,40 @@
  *   metadataBlobId: "xyz...",
  *   replace: true, // replace mode
  * });
+ *
+ * // Several data types in one transaction
+ * let batch = createDataEntryBatch("0x123...");
+ * batch = addDataEntryWrite(batch, {
+ *   dataType: "basic_profile",
+ *   metadataBlobId: "xyz...",
+ *   replace: true,
+ *   reconcile: () => updateProfile(profile),
+ * });
+ * await commitDataEntryBatch(batch);
  * ```
  */
 "use client";
 
-import { fromHex } from "@mysten/bcs";
-import {
-	useCurrentAccount,
-	useSignAndExecuteTransaction,
-	useSuiClient,
-} from "@mysten/dapp-kit";
+import { useCurrentAccount, useSuiClient } from "@mysten/dapp-kit";
 import { Transaction } from "@mysten/sui/transactions";
 import { useCallback, useState } from "react";
-import { generateSealId } from "@/lib/sealIdGenerator";
+import { useSponsoredTransaction } from "@/hooks/useSponsoredTransaction";
+import { addRevokeConsentTokenCalls } from "@/lib/consentTokens";
+import {
+	addDataEntryCall,
+	addDataEntryWrite,
+	buildDataEntryBatchTransaction,
+	createDataEntryBatch,
+	type DataEntryBatch,
+	reconcileDataEntryBatch,
+} from "@/lib/dataEntryBatch";
+import {
+	assertTransactionSucceeded,
+	DataEntryConflictError,
+	isDataEntryConflictAbort,
+} from "@/lib/dataEntryConflict";
+import { resolveSealId } from "@/lib/sealIdRotation";
+import type { EntryData } from "@/lib/suiClient";
 import type { DataType } from "@/types/healthData";
 
 // Re-export DataType for backward compatibility
@@ -62,11 +91,6 @@ function getPackageId(): string {
 	return packageId;
 }
 
-/**
- * Sui Clock object ID (shared system object)
- */
-const SUI_CLOCK_OBJECT_ID = "0x6";
-
 /**
  * Update parameters for Dynamic Fields (v3.0.0)
  */
@@ -79,6 +103,12 @@ export interface UpdatePassportParams {
 	metadataBlobId: string;
 	/** If true, use replace_data_entry; if false, use add_data_entry */
 	replace?: boolean;
+	/** seal_id to record (default: the current on-chain one, or the derived one for new types) */
+	sealId?: string;
+	/** Metadata blob ID the save was built from (replace only; aborts if the SBT moved on) */
+	expectedMetadataBlobId?: string;
+	/** ConsentTokens to revoke in the same transaction (seal_id rotation) */
+	revokeConsentTokenIds?: string[];
 }
 
 /**
@@ -92,6 +122,10 @@ export interface UpdateMultiplePassportParams {
 		dataType: DataType | string;
 		metadataBlobId: string;
 		replace: boolean;
+		/** seal_id to record (default: as in UpdatePassportParams) */
+		sealId?: string;
+		/** Metadata blob ID the save was built from (as in UpdatePassportParams) */
+		expectedMetadataBlobId?: string;
 	}>;
 }
 
@@ -105,6 +139,10 @@ export interface UseUpdatePassportDataReturn {
 	updateMultiplePassportData: (
 		params: UpdateMultiplePassportParams,
 	) => Promise<void>;
+	/** Sign a batch once and reconcile its writes (returns EntryData per data type) */
+	commitDataEntryBatch: (
+		batch: DataEntryBatch,
+	) => Promise<Record<string, EntryData>>;
 	/** Whether update transaction is in progress */
 	isUpdating: boolean;
 	/** Error message if update failed */
@@ -121,8 +159,7 @@ export interface UseUpdatePassportDataReturn {
 export function useUpdatePassportData(): UseUpdatePassportDataReturn {
 	const suiClient = useSuiClient();
 	const currentAccount = useCurrentAccount();
-	const { mutateAsync: signAndExecuteTransaction } =
-		useSignAndExecuteTransaction();
+	const { signAndExecuteTransaction } = useSponsoredTransaction();
 
 	const [isUpdating, setIsUpdating] = useState(false);
 	const [error, setError] = useState<string | null>(null);
@@ -152,8 +189,14 @@ export function useUpdatePassportData(): UseUpdatePassportDataReturn {
 			try {
 				const packageId = getPackageId();
 
-				// Generate seal_id from wallet address and data type
-				const sealId = await generateSealId(currentAccount.address, dataType);
+				// Keep the on-chain seal_id (derived from address and data type for new types)
+				const sealId =
+					params.sealId ??
+					(await resolveSealId({
+						passportId,
+						address: currentAccount.address,
+						dataType,
+					}));
 
 				console.log("[UpdatePassport] Preparing transaction (v3.0.0)...");
 				console.log(`  Passport ID: ${passportId}`);
@@ -161,22 +204,26 @@ export function useUpdatePassportData(): UseUpdatePassportDataReturn {
 				console.log(`  Seal ID: ${sealId}`);
 				console.log(`  Metadata Blob ID: ${metadataBlobId}`);
 				console.log(`  Mode: ${replace ? "replace" : "add"}`);
+				if (replace && params.expectedMetadataBlobId) {
+					console.log(`  Expected Blob ID: ${params.expectedMetadataBlobId}`);
+				}
 
 				// Build transaction
 				const tx = new Transaction();
-
-				// Use add_data_entry or replace_data_entry (v3.0.0: metadata_blob_id)
-				const functionName = replace ? "replace_data_entry" : "add_data_entry";
-				tx.moveCall({
-					target: `${packageId}::accessor::${functionName}`,
-					arguments: [
-						tx.object(passportId), // passport
-						tx.pure.string(dataType), // data_type
-						tx.pure.vector("u8", Array.from(fromHex(sealId))), // seal_id (vector<u8>)
-						tx.pure.string(metadataBlobId), // metadata_blob_id (String)
-						tx.object(SUI_CLOCK_OBJECT_ID), // clock
-					],
+				addDataEntryCall(tx, packageId, {
+					passportId,
+					dataType,
+					sealId,
+					metadataBlobId,
+					replace,
+					expectedMetadataBlobId: params.expectedMetadataBlobId,
 				});
+				if (params.revokeConsentTokenIds?.length) {
+					console.log(
+						`  Revoking Consent Tokens: ${params.revokeConsentTokenIds.length}`,
+					);
+					addRevokeConsentTokenCalls(tx, params.revokeConsentTokenIds);
+				}
 
 				console.log("[UpdatePassport] Executing transaction...");
 
@@ -189,12 +236,13 @@ export function useUpdatePassportData(): UseUpdatePassportDataReturn {
 				console.log(`[UpdatePassport] Transaction successful: ${txDigest}`);
 
 				// Wait for transaction to be finalized
-				await suiClient.waitForTransaction({
+				const finalized = await suiClient.waitForTransaction({
 					digest: txDigest,
 					options: {
 						showEffects: true,
 					},
 				});
+				assertTransactionSucceeded(finalized.effects);
 
 				console.log("[UpdatePassport] Transaction finalized");
 
@@ -203,6 +251,13 @@ export function useUpdatePassportData(): UseUpdatePassportDataReturn {
 			} catch (err) {
 				console.error("[UpdatePassport] Update failed:", err);
 
+				if (isDataEntryConflictAbort(err)) {
+					const conflict = new DataEntryConflictError(dataType);
+					setError(conflict.message);
+					setIsUpdating(false);
+					throw conflict;
+				}
+
 				const errorMessage =
 					err instanceof Error ? err.message : "Failed to update passport data";
 				setError(errorMessage);
@@ -214,11 +269,12 @@ export function useUpdatePassportData(): UseUpdatePassportDataReturn {
 	);
 
 	/**
-	 * Update multiple data types in a single transaction (v3.0.0)
+	 * Sign all writes of a batch as one transaction, then reconcile each data
+	 * type from the transaction effects
 	 */
-	const updateMultiplePassportData = useCallback(
-		async (params: UpdateMultiplePassportParams) => {
-			const { passportId, dataEntries } = params;
+	const commitDataEntryBatch = useCallback(
+		async (batch: DataEntryBatch): Promise<Record<string, EntryData>> => {
+			const { passportId, writes } = batch;
 
 			// Validate: wallet must be connected
 			if (!currentAccount?.address) {
@@ -226,19 +282,10 @@ export function useUpdatePassportData(): UseUpdatePassportDataReturn {
 			}
 
 			// Validate: at least one data entry must be provided
-			if (!dataEntries || dataEntries.length === 0) {
+			if (writes.length === 0) {
 				throw new Error("At least one data entry must be provided");
 			}
 
-			// Validate: all data entries must have metadata blob ID
-			for (const entry of dataEntries) {
-				if (!entry.metadataBlobId) {
-					throw new Error(
-						`Data type "${entry.dataType}" must have a metadata blob ID`,
-					);
-				}
-			}
-
 			setIsUpdating(true);
 			setError(null);
 			setDigest(null);
@@ -250,37 +297,28 @@ export function useUpdatePassportData(): UseUpdatePassportDataReturn {
 					"[UpdateMultiplePassport] Preparing batch transaction (v3.0.0)...",
 				);
 				console.log(`  Passport ID: ${passportId}`);
-				console.log(`  Data Entries: ${dataEntries.length}`);
-				for (const entry of dataEntries) {
+				console.log(`  Data Entries: ${writes.length}`);
+				for (const write of writes) {
 					console.log(
-						`    - ${entry.dataType}: ${entry.metadataBlobId} (${entry.replace ? "replace" : "add"})`,
+						`    - ${write.dataType}: ${write.metadataBlobId} (${write.replace ? "replace" : "add"})`,
 					);
 				}
 
-				// Build transaction with multiple move calls
-				const tx = new Transaction();
-
-				for (const entry of dataEntries) {
-					// Generate seal_id for each data type
-					const sealId = await generateSealId(
-						currentAccount.address,
-						entry.dataType,
-					);
-					const functionName = entry.replace
-						? "replace_data_entry"
-						: "add_data_entry";
-					tx.moveCall({
-						target: `${packageId}::accessor::${functionName}`,
-						arguments: [
-							tx.object(passportId), // passport
-							tx.pure.string(entry.dataType), // data_type
-							tx.pure.vector("u8", Array.from(fromHex(sealId))), // seal_id (vector<u8>)
-							tx.pure.string(entry.metadataBlobId), // metadata_blob_id (String)
-							tx.object(SUI_CLOCK_OBJECT_ID), // clock
-						],
-					});
+				// Keep the on-chain seal_id of each data type
+				const sealIds: Record<string, string> = {};
+				for (const write of writes) {
+					if (!write.sealId) {
+						sealIds[write.dataType] = await resolveSealId({
+							passportId,
+							address: currentAccount.address,
+							dataType: write.dataType,
+						});
+					}
 				}
 
+				// Build transaction with multiple move calls
+				const tx = buildDataEntryBatchTransaction(batch, packageId, sealIds);
+
 				console.log("[UpdateMultiplePassport] Executing batch transaction...");
 
 				// Execute transaction
@@ -294,20 +332,44 @@ export function useUpdatePassportData(): UseUpdatePassportDataReturn {
 				);
 
 				// Wait for transaction to be finalized
-				await suiClient.waitForTransaction({
+				const finalized = await suiClient.waitForTransaction({
 					digest: txDigest,
 					options: {
 						showEffects: true,
+						showObjectChanges: true,
 					},
 				});
 
+				assertTransactionSucceeded(finalized.effects);
+
 				console.log("[UpdateMultiplePassport] Batch transaction finalized");
 
 				setDigest(txDigest);
 				setIsUpdating(false);
+
+				// The transaction succeeded: a failed reconcile is left to the next load
+				try {
+					return await reconcileDataEntryBatch({
+						suiClient,
+						batch,
+						objectChanges: finalized.objectChanges ?? [],
+					});
+				} catch (err) {
+					console.error("[UpdateMultiplePassport] Reconcile failed:", err);
+					return {};
+				}
 			} catch (err) {
 				console.error("[UpdateMultiplePassport] Batch update failed:", err);
 
+				if (isDataEntryConflictAbort(err)) {
+					const conflict = new DataEntryConflictError(
+						writes.map((write) => write.dataType).join(", "),
+					);
+					setError(conflict.message);
+					setIsUpdating(false);
+					throw conflict;
+				}
+
 				const errorMessage =
 					err instanceof Error
 						? err.message
@@ -320,9 +382,33 @@ export function useUpdatePassportData(): UseUpdatePassportDataReturn {
 		[currentAccount, signAndExecuteTransaction, suiClient],
 	);
 
+	/**
+	 * Update multiple data types in a single transaction (v3.0.0)
+	 */
+	const updateMultiplePassportData = useCallback(
+		async (params: UpdateMultiplePassportParams) => {
+			const { passportId, dataEntries } = params;
+
+			// Validate: at least one data entry must be provided
+			if (!dataEntries || dataEntries.length === 0) {
+				throw new Error("At least one data entry must be provided");
+			}
+
+			// Validate: all data entries must have metadata blob ID
+			let batch = createDataEntryBatch(passportId);
+			for (const entry of dataEntries) {
+				batch = addDataEntryWrite(batch, entry);
+			}
+
+			await commitDataEntryBatch(batch);
+		},
+		[commitDataEntryBatch],
+	);
+
 	return {
 		updatePassportData,
 		updateMultiplePassportData,
+		commitDataEntryBatch,
 		isUpdating,
 		error,
 		digest,
@@ -8,8 +8,10 @@
  * - Monthly partitioning: one data blob per month
  * - Metadata blob stores month references (no need to decrypt all blobs)
  * - Replace per-month blob (no history accumulation)
- * - Encrypt with Seal, upload to Walrus
- * - Update SBT Dynamic Field
+ * - Only months that changed on this device are saved, so months edited on
+ *   another device are merged instead of overwritten (see lib/outbox.ts)
+ * - Encrypt with Seal, then queue in the outbox (upload to Walrus and SBT
+ *   update are retried until they succeed)
  *
  * ## Architecture (v3.0.0)
  * - SBT DataEntry → メタデータBlob → データBlob[]
@@ -26,9 +28,16 @@
  */
 "use client";
 
+import { useCurrentAccount } from "@mysten/dapp-kit";
+import { useTranslations } from "next-intl";
 import { useCallback, useState } from "react";
+import { toast } from "sonner";
+import { v4 as uuidv4 } from "uuid";
 import { useApp } from "@/contexts/AppContext";
+import { useOutbox } from "@/contexts/OutboxContext";
 import { useMetadataManager } from "@/hooks/useMetadataManager";
+import { usePassport } from "@/hooks/usePassport";
+import { getBaseEntries, type OutboxItemInput } from "@/lib/outbox";
 import { vitalsToSelfMetrics } from "@/lib/profileConverter";
 import type { VitalSign } from "@/types";
 import type { SelfMetricsData } from "@/types/healthData";
@@ -61,6 +70,25 @@ function groupVitalsByMonth(vitals: VitalSign[]): Map<string, VitalSign[]> {
 	return groups;
 }
 
+/**
+ * Months whose vitals differ between two vitals lists
+ */
+function getChangedMonths(
+	previous: Map<string, VitalSign[]>,
+	updated: Map<string, VitalSign[]>,
+): Set<string> {
+	const changed = new Set<string>();
+	for (const monthKey of new Set([...previous.keys(), ...updated.keys()])) {
+		if (
+			JSON.stringify(previous.get(monthKey) ?? []) !==
+			JSON.stringify(updated.get(monthKey) ?? [])
+		) {
+			changed.add(monthKey);
+		}
+	}
+	return changed;
+}
+
 /**
  * Extract unique vital sign types from vitals array
  * Maps VitalSign.type (kebab-case) to VitalSignType (snake_case)
@@ -113,7 +141,11 @@ export function useVitalsPersistence(): UseVitalsPersistenceReturn {
 	const metadataManager = useMetadataManager<SelfMetricsMetadataEntry>({
 		dataType: "self_metrics",
 	});
-	const { setVitalSigns } = useApp();
+	const { vitalSigns, setVitalSigns } = useApp();
+	const { enqueue } = useOutbox();
+	const { passport } = usePassport();
+	const currentAccount = useCurrentAccount();
+	const t = useTranslations();
 
 	const [isSaving, setIsSaving] = useState(false);
 	const [error, setError] = useState<string | null>(null);
@@ -131,8 +163,12 @@ export function useVitalsPersistence(): UseVitalsPersistenceReturn {
 					`[VitalsPersistence] Starting persistence for ${updatedVitals.length} vitals`,
 				);
 
+				if (!passport || !currentAccount?.address) {
+					throw new Error("Prerequisites not met");
+				}
+
 				// Load existing metadata (or create new)
-				let metadata: SelfMetricsMetadata =
+				const metadata: SelfMetricsMetadata =
 					(await metadataManager.loadMetadata()) ||
 					createEmptyMetadata("self_metrics");
 
@@ -142,72 +178,73 @@ export function useVitalsPersistence(): UseVitalsPersistenceReturn {
 
 				// Group updated vitals by month
 				const vitalsByMonth = groupVitalsByMonth(updatedVitals);
-				console.log(
-					`[VitalsPersistence] Updated vitals span ${vitalsByMonth.size} month(s)`,
+				const changedMonths = getChangedMonths(
+					groupVitalsByMonth(vitalSigns),
+					vitalsByMonth,
 				);
-
-				// Track which months need processing
-				const existingMonthKeys = new Set(
-					(metadata.entries || []).map((e) => e.month_key),
+				console.log(
+					`[VitalsPersistence] Updated vitals span ${vitalsByMonth.size} month(s), ${changedMonths.size} changed`,
 				);
-				const newMonthKeys = new Set(vitalsByMonth.keys());
 
-				// Find months to delete (exist in metadata but not in new vitals)
-				const monthsToDelete = [...existingMonthKeys].filter(
-					(key) => !newMonthKeys.has(key),
+				// Months emptied on this device (months only another device has are kept)
+				const monthsToDelete = [...changedMonths].filter(
+					(key) => !vitalsByMonth.has(key),
 				);
 
-				// Find months to add/update
-				const monthsToProcess = [...newMonthKeys];
-
-				// Process deleted months
-				for (const monthKey of monthsToDelete) {
-					console.log(`[VitalsPersistence] Removing month ${monthKey}`);
-					metadata = metadataManager.removeEntry(
-						metadata,
-						monthKey,
-						"month_key",
-					);
-				}
-
-				// Process each month with data
-				for (const monthKey of monthsToProcess) {
-					const monthVitals = vitalsByMonth.get(monthKey);
-					if (!monthVitals || monthVitals.length === 0) {
+				// Encrypt each changed month (uploaded via the outbox)
+				const partitions: OutboxItemInput["partitions"] = [];
+				for (const [monthKey, monthVitals] of vitalsByMonth) {
+					if (!changedMonths.has(monthKey)) {
 						continue;
 					}
-
 					console.log(
-						`[VitalsPersistence] Processing month ${monthKey} with ${monthVitals.length} vitals`,
+						`[VitalsPersistence] Encrypting month ${monthKey} with ${monthVitals.length} vitals`,
 					);
 
 					// Convert to SelfMetricsData
 					const metricsData = vitalsToSelfMetrics(monthVitals);
 
-					// Upload data blob (encrypted)
-					const blobId =
-						await metadataManager.uploadDataBlob<SelfMetricsData>(metricsData);
-					console.log(
-						`[VitalsPersistence] Uploaded month ${monthKey}, blobId: ${blobId}`,
-					);
-
-					// Create metadata entry
-					const entry: SelfMetricsMetadataEntry = {
-						blob_id: blobId,
-						month_key: monthKey,
+					const entry = {
 						record_count: monthVitals.length,
 						types: extractVitalTypes(monthVitals),
-					};
+					} satisfies Partial<SelfMetricsMetadataEntry>;
+
+					partitions.push({
+						key: monthKey,
+						payload:
+							await metadataManager.encryptDataBlob<SelfMetricsData>(
+								metricsData,
+							),
+						entry,
+					});
+				}
 
-					// Upsert entry (add or replace by month_key)
-					metadata = metadataManager.upsertEntry(metadata, entry, "month_key");
+				if (partitions.length === 0 && monthsToDelete.length === 0) {
+					console.log("[VitalsPersistence] No month changed, nothing to save");
+					setVitalSigns(updatedVitals);
+					return;
 				}
 
-				// Save metadata (encrypts and uploads to Walrus, updates SBT)
+				// Queue the save (upsert by month_key, remove deleted months)
 				console.log(
-					`[VitalsPersistence] Saving metadata with ${metadata.entries?.length ?? 0} entries`,
+					`[VitalsPersistence] Queueing ${partitions.length} month(s), removing ${monthsToDelete.length}`,
 				);
-				await metadataManager.saveMetadata(metadata);
+				const result = await enqueue({
+					id: uuidv4(),
+					owner: currentAccount.address,
+					passportId: passport.id,
+					dataType: "self_metrics",
+					partitionField: "month_key",
+					partitions,
+					removedPartitions: monthsToDelete,
+					baseEntries: getBaseEntries(metadata.entries || [], "month_key", [
+						...changedMonths,
+					]),
+				});
+
+				if (result === "queued") {
+					toast.info(t("storage.outbox.queued"));
+				}
 
 				// Update local state
 				setVitalSigns(updatedVitals);
@@ -223,7 +260,15 @@ export function useVitalsPersistence(): UseVitalsPersistenceReturn {
 				setIsSaving(false);
 			}
 		},
-		[metadataManager, setVitalSigns],
+		[
+			metadataManager,
+			passport,
+			currentAccount,
+			enqueue,
+			vitalSigns,
+			setVitalSigns,
+			t,
+		],
 	);
 
 	return {
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { unwrapBackupKeyWith, wrapBackupKeyWith } from "../backupKeyStore";
+
+function deviceKey(): Promise<CryptoKey> {
+	return crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, [
+		"encrypt",
+		"decrypt",
+	]);
+}
+
+describe("バックアップ鍵の端末鍵による保護", () => {
+	it("包んだ鍵は元の鍵を含まず、同じ端末鍵で元に戻せる", async () => {
+		const key = crypto.getRandomValues(new Uint8Array(32));
+		const device = await deviceKey();
+
+		const wrapped = await wrapBackupKeyWith(device, key);
+
+		expect(Buffer.from(wrapped.ciphertext).includes(Buffer.from(key))).toBe(
+			false,
+		);
+		expect(await unwrapBackupKeyWith(device, wrapped)).toEqual(key);
+	});
+
+	it("別の端末鍵では開けない", async () => {
+		const key = crypto.getRandomValues(new Uint8Array(32));
+		const wrapped = await wrapBackupKeyWith(await deviceKey(), key);
+
+		await expect(
+			unwrapBackupKeyWith(await deviceKey(), wrapped),
+		).rejects.toThrow("device key does not match");
+	});
+});
@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+import type { UploadJournalEntry } from "@/lib/uploadJournal";
+import type {
+	BaseMetadata,
+	BaseMetadataEntry,
+	ChunkManifest,
+	ImagingMetadataEntry,
+} from "@/types/metadata";
+import {
+	collectReachableBlobIds,
+	findOrphanedBlobs,
+	ORPHAN_GRACE_PERIOD_MS,
+} from "../blobGc";
+import { createOutboxItem, getOutboxItemBlobIds } from "../outbox";
+
+const NOW = 1_700_000_000_000;
+const OLD = NOW - ORPHAN_GRACE_PERIOD_MS - 1;
+
+function journalEntry(
+	blobId: string,
+	overrides: Partial<UploadJournalEntry> = {},
+): UploadJournalEntry {
+	return {
+		blobId,
+		objectId: `0x${blobId}`,
+		size: 100,
+		uploadedAt: OLD,
+		...overrides,
+	};
+}
+
+function manifestOf(...chunkIds: string[]): ChunkManifest {
+	return {
+		manifest_version: 1,
+		total_size: chunkIds.length,
+		chunk_size: 1,
+		sha256: "",
+		chunks: chunkIds.map((blob_id, index) => ({
+			index,
+			blob_id,
+			size: 1,
+			sha256: "",
+		})),
+	};
+}
+
+function metadataWith(
+	entries: BaseMetadataEntry[],
+): BaseMetadata<BaseMetadataEntry> {
+	return {
+		schema_version: "3.0.0",
+		data_type: "medications",
+		updated_at: 0,
+		entries,
+	};
+}
+
+describe("collectReachableBlobIds", () => {
+	it("SBTのルート、entryのblob_id、チャンクを到達可能とする", () => {
+		const reachable = collectReachableBlobIds({
+			rootBlobIds: ["meta"],
+			metadata: [
+				metadataWith([
+					{ blob_id: "data1" },
+					{ blob_id: "manifest", chunk_manifest: manifestOf("c0", "c1") },
+				]),
+			],
+		});
+
+		expect([...reachable].sort()).toEqual(
+			["c0", "c1", "data1", "manifest", "meta"].sort(),
+		);
+	});
+
+	it("imaging_metaのbinary_blob_idとバイナリのチャンクも含める", () => {
+		const entry: ImagingMetadataEntry = {
+			blob_id: "imgmeta",
+			study_id: "s1",
+			study_date: "2025-01-01",
+			modality: "CT",
+			body_part: "chest",
+			binary_blob_id: "binmanifest",
+			binary_chunk_manifest: manifestOf("b0"),
+		};
+
+		const reachable = collectReachableBlobIds({
+			rootBlobIds: [],
+			metadata: [metadataWith([entry])],
+		});
+
+		expect(reachable.has("binmanifest")).toBe(true);
+		expect(reachable.has("b0")).toBe(true);
+	});
+});
+
+describe("未反映の保存", () => {
+	it("アウトボックスのアップロード済みblobは猶予期間を過ぎても孤立扱いしない", () => {
+		const item = {
+			...createOutboxItem(
+				{
+					id: "save-1",
+					owner: "0xabc",
+					passportId: "0xpassport",
+					dataType: "self_metrics",
+					partitionField: "month_key",
+					partitions: [
+						{ key: "2025-01", payload: new Uint8Array([1]), entry: {} },
+						{ key: "2025-02", payload: new Uint8Array([2]), entry: {} },
+					],
+				},
+				OLD,
+			),
+			metadataBlobId: "queued-meta",
+		};
+		item.partitions[0] = {
+			key: "2025-01",
+			entry: {},
+			blob: { blob_id: "queued-manifest", chunk_manifest: manifestOf("q0") },
+		};
+
+		const reachable = collectReachableBlobIds({
+			rootBlobIds: ["meta"],
+			metadata: [],
+			pendingBlobIds: getOutboxItemBlobIds(item),
+		});
+		const journal = [
+			journalEntry("queued-meta"),
+			journalEntry("queued-manifest"),
+			journalEntry("q0", { manifestBlobId: "queued-manifest" }),
+			journalEntry("old-data"),
+		];
+
+		expect(
+			findOrphanedBlobs(journal, reachable, NOW).map((entry) => entry.blobId),
+		).toEqual(["old-data"]);
+	});
+});
+
+describe("findOrphanedBlobs", () => {
+	const reachable = new Set(["meta", "data1", "manifest"]);
+
+	it("到達不能なblobのみを古い順に返す", () => {
+		const journal = [
+			journalEntry("old-data", { uploadedAt: OLD - 10 }),
+			journalEntry("data1"),
+			journalEntry("old-meta", { uploadedAt: OLD - 20 }),
+		];
+
+		const orphans = findOrphanedBlobs(journal, reachable, NOW);
+
+		expect(orphans.map((entry) => entry.blobId)).toEqual([
+			"old-meta",
+			"old-data",
+		]);
+	});
+
+	it("到達可能なマニフェストのチャンクは孤立扱いしない", () => {
+		const journal = [
+			journalEntry("c0", { manifestBlobId: "manifest" }),
+			journalEntry("x0", { manifestBlobId: "old-manifest" }),
+		];
+
+		const orphans = findOrphanedBlobs(journal, reachable, NOW);
+
+		expect(orphans.map((entry) => entry.blobId)).toEqual(["x0"]);
+	});
+
+	it("猶予期間内にアップロードされたblobは対象外", () => {
+		const journal = [journalEntry("fresh", { uploadedAt: NOW - 1000 })];
+
+		expect(findOrphanedBlobs(journal, reachable, NOW)).toEqual([]);
+	});
+});
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { MedicationsMetadataEntry } from "@/types/metadata";
+import {
+	BlobIntegrityError,
+	downloadEntryBlob,
+	getEntryPartitionKey,
+	onBlobIntegrityError,
+} from "../blobIntegrity";
+import { toEntryBlobFields, uploadToWalrus } from "../walrus";
+import { createInMemoryWalrusTransport } from "../walrusMemory";
+import { setWalrusTransport } from "../walrusTransport";
+
+function medicationsEntry(
+	fields: Pick<MedicationsMetadataEntry, "blob_id" | "sha256">,
+): MedicationsMetadataEntry {
+	return {
+		...fields,
+		prescription_id: "rx-2025-01",
+		prescription_date: "2025-01-10",
+		clinic: "Clinic",
+		medication_count: 1,
+	};
+}
+
+describe("getEntryPartitionKey", () => {
+	it("データ種ごとのパーティションキーを返す", () => {
+		expect(getEntryPartitionKey(medicationsEntry({ blob_id: "b" }))).toBe(
+			"rx-2025-01",
+		);
+		expect(getEntryPartitionKey({ blob_id: "b" })).toBeUndefined();
+	});
+});
+
+describe("downloadEntryBlob", () => {
+	beforeEach(() => {
+		setWalrusTransport(createInMemoryWalrusTransport());
+	});
+
+	afterEach(() => {
+		setWalrusTransport(null);
+	});
+
+	it("アップロード時に記録したSHA-256で検証して取得できる", async () => {
+		const data = new Uint8Array([1, 2, 3, 4]);
+		const ref = await uploadToWalrus(data);
+
+		const entry = medicationsEntry(toEntryBlobFields(ref));
+
+		expect(entry.sha256).toMatch(/^[0-9a-f]{64}$/);
+		expect(await downloadEntryBlob(entry, "medications")).toEqual(data);
+	});
+
+	it("差し替えられたBlobはデータ種とパーティションを含む整合性エラーになる", async () => {
+		const original = await uploadToWalrus(new Uint8Array([1, 2, 3]));
+		const substitute = await uploadToWalrus(new Uint8Array([9, 9, 9]));
+		const entry = medicationsEntry({
+			blob_id: substitute.blobId,
+			sha256: original.sha256,
+		});
+		const listener = vi.fn();
+		const unsubscribe = onBlobIntegrityError(listener);
+
+		const error = await downloadEntryBlob(entry, "medications").catch(
+			(err: unknown) => err,
+		);
+		unsubscribe();
+
+		expect(error).toBeInstanceOf(BlobIntegrityError);
+		expect((error as BlobIntegrityError).dataType).toBe("medications");
+		expect((error as BlobIntegrityError).partition).toBe("rx-2025-01");
+		expect((error as Error).message).toContain("medications (rx-2025-01)");
+		expect(listener).toHaveBeenCalledWith(error);
+	});
+
+	it("ハッシュ未記録の旧entryは検証せずに取得する", async () => {
+		const data = new Uint8Array([5, 6]);
+		const ref = await uploadToWalrus(data);
+
+		expect(
+			await downloadEntryBlob({ blob_id: ref.blobId }, "conditions"),
+		).toEqual(data);
+	});
+});
@@ -0,0 +1,77 @@
+import type { SuiClient } from "@mysten/sui/client";
+import { describe, expect, it } from "vitest";
+import { getAccessScope, listConsentAccesses } from "../consentAccessLog";
+
+const NONCE = "0102030405060708090a0b0c0d0e0f10";
+const PACKAGE = `0x${"3".repeat(64)}`;
+const DOCTOR = `0x${"4".repeat(64)}`;
+
+function accessEvent(tokenId: string, scope: string, timestamp: number) {
+	return {
+		parsedJson: {
+			token_id: tokenId,
+			passport_id: "0xp",
+			accessor: DOCTOR,
+			scope,
+			success: true,
+			timestamp_ms: String(timestamp),
+		},
+	};
+}
+
+describe("getAccessScope", () => {
+	it("データ種全体が共有されていればデータ種のスコープを使う", () => {
+		expect(getAccessScope(["medications"], "medications")).toBe("medications");
+		expect(getAccessScope(["medications"], "medications", NONCE)).toBe(
+			"medications",
+		);
+		expect(getAccessScope([`medications#${NONCE}`], "medications", NONCE)).toBe(
+			`medications#${NONCE}`,
+		);
+	});
+});
+
+describe("listConsentAccesses", () => {
+	it("トークンの型から得たイベント型で検索し、対象トークンの記録を新しい順に返す", async () => {
+		const queries: unknown[] = [];
+		const pages = [
+			{
+				data: [
+					accessEvent("0xa", "medications", 100),
+					accessEvent("0xother", "medications", 150),
+					{ parsedJson: { token_id: "0xa" } },
+				],
+				hasNextPage: true,
+				nextCursor: { txDigest: "d", eventSeq: "1" },
+			},
+			{
+				data: [accessEvent("0xb", `lab_results#${NONCE}`, 200)],
+				hasNextPage: false,
+				nextCursor: null,
+			},
+		];
+		const suiClient = {
+			getObject: async () => ({
+				data: { type: `${PACKAGE}::consent_token::ConsentToken` },
+			}),
+			queryEvents: async (params: { query: unknown }) => {
+				queries.push(params.query);
+				return pages[queries.length - 1];
+			},
+		} as unknown as SuiClient;
+
+		const records = await listConsentAccesses({
+			suiClient,
+			tokenIds: ["0xa", "0xb"],
+		});
+
+		expect(queries[0]).toEqual({
+			MoveEventType: `${PACKAGE}::consent_token::ConsentAccessLoggedEvent`,
+		});
+		expect(records.map((r) => [r.tokenId, r.scope, r.timestamp])).toEqual([
+			["0xb", `lab_results#${NONCE}`, 200],
+			["0xa", "medications", 100],
+		]);
+		expect(records[0].accessor).toBe(DOCTOR);
+	});
+});
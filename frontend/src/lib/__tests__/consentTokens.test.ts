@@ -0,0 +1,346 @@
+import type {
+	SuiClient,
+	SuiMoveNormalizedType,
+	SuiObjectData,
+} from "@mysten/sui/client";
+import { describe, expect, it, vi } from "vitest";
+import {
+	type ConsentTokenInfo,
+	decodeConsentTokenObject,
+	getConsentTokenStatus,
+	getConsentTokensCoveringDataType,
+	listConsentTokens,
+} from "../consentTokens";
+import {
+	CONSENT_TOKEN_LAYOUT,
+	ConsentTokenBcs,
+	ENTRY_DATA_LAYOUT,
+	MEDICAL_PASSPORT_LAYOUT,
+	SchemaDriftError,
+} from "../onChainSchema";
+
+const NOW = 1_700_000_000_000;
+const OWNER = `0x${"1".repeat(64)}`;
+const PASSPORT = `0x${"2".repeat(64)}`;
+const PACKAGE = `0x${"3".repeat(64)}`;
+const EVENT = `${PACKAGE}::consent_token::ConsentTokenCreatedEvent`;
+
+function tokenObject(
+	objectId: string,
+	expiresAt: number,
+	isActive: boolean,
+	type = `${PACKAGE}::consent_token::ConsentToken`,
+) {
+	return {
+		objectId,
+		bcs: {
+			dataType: "moveObject",
+			type,
+			bcsBytes: ConsentTokenBcs.serialize({
+				id: objectId,
+				passport_id: PASSPORT,
+				grantor: OWNER,
+				secret_hash: [1, 2, 3],
+				scopes: ["medications"],
+				expiration_ms: expiresAt,
+				is_active: isActive,
+			}).toBase64(),
+		},
+	} as unknown as SuiObjectData;
+}
+
+describe("getConsentTokenStatus", () => {
+	it("無効化済みを期限切れより優先する", () => {
+		expect(
+			getConsentTokenStatus({ isActive: true, expiresAt: NOW + 1 }, NOW),
+		).toBe("active");
+		expect(getConsentTokenStatus({ isActive: true, expiresAt: NOW }, NOW)).toBe(
+			"expired",
+		);
+		expect(
+			getConsentTokenStatus({ isActive: false, expiresAt: NOW - 1 }, NOW),
+		).toBe("revoked");
+	});
+});
+
+describe("getConsentTokensCoveringDataType", () => {
+	it("データ種全体またはそのエントリを含む有効なトークンだけを返す", () => {
+		const token = (
+			id: string,
+			scopes: string[],
+			overrides: Partial<ConsentTokenInfo> = {},
+		): ConsentTokenInfo => ({
+			id,
+			passportId: PASSPORT,
+			scopes,
+			expiresAt: NOW + 1,
+			isActive: true,
+			createdAt: null,
+			...overrides,
+		});
+		const tokens = [
+			token("whole", ["medications", "lab_results"]),
+			token("entry", ["medications#0a1b"]),
+			token("other", ["lab_results"]),
+			token("revoked", ["medications"], { isActive: false }),
+			token("expired", ["medications"], { expiresAt: NOW }),
+		];
+
+		expect(
+			getConsentTokensCoveringDataType(tokens, "medications", NOW).map(
+				(t) => t.id,
+			),
+		).toEqual(["whole", "entry"]);
+	});
+});
+
+describe("decodeConsentTokenObject", () => {
+	it("BCSのConsentTokenを読み取る", () => {
+		expect(decodeConsentTokenObject(tokenObject("0xa", NOW, false), 5)).toEqual(
+			{
+				id: "0xa",
+				passportId: PASSPORT,
+				scopes: ["medications"],
+				expiresAt: NOW,
+				isActive: false,
+				createdAt: 5,
+			},
+		);
+	});
+
+	it("型が違うオブジェクトはSchemaDriftErrorにする", () => {
+		vi.spyOn(console, "error").mockImplementation(() => {});
+		expect(() =>
+			decodeConsentTokenObject(
+				tokenObject("0xa", NOW, true, `${PACKAGE}::consent_token::Other`),
+			),
+		).toThrow(SchemaDriftError);
+	});
+});
+
+describe("listConsentTokens", () => {
+	const UPGRADE = `0x${"4".repeat(64)}`;
+	const LATEST = `0x${"6".repeat(64)}`;
+
+	function packageObject(packageId: string, eventPackage: string) {
+		return {
+			data: {
+				objectId: packageId,
+				bcs: {
+					dataType: "package",
+					typeOriginTable: [
+						{
+							module_name: "consent_token",
+							datatype_name: "ConsentToken",
+							package: PACKAGE,
+						},
+						{
+							module_name: "consent_token",
+							datatype_name: "ConsentTokenCreatedEvent",
+							package: eventPackage,
+						},
+					],
+				},
+			},
+		};
+	}
+
+	/**
+	 * getNormalizedMoveStruct matching the layouts (passes verifyOnChainLayouts)
+	 */
+	async function normalizedStruct({ struct }: { struct: string }) {
+		const layout = [
+			MEDICAL_PASSPORT_LAYOUT,
+			ENTRY_DATA_LAYOUT,
+			CONSENT_TOKEN_LAYOUT,
+		].find((l) => l.name === struct);
+		const normalized = (type: string): SuiMoveNormalizedType => {
+			const vector = /^vector<(.+)>$/.exec(type);
+			if (vector) {
+				return { Vector: normalized(vector[1]) };
+			}
+			if (/^[a-z]/.test(type)) {
+				return (type[0].toUpperCase() + type.slice(1)) as SuiMoveNormalizedType;
+			}
+			return {
+				Struct: { address: "0x2", module: "m", name: type, typeArguments: [] },
+			};
+		};
+		return {
+			fields: (layout?.fields ?? []).map(([name, type]) => ({
+				name,
+				type: normalized(type),
+			})),
+		};
+	}
+
+	function tokensClient(params: {
+		packageId: string;
+		eventPackage: string;
+		eventPages: unknown[];
+		txPages?: unknown[];
+		queried: unknown[];
+	}) {
+		let eventPage = 0;
+		let txPage = 0;
+		return {
+			getNormalizedMoveStruct: normalizedStruct,
+			getObject: async ({ id }: { id: string }) =>
+				id === params.packageId
+					? packageObject(id, params.eventPackage)
+					: { data: { objectId: id, previousTransaction: "upgrade-tx" } },
+			getTransactionBlock: async () => ({ timestampMs: "150" }),
+			queryEvents: async (query: { query: unknown; cursor: unknown }) => {
+				params.queried.push(query);
+				return params.eventPages[eventPage++];
+			},
+			queryTransactionBlocks: async (query: { filter: unknown }) => {
+				params.queried.push(query.filter);
+				return params.txPages?.[txPage++];
+			},
+			multiGetObjects: async ({ ids }: { ids: string[] }) =>
+				ids.map((objectId) => ({
+					data: tokenObject(objectId, NOW, objectId === "0xa"),
+				})),
+		} as unknown as SuiClient;
+	}
+
+	it("作成イベントを種類で全ページ検索し、このパスポートのトークンを新しい順に返す", async () => {
+		const queried: unknown[] = [];
+		const suiClient = tokensClient({
+			packageId: PACKAGE,
+			eventPackage: PACKAGE,
+			queried,
+			eventPages: [
+				{
+					data: [
+						{
+							type: EVENT,
+							parsedJson: { token_id: "0xa", passport_id: PASSPORT },
+							timestampMs: "100",
+						},
+					],
+					hasNextPage: true,
+					nextCursor: { txDigest: "d", eventSeq: "1" },
+				},
+				{
+					data: [
+						{
+							type: EVENT,
+							parsedJson: { token_id: "0xb", passport_id: PASSPORT },
+							timestampMs: "200",
+						},
+						{
+							type: EVENT,
+							parsedJson: {
+								token_id: "0xc",
+								passport_id: `0x${"9".repeat(64)}`,
+							},
+							timestampMs: "300",
+						},
+					],
+					hasNextPage: false,
+					nextCursor: null,
+				},
+			],
+		});
+
+		const tokens = await listConsentTokens({
+			suiClient,
+			owner: OWNER,
+			passportId: PASSPORT,
+			packageId: PACKAGE,
+		});
+
+		expect(queried).toEqual([
+			{
+				query: { MoveEventType: EVENT },
+				cursor: null,
+				limit: 50,
+				order: "descending",
+			},
+			{
+				query: { MoveEventType: EVENT },
+				cursor: { txDigest: "d", eventSeq: "1" },
+				limit: 50,
+				order: "descending",
+			},
+		]);
+		expect(
+			tokens.map((token) => [token.id, token.isActive, token.createdAt]),
+		).toEqual([
+			["0xb", false, 200],
+			["0xa", true, 100],
+		]);
+	});
+
+	it("イベント追加前のトークンは発行者のトランザクションからアップグレードまで探す", async () => {
+		const queried: unknown[] = [];
+		const suiClient = tokensClient({
+			packageId: LATEST,
+			eventPackage: UPGRADE,
+			queried,
+			eventPages: [
+				{
+					data: [
+						{
+							type: `${UPGRADE}::consent_token::ConsentTokenCreatedEvent`,
+							parsedJson: { token_id: "0xb", passport_id: PASSPORT },
+							timestampMs: "200",
+						},
+					],
+					hasNextPage: false,
+					nextCursor: null,
+				},
+			],
+			txPages: [
+				{
+					data: [
+						{
+							timestampMs: "50",
+							objectChanges: [
+								{
+									type: "created",
+									objectId: "0xa",
+									objectType: `${PACKAGE}::consent_token::ConsentToken`,
+								},
+								{
+									type: "created",
+									objectId: "0xz",
+									objectType: `${PACKAGE}::medical_passport::MedicalPassport`,
+								},
+							],
+						},
+						{
+							timestampMs: "150",
+							objectChanges: [
+								{
+									type: "created",
+									objectId: "0xb",
+									objectType: `${PACKAGE}::consent_token::ConsentToken`,
+								},
+							],
+						},
+					],
+					hasNextPage: true,
+					nextCursor: "next",
+				},
+			],
+		});
+
+		const tokens = await listConsentTokens({
+			suiClient,
+			owner: OWNER,
+			passportId: PASSPORT,
+			packageId: LATEST,
+		});
+
+		expect(queried).toContainEqual({ FromAddress: OWNER });
+		expect(
+			tokens.map((token) => [token.id, token.isActive, token.createdAt]),
+		).toEqual([
+			["0xb", false, 200],
+			["0xa", true, 50],
+		]);
+	});
+});
@@ -0,0 +1,192 @@
+import type { SuiClient, SuiObjectChange } from "@mysten/sui/client";
+import { describe, expect, it, vi } from "vitest";
+import {
+	addDataEntryWrite,
+	buildDataEntryBatchTransaction,
+	createDataEntryBatch,
+	reconcileDataEntryBatch,
+} from "../dataEntryBatch";
+import { DataEntryFieldBcs, getDataEntryFieldId } from "../onChainSchema";
+
+const PACKAGE = `0x${"3".repeat(64)}`;
+const PASSPORT = `0x${"5".repeat(64)}`;
+const SEAL_ID = "0a0b0c";
+
+function fieldObject(
+	dataType: string,
+	metadataBlobId: string,
+	updatedAt: number,
+) {
+	const objectId = getDataEntryFieldId(PASSPORT, dataType);
+	return {
+		data: {
+			objectId,
+			bcs: {
+				dataType: "moveObject",
+				type: `0x2::dynamic_field::Field<0x1::string::String, ${PACKAGE}::medical_passport::EntryData>`,
+				bcsBytes: DataEntryFieldBcs.serialize({
+					id: objectId,
+					name: dataType,
+					value: {
+						seal_id: [10, 11, 12],
+						metadata_blob_id: metadataBlobId,
+						updated_at: updatedAt,
+					},
+				}).toBase64(),
+			},
+		},
+	};
+}
+
+function changed(
+	type: "created" | "mutated",
+	dataType: string,
+): SuiObjectChange {
+	return {
+		type,
+		objectId: getDataEntryFieldId(PASSPORT, dataType),
+	} as unknown as SuiObjectChange;
+}
+
+describe("addDataEntryWrite", () => {
+	it("同じデータ種の書き込みは後から追加したもので置き換える", () => {
+		let batch = createDataEntryBatch(PASSPORT);
+		batch = addDataEntryWrite(batch, {
+			dataType: "basic_profile",
+			metadataBlobId: "old",
+			replace: true,
+		});
+		batch = addDataEntryWrite(batch, {
+			dataType: "conditions",
+			metadataBlobId: "c",
+			replace: false,
+		});
+		batch = addDataEntryWrite(batch, {
+			dataType: "basic_profile",
+			metadataBlobId: "new",
+			replace: true,
+		});
+
+		expect(batch.writes.map((w) => [w.dataType, w.metadataBlobId])).toEqual([
+			["conditions", "c"],
+			["basic_profile", "new"],
+		]);
+	});
+
+	it("メタデータBlob IDが空の書き込みは拒否する", () => {
+		expect(() =>
+			addDataEntryWrite(createDataEntryBatch(PASSPORT), {
+				dataType: "conditions",
+				metadataBlobId: "",
+				replace: false,
+			}),
+		).toThrow("must have a metadata blob ID");
+	});
+});
+
+describe("buildDataEntryBatchTransaction", () => {
+	it("データ種ごとに1つのMoveCallを持つ1トランザクションを組み立てる", () => {
+		let batch = createDataEntryBatch(PASSPORT);
+		batch = addDataEntryWrite(batch, {
+			dataType: "basic_profile",
+			metadataBlobId: "p",
+			replace: true,
+			expectedMetadataBlobId: "p0",
+		});
+		batch = addDataEntryWrite(batch, {
+			dataType: "conditions",
+			metadataBlobId: "c",
+			replace: false,
+		});
+
+		const tx = buildDataEntryBatchTransaction(batch, PACKAGE, {
+			basic_profile: SEAL_ID,
+			conditions: SEAL_ID,
+		});
+		const calls = tx
+			.getData()
+			.commands.map((command) => command.MoveCall?.function);
+
+		expect(calls).toEqual(["replace_data_entry_if_current", "add_data_entry"]);
+	});
+
+	it("seal_idが決まらないデータ種があれば組み立てない", () => {
+		const batch = addDataEntryWrite(createDataEntryBatch(PASSPORT), {
+			dataType: "conditions",
+			metadataBlobId: "c",
+			replace: false,
+		});
+		expect(() => buildDataEntryBatchTransaction(batch, PACKAGE, {})).toThrow(
+			"No seal_id",
+		);
+	});
+});
+
+describe("reconcileDataEntryBatch", () => {
+	it("変更されたフィールドからEntryDataを読み、各データ種の反映処理を呼ぶ", async () => {
+		const reconciled: Array<[string, number]> = [];
+		let batch = createDataEntryBatch(PASSPORT);
+		batch = addDataEntryWrite(batch, {
+			dataType: "basic_profile",
+			metadataBlobId: "p",
+			replace: true,
+			reconcile: (entry) => {
+				reconciled.push(["basic_profile", entry.updatedAt]);
+			},
+		});
+		batch = addDataEntryWrite(batch, {
+			dataType: "conditions",
+			metadataBlobId: "c",
+			replace: false,
+			reconcile: () => {
+				throw new Error("state update failed");
+			},
+		});
+		const multiGetObjects = vi.fn(async () => [
+			fieldObject("basic_profile", "p", 1000),
+			fieldObject("conditions", "c", 1000),
+		]);
+		const suiClient = { multiGetObjects } as unknown as SuiClient;
+		vi.spyOn(console, "error").mockImplementation(() => {});
+
+		const entries = await reconcileDataEntryBatch({
+			suiClient,
+			batch,
+			objectChanges: [
+				changed("mutated", "basic_profile"),
+				changed("created", "conditions"),
+			],
+		});
+
+		expect(multiGetObjects).toHaveBeenCalledWith({
+			ids: [
+				getDataEntryFieldId(PASSPORT, "basic_profile"),
+				getDataEntryFieldId(PASSPORT, "conditions"),
+			],
+			options: { showBcs: true },
+		});
+		expect(entries.conditions).toEqual({
+			sealId: SEAL_ID,
+			metadataBlobId: "c",
+			updatedAt: 1000,
+		});
+		expect(reconciled).toEqual([["basic_profile", 1000]]);
+	});
+
+	it("フィールドが変更されていないデータ種があれば失敗する", async () => {
+		const batch = addDataEntryWrite(createDataEntryBatch(PASSPORT), {
+			dataType: "conditions",
+			metadataBlobId: "c",
+			replace: false,
+		});
+		const suiClient = { multiGetObjects: vi.fn() } as unknown as SuiClient;
+
+		await expect(
+			reconcileDataEntryBatch({
+				suiClient,
+				batch,
+				objectChanges: [changed("mutated", "basic_profile")],
+			}),
+		).rejects.toThrow("conditions");
+	});
+});
@@ -0,0 +1,61 @@
+import type { TransactionEffects } from "@mysten/sui/client";
+import { describe, expect, it } from "vitest";
+import {
+	assertTransactionSucceeded,
+	isDataEntryConflictAbort,
+} from "../dataEntryConflict";
+
+function moveAbort(module: string, code: number): Error {
+	return new Error(
+		`MoveAbort(MoveLocation { module: ModuleId { address: ${"a".repeat(64)}, name: Identifier("${module}") }, function: 21, instruction: 40, function_name: Some("replace_data_entry_if_current") }, ${code}) in command 0`,
+	);
+}
+
+describe("isDataEntryConflictAbort", () => {
+	it("medical_passportのE_DATA_ENTRY_CONFLICTだけを競合とみなす", () => {
+		expect(isDataEntryConflictAbort(moveAbort("medical_passport", 15))).toBe(
+			true,
+		);
+		expect(isDataEntryConflictAbort(moveAbort("medical_passport", 12))).toBe(
+			false,
+		);
+		expect(isDataEntryConflictAbort(moveAbort("consent_token", 15))).toBe(
+			false,
+		);
+		expect(isDataEntryConflictAbort(new Error("Rejected from user"))).toBe(
+			false,
+		);
+	});
+});
+
+describe("assertTransactionSucceeded", () => {
+	function effects(status: TransactionEffects["status"]): TransactionEffects {
+		return { status } as TransactionEffects;
+	}
+
+	it("成功したトランザクションでは何もしない", () => {
+		expect(() =>
+			assertTransactionSucceeded(effects({ status: "success" })),
+		).not.toThrow();
+	});
+
+	it("失敗したトランザクションのabortを競合として判別できるエラーにする", () => {
+		const error = moveAbort("medical_passport", 15).message;
+		let thrown: unknown;
+		try {
+			assertTransactionSucceeded(effects({ status: "failure", error }));
+		} catch (err) {
+			thrown = err;
+		}
+		expect(thrown).toBeInstanceOf(Error);
+		expect(isDataEntryConflictAbort(thrown)).toBe(true);
+	});
+
+	it("競合以外の失敗もエラーにする", () => {
+		expect(() =>
+			assertTransactionSucceeded(
+				effects({ status: "failure", error: "InsufficientGas" }),
+			),
+		).toThrow("Transaction failed: InsufficientGas");
+	});
+});
@@ -0,0 +1,100 @@
+import { fromBase64, fromHex, toHex } from "@mysten/bcs";
+import { bcs } from "@mysten/sui/bcs";
+import { Inputs, Transaction } from "@mysten/sui/transactions";
+import { describe, expect, it } from "vitest";
+import { approveEntrySealId } from "../seal";
+import {
+	deriveEntrySealId,
+	generateEntryNonce,
+	generateSealId,
+	getEntryConsentScope,
+	getEntryNonce,
+	getEntrySealId,
+} from "../sealIdGenerator";
+
+const OWNER = `0x${"1".repeat(64)}`;
+const PACKAGE = `0x${"2".repeat(64)}`;
+
+async function patientPtb(sealId: string): Promise<Uint8Array> {
+	const tx = new Transaction();
+	tx.moveCall({
+		target: `${PACKAGE}::accessor::seal_approve_patient_only`,
+		arguments: [
+			tx.pure.vector("u8", Array.from(fromHex(sealId))),
+			tx.object(
+				Inputs.SharedObjectRef({
+					objectId: `0x${"3".repeat(64)}`,
+					initialSharedVersion: "1",
+					mutable: false,
+				}),
+			),
+			tx.pure.string("lab_results"),
+		],
+	});
+	return tx.build({ onlyTransactionKind: true });
+}
+
+function approvedIds(txBytes: Uint8Array): string[] {
+	const ptb = bcs.TransactionKind.parse(txBytes).ProgrammableTransaction;
+	return (ptb?.commands ?? []).map((command) => {
+		const input = ptb?.inputs[command.MoveCall?.arguments[0]?.Input ?? -1];
+		const bytes = bcs
+			.vector(bcs.u8())
+			.parse(fromBase64(input?.Pure?.bytes ?? ""));
+		return toHex(Uint8Array.from(bytes));
+	});
+}
+
+describe("entry seal_id", () => {
+	it("データ種seal_idにエントリnonceを付けたIDを生成する", async () => {
+		const sealId = await generateSealId(OWNER, "lab_results");
+		const nonce = generateEntryNonce();
+		const entrySealId = deriveEntrySealId(sealId, nonce);
+
+		expect(nonce).toMatch(/^[0-9a-f]{32}$/);
+		expect(entrySealId).toBe(`${sealId}${nonce}`);
+		await expect(
+			generateSealId(OWNER, "lab_results", undefined, nonce),
+		).resolves.toBe(entrySealId);
+		expect(getEntryNonce(entrySealId, sealId)).toBe(nonce);
+		expect(getEntryNonce(sealId, sealId)).toBeNull();
+		expect(getEntryNonce(`${"0".repeat(64)}${nonce}`, sealId)).toBeNull();
+		expect(getEntryConsentScope("lab_results", nonce)).toBe(
+			`lab_results#${nonce}`,
+		);
+		expect(() => deriveEntrySealId(sealId, "xyz")).toThrow(
+			"Invalid entry nonce",
+		);
+	});
+
+	it("専用seal_idのないエントリはデータ種seal_idを使う", () => {
+		expect(getEntrySealId({}, "abc")).toBe("abc");
+		expect(getEntrySealId({ seal_id: "abcdef" }, "abc")).toBe("abcdef");
+	});
+});
+
+describe("approveEntrySealId", () => {
+	it("エントリseal_idのBlobではseal_approveのIDを置き換える", async () => {
+		const sealId = await generateSealId(OWNER, "lab_results");
+		const entrySealId = deriveEntrySealId(sealId, generateEntryNonce());
+		const txBytes = await patientPtb(sealId);
+
+		expect(approveEntrySealId(txBytes, sealId)).toBe(txBytes);
+		expect(approvedIds(approveEntrySealId(txBytes, entrySealId))).toEqual([
+			entrySealId,
+		]);
+	});
+
+	it("別のデータ種のIDには手を加えない", async () => {
+		const sealId = await generateSealId(OWNER, "lab_results");
+		const other = await generateSealId(OWNER, "medications");
+		const txBytes = await patientPtb(sealId);
+
+		expect(
+			approveEntrySealId(
+				txBytes,
+				deriveEntrySealId(other, generateEntryNonce()),
+			),
+		).toBe(txBytes);
+	});
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import type { BaseMetadata, LabResultsMetadataEntry } from "@/types/metadata";
+import {
+	buildConsentScopes,
+	getScopeDataType,
+	parseSharedEntryRefs,
+	replaceEntryBlob,
+	type SharedEntryRef,
+	toSharedEntryRef,
+} from "../entrySharing";
+
+const SEAL_ID = "ab".repeat(32);
+const NONCE = "0f".repeat(16);
+
+function labEntry(blobId: string, testDate: string): LabResultsMetadataEntry {
+	return {
+		blob_id: blobId,
+		end_epoch: 10,
+		sha256: `sha-${blobId}`,
+		size: 100,
+		test_date: testDate,
+		facility: "Clinic",
+		test_count: 3,
+	};
+}
+
+const metadata: BaseMetadata<LabResultsMetadataEntry> = {
+	schema_version: "3.0.0",
+	data_type: "lab_results",
+	updated_at: 0,
+	entries: [labEntry("b1", "2026-01-01"), labEntry("b2", "2026-02-01")],
+};
+
+describe("replaceEntryBlob", () => {
+	it("選んだエントリの保存情報だけをエントリseal_id付きで置き換える", () => {
+		const updated = replaceEntryBlob(metadata, "b2", {
+			blob_id: "n2",
+			size: 120,
+			seal_id: `${SEAL_ID}${NONCE}`,
+		});
+
+		expect(updated.entries[0]).toBe(metadata.entries[0]);
+		expect(updated.entries[1]).toEqual({
+			blob_id: "n2",
+			size: 120,
+			seal_id: `${SEAL_ID}${NONCE}`,
+			test_date: "2026-02-01",
+			facility: "Clinic",
+			test_count: 3,
+		});
+		expect(metadata.entries[1].blob_id).toBe("b2");
+		expect(() =>
+			replaceEntryBlob(metadata, "missing", { blob_id: "x" }),
+		).toThrow("Entry missing not found in lab_results");
+	});
+});
+
+describe("consent scopes", () => {
+	it("データ種ごと共有しない種別のエントリだけエントリスコープにする", () => {
+		const entries: SharedEntryRef[] = [
+			{ d: "lab_results", b: "n1", n: NONCE },
+			{ d: "medications", b: "n2", n: NONCE },
+		];
+
+		expect(
+			buildConsentScopes(["medications", "basic_profile"], entries),
+		).toEqual(["medications", "basic_profile", `lab_results#${NONCE}`]);
+		expect(getScopeDataType(`lab_results#${NONCE}`)).toBe("lab_results");
+		expect(getScopeDataType("medications")).toBe("medications");
+	});
+
+	it("エントリseal_idのないエントリは参照にできない", () => {
+		expect(
+			toSharedEntryRef(
+				"lab_results",
+				{ ...labEntry("b1", "2026-01-01"), seal_id: `${SEAL_ID}${NONCE}` },
+				SEAL_ID,
+			),
+		).toEqual({ d: "lab_results", b: "b1", n: NONCE });
+		expect(() =>
+			toSharedEntryRef("lab_results", labEntry("b1", "2026-01-01"), SEAL_ID),
+		).toThrow("Entry b1 has no entry seal_id");
+	});
+});
+
+describe("parseSharedEntryRefs", () => {
+	it("QRペイロードの不正な参照を除外する", () => {
+		expect(
+			parseSharedEntryRefs([
+				{ d: "lab_results", b: "n1", n: NONCE },
+				{ d: "basic_profile", b: "n2", n: NONCE },
+				{ d: "medications", b: "n3", n: "zz" },
+				// 画像はimaging_binaryのseal_idのままなので検査単位では共有しない
+				{ d: "imaging_meta", b: "n4", n: NONCE },
+				null,
+			]),
+		).toEqual([{ d: "lab_results", b: "n1", n: NONCE }]);
+		expect(parseSharedEntryRefs(undefined)).toEqual([]);
+	});
+});
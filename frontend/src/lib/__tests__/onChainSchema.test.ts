@@ -0,0 +1,203 @@
+import { readFileSync } from "node:fs";
+import type {
+	SuiClient,
+	SuiMoveNormalizedType,
+	SuiObjectData,
+} from "@mysten/sui/client";
+import { describe, expect, it, vi } from "vitest";
+import {
+	CONSENT_TOKEN_LAYOUT,
+	decodeDataEntryField,
+	decodeMoveObject,
+	ENTRY_DATA_LAYOUT,
+	EntryDataBcs,
+	formatNormalizedType,
+	MEDICAL_PASSPORT_LAYOUT,
+	MedicalPassportBcs,
+	SchemaDriftError,
+	verifyOnChainLayouts,
+} from "../onChainSchema";
+
+const PACKAGE = `0x${"3".repeat(64)}`;
+const PASSPORT = `0x${"5".repeat(64)}`;
+const LAYOUTS = [
+	MEDICAL_PASSPORT_LAYOUT,
+	ENTRY_DATA_LAYOUT,
+	CONSENT_TOKEN_LAYOUT,
+];
+
+/**
+ * Fields of a struct in the Move sources, as [name, type without module paths]
+ */
+function moveSourceFields(module: string, struct: string): string[][] {
+	const source = readFileSync(
+		new URL(`../../../../contract/sources/${module}.move`, import.meta.url),
+		"utf8",
+	);
+	const body = new RegExp(
+		`public struct ${struct} has [^{]*\\{([^}]*)\\}`,
+	).exec(source)?.[1];
+	if (!body) {
+		throw new Error(`${module}::${struct} not found in the Move sources`);
+	}
+	return body
+		.split("\n")
+		.map((line) => line.replace(/\/\/.*$/, "").trim())
+		.filter(Boolean)
+		.map((line) => {
+			const field = line.replace(/,$/, "");
+			const colon = field.indexOf(":");
+			return [
+				field.slice(0, colon).trim(),
+				field
+					.slice(colon + 1)
+					.trim()
+					.replace(/\w+::/g, ""),
+			];
+		});
+}
+
+function passportObject(bytes: Uint8Array, type?: string): SuiObjectData {
+	return {
+		objectId: PASSPORT,
+		bcs: {
+			dataType: "moveObject",
+			type: type ?? `${PACKAGE}::medical_passport::MedicalPassport`,
+			bcsBytes: Buffer.from(bytes).toString("base64"),
+		},
+	} as unknown as SuiObjectData;
+}
+
+function normalizedType(type: string): SuiMoveNormalizedType {
+	const vector = /^vector<(.+)>$/.exec(type);
+	if (vector) {
+		return { Vector: normalizedType(vector[1]) };
+	}
+	if (/^[a-z]/.test(type)) {
+		return (type[0].toUpperCase() + type.slice(1)) as SuiMoveNormalizedType;
+	}
+	return {
+		Struct: { address: "0x2", module: "m", name: type, typeArguments: [] },
+	};
+}
+
+describe("Moveソースとの一致", () => {
+	it("各レイアウトのフィールド名と型はMoveの構造体定義と一致する", () => {
+		for (const layout of LAYOUTS) {
+			expect(moveSourceFields(layout.module, layout.name)).toEqual(
+				layout.fields,
+			);
+		}
+	});
+});
+
+describe("decodeMoveObject", () => {
+	const bytes = MedicalPassportBcs.serialize({
+		id: PASSPORT,
+		country_code: "JP",
+		analytics_opt_in: true,
+	}).toBytes();
+
+	it("BCSから型付きのMedicalPassportを読み取る", () => {
+		expect(
+			decodeMoveObject(MEDICAL_PASSPORT_LAYOUT, passportObject(bytes)),
+		).toEqual({ id: PASSPORT, country_code: "JP", analytics_opt_in: true });
+	});
+
+	it("末尾に余分なバイト（追加されたフィールド）があればSchemaDriftErrorにする", () => {
+		vi.spyOn(console, "error").mockImplementation(() => {});
+		const extended = new Uint8Array([...bytes, 1]);
+		expect(() =>
+			decodeMoveObject(MEDICAL_PASSPORT_LAYOUT, passportObject(extended)),
+		).toThrow(SchemaDriftError);
+		expect(() =>
+			decodeMoveObject(
+				MEDICAL_PASSPORT_LAYOUT,
+				passportObject(bytes.slice(0, -1)),
+			),
+		).toThrow(SchemaDriftError);
+	});
+
+	it("型の違うオブジェクトはSchemaDriftErrorにする", () => {
+		vi.spyOn(console, "error").mockImplementation(() => {});
+		expect(() =>
+			decodeMoveObject(
+				MEDICAL_PASSPORT_LAYOUT,
+				passportObject(bytes, `${PACKAGE}::consent_token::ConsentToken`),
+			),
+		).toThrow("has type");
+	});
+});
+
+describe("decodeDataEntryField", () => {
+	it("Field<String, EntryData>のみを受け付ける", () => {
+		vi.spyOn(console, "error").mockImplementation(() => {});
+		const value = EntryDataBcs.serialize({
+			seal_id: [1],
+			metadata_blob_id: "m",
+			updated_at: 1,
+		}).toBytes();
+		const object = passportObject(
+			value,
+			`0x2::dynamic_field::Field<0x1::string::String, ${PACKAGE}::medical_passport::MedicalPassport>`,
+		);
+		expect(() => decodeDataEntryField(object)).toThrow(SchemaDriftError);
+	});
+});
+
+describe("verifyOnChainLayouts", () => {
+	function clientWith(
+		override?: (layout: string) => string[][] | undefined,
+	): SuiClient {
+		const getNormalizedMoveStruct = vi.fn(
+			async ({ struct }: { struct: string }) => {
+				const layout = LAYOUTS.find((l) => l.name === struct);
+				const fields = override?.(struct) ?? layout?.fields ?? [];
+				return {
+					fields: fields.map(([name, type]) => ({
+						name,
+						type: normalizedType(type),
+					})),
+				};
+			},
+		);
+		return { getNormalizedMoveStruct } as unknown as SuiClient;
+	}
+
+	it("パッケージ毎に一度だけ確認し、一致すれば成功する", async () => {
+		const client = clientWith();
+		await verifyOnChainLayouts(client, `0x${"a".repeat(64)}`);
+		await verifyOnChainLayouts(client, `0x${"a".repeat(64)}`);
+		expect(client.getNormalizedMoveStruct).toHaveBeenCalledTimes(3);
+	});
+
+	it("フィールドの名前が変わっていればSchemaDriftErrorにする", async () => {
+		vi.spyOn(console, "error").mockImplementation(() => {});
+		const client = clientWith((struct) =>
+			struct === "EntryData"
+				? [
+						["seal_id", "vector<u8>"],
+						["blob_id", "String"],
+						["updated_at", "u64"],
+					]
+				: undefined,
+		);
+		await expect(
+			verifyOnChainLayouts(client, `0x${"b".repeat(64)}`),
+		).rejects.toThrow(SchemaDriftError);
+	});
+
+	it("正規化された型をMoveソースの表記にする", () => {
+		expect(formatNormalizedType({ Vector: "U8" })).toBe("vector<u8>");
+		expect(
+			formatNormalizedType({
+				Struct: {
+					address: "0x2",
+					module: "object",
+					name: "UID",
+					typeArguments: [],
+				},
+			}),
+		).toBe("UID");
+	});
+});
@@ -0,0 +1,443 @@
+import { describe, expect, it, vi } from "vitest";
+import { DataEntryConflictError } from "@/lib/dataEntryConflict";
+import type { WalrusBlobReference } from "@/types/healthData";
+import type {
+	BaseMetadata,
+	BaseMetadataEntry,
+	SelfMetricsMetadataEntry,
+} from "@/types/metadata";
+import {
+	createOutboxItem,
+	findOutboxConflicts,
+	getBaseEntries,
+	getOutboxItemBlobIds,
+	getRetryDelayMs,
+	markOutboxItemFailed,
+	mergeOutboxEntries,
+	type OutboxDeps,
+	type OutboxItem,
+	processOutboxItem,
+	resolveOutboxConflicts,
+	SINGLE_BLOB_PARTITION_KEY,
+} from "../outbox";
+
+function vitalsItem(
+	overrides: Partial<Parameters<typeof createOutboxItem>[0]> = {},
+): OutboxItem {
+	return createOutboxItem(
+		{
+			id: "save-1",
+			owner: "0xABC",
+			passportId: "0xpassport",
+			dataType: "self_metrics",
+			partitionField: "month_key",
+			partitions: [
+				{
+					key: "2025-02",
+					payload: new Uint8Array([1, 2, 3]),
+					entry: { record_count: 2, types: ["weight"] },
+				},
+			],
+			...overrides,
+		},
+		1000,
+	);
+}
+
+function monthEntry(
+	blobId: string,
+	monthKey: string,
+): SelfMetricsMetadataEntry {
+	return {
+		blob_id: blobId,
+		month_key: monthKey,
+		record_count: 1,
+		types: ["weight"],
+	};
+}
+
+function monthKeys(entries: BaseMetadataEntry[]): string[] {
+	return (entries as SelfMetricsMetadataEntry[]).map((e) => e.month_key);
+}
+
+/**
+ * Walrus・SBTを模したインメモリの依存関係
+ */
+function createFakeDeps(
+	initialEntries: BaseMetadataEntry[] | null,
+): OutboxDeps & {
+	chain: { metadataBlobId: string | null };
+	blobs: Map<string, Uint8Array | BaseMetadata<BaseMetadataEntry>>;
+	saved: OutboxItem[];
+} {
+	let counter = 0;
+	const blobs = new Map<string, Uint8Array | BaseMetadata<BaseMetadataEntry>>();
+	const chain = { metadataBlobId: null as string | null };
+	const saved: OutboxItem[] = [];
+	const encrypted = new Map<Uint8Array, BaseMetadata<BaseMetadataEntry>>();
+
+	if (initialEntries) {
+		chain.metadataBlobId = "meta-initial";
+		blobs.set("meta-initial", {
+			schema_version: "3.0.0",
+			data_type: "self_metrics",
+			updated_at: 0,
+			entries: initialEntries,
+		});
+	}
+
+	return {
+		chain,
+		blobs,
+		saved,
+		uploadBlob: vi.fn(async (payload: Uint8Array) => {
+			const blobId = `blob-${++counter}`;
+			blobs.set(blobId, encrypted.get(payload) ?? payload);
+			return { blobId } as WalrusBlobReference;
+		}),
+		loadMetadata: vi.fn(async () => {
+			const id = chain.metadataBlobId;
+			if (!id) {
+				return null;
+			}
+			return {
+				metadataBlobId: id,
+				metadata: blobs.get(id) as BaseMetadata<BaseMetadataEntry>,
+			};
+		}),
+		encryptMetadata: vi.fn(async (metadata) => {
+			const payload = new Uint8Array([counter]);
+			encrypted.set(payload, metadata);
+			return payload;
+		}),
+		getCurrentMetadataBlobId: vi.fn(async () => chain.metadataBlobId),
+		updatePassport: vi.fn(async (_item, metadataBlobId) => {
+			chain.metadataBlobId = metadataBlobId;
+		}),
+		persist: vi.fn(async (item: OutboxItem) => {
+			saved.push(item);
+		}),
+	};
+}
+
+describe("mergeOutboxEntries", () => {
+	it("同じパーティションは置き換え、削除対象は除外し、新規は末尾に追加する", () => {
+		const item = vitalsItem({
+			partitions: [
+				{
+					key: "2025-01",
+					payload: new Uint8Array(),
+					entry: { record_count: 5 },
+				},
+				{
+					key: "2025-03",
+					payload: new Uint8Array(),
+					entry: { record_count: 1 },
+				},
+			],
+			removedPartitions: ["2024-12"],
+		});
+		const entries = [
+			monthEntry("old-dec", "2024-12"),
+			monthEntry("old-jan", "2025-01"),
+			monthEntry("old-feb", "2025-02"),
+		];
+
+		const merged = mergeOutboxEntries(entries, item);
+
+		expect(monthKeys(merged)).toEqual(["2025-01", "2025-02", "2025-03"]);
+		expect(merged[0]).toMatchObject({ month_key: "2025-01", record_count: 5 });
+		expect(merged[1].blob_id).toBe("old-feb");
+	});
+});
+
+describe("processOutboxItem", () => {
+	it("データBlob・メタデータをアップロードしてSBTを新規作成する", async () => {
+		const deps = createFakeDeps(null);
+
+		await processOutboxItem(vitalsItem(), deps);
+
+		expect(deps.updatePassport).toHaveBeenCalledWith(
+			expect.objectContaining({ id: "save-1" }),
+			deps.chain.metadataBlobId,
+			false,
+		);
+		const metadata = deps.blobs.get(
+			deps.chain.metadataBlobId as string,
+		) as BaseMetadata<BaseMetadataEntry>;
+		expect(metadata.entries).toEqual([
+			{
+				blob_id: "blob-1",
+				month_key: "2025-02",
+				record_count: 2,
+				types: ["weight"],
+			},
+		]);
+	});
+
+	it("途中で失敗しても再実行でパーティションを二重登録しない", async () => {
+		const deps = createFakeDeps([monthEntry("old-feb", "2025-02")]);
+		vi.mocked(deps.updatePassport).mockRejectedValueOnce(
+			new Error("Transaction rejected"),
+		);
+
+		await expect(processOutboxItem(vitalsItem(), deps)).rejects.toThrow(
+			"Transaction rejected",
+		);
+
+		// 保存された進捗から再開
+		const resumed = deps.saved[deps.saved.length - 1];
+		expect(resumed.partitions[0].payload).toBeUndefined();
+		await processOutboxItem(resumed, deps);
+
+		// データBlobは再アップロードされない（データ1回 + メタデータ1回）
+		expect(deps.uploadBlob).toHaveBeenCalledTimes(2);
+		expect(deps.updatePassport).toHaveBeenLastCalledWith(
+			expect.anything(),
+			deps.chain.metadataBlobId,
+			true,
+		);
+		const metadata = deps.blobs.get(
+			deps.chain.metadataBlobId as string,
+		) as BaseMetadata<BaseMetadataEntry>;
+		expect(metadata.entries).toHaveLength(1);
+		expect(metadata.entries[0].blob_id).toBe("blob-1");
+	});
+
+	it("SBTが既にこのアイテムのメタデータを指していれば何もしない", async () => {
+		const deps = createFakeDeps(null);
+		await processOutboxItem(vitalsItem(), deps);
+		const applied = deps.saved[deps.saved.length - 1];
+
+		await processOutboxItem(applied, deps);
+
+		expect(deps.updatePassport).toHaveBeenCalledTimes(1);
+		expect(deps.uploadBlob).toHaveBeenCalledTimes(2);
+	});
+
+	it("構築後にSBTが更新されていればメタデータを作り直してマージする", async () => {
+		const deps = createFakeDeps(null);
+		vi.mocked(deps.updatePassport).mockRejectedValueOnce(new Error("offline"));
+		await expect(processOutboxItem(vitalsItem(), deps)).rejects.toThrow();
+		const pending = deps.saved[deps.saved.length - 1];
+
+		// 別のアイテムが先にSBTを更新
+		await processOutboxItem(
+			vitalsItem({
+				id: "save-2",
+				partitions: [
+					{ key: "2025-01", payload: new Uint8Array([9]), entry: {} },
+				],
+			}),
+			deps,
+		);
+
+		await processOutboxItem(pending, deps);
+
+		const metadata = deps.blobs.get(
+			deps.chain.metadataBlobId as string,
+		) as BaseMetadata<BaseMetadataEntry>;
+		expect(monthKeys(metadata.entries)).toEqual(["2025-01", "2025-02"]);
+	});
+});
+
+describe("三方向マージ", () => {
+	it("基準から変わったパーティションだけを競合とする", () => {
+		const entries = [
+			monthEntry("other-feb", "2025-02"),
+			monthEntry("old-mar", "2025-03"),
+		];
+		const item = vitalsItem({
+			baseEntries: getBaseEntries(
+				[monthEntry("old-feb", "2025-02"), monthEntry("old-mar", "2025-03")],
+				"month_key",
+				["2025-02", "2025-03", "2025-04"],
+			),
+		});
+
+		expect(item.baseEntries).toEqual({
+			"2025-02": "old-feb",
+			"2025-03": "old-mar",
+			"2025-04": null,
+		});
+		expect(findOutboxConflicts(entries, item)).toEqual([
+			{ key: "2025-02", remoteBlobId: "other-feb" },
+		]);
+		expect(findOutboxConflicts(entries, vitalsItem())).toEqual([]);
+	});
+
+	it("他端末が別の月を変更していれば両方の変更を残す", async () => {
+		const deps = createFakeDeps([
+			monthEntry("old-jan", "2025-01"),
+			monthEntry("old-feb", "2025-02"),
+		]);
+		const item = vitalsItem({
+			baseEntries: { "2025-02": "old-feb" },
+		});
+		// 他端末が1月を保存
+		deps.blobs.set("meta-other", {
+			schema_version: "3.0.0",
+			data_type: "self_metrics",
+			updated_at: 1,
+			entries: [
+				monthEntry("other-jan", "2025-01"),
+				monthEntry("old-feb", "2025-02"),
+			],
+		});
+		deps.chain.metadataBlobId = "meta-other";
+
+		await processOutboxItem(item, deps);
+
+		const metadata = deps.blobs.get(
+			deps.chain.metadataBlobId as string,
+		) as BaseMetadata<BaseMetadataEntry>;
+		expect(metadata.entries.map((e) => e.blob_id)).toEqual([
+			"other-jan",
+			"blob-1",
+		]);
+	});
+
+	it("同じ月を他端末も変更していれば競合で止め、選択した側を残す", async () => {
+		const deps = createFakeDeps([monthEntry("other-feb", "2025-02")]);
+		const item = vitalsItem({ baseEntries: { "2025-02": "old-feb" } });
+
+		const error = await processOutboxItem(item, deps).catch((e) => e);
+		expect(error).toBeInstanceOf(DataEntryConflictError);
+		expect(error.partitions).toEqual(["2025-02"]);
+		expect(deps.updatePassport).not.toHaveBeenCalled();
+
+		const stopped = deps.saved[deps.saved.length - 1];
+		expect(stopped.conflicts).toEqual([
+			{ key: "2025-02", remoteBlobId: "other-feb" },
+		]);
+
+		expect(resolveOutboxConflicts(stopped, "theirs").partitions).toEqual([]);
+
+		await processOutboxItem(resolveOutboxConflicts(stopped, "mine"), deps);
+		const metadata = deps.blobs.get(
+			deps.chain.metadataBlobId as string,
+		) as BaseMetadata<BaseMetadataEntry>;
+		expect(metadata.entries).toHaveLength(1);
+		expect(metadata.entries[0].blob_id).toBe("blob-1");
+	});
+
+	it("SBT更新がcompare-and-swapで失敗したらメタデータを作り直す", async () => {
+		const deps = createFakeDeps([monthEntry("old-jan", "2025-01")]);
+		vi.mocked(deps.updatePassport).mockImplementationOnce(async () => {
+			// チェック後・更新前に他端末が保存
+			deps.blobs.set("meta-race", {
+				schema_version: "3.0.0",
+				data_type: "self_metrics",
+				updated_at: 1,
+				entries: [monthEntry("race-jan", "2025-01")],
+			});
+			deps.chain.metadataBlobId = "meta-race";
+			throw new DataEntryConflictError("self_metrics");
+		});
+
+		await processOutboxItem(vitalsItem(), deps);
+
+		expect(deps.updatePassport).toHaveBeenCalledTimes(2);
+		const metadata = deps.blobs.get(
+			deps.chain.metadataBlobId as string,
+		) as BaseMetadata<BaseMetadataEntry>;
+		expect(metadata.entries.map((e) => e.blob_id)).toEqual([
+			"race-jan",
+			"blob-1",
+		]);
+	});
+});
+
+describe("競合した直接保存の引き継ぎ", () => {
+	it("アップロード済みのBlobは再アップロードせず、画像BlobもGCの保留中ルートに含める", async () => {
+		const deps = createFakeDeps([
+			{ blob_id: "other-study", study_id: "study-other" } as BaseMetadataEntry,
+		]);
+		const item = createOutboxItem({
+			id: "study-1",
+			owner: "0xABC",
+			passportId: "0xpassport",
+			dataType: "imaging_meta",
+			partitionField: "study_id",
+			partitions: [
+				{
+					key: "study-1",
+					blob: { blob_id: "meta-data-1", size: 10 },
+					entry: { study_date: "2025-02-01", binary_blob_id: "binary-1" },
+				},
+			],
+			baseEntries: { "study-1": null },
+		});
+
+		expect(getOutboxItemBlobIds(item)).toEqual(["meta-data-1", "binary-1"]);
+
+		await processOutboxItem(item, deps);
+
+		// メタデータBlobのみアップロード
+		expect(deps.uploadBlob).toHaveBeenCalledTimes(1);
+		const metadata = deps.blobs.get(
+			deps.chain.metadataBlobId as string,
+		) as BaseMetadata<BaseMetadataEntry>;
+		expect(metadata.entries).toEqual([
+			{ blob_id: "other-study", study_id: "study-other" },
+			{
+				blob_id: "meta-data-1",
+				size: 10,
+				study_id: "study-1",
+				study_date: "2025-02-01",
+				binary_blob_id: "binary-1",
+			},
+		]);
+	});
+
+	it("単一blobのデータ種は唯一のentryを置き換え、他端末も変更していれば競合にする", async () => {
+		const conditionsItem = (base: BaseMetadataEntry[]) =>
+			createOutboxItem({
+				id: "0xpassport:conditions",
+				owner: "0xABC",
+				passportId: "0xpassport",
+				dataType: "conditions",
+				partitionField: null,
+				partitions: [
+					{
+						key: SINGLE_BLOB_PARTITION_KEY,
+						blob: { blob_id: "mine" },
+						entry: { condition_count: 2 },
+					},
+				],
+				baseEntries: getBaseEntries(base, null, [SINGLE_BLOB_PARTITION_KEY]),
+			});
+
+		// 読み込んだ時点から変わっていなければそのまま置き換える
+		const unchanged = createFakeDeps([{ blob_id: "old" }]);
+		await processOutboxItem(conditionsItem([{ blob_id: "old" }]), unchanged);
+		const metadata = unchanged.blobs.get(
+			unchanged.chain.metadataBlobId as string,
+		) as BaseMetadata<BaseMetadataEntry>;
+		expect(metadata.entries).toEqual([{ blob_id: "mine", condition_count: 2 }]);
+
+		const changed = createFakeDeps([{ blob_id: "theirs" }]);
+		const error = await processOutboxItem(
+			conditionsItem([{ blob_id: "old" }]),
+			changed,
+		).catch((e) => e);
+		expect(error).toBeInstanceOf(DataEntryConflictError);
+		expect(error.partitions).toEqual([SINGLE_BLOB_PARTITION_KEY]);
+		expect(changed.updatePassport).not.toHaveBeenCalled();
+	});
+});
+
+describe("リトライ間隔", () => {
+	it("失敗回数に応じて倍増し、30分で頭打ちになる", () => {
+		expect(getRetryDelayMs(1)).toBe(30_000);
+		expect(getRetryDelayMs(2)).toBe(60_000);
+		expect(getRetryDelayMs(20)).toBe(30 * 60 * 1000);
+
+		const failed = markOutboxItemFailed(vitalsItem(), new Error("boom"), 5000);
+		expect(failed).toMatchObject({
+			attempts: 1,
+			lastError: "boom",
+			nextAttemptAt: 35_000,
+		});
+	});
+});
@@ -0,0 +1,167 @@
+import { toBase64 } from "@mysten/bcs";
+import { describe, expect, it } from "vitest";
+import {
+	derToRawEcdsaSignature,
+	getPasskeyRequiredTypes,
+	type PasskeyGateConfig,
+	verifyPasskeyAssertion,
+} from "../passkeyGate";
+
+const NOW = 1_700_000_000_000;
+const ORIGIN = "https://curepocket.example";
+
+const config: PasskeyGateConfig = {
+	owner: `0x${"1".repeat(64)}`,
+	credentialId: "AA==",
+	publicKey: "",
+	algorithm: -7,
+	sensitivity: { medications: "off" },
+	createdAt: NOW,
+};
+
+/** raw r||s → DER (authenticators return DER) */
+function rawToDer(raw: Uint8Array): Uint8Array {
+	const integer = (bytes: Uint8Array) => {
+		let start = 0;
+		while (start < bytes.length - 1 && bytes[start] === 0) {
+			start++;
+		}
+		const trimmed = bytes.subarray(start);
+		const padded =
+			trimmed[0] & 0x80
+				? Uint8Array.of(0, ...trimmed)
+				: Uint8Array.from(trimmed);
+		return Uint8Array.of(0x02, padded.length, ...padded);
+	};
+	const r = integer(raw.subarray(0, 32));
+	const s = integer(raw.subarray(32));
+	return Uint8Array.of(0x30, r.length + s.length, ...r, ...s);
+}
+
+function base64Url(bytes: Uint8Array): string {
+	return toBase64(bytes)
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_")
+		.replace(/=+$/, "");
+}
+
+async function signAssertion(flags: number) {
+	const keyPair = await crypto.subtle.generateKey(
+		{ name: "ECDSA", namedCurve: "P-256" },
+		true,
+		["sign", "verify"],
+	);
+	const challenge = crypto.getRandomValues(new Uint8Array(32));
+	const authenticatorData = new Uint8Array(37);
+	authenticatorData[32] = flags;
+	const clientDataJSON = new TextEncoder().encode(
+		JSON.stringify({
+			type: "webauthn.get",
+			challenge: base64Url(challenge),
+			origin: ORIGIN,
+		}),
+	);
+	const clientDataHash = new Uint8Array(
+		await crypto.subtle.digest("SHA-256", clientDataJSON),
+	);
+	const signed = Uint8Array.of(...authenticatorData, ...clientDataHash);
+	const raw = new Uint8Array(
+		await crypto.subtle.sign(
+			{ name: "ECDSA", hash: "SHA-256" },
+			keyPair.privateKey,
+			signed,
+		),
+	);
+	const publicKey = toBase64(
+		new Uint8Array(await crypto.subtle.exportKey("spki", keyPair.publicKey)),
+	);
+	return {
+		config: { publicKey, algorithm: -7 },
+		assertion: {
+			authenticatorData,
+			clientDataJSON,
+			signature: rawToDer(raw),
+		},
+		challenge,
+	};
+}
+
+describe("getPasskeyRequiredTypes", () => {
+	it("パスキー未登録なら何も求めない", () => {
+		expect(getPasskeyRequiredTypes(null, ["conditions"], null, NOW)).toEqual(
+			[],
+		);
+	});
+
+	it("conditions・imaging_metaは確認直後でも毎回求める", () => {
+		const types = [
+			"basic_profile",
+			"medications",
+			"conditions",
+			"imaging_meta",
+		] as const;
+		expect(getPasskeyRequiredTypes(config, [...types], null, NOW)).toEqual([
+			"basic_profile",
+			"conditions",
+			"imaging_meta",
+		]);
+		expect(
+			getPasskeyRequiredTypes(config, [...types], NOW - 60 * 1000, NOW),
+		).toEqual(["conditions", "imaging_meta"]);
+		expect(
+			getPasskeyRequiredTypes(config, [...types], NOW - 5 * 60 * 1000, NOW),
+		).toEqual(["basic_profile", "conditions", "imaging_meta"]);
+	});
+});
+
+describe("verifyPasskeyAssertion", () => {
+	it("登録した公開鍵の署名を検証できる", async () => {
+		const { config, assertion, challenge } = await signAssertion(0x05);
+		await expect(
+			verifyPasskeyAssertion(config, assertion, { challenge, origin: ORIGIN }),
+		).resolves.toBeUndefined();
+	});
+
+	it("チャレンジ・オリジン・UVフラグ・署名の不一致を拒否する", async () => {
+		const { config, assertion, challenge } = await signAssertion(0x05);
+		await expect(
+			verifyPasskeyAssertion(config, assertion, {
+				challenge: new Uint8Array(32),
+				origin: ORIGIN,
+			}),
+		).rejects.toThrow("challenge mismatch");
+		await expect(
+			verifyPasskeyAssertion(config, assertion, {
+				challenge,
+				origin: "https://evil.example",
+			}),
+		).rejects.toThrow("origin mismatch");
+
+		const tampered = Uint8Array.from(assertion.authenticatorData);
+		tampered[36] = 1;
+		await expect(
+			verifyPasskeyAssertion(
+				config,
+				{ ...assertion, authenticatorData: tampered },
+				{ challenge, origin: ORIGIN },
+			),
+		).rejects.toThrow("signature does not verify");
+
+		const presenceOnly = await signAssertion(0x01);
+		await expect(
+			verifyPasskeyAssertion(presenceOnly.config, presenceOnly.assertion, {
+				challenge: presenceOnly.challenge,
+				origin: ORIGIN,
+			}),
+		).rejects.toThrow("user was not verified");
+	});
+
+	it("DER署名をr||s形式に変換する", () => {
+		const raw = new Uint8Array(64);
+		raw[0] = 0x80;
+		raw[31] = 1;
+		raw[63] = 2;
+		expect(derToRawEcdsaSignature(rawToDer(raw))).toEqual(raw);
+		expect(() => derToRawEcdsaSignature(Uint8Array.of(0x31, 0))).toThrow();
+	});
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+	createPinWrappedKey,
+	decryptRecordCacheEntry,
+	encryptRecordCacheEntry,
+	isRecordCacheEntryCurrent,
+	unwrapPinWrappedKey,
+	validateRecordCachePin,
+} from "../recordCache";
+
+const OWNER = `0x${"1".repeat(64)}`;
+// テストではPBKDF2の反復回数を下げる
+const ITERATIONS = 1000;
+
+describe("PIN wrap", () => {
+	it("PINで包んだデータ鍵を同じPINでのみ取り出せる", async () => {
+		const { dataKey, wrapped } = await createPinWrappedKey(
+			"123456",
+			ITERATIONS,
+		);
+		const entry = await encryptRecordCacheEntry(dataKey, {
+			owner: OWNER,
+			dataType: "medications",
+			entryUpdatedAt: 100,
+			value: [{ id: "m1", name: "Aspirin" }],
+		});
+
+		const unlocked = await unwrapPinWrappedKey(wrapped, "123456");
+		await expect(decryptRecordCacheEntry(unlocked, entry)).resolves.toEqual([
+			{ id: "m1", name: "Aspirin" },
+		]);
+		await expect(unwrapPinWrappedKey(wrapped, "654321")).rejects.toThrow(
+			"wrong PIN",
+		);
+		expect(wrapped.kdf).toMatchObject({ name: "PBKDF2", iterations: 1000 });
+	});
+
+	it("6桁未満・数字以外のPINは使えない", async () => {
+		expect(() => validateRecordCachePin("12345")).toThrow(
+			"PIN must be at least 6 digits",
+		);
+		expect(() => validateRecordCachePin("12345a")).toThrow();
+		await expect(createPinWrappedKey("1234", ITERATIONS)).rejects.toThrow();
+	});
+});
+
+describe("cache entries", () => {
+	it("別のデータ種・更新時刻に付け替えたエントリは復号できない", async () => {
+		const { dataKey } = await createPinWrappedKey("123456", ITERATIONS);
+		const entry = await encryptRecordCacheEntry(dataKey, {
+			owner: OWNER,
+			dataType: "medications",
+			entryUpdatedAt: 100,
+			value: { secret: true },
+		});
+
+		expect(entry.id).toBe(`${OWNER}:medications`);
+		await expect(
+			decryptRecordCacheEntry(dataKey, {
+				...entry,
+				id: `${OWNER}:lab_results`,
+				dataType: "lab_results",
+			}),
+		).rejects.toThrow("Failed to decrypt cached lab_results");
+		await expect(
+			decryptRecordCacheEntry(dataKey, { ...entry, entryUpdatedAt: 200 }),
+		).rejects.toThrow();
+
+		const { dataKey: otherKey } = await createPinWrappedKey(
+			"123456",
+			ITERATIONS,
+		);
+		await expect(decryptRecordCacheEntry(otherKey, entry)).rejects.toThrow(
+			"wrong key or damaged entry",
+		);
+	});
+
+	it("EntryData.updatedAtが変わったエントリは使わない", async () => {
+		const { dataKey } = await createPinWrappedKey("123456", ITERATIONS);
+		const entry = await encryptRecordCacheEntry(dataKey, {
+			owner: OWNER,
+			dataType: "conditions",
+			entryUpdatedAt: 100,
+			value: [],
+		});
+
+		expect(isRecordCacheEntryCurrent(entry, 100)).toBe(true);
+		expect(isRecordCacheEntryCurrent(entry, 101)).toBe(false);
+	});
+});
@@ -0,0 +1,289 @@
+import { describe, expect, it, vi } from "vitest";
+import type { WalrusBlobReference } from "@/types/healthData";
+import type { BaseMetadata, BaseMetadataEntry } from "@/types/metadata";
+import {
+	buildDataEntryBatchTransaction,
+	type DataEntryBatch,
+} from "../dataEntryBatch";
+import { SINGLE_BLOB_PARTITION_KEY } from "../outbox";
+import {
+	importRecords,
+	parseHealthDataBundle,
+	type RecordImportDeps,
+	RecordImportError,
+} from "../recordImport";
+
+const PACKAGE = `0x${"3".repeat(64)}`;
+const PASSPORT = `0x${"5".repeat(64)}`;
+
+function medication(id: string, startDate: string, prescriber: string) {
+	return {
+		id,
+		status: "active",
+		codes: {},
+		name: { en: id, local: id },
+		dosage: "1 tablet",
+		start_date: startDate,
+		prescriber,
+	};
+}
+
+function labResult(id: string, date: string, items = 1) {
+	return {
+		id,
+		date,
+		category: "biochemistry",
+		items: Array.from({ length: items }, () => ({
+			codes: {},
+			name: { en: "HbA1c", local: "HbA1c" },
+			value: 5.6,
+			unit: "%",
+		})),
+	};
+}
+
+const BUNDLE = {
+	meta: { schema_version: "1.0.0", updated_at: 0, generator: "test" },
+	profile: {
+		birth_date: "1980-01-01",
+		nationality: "JP",
+		gender: "other",
+		allergies: [],
+		blood_type: "A+",
+	},
+	allergies: [],
+	conditions: [
+		{ id: "c1", status: "active", codes: {}, name: { en: "A", local: "A" } },
+	],
+	medications: [
+		medication("m1", "2025-01-10", "Clinic A"),
+		medication("m2", "2025-01-10", "Clinic A"),
+		medication("m3", "2025-02-01", "Clinic B"),
+	],
+	lab_results: [labResult("l1", "2025-01-10", 2)],
+	imaging: [],
+};
+
+/**
+ * Walrus・SBTを模したインメモリの依存関係
+ */
+function createFakeDeps(
+	saved: Partial<Record<string, BaseMetadataEntry[]>>,
+	savedBlobs: Record<string, Record<string, unknown>> = {},
+): RecordImportDeps & {
+	blobs: Map<string, { data: object; sealId?: string }>;
+	batches: DataEntryBatch[];
+} {
+	let counter = 0;
+	const blobs = new Map<string, { data: object; sealId?: string }>();
+	const batches: DataEntryBatch[] = [];
+
+	return {
+		blobs,
+		batches,
+		loadMetadata: vi.fn(async (dataType) => {
+			const entries = saved[dataType];
+			return entries
+				? {
+						metadataBlobId: `meta-${dataType}`,
+						metadata: {
+							schema_version: "3.0.0" as const,
+							data_type: dataType,
+							updated_at: 0,
+							entries,
+						},
+					}
+				: null;
+		}),
+		loadDataBlob: vi.fn(async (entry) => savedBlobs[entry.blob_id]),
+		uploadBlob: vi.fn(async (data, _dataType, sealId) => {
+			const blobId = `blob-${++counter}`;
+			blobs.set(blobId, { data, sealId });
+			return { blobId, size: 1 } as WalrusBlobReference;
+		}),
+		commit: vi.fn(async (batch) => {
+			batches.push(batch);
+		}),
+	};
+}
+
+function metadataOf(
+	deps: ReturnType<typeof createFakeDeps>,
+	dataType: string,
+): BaseMetadata<BaseMetadataEntry> {
+	const write = deps.batches[0].writes.find((w) => w.dataType === dataType);
+	return deps.blobs.get(write?.metadataBlobId as string)
+		?.data as BaseMetadata<BaseMetadataEntry>;
+}
+
+describe("parseHealthDataBundle", () => {
+	it("データ種ごとに分割し、処方箋は日付・処方元、検査結果は検査日でパーティション分割する", () => {
+		const dataTypes = parseHealthDataBundle(BUNDLE);
+
+		expect(dataTypes.map((d) => d.dataType)).toEqual([
+			"basic_profile",
+			"conditions",
+			"medications",
+			"lab_results",
+		]);
+		expect(dataTypes[0].partitions[0].key).toBe(SINGLE_BLOB_PARTITION_KEY);
+		expect(dataTypes[2].partitions.map((p) => p.key)).toEqual([
+			"prescription-m1",
+			"prescription-m3",
+		]);
+		expect(dataTypes[2].partitions[0].entry).toEqual({
+			prescription_date: "2025-01-10",
+			clinic: "Clinic A",
+		});
+		expect(dataTypes[3].partitions.map((p) => p.key)).toEqual(["2025-01-10"]);
+	});
+
+	it("バンドルでないファイルやIDのない記録は拒否する", () => {
+		expect(() => parseHealthDataBundle([])).toThrow(RecordImportError);
+		expect(() => parseHealthDataBundle({ meta: {} })).toThrow(
+			"Import file has no records",
+		);
+		expect(() =>
+			parseHealthDataBundle({ medications: [{ start_date: "2025-01-10" }] }),
+		).toThrow("medications[0] has no id");
+	});
+});
+
+describe("importRecords", () => {
+	it("全データ種のSBT更新を1つのバッチ（署名1回）にまとめる", async () => {
+		const deps = createFakeDeps({
+			basic_profile: [{ blob_id: "old-profile" }],
+			medications: [
+				{
+					blob_id: "old-rx",
+					prescription_id: "prescription-other",
+				} as BaseMetadataEntry,
+			],
+		});
+
+		await importRecords(PASSPORT, parseHealthDataBundle(BUNDLE), deps);
+
+		expect(deps.commit).toHaveBeenCalledTimes(1);
+		const batch = deps.batches[0];
+		expect(
+			batch.writes.map(({ dataType, replace, expectedMetadataBlobId }) => ({
+				dataType,
+				replace,
+				expectedMetadataBlobId,
+			})),
+		).toEqual([
+			{
+				dataType: "basic_profile",
+				replace: true,
+				expectedMetadataBlobId: "meta-basic_profile",
+			},
+			{
+				dataType: "conditions",
+				replace: false,
+				expectedMetadataBlobId: undefined,
+			},
+			{
+				dataType: "medications",
+				replace: true,
+				expectedMetadataBlobId: "meta-medications",
+			},
+			{
+				dataType: "lab_results",
+				replace: false,
+				expectedMetadataBlobId: undefined,
+			},
+		]);
+
+		const seal = "0a0b0c";
+		const tx = buildDataEntryBatchTransaction(batch, PACKAGE, {
+			basic_profile: seal,
+			conditions: seal,
+			medications: seal,
+			lab_results: seal,
+		});
+		expect(
+			tx.getData().commands.map((command) => command.MoveCall?.function),
+		).toEqual([
+			"replace_data_entry_if_current",
+			"add_data_entry",
+			"replace_data_entry_if_current",
+			"add_data_entry",
+		]);
+
+		// 既存の処方箋は残り、取り込んだ処方箋が追加される
+		const medications = metadataOf(deps, "medications");
+		expect(
+			medications.entries.map(
+				(e) => (e as unknown as { prescription_id: string }).prescription_id,
+			),
+		).toEqual(["prescription-other", "prescription-m1", "prescription-m3"]);
+		expect(medications.entries[1]).toMatchObject({
+			medication_count: 2,
+			clinic: "Clinic A",
+		});
+		expect(metadataOf(deps, "basic_profile").entries).toEqual([
+			{ blob_id: expect.any(String), size: 1 },
+		]);
+		expect(metadataOf(deps, "lab_results").entries[0]).toMatchObject({
+			test_date: "2025-01-10",
+			test_count: 2,
+		});
+	});
+
+	it("保存済みのパーティションとはIDで記録をマージし、エントリ専用seal_idを保つ", async () => {
+		const savedEntry = {
+			blob_id: "old-lab",
+			test_date: "2025-01-10",
+			facility: "Hospital",
+			test_count: 1,
+			seal_id: "entry-seal",
+		} as BaseMetadataEntry;
+		const deps = createFakeDeps(
+			{ lab_results: [savedEntry] },
+			{
+				"old-lab": {
+					meta: {},
+					lab_results: [
+						labResult("saved", "2025-01-10"),
+						labResult("l1", "2025-01-10"),
+					],
+				},
+			},
+		);
+		const dataTypes = parseHealthDataBundle({
+			lab_results: [labResult("l1", "2025-01-10", 3)],
+		});
+
+		await importRecords(PASSPORT, dataTypes, deps);
+
+		expect(deps.loadDataBlob).toHaveBeenCalledWith(savedEntry, "lab_results");
+		const metadata = metadataOf(deps, "lab_results");
+		expect(metadata.entries).toHaveLength(1);
+		expect(metadata.entries[0]).toMatchObject({
+			facility: "Hospital",
+			test_count: 4,
+			seal_id: "entry-seal",
+		});
+		const blob = deps.blobs.get(metadata.entries[0].blob_id);
+		expect(blob).toBeDefined();
+		const { data, sealId } = blob as { data: object; sealId?: string };
+		expect(sealId).toBe("entry-seal");
+		expect(
+			(data as { lab_results: Array<{ id: string }> }).lab_results.map(
+				(r) => r.id,
+			),
+		).toEqual(["saved", "l1"]);
+	});
+
+	it("アップロードが失敗したらSBTを更新しない", async () => {
+		const deps = createFakeDeps({});
+		vi.mocked(deps.uploadBlob)
+			.mockResolvedValueOnce({ blobId: "b", size: 1 } as WalrusBlobReference)
+			.mockRejectedValueOnce(new Error("walrus down"));
+
+		await expect(
+			importRecords(PASSPORT, parseHealthDataBundle(BUNDLE), deps),
+		).rejects.toThrow("walrus down");
+		expect(deps.commit).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,150 @@
+import { toHex } from "@mysten/bcs";
+import { EncryptedObject } from "@mysten/seal";
+import { describe, expect, it } from "vitest";
+import {
+	buildRecoveryKitContents,
+	decryptWithBackupKey,
+	joinRecoveryKitQrParts,
+	openRecoveryKit,
+	parseRecoveryKitFile,
+	sealRecoveryKit,
+	splitRecoveryKitForQr,
+} from "../recoveryKit";
+
+const PASSPHRASE = "correct horse battery staple";
+
+function kitContents() {
+	return buildRecoveryKitContents(
+		"0xABC",
+		[
+			{
+				id: "0xabc:blob-1",
+				owner: "0xabc",
+				blobId: "blob-1",
+				dataType: "medications",
+				sha256: "ab".repeat(32),
+				key: new Uint8Array(32).fill(7),
+				createdAt: 1000,
+			},
+		],
+		2000,
+	);
+}
+
+/**
+ * Seal SDKのAES-256-GCM DEMと同じ形式の暗号化オブジェクトを作る
+ * （IVはSDK固定値）
+ */
+async function sealLikeEncrypt(
+	plaintext: Uint8Array,
+	key: Uint8Array,
+): Promise<Uint8Array> {
+	const iv = Uint8Array.from([
+		138, 55, 153, 253, 198, 46, 121, 219, 160, 128, 89, 7, 214, 156, 148, 220,
+	]);
+	const aad = new Uint8Array([1, 2, 3]);
+	const cryptoKey = await crypto.subtle.importKey(
+		"raw",
+		key as BufferSource,
+		"AES-GCM",
+		false,
+		["encrypt"],
+	);
+	const blob = new Uint8Array(
+		await crypto.subtle.encrypt(
+			{ name: "AES-GCM", iv, additionalData: aad },
+			cryptoKey,
+			plaintext as BufferSource,
+		),
+	);
+	return EncryptedObject.serialize({
+		version: 0,
+		packageId: `0x${"1".repeat(64)}`,
+		id: "abcd",
+		services: [[`0x${"2".repeat(64)}`, 0]],
+		threshold: 1,
+		encryptedShares: {
+			BonehFranklinBLS12381: {
+				nonce: new Uint8Array(96),
+				encryptedShares: [new Uint8Array(32)],
+				encryptedRandomness: new Uint8Array(32),
+			},
+		},
+		ciphertext: { Aes256Gcm: { blob, aad } },
+	}).toBytes();
+}
+
+describe("sealRecoveryKit / openRecoveryKit", () => {
+	it("パスフレーズで包んだキットを同じパスフレーズで開ける", async () => {
+		const contents = kitContents();
+		const file = await sealRecoveryKit(contents, PASSPHRASE, 1000);
+
+		expect(file).toMatchObject({
+			format: "curepocket-recovery-kit",
+			owner: "0xabc",
+			keyCount: 1,
+			kdf: { name: "PBKDF2", iterations: 1000 },
+		});
+		expect(JSON.stringify(file)).not.toContain("0707");
+
+		const parsed = parseRecoveryKitFile(JSON.stringify(file));
+		await expect(openRecoveryKit(parsed, PASSPHRASE)).resolves.toEqual(
+			contents,
+		);
+	});
+
+	it("パスフレーズが違う・短い場合はエラー", async () => {
+		const file = await sealRecoveryKit(kitContents(), PASSPHRASE, 1000);
+
+		await expect(openRecoveryKit(file, "wrong passphrase!")).rejects.toThrow(
+			"wrong passphrase",
+		);
+		await expect(sealRecoveryKit(kitContents(), "short", 1000)).rejects.toThrow(
+			"at least 12",
+		);
+	});
+
+	it("キット以外のファイルは読み込まない", () => {
+		expect(() => parseRecoveryKitFile("{}")).toThrow("Not a recovery kit");
+		expect(() => parseRecoveryKitFile("not json")).toThrow(
+			"Not a recovery kit",
+		);
+	});
+});
+
+describe("QRセット", () => {
+	it("分割したQRテキストを順不同で復元する", () => {
+		const text = "x".repeat(25) + "y".repeat(10);
+		const parts = splitRecoveryKitForQr(text, 10);
+
+		expect(parts).toHaveLength(4);
+		expect(parts[0]).toBe("CPKIT1:1/4:xxxxxxxxxx");
+		expect(joinRecoveryKitQrParts([...parts].reverse())).toBe(text);
+	});
+
+	it("欠けているQRコードの番号を示す", () => {
+		const parts = splitRecoveryKitForQr("a".repeat(30), 10);
+
+		expect(() => joinRecoveryKitQrParts([parts[0], parts[0]])).toThrow(
+			"Missing recovery kit QR codes: 2, 3",
+		);
+		expect(() => joinRecoveryKitQrParts(["hello"])).toThrow(
+			"Not a recovery kit QR code",
+		);
+	});
+});
+
+describe("decryptWithBackupKey", () => {
+	it("鍵サーバーを使わずにバックアップ鍵で復号する", async () => {
+		const key = crypto.getRandomValues(new Uint8Array(32));
+		const plaintext = new TextEncoder().encode('{"medications":[]}');
+		const encrypted = await sealLikeEncrypt(plaintext, key);
+
+		await expect(decryptWithBackupKey(encrypted, toHex(key))).resolves.toEqual(
+			plaintext,
+		);
+		await expect(
+			decryptWithBackupKey(encrypted, "00".repeat(32)),
+		).rejects.toThrow("backup key does not match");
+	});
+});
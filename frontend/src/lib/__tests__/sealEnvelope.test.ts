@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import {
+	decodeEnvelope,
+	decodeJsonEnvelope,
+	EnvelopeCompression,
+	EnvelopeFormatError,
+	encodeEnvelope,
+	encodeJsonEnvelope,
+	isEnveloped,
+} from "../sealEnvelope";
+
+/**
+ * エンベロープ導入前の画像形式: [uint32 BE mime長][mime][bytes]
+ */
+function legacyImagingEnvelope(mime: string, data: Uint8Array): Uint8Array {
+	const mimeBytes = new TextEncoder().encode(mime);
+	const bytes = new Uint8Array(4 + mimeBytes.length + data.length);
+	new DataView(bytes.buffer).setUint32(0, mimeBytes.length, false);
+	bytes.set(mimeBytes, 4);
+	bytes.set(data, 4 + mimeBytes.length);
+	return bytes;
+}
+
+/**
+ * 長期間のバイタル履歴のような冗長なJSON
+ */
+function vitalsHistory(days: number) {
+	return {
+		schema_version: "2.0.0",
+		self_metrics: Array.from({ length: days }, (_, i) => ({
+			recorded_at: `2026-01-${String((i % 28) + 1).padStart(2, "0")}`,
+			systolic: 120 + (i % 5),
+			diastolic: 80,
+			pulse: 70,
+		})),
+	};
+}
+
+describe("encodeEnvelope / decodeEnvelope", () => {
+	it("content type・schemaバージョン・ペイロードを往復できる", async () => {
+		const payload = new Uint8Array([0, 1, 2, 250]);
+		const { bytes, compression } = await encodeEnvelope({
+			contentType: "application/dicom",
+			schemaVersion: "2.0.0",
+			payload,
+		});
+
+		expect(compression).toBe(EnvelopeCompression.None);
+		expect(isEnveloped(bytes)).toBe(true);
+		expect(new TextDecoder().decode(bytes.subarray(0, 4))).toBe("CPSE");
+		await expect(decodeEnvelope(bytes)).resolves.toEqual({
+			version: 1,
+			contentType: "application/dicom",
+			compression: EnvelopeCompression.None,
+			schemaVersion: "2.0.0",
+			payload,
+		});
+	});
+
+	it("JSONはschema_versionをヘッダーに記録する", async () => {
+		const data = { schema_version: "3.0.0", entries: [] };
+		const { value, envelope } = await decodeJsonEnvelope(
+			(await encodeJsonEnvelope(data)).bytes,
+		);
+
+		expect(value).toEqual(data);
+		expect(envelope.schemaVersion).toBe("3.0.0");
+		expect(envelope.contentType).toBe("application/json");
+	});
+
+	it("未対応のバージョン・圧縮方式はエラー", async () => {
+		const { bytes } = await encodeEnvelope({
+			contentType: "text/plain",
+			payload: new Uint8Array([1]),
+		});
+		const newer = bytes.slice();
+		newer[4] = 9;
+		const compressed = bytes.slice();
+		compressed[5] = 7;
+
+		await expect(decodeEnvelope(newer)).rejects.toThrow(
+			"envelope version 9 is not supported",
+		);
+		await expect(decodeEnvelope(compressed)).rejects.toThrow(
+			"unknown compression 7",
+		);
+		await expect(decodeEnvelope(bytes.subarray(0, 8))).rejects.toThrow(
+			EnvelopeFormatError,
+		);
+	});
+});
+
+describe("圧縮", () => {
+	it("冗長なJSONはdeflateで圧縮し、復号時に自動で展開する", async () => {
+		const data = vitalsHistory(365);
+		const json = new TextEncoder().encode(JSON.stringify(data));
+		const encoded = await encodeJsonEnvelope(data);
+
+		expect(encoded.compression).toBe(EnvelopeCompression.Deflate);
+		expect(encoded.originalSize).toBe(json.length);
+		expect(encoded.savedBytes).toBeGreaterThan(json.length / 2);
+		expect(encoded.bytes.length).toBeLessThan(
+			json.length - encoded.savedBytes + 64,
+		);
+
+		const { value, envelope } = await decodeJsonEnvelope(encoded.bytes);
+		expect(value).toEqual(data);
+		expect(envelope.compression).toBe(EnvelopeCompression.Deflate);
+	});
+
+	it("小さくならない場合・圧縮済み形式は圧縮しない", async () => {
+		const random = crypto.getRandomValues(new Uint8Array(512));
+		const zeros = new Uint8Array(4096);
+
+		const incompressible = await encodeEnvelope({
+			contentType: "application/octet-stream",
+			payload: random,
+		});
+		const jpeg = await encodeEnvelope({
+			contentType: "image/jpeg",
+			payload: zeros,
+		});
+		const dicom = await encodeEnvelope({
+			contentType: "application/dicom",
+			payload: zeros,
+		});
+
+		expect(incompressible).toMatchObject({ compression: 0, savedBytes: 0 });
+		expect(jpeg).toMatchObject({ compression: 0, savedBytes: 0 });
+		expect(dicom.compression).toBe(EnvelopeCompression.Deflate);
+		expect((await decodeEnvelope(dicom.bytes)).payload).toEqual(zeros);
+	});
+
+	it("壊れた圧縮データはエラー", async () => {
+		const { bytes } = await encodeJsonEnvelope(vitalsHistory(30));
+		const corrupted = bytes.slice();
+		corrupted[corrupted.length - 3] ^= 0xff;
+
+		await expect(decodeEnvelope(corrupted)).rejects.toThrow(
+			"failed to decompress payload",
+		);
+	});
+});
+
+describe("旧形式のblob", () => {
+	it("エンベロープなしのJSONをそのまま読める", async () => {
+		const raw = new TextEncoder().encode(
+			JSON.stringify({ schema_version: "2.0.0", medications: [] }),
+		);
+		const { value, envelope } = await decodeJsonEnvelope(raw);
+
+		expect(value).toEqual({ schema_version: "2.0.0", medications: [] });
+		expect(envelope.version).toBe(0);
+	});
+
+	it("旧画像エンベロープからMIME typeとデータを取り出す", async () => {
+		const data = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+		const envelope = await decodeEnvelope(
+			legacyImagingEnvelope("image/png", data),
+		);
+
+		expect(envelope).toMatchObject({ version: 0, contentType: "image/png" });
+		expect(envelope.payload).toEqual(data);
+		await expect(
+			decodeJsonEnvelope(legacyImagingEnvelope("image/png", data)),
+		).rejects.toThrow("expected application/json, got image/png");
+	});
+});
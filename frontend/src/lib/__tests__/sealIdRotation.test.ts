@@ -0,0 +1,371 @@
+import { describe, expect, it } from "vitest";
+import type {
+	BaseMetadata,
+	ImagingMetadataEntry,
+	MedicationsMetadataEntry,
+} from "@/types/metadata";
+import {
+	deriveEntrySealId,
+	generateEntryNonce,
+	generateRotationNonce,
+	generateSealId,
+} from "../sealIdGenerator";
+import {
+	applyRotatedBlobs,
+	createRotationJob,
+	getRotatedEntrySealId,
+	getRotationCounts,
+	getRotationJobBlobIds,
+	getRotationResumeState,
+	rebaseRotationJob,
+	recordRotatedBinary,
+	recordRotatedBlob,
+} from "../sealIdRotation";
+import type { EntryData } from "../suiClient";
+
+const OWNER = `0x${"1".repeat(64)}`;
+
+function medicationEntry(
+	blobId: string,
+	prescriptionId: string,
+): MedicationsMetadataEntry {
+	return {
+		blob_id: blobId,
+		end_epoch: 10,
+		sha256: `sha-${blobId}`,
+		size: 100,
+		prescription_id: prescriptionId,
+		prescription_date: "2026-01-01",
+		clinic: "Clinic",
+		medication_count: 1,
+	};
+}
+
+function metadataOf(
+	...entries: MedicationsMetadataEntry[]
+): BaseMetadata<MedicationsMetadataEntry> {
+	return {
+		schema_version: "3.0.0",
+		data_type: "medications",
+		updated_at: 0,
+		entries,
+	};
+}
+
+const entry: EntryData = {
+	sealId: "old",
+	metadataBlobId: "meta-1",
+	updatedAt: 0,
+};
+
+function newJob(metadata = metadataOf(medicationEntry("b1", "p1"))) {
+	return createRotationJob({
+		owner: OWNER,
+		passportId: "0xpassport",
+		dataType: "medications",
+		entry,
+		metadata,
+		rotationNonce: "nonce",
+		newSealId: "new",
+		now: 1,
+	});
+}
+
+describe("generateSealId", () => {
+	it("ローテーションnonceごとに異なるseal_idを生成する", async () => {
+		const original = await generateSealId(OWNER, "medications");
+		const nonce = generateRotationNonce();
+		const rotated = await generateSealId(OWNER, "medications", nonce);
+
+		expect(nonce).toMatch(/^[0-9a-f]{32}$/);
+		expect(rotated).toMatch(/^[0-9a-f]{64}$/);
+		expect(rotated).not.toBe(original);
+		await expect(generateSealId(OWNER, "medications", nonce)).resolves.toBe(
+			rotated,
+		);
+		expect(generateRotationNonce()).not.toBe(nonce);
+	});
+});
+
+describe("rotation job", () => {
+	it("再暗号化したBlobの保存情報でメタデータのエントリを置き換える", () => {
+		const metadata = metadataOf(
+			{
+				...medicationEntry("b1", "p1"),
+				chunk_manifest: {
+					manifest_version: 1,
+					total_size: 100,
+					chunk_size: 50,
+					sha256: "x",
+					chunks: [],
+				},
+			},
+			medicationEntry("b2", "p2"),
+		);
+		let job = newJob(metadata);
+		job = recordRotatedBlob(job, "b1", {
+			blob_id: "n1",
+			sha256: "sha-n1",
+			size: 90,
+		});
+
+		expect(() => applyRotatedBlobs(metadata, job)).toThrow(
+			"Blob b2 has not been re-encrypted",
+		);
+
+		job = recordRotatedBlob(job, "b2", {
+			blob_id: "n2",
+			end_epoch: 20,
+			size: 80,
+		});
+		const rotated = applyRotatedBlobs(metadata, job);
+
+		expect(rotated.entries[0]).toEqual({
+			blob_id: "n1",
+			sha256: "sha-n1",
+			size: 90,
+			prescription_id: "p1",
+			prescription_date: "2026-01-01",
+			clinic: "Clinic",
+			medication_count: 1,
+		});
+		expect(rotated.entries[1]).toMatchObject({
+			blob_id: "n2",
+			end_epoch: 20,
+			prescription_id: "p2",
+		});
+		expect(rotated.entries[1].sha256).toBeUndefined();
+		expect(metadata.entries[0].blob_id).toBe("b1");
+	});
+
+	it("進捗はデータBlob・メタデータ・パスポート更新のステップで数える", () => {
+		let job = newJob(
+			metadataOf(medicationEntry("b1", "p1"), medicationEntry("b2", "p2")),
+		);
+		expect(getRotationCounts(job)).toEqual({ done: 0, total: 4 });
+
+		job = recordRotatedBlob(job, "b1", { blob_id: "n1" });
+		job = { ...job, metadataBlobId: "meta-2" };
+		expect(getRotationCounts(job)).toEqual({ done: 2, total: 4 });
+	});
+
+	it("SBT未反映のアップロード済みBlob（チャンクを含む）を列挙する", () => {
+		let job = newJob(
+			metadataOf(medicationEntry("b1", "p1"), medicationEntry("b2", "p2")),
+		);
+		expect(getRotationJobBlobIds(job)).toEqual([]);
+
+		job = recordRotatedBlob(job, "b1", {
+			blob_id: "n1",
+			chunk_manifest: {
+				manifest_version: 1,
+				total_size: 2,
+				chunk_size: 1,
+				sha256: "x",
+				chunks: [
+					{ index: 0, blob_id: "c0", size: 1, sha256: "" },
+					{ index: 1, blob_id: "c1", size: 1, sha256: "" },
+				],
+			},
+		});
+		job = { ...job, metadataBlobId: "meta-2" };
+		expect(getRotationJobBlobIds(job)).toEqual(["n1", "c0", "c1", "meta-2"]);
+	});
+});
+
+describe("getRotatedEntrySealId", () => {
+	it("エントリseal_idはnonceを保ったまま新しいseal_idの下に移す", async () => {
+		const oldSealId = await generateSealId(OWNER, "medications");
+		const newSealId = await generateSealId(
+			OWNER,
+			"medications",
+			generateRotationNonce(),
+		);
+		const nonce = generateEntryNonce();
+		const job = { ...newJob(), oldSealId, newSealId };
+
+		expect(
+			getRotatedEntrySealId(
+				{
+					...medicationEntry("b1", "p1"),
+					seal_id: deriveEntrySealId(oldSealId, nonce),
+				},
+				job,
+			),
+		).toBe(deriveEntrySealId(newSealId, nonce));
+		expect(getRotatedEntrySealId(medicationEntry("b2", "p2"), job)).toBe(
+			newSealId,
+		);
+	});
+});
+
+describe("getRotationResumeState", () => {
+	it("EntryDataのseal_idで再開・完了・破棄を判定する", () => {
+		const job = newJob();
+
+		expect(getRotationResumeState(job, entry)).toBe("resume");
+		expect(getRotationResumeState(job, { ...entry, sealId: "new" })).toBe(
+			"completed",
+		);
+		expect(getRotationResumeState(job, { ...entry, sealId: "other" })).toBe(
+			"stale",
+		);
+		expect(getRotationResumeState(job, null)).toBe("stale");
+	});
+});
+
+describe("rebaseRotationJob", () => {
+	it("中断中に保存された場合、残っているBlobの再暗号化結果だけを引き継ぐ", () => {
+		let job = newJob(
+			metadataOf(medicationEntry("b1", "p1"), medicationEntry("b2", "p2")),
+		);
+		job = recordRotatedBlob(job, "b1", { blob_id: "n1" });
+		job = recordRotatedBlob(job, "b2", { blob_id: "n2" });
+		job = { ...job, metadataBlobId: "meta-new" };
+
+		expect(rebaseRotationJob(job, entry, metadataOf())).toBe(job);
+
+		const rebased = rebaseRotationJob(
+			job,
+			{ ...entry, metadataBlobId: "meta-2" },
+			metadataOf(medicationEntry("b1", "p1"), medicationEntry("b3", "p3")),
+		);
+		expect(rebased).toMatchObject({
+			sourceMetadataBlobId: "meta-2",
+			blobIds: ["b1", "b3"],
+			rotated: { b1: { blob_id: "n1" } },
+			metadataBlobId: null,
+			newSealId: "new",
+		});
+	});
+});
+
+describe("imaging_meta rotation", () => {
+	function imagingEntry(
+		blobId: string,
+		binaryBlobId: string,
+	): ImagingMetadataEntry {
+		return {
+			blob_id: blobId,
+			sha256: `sha-${blobId}`,
+			study_id: `study-${blobId}`,
+			study_date: "2026-01-01",
+			modality: "ct",
+			body_part: "chest",
+			binary_blob_id: binaryBlobId,
+			binary_end_epoch: 10,
+			binary_sha256: `sha-${binaryBlobId}`,
+			binary_size: 1000,
+		};
+	}
+
+	const metadata: BaseMetadata<ImagingMetadataEntry> = {
+		schema_version: "3.0.0",
+		data_type: "imaging_meta",
+		updated_at: 0,
+		entries: [imagingEntry("m1", "i1"), imagingEntry("m2", "i2")],
+	};
+	const binaryEntry: EntryData = {
+		sealId: "old-binary",
+		metadataBlobId: "i2",
+		updatedAt: 0,
+	};
+
+	function imagingJob() {
+		return createRotationJob({
+			owner: OWNER,
+			passportId: "0xpassport",
+			dataType: "imaging_meta",
+			entry,
+			metadata,
+			rotationNonce: "nonce",
+			newSealId: "new",
+			binaryEntry,
+			newBinarySealId: "new-binary",
+			now: 1,
+		});
+	}
+
+	it("画像バイナリも新しいimaging_binaryのseal_idへの再暗号化対象に含める", () => {
+		const job = imagingJob();
+
+		expect(job.binary).toEqual({
+			oldSealId: "old-binary",
+			newSealId: "new-binary",
+			sourceBlobId: "i2",
+			blobIds: ["i1", "i2"],
+			rotated: {},
+		});
+		expect(getRotationCounts(job)).toEqual({ done: 0, total: 6 });
+		expect(newJob().binary).toBeNull();
+	});
+
+	it("再暗号化した画像バイナリの保存情報でbinary_*フィールドを置き換える", () => {
+		let job = imagingJob();
+		job = recordRotatedBlob(job, "m1", { blob_id: "n1" });
+		job = recordRotatedBlob(job, "m2", { blob_id: "n2" });
+		job = recordRotatedBinary(job, "i1", {
+			blob_id: "j1",
+			sha256: "sha-j1",
+			size: 900,
+		});
+
+		expect(() => applyRotatedBlobs(metadata, job)).toThrow(
+			"Image binary i2 has not been re-encrypted",
+		);
+
+		job = recordRotatedBinary(job, "i2", {
+			blob_id: "j2",
+			chunk_manifest: {
+				manifest_version: 1,
+				total_size: 2,
+				chunk_size: 1,
+				sha256: "x",
+				chunks: [{ index: 0, blob_id: "k0", size: 1, sha256: "" }],
+			},
+		});
+		const rotated = applyRotatedBlobs(metadata, job);
+
+		expect(rotated.entries[0]).toEqual({
+			blob_id: "n1",
+			study_id: "study-m1",
+			study_date: "2026-01-01",
+			modality: "ct",
+			body_part: "chest",
+			binary_blob_id: "j1",
+			binary_sha256: "sha-j1",
+			binary_size: 900,
+		});
+		expect(rotated.entries[1].binary_chunk_manifest?.chunks).toHaveLength(1);
+		expect(getRotationCounts(job)).toEqual({ done: 4, total: 6 });
+		expect(getRotationJobBlobIds(job)).toEqual(["n1", "n2", "j1", "j2", "k0"]);
+	});
+
+	it("中断中に保存された場合、残っている画像バイナリの再暗号化結果だけを引き継ぐ", () => {
+		let job = imagingJob();
+		job = recordRotatedBinary(job, "i1", { blob_id: "j1" });
+		job = recordRotatedBinary(job, "i2", { blob_id: "j2" });
+
+		expect(rebaseRotationJob(job, entry, metadata, binaryEntry)).toBe(job);
+
+		const rebased = rebaseRotationJob(
+			job,
+			{ ...entry, metadataBlobId: "meta-2" },
+			{
+				...metadata,
+				entries: [imagingEntry("m1", "i1"), imagingEntry("m3", "i3")],
+			},
+			{ ...binaryEntry, metadataBlobId: "i3" },
+		);
+		expect(rebased.binary).toEqual({
+			oldSealId: "old-binary",
+			newSealId: "new-binary",
+			sourceBlobId: "i3",
+			blobIds: ["i1", "i3"],
+			rotated: { i1: { blob_id: "j1" } },
+		});
+		expect(() =>
+			recordRotatedBinary(newJob(), "i1", { blob_id: "j1" }),
+		).toThrow("has no image binaries");
+	});
+});
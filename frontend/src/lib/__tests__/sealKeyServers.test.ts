@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest";
+import {
+	applyKeyServerUrlOverrides,
+	type KeyServerPingResult,
+	parseSealKeyServerConfig,
+	pingKeyServer,
+	summarizeKeyServerReachability,
+} from "../sealKeyServers";
+
+const A = `0x${"a".repeat(64)}`;
+const B = `0x${"b".repeat(64)}`;
+const C = `0x${"c".repeat(64)}`;
+
+function ping(objectId: string, ok: boolean): KeyServerPingResult {
+	return {
+		objectId,
+		url: "https://seal.example.com",
+		ok,
+		latencyMs: ok ? 10 : null,
+		error: ok ? null : "HTTP 503",
+		checkedAt: 0,
+	};
+}
+
+describe("parseSealKeyServerConfig", () => {
+	it("カンマ区切りは重み1・しきい値は最大2", () => {
+		expect(parseSealKeyServerConfig(`${A}, ${B},${C}`)).toEqual({
+			servers: [
+				{ objectId: A, weight: 1 },
+				{ objectId: B, weight: 1 },
+				{ objectId: C, weight: 1 },
+			],
+			threshold: 2,
+			totalWeight: 3,
+		});
+		expect(parseSealKeyServerConfig(A).threshold).toBe(1);
+	});
+
+	it("JSONで重み・URL上書き・しきい値を指定できる", () => {
+		const config = parseSealKeyServerConfig(
+			JSON.stringify({
+				threshold: 3,
+				servers: [
+					{ objectId: A, weight: 2, url: "https://proxy.example.com/seal/" },
+					{ objectId: B },
+					{ objectId: C },
+				],
+			}),
+		);
+
+		expect(config.threshold).toBe(3);
+		expect(config.totalWeight).toBe(4);
+		expect(config.servers[0]).toEqual({
+			objectId: A,
+			weight: 2,
+			url: "https://proxy.example.com/seal",
+		});
+	});
+
+	it("NEXT_PUBLIC_SEAL_THRESHOLDはJSONに指定がない場合のみ使う", () => {
+		expect(parseSealKeyServerConfig(`${A},${B},${C}`, "3").threshold).toBe(3);
+		expect(
+			parseSealKeyServerConfig(
+				JSON.stringify({ threshold: 1, servers: [A, B] }),
+				"2",
+			).threshold,
+		).toBe(1);
+	});
+
+	it("不正な設定はエラー", () => {
+		expect(() => parseSealKeyServerConfig("")).toThrow(
+			"no key servers configured",
+		);
+		expect(() => parseSealKeyServerConfig(`${A},${B}`, "3")).toThrow(
+			"threshold 3 exceeds the total weight 2",
+		);
+		expect(() => parseSealKeyServerConfig(`${A},${A}`)).toThrow("listed twice");
+		expect(() =>
+			parseSealKeyServerConfig(JSON.stringify([{ objectId: A, weight: 0 }])),
+		).toThrow("weight must be a positive integer");
+		expect(() =>
+			parseSealKeyServerConfig(
+				JSON.stringify([{ objectId: A, url: "ftp://example.com" }]),
+			),
+		).toThrow("url must be an http(s) URL");
+		expect(() => parseSealKeyServerConfig("not-an-id")).toThrow(
+			"is not a Sui object ID",
+		);
+	});
+});
+
+describe("applyKeyServerUrlOverrides", () => {
+	it("上書き指定のあるサーバーのURLだけを置き換える", () => {
+		const loaded = new Map([
+			[A, { objectId: A, url: "https://a.example.com" }],
+			[B, { objectId: B, url: "https://b.example.com" }],
+		]);
+		const result = applyKeyServerUrlOverrides(loaded, [
+			{ objectId: A, weight: 1, url: "https://proxy.example.com" },
+			{ objectId: B, weight: 1 },
+		]);
+
+		expect(result.get(A)?.url).toBe("https://proxy.example.com");
+		expect(result.get(B)?.url).toBe("https://b.example.com");
+		expect(loaded.get(A)?.url).toBe("https://a.example.com");
+	});
+});
+
+describe("summarizeKeyServerReachability", () => {
+	it("到達可能な重みがしきい値を下回ると警告する", () => {
+		const config = parseSealKeyServerConfig(
+			JSON.stringify({
+				threshold: 3,
+				servers: [{ objectId: A, weight: 2 }, B, C],
+			}),
+		);
+
+		expect(
+			summarizeKeyServerReachability(config, [
+				ping(A, true),
+				ping(B, true),
+				ping(C, false),
+			]),
+		).toEqual({
+			reachableWeight: 3,
+			reachableCount: 2,
+			threshold: 3,
+			totalWeight: 4,
+			belowThreshold: false,
+		});
+		expect(
+			summarizeKeyServerReachability(config, [
+				ping(A, false),
+				ping(B, true),
+				ping(C, true),
+			]).belowThreshold,
+		).toBe(true);
+	});
+});
+
+describe("pingKeyServer", () => {
+	it("service エンドポイントへの応答を記録する", async () => {
+		const urls: string[] = [];
+		const ok = await pingKeyServer(
+			{ objectId: A, url: "https://seal.example.com" },
+			{
+				fetchFn: async (input) => {
+					urls.push(String(input));
+					return new Response("{}", { status: 200 });
+				},
+			},
+		);
+		const failed = await pingKeyServer(
+			{ objectId: B, url: "https://seal.example.com" },
+			{
+				fetchFn: async () => {
+					throw new Error("connection refused");
+				},
+			},
+		);
+
+		expect(urls).toEqual([
+			`https://seal.example.com/v1/service?service_id=${A}`,
+		]);
+		expect(ok).toMatchObject({ ok: true, error: null });
+		expect(failed).toMatchObject({
+			ok: false,
+			latencyMs: null,
+			error: "connection refused",
+		});
+	});
+});
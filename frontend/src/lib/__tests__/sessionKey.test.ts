@@ -0,0 +1,192 @@
+import { toBase64 } from "@mysten/bcs";
+import { type SealCompatibleClient, SessionKey } from "@mysten/seal";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { describe, expect, it } from "vitest";
+import {
+	decodeSessionKeyHeader,
+	SessionKeyAuthError,
+	type SessionKeyRejectionReason,
+	serializeSessionKey,
+	validateSessionKey,
+	verifySessionKeyHeader,
+} from "../sessionKey";
+
+const PACKAGE_ID = `0x${"a".repeat(64)}`;
+const OTHER_PACKAGE_ID = `0x${"b".repeat(64)}`;
+
+// Ed25519署名の検証ではクライアントを使わない
+const suiClient = {} as SealCompatibleClient;
+
+async function signedSessionKey(
+	options: { creationTimeMs?: number; ttlMin?: number } = {},
+) {
+	const wallet = Ed25519Keypair.generate();
+	const address = wallet.getPublicKey().toSuiAddress();
+	const unsigned = SessionKey.import(
+		{
+			address,
+			packageId: PACKAGE_ID,
+			creationTimeMs: options.creationTimeMs ?? Date.now(),
+			ttlMin: options.ttlMin ?? 10,
+			sessionKey: Ed25519Keypair.generate().getSecretKey(),
+		},
+		suiClient,
+	);
+	const { signature } = await wallet.signPersonalMessage(
+		unsigned.getPersonalMessage(),
+	);
+	const sessionKey = SessionKey.import(
+		{ ...unsigned.export(), personalMessageSignature: signature },
+		suiClient,
+	);
+	return { sessionKey, address, wallet };
+}
+
+function encodeHeader(data: unknown): string {
+	return toBase64(new TextEncoder().encode(JSON.stringify(data)));
+}
+
+async function rejection(
+	promise: Promise<unknown>,
+): Promise<SessionKeyRejectionReason> {
+	try {
+		await promise;
+	} catch (error) {
+		if (error instanceof SessionKeyAuthError) {
+			return error.reason;
+		}
+		throw error;
+	}
+	throw new Error("expected rejection");
+}
+
+describe("serializeSessionKey / verifySessionKeyHeader", () => {
+	it("署名済みのSessionKeyを往復でき、復元したキーで証明書を作れる", async () => {
+		const { sessionKey, address } = await signedSessionKey();
+		const header = serializeSessionKey(sessionKey);
+
+		expect(decodeSessionKeyHeader(header)).toMatchObject({
+			v: 1,
+			address,
+			packageId: PACKAGE_ID,
+			ttlMin: 10,
+		});
+
+		const verified = await verifySessionKeyHeader(header, {
+			suiClient,
+			packageId: PACKAGE_ID,
+			address,
+		});
+		expect(verified.getAddress()).toBe(address);
+		await expect(verified.getCertificate()).resolves.toMatchObject({
+			user: address,
+			signature: sessionKey.export().personalMessageSignature,
+		});
+	});
+
+	it("パッケージ・アドレス・有効期限の不一致を理由付きで拒否する", async () => {
+		const { sessionKey, address } = await signedSessionKey({ ttlMin: 1 });
+		const header = serializeSessionKey(sessionKey);
+		const other = Ed25519Keypair.generate().getPublicKey().toSuiAddress();
+
+		expect(
+			await rejection(
+				verifySessionKeyHeader(header, {
+					suiClient,
+					packageId: OTHER_PACKAGE_ID,
+				}),
+			),
+		).toBe("wrong_package");
+		expect(
+			await rejection(
+				verifySessionKeyHeader(header, {
+					suiClient,
+					packageId: PACKAGE_ID,
+					address: other,
+				}),
+			),
+		).toBe("address_mismatch");
+		expect(
+			await rejection(
+				verifySessionKeyHeader(header, {
+					suiClient,
+					packageId: PACKAGE_ID,
+					address,
+					now: Date.now() + 2 * 60 * 1000,
+				}),
+			),
+		).toBe("expired");
+	});
+
+	it("別アドレスの署名・改ざんしたフィールドは署名検証で拒否する", async () => {
+		const { sessionKey, address } = await signedSessionKey();
+		const decoded = decodeSessionKeyHeader(serializeSessionKey(sessionKey));
+		const impostor = Ed25519Keypair.generate();
+		const impostorAddress = impostor.getPublicKey().toSuiAddress();
+
+		// 他人の署名を自分のアドレスとして提示する
+		expect(
+			await rejection(
+				verifySessionKeyHeader(
+					encodeHeader({ ...decoded, address: impostorAddress }),
+					{ suiClient, packageId: PACKAGE_ID, address: impostorAddress },
+				),
+			),
+		).toBe("invalid_signature");
+		// TTLを延ばすと署名対象のメッセージが変わる
+		expect(
+			await rejection(
+				verifySessionKeyHeader(encodeHeader({ ...decoded, ttlMin: 30 }), {
+					suiClient,
+					packageId: PACKAGE_ID,
+					address,
+				}),
+			),
+		).toBe("invalid_signature");
+	});
+
+	it("ヘッダーがない・形式が不正な場合", async () => {
+		expect(
+			await rejection(
+				verifySessionKeyHeader(null, { suiClient, packageId: PACKAGE_ID }),
+			),
+		).toBe("missing");
+		expect(() => decodeSessionKeyHeader("not base64 json")).toThrow(
+			"header is not base64 JSON",
+		);
+		expect(() =>
+			decodeSessionKeyHeader(encodeHeader({ signature: "", expiresAt: 0 })),
+		).toThrow("header version undefined is not supported");
+		expect(() =>
+			decodeSessionKeyHeader(
+				encodeHeader({
+					v: 1,
+					address: "0x1",
+					packageId: PACKAGE_ID,
+					creationTimeMs: 0,
+					ttlMin: 60,
+					personalMessageSignature: "sig",
+					sessionKey: "key",
+				}),
+			),
+		).toThrow("ttlMin must be an integer between 1 and 30");
+	});
+});
+
+describe("validateSessionKey", () => {
+	it("未署名のSessionKeyはシリアライズできない", async () => {
+		const { sessionKey } = await signedSessionKey();
+		const unsigned = SessionKey.import(
+			{ ...sessionKey.export(), personalMessageSignature: undefined },
+			suiClient,
+		);
+
+		expect(() => serializeSessionKey(unsigned)).toThrow(
+			"personal message has not been signed",
+		);
+		expect(() => validateSessionKey(null)).toThrow(SessionKeyAuthError);
+		expect(() =>
+			validateSessionKey(sessionKey, { packageId: OTHER_PACKAGE_ID }),
+		).toThrow("issued for package");
+	});
+});
@@ -0,0 +1,134 @@
+import { type SealCompatibleClient, SessionKey } from "@mysten/seal";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+type Lifecycle = typeof import("../sessionLifecycle");
+
+const PACKAGE_ID = `0x${"a".repeat(64)}`;
+const ADDRESS = Ed25519Keypair.generate().getPublicKey().toSuiAddress();
+const START = Date.UTC(2026, 0, 1);
+
+// 期限判定だけを使うため署名は不要
+function sessionKey(ttlMin = 1): SessionKey {
+	return SessionKey.import(
+		{
+			address: ADDRESS,
+			packageId: PACKAGE_ID,
+			creationTimeMs: Date.now(),
+			ttlMin,
+			sessionKey: Ed25519Keypair.generate().getSecretKey(),
+		},
+		{} as SealCompatibleClient,
+	);
+}
+
+function advanceMinutes(minutes: number) {
+	vi.setSystemTime(Date.now() + minutes * 60 * 1000);
+}
+
+let lifecycle: Lifecycle;
+
+beforeEach(async () => {
+	vi.useFakeTimers({ now: START, toFake: ["Date"] });
+	// 共有状態をテストごとに初期化する
+	vi.resetModules();
+	lifecycle = await import("../sessionLifecycle");
+});
+
+afterEach(() => {
+	vi.useRealTimers();
+});
+
+describe("waitForSessionKey", () => {
+	it("期限切れのキーでの復号は、新しいキーが署名されるまで待つ", async () => {
+		const unsubscribe = lifecycle.onSessionLifecycleChange(() => {});
+		const expiring = sessionKey();
+		lifecycle.setSessionKey(expiring, Date.now() + 60 * 1000);
+
+		await expect(lifecycle.waitForSessionKey(expiring)).resolves.toBe(expiring);
+		expect(
+			lifecycle.shouldPromptRefresh(lifecycle.getSessionLifecycleState()),
+		).toBe(true);
+
+		advanceMinutes(2);
+		const first = lifecycle.waitForSessionKey(expiring);
+		const second = lifecycle.waitForSessionKey(expiring);
+		expect(lifecycle.getSessionLifecycleState().pendingDecrypts).toBe(2);
+
+		const renewed = sessionKey(10);
+		lifecycle.setSessionKey(renewed, Date.now() + 10 * 60 * 1000);
+
+		await expect(first).resolves.toBe(renewed);
+		await expect(second).resolves.toBe(renewed);
+		expect(lifecycle.getSessionLifecycleState()).toMatchObject({
+			sessionKey: renewed,
+			pendingDecrypts: 0,
+		});
+		expect(
+			lifecycle.shouldPromptRefresh(lifecycle.getSessionLifecycleState()),
+		).toBe(false);
+		// 古いキーを保持している呼び出し元にも新しいキーを渡す
+		await expect(lifecycle.waitForSessionKey(expiring)).resolves.toBe(renewed);
+		unsubscribe();
+	});
+
+	it("再署名がキャンセルされると待機中の復号を拒否する", async () => {
+		const unsubscribe = lifecycle.onSessionLifecycleChange(() => {});
+		const expiring = sessionKey();
+		advanceMinutes(2);
+
+		const waiting = lifecycle.waitForSessionKey(expiring);
+		lifecycle.cancelPendingDecrypts("User rejected the request");
+
+		await expect(waiting).rejects.toMatchObject({
+			name: "SessionLifecycleError",
+			reason: "cancelled",
+			message: "User rejected the request",
+		});
+		expect(lifecycle.getSessionLifecycleState().pendingDecrypts).toBe(0);
+		unsubscribe();
+	});
+
+	it("セッション終了後は、有効なキーも新しい署名まで拒否する", async () => {
+		const unsubscribe = lifecycle.onSessionLifecycleChange(() => {});
+		const current = sessionKey(10);
+		lifecycle.setSessionKey(current, Date.now() + 10 * 60 * 1000);
+		advanceMinutes(11);
+		const waiting = lifecycle.waitForSessionKey(current);
+
+		lifecycle.endSession();
+
+		await expect(waiting).rejects.toMatchObject({ reason: "ended" });
+		expect(lifecycle.getSessionLifecycleState()).toMatchObject({
+			sessionKey: null,
+			ended: true,
+			generation: 1,
+		});
+		const captured = sessionKey(10);
+		await expect(lifecycle.waitForSessionKey(captured)).rejects.toMatchObject({
+			reason: "ended",
+		});
+
+		lifecycle.setSessionKey(captured, Date.now() + 10 * 60 * 1000);
+		await expect(lifecycle.waitForSessionKey(captured)).resolves.toBe(captured);
+		expect(lifecycle.getSessionLifecycleState().ended).toBe(false);
+		unsubscribe();
+	});
+
+	it("セッション管理が動いていない環境（APIルート）では待たずにそのまま返す", async () => {
+		const expired = sessionKey();
+		advanceMinutes(2);
+
+		await expect(lifecycle.waitForSessionKey(expired)).resolves.toBe(expired);
+		expect(lifecycle.getSessionLifecycleState().pendingDecrypts).toBe(0);
+	});
+});
+
+describe("clampSessionTtl", () => {
+	it("Sealが受け付ける1〜30分の整数に丸める", () => {
+		expect(lifecycle.clampSessionTtl(0)).toBe(1);
+		expect(lifecycle.clampSessionTtl(45)).toBe(30);
+		expect(lifecycle.clampSessionTtl(7.6)).toBe(8);
+		expect(lifecycle.clampSessionTtl(Number.NaN)).toBe(30);
+	});
+});
@@ -0,0 +1,162 @@
+import type { CoinStruct } from "@mysten/sui/client";
+import { describe, expect, it } from "vitest";
+import {
+	createMemorySponsorStore,
+	GAS_COIN_RESERVATION_TTL_MS,
+	getClientIp,
+	getGasCost,
+	getSponsorLimitRejection,
+	recordSponsorshipExecuted,
+	releaseSponsorGasCoin,
+	reserveSponsorGasCoin,
+	type SponsorLimits,
+	savePendingSponsorship,
+	takeIpAllowance,
+	takePendingSponsorship,
+} from "../sponsorServer";
+
+const PATIENT = `0x${"4".repeat(64)}`;
+const OTHER = `0x${"5".repeat(64)}`;
+const DAY = 24 * 60 * 60 * 1000;
+
+const LIMITS: SponsorLimits = {
+	dailyQuota: 2,
+	ipHourlyLimit: 2,
+	dailyBudget: BigInt(100),
+	maxGasBudget: BigInt(30),
+};
+
+describe("スポンサー枠", () => {
+	it("実行済みの件数を送信者毎・日毎に数える", async () => {
+		const store = createMemorySponsorStore();
+		await recordSponsorshipExecuted(store, PATIENT, BigInt(1), 0);
+		expect(await getSponsorLimitRejection(store, PATIENT, LIMITS, 0)).toBe(
+			null,
+		);
+
+		await recordSponsorshipExecuted(store, PATIENT, BigInt(1), 0);
+		expect(await getSponsorLimitRejection(store, PATIENT, LIMITS, 0)).toContain(
+			"quota",
+		);
+		expect(await getSponsorLimitRejection(store, OTHER, LIMITS, 0)).toBe(null);
+		expect(await getSponsorLimitRejection(store, PATIENT, LIMITS, DAY)).toBe(
+			null,
+		);
+	});
+
+	it("全送信者のガス消費が日毎の予算に届けば拒否する", async () => {
+		const store = createMemorySponsorStore();
+		await recordSponsorshipExecuted(store, PATIENT, BigInt(60), 0);
+		expect(await getSponsorLimitRejection(store, OTHER, LIMITS, 0)).toBe(null);
+
+		await recordSponsorshipExecuted(store, PATIENT, BigInt(20), 0);
+		expect(await getSponsorLimitRejection(store, OTHER, LIMITS, 0)).toContain(
+			"budget",
+		);
+	});
+
+	it("IP毎のリクエストを1時間単位で制限する", async () => {
+		const store = createMemorySponsorStore();
+		expect(await takeIpAllowance(store, "192.0.2.1", 2, 0)).toBe(true);
+		expect(await takeIpAllowance(store, "192.0.2.1", 2, 0)).toBe(true);
+		expect(await takeIpAllowance(store, "192.0.2.1", 2, 0)).toBe(false);
+		expect(await takeIpAllowance(store, "192.0.2.2", 2, 0)).toBe(true);
+		expect(await takeIpAllowance(store, "192.0.2.1", 2, DAY / 24)).toBe(true);
+	});
+
+	it("ガス代は計算・ストレージ費用からリベートを引いた額（負なら0）", () => {
+		expect(
+			getGasCost({
+				computationCost: "1000",
+				storageCost: "500",
+				storageRebate: "300",
+			}),
+		).toBe(BigInt(1200));
+		expect(
+			getGasCost({
+				computationCost: "1000",
+				storageCost: "0",
+				storageRebate: "5000",
+			}),
+		).toBe(BigInt(0));
+	});
+
+	it("プロキシ経由のクライアントIPを読み取る", () => {
+		expect(
+			getClientIp(new Headers({ "x-forwarded-for": "192.0.2.1, 10.0.0.1" })),
+		).toBe("192.0.2.1");
+		expect(
+			getClientIp(
+				new Headers({
+					"cf-connecting-ip": "192.0.2.9",
+					"x-forwarded-for": "192.0.2.1",
+				}),
+			),
+		).toBe("192.0.2.9");
+	});
+});
+
+describe("実行待ちのスポンサー", () => {
+	it("一度だけ取り出せ、期限を過ぎれば消える", async () => {
+		let now = 0;
+		const store = createMemorySponsorStore(() => now);
+		await savePendingSponsorship(store, "D1", {
+			sender: PATIENT,
+			gasCoinId: "0xc1",
+		});
+		await savePendingSponsorship(store, "D2", {
+			sender: OTHER,
+			gasCoinId: "0xc2",
+		});
+
+		expect(await takePendingSponsorship(store, "D1")).toEqual({
+			sender: PATIENT,
+			gasCoinId: "0xc1",
+		});
+		expect(await takePendingSponsorship(store, "D1")).toBe(null);
+
+		now = DAY;
+		expect(await takePendingSponsorship(store, "D2")).toBe(null);
+	});
+});
+
+describe("ガスコインの予約", () => {
+	function coin(id: string, balance: number): CoinStruct {
+		return {
+			coinObjectId: id,
+			coinType: "0x2::sui::SUI",
+			version: "1",
+			digest: `digest-${id}`,
+			balance: String(balance),
+			previousTransaction: "tx",
+		};
+	}
+
+	it("同時のリクエストには別のコインを割り当て、予算に満たないコインは使わない", async () => {
+		const store = createMemorySponsorStore();
+		const coins = [coin("0xc1", 10), coin("0xc2", 100), coin("0xc3", 100)];
+
+		const first = await reserveSponsorGasCoin(store, coins, BigInt(50));
+		const second = await reserveSponsorGasCoin(store, coins, BigInt(50));
+		expect(first?.coinObjectId).toBe("0xc2");
+		expect(second?.coinObjectId).toBe("0xc3");
+		expect(await reserveSponsorGasCoin(store, coins, BigInt(50))).toBe(null);
+	});
+
+	it("実行後に戻したコインと、予約期限を過ぎたコインは再び使える", async () => {
+		let now = 0;
+		const store = createMemorySponsorStore(() => now);
+		const coins = [coin("0xc1", 100)];
+
+		await reserveSponsorGasCoin(store, coins, BigInt(50));
+		await releaseSponsorGasCoin(store, "0xc1");
+		expect(
+			(await reserveSponsorGasCoin(store, coins, BigInt(50)))?.coinObjectId,
+		).toBe("0xc1");
+
+		now = GAS_COIN_RESERVATION_TTL_MS;
+		expect(
+			(await reserveSponsorGasCoin(store, coins, BigInt(50)))?.coinObjectId,
+		).toBe("0xc1");
+	});
+});
@@ -0,0 +1,150 @@
+import { Transaction } from "@mysten/sui/transactions";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+	executeSponsoredTransaction,
+	getSponsorshipRejection,
+	requestSponsorship,
+	SponsorshipError,
+} from "../sponsoredTransactions";
+
+const PACKAGE = `0x${"3".repeat(64)}`;
+const OTHER_PACKAGE = `0x${"9".repeat(64)}`;
+const PATIENT = `0x${"4".repeat(64)}`;
+const TOKEN = `0x${"6".repeat(64)}`;
+
+function revokeCall(tx: Transaction, packageId: string, fn: string) {
+	tx.moveCall({
+		target: `${packageId}::accessor::${fn}`,
+		arguments: [tx.object(TOKEN)],
+	});
+}
+
+describe("getSponsorshipRejection", () => {
+	it("許可したaccessor関数の呼び出しだけなら肩代わりする", () => {
+		const tx = new Transaction();
+		revokeCall(tx, PACKAGE, "revoke_consent_token");
+		revokeCall(tx, PACKAGE, "replace_data_entry");
+		expect(getSponsorshipRejection(tx, PACKAGE)).toBeNull();
+	});
+
+	it("許可外の関数・他パッケージ・Move呼び出し以外のコマンドは拒否する", () => {
+		const unlisted = new Transaction();
+		revokeCall(unlisted, PACKAGE, "log_consent_access");
+		expect(getSponsorshipRejection(unlisted, PACKAGE)).toContain(
+			"accessor::log_consent_access",
+		);
+
+		const otherPackage = new Transaction();
+		revokeCall(otherPackage, OTHER_PACKAGE, "revoke_consent_token");
+		expect(getSponsorshipRejection(otherPackage, PACKAGE)).not.toBeNull();
+
+		const transfer = new Transaction();
+		revokeCall(transfer, PACKAGE, "revoke_consent_token");
+		transfer.transferObjects([transfer.gas], PATIENT);
+		expect(getSponsorshipRejection(transfer, PACKAGE)).toContain(
+			"TransferObjects",
+		);
+	});
+
+	it("ガスコインを引数に使う呼び出しは拒否する", () => {
+		const tx = new Transaction();
+		tx.moveCall({
+			target: `${PACKAGE}::accessor::revoke_consent_token`,
+			arguments: [tx.gas],
+		});
+		expect(getSponsorshipRejection(tx, PACKAGE)).toContain("gas coin");
+	});
+});
+
+describe("requestSponsorship", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("拒否された場合はステータス付きのSponsorshipErrorを投げる", async () => {
+		vi.stubGlobal(
+			"fetch",
+			vi.fn(async () =>
+				Response.json(
+					{ error: "Daily sponsorship quota exceeded" },
+					{ status: 429 },
+				),
+			),
+		);
+
+		const error = await requestSponsorship({
+			sender: PATIENT,
+			transactionKindBytes: new Uint8Array([1, 2, 3]),
+			signature: "sender-sig",
+		}).catch((err: unknown) => err);
+
+		expect(error).toBeInstanceOf(SponsorshipError);
+		expect((error as SponsorshipError).status).toBe(429);
+		expect((error as SponsorshipError).message).toContain("quota exceeded");
+	});
+
+	it("種別バイト列をbase64で送信者の署名と共に送り、署名前のトランザクションを返す", async () => {
+		const fetchMock = vi.fn(async () =>
+			Response.json({ transactionBytes: "AAA=" }),
+		);
+		vi.stubGlobal("fetch", fetchMock);
+
+		const result = await requestSponsorship({
+			sender: PATIENT,
+			transactionKindBytes: new Uint8Array([1, 2, 3]),
+			signature: "sender-sig",
+		});
+
+		expect(result).toEqual({ transactionBytes: "AAA=" });
+		const [, init] = fetchMock.mock.calls[0] as unknown as [
+			string,
+			RequestInit,
+		];
+		expect(JSON.parse(init.body as string)).toEqual({
+			sender: PATIENT,
+			transactionKindBytes: "AQID",
+			signature: "sender-sig",
+		});
+	});
+});
+
+describe("executeSponsoredTransaction", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("期限切れのスポンサーは409のSponsorshipErrorにする", async () => {
+		vi.stubGlobal(
+			"fetch",
+			vi.fn(async () =>
+				Response.json(
+					{ error: "Sponsorship expired or already executed" },
+					{ status: 409 },
+				),
+			),
+		);
+
+		const error = await executeSponsoredTransaction({
+			transactionBytes: "AAA=",
+			signature: "sender-sig",
+		}).catch((err: unknown) => err);
+
+		expect(error).toBeInstanceOf(SponsorshipError);
+		expect((error as SponsorshipError).status).toBe(409);
+	});
+
+	it("実行結果のダイジェストとeffectsを返す", async () => {
+		const fetchMock = vi.fn(async () =>
+			Response.json({ digest: "D1", rawEffects: "AQ==" }),
+		);
+		vi.stubGlobal("fetch", fetchMock);
+
+		await expect(
+			executeSponsoredTransaction({
+				transactionBytes: "AAA=",
+				signature: "sender-sig",
+			}),
+		).resolves.toEqual({ digest: "D1", rawEffects: "AQ==" });
+		expect(fetchMock.mock.calls[0]).toContain("/api/sponsor/execute");
+	});
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import type {
+	BaseMetadata,
+	BaseMetadataEntry,
+	ImagingMetadataEntry,
+} from "@/types/metadata";
+import {
+	applyRenewedEpochs,
+	classifyEndEpoch,
+	findExpiringBlobs,
+} from "../storageExpiry";
+
+function metadataWith(
+	entries: BaseMetadataEntry[],
+	dataType: BaseMetadata<BaseMetadataEntry>["data_type"] = "medications",
+): BaseMetadata<BaseMetadataEntry> {
+	return {
+		schema_version: "3.0.0",
+		data_type: dataType,
+		updated_at: 0,
+		entries,
+	};
+}
+
+describe("classifyEndEpoch", () => {
+	it("end_epochが現在エポック以下なら期限切れ", () => {
+		expect(classifyEndEpoch(10, 10, 2)).toBe("expired");
+		expect(classifyEndEpoch(9, 10, 2)).toBe("expired");
+	});
+
+	it("警告範囲内ならexpiring、範囲外ならnull", () => {
+		expect(classifyEndEpoch(12, 10, 2)).toBe("expiring");
+		expect(classifyEndEpoch(13, 10, 2)).toBeNull();
+	});
+
+	it("end_epochが記録されていない旧データはunknown", () => {
+		expect(classifyEndEpoch(undefined, 10, 2)).toBe("unknown");
+	});
+});
+
+describe("findExpiringBlobs", () => {
+	it("期限が近いentryのみを返す", () => {
+		const metadata = metadataWith([
+			{ blob_id: "a", end_epoch: 50 },
+			{ blob_id: "b", end_epoch: 11 },
+			{ blob_id: "c" },
+		]);
+
+		const result = findExpiringBlobs(metadata, 10, 2);
+
+		expect(result.map((b) => [b.blobId, b.entryIndex, b.status])).toEqual([
+			["b", 1, "expiring"],
+			["c", 2, "unknown"],
+		]);
+		expect(result[0].epochsRemaining).toBe(1);
+		expect(result[1].epochsRemaining).toBeNull();
+	});
+
+	it("imaging_metaのバイナリBlobも検査する", () => {
+		const entry: ImagingMetadataEntry = {
+			blob_id: "meta",
+			end_epoch: 50,
+			study_id: "s1",
+			study_date: "2025-01-01",
+			modality: "CT",
+			body_part: "chest",
+			binary_blob_id: "bin",
+			binary_end_epoch: 10,
+		};
+
+		const result = findExpiringBlobs(
+			metadataWith([entry], "imaging_meta"),
+			10,
+			2,
+		);
+
+		expect(result).toHaveLength(1);
+		expect(result[0]).toMatchObject({
+			kind: "binary",
+			blobId: "bin",
+			status: "expired",
+		});
+	});
+});
+
+describe("applyRenewedEpochs", () => {
+	it("更新後のend_epochをentryに反映し、元のメタデータは変更しない", () => {
+		const metadata = metadataWith([
+			{ blob_id: "a", end_epoch: 11 },
+			{ blob_id: "b", end_epoch: 50 },
+		]);
+		const [blob] = findExpiringBlobs(metadata, 10, 2);
+
+		const updated = applyRenewedEpochs(metadata, [{ blob, endEpoch: 20 }]);
+
+		expect(updated.entries[0].end_epoch).toBe(20);
+		expect(updated.entries[1].end_epoch).toBe(50);
+		expect(metadata.entries[0].end_epoch).toBe(11);
+	});
+});
@@ -0,0 +1,197 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type {
+	BaseMetadata,
+	BaseMetadataEntry,
+	ImagingMetadataEntry,
+} from "@/types/metadata";
+import {
+	evaluateStorageBudget,
+	FROST_PER_WAL,
+	getObservedStorageRate,
+	type StorageSpendRecord,
+	summarizeStorageSpend,
+} from "../storageSpend";
+import {
+	journalSizeLookup,
+	projectRenewalCost,
+	summarizeStorageUsage,
+} from "../storageUsage";
+import {
+	estimateStorageCost,
+	toEntryBlobFields,
+	uploadToWalrus,
+} from "../walrus";
+import { createInMemoryWalrusTransport } from "../walrusMemory";
+import { setWalrusTransport } from "../walrusTransport";
+
+function metadataWith(
+	entries: BaseMetadataEntry[],
+	dataType: BaseMetadata<BaseMetadataEntry>["data_type"] = "medications",
+): BaseMetadata<BaseMetadataEntry> {
+	return {
+		schema_version: "3.0.0",
+		data_type: dataType,
+		updated_at: 0,
+		entries,
+	};
+}
+
+function spend(
+	overrides: Partial<StorageSpendRecord> = {},
+): StorageSpendRecord {
+	return {
+		blobId: "b",
+		kind: "upload",
+		size: 2048,
+		epochs: 1,
+		cost: 4_000,
+		recordedAt: 0,
+		...overrides,
+	};
+}
+
+describe("summarizeStorageUsage", () => {
+	it("entryのサイズ・マニフェスト・ジャーナルの順でサイズを解決する", () => {
+		const usage = summarizeStorageUsage(
+			[
+				metadataWith([
+					{ blob_id: "a", size: 100 },
+					{
+						blob_id: "m",
+						chunk_manifest: {
+							manifest_version: 1,
+							total_size: 3_000_000,
+							chunk_size: 1_048_576,
+							sha256: "",
+							chunks: [],
+						},
+					},
+					{ blob_id: "j" },
+					{ blob_id: "x" },
+				]),
+			],
+			journalSizeLookup([
+				{ blobId: "j", objectId: "0x1", size: 50, uploadedAt: 0 },
+				{
+					blobId: "x",
+					objectId: "0x2",
+					manifestBlobId: "m",
+					size: 999,
+					uploadedAt: 0,
+				},
+			]),
+		);
+
+		expect(usage).toEqual([
+			{
+				dataType: "medications",
+				blobs: 4,
+				bytes: 3_000_150,
+				unknownSizeBlobs: 1,
+			},
+		]);
+	});
+
+	it("画像バイナリはimaging_binaryとして集計する", () => {
+		const entry: ImagingMetadataEntry = {
+			blob_id: "meta",
+			size: 10,
+			study_id: "s",
+			study_date: "2025-01-01",
+			modality: "CT",
+			body_part: "chest",
+			binary_blob_id: "bin",
+			binary_size: 5000,
+		};
+
+		const usage = summarizeStorageUsage([
+			metadataWith([entry], "imaging_meta"),
+		]);
+
+		expect(usage.map((row) => [row.dataType, row.bytes])).toEqual([
+			["imaging_meta", 10],
+			["imaging_binary", 5000],
+		]);
+	});
+});
+
+describe("projectRenewalCost", () => {
+	it("データ種ごとにestimateStorageCostで見積もって合計する", () => {
+		const usage = [
+			{
+				dataType: "medications" as const,
+				blobs: 1,
+				bytes: 2048,
+				unknownSizeBlobs: 0,
+			},
+			{
+				dataType: "lab_results" as const,
+				blobs: 1,
+				bytes: 1024,
+				unknownSizeBlobs: 0,
+			},
+		];
+
+		expect(projectRenewalCost(usage, 5, 2)).toBe(
+			estimateStorageCost(2048, 5, 2) + estimateStorageCost(1024, 5, 2),
+		);
+		expect(projectRenewalCost(usage, 5, 2)).toBe(30);
+	});
+});
+
+describe("storage spend", () => {
+	it("記録済みコストを合計し、データ種ごとに集計する", () => {
+		const summary = summarizeStorageSpend([
+			spend({ dataType: "medications", cost: 100 }),
+			spend({ dataType: "medications", cost: 50, savedBytes: 900 }),
+			spend({ cost: 7 }),
+		]);
+
+		expect(summary).toEqual({
+			total: 157,
+			byDataType: { medications: 150 },
+			savedBytes: 900,
+		});
+	});
+
+	it("実績単価はKB・エポックあたりの平均コスト", () => {
+		expect(
+			getObservedStorageRate([
+				spend({ size: 2048, epochs: 1, cost: 4_000 }),
+				spend({ size: 1024, epochs: 2, cost: 4_000 }),
+				spend({ cost: 0 }),
+			]),
+		).toBe(2_000);
+		expect(getObservedStorageRate([])).toBeUndefined();
+	});
+
+	it("予算を超える場合のみ警告を返す", () => {
+		const budget = 1 * FROST_PER_WAL;
+
+		expect(evaluateStorageBudget(budget - 10, 10, budget)).toBeNull();
+		expect(
+			evaluateStorageBudget(budget - 10, 11, budget, "lab_results"),
+		).toEqual({
+			dataType: "lab_results",
+			spent: budget - 10,
+			estimatedCost: 11,
+			budget,
+		});
+		expect(evaluateStorageBudget(budget * 2, 1, null)).toBeNull();
+	});
+});
+
+describe("uploadToWalrus", () => {
+	afterEach(() => {
+		setWalrusTransport(null);
+	});
+
+	it("publisherが返したコストとサイズを参照に含める", async () => {
+		setWalrusTransport(createInMemoryWalrusTransport());
+
+		const ref = await uploadToWalrus(new Uint8Array(3000), { epochs: 2 });
+
+		expect(ref.cost).toBe(estimateStorageCost(3000, 2));
+		expect(toEntryBlobFields(ref).size).toBe(3000);
+	});
+});
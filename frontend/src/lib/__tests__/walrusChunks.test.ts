@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+	assembleChunks,
+	buildChunkManifest,
+	ChunkIntegrityError,
+	decodeChunkManifest,
+	encodeChunkManifest,
+	isChunkManifestBlob,
+	splitIntoChunks,
+} from "../walrusChunks";
+
+function makePayload(size: number): Uint8Array {
+	const data = new Uint8Array(size);
+	for (let i = 0; i < size; i++) {
+		data[i] = i % 251;
+	}
+	return data;
+}
+
+async function manifestFor(data: Uint8Array, chunkSize: number) {
+	const chunks = splitIntoChunks(data, chunkSize);
+	const manifest = await buildChunkManifest({
+		data,
+		chunkSize,
+		chunks: chunks.map((bytes, i) => ({ blobId: `blob-${i}`, bytes })),
+	});
+	return { chunks, manifest };
+}
+
+describe("splitIntoChunks", () => {
+	it("chunkSize単位で分割し、最後のチャンクは残りのサイズになる", () => {
+		const chunks = splitIntoChunks(makePayload(25), 10);
+		expect(chunks.map((c) => c.length)).toEqual([10, 10, 5]);
+	});
+
+	it("chunkSizeが0以下ならエラー", () => {
+		expect(() => splitIntoChunks(makePayload(4), 0)).toThrow();
+	});
+});
+
+describe("chunk manifest encoding", () => {
+	it("エンコードしたマニフェストをデコードできる", async () => {
+		const { manifest } = await manifestFor(makePayload(30), 10);
+		const encoded = encodeChunkManifest(manifest);
+
+		expect(isChunkManifestBlob(encoded)).toBe(true);
+		expect(decodeChunkManifest(encoded)).toEqual(manifest);
+	});
+
+	it("マジックのないバイト列はマニフェストとして扱わない", () => {
+		expect(isChunkManifestBlob(makePayload(64))).toBe(false);
+		expect(() => decodeChunkManifest(makePayload(64))).toThrow(
+			ChunkIntegrityError,
+		);
+	});
+});
+
+describe("assembleChunks", () => {
+	it("チャンクを順番通りに再構成する", async () => {
+		const data = makePayload(25);
+		const { chunks, manifest } = await manifestFor(data, 10);
+
+		const result = await assembleChunks(manifest, chunks);
+		expect(result).toEqual(data);
+	});
+
+	it("改ざんされたチャンクはインデックス付きで検出する", async () => {
+		const data = makePayload(25);
+		const { chunks, manifest } = await manifestFor(data, 10);
+		const tampered = chunks.map((c) => c.slice());
+		tampered[1][0] ^= 0xff;
+
+		await expect(assembleChunks(manifest, tampered)).rejects.toMatchObject({
+			name: "ChunkIntegrityError",
+			chunkIndex: 1,
+		});
+	});
+
+	it("チャンク数が不足している場合はエラー", async () => {
+		const { chunks, manifest } = await manifestFor(makePayload(25), 10);
+		await expect(
+			assembleChunks(manifest, chunks.slice(0, 2)),
+		).rejects.toBeInstanceOf(ChunkIntegrityError);
+	});
+});
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	downloadFromWalrusByBlobId,
+	downloadFromWalrusByObjectId,
+	MAX_BLOB_SIZE,
+	uploadToWalrus,
+} from "../walrus";
+import { sha256Hex } from "../walrusChunks";
+import {
+	createInMemoryWalrusTransport,
+	type InMemoryWalrusTransport,
+} from "../walrusMemory";
+import { setWalrusTransport } from "../walrusTransport";
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+
+function put(
+	transport: InMemoryWalrusTransport,
+	data: Uint8Array,
+	query = "epochs=2",
+) {
+	return transport.request("publisher", `/v1/blobs?${query}`, {
+		method: "PUT",
+		body: data as unknown as BodyInit,
+	});
+}
+
+describe("createInMemoryWalrusTransport", () => {
+	it("同じ内容には同じblob IDを割り当てる", async () => {
+		const transport = createInMemoryWalrusTransport();
+
+		const first = await (await put(transport, bytes(1, 2, 3))).json();
+		const second = await (await put(transport, bytes(1, 2, 3))).json();
+		const other = await (await put(transport, bytes(4))).json();
+
+		expect(first.newlyCreated.blobObject.blobId).toMatch(/^[A-Za-z0-9_-]{43}$/);
+		expect(second.alreadyCertified.blobId).toBe(
+			first.newlyCreated.blobObject.blobId,
+		);
+		expect(other.newlyCreated.blobObject.blobId).not.toBe(
+			first.newlyCreated.blobObject.blobId,
+		);
+	});
+
+	it("deletableなアップロードは毎回新しいBlobオブジェクトを作る", async () => {
+		const transport = createInMemoryWalrusTransport();
+		const query = "epochs=1&deletable=true&send_object_to=0xabc";
+
+		const first = await (await put(transport, bytes(1), query)).json();
+		const second = await (await put(transport, bytes(1), query)).json();
+
+		expect(second.newlyCreated.blobObject.id).not.toBe(
+			first.newlyCreated.blobObject.id,
+		);
+	});
+
+	it("endEpochを過ぎたblobは404になる", async () => {
+		const transport = createInMemoryWalrusTransport({ initialEpoch: 10 });
+		const result = await (await put(transport, bytes(9))).json();
+		const { blobId, storage } = result.newlyCreated.blobObject;
+
+		expect(storage.endEpoch).toBe(12);
+		expect(
+			(await transport.request("aggregator", `/v1/blobs/${blobId}`)).status,
+		).toBe(200);
+
+		transport.advanceEpochs(2);
+
+		expect(
+			(await transport.request("aggregator", `/v1/blobs/${blobId}`)).status,
+		).toBe(404);
+	});
+
+	it("epochDurationMsに応じてエポックが進む", () => {
+		let clock = 0;
+		const transport = createInMemoryWalrusTransport({
+			epochDurationMs: 1000,
+			now: () => clock,
+		});
+
+		clock = 2500;
+
+		expect(transport.getCurrentEpoch()).toBe(3);
+	});
+
+	it("範囲外のepochsは400を返す", async () => {
+		const transport = createInMemoryWalrusTransport({ maxEpochsAhead: 5 });
+
+		const response = await put(transport, bytes(1), "epochs=6");
+
+		expect(response.status).toBe(400);
+	});
+});
+
+describe("lib/walrus.ts with the in-memory transport", () => {
+	beforeEach(() => {
+		setWalrusTransport(createInMemoryWalrusTransport());
+	});
+
+	afterEach(() => {
+		setWalrusTransport(null);
+	});
+
+	it("アップロードしたデータをblob ID・オブジェクトIDで取得できる", async () => {
+		const data = bytes(10, 20, 30);
+
+		const ref = await uploadToWalrus(data, { owner: "0xabc" });
+
+		expect(ref.objectId).toBeDefined();
+		expect(await downloadFromWalrusByBlobId(ref.blobId)).toEqual(data);
+		expect(await downloadFromWalrusByObjectId(ref.objectId as string)).toEqual(
+			data,
+		);
+	});
+
+	it("チャンク分割されたアップロードを復元できる", async () => {
+		const data = new Uint8Array(MAX_BLOB_SIZE + 10).map((_, i) => i % 251);
+
+		const ref = await uploadToWalrus(data);
+
+		expect(ref.manifest?.chunks).toHaveLength(2);
+		const downloaded = await downloadFromWalrusByBlobId(ref.blobId);
+		expect(await sha256Hex(downloaded)).toBe(await sha256Hex(data));
+	});
+});
@@ -0,0 +1,185 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+	createHttpWalrusTransport,
+	parseEndpointList,
+	WalrusTransportError,
+} from "../walrusTransport";
+
+/**
+ * URLのホスト毎に応答を返すfetchのスタブ
+ */
+function stubFetch(
+	handlers: Record<string, (call: number) => Response | Error>,
+) {
+	const calls: string[] = [];
+	const counts = new Map<string, number>();
+	const fetchFn = vi.fn(async (input: RequestInfo | URL) => {
+		const url = String(input);
+		calls.push(url);
+		const host = new URL(url).host;
+		const count = (counts.get(host) ?? 0) + 1;
+		counts.set(host, count);
+		const result = handlers[host]?.(count) ?? new Error("no handler");
+		if (result instanceof Error) {
+			throw result;
+		}
+		return result;
+	});
+	return { fetchFn: fetchFn as unknown as typeof fetch, calls };
+}
+
+const sleepFn = vi.fn(async () => {});
+
+describe("parseEndpointList", () => {
+	it("カンマ区切りを分割し、末尾スラッシュと重複を除く", () => {
+		expect(parseEndpointList(" https://a/ ,https://b,,https://a")).toEqual([
+			"https://a",
+			"https://b",
+		]);
+	});
+
+	it("空の値は次の候補にフォールバックする", () => {
+		expect(parseEndpointList(undefined, "", "https://c")).toEqual([
+			"https://c",
+		]);
+	});
+});
+
+describe("createHttpWalrusTransport", () => {
+	it("5xxのエンドポイントから次のエンドポイントへフェイルオーバーする", async () => {
+		const { fetchFn, calls } = stubFetch({
+			a: () => new Response("down", { status: 503 }),
+			b: () => new Response("ok"),
+		});
+		const transport = createHttpWalrusTransport({
+			publishers: [],
+			aggregators: ["https://a", "https://b"],
+			fetchFn,
+			sleepFn,
+		});
+
+		const response = await transport.request("aggregator", "/v1/blobs/x");
+
+		expect(await response.text()).toBe("ok");
+		expect(calls).toEqual(["https://a/v1/blobs/x", "https://b/v1/blobs/x"]);
+		const [a, b] = transport.getStats();
+		expect(a.failureCount).toBe(1);
+		expect(b.successCount).toBe(1);
+		expect(b.latencyMs).not.toBeNull();
+	});
+
+	it("連続失敗したエンドポイントはクールダウン中は後回しにする", async () => {
+		const { fetchFn, calls } = stubFetch({
+			a: () => new Error("network down"),
+			b: () => new Response("ok"),
+		});
+		const transport = createHttpWalrusTransport({
+			publishers: ["https://a", "https://b"],
+			aggregators: [],
+			failureThreshold: 1,
+			fetchFn,
+			sleepFn,
+		});
+
+		await transport.request("publisher", "/v1/blobs", { method: "PUT" });
+		await transport.request("publisher", "/v1/blobs", { method: "PUT" });
+
+		expect(calls).toEqual([
+			"https://a/v1/blobs",
+			"https://b/v1/blobs",
+			"https://b/v1/blobs",
+		]);
+		expect(transport.getStats()[0].downUntil).not.toBeNull();
+	});
+
+	it("全エンドポイント失敗時はバックオフして再試行する", async () => {
+		const { fetchFn } = stubFetch({
+			a: (call) =>
+				call < 2 ? new Response("", { status: 502 }) : new Response("ok"),
+		});
+		sleepFn.mockClear();
+		const transport = createHttpWalrusTransport({
+			publishers: [],
+			aggregators: ["https://a"],
+			failureThreshold: 10,
+			fetchFn,
+			sleepFn,
+		});
+
+		const response = await transport.request("aggregator", "/v1/blobs/x");
+
+		expect(response.ok).toBe(true);
+		expect(sleepFn).toHaveBeenCalledTimes(1);
+	});
+
+	it("全ラウンド失敗時はWalrusTransportErrorを投げる", async () => {
+		const { fetchFn } = stubFetch({
+			a: () => new Response("", { status: 500 }),
+		});
+		const transport = createHttpWalrusTransport({
+			publishers: ["https://a"],
+			aggregators: [],
+			maxRounds: 2,
+			fetchFn,
+			sleepFn,
+		});
+
+		await expect(
+			transport.request("publisher", "/v1/blobs"),
+		).rejects.toBeInstanceOf(WalrusTransportError);
+	});
+
+	it("aggregatorの404は他のaggregatorにも確認し、全て404ならそのまま返す", async () => {
+		const { fetchFn, calls } = stubFetch({
+			a: () => new Response("", { status: 404 }),
+			b: () => new Response("", { status: 404 }),
+		});
+		const transport = createHttpWalrusTransport({
+			publishers: [],
+			aggregators: ["https://a", "https://b"],
+			fetchFn,
+			sleepFn,
+		});
+
+		const response = await transport.request("aggregator", "/v1/blobs/x");
+
+		expect(response.status).toBe(404);
+		expect(calls).toHaveLength(2);
+		expect(transport.getStats().every((s) => s.failureCount === 0)).toBe(true);
+	});
+
+	it("404以外の4xxはフェイルオーバーせずに返す", async () => {
+		const { fetchFn, calls } = stubFetch({
+			a: () => new Response("", { status: 400 }),
+			b: () => new Response("ok"),
+		});
+		const transport = createHttpWalrusTransport({
+			publishers: ["https://a", "https://b"],
+			aggregators: [],
+			fetchFn,
+			sleepFn,
+		});
+
+		const response = await transport.request("publisher", "/v1/blobs");
+
+		expect(response.status).toBe(400);
+		expect(calls).toHaveLength(1);
+	});
+
+	it("ヘルスチェックで到達不能なエンドポイントを記録する", async () => {
+		const { fetchFn } = stubFetch({
+			a: () => new Error("unreachable"),
+			b: () => new Response("docs"),
+		});
+		const transport = createHttpWalrusTransport({
+			publishers: [],
+			aggregators: ["https://a", "https://b"],
+			fetchFn,
+			sleepFn,
+		});
+
+		const stats = await transport.probe("aggregator");
+
+		expect(stats.map((s) => s.lastError)).toEqual(["unreachable", null]);
+	});
+});
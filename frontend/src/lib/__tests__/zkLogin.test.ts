@@ -0,0 +1,229 @@
+import { parseSerializedSignature } from "@mysten/sui/cryptography";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import {
+	genAddressSeed,
+	generateNonce,
+	jwtToAddress,
+	ZkLoginPublicIdentifier,
+} from "@mysten/sui/zklogin";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+	buildAuthorizationUrl,
+	completeZkLogin,
+	createMockIdToken,
+	getIssBase64Details,
+	MOCK_ZKLOGIN_CLIENT_ID,
+	MOCK_ZKLOGIN_ISSUER,
+	parseIdTokenFromHash,
+	type ZkLoginAccount,
+	ZkLoginError,
+	type ZkLoginPending,
+	type ZkLoginProvider,
+	ZkLoginSigner,
+} from "../zkLogin";
+import { deriveZkLoginSalt, verifyZkLoginIdToken } from "../zkLoginSalt";
+
+const SALT = "129390038577185583942388216820280642146";
+const RANDOMNESS = "100681567828351849884072155819400689117";
+const MAX_EPOCH = 12;
+
+const DUMMY_PROOF_POINTS = {
+	a: ["0", "0", "1"],
+	b: [
+		["0", "0"],
+		["0", "0"],
+		["1", "0"],
+	],
+	c: ["0", "0", "1"],
+};
+
+const MOCK_PROVIDER: ZkLoginProvider = {
+	id: "mock",
+	name: "Mock OIDC",
+	issuer: MOCK_ZKLOGIN_ISSUER,
+	clientId: MOCK_ZKLOGIN_CLIENT_ID,
+	authorizationEndpoint: "/api/zklogin/mock/authorize",
+	scope: "openid",
+	responseType: "id_token",
+	responseMode: "fragment",
+};
+
+function pendingLogin(): ZkLoginPending {
+	const keypair = new Ed25519Keypair();
+	return {
+		providerId: "mock",
+		ephemeralSecretKey: keypair.getSecretKey(),
+		maxEpoch: MAX_EPOCH,
+		randomness: RANDOMNESS,
+		nonce: generateNonce(keypair.getPublicKey(), MAX_EPOCH, RANDOMNESS),
+	};
+}
+
+function mockAccount(sub: string): ZkLoginAccount {
+	const pending = pendingLogin();
+	const jwt = createMockIdToken({ sub, nonce: pending.nonce });
+	return {
+		providerId: "mock",
+		address: jwtToAddress(jwt, SALT),
+		ephemeralSecretKey: pending.ephemeralSecretKey,
+		maxEpoch: MAX_EPOCH,
+		inputs: {
+			proofPoints: DUMMY_PROOF_POINTS,
+			issBase64Details: getIssBase64Details(jwt),
+			headerBase64: jwt.split(".")[0],
+			addressSeed: genAddressSeed(
+				BigInt(SALT),
+				"sub",
+				sub,
+				MOCK_ZKLOGIN_CLIENT_ID,
+			).toString(),
+		},
+	};
+}
+
+describe("getIssBase64Details", () => {
+	it("証明のissBase64Detailsから発行者を読み出せ、アドレスと一致する", () => {
+		for (const sub of ["a", "ab", "abc", "mock-patient"]) {
+			const account = mockAccount(sub);
+			const publicKey = ZkLoginPublicIdentifier.fromProof(
+				account.address,
+				account.inputs,
+			);
+			expect(publicKey.toSuiAddress()).toBe(account.address);
+		}
+	});
+});
+
+describe("認可URLとコールバック", () => {
+	it("nonceとresponse_modeを含む認可URLを組み立てる", () => {
+		const url = new URL(
+			buildAuthorizationUrl(
+				MOCK_PROVIDER,
+				"nonce123",
+				"https://app.example/api/zklogin/callback",
+			),
+			"https://app.example",
+		);
+		expect(url.pathname).toBe("/api/zklogin/mock/authorize");
+		expect(url.searchParams.get("nonce")).toBe("nonce123");
+		expect(url.searchParams.get("response_mode")).toBe("fragment");
+		expect(url.searchParams.get("redirect_uri")).toBe(
+			"https://app.example/api/zklogin/callback",
+		);
+	});
+
+	it("URLフラグメントからIDトークンを取り出す", () => {
+		expect(parseIdTokenFromHash("#id_token=abc.def.&state=x")).toBe("abc.def.");
+		expect(parseIdTokenFromHash("#error=access_denied")).toBeNull();
+	});
+});
+
+describe("completeZkLogin", () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("saltとプロバーの証明からアカウントを組み立てる", async () => {
+		const pending = pendingLogin();
+		const idToken = createMockIdToken({ sub: "patient", nonce: pending.nonce });
+		const fetchMock = vi.fn(async (url: string) =>
+			url === "/api/zklogin/salt"
+				? Response.json({ salt: SALT })
+				: Response.json({
+						proofPoints: DUMMY_PROOF_POINTS,
+						issBase64Details: getIssBase64Details(idToken),
+						headerBase64: idToken.split(".")[0],
+					}),
+		);
+		vi.stubGlobal("fetch", fetchMock);
+		vi.spyOn(console, "log").mockImplementation(() => {});
+
+		const account = await completeZkLogin({ idToken, pending });
+
+		expect(account.address).toBe(jwtToAddress(idToken, SALT));
+		expect(account.maxEpoch).toBe(MAX_EPOCH);
+		expect(fetchMock.mock.calls[1][0]).toBe("/api/zklogin/mock/prove");
+		expect(
+			ZkLoginPublicIdentifier.fromProof(
+				account.address,
+				account.inputs,
+			).toSuiAddress(),
+		).toBe(account.address);
+	});
+
+	it("nonceが一致しないIDトークンは拒否する", async () => {
+		const idToken = createMockIdToken({ sub: "patient", nonce: "other" });
+		await expect(
+			completeZkLogin({ idToken, pending: pendingLogin() }),
+		).rejects.toBeInstanceOf(ZkLoginError);
+	});
+});
+
+describe("ZkLoginSigner", () => {
+	it("個人メッセージにzkLogin署名を付ける", async () => {
+		const account = mockAccount("patient");
+		const signer = new ZkLoginSigner(account);
+
+		const { signature } = await signer.signPersonalMessage(
+			new TextEncoder().encode("session key"),
+		);
+		const parsed = parseSerializedSignature(signature);
+
+		expect(signer.toSuiAddress()).toBe(account.address);
+		expect(parsed.signatureScheme).toBe("ZkLogin");
+		if (parsed.signatureScheme === "ZkLogin") {
+			expect(parsed.zkLogin.maxEpoch).toBe(String(MAX_EPOCH));
+			expect(parsed.zkLogin.addressSeed).toBe(
+				BigInt(account.inputs.addressSeed),
+			);
+		}
+	});
+});
+
+describe("zkLogin salt", () => {
+	it("同じログインには常に同じ128ビット未満のsaltを返す", async () => {
+		const token = {
+			iss: MOCK_ZKLOGIN_ISSUER,
+			aud: MOCK_ZKLOGIN_CLIENT_ID,
+			sub: "patient",
+		};
+		const salt = await deriveZkLoginSalt("secret", token);
+
+		expect(await deriveZkLoginSalt("secret", token)).toBe(salt);
+		expect(
+			await deriveZkLoginSalt("secret", { ...token, sub: "other" }),
+		).not.toBe(salt);
+		expect(BigInt(salt) < BigInt(2) ** BigInt(128)).toBe(true);
+	});
+
+	it("モックのIDトークンはモック有効時かつ期限内のみ受け付ける", async () => {
+		const now = Date.now();
+		const idToken = createMockIdToken({ sub: "patient", nonce: "n" }, now);
+		const audiences = [MOCK_ZKLOGIN_CLIENT_ID];
+
+		expect(
+			await verifyZkLoginIdToken(idToken, { audiences, allowMock: true, now }),
+		).toEqual({
+			iss: MOCK_ZKLOGIN_ISSUER,
+			aud: MOCK_ZKLOGIN_CLIENT_ID,
+			sub: "patient",
+		});
+		expect(
+			await verifyZkLoginIdToken(idToken, { audiences, allowMock: false, now }),
+		).toBeNull();
+		expect(
+			await verifyZkLoginIdToken(idToken, {
+				audiences,
+				allowMock: true,
+				now: now + 2 * 60 * 60 * 1000,
+			}),
+		).toBeNull();
+		expect(
+			await verifyZkLoginIdToken(idToken, {
+				audiences: ["other-client"],
+				allowMock: true,
+				now,
+			}),
+		).toBeNull();
+	});
+});
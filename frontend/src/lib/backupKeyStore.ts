@@ -0,0 +1,328 @@
+/**
+ * Backup Key Persistence (IndexedDB)
+ *
+ * Holds the Seal symmetric keys collected for the recovery kit (see
+ * lib/recoveryKit.ts) until the owner exports them. Each key decrypts one
+ * Walrus blob without the key servers, so the store only fills once the
+ * owner has opted in, and the exported kit is always passphrase-wrapped.
+ *
+ * Keys are never written in plaintext: each one is wrapped with AES-256-GCM
+ * under a device key generated as a non-extractable CryptoKey and kept in
+ * the same database. Reading the database files does not reveal the keys;
+ * only this origin can unwrap them, through WebCrypto. Exporting a kit
+ * deletes the keys it contains (components/RecoveryKitExport.tsx), so they
+ * do not outlive the collection period on the device.
+ */
+
+import type { DataType } from "@/types/healthData";
+
+// ==========================================
+// Constants
+// ==========================================
+
+const DB_NAME = "curepocket_backup_keys_v1";
+const DB_VERSION = 2;
+const STORE_NAME = "keys";
+const DEVICE_KEY_STORE_NAME = "device_key";
+const DEVICE_KEY_ID = "wrapping";
+
+// ==========================================
+// Type Definitions
+// ==========================================
+
+/**
+ * Backup key wrapped with the device key (AES-256-GCM)
+ */
+export interface WrappedBackupKey {
+	ciphertext: Uint8Array;
+	/** 96-bit IV */
+	iv: Uint8Array;
+}
+
+/**
+ * Collected backup key of one uploaded blob
+ */
+export interface BackupKeyRecord {
+	/** `${owner}:${blobId}` */
+	id: string;
+	/** Owner wallet address (lowercased) */
+	owner: string;
+	/** Walrus blob ID (manifest blob ID for chunked payloads) */
+	blobId: string;
+	/** Data type the blob belongs to (if known) */
+	dataType?: DataType;
+	/** SHA-256 (hex) of the encrypted payload */
+	sha256?: string;
+	/** 256-bit symmetric key returned by Seal encrypt, wrapped */
+	wrappedKey: WrappedBackupKey;
+	/** Upload time (Unix timestamp ms) */
+	createdAt: number;
+}
+
+/**
+ * Collected backup key with the key unwrapped (for building a kit)
+ */
+export type UnwrappedBackupKey = Omit<BackupKeyRecord, "wrappedKey"> & {
+	key: Uint8Array;
+};
+
+/**
+ * Record written before keys were wrapped (database version 1)
+ */
+type LegacyBackupKeyRecord = Omit<BackupKeyRecord, "wrappedKey"> & {
+	key: Uint8Array;
+};
+
+// ==========================================
+// Database
+// ==========================================
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let deviceKeyPromise: Promise<CryptoKey> | null = null;
+
+/**
+ * Whether IndexedDB is available (false during SSR and in private modes
+ * that disable it)
+ */
+export function isBackupKeyStoreAvailable(): boolean {
+	return typeof indexedDB !== "undefined";
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+	if (!isBackupKeyStoreAvailable()) {
+		return Promise.reject(new Error("IndexedDB is not available"));
+	}
+
+	if (!dbPromise) {
+		dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+			const request = indexedDB.open(DB_NAME, DB_VERSION);
+			request.onupgradeneeded = () => {
+				const db = request.result;
+				if (!db.objectStoreNames.contains(STORE_NAME)) {
+					db.createObjectStore(STORE_NAME, { keyPath: "id" });
+				}
+				if (!db.objectStoreNames.contains(DEVICE_KEY_STORE_NAME)) {
+					db.createObjectStore(DEVICE_KEY_STORE_NAME);
+				}
+			};
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error);
+		}).catch((error: unknown) => {
+			dbPromise = null;
+			throw new Error(
+				`Failed to open backup key database: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		});
+	}
+
+	return dbPromise;
+}
+
+async function runRequest<T>(
+	mode: IDBTransactionMode,
+	operation: (store: IDBObjectStore) => IDBRequest<T>,
+	storeName: string = STORE_NAME,
+): Promise<T> {
+	const db = await openDatabase();
+	return new Promise<T>((resolve, reject) => {
+		const transaction = db.transaction(storeName, mode);
+		const request = operation(transaction.objectStore(storeName));
+		transaction.oncomplete = () => resolve(request.result);
+		transaction.onerror = () => reject(transaction.error ?? request.error);
+		transaction.onabort = () => reject(transaction.error ?? request.error);
+	});
+}
+
+// ==========================================
+// Wrapping
+// ==========================================
+
+/**
+ * Wrap a backup key with a device key
+ *
+ * @param deviceKey - AES-GCM key allowed to encrypt
+ * @param key - Raw backup key
+ */
+export async function wrapBackupKeyWith(
+	deviceKey: CryptoKey,
+	key: Uint8Array,
+): Promise<WrappedBackupKey> {
+	const iv = crypto.getRandomValues(new Uint8Array(12));
+	const ciphertext = await crypto.subtle.encrypt(
+		{ name: "AES-GCM", iv },
+		deviceKey,
+		key as BufferSource,
+	);
+	return { ciphertext: new Uint8Array(ciphertext), iv };
+}
+
+/**
+ * Unwrap a backup key with the device key it was wrapped with
+ *
+ * @throws Error if the key was wrapped on another device or altered
+ */
+export async function unwrapBackupKeyWith(
+	deviceKey: CryptoKey,
+	wrapped: WrappedBackupKey,
+): Promise<Uint8Array> {
+	try {
+		return new Uint8Array(
+			await crypto.subtle.decrypt(
+				{ name: "AES-GCM", iv: wrapped.iv as BufferSource },
+				deviceKey,
+				wrapped.ciphertext as BufferSource,
+			),
+		);
+	} catch {
+		throw new Error("Failed to unwrap backup key: device key does not match");
+	}
+}
+
+/**
+ * Device key of this browser profile, created on first use
+ *
+ * `add` fails if another tab created the key first; that key is read back
+ * so every tab wraps with the same one.
+ */
+function getDeviceKey(): Promise<CryptoKey> {
+	if (!deviceKeyPromise) {
+		deviceKeyPromise = (async () => {
+			const stored = await runRequest<CryptoKey | undefined>(
+				"readonly",
+				(store) => store.get(DEVICE_KEY_ID),
+				DEVICE_KEY_STORE_NAME,
+			);
+			if (stored) {
+				return stored;
+			}
+			const created = await crypto.subtle.generateKey(
+				{ name: "AES-GCM", length: 256 },
+				false,
+				["encrypt", "decrypt"],
+			);
+			try {
+				await runRequest(
+					"readwrite",
+					(store) => store.add(created, DEVICE_KEY_ID),
+					DEVICE_KEY_STORE_NAME,
+				);
+				return created;
+			} catch {
+				const existing = await runRequest<CryptoKey | undefined>(
+					"readonly",
+					(store) => store.get(DEVICE_KEY_ID),
+					DEVICE_KEY_STORE_NAME,
+				);
+				if (!existing) {
+					throw new Error("Failed to store the backup key device key");
+				}
+				return existing;
+			}
+		})().catch((error: unknown) => {
+			deviceKeyPromise = null;
+			throw error;
+		});
+	}
+	return deviceKeyPromise;
+}
+
+/**
+ * Wrap a backup key with this device's key
+ */
+export async function wrapBackupKey(
+	key: Uint8Array,
+): Promise<WrappedBackupKey> {
+	return wrapBackupKeyWith(await getDeviceKey(), key);
+}
+
+/**
+ * Unwrap a backup key wrapped on this device
+ */
+export async function unwrapBackupKey(
+	wrapped: WrappedBackupKey,
+): Promise<Uint8Array> {
+	return unwrapBackupKeyWith(await getDeviceKey(), wrapped);
+}
+
+// ==========================================
+// Keys
+// ==========================================
+
+/**
+ * Wrap a record written before keys were wrapped, in place
+ */
+async function wrapLegacyRecord(
+	record: LegacyBackupKeyRecord,
+): Promise<BackupKeyRecord> {
+	const { key, ...rest } = record;
+	const wrapped: BackupKeyRecord = {
+		...rest,
+		wrappedKey: await wrapBackupKey(key),
+	};
+	await putBackupKey(wrapped);
+	return wrapped;
+}
+
+/**
+ * List the collected keys of an owner, oldest first
+ */
+export async function listBackupKeys(
+	owner: string,
+): Promise<BackupKeyRecord[]> {
+	const records = await runRequest<(BackupKeyRecord | LegacyBackupKeyRecord)[]>(
+		"readonly",
+		(store) => store.getAll(),
+	);
+	const normalizedOwner = owner.toLowerCase();
+	const owned: BackupKeyRecord[] = [];
+	for (const record of records) {
+		if (record.owner !== normalizedOwner) {
+			continue;
+		}
+		owned.push(
+			"wrappedKey" in record ? record : await wrapLegacyRecord(record),
+		);
+	}
+	return owned.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * List the collected keys of an owner with the keys unwrapped, oldest first
+ */
+export async function readBackupKeys(
+	owner: string,
+): Promise<UnwrappedBackupKey[]> {
+	const records = await listBackupKeys(owner);
+	return Promise.all(
+		records.map(async ({ wrappedKey, ...record }) => ({
+			...record,
+			key: await unwrapBackupKey(wrappedKey),
+		})),
+	);
+}
+
+/**
+ * Insert or replace the key of a blob
+ */
+export async function putBackupKey(record: BackupKeyRecord): Promise<void> {
+	await runRequest("readwrite", (store) => store.put(record));
+}
+
+/**
+ * Remove collected keys of an owner
+ *
+ * @param owner - Owner wallet address
+ * @param ids - Record IDs to remove (all of the owner's keys if omitted)
+ */
+export async function deleteBackupKeys(
+	owner: string,
+	ids?: string[],
+): Promise<void> {
+	const prefix = `${owner.toLowerCase()}:`;
+	const targets = ids
+		? ids.filter((id) => id.startsWith(prefix))
+		: (await listBackupKeys(owner)).map((record) => record.id);
+	for (const id of targets) {
+		await runRequest("readwrite", (store) => store.delete(id));
+	}
+}
@@ -0,0 +1,106 @@
+/**
+ * Walrus Blob Garbage Collection
+ *
+ * Every save uploads a fresh metadata blob and new data blobs, leaving the
+ * previous versions unreferenced. Reachability-based GC:
+ *
+ * 1. Mark: walk SBT EntryData.metadata_blob_id → metadata entries
+ *    (blob_id, binary_blob_id and their chunk manifests)
+ * 2. Sweep: every blob in the owner's upload journal that is not reachable
+ *    (and whose manifest is not reachable) is an orphan candidate
+ *
+ * Recently uploaded blobs are never reported, so a save that is still in
+ * flight (data uploaded, SBT not yet updated) cannot lose its blobs. Saves
+ * that wait longer (queued outbox items) pass their blobs as pending roots.
+ */
+
+import type { UploadJournalEntry } from "@/lib/uploadJournal";
+import type {
+	BaseMetadata,
+	BaseMetadataEntry,
+	ChunkManifest,
+	ImagingMetadataEntry,
+} from "@/types/metadata";
+
+// ==========================================
+// Constants
+// ==========================================
+
+/**
+ * Blobs uploaded within this window are never treated as orphans (1 hour)
+ */
+export const ORPHAN_GRACE_PERIOD_MS = 60 * 60 * 1000;
+
+// ==========================================
+// Mark
+// ==========================================
+
+function addManifestChunks(
+	reachable: Set<string>,
+	manifest: ChunkManifest | undefined,
+): void {
+	for (const chunk of manifest?.chunks ?? []) {
+		reachable.add(chunk.blob_id);
+	}
+}
+
+/**
+ * Collect every blob ID reachable from the passport
+ *
+ * @param params.rootBlobIds - Blob IDs referenced directly by SBT EntryData
+ * @param params.metadata - Decrypted metadata of every data type
+ * @param params.pendingBlobIds - Blob IDs of saves not applied to the SBT yet
+ * @returns Set of reachable blob IDs (manifests and their chunks included)
+ */
+export function collectReachableBlobIds(params: {
+	rootBlobIds: string[];
+	metadata: Array<BaseMetadata<BaseMetadataEntry>>;
+	pendingBlobIds?: string[];
+}): Set<string> {
+	const reachable = new Set([
+		...params.rootBlobIds,
+		...(params.pendingBlobIds ?? []),
+	]);
+
+	for (const metadata of params.metadata) {
+		for (const entry of metadata.entries ?? []) {
+			reachable.add(entry.blob_id);
+			addManifestChunks(reachable, entry.chunk_manifest);
+
+			const imagingEntry = entry as Partial<ImagingMetadataEntry>;
+			if (imagingEntry.binary_blob_id) {
+				reachable.add(imagingEntry.binary_blob_id);
+				addManifestChunks(reachable, imagingEntry.binary_chunk_manifest);
+			}
+		}
+	}
+
+	return reachable;
+}
+
+// ==========================================
+// Sweep
+// ==========================================
+
+/**
+ * Find journaled blob objects that are no longer reachable
+ *
+ * @param journal - Owner's upload journal
+ * @param reachable - Reachable blob IDs from collectReachableBlobIds
+ * @param now - Current time (ms), used for the grace period
+ * @returns Orphaned journal entries, oldest first
+ */
+export function findOrphanedBlobs(
+	journal: UploadJournalEntry[],
+	reachable: Set<string>,
+	now: number = Date.now(),
+): UploadJournalEntry[] {
+	return journal
+		.filter(
+			(entry) =>
+				!reachable.has(entry.blobId) &&
+				!(entry.manifestBlobId && reachable.has(entry.manifestBlobId)) &&
+				now - entry.uploadedAt >= ORPHAN_GRACE_PERIOD_MS,
+		)
+		.sort((a, b) => a.uploadedAt - b.uploadedAt);
+}
@@ -0,0 +1,176 @@
+/**
+ * Blob Content Integrity
+ *
+ * Each metadata entry records the SHA-256 of the encrypted blob it points to
+ * (`sha256`, and `binary_sha256` for imaging binaries). Downloads of entry
+ * blobs are verified against that digest before decryption, so a corrupted
+ * or substituted blob surfaces as a BlobIntegrityError naming the data type
+ * and partition instead of an opaque Seal decrypt failure.
+ *
+ * Entries written before digests were recorded are downloaded unverified
+ * (chunked blobs are still checked against their manifest).
+ */
+
+import { downloadFromWalrusByBlobId } from "@/lib/walrus";
+import { ChunkIntegrityError, sha256Hex } from "@/lib/walrusChunks";
+import type { DataType } from "@/types/healthData";
+import type { BaseMetadataEntry, ImagingMetadataEntry } from "@/types/metadata";
+
+// ==========================================
+// Errors
+// ==========================================
+
+/**
+ * Raised when a downloaded blob does not match its recorded digest
+ */
+export class BlobIntegrityError extends Error {
+	constructor(
+		public readonly dataType: DataType,
+		public readonly partition: string | undefined,
+		public readonly blobId: string,
+		detail: string,
+	) {
+		super(
+			`Integrity check failed for ${dataType}${
+				partition ? ` (${partition})` : ""
+			}: ${detail}`,
+		);
+		this.name = "BlobIntegrityError";
+	}
+}
+
+// ==========================================
+// Listeners
+// ==========================================
+
+type BlobIntegrityListener = (error: BlobIntegrityError) => void;
+
+const listeners = new Set<BlobIntegrityListener>();
+
+/**
+ * Subscribe to integrity failures (used to notify the user even when the
+ * caller skips the failed blob)
+ *
+ * @returns Unsubscribe function
+ */
+export function onBlobIntegrityError(
+	listener: BlobIntegrityListener,
+): () => void {
+	listeners.add(listener);
+	return () => {
+		listeners.delete(listener);
+	};
+}
+
+function reportIntegrityError(error: BlobIntegrityError): BlobIntegrityError {
+	console.error(`[BlobIntegrity] ${error.message} (blob ${error.blobId})`);
+	for (const listener of listeners) {
+		listener(error);
+	}
+	return error;
+}
+
+// ==========================================
+// Partition Keys
+// ==========================================
+
+/**
+ * Partition key value of a metadata entry, if the data type is partitioned
+ *
+ * @param entry - Metadata entry
+ * @returns month_key / prescription_id / test_date / study_id, or undefined
+ */
+export function getEntryPartitionKey(
+	entry: BaseMetadataEntry,
+): string | undefined {
+	const e = entry as unknown as Record<string, unknown>;
+	for (const key of ["month_key", "prescription_id", "test_date", "study_id"]) {
+		if (typeof e[key] === "string" && e[key]) {
+			return e[key] as string;
+		}
+	}
+	return undefined;
+}
+
+// ==========================================
+// Verified Downloads
+// ==========================================
+
+/**
+ * Download a blob and verify it against an expected SHA-256 digest
+ *
+ * @param blobId - Walrus blob ID (may be a chunk manifest)
+ * @param expected - Recorded digest and the data type / partition it belongs to
+ * @returns Encrypted bytes
+ * @throws BlobIntegrityError if the digest (or a chunk digest) does not match
+ */
+export async function downloadVerifiedBlob(
+	blobId: string,
+	expected: { sha256?: string; dataType: DataType; partition?: string },
+): Promise<Uint8Array> {
+	const { sha256, dataType, partition } = expected;
+
+	let bytes: Uint8Array;
+	try {
+		bytes = await downloadFromWalrusByBlobId(blobId);
+	} catch (error) {
+		if (error instanceof ChunkIntegrityError) {
+			throw reportIntegrityError(
+				new BlobIntegrityError(dataType, partition, blobId, error.message),
+			);
+		}
+		throw error;
+	}
+
+	if (sha256) {
+		const actual = await sha256Hex(bytes);
+		if (actual !== sha256.toLowerCase()) {
+			throw reportIntegrityError(
+				new BlobIntegrityError(
+					dataType,
+					partition,
+					blobId,
+					"downloaded blob does not match the recorded SHA-256",
+				),
+			);
+		}
+	}
+
+	return bytes;
+}
+
+/**
+ * Download and verify the data blob of a metadata entry
+ *
+ * @param entry - Metadata entry (blob_id and optional sha256)
+ * @param dataType - Data type the entry belongs to
+ * @returns Encrypted bytes
+ * @throws BlobIntegrityError if the blob does not match the entry's digest
+ */
+export function downloadEntryBlob(
+	entry: BaseMetadataEntry,
+	dataType: DataType,
+): Promise<Uint8Array> {
+	return downloadVerifiedBlob(entry.blob_id, {
+		sha256: entry.sha256,
+		dataType,
+		partition: getEntryPartitionKey(entry),
+	});
+}
+
+/**
+ * Download and verify the image binary referenced by an imaging_meta entry
+ *
+ * @param entry - imaging_meta entry (binary_blob_id and optional binary_sha256)
+ * @returns Encrypted bytes
+ * @throws BlobIntegrityError if the blob does not match the entry's digest
+ */
+export function downloadImagingBinaryBlob(
+	entry: ImagingMetadataEntry,
+): Promise<Uint8Array> {
+	return downloadVerifiedBlob(entry.binary_blob_id, {
+		sha256: entry.binary_sha256,
+		dataType: "imaging_binary",
+		partition: entry.study_id,
+	});
+}
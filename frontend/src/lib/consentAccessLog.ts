@@ -0,0 +1,235 @@
+/**
+ * Consent Access Log
+ *
+ * Audit trail of the decryptions made with a consent token.
+ *
+ * seal_approve_consent only runs as a dry run on the key servers, so it
+ * cannot leave a trace on its own. After fetching shared data, the doctor
+ * app records each attempt (scope, success) through
+ * accessor::log_consent_access, which emits a ConsentAccessLoggedEvent
+ * carrying the doctor's address and the chain time. The patient app reads
+ * these events back per consent token.
+ *
+ * The record is self-reported and unverified: it is written by the doctor
+ * app, not by the key servers, so a recipient can skip it and anyone who
+ * learns the token's object ID can add entries with any success flag. The
+ * contract only accepts entries while the token is active and unexpired, and
+ * only for scopes the token grants; every entry keeps the address that wrote
+ * it. The patient app shows the history as reported, not as proof of access.
+ */
+
+import type { SuiClient } from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
+import { getEntryConsentScope } from "@/lib/sealIdGenerator";
+import { PACKAGE_ID } from "@/lib/suiClient";
+
+// ==========================================
+// Constants
+// ==========================================
+
+/**
+ * Module and name of the access event (the package prefix is read from the
+ * token's type, since events keep the original package ID after an upgrade)
+ */
+const ACCESS_EVENT_NAME = "consent_token::ConsentAccessLoggedEvent";
+
+/**
+ * Events per queryEvents page
+ */
+const EVENT_PAGE_SIZE = 50;
+
+/**
+ * Event pages scanned at most (older accesses are not listed)
+ */
+const MAX_EVENT_PAGES = 20;
+
+// ==========================================
+// Type Definitions
+// ==========================================
+
+/**
+ * One decryption attempt made by the doctor app
+ */
+export interface ConsentAccessAttempt {
+	/** Token scope that authorized the attempt */
+	scope: string;
+	/** Whether the key servers released the key */
+	success: boolean;
+}
+
+/**
+ * Logged access as shown in the patient's timeline
+ */
+export interface ConsentAccessRecord {
+	/** ConsentToken object ID */
+	tokenId: string;
+	/** Address that made the attempt */
+	accessor: string;
+	/** Token scope that was used */
+	scope: string;
+	/** Whether the decryption succeeded */
+	success: boolean;
+	/** Chain time of the record (Unix timestamp ms) */
+	timestamp: number;
+}
+
+// ==========================================
+// Recording (doctor side)
+// ==========================================
+
+/**
+ * Token scope that authorizes a decryption
+ *
+ * A data type shared as a whole covers its entries as well; otherwise an
+ * entry blob is opened through its own "<dataType>#<nonce>" scope.
+ *
+ * @param tokenScopes - Scopes of the consent token (from the QR payload)
+ * @param dataType - Data type being decrypted
+ * @param entryNonce - Entry nonce when decrypting a single shared entry
+ * @returns Scope to record
+ */
+export function getAccessScope(
+	tokenScopes: string[],
+	dataType: string,
+	entryNonce?: string,
+): string {
+	if (!entryNonce || tokenScopes.includes(dataType)) {
+		return dataType;
+	}
+	return getEntryConsentScope(dataType, entryNonce);
+}
+
+/**
+ * Build one transaction recording decryption attempts
+ *
+ * Repeated attempts with the same scope and outcome (metadata and data blobs
+ * of one data type) are recorded once.
+ *
+ * @param tokenId - ConsentToken object ID
+ * @param attempts - Attempts to record
+ * @returns Transaction calling accessor::log_consent_access per distinct attempt
+ * @throws Error if the package ID is not configured or no attempt is given
+ */
+export function buildAccessLogTransaction(
+	tokenId: string,
+	attempts: ConsentAccessAttempt[],
+): Transaction {
+	if (!PACKAGE_ID) {
+		throw new Error("NEXT_PUBLIC_PACKAGE_ID not configured");
+	}
+	if (attempts.length === 0) {
+		throw new Error("No access attempts to record");
+	}
+
+	const distinct = new Map<string, ConsentAccessAttempt>();
+	for (const attempt of attempts) {
+		distinct.set(`${attempt.scope}:${attempt.success}`, attempt);
+	}
+
+	const tx = new Transaction();
+	for (const attempt of distinct.values()) {
+		tx.moveCall({
+			target: `${PACKAGE_ID}::accessor::log_consent_access`,
+			arguments: [
+				tx.object(tokenId),
+				tx.pure.string(attempt.scope),
+				tx.pure.bool(attempt.success),
+				tx.object.clock(),
+			],
+		});
+	}
+	return tx;
+}
+
+// ==========================================
+// Queries (patient side)
+// ==========================================
+
+/**
+ * List the logged accesses of consent tokens
+ *
+ * @param params - Sui client and ConsentToken object IDs
+ * @returns Accesses, newest first
+ * @throws Error if the object or event query fails
+ */
+export async function listConsentAccesses(params: {
+	suiClient: SuiClient;
+	tokenIds: string[];
+}): Promise<ConsentAccessRecord[]> {
+	const { suiClient, tokenIds } = params;
+	if (tokenIds.length === 0) {
+		return [];
+	}
+
+	try {
+		// 1. Event type from the token's type (original package ID)
+		const object = await suiClient.getObject({
+			id: tokenIds[0],
+			options: { showType: true },
+		});
+		const tokenType = object.data?.type;
+		if (!tokenType) {
+			throw new Error(`Consent token ${tokenIds[0]} not found`);
+		}
+		const eventType = `${tokenType.split("::")[0]}::${ACCESS_EVENT_NAME}`;
+
+		// 2. Access events of the tokens
+		const wanted = new Set(tokenIds);
+		const records: ConsentAccessRecord[] = [];
+		let cursor: Parameters<SuiClient["queryEvents"]>[0]["cursor"] = null;
+		for (let page = 0; page < MAX_EVENT_PAGES; page++) {
+			const result = await suiClient.queryEvents({
+				query: { MoveEventType: eventType },
+				cursor,
+				limit: EVENT_PAGE_SIZE,
+				order: "descending",
+			});
+			for (const event of result.data) {
+				const record = parseAccessEvent(event.parsedJson);
+				if (record && wanted.has(record.tokenId)) {
+					records.push(record);
+				}
+			}
+			if (!result.hasNextPage) {
+				break;
+			}
+			cursor = result.nextCursor ?? null;
+		}
+
+		return records.sort((a, b) => b.timestamp - a.timestamp);
+	} catch (error) {
+		if (error instanceof Error) {
+			throw new Error(`Failed to list consent accesses: ${error.message}`);
+		}
+		throw new Error("Failed to list consent accesses: Unknown error");
+	}
+}
+
+/**
+ * Read a ConsentAccessLoggedEvent payload
+ */
+function parseAccessEvent(json: unknown): ConsentAccessRecord | null {
+	if (!json || typeof json !== "object") {
+		return null;
+	}
+	const { token_id, accessor, scope, success, timestamp_ms } = json as Record<
+		string,
+		unknown
+	>;
+	if (
+		typeof token_id !== "string" ||
+		typeof accessor !== "string" ||
+		typeof scope !== "string" ||
+		typeof success !== "boolean" ||
+		(typeof timestamp_ms !== "string" && typeof timestamp_ms !== "number")
+	) {
+		return null;
+	}
+	return {
+		tokenId: token_id,
+		accessor,
+		scope,
+		success,
+		timestamp: Number(timestamp_ms),
+	};
+}
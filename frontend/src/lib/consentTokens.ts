@@ -0,0 +1,421 @@
+/**
+ * Consent Token Index
+ *
+ * Finds the ConsentTokens granted from a passport and builds the
+ * transaction that revokes them. seal_id rotation revokes the active tokens
+ * covering the rotated data type in its own transaction
+ * (getConsentTokensCoveringDataType, addRevokeConsentTokenCalls).
+ *
+ * Tokens are found through the ConsentTokenCreatedEvent that
+ * accessor::create_consent_token emits, queried by event type (the package
+ * that introduced the event, from the package's type origin table) and
+ * filtered by passport; every page is read. Tokens created before an
+ * upgrade added the event have no event: they are found in the grantor's
+ * own transactions up to that upgrade. The current state (scopes, expiry,
+ * is_active) is decoded from the token objects themselves
+ * (lib/onChainSchema.ts), which stay on-chain as shared objects after
+ * revocation.
+ */
+
+import type { SuiClient, SuiObjectData } from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
+import { normalizeStructTag, normalizeSuiAddress } from "@mysten/sui/utils";
+import { getScopeDataType } from "@/lib/entrySharing";
+import {
+	CONSENT_TOKEN_LAYOUT,
+	decodeMoveObject,
+	SchemaDriftError,
+	verifyOnChainLayouts,
+} from "@/lib/onChainSchema";
+import { PACKAGE_ID } from "@/lib/suiClient";
+
+// ==========================================
+// Constants
+// ==========================================
+
+/**
+ * Module of ConsentToken and its events
+ */
+const CONSENT_TOKEN_MODULE = "consent_token";
+
+/**
+ * Creation event name (the type's package prefix is the package version
+ * that introduced it, which differs from PACKAGE_ID after an upgrade)
+ */
+const CREATED_EVENT_NAME = "ConsentTokenCreatedEvent";
+
+/**
+ * Events / transactions per query page
+ */
+const EVENT_PAGE_SIZE = 50;
+
+/**
+ * Objects per multiGetObjects call (fullnode limit)
+ */
+const OBJECT_BATCH_SIZE = 50;
+
+// ==========================================
+// Type Definitions
+// ==========================================
+
+/**
+ * Status of a consent token
+ * - active: usable until expiresAt
+ * - expired: past expiresAt (never revoked)
+ * - revoked: revoked by the grantor
+ */
+export type ConsentTokenStatus = "active" | "expired" | "revoked";
+
+/**
+ * Consent token as shown on the management screen
+ */
+export interface ConsentTokenInfo {
+	/** ConsentToken object ID */
+	id: string;
+	/** MedicalPassport object ID */
+	passportId: string;
+	/** Granted scopes (data types, or "<dataType>#<nonce>" for single entries) */
+	scopes: string[];
+	/** Expiry (Unix timestamp ms) */
+	expiresAt: number;
+	/** Whether the grantor has not revoked the token */
+	isActive: boolean;
+	/** Creation time from the event (Unix timestamp ms, null if unknown) */
+	createdAt: number | null;
+}
+
+// ==========================================
+// Token State
+// ==========================================
+
+/**
+ * Status of a token at a point in time
+ *
+ * @param token - Consent token
+ * @param now - Current time (Unix timestamp ms)
+ * @returns Revoked takes precedence over expired
+ */
+export function getConsentTokenStatus(
+	token: Pick<ConsentTokenInfo, "isActive" | "expiresAt">,
+	now: number = Date.now(),
+): ConsentTokenStatus {
+	if (!token.isActive) {
+		return "revoked";
+	}
+	return token.expiresAt <= now ? "expired" : "active";
+}
+
+/**
+ * Active tokens granting any scope of a data type
+ *
+ * seal_approve_consent checks a token against the seal_id EntryData holds
+ * now, so these tokens keep decrypting the data type after its seal_id is
+ * rotated unless they are revoked.
+ *
+ * @param tokens - Tokens of the passport
+ * @param dataType - Data type
+ * @param now - Current time (Unix timestamp ms)
+ * @returns Tokens with the whole data type or single entries of it in scope
+ */
+export function getConsentTokensCoveringDataType(
+	tokens: ConsentTokenInfo[],
+	dataType: string,
+	now: number = Date.now(),
+): ConsentTokenInfo[] {
+	return tokens.filter(
+		(token) =>
+			getConsentTokenStatus(token, now) === "active" &&
+			token.scopes.some((scope) => getScopeDataType(scope) === dataType),
+	);
+}
+
+/**
+ * Decode a ConsentToken object fetched with `showBcs`
+ *
+ * @param object - Object data
+ * @param createdAt - Creation time from the event
+ * @returns Token
+ * @throws SchemaDriftError if the object does not match the ConsentToken layout
+ */
+export function decodeConsentTokenObject(
+	object: SuiObjectData,
+	createdAt: number | null = null,
+): ConsentTokenInfo {
+	const token = decodeMoveObject(CONSENT_TOKEN_LAYOUT, object);
+	return {
+		id: object.objectId,
+		passportId: token.passport_id,
+		scopes: token.scopes,
+		expiresAt: Number(token.expiration_ms),
+		isActive: token.is_active,
+		createdAt,
+	};
+}
+
+// ==========================================
+// Queries
+// ==========================================
+
+/**
+ * Where the ConsentToken types were introduced
+ */
+interface ConsentTokenOrigins {
+	/** ConsentToken type */
+	tokenType: string;
+	/** ConsentTokenCreatedEvent type */
+	createdEventType: string;
+	/** Time the event type was introduced (null if it was there from the first publish) */
+	eventIntroducedAt: number | null;
+}
+
+const originsByPackage = new Map<string, Promise<ConsentTokenOrigins>>();
+
+/**
+ * Read the type origins of the package (cached per package ID)
+ */
+function getConsentTokenOrigins(
+	suiClient: SuiClient,
+	packageId: string,
+): Promise<ConsentTokenOrigins> {
+	let origins = originsByPackage.get(packageId);
+	if (!origins) {
+		origins = (async () => {
+			const pkg = await suiClient.getObject({
+				id: packageId,
+				options: { showBcs: true },
+			});
+			const raw = pkg.data?.bcs;
+			if (raw?.dataType !== "package") {
+				throw new Error(`Package ${packageId} not found`);
+			}
+			const originOf = (name: string): string => {
+				const origin = raw.typeOriginTable.find(
+					(entry) =>
+						entry.module_name === CONSENT_TOKEN_MODULE &&
+						entry.datatype_name === name,
+				);
+				if (!origin) {
+					throw new Error(`${CONSENT_TOKEN_MODULE}::${name} not in package`);
+				}
+				return origin.package;
+			};
+			const tokenPackage = originOf("ConsentToken");
+			const eventPackage = originOf(CREATED_EVENT_NAME);
+
+			let eventIntroducedAt: number | null = null;
+			if (eventPackage !== tokenPackage) {
+				// Added by an upgrade: tokens created before it emitted no event
+				const upgrade = await suiClient.getObject({
+					id: eventPackage,
+					options: { showPreviousTransaction: true },
+				});
+				const digest = upgrade.data?.previousTransaction;
+				if (!digest) {
+					throw new Error(`Package ${eventPackage} not found`);
+				}
+				const tx = await suiClient.getTransactionBlock({ digest });
+				eventIntroducedAt = Number(tx.timestampMs ?? 0);
+			}
+
+			return {
+				tokenType: normalizeStructTag(
+					`${tokenPackage}::${CONSENT_TOKEN_MODULE}::ConsentToken`,
+				),
+				createdEventType: `${eventPackage}::${CONSENT_TOKEN_MODULE}::${CREATED_EVENT_NAME}`,
+				eventIntroducedAt,
+			};
+		})();
+		origins.catch(() => originsByPackage.delete(packageId));
+		originsByPackage.set(packageId, origins);
+	}
+	return origins;
+}
+
+/**
+ * IDs of tokens a grantor created before the creation event existed
+ *
+ * Reads the grantor's transactions from the oldest until the upgrade that
+ * introduced the event.
+ *
+ * @returns Token ID → creation time
+ */
+async function findLegacyConsentTokens(
+	suiClient: SuiClient,
+	owner: string,
+	origins: ConsentTokenOrigins,
+): Promise<Map<string, number | null>> {
+	const found = new Map<string, number | null>();
+	const introducedAt = origins.eventIntroducedAt;
+	if (introducedAt === null) {
+		return found;
+	}
+	let cursor: Parameters<SuiClient["queryTransactionBlocks"]>[0]["cursor"] =
+		null;
+	for (;;) {
+		const result = await suiClient.queryTransactionBlocks({
+			filter: { FromAddress: owner },
+			options: { showObjectChanges: true },
+			cursor,
+			limit: EVENT_PAGE_SIZE,
+			order: "ascending",
+		});
+		for (const tx of result.data) {
+			const timestamp = tx.timestampMs ? Number(tx.timestampMs) : null;
+			if (timestamp !== null && timestamp >= introducedAt) {
+				return found;
+			}
+			for (const change of tx.objectChanges ?? []) {
+				if (
+					change.type === "created" &&
+					normalizeStructTag(change.objectType) === origins.tokenType
+				) {
+					found.set(change.objectId, timestamp);
+				}
+			}
+		}
+		if (!result.hasNextPage) {
+			return found;
+		}
+		cursor = result.nextCursor ?? null;
+	}
+}
+
+/**
+ * List the consent tokens granted from a passport
+ *
+ * @param params - Sui client, grantor address, passport ID and package ID (default: NEXT_PUBLIC_PACKAGE_ID)
+ * @returns Tokens, newest first
+ * @throws Error if the package ID is not configured or a query fails
+ */
+export async function listConsentTokens(params: {
+	suiClient: SuiClient;
+	owner: string;
+	passportId: string;
+	packageId?: string;
+}): Promise<ConsentTokenInfo[]> {
+	const { suiClient, owner, packageId = PACKAGE_ID } = params;
+	const passportId = normalizeSuiAddress(params.passportId);
+
+	try {
+		if (!packageId) {
+			throw new Error("NEXT_PUBLIC_PACKAGE_ID not configured");
+		}
+		await verifyOnChainLayouts(suiClient, packageId);
+		const origins = await getConsentTokenOrigins(suiClient, packageId);
+
+		// 1. Token IDs from the creation events of this passport (all pages)
+		const created = new Map<string, number | null>();
+		let cursor: Parameters<SuiClient["queryEvents"]>[0]["cursor"] = null;
+		for (;;) {
+			const result = await suiClient.queryEvents({
+				query: { MoveEventType: origins.createdEventType },
+				cursor,
+				limit: EVENT_PAGE_SIZE,
+				order: "descending",
+			});
+			for (const event of result.data) {
+				const json = event.parsedJson as
+					| { token_id?: string; passport_id?: string }
+					| undefined;
+				if (json?.token_id && json.passport_id === passportId) {
+					created.set(
+						json.token_id,
+						event.timestampMs ? Number(event.timestampMs) : null,
+					);
+				}
+			}
+			if (!result.hasNextPage) {
+				break;
+			}
+			cursor = result.nextCursor ?? null;
+		}
+
+		// Tokens created before the event existed (filtered by passport below)
+		for (const [id, createdAt] of await findLegacyConsentTokens(
+			suiClient,
+			owner,
+			origins,
+		)) {
+			if (!created.has(id)) {
+				created.set(id, createdAt);
+			}
+		}
+
+		// 2. Current state from the token objects
+		const ids = [...created.keys()];
+		const tokens: ConsentTokenInfo[] = [];
+		for (let i = 0; i < ids.length; i += OBJECT_BATCH_SIZE) {
+			const objects = await suiClient.multiGetObjects({
+				ids: ids.slice(i, i + OBJECT_BATCH_SIZE),
+				options: { showBcs: true },
+			});
+			for (const object of objects) {
+				if (!object.data) {
+					continue;
+				}
+				const token = decodeConsentTokenObject(
+					object.data,
+					created.get(object.data.objectId) ?? null,
+				);
+				if (token.passportId === passportId) {
+					tokens.push(token);
+				}
+			}
+		}
+
+		return tokens.sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0));
+	} catch (error) {
+		if (error instanceof SchemaDriftError) {
+			throw error;
+		}
+		if (error instanceof Error) {
+			throw new Error(`Failed to list consent tokens: ${error.message}`);
+		}
+		throw new Error("Failed to list consent tokens: Unknown error");
+	}
+}
+
+// ==========================================
+// Revocation
+// ==========================================
+
+/**
+ * Build one transaction revoking consent tokens
+ *
+ * @param tokenIds - ConsentToken object IDs (must be active; revoking twice aborts)
+ * @returns Transaction calling accessor::revoke_consent_token for each token
+ * @throws Error if the package ID is not configured or no token is given
+ */
+export function buildRevokeConsentTokensTransaction(
+	tokenIds: string[],
+): Transaction {
+	if (tokenIds.length === 0) {
+		throw new Error("No consent tokens to revoke");
+	}
+
+	const tx = new Transaction();
+	addRevokeConsentTokenCalls(tx, tokenIds);
+	return tx;
+}
+
+/**
+ * Append accessor::revoke_consent_token calls to a transaction
+ *
+ * @param tx - Transaction to extend
+ * @param tokenIds - ConsentToken object IDs (must be active; revoking twice aborts)
+ * @throws Error if the package ID is not configured
+ */
+export function addRevokeConsentTokenCalls(
+	tx: Transaction,
+	tokenIds: string[],
+): void {
+	if (!PACKAGE_ID) {
+		throw new Error("NEXT_PUBLIC_PACKAGE_ID not configured");
+	}
+	for (const tokenId of tokenIds) {
+		tx.moveCall({
+			target: `${PACKAGE_ID}::accessor::revoke_consent_token`,
+			arguments: [tx.object(tokenId)],
+		});
+	}
+}
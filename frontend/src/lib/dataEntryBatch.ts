@@ -0,0 +1,269 @@
+/**
+ * Data Entry Batches
+ *
+ * Collects the add_data_entry / replace_data_entry calls of several data
+ * types so a multi-type save (profile onboarding, imaging, record import) is
+ * signed as one programmable transaction block. Each write may carry a
+ * `reconcile` callback that runs once the transaction is final, with the
+ * EntryData the chain recorded for that data type. Consent tokens listed on
+ * the batch are revoked in the same transaction (seal_id rotation of
+ * imaging_meta and imaging_binary).
+ *
+ * The EntryData is read from the transaction's object changes: every write
+ * creates (add) or mutates (replace) the dynamic field object
+ * `Field<String, EntryData>` whose ID is derived from the passport ID and
+ * the data type key. A write whose field is missing from the changes was not
+ * applied and fails the reconcile. A failing callback is only logged: the
+ * transaction is final and the next load reads the chain again.
+ *
+ * Reconciling only starts once the finalized effects report success. An
+ * aborted batch (e.g. E_DATA_ENTRY_CONFLICT on one of its writes) fails the
+ * commit instead of being reported as saved with empty results.
+ */
+
+import { fromHex } from "@mysten/bcs";
+import type { SuiClient, SuiObjectChange } from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
+import { addRevokeConsentTokenCalls } from "@/lib/consentTokens";
+import { getDataEntryFieldId } from "@/lib/onChainSchema";
+import { decodeEntryDataObject, type EntryData } from "@/lib/suiClient";
+import type { DataType } from "@/types/healthData";
+
+// ==========================================
+// Constants
+// ==========================================
+
+/**
+ * Sui Clock object ID (shared system object)
+ */
+const SUI_CLOCK_OBJECT_ID = "0x6";
+
+// ==========================================
+// Types
+// ==========================================
+
+/**
+ * One data type's add/replace call
+ */
+export interface DataEntryWrite {
+	/** Data type (e.g., "basic_profile", "conditions") */
+	dataType: DataType | string;
+	/** Metadata blob ID to record */
+	metadataBlobId: string;
+	/** If true, replace_data_entry; if false, add_data_entry */
+	replace: boolean;
+	/** seal_id to record (default: the current on-chain one, or the derived one for new types) */
+	sealId?: string;
+	/** Metadata blob ID the save was built from (replace only; aborts if the SBT moved on) */
+	expectedMetadataBlobId?: string;
+	/** Update local state from the EntryData recorded by the transaction */
+	reconcile?: (entry: EntryData) => void | Promise<void>;
+}
+
+/**
+ * Pending writes of one passport, at most one per data type
+ */
+export interface DataEntryBatch {
+	/** MedicalPassport object ID */
+	passportId: string;
+	/** Writes in the order they were added */
+	writes: DataEntryWrite[];
+	/** ConsentTokens to revoke in the same transaction */
+	revokeConsentTokenIds?: string[];
+}
+
+// ==========================================
+// Composition
+// ==========================================
+
+/**
+ * Create an empty batch
+ *
+ * @param passportId - MedicalPassport object ID
+ */
+export function createDataEntryBatch(passportId: string): DataEntryBatch {
+	return { passportId, writes: [] };
+}
+
+/**
+ * Add a write to a batch
+ *
+ * A later write of the same data type replaces the pending one (a PTB can
+ * add a data type only once).
+ *
+ * @param batch - Batch
+ * @param write - Write to add
+ * @returns New batch
+ */
+export function addDataEntryWrite(
+	batch: DataEntryBatch,
+	write: DataEntryWrite,
+): DataEntryBatch {
+	if (!write.metadataBlobId) {
+		throw new Error(
+			`Data type "${write.dataType}" must have a metadata blob ID`,
+		);
+	}
+	return {
+		...batch,
+		writes: [
+			...batch.writes.filter((pending) => pending.dataType !== write.dataType),
+			write,
+		],
+	};
+}
+
+/**
+ * Add the add/replace call of one data type to a transaction
+ *
+ * With `expectedMetadataBlobId`, a replace uses replace_data_entry_if_current
+ * (lib/dataEntryConflict.ts).
+ *
+ * @param tx - Transaction to extend
+ * @param packageId - Package ID
+ * @param params - Call parameters (sealId resolved)
+ */
+export function addDataEntryCall(
+	tx: Transaction,
+	packageId: string,
+	params: {
+		passportId: string;
+		dataType: string;
+		sealId: string;
+		metadataBlobId: string;
+		replace: boolean;
+		expectedMetadataBlobId?: string;
+	},
+): void {
+	const args = [
+		tx.object(params.passportId), // passport
+		tx.pure.string(params.dataType), // data_type
+		tx.pure.vector("u8", Array.from(fromHex(params.sealId))), // seal_id (vector<u8>)
+		tx.pure.string(params.metadataBlobId), // metadata_blob_id (String)
+	];
+
+	if (params.replace && params.expectedMetadataBlobId) {
+		tx.moveCall({
+			target: `${packageId}::accessor::replace_data_entry_if_current`,
+			arguments: [
+				...args,
+				tx.pure.string(params.expectedMetadataBlobId), // expected_metadata_blob_id
+				tx.object(SUI_CLOCK_OBJECT_ID), // clock
+			],
+		});
+		return;
+	}
+
+	// Use add_data_entry or replace_data_entry (v3.0.0: metadata_blob_id)
+	const functionName = params.replace ? "replace_data_entry" : "add_data_entry";
+	tx.moveCall({
+		target: `${packageId}::accessor::${functionName}`,
+		arguments: [...args, tx.object(SUI_CLOCK_OBJECT_ID)], // clock
+	});
+}
+
+/**
+ * Build the PTB of a batch
+ *
+ * @param batch - Batch with at least one write
+ * @param packageId - Package ID
+ * @param sealIds - seal_id per data type (used when a write has none)
+ * @returns Transaction with one call per data type, then the revocations
+ */
+export function buildDataEntryBatchTransaction(
+	batch: DataEntryBatch,
+	packageId: string,
+	sealIds: Record<string, string>,
+): Transaction {
+	if (batch.writes.length === 0) {
+		throw new Error("At least one data entry must be provided");
+	}
+
+	const tx = new Transaction();
+	for (const write of batch.writes) {
+		const sealId = write.sealId ?? sealIds[write.dataType];
+		if (!sealId) {
+			throw new Error(`No seal_id for data type "${write.dataType}"`);
+		}
+		addDataEntryCall(tx, packageId, {
+			passportId: batch.passportId,
+			dataType: write.dataType,
+			sealId,
+			metadataBlobId: write.metadataBlobId,
+			replace: write.replace,
+			expectedMetadataBlobId: write.expectedMetadataBlobId,
+		});
+	}
+	if (batch.revokeConsentTokenIds?.length) {
+		addRevokeConsentTokenCalls(tx, batch.revokeConsentTokenIds);
+	}
+	return tx;
+}
+
+// ==========================================
+// Reconciliation
+// ==========================================
+
+/**
+ * Read each write's EntryData from a finalized batch transaction and run the
+ * writes' reconcile callbacks
+ *
+ * @param params.suiClient - Sui client
+ * @param params.batch - Committed batch
+ * @param params.objectChanges - `objectChanges` of the transaction
+ * @returns EntryData per data type
+ * @throws Error if a write's dynamic field was not created or mutated
+ */
+export async function reconcileDataEntryBatch(params: {
+	suiClient: SuiClient;
+	batch: DataEntryBatch;
+	objectChanges: SuiObjectChange[];
+}): Promise<Record<string, EntryData>> {
+	const { suiClient, batch, objectChanges } = params;
+
+	const changedIds = new Set(
+		objectChanges
+			.filter(
+				(change) => change.type === "created" || change.type === "mutated",
+			)
+			.map((change) => ("objectId" in change ? change.objectId : "")),
+	);
+	const fieldIds = batch.writes.map((write) =>
+		getDataEntryFieldId(batch.passportId, write.dataType),
+	);
+	const missing = batch.writes.filter((_, i) => !changedIds.has(fieldIds[i]));
+	if (missing.length > 0) {
+		throw new Error(
+			`Failed to reconcile data entries: not changed by the transaction: ${missing
+				.map((write) => write.dataType)
+				.join(", ")}`,
+		);
+	}
+
+	const objects = await suiClient.multiGetObjects({
+		ids: fieldIds,
+		options: { showBcs: true },
+	});
+
+	const entries: Record<string, EntryData> = {};
+	for (const [i, write] of batch.writes.entries()) {
+		const object = objects[i]?.data;
+		if (!object) {
+			throw new Error(
+				`Failed to reconcile data entries: ${write.dataType} not readable`,
+			);
+		}
+		const entry = decodeEntryDataObject(object);
+		entries[write.dataType] = entry;
+		try {
+			await write.reconcile?.(entry);
+		} catch (error) {
+			// The transaction is final; local state catches up on the next load
+			console.error(
+				`[DataEntryBatch] Reconcile of ${write.dataType} failed:`,
+				error,
+			);
+		}
+	}
+	return entries;
+}
@@ -0,0 +1,85 @@
+/**
+ * Data Entry Conflicts
+ *
+ * Saves replace a data type's EntryData with
+ * accessor::replace_data_entry_if_current, passing the metadata blob ID they
+ * were built from. When another device saved in between, the call aborts
+ * with E_DATA_ENTRY_CONFLICT and the save surfaces as a
+ * DataEntryConflictError instead of silently overwriting the other device's
+ * partitions. The outbox (lib/outbox.ts) then merges the save into the
+ * current metadata, asking the user only about partitions both sides changed.
+ *
+ * Wallets may return the digest of a transaction that aborted, so the abort is
+ * read from the finalized effects as well (assertTransactionSucceeded).
+ */
+
+import type { TransactionEffects } from "@mysten/sui/client";
+import type { DataType } from "@/types/healthData";
+
+// ==========================================
+// Constants
+// ==========================================
+
+/**
+ * Abort code of medical_passport::E_DATA_ENTRY_CONFLICT
+ */
+export const DATA_ENTRY_CONFLICT_ABORT_CODE = 15;
+
+// ==========================================
+// Errors
+// ==========================================
+
+/**
+ * Save rejected because the data type changed since it was read
+ */
+export class DataEntryConflictError extends Error {
+	constructor(
+		public readonly dataType: DataType | string,
+		/** Partition keys changed on both sides (empty if not merged yet) */
+		public readonly partitions: string[] = [],
+	) {
+		super(
+			partitions.length > 0
+				? `${dataType} was changed on another device: ${partitions.join(", ")}`
+				: `${dataType} was changed on another device`,
+		);
+		this.name = "DataEntryConflictError";
+	}
+}
+
+/**
+ * Whether a transaction error is the E_DATA_ENTRY_CONFLICT abort
+ *
+ * Execution errors carry the abort as text, e.g.
+ * `MoveAbort(MoveLocation { module: ModuleId { ..., name: Identifier("medical_passport") }, ... }, 15) in command 0`.
+ *
+ * @param error - Error thrown by signing/executing the transaction
+ */
+export function isDataEntryConflictAbort(error: unknown): boolean {
+	const message = error instanceof Error ? error.message : String(error);
+	const match =
+		/MoveAbort\([\s\S]*?Identifier\("(\w+)"\)[\s\S]*?,\s*(\d+)\)/.exec(message);
+	return (
+		!!match &&
+		match[1] === "medical_passport" &&
+		Number(match[2]) === DATA_ENTRY_CONFLICT_ABORT_CODE
+	);
+}
+
+/**
+ * Throw when finalized effects report a failed transaction
+ *
+ * The error carries the execution error text, so an E_DATA_ENTRY_CONFLICT
+ * abort is still recognized by isDataEntryConflictAbort.
+ *
+ * @param effects - Effects of the finalized transaction
+ */
+export function assertTransactionSucceeded(
+	effects: TransactionEffects | null | undefined,
+): void {
+	if (effects?.status.status === "failure") {
+		throw new Error(
+			`Transaction failed: ${effects.status.error ?? "unknown error"}`,
+		);
+	}
+}
@@ -0,0 +1,178 @@
+/**
+ * Entry Sharing
+ *
+ * Lets a consent token cover single partitions (one prescription, one lab
+ * date) instead of whole data types. A partition picked
+ * for sharing is re-encrypted once under its own entry seal_id
+ * (lib/sealIdGenerator.ts); a token scope "<dataType>#<nonce>" then opens
+ * that blob and nothing else.
+ *
+ * The doctor cannot decrypt the metadata listing the entries, so the QR
+ * payload carries the blob ID and entry nonce of each shared entry. Shared
+ * entries are JSON records well below the chunking size, so the blob ID is
+ * all that is needed to download them.
+ *
+ * Imaging studies are shared as a whole only: an entry seal_id would cover
+ * the imaging_meta record but not its image, which stays under the
+ * imaging_binary seal_id.
+ */
+
+import { getEntryConsentScope, getEntryNonce } from "@/lib/sealIdGenerator";
+import type { DataType } from "@/types/healthData";
+import type { BaseMetadata, BaseMetadataEntry } from "@/types/metadata";
+
+// ==========================================
+// Constants
+// ==========================================
+
+/**
+ * Data types whose entries can be shared one by one (partitioned by
+ * prescription_id and test_date)
+ */
+export const ENTRY_SHARING_DATA_TYPES: DataType[] = [
+	"medications",
+	"lab_results",
+];
+
+/**
+ * Maximum number of single entries in one consent token (keeps the QR readable)
+ */
+export const MAX_SHARED_ENTRIES = 8;
+
+// ==========================================
+// Type Definitions
+// ==========================================
+
+/**
+ * Single entry shared through a consent token (short keys, embedded in the QR)
+ */
+export interface SharedEntryRef {
+	/** Data type */
+	d: DataType;
+	/** Blob ID of the entry's data blob */
+	b: string;
+	/** Entry nonce (hex) appended to the data type seal_id */
+	n: string;
+}
+
+// ==========================================
+// Entries
+// ==========================================
+
+/**
+ * Whether entries of a data type can be shared one by one
+ */
+export function supportsEntrySharing(dataType: DataType): boolean {
+	return ENTRY_SHARING_DATA_TYPES.includes(dataType);
+}
+
+/**
+ * Reference to an entry that has its own entry seal_id
+ *
+ * @param dataType - Data type of the entry
+ * @param entry - Metadata entry
+ * @param dataTypeSealId - seal_id recorded in EntryData
+ * @returns Shared entry reference
+ * @throws Error if the entry is encrypted under the data type seal_id
+ */
+export function toSharedEntryRef(
+	dataType: DataType,
+	entry: BaseMetadataEntry,
+	dataTypeSealId: string,
+): SharedEntryRef {
+	const nonce = entry.seal_id
+		? getEntryNonce(entry.seal_id, dataTypeSealId)
+		: null;
+	if (!nonce) {
+		throw new Error(`Entry ${entry.blob_id} has no entry seal_id`);
+	}
+	return { d: dataType, b: entry.blob_id, n: nonce };
+}
+
+/**
+ * Replace the storage fields of one metadata entry
+ *
+ * @param metadata - Current metadata
+ * @param blobId - blob_id of the entry to replace
+ * @param fields - Storage fields of the new upload (toEntryBlobFields plus seal_id)
+ * @returns Updated metadata (input is not mutated)
+ * @throws Error if no entry has the blob_id
+ */
+export function replaceEntryBlob<TEntry extends BaseMetadataEntry>(
+	metadata: BaseMetadata<TEntry>,
+	blobId: string,
+	fields: BaseMetadataEntry,
+): BaseMetadata<TEntry> {
+	if (!metadata.entries.some((entry) => entry.blob_id === blobId)) {
+		throw new Error(`Entry ${blobId} not found in ${metadata.data_type}`);
+	}
+	const entries = metadata.entries.map((entry) => {
+		if (entry.blob_id !== blobId) {
+			return entry;
+		}
+		const {
+			blob_id: _blobId,
+			end_epoch: _endEpoch,
+			chunk_manifest: _chunkManifest,
+			sha256: _sha256,
+			size: _size,
+			seal_id: _sealId,
+			...rest
+		} = entry;
+		return { ...rest, ...fields } as TEntry;
+	});
+	return { ...metadata, entries, updated_at: Date.now() };
+}
+
+// ==========================================
+// Consent Scopes
+// ==========================================
+
+/**
+ * Scopes of a consent token for whole data types and single entries
+ *
+ * Entries of a data type that is shared as a whole need no scope of their own.
+ *
+ * @param dataTypes - Data types shared as a whole
+ * @param entries - Single entries shared
+ * @returns Scope strings for create_consent_token
+ */
+export function buildConsentScopes(
+	dataTypes: DataType[],
+	entries: SharedEntryRef[],
+): string[] {
+	const whole = new Set<string>(dataTypes);
+	const entryScopes = entries
+		.filter((entry) => !whole.has(entry.d))
+		.map((entry) => getEntryConsentScope(entry.d, entry.n));
+	return [...new Set([...whole, ...entryScopes])];
+}
+
+/**
+ * Data type a consent scope refers to ("lab_results#<nonce>" → "lab_results")
+ */
+export function getScopeDataType(scope: string): string {
+	return scope.split("#")[0];
+}
+
+/**
+ * Read shared entry references from a scanned QR payload
+ *
+ * @param value - `entries` field of the payload
+ * @returns Well-formed references (malformed items are dropped)
+ */
+export function parseSharedEntryRefs(value: unknown): SharedEntryRef[] {
+	if (!Array.isArray(value)) {
+		return [];
+	}
+	return value.filter(
+		(item): item is SharedEntryRef =>
+			!!item &&
+			typeof item === "object" &&
+			typeof item.d === "string" &&
+			supportsEntrySharing(item.d as DataType) &&
+			typeof item.b === "string" &&
+			typeof item.n === "string" &&
+			/^[0-9a-f]{32}$/.test(item.n),
+	);
+}
@@ -2,48 +2,30 @@
  * Imaging Binary Encryption/Decryption Helpers
  *
  * Base64 ではなく生の Uint8Array を Seal で暗号化し、Walrus に保存する。
- * MIME type だけを先頭にバイト列で埋め込む独自エンベロープ形式:
- * [0-3]   uint32 big-endian = mime length (bytes)
- * [4-..]  mime utf8 bytes
- * [..]    raw image bytes
+ * MIME type は共通エンベロープ（lib/sealEnvelope.ts）の content type に格納する。
+ * DICOM 等は圧縮して保存し、JPEG/PNG/ZIP 等の圧縮済み形式はそのまま保存する。
+ * 旧形式 [uint32 BE mime長][mime][bytes] の blob もそのまま復号できる。
  */
 
-import type { SessionKey } from "@mysten/seal";
+import type { SealClient, SessionKey } from "@mysten/seal";
 import type { SuiClient } from "@mysten/sui/client";
+import { downloadVerifiedBlob } from "@/lib/blobIntegrity";
+import { registerBackupKey } from "@/lib/recoveryKit";
 import {
 	buildPatientAccessPTB,
-	calculateThreshold,
 	createSealClient,
-	SEAL_KEY_SERVERS,
+	getSealThreshold,
 } from "@/lib/seal";
-import { generateSealId } from "@/lib/sealIdGenerator";
+import { decodeEnvelope, encodeEnvelope } from "@/lib/sealEnvelope";
+import { resolveSealId } from "@/lib/sealIdRotation";
+import { registerCompressionSavings } from "@/lib/storageSpend";
 import { PASSPORT_REGISTRY_ID } from "@/lib/suiClient";
-import { downloadFromWalrusByBlobId, uploadToWalrus } from "@/lib/walrus";
+import { uploadToWalrus } from "@/lib/walrus";
+import type { WalrusBlobReference } from "@/types/healthData";
+import type { ChunkManifest } from "@/types/metadata";
 
 const PACKAGE_ID = process.env.NEXT_PUBLIC_PACKAGE_ID || "";
 
-function encodeEnvelope(mime: string, payload: Uint8Array): Uint8Array {
-	const mimeBytes = new TextEncoder().encode(
-		mime || "application/octet-stream",
-	);
-	const header = new Uint8Array(4 + mimeBytes.length + payload.length);
-	const view = new DataView(header.buffer);
-	view.setUint32(0, mimeBytes.length, false); // big-endian
-	header.set(mimeBytes, 4);
-	header.set(payload, 4 + mimeBytes.length);
-	return header;
-}
-
-function decodeEnvelope(bytes: Uint8Array): { mime: string; data: Uint8Array } {
-	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
-	const mimeLen = view.getUint32(0, false);
-	const mimeStart = 4;
-	const mimeEnd = mimeStart + mimeLen;
-	const mime = new TextDecoder().decode(bytes.slice(mimeStart, mimeEnd));
-	const data = bytes.slice(mimeEnd);
-	return { mime, data };
-}
-
 async function fileToUint8(file: Blob): Promise<Uint8Array> {
 	const buf = await file.arrayBuffer();
 	return new Uint8Array(buf);
@@ -53,53 +35,128 @@ type EncryptBinaryParams = {
 	file: File | Blob;
 	address: string;
 	suiClient: SuiClient;
+	/** Passport ID (looked up from the address if omitted) */
+	passportId?: string | null;
 };
 
 /**
  * Encrypt image binary and store in Walrus
- * seal_id is automatically generated from address with "imaging_binary" scope
+ * seal_id is the one recorded for "imaging_binary" (it may have been rotated
+ * with imaging_meta), or derived from the address for the first image
+ * Payloads over MAX_BLOB_SIZE are chunked; blobId then points at the manifest
  */
 export async function encryptAndStoreImagingBinary({
 	file,
 	address,
 	suiClient,
+	passportId,
 }: EncryptBinaryParams): Promise<{
 	blobId: string;
 	contentType: string;
 	size: number;
+	storedSize: number;
+	savedBytes: number;
+	endEpoch?: number;
+	manifest?: ChunkManifest;
+	sha256?: string;
 }> {
-	// Generate scoped seal_id for imaging_binary
-	const sealId = await generateSealId(address, "imaging_binary");
+	// Resolve scoped seal_id for imaging_binary
+	const sealId = await resolveSealId({
+		passportId,
+		address,
+		dataType: "imaging_binary",
+	});
 
 	const bytes = await fileToUint8(file);
-	const envelope = encodeEnvelope(
-		file.type || "application/octet-stream",
-		bytes,
-	);
+	const { bytes: envelope, savedBytes } = await encodeEnvelope({
+		contentType: file.type || "application/octet-stream",
+		payload: bytes,
+	});
 
 	const sealClient = createSealClient(suiClient);
-	const threshold = calculateThreshold(SEAL_KEY_SERVERS.length);
+	const threshold = getSealThreshold();
 
 	// sealId（hex文字列）をそのまま渡す
 	// Seal SDKは内部でfromHex()を使用してバイナリに変換する
-	const { encryptedObject } = await sealClient.encrypt({
+	const { encryptedObject, key } = await sealClient.encrypt({
 		threshold,
 		packageId: PACKAGE_ID,
 		id: sealId,
 		data: envelope,
 	});
 
-	const walrusRef = await uploadToWalrus(encryptedObject);
+	registerBackupKey(encryptedObject, key);
+	registerCompressionSavings(encryptedObject, savedBytes);
+
+	const walrusRef = await uploadToWalrus(encryptedObject, {
+		owner: address,
+		dataType: "imaging_binary",
+	});
 
 	return {
 		blobId: walrusRef.blobId,
 		contentType: file.type || "application/octet-stream",
 		size: bytes.length,
+		storedSize: walrusRef.size,
+		savedBytes,
+		endEpoch: walrusRef.endEpoch,
+		manifest: walrusRef.manifest,
+		sha256: walrusRef.sha256,
 	};
 }
 
+type ReencryptBinaryParams = {
+	/** Encrypted binary as stored */
+	encryptedData: Uint8Array;
+	sealClient: SealClient;
+	sessionKey: SessionKey;
+	/** seal_approve PTB for the seal_id the binary is encrypted under */
+	txBytes: Uint8Array;
+	/** seal_id to encrypt under */
+	sealId: string;
+	threshold: number;
+	owner: string;
+};
+
+/**
+ * Re-encrypt a stored image binary under another seal_id and store it in Walrus
+ * The decrypted envelope is encrypted again as is (content type and
+ * compression are kept)
+ */
+export async function reencryptImagingBinary({
+	encryptedData,
+	sealClient,
+	sessionKey,
+	txBytes,
+	sealId,
+	threshold,
+	owner,
+}: ReencryptBinaryParams): Promise<WalrusBlobReference> {
+	const envelope = await sealClient.decrypt({
+		data: encryptedData,
+		sessionKey,
+		txBytes,
+	});
+
+	const { encryptedObject, key } = await sealClient.encrypt({
+		threshold,
+		packageId: PACKAGE_ID,
+		id: sealId,
+		data: envelope,
+	});
+
+	registerBackupKey(encryptedObject, key);
+
+	return uploadToWalrus(encryptedObject, {
+		owner,
+		dataType: "imaging_binary",
+	});
+}
+
 type DecryptBinaryParams = {
 	blobId: string;
+	/** Expected SHA-256 of the encrypted blob (binary_sha256) */
+	sha256?: string;
 	sealId: string;
 	sessionKey: SessionKey;
 	passportId: string;
@@ -109,6 +166,7 @@ type DecryptBinaryParams = {
 
 export async function decryptImagingBinary({
 	blobId,
+	sha256,
 	sealId,
 	sessionKey,
 	passportId,
@@ -124,7 +182,10 @@ export async function decryptImagingBinary({
 		throw new Error("PassportRegistry ID not configured");
 	}
 
-	const encrypted = await downloadFromWalrusByBlobId(blobId);
+	const encrypted = await downloadVerifiedBlob(blobId, {
+		sha256,
+		dataType: "imaging_binary",
+	});
 
 	const txBytes = await buildPatientAccessPTB({
 		passportObjectId: passportId,
@@ -142,9 +203,10 @@ export async function decryptImagingBinary({
 		txBytes,
 	});
 
-	const { mime, data } = decodeEnvelope(new Uint8Array(decryptedBytes));
-	const cloned = data.slice();
-	const arrayBuffer = cloned.buffer as ArrayBuffer;
+	const { contentType: mime, payload } = await decodeEnvelope(
+		new Uint8Array(decryptedBytes),
+	);
+	const arrayBuffer = payload.buffer as ArrayBuffer;
 	const objectUrl = URL.createObjectURL(
 		new Blob([arrayBuffer], { type: mime }),
 	);
@@ -186,9 +248,10 @@ export async function decryptImagingBinaryInternal({
 		txBytes,
 	});
 
-	const { mime, data } = decodeEnvelope(new Uint8Array(decryptedBytes));
-	const cloned = data.slice();
-	const arrayBuffer = cloned.buffer as ArrayBuffer;
+	const { contentType: mime, payload } = await decodeEnvelope(
+		new Uint8Array(decryptedBytes),
+	);
+	const arrayBuffer = payload.buffer as ArrayBuffer;
 	const objectUrl = URL.createObjectURL(
 		new Blob([arrayBuffer], { type: mime }),
 	);
@@ -6,7 +6,7 @@
 import type { ImagingReport } from "@/types";
 
 // Constants
-const MAX_FILE_SIZE = 1 * 1024 * 1024; // 1MB
+const MAX_FILE_SIZE = 20 * 1024 * 1024; // 20MB (uploaded as chunked Walrus blobs)
 const ALLOWED_IMAGE_TYPES = ["image/png", "image/jpeg", "image/jpg"];
 const OID_BASE = "1.2.392.200036.9123.100.12"; // Project-specific OID
 
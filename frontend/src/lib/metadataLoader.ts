@@ -0,0 +1,95 @@
+/**
+ * Passport Metadata Loader
+ *
+ * Fetches and decrypts the metadata blob referenced by a passport's
+ * EntryData for one data type. Used by maintenance flows (storage renewal,
+ * blob GC) that walk every data type outside of a page-specific hook, and
+ * by saves that hand a rejected replace to the outbox.
+ */
+
+import type { SessionKey } from "@mysten/seal";
+import type { SuiClient } from "@mysten/sui/client";
+import {
+	buildPatientAccessPTB,
+	createSealClient,
+	decryptHealthData,
+} from "@/lib/seal";
+import {
+	type EntryData,
+	getDataEntry,
+	PASSPORT_REGISTRY_ID,
+} from "@/lib/suiClient";
+import { downloadFromWalrusByBlobId } from "@/lib/walrus";
+import type { DataType } from "@/types/healthData";
+import type { BaseMetadata, BaseMetadataEntry } from "@/types/metadata";
+
+/**
+ * Loaded metadata together with the SBT entry it came from
+ */
+export interface LoadedMetadata {
+	/** SBT EntryData (seal_id, metadata_blob_id) */
+	entry: EntryData;
+	/** Decrypted metadata */
+	metadata: BaseMetadata<BaseMetadataEntry>;
+}
+
+/**
+ * Load and decrypt the metadata of one data type
+ *
+ * @param params - Sui client, session key, passport ID and data type
+ * @returns Entry and metadata, or null if the data type has no SBT entry
+ * @throws Error if download or decryption fails
+ */
+export async function loadPassportMetadata(params: {
+	suiClient: SuiClient;
+	sessionKey: SessionKey;
+	passportId: string;
+	dataType: DataType;
+}): Promise<LoadedMetadata | null> {
+	const entry = await getDataEntry(params.passportId, params.dataType);
+	if (!entry?.metadataBlobId) {
+		return null;
+	}
+	return loadEntryMetadata({ ...params, entry });
+}
+
+/**
+ * Load and decrypt the metadata a given EntryData pointed at
+ *
+ * The SBT may have moved on since the entry was read (e.g. a save rejected
+ * as a conflict still needs the metadata it was built from).
+ *
+ * @param params - Sui client, session key, passport ID, data type and entry
+ * @returns Entry and metadata
+ * @throws Error if download or decryption fails
+ */
+export async function loadEntryMetadata(params: {
+	suiClient: SuiClient;
+	sessionKey: SessionKey;
+	passportId: string;
+	dataType: DataType;
+	entry: EntryData;
+}): Promise<LoadedMetadata> {
+	const { suiClient, sessionKey, passportId, dataType, entry } = params;
+
+	const encryptedData = await downloadFromWalrusByBlobId(entry.metadataBlobId);
+	const txBytes = await buildPatientAccessPTB({
+		passportObjectId: passportId,
+		registryObjectId: PASSPORT_REGISTRY_ID,
+		suiClient,
+		sealId: entry.sealId,
+		dataType,
+	});
+	const decrypted = await decryptHealthData({
+		encryptedData,
+		sealClient: createSealClient(suiClient),
+		sessionKey,
+		txBytes,
+		sealId: entry.sealId,
+	});
+
+	return {
+		entry,
+		metadata: decrypted as unknown as BaseMetadata<BaseMetadataEntry>,
+	};
+}
@@ -0,0 +1,376 @@
+/**
+ * On-chain Object Schema
+ *
+ * BCS layouts mirroring the Move structs of the contract
+ * (contract/sources/medical_passport.move, consent_token.move). Objects are
+ * fetched with `showBcs` and decoded against these layouts instead of
+ * reading the loosely typed JSON `content.fields`.
+ *
+ * ## Schema drift
+ * A layout that no longer matches the contract fails loudly with
+ * SchemaDriftError instead of yielding partial data:
+ * - decodeMoveObject(): the object type must be the expected struct and its
+ *   bytes must decode to exactly the layout (re-encoding gives the same
+ *   bytes, so added or removed fields are caught)
+ * - verifyOnChainLayouts(): the package's normalized structs must have the
+ *   same field names and types, in order (catches renames and reorders of
+ *   same-typed fields that still decode)
+ * - lib/__tests__/onChainSchema.test.ts compares the layouts with the Move
+ *   sources
+ */
+
+import { type BcsType, fromBase64 } from "@mysten/bcs";
+import { bcs } from "@mysten/sui/bcs";
+import type {
+	SuiClient,
+	SuiMoveNormalizedType,
+	SuiObjectData,
+} from "@mysten/sui/client";
+import { deriveDynamicFieldID, parseStructTag } from "@mysten/sui/utils";
+
+// ==========================================
+// BCS Structs
+// ==========================================
+
+/**
+ * Type tag of the dynamic field key of EntryData
+ */
+const DATA_ENTRY_KEY_TYPE = "0x1::string::String";
+
+/**
+ * `object::UID` / `object::ID` (a 32-byte address)
+ */
+const ObjectId = bcs.Address;
+
+/**
+ * medical_passport::MedicalPassport
+ */
+export const MedicalPassportBcs = bcs.struct("MedicalPassport", {
+	id: ObjectId,
+	country_code: bcs.string(),
+	analytics_opt_in: bcs.bool(),
+});
+
+/**
+ * medical_passport::EntryData
+ */
+export const EntryDataBcs = bcs.struct("EntryData", {
+	seal_id: bcs.vector(bcs.u8()),
+	metadata_blob_id: bcs.string(),
+	updated_at: bcs.u64(),
+});
+
+/**
+ * Dynamic field object holding a data type's EntryData
+ * (`0x2::dynamic_field::Field<String, EntryData>`)
+ */
+export const DataEntryFieldBcs = bcs.struct("Field<String, EntryData>", {
+	id: ObjectId,
+	name: bcs.string(),
+	value: EntryDataBcs,
+});
+
+/**
+ * consent_token::ConsentToken
+ */
+export const ConsentTokenBcs = bcs.struct("ConsentToken", {
+	id: ObjectId,
+	passport_id: ObjectId,
+	grantor: bcs.Address,
+	secret_hash: bcs.vector(bcs.u8()),
+	scopes: bcs.vector(bcs.string()),
+	expiration_ms: bcs.u64(),
+	is_active: bcs.bool(),
+});
+
+export type MedicalPassportObject = typeof MedicalPassportBcs.$inferType;
+export type DataEntryFieldObject = typeof DataEntryFieldBcs.$inferType;
+export type ConsentTokenObject = typeof ConsentTokenBcs.$inferType;
+
+// ==========================================
+// Layouts
+// ==========================================
+
+/**
+ * Layout of a Move struct
+ */
+export interface MoveStructLayout<T, Input> {
+	/** Module declaring the struct */
+	module: string;
+	/** Struct name */
+	name: string;
+	/** Fields in declaration order: [name, Move type without module paths] */
+	fields: Array<[string, string]>;
+	/** BCS layout of the fields */
+	schema: BcsType<T, Input>;
+}
+
+function defineLayout<T extends Input, Input>(
+	layout: MoveStructLayout<T, Input>,
+): MoveStructLayout<T, Input> {
+	return layout;
+}
+
+export const MEDICAL_PASSPORT_LAYOUT = defineLayout({
+	module: "medical_passport",
+	name: "MedicalPassport",
+	fields: [
+		["id", "UID"],
+		["country_code", "String"],
+		["analytics_opt_in", "bool"],
+	],
+	schema: MedicalPassportBcs,
+});
+
+export const ENTRY_DATA_LAYOUT = defineLayout({
+	module: "medical_passport",
+	name: "EntryData",
+	fields: [
+		["seal_id", "vector<u8>"],
+		["metadata_blob_id", "String"],
+		["updated_at", "u64"],
+	],
+	schema: EntryDataBcs,
+});
+
+export const CONSENT_TOKEN_LAYOUT = defineLayout({
+	module: "consent_token",
+	name: "ConsentToken",
+	fields: [
+		["id", "UID"],
+		["passport_id", "ID"],
+		["grantor", "address"],
+		["secret_hash", "vector<u8>"],
+		["scopes", "vector<String>"],
+		["expiration_ms", "u64"],
+		["is_active", "bool"],
+	],
+	schema: ConsentTokenBcs,
+});
+
+/**
+ * Layouts checked against the package by verifyOnChainLayouts
+ */
+const CONTRACT_LAYOUTS = [
+	MEDICAL_PASSPORT_LAYOUT,
+	ENTRY_DATA_LAYOUT,
+	CONSENT_TOKEN_LAYOUT,
+];
+
+// ==========================================
+// Errors
+// ==========================================
+
+/**
+ * An on-chain object or struct does not match the layout in this module
+ */
+export class SchemaDriftError extends Error {
+	constructor(
+		message: string,
+		/** Struct name (e.g., "MedicalPassport") */
+		public readonly struct: string,
+	) {
+		super(message);
+		this.name = "SchemaDriftError";
+	}
+}
+
+// ==========================================
+// Decoding
+// ==========================================
+
+/**
+ * Decode a Move object fetched with `showBcs`
+ *
+ * @param layout - Expected struct
+ * @param object - Object data with `bcs`
+ * @returns Decoded fields
+ * @throws SchemaDriftError if the type or bytes do not match the layout
+ */
+export function decodeMoveObject<T extends Input, Input>(
+	layout: MoveStructLayout<T, Input>,
+	object: SuiObjectData,
+): T {
+	if (object.bcs?.dataType !== "moveObject") {
+		throw new Error(
+			`Object ${object.objectId} was fetched without showBcs or is not a Move object`,
+		);
+	}
+	const tag = parseStructTag(object.bcs.type);
+	if (tag.module !== layout.module || tag.name !== layout.name) {
+		throw drift(
+			layout.name,
+			`Object ${object.objectId} has type ${object.bcs.type}`,
+		);
+	}
+	return decodeBcs(layout.name, layout.schema, fromBase64(object.bcs.bcsBytes));
+}
+
+/**
+ * Decode a data type's dynamic field object fetched with `showBcs`
+ *
+ * @param object - Object data of `Field<String, EntryData>`
+ * @returns Decoded field (name is the data type)
+ * @throws SchemaDriftError if the type or bytes do not match the layout
+ */
+export function decodeDataEntryField(
+	object: SuiObjectData,
+): DataEntryFieldObject {
+	if (object.bcs?.dataType !== "moveObject") {
+		throw new Error(
+			`Object ${object.objectId} was fetched without showBcs or is not a Move object`,
+		);
+	}
+	const tag = parseStructTag(object.bcs.type);
+	const [key, value] = tag.typeParams;
+	if (
+		tag.module !== "dynamic_field" ||
+		tag.name !== "Field" ||
+		typeof key !== "object" ||
+		key.name !== "String" ||
+		typeof value !== "object" ||
+		value.module !== ENTRY_DATA_LAYOUT.module ||
+		value.name !== ENTRY_DATA_LAYOUT.name
+	) {
+		throw drift(
+			ENTRY_DATA_LAYOUT.name,
+			`Object ${object.objectId} has type ${object.bcs.type}`,
+		);
+	}
+	return decodeBcs(
+		ENTRY_DATA_LAYOUT.name,
+		DataEntryFieldBcs,
+		fromBase64(object.bcs.bcsBytes),
+	);
+}
+
+/**
+ * Object ID of the dynamic field holding a data type's EntryData
+ *
+ * @param passportId - MedicalPassport object ID
+ * @param dataType - Data type key
+ */
+export function getDataEntryFieldId(
+	passportId: string,
+	dataType: string,
+): string {
+	return deriveDynamicFieldID(
+		passportId,
+		DATA_ENTRY_KEY_TYPE,
+		bcs.string().serialize(dataType).toBytes(),
+	);
+}
+
+// ==========================================
+// Layout verification
+// ==========================================
+
+/**
+ * Checked packages (shared by all callers, cleared on failure)
+ */
+const verifiedPackages = new Map<string, Promise<void>>();
+
+/**
+ * Verify the layouts against the package's normalized Move structs
+ *
+ * Runs once per package; later calls await the same check.
+ *
+ * @param suiClient - Sui client
+ * @param packageId - Package ID (skipped if empty)
+ * @throws SchemaDriftError if a struct differs from its layout
+ */
+export function verifyOnChainLayouts(
+	suiClient: SuiClient,
+	packageId: string,
+): Promise<void> {
+	if (!packageId) {
+		return Promise.resolve();
+	}
+	let check = verifiedPackages.get(packageId);
+	if (!check) {
+		check = Promise.all(
+			CONTRACT_LAYOUTS.map(async (layout) => {
+				const struct = await suiClient.getNormalizedMoveStruct({
+					package: packageId,
+					module: layout.module,
+					struct: layout.name,
+				});
+				const onChain = struct.fields.map(
+					(field) => `${field.name}: ${formatNormalizedType(field.type)}`,
+				);
+				const expected = layout.fields.map(
+					([name, type]) => `${name}: ${type}`,
+				);
+				if (onChain.join(", ") !== expected.join(", ")) {
+					throw drift(
+						layout.name,
+						`Contract has { ${onChain.join(", ")} }, expected { ${expected.join(", ")} }`,
+					);
+				}
+			}),
+		).then(() => undefined);
+		check.catch(() => verifiedPackages.delete(packageId));
+		verifiedPackages.set(packageId, check);
+	}
+	return check;
+}
+
+/**
+ * Move type of a normalized field type, as written in the sources
+ * (module paths omitted: `object::UID` → `UID`)
+ */
+export function formatNormalizedType(type: SuiMoveNormalizedType): string {
+	if (typeof type === "string") {
+		return type.toLowerCase();
+	}
+	if ("Vector" in type) {
+		return `vector<${formatNormalizedType(type.Vector)}>`;
+	}
+	if ("Struct" in type) {
+		const { name, typeArguments } = type.Struct;
+		return typeArguments.length > 0
+			? `${name}<${typeArguments.map(formatNormalizedType).join(", ")}>`
+			: name;
+	}
+	if ("TypeParameter" in type) {
+		return `T${type.TypeParameter}`;
+	}
+	if ("Reference" in type) {
+		return `&${formatNormalizedType(type.Reference)}`;
+	}
+	return `&mut ${formatNormalizedType(type.MutableReference)}`;
+}
+
+// ==========================================
+// Internal helpers
+// ==========================================
+
+function decodeBcs<T extends Input, Input>(
+	struct: string,
+	schema: BcsType<T, Input>,
+	bytes: Uint8Array,
+): T {
+	let value: T;
+	try {
+		value = schema.parse(bytes);
+	} catch (error) {
+		throw drift(
+			struct,
+			`Failed to decode: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+	const reencoded = schema.serialize(value).toBytes();
+	if (
+		reencoded.length !== bytes.length ||
+		reencoded.some((byte, i) => byte !== bytes[i])
+	) {
+		throw drift(struct, `Decoded ${reencoded.length} of ${bytes.length} bytes`);
+	}
+	return value;
+}
+
+function drift(struct: string, detail: string): SchemaDriftError {
+	const message = `On-chain ${struct} does not match the app's layout: ${detail}`;
+	console.error(`[OnChainSchema] ${message}`);
+	return new SchemaDriftError(message, struct);
+}
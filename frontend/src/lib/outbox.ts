@@ -0,0 +1,589 @@
+/**
+ * Save Outbox
+ *
+ * Medication, lab and vitals saves are queued as outbox items before any
+ * network call. An item holds the Seal-encrypted data payloads together with
+ * their data type and partition key, and is replayed until the metadata blob
+ * it produced is referenced by the passport SBT.
+ *
+ * Replays are idempotent:
+ * - Data blobs already uploaded are recorded on the item and not re-uploaded
+ * - Metadata entries are upserted by partition key, so a retried save
+ *   replaces its own partition instead of inserting it twice
+ * - If the SBT already points at the item's metadata blob, the item is done
+ * - If the SBT moved on since the metadata was built (another device or
+ *   another queued save), the metadata is rebuilt from the current entries
+ *
+ * Rebuilding is a three-way merge keyed by partition key: the item records
+ * the blob each partition had when the save was made (base), its own
+ * partitions are the local side and the current metadata the remote side.
+ * Partitions only one side changed merge on their own; partitions both
+ * sides changed stop the item with a DataEntryConflictError until the user
+ * keeps one side (resolveOutboxConflicts). The SBT update itself is a
+ * compare-and-swap on the metadata blob the item was built from.
+ *
+ * Direct saves (imaging, profile and conditions) upload their blobs first and
+ * replace the EntryData themselves; when that replace is rejected with a
+ * DataEntryConflictError they hand the save to the outbox with the uploaded
+ * blobs, so it goes through the same merge. Single-blob data types
+ * (basic_profile, conditions) have no partition field: their one entry is
+ * the partition SINGLE_BLOB_PARTITION_KEY.
+ *
+ * Storage lives in lib/outboxStore.ts; scheduling in contexts/OutboxContext.
+ */
+
+import type { WrappedBackupKey } from "@/lib/backupKeyStore";
+import { DataEntryConflictError } from "@/lib/dataEntryConflict";
+import {
+	restorePendingBackupKey,
+	wrapPendingBackupKey,
+} from "@/lib/recoveryKit";
+import {
+	getPendingCompressionSavings,
+	registerCompressionSavings,
+} from "@/lib/storageSpend";
+import { toEntryBlobFields } from "@/lib/walrus";
+import type { DataType, WalrusBlobReference } from "@/types/healthData";
+import {
+	type BaseMetadata,
+	type BaseMetadataEntry,
+	createEmptyMetadata,
+	type ImagingMetadataEntry,
+} from "@/types/metadata";
+
+// ==========================================
+// Types
+// ==========================================
+
+/**
+ * Entry fields of a partition, without the blob reference
+ */
+export type OutboxEntryFields = Record<string, unknown>;
+
+/**
+ * One data blob of a queued save
+ */
+export interface OutboxPartition {
+	/** Partition key value (month_key, prescription_id, test_date, ...) */
+	key: string;
+	/** Seal-encrypted data blob; dropped once uploaded */
+	payload?: Uint8Array;
+	/**
+	 * Seal backup key of the payload for the recovery kit, wrapped with the
+	 * device key (lib/backupKeyStore.ts); dropped with the payload
+	 */
+	backupKey?: WrappedBackupKey;
+	/** Bytes compression saved on the payload (for the spend ledger) */
+	savedBytes?: number;
+	/** Metadata entry fields other than the blob reference */
+	entry: OutboxEntryFields;
+	/** Blob fields of the uploaded payload */
+	blob?: BaseMetadataEntry;
+}
+
+/**
+ * Partition changed both by a queued save and by another device
+ */
+export interface OutboxConflict {
+	/** Partition key value */
+	key: string;
+	/** Blob the current metadata holds for the partition (null = removed) */
+	remoteBlobId: string | null;
+}
+
+/**
+ * Which side of the conflicting partitions to keep
+ * - mine: the queued save
+ * - theirs: the current metadata (the queued partitions are dropped)
+ */
+export type OutboxConflictChoice = "mine" | "theirs";
+
+/**
+ * A queued save of one data type
+ */
+export interface OutboxItem {
+	/** Idempotency key of the save */
+	id: string;
+	/** Wallet address that owns the passport */
+	owner: string;
+	passportId: string;
+	dataType: DataType;
+	/** Metadata entry field holding the partition key (null = single blob) */
+	partitionField: string | null;
+	partitions: OutboxPartition[];
+	/** Partition keys to drop from the metadata */
+	removedPartitions: string[];
+	/** Metadata blob built for this save, once uploaded */
+	metadataBlobId?: string;
+	/** SBT metadata blob the metadata was built from (null = no entry yet) */
+	baseMetadataBlobId?: string | null;
+	/** Blob of each changed partition when the save was made (null = absent) */
+	baseEntries?: Record<string, string | null>;
+	/** Partitions another device changed as well (set until resolved) */
+	conflicts?: OutboxConflict[];
+	attempts: number;
+	lastError?: string;
+	createdAt: number;
+	/** Earliest time of the next automatic attempt (ms) */
+	nextAttemptAt: number;
+}
+
+/**
+ * Input of a new outbox item
+ */
+export interface OutboxItemInput {
+	/** Idempotency key; re-enqueuing the same id replaces the pending item */
+	id: string;
+	owner: string;
+	passportId: string;
+	dataType: DataType;
+	partitionField: string | null;
+	/** Each partition has a payload to upload or the blob already uploaded */
+	partitions: Array<{
+		key: string;
+		payload?: Uint8Array;
+		entry: OutboxEntryFields;
+		blob?: BaseMetadataEntry;
+	}>;
+	removedPartitions?: string[];
+	/** Blob of each changed partition in the metadata the save was made from */
+	baseEntries?: Record<string, string | null>;
+}
+
+/**
+ * Network and chain operations used while replaying an item
+ */
+export interface OutboxDeps {
+	/** Upload an encrypted blob to Walrus */
+	uploadBlob: (
+		payload: Uint8Array,
+		item: OutboxItem,
+	) => Promise<WalrusBlobReference>;
+	/** Load the current metadata (null = the data type has no SBT entry) */
+	loadMetadata: (item: OutboxItem) => Promise<{
+		metadataBlobId: string;
+		metadata: BaseMetadata<BaseMetadataEntry>;
+	} | null>;
+	/** Encrypt metadata with the data type's seal_id */
+	encryptMetadata: (
+		metadata: BaseMetadata<BaseMetadataEntry>,
+		item: OutboxItem,
+	) => Promise<Uint8Array>;
+	/** Metadata blob currently referenced by the SBT (null = no entry) */
+	getCurrentMetadataBlobId: (item: OutboxItem) => Promise<string | null>;
+	/**
+	 * Point the SBT at a metadata blob; a replace only applies while the SBT
+	 * still references item.baseMetadataBlobId (DataEntryConflictError otherwise)
+	 */
+	updatePassport: (
+		item: OutboxItem,
+		metadataBlobId: string,
+		replace: boolean,
+	) => Promise<void>;
+	/** Persist progress so a later replay resumes from here */
+	persist: (item: OutboxItem) => Promise<void>;
+}
+
+// ==========================================
+// Constants
+// ==========================================
+
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+
+/** Rebuilds allowed when the SBT keeps moving during one replay */
+const MAX_METADATA_REBUILDS = 2;
+
+/**
+ * Partition key of the one entry of a single-blob data type
+ */
+export const SINGLE_BLOB_PARTITION_KEY = "single";
+
+// ==========================================
+// Item Helpers
+// ==========================================
+
+/**
+ * Create a pending outbox item
+ */
+export function createOutboxItem(
+	input: OutboxItemInput,
+	now: number = Date.now(),
+): OutboxItem {
+	return {
+		id: input.id,
+		owner: input.owner.toLowerCase(),
+		passportId: input.passportId,
+		dataType: input.dataType,
+		partitionField: input.partitionField,
+		partitions: input.partitions.map((partition) => {
+			const savedBytes =
+				partition.payload && getPendingCompressionSavings(partition.payload);
+			return {
+				...partition,
+				...(savedBytes && { savedBytes }),
+			};
+		}),
+		removedPartitions: input.removedPartitions ?? [],
+		...(input.baseEntries && { baseEntries: input.baseEntries }),
+		attempts: 0,
+		createdAt: now,
+		nextAttemptAt: now,
+	};
+}
+
+/**
+ * Attach the wrapped backup keys of the item's payloads (owner opted in to
+ * the recovery kit) before the item is stored
+ */
+export async function attachOutboxBackupKeys(
+	item: OutboxItem,
+): Promise<OutboxItem> {
+	const partitions = await Promise.all(
+		item.partitions.map(async (partition) => {
+			const backupKey = partition.payload
+				? await wrapPendingBackupKey(item.owner, partition.payload)
+				: undefined;
+			return backupKey ? { ...partition, backupKey } : partition;
+		}),
+	);
+	return { ...item, partitions };
+}
+
+/**
+ * Delay before the next automatic attempt (30s doubling, capped at 30min)
+ *
+ * @param attempts - Failed attempts so far
+ */
+export function getRetryDelayMs(attempts: number): number {
+	return Math.min(
+		BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1),
+		MAX_RETRY_DELAY_MS,
+	);
+}
+
+/**
+ * Record a failed attempt and schedule the next one
+ */
+export function markOutboxItemFailed(
+	item: OutboxItem,
+	error: unknown,
+	now: number = Date.now(),
+): OutboxItem {
+	const attempts = item.attempts + 1;
+	return {
+		...item,
+		attempts,
+		lastError: error instanceof Error ? error.message : String(error),
+		nextAttemptAt: now + getRetryDelayMs(attempts),
+	};
+}
+
+/**
+ * Partition key of a metadata entry
+ *
+ * @param field - Partition field (null = single-blob data type)
+ */
+export function getPartitionKey(
+	entry: BaseMetadataEntry,
+	field: string | null,
+): string {
+	return field === null
+		? SINGLE_BLOB_PARTITION_KEY
+		: String((entry as unknown as Record<string, unknown>)[field]);
+}
+
+/**
+ * Merge an item's partitions into existing metadata entries
+ *
+ * Entries with the same partition key are replaced in place, removed
+ * partitions are dropped, and new partitions are appended.
+ */
+export function mergeOutboxEntries(
+	entries: BaseMetadataEntry[],
+	item: OutboxItem,
+): BaseMetadataEntry[] {
+	const field = item.partitionField;
+	const removed = new Set(item.removedPartitions);
+	const queued = new Map(
+		item.partitions.map((partition) => [
+			partition.key,
+			{
+				...partition.entry,
+				...partition.blob,
+				...(field !== null && { [field]: partition.key }),
+			} as BaseMetadataEntry,
+		]),
+	);
+
+	const merged: BaseMetadataEntry[] = [];
+	for (const entry of entries) {
+		const key = getPartitionKey(entry, field);
+		const replacement = queued.get(key);
+		if (replacement) {
+			merged.push(replacement);
+			queued.delete(key);
+		} else if (!removed.has(key)) {
+			merged.push(entry);
+		}
+	}
+
+	return [...merged, ...queued.values()];
+}
+
+/**
+ * Blobs an item has uploaded that the SBT does not reference yet
+ *
+ * Blob GC treats them as reachable until the item is applied, however
+ * long it waits offline or on a conflict.
+ *
+ * @param item - Queued save
+ * @returns Data blob IDs (chunk blobs and imaging binaries included) and the
+ *   metadata blob ID
+ */
+export function getOutboxItemBlobIds(item: OutboxItem): string[] {
+	const blobIds: string[] = [];
+	for (const partition of item.partitions) {
+		if (partition.blob) {
+			blobIds.push(partition.blob.blob_id);
+			for (const chunk of partition.blob.chunk_manifest?.chunks ?? []) {
+				blobIds.push(chunk.blob_id);
+			}
+		}
+		// imaging_meta entries reference the study's binary uploaded before the save
+		const imagingEntry = partition.entry as Partial<ImagingMetadataEntry>;
+		if (imagingEntry.binary_blob_id) {
+			blobIds.push(imagingEntry.binary_blob_id);
+			for (const chunk of imagingEntry.binary_chunk_manifest?.chunks ?? []) {
+				blobIds.push(chunk.blob_id);
+			}
+		}
+	}
+	if (item.metadataBlobId) {
+		blobIds.push(item.metadataBlobId);
+	}
+	return blobIds;
+}
+
+/**
+ * Blob of each partition key in the metadata a save is made from
+ *
+ * @param entries - Metadata entries the save was built from
+ * @param field - Metadata entry field holding the partition key (null = single blob)
+ * @param keys - Partition keys the save changes or removes
+ * @returns Base blob per key (null = not in the metadata)
+ */
+export function getBaseEntries(
+	entries: BaseMetadataEntry[],
+	field: string | null,
+	keys: string[],
+): Record<string, string | null> {
+	const blobs = new Map(
+		entries.map((entry) => [getPartitionKey(entry, field), entry.blob_id]),
+	);
+	return Object.fromEntries(keys.map((key) => [key, blobs.get(key) ?? null]));
+}
+
+/**
+ * Partitions of an item that the current metadata changed as well
+ *
+ * Only partitions with a recorded base are checked; a save without base
+ * entries keeps overwriting its partitions as before.
+ *
+ * @param entries - Current metadata entries (remote side)
+ * @param item - Queued save (local side, with its base)
+ * @returns Partitions whose current blob differs from the base
+ */
+export function findOutboxConflicts(
+	entries: BaseMetadataEntry[],
+	item: OutboxItem,
+): OutboxConflict[] {
+	if (!item.baseEntries) {
+		return [];
+	}
+	const remote = getBaseEntries(
+		entries,
+		item.partitionField,
+		Object.keys(item.baseEntries),
+	);
+	return Object.entries(item.baseEntries)
+		.filter(([key, base]) => remote[key] !== base)
+		.map(([key]) => ({ key, remoteBlobId: remote[key] }));
+}
+
+/**
+ * Settle an item's conflicts by keeping one side
+ *
+ * @param item - Item stopped by a conflict
+ * @param choice - mine: overwrite the partitions; theirs: drop them from the item
+ * @returns Item ready to be replayed
+ */
+export function resolveOutboxConflicts(
+	item: OutboxItem,
+	choice: OutboxConflictChoice,
+): OutboxItem {
+	const conflicts = item.conflicts ?? [];
+	const keys = new Set(conflicts.map((conflict) => conflict.key));
+	const baseEntries = { ...item.baseEntries };
+
+	if (choice === "mine") {
+		// The current blobs become the base, so the save applies over them
+		for (const conflict of conflicts) {
+			baseEntries[conflict.key] = conflict.remoteBlobId;
+		}
+	} else {
+		for (const key of keys) {
+			delete baseEntries[key];
+		}
+	}
+
+	return {
+		...item,
+		partitions:
+			choice === "mine"
+				? item.partitions
+				: item.partitions.filter((partition) => !keys.has(partition.key)),
+		removedPartitions:
+			choice === "mine"
+				? item.removedPartitions
+				: item.removedPartitions.filter((key) => !keys.has(key)),
+		baseEntries,
+		conflicts: undefined,
+		metadataBlobId: undefined,
+		baseMetadataBlobId: undefined,
+		nextAttemptAt: 0,
+	};
+}
+
+// ==========================================
+// Replay
+// ==========================================
+
+/**
+ * Replay one outbox item until the SBT references its metadata
+ *
+ * Progress (uploaded blobs, metadata blob) is persisted after each step, so
+ * a failure at any point resumes without re-uploading finished work.
+ *
+ * @throws Error if any step fails; the item stays in the outbox
+ */
+export async function processOutboxItem(
+	item: OutboxItem,
+	deps: OutboxDeps,
+): Promise<void> {
+	let current: OutboxItem = {
+		...item,
+		partitions: item.partitions.map((partition) => ({ ...partition })),
+	};
+
+	// 1. Data blobs
+	for (const [index, partition] of current.partitions.entries()) {
+		if (partition.blob) {
+			continue;
+		}
+		if (!partition.payload) {
+			throw new Error(
+				`Outbox item ${current.id} has no payload for partition ${partition.key}`,
+			);
+		}
+
+		// The queued payload is a copy read back from the store
+		if (partition.backupKey) {
+			await restorePendingBackupKey(partition.payload, partition.backupKey);
+		}
+		if (partition.savedBytes) {
+			registerCompressionSavings(partition.payload, partition.savedBytes);
+		}
+		const ref = await deps.uploadBlob(partition.payload, current);
+		const partitions = [...current.partitions];
+		partitions[index] = {
+			key: partition.key,
+			entry: partition.entry,
+			blob: toEntryBlobFields(ref),
+		};
+		current = { ...current, partitions };
+		await deps.persist(current);
+	}
+
+	// 2. Metadata blob and SBT
+	for (let round = 0; round <= MAX_METADATA_REBUILDS; round++) {
+		let metadataBlobId = current.metadataBlobId;
+		if (!metadataBlobId) {
+			const loaded = await deps.loadMetadata(current);
+
+			const conflicts = findOutboxConflicts(
+				loaded?.metadata.entries ?? [],
+				current,
+			);
+			if (conflicts.length > 0) {
+				current = { ...current, conflicts };
+				await deps.persist(current);
+				throw new DataEntryConflictError(
+					current.dataType,
+					conflicts.map((conflict) => conflict.key),
+				);
+			}
+
+			const metadata: BaseMetadata<BaseMetadataEntry> = {
+				...(loaded?.metadata ?? createEmptyMetadata(current.dataType)),
+				updated_at: Date.now(),
+				entries: mergeOutboxEntries(loaded?.metadata.entries ?? [], current),
+			};
+
+			const ref = await deps.uploadBlob(
+				await deps.encryptMetadata(metadata, current),
+				current,
+			);
+			metadataBlobId = ref.blobId;
+			current = {
+				...current,
+				metadataBlobId,
+				baseMetadataBlobId: loaded?.metadataBlobId ?? null,
+			};
+			await deps.persist(current);
+		}
+
+		const onChain = await deps.getCurrentMetadataBlobId(current);
+		if (onChain === metadataBlobId) {
+			// Already applied by an earlier attempt
+			return;
+		}
+
+		if (onChain !== current.baseMetadataBlobId) {
+			console.warn(
+				`[Outbox] ${current.dataType} changed since item ${current.id} was built, rebuilding metadata`,
+			);
+			current = {
+				...current,
+				metadataBlobId: undefined,
+				baseMetadataBlobId: undefined,
+			};
+			await deps.persist(current);
+			continue;
+		}
+
+		try {
+			await deps.updatePassport(current, metadataBlobId, onChain !== null);
+		} catch (error) {
+			if (!(error instanceof DataEntryConflictError)) {
+				throw error;
+			}
+			// Another save landed between the check and the update
+			console.warn(
+				`[Outbox] ${current.dataType} changed while item ${current.id} was applied, rebuilding metadata`,
+			);
+			current = {
+				...current,
+				metadataBlobId: undefined,
+				baseMetadataBlobId: undefined,
+			};
+			await deps.persist(current);
+			continue;
+		}
+		return;
+	}
+
+	throw new Error(
+		`Failed to apply outbox item ${current.id}: ${current.dataType} kept changing`,
+	);
+}
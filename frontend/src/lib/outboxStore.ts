@@ -0,0 +1,104 @@
+/**
+ * Outbox Persistence (IndexedDB)
+ *
+ * Stores outbox items (lib/outbox.ts) so queued saves survive reloads and
+ * closed tabs. Payloads are Seal-encrypted before they reach the store;
+ * metadata entry fields (dates, clinic names, counts) are kept in plaintext
+ * until the item is applied, like the metadata itself before encryption.
+ */
+
+import type { OutboxItem } from "@/lib/outbox";
+
+// ==========================================
+// Constants
+// ==========================================
+
+const DB_NAME = "curepocket_outbox_v1";
+const DB_VERSION = 1;
+const STORE_NAME = "items";
+
+// ==========================================
+// Database
+// ==========================================
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Whether IndexedDB is available (false during SSR and in private modes
+ * that disable it)
+ */
+export function isOutboxStoreAvailable(): boolean {
+	return typeof indexedDB !== "undefined";
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+	if (!isOutboxStoreAvailable()) {
+		return Promise.reject(new Error("IndexedDB is not available"));
+	}
+
+	if (!dbPromise) {
+		dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+			const request = indexedDB.open(DB_NAME, DB_VERSION);
+			request.onupgradeneeded = () => {
+				const db = request.result;
+				if (!db.objectStoreNames.contains(STORE_NAME)) {
+					db.createObjectStore(STORE_NAME, { keyPath: "id" });
+				}
+			};
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error);
+		}).catch((error: unknown) => {
+			dbPromise = null;
+			throw new Error(
+				`Failed to open outbox database: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		});
+	}
+
+	return dbPromise;
+}
+
+async function runRequest<T>(
+	mode: IDBTransactionMode,
+	operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+	const db = await openDatabase();
+	return new Promise<T>((resolve, reject) => {
+		const transaction = db.transaction(STORE_NAME, mode);
+		const request = operation(transaction.objectStore(STORE_NAME));
+		transaction.oncomplete = () => resolve(request.result);
+		transaction.onerror = () => reject(transaction.error ?? request.error);
+		transaction.onabort = () => reject(transaction.error ?? request.error);
+	});
+}
+
+// ==========================================
+// Items
+// ==========================================
+
+/**
+ * List the queued items of an owner, oldest first
+ */
+export async function listOutboxItems(owner: string): Promise<OutboxItem[]> {
+	const items = await runRequest<OutboxItem[]>("readonly", (store) =>
+		store.getAll(),
+	);
+	const normalizedOwner = owner.toLowerCase();
+	return items
+		.filter((item) => item.owner === normalizedOwner)
+		.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Insert or replace an item (keyed by its idempotency key)
+ */
+export async function putOutboxItem(item: OutboxItem): Promise<void> {
+	await runRequest("readwrite", (store) => store.put(item));
+}
+
+/**
+ * Remove an item
+ */
+export async function deleteOutboxItem(id: string): Promise<void> {
+	await runRequest("readwrite", (store) => store.delete(id));
+}
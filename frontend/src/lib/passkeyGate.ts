@@ -0,0 +1,610 @@
+/**
+ * Passkey Gate (WebAuthn)
+ *
+ * Optional second factor in front of the owner's own records. Once a
+ * passkey is registered on this device, AppContext asks for it (device
+ * PIN / biometrics via WebAuthn) before it decrypts or shows a data type,
+ * independently of the wallet signature behind the Seal session key.
+ *
+ * Sensitivity per data type:
+ * - off: never asks
+ * - session: asks once, then trusts the verification for
+ *   PASSKEY_SESSION_MIN minutes
+ * - always: asks every time the data type is loaded
+ *
+ * The assertion is verified in the browser against the public key saved
+ * at registration (signature, challenge, origin, user verification flag).
+ * This keeps someone holding an unlocked wallet on a shared phone out of
+ * the record; it is not a server-enforced access control, which remains
+ * the Seal policy.
+ *
+ * Storage: localStorage, one JSON object per owner address.
+ */
+
+import { fromBase64, toBase64 } from "@mysten/bcs";
+import type { DataType } from "@/types/healthData";
+
+// ==========================================
+// Constants
+// ==========================================
+
+/**
+ * localStorage key prefix (owner address is appended)
+ */
+const PASSKEY_GATE_STORAGE_PREFIX = "curepocket_passkey_gate_v1:";
+
+/**
+ * Minutes a "session" verification stays valid
+ */
+export const PASSKEY_SESSION_MIN = 5;
+
+/**
+ * WebAuthn ceremony timeout
+ */
+const WEBAUTHN_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * COSE algorithm identifiers supported for verification
+ */
+const COSE_ES256 = -7;
+const COSE_RS256 = -257;
+
+/**
+ * Authenticator data flag: user verified (PIN / biometrics)
+ */
+const FLAG_USER_VERIFIED = 0x04;
+
+/**
+ * Default sensitivity of each data type
+ */
+const DEFAULT_SENSITIVITY: Record<DataType, PasskeySensitivity> = {
+	basic_profile: "session",
+	medications: "session",
+	lab_results: "session",
+	self_metrics: "session",
+	conditions: "always",
+	imaging_meta: "always",
+	imaging_binary: "always",
+};
+
+// ==========================================
+// Type Definitions
+// ==========================================
+
+/**
+ * When the passkey is asked for before a data type is shown
+ */
+export type PasskeySensitivity = "off" | "session" | "always";
+
+/**
+ * Passkey registered on this device
+ */
+export interface PasskeyGateConfig {
+	/** Owner wallet address (lowercased) */
+	owner: string;
+	/** base64 credential ID */
+	credentialId: string;
+	/** base64 SubjectPublicKeyInfo of the credential */
+	publicKey: string;
+	/** COSE algorithm of the credential (-7 ES256, -257 RS256) */
+	algorithm: number;
+	/** Sensitivity overrides per data type */
+	sensitivity: Partial<Record<DataType, PasskeySensitivity>>;
+	/** Registration time (Unix timestamp ms) */
+	createdAt: number;
+}
+
+/**
+ * Why the passkey check failed
+ * - unsupported: WebAuthn is not available in this browser
+ * - cancelled: the user dismissed the prompt or it timed out
+ * - invalid: the assertion did not verify
+ */
+export type PasskeyGateErrorReason = "unsupported" | "cancelled" | "invalid";
+
+/**
+ * Error for a failed passkey check
+ */
+export class PasskeyGateError extends Error {
+	constructor(
+		public readonly reason: PasskeyGateErrorReason,
+		message: string,
+	) {
+		super(`Passkey check failed: ${message}`);
+		this.name = "PasskeyGateError";
+	}
+}
+
+/**
+ * Assertion fields needed for verification
+ */
+export interface PasskeyAssertion {
+	authenticatorData: Uint8Array;
+	clientDataJSON: Uint8Array;
+	signature: Uint8Array;
+}
+
+// ==========================================
+// Sensitivity
+// ==========================================
+
+/**
+ * Sensitivity of a data type
+ *
+ * @param config - Registered passkey
+ * @param dataType - Data type
+ */
+export function getPasskeySensitivity(
+	config: PasskeyGateConfig,
+	dataType: DataType,
+): PasskeySensitivity {
+	return config.sensitivity[dataType] ?? DEFAULT_SENSITIVITY[dataType];
+}
+
+/**
+ * Data types that need a new passkey check before they are shown
+ *
+ * @param config - Registered passkey (null if none)
+ * @param dataTypes - Data types about to be shown
+ * @param lastVerifiedAt - Time of the last successful check (null if none)
+ * @param now - Current time in milliseconds
+ * @returns Data types whose sensitivity asks for the passkey now
+ */
+export function getPasskeyRequiredTypes(
+	config: PasskeyGateConfig | null,
+	dataTypes: DataType[],
+	lastVerifiedAt: number | null,
+	now: number = Date.now(),
+): DataType[] {
+	if (!config) {
+		return [];
+	}
+	const sessionValid =
+		lastVerifiedAt !== null &&
+		now - lastVerifiedAt < PASSKEY_SESSION_MIN * 60 * 1000;
+	return dataTypes.filter((dataType) => {
+		const sensitivity = getPasskeySensitivity(config, dataType);
+		return (
+			sensitivity === "always" || (sensitivity === "session" && !sessionValid)
+		);
+	});
+}
+
+// ==========================================
+// Assertion Verification
+// ==========================================
+
+/**
+ * Convert a DER encoded ECDSA signature to the raw r||s form WebCrypto expects
+ *
+ * @param der - ASN.1 SEQUENCE { INTEGER r, INTEGER s }
+ * @param size - Byte length of r and s (32 for P-256)
+ * @throws Error if the signature is not DER encoded
+ */
+export function derToRawEcdsaSignature(der: Uint8Array, size = 32): Uint8Array {
+	if (der[0] !== 0x30) {
+		throw new Error("Signature is not a DER sequence");
+	}
+	let offset = 2;
+	const raw = new Uint8Array(size * 2);
+	for (let i = 0; i < 2; i++) {
+		if (der[offset] !== 0x02) {
+			throw new Error("Signature is not a DER integer pair");
+		}
+		let length = der[offset + 1];
+		let start = offset + 2;
+		offset = start + length;
+		// Strip the sign padding byte of positive integers
+		while (length > size && der[start] === 0) {
+			start++;
+			length--;
+		}
+		if (length > size) {
+			throw new Error("Signature integer is too long");
+		}
+		raw.set(der.subarray(start, start + length), (i + 1) * size - length);
+	}
+	return raw;
+}
+
+/**
+ * Verify a WebAuthn assertion against the registered public key
+ *
+ * @param config - Registered passkey
+ * @param assertion - Authenticator response
+ * @param expected - Challenge sent and origin of this page
+ * @throws PasskeyGateError("invalid") if any check fails
+ */
+export async function verifyPasskeyAssertion(
+	config: Pick<PasskeyGateConfig, "publicKey" | "algorithm">,
+	assertion: PasskeyAssertion,
+	expected: { challenge: Uint8Array; origin: string },
+): Promise<void> {
+	let clientData: { type?: string; challenge?: string; origin?: string };
+	try {
+		clientData = JSON.parse(new TextDecoder().decode(assertion.clientDataJSON));
+	} catch {
+		throw new PasskeyGateError("invalid", "client data is not JSON");
+	}
+	if (clientData.type !== "webauthn.get") {
+		throw new PasskeyGateError("invalid", "unexpected ceremony type");
+	}
+	if (clientData.challenge !== toBase64Url(expected.challenge)) {
+		throw new PasskeyGateError("invalid", "challenge mismatch");
+	}
+	if (clientData.origin !== expected.origin) {
+		throw new PasskeyGateError("invalid", "origin mismatch");
+	}
+	// flags byte follows the 32-byte rpIdHash
+	if (
+		assertion.authenticatorData.length < 37 ||
+		!(assertion.authenticatorData[32] & FLAG_USER_VERIFIED)
+	) {
+		throw new PasskeyGateError("invalid", "user was not verified");
+	}
+
+	const clientDataHash = new Uint8Array(
+		await crypto.subtle.digest(
+			"SHA-256",
+			assertion.clientDataJSON as BufferSource,
+		),
+	);
+	const signedData = new Uint8Array(
+		assertion.authenticatorData.length + clientDataHash.length,
+	);
+	signedData.set(assertion.authenticatorData);
+	signedData.set(clientDataHash, assertion.authenticatorData.length);
+
+	let valid: boolean;
+	try {
+		if (config.algorithm === COSE_ES256) {
+			const key = await crypto.subtle.importKey(
+				"spki",
+				fromBase64(config.publicKey) as BufferSource,
+				{ name: "ECDSA", namedCurve: "P-256" },
+				false,
+				["verify"],
+			);
+			valid = await crypto.subtle.verify(
+				{ name: "ECDSA", hash: "SHA-256" },
+				key,
+				derToRawEcdsaSignature(assertion.signature) as BufferSource,
+				signedData,
+			);
+		} else if (config.algorithm === COSE_RS256) {
+			const key = await crypto.subtle.importKey(
+				"spki",
+				fromBase64(config.publicKey) as BufferSource,
+				{ name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+				false,
+				["verify"],
+			);
+			valid = await crypto.subtle.verify(
+				"RSASSA-PKCS1-v1_5",
+				key,
+				assertion.signature as BufferSource,
+				signedData,
+			);
+		} else {
+			throw new Error(`unsupported algorithm ${config.algorithm}`);
+		}
+	} catch (error) {
+		throw new PasskeyGateError(
+			"invalid",
+			error instanceof Error ? error.message : String(error),
+		);
+	}
+	if (!valid) {
+		throw new PasskeyGateError("invalid", "signature does not verify");
+	}
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+	return toBase64(bytes)
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_")
+		.replace(/=+$/, "");
+}
+
+// ==========================================
+// WebAuthn Ceremonies
+// ==========================================
+
+/**
+ * Whether this browser supports passkeys
+ */
+export function isPasskeySupported(): boolean {
+	return (
+		typeof window !== "undefined" &&
+		typeof window.PublicKeyCredential !== "undefined" &&
+		typeof navigator.credentials?.create === "function"
+	);
+}
+
+function toCancelledError(error: unknown): PasskeyGateError {
+	if (error instanceof PasskeyGateError) {
+		return error;
+	}
+	// NotAllowedError: dismissed, timed out or no matching credential
+	return new PasskeyGateError(
+		"cancelled",
+		error instanceof Error ? error.message : String(error),
+	);
+}
+
+/**
+ * Register a passkey for the owner on this device
+ *
+ * @param owner - Owner wallet address
+ * @param appName - Relying party name shown by the authenticator
+ * @returns Saved configuration (default sensitivity)
+ * @throws PasskeyGateError if WebAuthn is unavailable or the user cancels
+ */
+export async function registerPasskey(
+	owner: string,
+	appName: string,
+): Promise<PasskeyGateConfig> {
+	if (!isPasskeySupported()) {
+		throw new PasskeyGateError("unsupported", "WebAuthn is not available");
+	}
+
+	let credential: PublicKeyCredential | null;
+	try {
+		credential = (await navigator.credentials.create({
+			publicKey: {
+				challenge: crypto.getRandomValues(new Uint8Array(32)),
+				rp: { name: appName },
+				user: {
+					id: crypto.getRandomValues(new Uint8Array(16)),
+					name: `${owner.slice(0, 10)}...${owner.slice(-4)}`,
+					displayName: appName,
+				},
+				pubKeyCredParams: [
+					{ type: "public-key", alg: COSE_ES256 },
+					{ type: "public-key", alg: COSE_RS256 },
+				],
+				authenticatorSelection: {
+					userVerification: "required",
+					residentKey: "preferred",
+				},
+				timeout: WEBAUTHN_TIMEOUT_MS,
+			},
+		})) as PublicKeyCredential | null;
+	} catch (error) {
+		throw toCancelledError(error);
+	}
+
+	const response = credential?.response as
+		| AuthenticatorAttestationResponse
+		| undefined;
+	const publicKey = response?.getPublicKey?.();
+	if (!credential || !response || !publicKey) {
+		throw new PasskeyGateError(
+			"unsupported",
+			"the authenticator did not return a public key",
+		);
+	}
+
+	const config: PasskeyGateConfig = {
+		owner: owner.toLowerCase(),
+		credentialId: toBase64(new Uint8Array(credential.rawId)),
+		publicKey: toBase64(new Uint8Array(publicKey)),
+		algorithm: response.getPublicKeyAlgorithm(),
+		sensitivity: {},
+		createdAt: Date.now(),
+	};
+	savePasskeyGateConfig(config);
+	console.log("[PasskeyGate] Passkey registered");
+	return config;
+}
+
+/**
+ * Ask for the registered passkey and verify the assertion
+ *
+ * @throws PasskeyGateError if the user cancels or the assertion is invalid
+ */
+async function assertPasskey(config: PasskeyGateConfig): Promise<void> {
+	if (!isPasskeySupported()) {
+		throw new PasskeyGateError("unsupported", "WebAuthn is not available");
+	}
+
+	const challenge = crypto.getRandomValues(new Uint8Array(32));
+	let credential: PublicKeyCredential | null;
+	try {
+		credential = (await navigator.credentials.get({
+			publicKey: {
+				challenge,
+				allowCredentials: [
+					{
+						type: "public-key",
+						id: fromBase64(config.credentialId) as BufferSource,
+					},
+				],
+				userVerification: "required",
+				timeout: WEBAUTHN_TIMEOUT_MS,
+			},
+		})) as PublicKeyCredential | null;
+	} catch (error) {
+		throw toCancelledError(error);
+	}
+	if (!credential) {
+		throw new PasskeyGateError("cancelled", "no credential was returned");
+	}
+
+	const response = credential.response as AuthenticatorAssertionResponse;
+	await verifyPasskeyAssertion(
+		config,
+		{
+			authenticatorData: new Uint8Array(response.authenticatorData),
+			clientDataJSON: new Uint8Array(response.clientDataJSON),
+			signature: new Uint8Array(response.signature),
+		},
+		{ challenge, origin: window.location.origin },
+	);
+}
+
+// ==========================================
+// Gate
+// ==========================================
+
+/**
+ * Data types hidden because the passkey check failed
+ */
+export interface PasskeyGateState {
+	blocked: DataType[];
+}
+
+let state: PasskeyGateState = { blocked: [] };
+const listeners = new Set<() => void>();
+let lastVerified: { owner: string; at: number } | null = null;
+let pendingCheck: Promise<void> | null = null;
+
+function setState(next: PasskeyGateState): void {
+	// Keep the reference when nothing changed (AppContext reloads on change)
+	if (
+		next.blocked.length === state.blocked.length &&
+		next.blocked.every((dataType) => state.blocked.includes(dataType))
+	) {
+		return;
+	}
+	state = next;
+	for (const listener of listeners) {
+		listener();
+	}
+}
+
+/**
+ * Current gate state (stable reference until it changes)
+ */
+export function getPasskeyGateState(): PasskeyGateState {
+	return state;
+}
+
+/**
+ * Subscribe to gate state changes
+ *
+ * @returns Unsubscribe function
+ */
+export function onPasskeyGateChange(listener: () => void): () => void {
+	listeners.add(listener);
+	return () => {
+		listeners.delete(listener);
+	};
+}
+
+/**
+ * Ask for the passkey before data types are decrypted / shown
+ *
+ * Prompts at most once for the whole list, and concurrent calls share one
+ * prompt. If the check fails, the data types that needed it are recorded
+ * as blocked and left out of the result; the others can still be shown.
+ *
+ * @param owner - Owner wallet address
+ * @param dataTypes - Data types about to be decrypted / shown
+ * @returns Data types that may be shown now
+ */
+export async function checkPasskeyAccess(
+	owner: string,
+	dataTypes: DataType[],
+): Promise<DataType[]> {
+	const config = loadPasskeyGateConfig(owner);
+	const normalizedOwner = owner.toLowerCase();
+	const verifiedAt =
+		lastVerified?.owner === normalizedOwner ? lastVerified.at : null;
+	const required = getPasskeyRequiredTypes(config, dataTypes, verifiedAt);
+	if (!config || required.length === 0) {
+		return dataTypes;
+	}
+
+	if (!pendingCheck) {
+		console.log(`[PasskeyGate] Passkey required for ${required.join(", ")}`);
+		pendingCheck = assertPasskey(config)
+			.then(() => {
+				lastVerified = { owner: normalizedOwner, at: Date.now() };
+			})
+			.finally(() => {
+				pendingCheck = null;
+			});
+	}
+
+	try {
+		await pendingCheck;
+		setState({
+			blocked: state.blocked.filter(
+				(dataType) => !dataTypes.includes(dataType),
+			),
+		});
+		return dataTypes;
+	} catch (error) {
+		console.warn("[PasskeyGate] Records stay hidden:", error);
+		setState({
+			blocked: [
+				...state.blocked.filter((dataType) => !required.includes(dataType)),
+				...required,
+			],
+		});
+		return dataTypes.filter((dataType) => !required.includes(dataType));
+	}
+}
+
+/**
+ * Clear the blocked data types so the next load asks for the passkey again
+ */
+export function retryPasskeyAccess(): void {
+	setState({ blocked: [] });
+}
+
+/**
+ * Forget the last verification (the next "session" data type asks again)
+ */
+export function resetPasskeyVerification(): void {
+	lastVerified = null;
+	setState({ blocked: [] });
+}
+
+// ==========================================
+// Persistence
+// ==========================================
+
+function storageKey(owner: string): string {
+	return `${PASSKEY_GATE_STORAGE_PREFIX}${owner.toLowerCase()}`;
+}
+
+/**
+ * Load the passkey registered for an owner on this device
+ *
+ * @returns Configuration, or null if none (or outside the browser)
+ */
+export function loadPasskeyGateConfig(owner: string): PasskeyGateConfig | null {
+	if (typeof window === "undefined") {
+		return null;
+	}
+	const stored = localStorage.getItem(storageKey(owner));
+	if (!stored) {
+		return null;
+	}
+	try {
+		return JSON.parse(stored) as PasskeyGateConfig;
+	} catch (error) {
+		console.warn("[PasskeyGate] Corrupted passkey configuration", error);
+		return null;
+	}
+}
+
+/**
+ * Save the passkey configuration of an owner
+ */
+export function savePasskeyGateConfig(config: PasskeyGateConfig): void {
+	localStorage.setItem(storageKey(config.owner), JSON.stringify(config));
+}
+
+/**
+ * Remove the passkey of an owner (the gate is turned off)
+ */
+export function removePasskeyGateConfig(owner: string): void {
+	if (typeof window === "undefined") {
+		return;
+	}
+	localStorage.removeItem(storageKey(owner));
+	resetPasskeyVerification();
+}
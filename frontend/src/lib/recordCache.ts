@@ -0,0 +1,706 @@
+/**
+ * Encrypted Record Cache (IndexedDB)
+ *
+ * Keeps the decrypted domain objects of each data type (profile,
+ * medications, lab results, ...) on this device so that an app load does
+ * not have to download and Seal-decrypt everything again, or ask for a
+ * wallet signature, while the passport is unchanged.
+ *
+ * Encryption at rest:
+ * - A random 256-bit data key encrypts every cache entry (AES-256-GCM).
+ *   The entry ID and the EntryData.updatedAt it was cached for are bound
+ *   as additional data, so entries cannot be swapped between types.
+ * - The data key is stored only wrapped under a key derived from the
+ *   user's PIN (PBKDF2-SHA256). A PIN is a short secret: the wrapping
+ *   keeps the records from being read off the disk as-is, it does not
+ *   stop an offline guessing attack on a copied database.
+ * - The unwrapped data key lives in memory only (non-extractable) and is
+ *   dropped after an idle period (auto-lock) or when the session is ended.
+ *
+ * Invalidation: an entry is used only if it was cached for the current
+ * EntryData.updatedAt of its data type; any save moves updatedAt on-chain.
+ */
+
+import { fromBase64, toBase64 } from "@mysten/bcs";
+import type { DataType } from "@/types/healthData";
+
+// ==========================================
+// Constants
+// ==========================================
+
+const DB_NAME = "curepocket_record_cache_v1";
+const DB_VERSION = 1;
+const ENTRY_STORE = "entries";
+const LOCK_STORE = "locks";
+
+/**
+ * localStorage key of the per-device auto-lock preference (minutes)
+ */
+const AUTO_LOCK_STORAGE = "curepocket_record_cache_autolock_v1";
+
+/**
+ * Minimum PIN length (digits)
+ */
+export const MIN_RECORD_CACHE_PIN_LENGTH = 6;
+
+/**
+ * PBKDF2-SHA256 iterations for new PIN wraps (OWASP 2023 recommendation)
+ */
+const DEFAULT_PBKDF2_ITERATIONS = 600_000;
+
+/**
+ * Auto-lock choices offered in settings (minutes)
+ */
+export const RECORD_CACHE_AUTO_LOCK_OPTIONS_MIN = [1, 5, 15, 30] as const;
+
+/**
+ * Default idle time before the cache locks (minutes)
+ */
+export const DEFAULT_RECORD_CACHE_AUTO_LOCK_MIN = 5;
+
+// ==========================================
+// Type Definitions
+// ==========================================
+
+/**
+ * Data key wrapped under a PIN
+ */
+export interface PinWrappedKey {
+	kdf: {
+		name: "PBKDF2";
+		hash: "SHA-256";
+		iterations: number;
+		/** base64 salt */
+		salt: string;
+	};
+	/** base64 AES-GCM IV */
+	iv: string;
+	/** base64 AES-GCM ciphertext of the raw data key */
+	wrappedKey: string;
+}
+
+/**
+ * Persisted lock of an owner's cache
+ */
+export interface RecordCacheLock {
+	/** Owner wallet address (lowercased) */
+	owner: string;
+	/** Data key wrapped under each unlock method */
+	wrappedKeys: {
+		pin: PinWrappedKey;
+	};
+	/** Creation time (Unix timestamp ms) */
+	createdAt: number;
+}
+
+/**
+ * Encrypted cache entry of one data type
+ */
+export interface RecordCacheEntry {
+	/** `${owner}:${dataType}` */
+	id: string;
+	/** Owner wallet address (lowercased) */
+	owner: string;
+	/** Cached data type */
+	dataType: DataType;
+	/** EntryData.updatedAt the value was cached for */
+	entryUpdatedAt: number;
+	/** AES-GCM IV */
+	iv: Uint8Array;
+	/** AES-GCM ciphertext of the JSON value */
+	ciphertext: Uint8Array;
+	/** Cache time (Unix timestamp ms) */
+	cachedAt: number;
+}
+
+/**
+ * Cache state of the connected owner
+ * - unknown: not read from IndexedDB yet
+ * - disabled: no PIN set up (or IndexedDB unavailable)
+ * - locked: PIN set up, data key not in memory
+ * - unlocked: data key in memory, entries can be read and written
+ */
+export type RecordCacheStatus = "unknown" | "disabled" | "locked" | "unlocked";
+
+/**
+ * Shared cache state (replaced, never mutated, on every change)
+ */
+export interface RecordCacheState {
+	/** Owner the status refers to (lowercased, null before the first load) */
+	owner: string | null;
+	/** Lock status */
+	status: RecordCacheStatus;
+}
+
+type RecordCacheListener = (state: RecordCacheState) => void;
+
+// ==========================================
+// Data Key Wrapping
+// ==========================================
+
+async function derivePinKey(
+	pin: string,
+	salt: Uint8Array,
+	iterations: number,
+): Promise<CryptoKey> {
+	const material = await crypto.subtle.importKey(
+		"raw",
+		new TextEncoder().encode(pin),
+		"PBKDF2",
+		false,
+		["deriveKey"],
+	);
+	return crypto.subtle.deriveKey(
+		{
+			name: "PBKDF2",
+			hash: "SHA-256",
+			salt: salt as BufferSource,
+			iterations,
+		},
+		material,
+		{ name: "AES-GCM", length: 256 },
+		false,
+		["encrypt", "decrypt"],
+	);
+}
+
+function importDataKey(raw: Uint8Array): Promise<CryptoKey> {
+	return crypto.subtle.importKey(
+		"raw",
+		raw as BufferSource,
+		{ name: "AES-GCM" },
+		false,
+		["encrypt", "decrypt"],
+	);
+}
+
+/**
+ * Check that a PIN can be used to lock the cache
+ *
+ * @throws Error if the PIN is not at least MIN_RECORD_CACHE_PIN_LENGTH digits
+ */
+export function validateRecordCachePin(pin: string): void {
+	if (!/^\d+$/.test(pin) || pin.length < MIN_RECORD_CACHE_PIN_LENGTH) {
+		throw new Error(
+			`PIN must be at least ${MIN_RECORD_CACHE_PIN_LENGTH} digits`,
+		);
+	}
+}
+
+/**
+ * Create a new data key and wrap it under a PIN
+ *
+ * @param pin - User PIN
+ * @param iterations - PBKDF2 iterations (lower only in tests)
+ * @returns Data key for this page and its PIN wrap to persist
+ * @throws Error if the PIN is too short
+ */
+export async function createPinWrappedKey(
+	pin: string,
+	iterations: number = DEFAULT_PBKDF2_ITERATIONS,
+): Promise<{ dataKey: CryptoKey; wrapped: PinWrappedKey }> {
+	validateRecordCachePin(pin);
+
+	const raw = crypto.getRandomValues(new Uint8Array(32));
+	const salt = crypto.getRandomValues(new Uint8Array(16));
+	const iv = crypto.getRandomValues(new Uint8Array(12));
+	const pinKey = await derivePinKey(pin, salt, iterations);
+	const wrappedKey = await crypto.subtle.encrypt(
+		{ name: "AES-GCM", iv },
+		pinKey,
+		raw,
+	);
+	const dataKey = await importDataKey(raw);
+	raw.fill(0);
+
+	return {
+		dataKey,
+		wrapped: {
+			kdf: {
+				name: "PBKDF2",
+				hash: "SHA-256",
+				iterations,
+				salt: toBase64(salt),
+			},
+			iv: toBase64(iv),
+			wrappedKey: toBase64(new Uint8Array(wrappedKey)),
+		},
+	};
+}
+
+/**
+ * Unwrap the data key with the PIN
+ *
+ * @throws Error if the PIN is wrong
+ */
+export async function unwrapPinWrappedKey(
+	wrapped: PinWrappedKey,
+	pin: string,
+): Promise<CryptoKey> {
+	const pinKey = await derivePinKey(
+		pin,
+		fromBase64(wrapped.kdf.salt),
+		wrapped.kdf.iterations,
+	);
+
+	let raw: Uint8Array;
+	try {
+		raw = new Uint8Array(
+			await crypto.subtle.decrypt(
+				{ name: "AES-GCM", iv: fromBase64(wrapped.iv) as BufferSource },
+				pinKey,
+				fromBase64(wrapped.wrappedKey) as BufferSource,
+			),
+		);
+	} catch {
+		throw new Error("Failed to unlock record cache: wrong PIN");
+	}
+
+	const dataKey = await importDataKey(raw);
+	raw.fill(0);
+	return dataKey;
+}
+
+// ==========================================
+// Entry Encryption
+// ==========================================
+
+function entryId(owner: string, dataType: DataType): string {
+	return `${owner.toLowerCase()}:${dataType}`;
+}
+
+function entryAdditionalData(id: string, entryUpdatedAt: number): Uint8Array {
+	return new TextEncoder().encode(`${id}:${entryUpdatedAt}`);
+}
+
+/**
+ * Encrypt a decrypted value for the cache
+ *
+ * @param dataKey - Unlocked data key
+ * @param params - Owner, data type, EntryData.updatedAt and the value (JSON-serializable)
+ * @returns Entry to store
+ */
+export async function encryptRecordCacheEntry(
+	dataKey: CryptoKey,
+	params: {
+		owner: string;
+		dataType: DataType;
+		entryUpdatedAt: number;
+		value: unknown;
+		now?: number;
+	},
+): Promise<RecordCacheEntry> {
+	const id = entryId(params.owner, params.dataType);
+	const iv = crypto.getRandomValues(new Uint8Array(12));
+	const ciphertext = await crypto.subtle.encrypt(
+		{
+			name: "AES-GCM",
+			iv,
+			additionalData: entryAdditionalData(
+				id,
+				params.entryUpdatedAt,
+			) as BufferSource,
+		},
+		dataKey,
+		new TextEncoder().encode(JSON.stringify(params.value)),
+	);
+
+	return {
+		id,
+		owner: params.owner.toLowerCase(),
+		dataType: params.dataType,
+		entryUpdatedAt: params.entryUpdatedAt,
+		iv,
+		ciphertext: new Uint8Array(ciphertext),
+		cachedAt: params.now ?? Date.now(),
+	};
+}
+
+/**
+ * Decrypt a cache entry
+ *
+ * @throws Error if the entry was encrypted under another key or altered
+ */
+export async function decryptRecordCacheEntry<T>(
+	dataKey: CryptoKey,
+	entry: RecordCacheEntry,
+): Promise<T> {
+	let plaintext: ArrayBuffer;
+	try {
+		plaintext = await crypto.subtle.decrypt(
+			{
+				name: "AES-GCM",
+				iv: entry.iv as BufferSource,
+				additionalData: entryAdditionalData(
+					entry.id,
+					entry.entryUpdatedAt,
+				) as BufferSource,
+			},
+			dataKey,
+			entry.ciphertext as BufferSource,
+		);
+	} catch {
+		throw new Error(
+			`Failed to decrypt cached ${entry.dataType}: wrong key or damaged entry`,
+		);
+	}
+	return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+}
+
+/**
+ * Whether a cache entry still matches the on-chain EntryData
+ *
+ * @param entry - Cache entry
+ * @param entryUpdatedAt - Current EntryData.updatedAt of the data type
+ */
+export function isRecordCacheEntryCurrent(
+	entry: RecordCacheEntry,
+	entryUpdatedAt: number,
+): boolean {
+	return entry.entryUpdatedAt === entryUpdatedAt;
+}
+
+// ==========================================
+// Database
+// ==========================================
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Whether IndexedDB is available (false during SSR and in private modes
+ * that disable it)
+ */
+export function isRecordCacheAvailable(): boolean {
+	return typeof indexedDB !== "undefined";
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+	if (!isRecordCacheAvailable()) {
+		return Promise.reject(new Error("IndexedDB is not available"));
+	}
+
+	if (!dbPromise) {
+		dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+			const request = indexedDB.open(DB_NAME, DB_VERSION);
+			request.onupgradeneeded = () => {
+				const db = request.result;
+				if (!db.objectStoreNames.contains(ENTRY_STORE)) {
+					db.createObjectStore(ENTRY_STORE, { keyPath: "id" });
+				}
+				if (!db.objectStoreNames.contains(LOCK_STORE)) {
+					db.createObjectStore(LOCK_STORE, { keyPath: "owner" });
+				}
+			};
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error);
+		}).catch((error: unknown) => {
+			dbPromise = null;
+			throw new Error(
+				`Failed to open record cache database: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		});
+	}
+
+	return dbPromise;
+}
+
+async function runRequest<T>(
+	storeName: string,
+	mode: IDBTransactionMode,
+	operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+	const db = await openDatabase();
+	return new Promise<T>((resolve, reject) => {
+		const transaction = db.transaction(storeName, mode);
+		const request = operation(transaction.objectStore(storeName));
+		transaction.oncomplete = () => resolve(request.result);
+		transaction.onerror = () => reject(transaction.error ?? request.error);
+		transaction.onabort = () => reject(transaction.error ?? request.error);
+	});
+}
+
+async function readLock(owner: string): Promise<RecordCacheLock | null> {
+	const lock = await runRequest<RecordCacheLock | undefined>(
+		LOCK_STORE,
+		"readonly",
+		(store) => store.get(owner.toLowerCase()),
+	);
+	return lock ?? null;
+}
+
+// ==========================================
+// Lock State
+// ==========================================
+
+let state: RecordCacheState = { owner: null, status: "unknown" };
+let unlockedKey: { owner: string; key: CryptoKey } | null = null;
+let autoLockTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<RecordCacheListener>();
+
+function setState(owner: string, status: RecordCacheStatus): void {
+	state = { owner, status };
+	for (const listener of listeners) {
+		listener(state);
+	}
+}
+
+function clearAutoLockTimer(): void {
+	if (autoLockTimer) {
+		clearTimeout(autoLockTimer);
+		autoLockTimer = null;
+	}
+}
+
+/**
+ * Current shared state
+ */
+export function getRecordCacheState(): RecordCacheState {
+	return state;
+}
+
+/**
+ * Subscribe to lock state changes
+ *
+ * @returns Unsubscribe function
+ */
+export function onRecordCacheChange(listener: RecordCacheListener): () => void {
+	listeners.add(listener);
+	return () => {
+		listeners.delete(listener);
+	};
+}
+
+/**
+ * Read whether the owner has set up the cache (updates the shared state)
+ *
+ * @param owner - Connected wallet address
+ * @returns Status of the owner's cache
+ */
+export async function loadRecordCacheStatus(
+	owner: string,
+): Promise<RecordCacheStatus> {
+	const normalizedOwner = owner.toLowerCase();
+	if (unlockedKey?.owner === normalizedOwner) {
+		setState(normalizedOwner, "unlocked");
+		return "unlocked";
+	}
+	let status: RecordCacheStatus = "disabled";
+	if (isRecordCacheAvailable()) {
+		try {
+			status = (await readLock(normalizedOwner)) ? "locked" : "disabled";
+		} catch (error) {
+			console.warn("[RecordCache] Could not read cache lock:", error);
+		}
+	}
+	setState(normalizedOwner, status);
+	return status;
+}
+
+/**
+ * Idle time before the cache locks on this device (minutes)
+ */
+export function getRecordCacheAutoLockMin(): number {
+	if (typeof window === "undefined") {
+		return DEFAULT_RECORD_CACHE_AUTO_LOCK_MIN;
+	}
+	const stored = Number(localStorage.getItem(AUTO_LOCK_STORAGE));
+	return Number.isFinite(stored) && stored > 0
+		? stored
+		: DEFAULT_RECORD_CACHE_AUTO_LOCK_MIN;
+}
+
+/**
+ * Save the idle time before the cache locks on this device
+ */
+export function setRecordCacheAutoLockMin(minutes: number): void {
+	localStorage.setItem(AUTO_LOCK_STORAGE, String(minutes));
+	touchRecordCache();
+}
+
+/**
+ * Restart the auto-lock timer (call on user activity)
+ */
+export function touchRecordCache(): void {
+	if (!unlockedKey) {
+		return;
+	}
+	clearAutoLockTimer();
+	autoLockTimer = setTimeout(
+		() => {
+			console.log("[RecordCache] Auto-locked after inactivity");
+			lockRecordCache();
+		},
+		getRecordCacheAutoLockMin() * 60 * 1000,
+	);
+}
+
+/**
+ * Drop the data key from memory
+ */
+export function lockRecordCache(): void {
+	clearAutoLockTimer();
+	const owner = unlockedKey?.owner ?? state.owner;
+	unlockedKey = null;
+	if (owner && state.status === "unlocked") {
+		setState(owner, "locked");
+	}
+}
+
+/**
+ * Set up the cache for an owner with a PIN (replaces any previous cache)
+ *
+ * @param owner - Connected wallet address
+ * @param pin - New PIN (at least MIN_RECORD_CACHE_PIN_LENGTH digits)
+ * @throws Error if the PIN is too short or IndexedDB is unavailable
+ */
+export async function setupRecordCache(
+	owner: string,
+	pin: string,
+): Promise<void> {
+	const normalizedOwner = owner.toLowerCase();
+	const { dataKey, wrapped } = await createPinWrappedKey(pin);
+
+	await clearRecordCacheEntries(normalizedOwner);
+	const lock: RecordCacheLock = {
+		owner: normalizedOwner,
+		wrappedKeys: { pin: wrapped },
+		createdAt: Date.now(),
+	};
+	await runRequest(LOCK_STORE, "readwrite", (store) => store.put(lock));
+
+	unlockedKey = { owner: normalizedOwner, key: dataKey };
+	setState(normalizedOwner, "unlocked");
+	touchRecordCache();
+	console.log("[RecordCache] Cache set up");
+}
+
+/**
+ * Unlock the owner's cache with the PIN
+ *
+ * @throws Error if no cache is set up or the PIN is wrong
+ */
+export async function unlockRecordCache(
+	owner: string,
+	pin: string,
+): Promise<void> {
+	const normalizedOwner = owner.toLowerCase();
+	const lock = await readLock(normalizedOwner);
+	if (!lock) {
+		throw new Error("Failed to unlock record cache: no cache set up");
+	}
+
+	const key = await unwrapPinWrappedKey(lock.wrappedKeys.pin, pin);
+	unlockedKey = { owner: normalizedOwner, key };
+	setState(normalizedOwner, "unlocked");
+	touchRecordCache();
+}
+
+/**
+ * Remove the owner's cache and its lock (turn the cache off / forgotten PIN)
+ */
+export async function resetRecordCache(owner: string): Promise<void> {
+	const normalizedOwner = owner.toLowerCase();
+	if (unlockedKey?.owner === normalizedOwner) {
+		clearAutoLockTimer();
+		unlockedKey = null;
+	}
+	await clearRecordCacheEntries(normalizedOwner);
+	await runRequest(LOCK_STORE, "readwrite", (store) =>
+		store.delete(normalizedOwner),
+	);
+	setState(normalizedOwner, "disabled");
+}
+
+// ==========================================
+// Entries
+// ==========================================
+
+async function clearRecordCacheEntries(owner: string): Promise<void> {
+	const entries = await runRequest<RecordCacheEntry[]>(
+		ENTRY_STORE,
+		"readonly",
+		(store) => store.getAll(),
+	);
+	for (const entry of entries) {
+		if (entry.owner === owner) {
+			await runRequest(ENTRY_STORE, "readwrite", (store) =>
+				store.delete(entry.id),
+			);
+		}
+	}
+}
+
+function keyFor(owner: string): CryptoKey | null {
+	return unlockedKey?.owner === owner.toLowerCase() ? unlockedKey.key : null;
+}
+
+/**
+ * Whether the owner's cache is unlocked in this page
+ */
+export function isRecordCacheUnlocked(owner: string): boolean {
+	return keyFor(owner) !== null;
+}
+
+/**
+ * Read the cached value of a data type
+ *
+ * @param owner - Owner wallet address
+ * @param dataType - Data type
+ * @param entryUpdatedAt - Current EntryData.updatedAt of the data type
+ * @returns Cached value, or null if locked, missing, outdated or unreadable
+ */
+export async function readRecordCache<T>(
+	owner: string,
+	dataType: DataType,
+	entryUpdatedAt: number,
+): Promise<T | null> {
+	const key = keyFor(owner);
+	if (!key) {
+		return null;
+	}
+	try {
+		const entry = await runRequest<RecordCacheEntry | undefined>(
+			ENTRY_STORE,
+			"readonly",
+			(store) => store.get(entryId(owner, dataType)),
+		);
+		if (!entry || !isRecordCacheEntryCurrent(entry, entryUpdatedAt)) {
+			return null;
+		}
+		return await decryptRecordCacheEntry<T>(key, entry);
+	} catch (error) {
+		console.warn(`[RecordCache] Could not read cached ${dataType}:`, error);
+		return null;
+	}
+}
+
+/**
+ * Cache the decrypted value of a data type (no-op while locked)
+ *
+ * @param owner - Owner wallet address
+ * @param dataType - Data type
+ * @param entryUpdatedAt - EntryData.updatedAt the value was loaded for
+ * @param value - Decrypted domain objects (JSON-serializable)
+ */
+export async function writeRecordCache(
+	owner: string,
+	dataType: DataType,
+	entryUpdatedAt: number,
+	value: unknown,
+): Promise<void> {
+	const key = keyFor(owner);
+	if (!key) {
+		return;
+	}
+	try {
+		const entry = await encryptRecordCacheEntry(key, {
+			owner,
+			dataType,
+			entryUpdatedAt,
+			value,
+		});
+		await runRequest(ENTRY_STORE, "readwrite", (store) => store.put(entry));
+	} catch (error) {
+		console.warn(`[RecordCache] Could not cache ${dataType}:`, error);
+	}
+}
@@ -0,0 +1,385 @@
+/**
+ * Record Import
+ *
+ * Imports a HealthData bundle (the single-file format written by
+ * profileToHealthData) into the passport with one signature. The bundle is
+ * split into data types and partitions the way the add pages store them:
+ * - basic_profile: profile and allergies (single blob, replaced)
+ * - conditions: single blob
+ * - medications: one partition per prescription (start_date + prescriber)
+ * - lab_results: one partition per test date
+ *
+ * A partition already in the metadata keeps its saved records: the imported
+ * records are merged in by record id, so importing the same bundle twice
+ * changes nothing. Every data type's EntryData write goes into one
+ * DataEntryBatch (lib/dataEntryBatch.ts), and each replace is a
+ * compare-and-swap on the metadata blob it was built from.
+ *
+ * Imaging studies are not imported: the bundle holds no image binaries.
+ */
+
+import {
+	addDataEntryWrite,
+	createDataEntryBatch,
+	type DataEntryBatch,
+} from "@/lib/dataEntryBatch";
+import { getPartitionKey, SINGLE_BLOB_PARTITION_KEY } from "@/lib/outbox";
+import { toEntryBlobFields } from "@/lib/walrus";
+import type {
+	Condition,
+	DataType,
+	LabResult,
+	Medication,
+	MetaData,
+	WalrusBlobReference,
+} from "@/types/healthData";
+import {
+	type BaseMetadata,
+	type BaseMetadataEntry,
+	createEmptyMetadata,
+} from "@/types/metadata";
+
+// ==========================================
+// Types
+// ==========================================
+
+/**
+ * Records of one partition
+ */
+export interface RecordImportPartition {
+	/** Partition key value (SINGLE_BLOB_PARTITION_KEY for single-blob types) */
+	key: string;
+	/** Data blob content */
+	data: Record<string, unknown>;
+	/** Metadata entry fields other than the blob reference and counts */
+	entry: Record<string, unknown>;
+}
+
+/**
+ * Records of one data type
+ */
+export interface RecordImportDataType {
+	dataType: DataType;
+	/** Metadata entry field holding the partition key (null = single blob) */
+	partitionField: string | null;
+	/** Data blob field whose records merge by id (null = replaced as a whole) */
+	recordsField: string | null;
+	partitions: RecordImportPartition[];
+}
+
+/**
+ * Network and chain operations used by an import
+ */
+export interface RecordImportDeps {
+	/** Load the current metadata (null = the data type has no SBT entry) */
+	loadMetadata: (dataType: DataType) => Promise<{
+		metadataBlobId: string;
+		metadata: BaseMetadata<BaseMetadataEntry>;
+	} | null>;
+	/** Download and decrypt the data blob of a metadata entry */
+	loadDataBlob: (
+		entry: BaseMetadataEntry,
+		dataType: DataType,
+	) => Promise<Record<string, unknown>>;
+	/**
+	 * Encrypt and upload a blob under the data type's seal_id, or under
+	 * sealId when the entry has its own
+	 */
+	uploadBlob: (
+		data: object,
+		dataType: DataType,
+		sealId?: string,
+	) => Promise<WalrusBlobReference>;
+	/** Sign the batch once */
+	commit: (batch: DataEntryBatch) => Promise<void>;
+}
+
+// ==========================================
+// Errors
+// ==========================================
+
+/**
+ * The import file is not a usable HealthData bundle
+ */
+export class RecordImportError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "RecordImportError";
+	}
+}
+
+// ==========================================
+// Parsing
+// ==========================================
+
+function createMetaData(): MetaData {
+	return {
+		schema_version: "2.0.0",
+		updated_at: Date.now(),
+		generator: "CurePocket_Web_v1",
+	};
+}
+
+/**
+ * Records of a bundle field, each with a string id
+ */
+function readRecords<T extends { id: string }>(
+	bundle: Record<string, unknown>,
+	field: string,
+): T[] {
+	const records = bundle[field];
+	if (records === undefined) {
+		return [];
+	}
+	if (!Array.isArray(records)) {
+		throw new RecordImportError(`${field} is not a list`);
+	}
+	records.forEach((record, index) => {
+		if (typeof record?.id !== "string" || !record.id) {
+			throw new RecordImportError(`${field}[${index}] has no id`);
+		}
+	});
+	return records as T[];
+}
+
+/**
+ * Group records by a key, keeping first-seen order
+ */
+function groupBy<T>(records: T[], keyOf: (record: T) => string): T[][] {
+	const groups = new Map<string, T[]>();
+	for (const record of records) {
+		const key = keyOf(record);
+		groups.set(key, [...(groups.get(key) ?? []), record]);
+	}
+	return [...groups.values()];
+}
+
+/**
+ * Split a HealthData bundle into data types and partitions
+ *
+ * @param bundle - Parsed JSON of the import file
+ * @returns Data types with records, in save order
+ * @throws RecordImportError if the bundle is malformed or has no records
+ */
+export function parseHealthDataBundle(bundle: unknown): RecordImportDataType[] {
+	if (typeof bundle !== "object" || bundle === null || Array.isArray(bundle)) {
+		throw new RecordImportError("Import file is not a HealthData bundle");
+	}
+	const source = bundle as Record<string, unknown>;
+	const dataTypes: RecordImportDataType[] = [];
+
+	if (typeof source.profile === "object" && source.profile !== null) {
+		dataTypes.push({
+			dataType: "basic_profile",
+			partitionField: null,
+			recordsField: null,
+			partitions: [
+				{
+					key: SINGLE_BLOB_PARTITION_KEY,
+					data: {
+						meta: createMetaData(),
+						profile: source.profile,
+						allergies: Array.isArray(source.allergies) ? source.allergies : [],
+					},
+					entry: {},
+				},
+			],
+		});
+	}
+
+	const conditions = readRecords<Condition>(source, "conditions");
+	if (conditions.length > 0) {
+		dataTypes.push({
+			dataType: "conditions",
+			partitionField: null,
+			recordsField: "conditions",
+			partitions: [
+				{
+					key: SINGLE_BLOB_PARTITION_KEY,
+					data: { meta: createMetaData(), conditions },
+					entry: {},
+				},
+			],
+		});
+	}
+
+	const medications = readRecords<Medication>(source, "medications");
+	if (medications.length > 0) {
+		dataTypes.push({
+			dataType: "medications",
+			partitionField: "prescription_id",
+			recordsField: "medications",
+			// 同じ日・同じ処方元の薬剤を1つの処方箋とみなす（キーは先頭薬剤のIDで固定）
+			partitions: groupBy(
+				medications,
+				(medication) =>
+					`${medication.start_date}\u0000${medication.prescriber ?? ""}`,
+			).map((group) => ({
+				key: `prescription-${group[0].id}`,
+				data: { meta: createMetaData(), medications: group },
+				entry: {
+					prescription_date: group[0].start_date,
+					clinic: group[0].prescriber ?? "",
+				},
+			})),
+		});
+	}
+
+	const labResults = readRecords<LabResult>(source, "lab_results");
+	if (labResults.length > 0) {
+		dataTypes.push({
+			dataType: "lab_results",
+			partitionField: "test_date",
+			recordsField: "lab_results",
+			partitions: groupBy(labResults, (result) => result.date).map((group) => ({
+				key: group[0].date,
+				data: { meta: createMetaData(), lab_results: group },
+				entry: { facility: "" },
+			})),
+		});
+	}
+
+	if (dataTypes.length === 0) {
+		throw new RecordImportError("Import file has no records");
+	}
+	return dataTypes;
+}
+
+// ==========================================
+// Import
+// ==========================================
+
+/**
+ * Count fields of a data type's metadata entry
+ */
+function getEntryCounts(
+	dataType: DataType,
+	data: Record<string, unknown>,
+): Record<string, number> {
+	switch (dataType) {
+		case "conditions":
+			return { condition_count: (data.conditions as Condition[]).length };
+		case "medications":
+			return { medication_count: (data.medications as Medication[]).length };
+		case "lab_results":
+			return {
+				test_count: (data.lab_results as LabResult[]).reduce(
+					(sum, result) => sum + result.items.length,
+					0,
+				),
+			};
+		default:
+			return {};
+	}
+}
+
+/**
+ * Merge records by id: saved order is kept, imported records replace saved
+ * ones with the same id and the rest are appended
+ */
+function mergeRecords(saved: unknown, imported: unknown): unknown[] {
+	const incoming = new Map(
+		(imported as Array<{ id: string }>).map((record) => [record.id, record]),
+	);
+	const merged = (Array.isArray(saved) ? saved : []).map((record) => {
+		const replacement = incoming.get(record?.id);
+		incoming.delete(record?.id);
+		return replacement ?? record;
+	});
+	return [...merged, ...incoming.values()];
+}
+
+/**
+ * Fields of a saved entry other than its blob reference
+ */
+function getSavedEntryFields(
+	entry: BaseMetadataEntry,
+): Record<string, unknown> {
+	const {
+		blob_id: _blobId,
+		end_epoch: _endEpoch,
+		chunk_manifest: _chunkManifest,
+		sha256: _sha256,
+		size: _size,
+		...fields
+	} = entry;
+	return fields;
+}
+
+/**
+ * Upload the records of each data type and sign all SBT updates at once
+ *
+ * Nothing is written to the SBT until every blob is uploaded; a failure
+ * before the commit leaves the passport unchanged (the uploaded blobs are
+ * left for blob GC).
+ *
+ * @param passportId - MedicalPassport object ID
+ * @param dataTypes - Records from parseHealthDataBundle
+ * @param deps - Network and chain operations
+ * @returns The committed batch
+ * @throws DataEntryConflictError if a data type changed during the import
+ */
+export async function importRecords(
+	passportId: string,
+	dataTypes: RecordImportDataType[],
+	deps: RecordImportDeps,
+): Promise<DataEntryBatch> {
+	let batch = createDataEntryBatch(passportId);
+
+	for (const imported of dataTypes) {
+		const { dataType, partitionField, recordsField } = imported;
+		const loaded = await deps.loadMetadata(dataType);
+		const entries = [...(loaded?.metadata.entries ?? [])];
+
+		for (const partition of imported.partitions) {
+			const index = entries.findIndex(
+				(entry) => getPartitionKey(entry, partitionField) === partition.key,
+			);
+			const saved = index >= 0 ? entries[index] : undefined;
+
+			let data = partition.data;
+			if (saved && recordsField) {
+				const savedData = await deps.loadDataBlob(saved, dataType);
+				data = {
+					...partition.data,
+					[recordsField]: mergeRecords(
+						savedData[recordsField],
+						partition.data[recordsField],
+					),
+				};
+			}
+
+			// Entries with their own seal_id stay under it (per-entry shares)
+			const ref = await deps.uploadBlob(data, dataType, saved?.seal_id);
+			const entry = {
+				...partition.entry,
+				...(saved && getSavedEntryFields(saved)),
+				...getEntryCounts(dataType, data),
+				...(partitionField !== null && { [partitionField]: partition.key }),
+				...toEntryBlobFields(ref),
+			} as BaseMetadataEntry;
+
+			if (index >= 0) {
+				entries[index] = entry;
+			} else {
+				entries.push(entry);
+			}
+		}
+
+		const metadata: BaseMetadata<BaseMetadataEntry> = {
+			...(loaded?.metadata ?? createEmptyMetadata(dataType)),
+			updated_at: Date.now(),
+			entries,
+		};
+		const metadataRef = await deps.uploadBlob(metadata, dataType);
+		batch = addDataEntryWrite(batch, {
+			dataType,
+			metadataBlobId: metadataRef.blobId,
+			replace: loaded !== null,
+			expectedMetadataBlobId: loaded?.metadataBlobId,
+		});
+	}
+
+	await deps.commit(batch);
+	return batch;
+}
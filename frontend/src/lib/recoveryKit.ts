@@ -0,0 +1,549 @@
+/**
+ * Seal Backup Key Recovery Kit
+ *
+ * Seal encrypt returns, alongside the encrypted object, the 256-bit
+ * symmetric (DEM) key the payload was encrypted with. That key decrypts the
+ * blob without the key servers, so keeping it is the only way to read the
+ * record if the key servers become unavailable.
+ *
+ * Flow (opt-in per owner):
+ * 1. registerBackupKey: encryption helpers hand over each key together with
+ *    the encrypted bytes (kept in memory only)
+ * 2. escrowBackupKey: after the upload, uploadToWalrus wraps the key with
+ *    the device key and stores it with its blob ID in IndexedDB
+ *    (lib/backupKeyStore.ts) if the owner opted in
+ * 3. sealRecoveryKit: the collected keys are wrapped under a passphrase
+ *    (PBKDF2-SHA256 + AES-256-GCM) and exported as a file or QR set; the
+ *    exported keys are then deleted from the device
+ * 4. openRecoveryKit + decryptWithBackupKey: the recovery screen unwraps the
+ *    kit and decrypts Walrus blobs directly, bypassing Seal
+ *
+ * Payloads persisted before upload (the outbox) carry their key wrapped with
+ * the device key (wrapPendingBackupKey) and register it again right before
+ * uploading (restorePendingBackupKey).
+ */
+
+import { fromBase64, fromHex, toBase64, toHex } from "@mysten/bcs";
+import { EncryptedObject } from "@mysten/seal";
+import {
+	type BackupKeyRecord,
+	isBackupKeyStoreAvailable,
+	putBackupKey,
+	type UnwrappedBackupKey,
+	unwrapBackupKey,
+	type WrappedBackupKey,
+	wrapBackupKey,
+} from "@/lib/backupKeyStore";
+import type { DataType } from "@/types/healthData";
+
+// ==========================================
+// Constants
+// ==========================================
+
+/**
+ * Kit file format identifier and version
+ */
+export const RECOVERY_KIT_FORMAT = "curepocket-recovery-kit";
+export const RECOVERY_KIT_VERSION = 1;
+
+/**
+ * Minimum passphrase length accepted when exporting a kit
+ */
+export const MIN_RECOVERY_PASSPHRASE_LENGTH = 12;
+
+/**
+ * PBKDF2-SHA256 iterations for new kits (OWASP 2023 recommendation)
+ */
+const DEFAULT_PBKDF2_ITERATIONS = 600_000;
+
+/**
+ * localStorage key prefix of the opt-in flag (owner address is appended)
+ */
+const RECOVERY_KIT_ENABLED_PREFIX = "curepocket_recovery_kit_v1:";
+
+/**
+ * Characters of kit text per QR code (fits comfortably in a version 25-30
+ * code at error correction level M)
+ */
+export const RECOVERY_KIT_QR_CHUNK_SIZE = 1000;
+
+/**
+ * Prefix of each QR part: `CPKIT1:<index>/<total>:<text>`
+ */
+const QR_PART_PREFIX = "CPKIT1:";
+
+/**
+ * Fixed IV of the Seal SDK's AES-256-GCM DEM (@mysten/seal dem.ts). Every
+ * DEM key is used for a single message, so the SDK does not store an IV in
+ * the encrypted object.
+ */
+const SEAL_DEM_IV = Uint8Array.from([
+	138, 55, 153, 253, 198, 46, 121, 219, 160, 128, 89, 7, 214, 156, 148, 220,
+]);
+
+// ==========================================
+// Type Definitions
+// ==========================================
+
+/**
+ * Backup key of one blob inside a kit
+ */
+export interface RecoveryKitKey {
+	/** Walrus blob ID (manifest blob ID for chunked payloads) */
+	blobId: string;
+	/** Data type the blob belongs to (if known) */
+	dataType?: DataType;
+	/** SHA-256 (hex) of the encrypted payload */
+	sha256?: string;
+	/** Symmetric key (hex) */
+	key: string;
+	/** Upload time (Unix timestamp ms) */
+	createdAt: number;
+}
+
+/**
+ * Decrypted kit contents
+ */
+export interface RecoveryKitContents {
+	/** Owner wallet address */
+	owner: string;
+	/** Export time (Unix timestamp ms) */
+	createdAt: number;
+	keys: RecoveryKitKey[];
+}
+
+/**
+ * Exported kit file (JSON). Only the header is readable without the
+ * passphrase.
+ */
+export interface RecoveryKitFile {
+	format: typeof RECOVERY_KIT_FORMAT;
+	version: typeof RECOVERY_KIT_VERSION;
+	owner: string;
+	createdAt: number;
+	keyCount: number;
+	kdf: {
+		name: "PBKDF2";
+		hash: "SHA-256";
+		iterations: number;
+		/** base64 */
+		salt: string;
+	};
+	cipher: {
+		name: "AES-GCM";
+		/** base64 */
+		iv: string;
+	};
+	/** base64 AES-GCM ciphertext of RecoveryKitContents (JSON) */
+	ciphertext: string;
+}
+
+// ==========================================
+// Opt-in
+// ==========================================
+
+function enabledKey(owner: string): string {
+	return `${RECOVERY_KIT_ENABLED_PREFIX}${owner.toLowerCase()}`;
+}
+
+/**
+ * Whether backup keys are collected for an owner
+ */
+export function isBackupKeyEscrowEnabled(owner: string): boolean {
+	if (typeof window === "undefined") {
+		return false;
+	}
+	return localStorage.getItem(enabledKey(owner)) === "1";
+}
+
+/**
+ * Turn backup key collection on or off for an owner
+ *
+ * Turning it off keeps already collected keys; use deleteBackupKeys to
+ * remove them.
+ */
+export function setBackupKeyEscrowEnabled(
+	owner: string,
+	enabled: boolean,
+): void {
+	if (typeof window === "undefined") {
+		return;
+	}
+	if (enabled) {
+		localStorage.setItem(enabledKey(owner), "1");
+	} else {
+		localStorage.removeItem(enabledKey(owner));
+	}
+}
+
+// ==========================================
+// Collection
+// ==========================================
+
+/**
+ * Keys of encrypted payloads that have not been uploaded yet, keyed by the
+ * payload instance so nothing outlives the payload itself
+ */
+const pendingKeys = new WeakMap<Uint8Array, Uint8Array>();
+
+/**
+ * Remember the Seal backup key of an encrypted payload until it is uploaded
+ */
+export function registerBackupKey(
+	encryptedObject: Uint8Array,
+	key: Uint8Array,
+): void {
+	pendingKeys.set(encryptedObject, key);
+}
+
+/**
+ * Backup key of a payload that is about to be persisted before upload
+ * (e.g. queued in the outbox), wrapped with the device key, if the owner
+ * opted in
+ *
+ * Failures are logged; the payload is then persisted without its key.
+ */
+export async function wrapPendingBackupKey(
+	owner: string,
+	encryptedObject: Uint8Array,
+): Promise<WrappedBackupKey | undefined> {
+	const key = pendingKeys.get(encryptedObject);
+	if (
+		!key ||
+		!isBackupKeyEscrowEnabled(owner) ||
+		!isBackupKeyStoreAvailable()
+	) {
+		return undefined;
+	}
+	try {
+		return await wrapBackupKey(key);
+	} catch (error) {
+		console.warn("[RecoveryKit] Failed to wrap backup key:", error);
+		return undefined;
+	}
+}
+
+/**
+ * Register the wrapped key of a persisted payload again before its upload
+ *
+ * Items queued before keys were wrapped hold the raw key, which is
+ * registered as is. Failures are logged and never fail the upload.
+ */
+export async function restorePendingBackupKey(
+	encryptedObject: Uint8Array,
+	wrapped: WrappedBackupKey | Uint8Array,
+): Promise<void> {
+	try {
+		registerBackupKey(
+			encryptedObject,
+			wrapped instanceof Uint8Array ? wrapped : await unwrapBackupKey(wrapped),
+		);
+	} catch (error) {
+		console.warn("[RecoveryKit] Failed to unwrap backup key:", error);
+	}
+}
+
+/**
+ * Store the backup key of an uploaded payload if the owner opted in
+ *
+ * Failures are logged and never fail the upload.
+ *
+ * @param owner - Owner wallet address (nothing is stored without one)
+ * @param data - The encrypted payload passed to uploadToWalrus
+ * @param ref - Blob ID and payload digest of the upload
+ * @param dataType - Data type the blob belongs to
+ */
+export async function escrowBackupKey(
+	owner: string | undefined,
+	data: Uint8Array,
+	ref: { blobId: string; sha256?: string },
+	dataType?: DataType,
+): Promise<void> {
+	const key = pendingKeys.get(data);
+	if (!key || !owner) {
+		return;
+	}
+	pendingKeys.delete(data);
+	if (!isBackupKeyEscrowEnabled(owner) || !isBackupKeyStoreAvailable()) {
+		return;
+	}
+
+	const normalizedOwner = owner.toLowerCase();
+	try {
+		const record: BackupKeyRecord = {
+			id: `${normalizedOwner}:${ref.blobId}`,
+			owner: normalizedOwner,
+			blobId: ref.blobId,
+			...(dataType && { dataType }),
+			...(ref.sha256 && { sha256: ref.sha256 }),
+			wrappedKey: await wrapBackupKey(key),
+			createdAt: Date.now(),
+		};
+		await putBackupKey(record);
+	} catch (error) {
+		console.warn("[RecoveryKit] Failed to store backup key:", error);
+	}
+}
+
+/**
+ * Build kit contents from collected keys (see readBackupKeys)
+ */
+export function buildRecoveryKitContents(
+	owner: string,
+	records: UnwrappedBackupKey[],
+	now: number = Date.now(),
+): RecoveryKitContents {
+	return {
+		owner: owner.toLowerCase(),
+		createdAt: now,
+		keys: records.map((record) => ({
+			blobId: record.blobId,
+			...(record.dataType && { dataType: record.dataType }),
+			...(record.sha256 && { sha256: record.sha256 }),
+			key: toHex(record.key),
+			createdAt: record.createdAt,
+		})),
+	};
+}
+
+// ==========================================
+// Passphrase Wrapping
+// ==========================================
+
+async function deriveWrappingKey(
+	passphrase: string,
+	salt: Uint8Array,
+	iterations: number,
+	usage: KeyUsage,
+): Promise<CryptoKey> {
+	const material = await crypto.subtle.importKey(
+		"raw",
+		new TextEncoder().encode(passphrase),
+		"PBKDF2",
+		false,
+		["deriveKey"],
+	);
+	return crypto.subtle.deriveKey(
+		{
+			name: "PBKDF2",
+			hash: "SHA-256",
+			salt: salt as BufferSource,
+			iterations,
+		},
+		material,
+		{ name: "AES-GCM", length: 256 },
+		false,
+		[usage],
+	);
+}
+
+/**
+ * Wrap kit contents under a passphrase
+ *
+ * @param contents - Kit contents
+ * @param passphrase - User passphrase (at least MIN_RECOVERY_PASSPHRASE_LENGTH)
+ * @param iterations - PBKDF2 iterations (lower only in tests)
+ * @returns Kit file to export
+ * @throws Error if the passphrase is too short
+ */
+export async function sealRecoveryKit(
+	contents: RecoveryKitContents,
+	passphrase: string,
+	iterations: number = DEFAULT_PBKDF2_ITERATIONS,
+): Promise<RecoveryKitFile> {
+	if (passphrase.length < MIN_RECOVERY_PASSPHRASE_LENGTH) {
+		throw new Error(
+			`Passphrase must be at least ${MIN_RECOVERY_PASSPHRASE_LENGTH} characters`,
+		);
+	}
+
+	const salt = crypto.getRandomValues(new Uint8Array(16));
+	const iv = crypto.getRandomValues(new Uint8Array(12));
+	const key = await deriveWrappingKey(passphrase, salt, iterations, "encrypt");
+	const ciphertext = await crypto.subtle.encrypt(
+		{ name: "AES-GCM", iv },
+		key,
+		new TextEncoder().encode(JSON.stringify(contents)),
+	);
+
+	return {
+		format: RECOVERY_KIT_FORMAT,
+		version: RECOVERY_KIT_VERSION,
+		owner: contents.owner,
+		createdAt: contents.createdAt,
+		keyCount: contents.keys.length,
+		kdf: { name: "PBKDF2", hash: "SHA-256", iterations, salt: toBase64(salt) },
+		cipher: { name: "AES-GCM", iv: toBase64(iv) },
+		ciphertext: toBase64(new Uint8Array(ciphertext)),
+	};
+}
+
+/**
+ * Unwrap a kit file with its passphrase
+ *
+ * @throws Error if the passphrase is wrong or the file was altered
+ */
+export async function openRecoveryKit(
+	file: RecoveryKitFile,
+	passphrase: string,
+): Promise<RecoveryKitContents> {
+	const key = await deriveWrappingKey(
+		passphrase,
+		fromBase64(file.kdf.salt),
+		file.kdf.iterations,
+		"decrypt",
+	);
+
+	let plaintext: ArrayBuffer;
+	try {
+		plaintext = await crypto.subtle.decrypt(
+			{ name: "AES-GCM", iv: fromBase64(file.cipher.iv) as BufferSource },
+			key,
+			fromBase64(file.ciphertext) as BufferSource,
+		);
+	} catch {
+		throw new Error(
+			"Failed to open recovery kit: wrong passphrase or damaged file",
+		);
+	}
+
+	return JSON.parse(new TextDecoder().decode(plaintext)) as RecoveryKitContents;
+}
+
+/**
+ * Parse and validate the header of a kit file
+ *
+ * @throws Error if the text is not a supported kit file
+ */
+export function parseRecoveryKitFile(text: string): RecoveryKitFile {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(text);
+	} catch {
+		throw new Error("Not a recovery kit file");
+	}
+
+	const file = parsed as Partial<RecoveryKitFile>;
+	if (file?.format !== RECOVERY_KIT_FORMAT) {
+		throw new Error("Not a recovery kit file");
+	}
+	if (file.version !== RECOVERY_KIT_VERSION) {
+		throw new Error(`Unsupported recovery kit version: ${file.version}`);
+	}
+	if (
+		file.kdf?.name !== "PBKDF2" ||
+		file.cipher?.name !== "AES-GCM" ||
+		typeof file.ciphertext !== "string"
+	) {
+		throw new Error("Recovery kit file is damaged");
+	}
+	return file as RecoveryKitFile;
+}
+
+// ==========================================
+// QR Set
+// ==========================================
+
+/**
+ * Split a kit file into QR code texts
+ *
+ * @param text - Serialized kit file
+ * @param chunkSize - Characters per QR code
+ * @returns One `CPKIT1:<index>/<total>:` prefixed text per QR code
+ */
+export function splitRecoveryKitForQr(
+	text: string,
+	chunkSize: number = RECOVERY_KIT_QR_CHUNK_SIZE,
+): string[] {
+	const total = Math.max(1, Math.ceil(text.length / chunkSize));
+	return Array.from(
+		{ length: total },
+		(_, index) =>
+			`${QR_PART_PREFIX}${index + 1}/${total}:${text.slice(index * chunkSize, (index + 1) * chunkSize)}`,
+	);
+}
+
+/**
+ * Reassemble a kit file from scanned QR code texts (any order, duplicates
+ * allowed)
+ *
+ * @throws Error naming the missing parts if the set is incomplete
+ */
+export function joinRecoveryKitQrParts(parts: string[]): string {
+	const chunks = new Map<number, string>();
+	let total: number | undefined;
+
+	for (const part of parts) {
+		const match = /^CPKIT1:(\d+)\/(\d+):/.exec(part);
+		if (!match) {
+			throw new Error("Not a recovery kit QR code");
+		}
+		const partTotal = Number(match[2]);
+		if (total !== undefined && total !== partTotal) {
+			throw new Error("QR codes belong to different recovery kits");
+		}
+		total = partTotal;
+		chunks.set(Number(match[1]), part.slice(match[0].length));
+	}
+
+	if (total === undefined) {
+		throw new Error("No recovery kit QR codes");
+	}
+	const missing = Array.from({ length: total }, (_, index) => index + 1).filter(
+		(index) => !chunks.has(index),
+	);
+	if (missing.length > 0) {
+		throw new Error(`Missing recovery kit QR codes: ${missing.join(", ")}`);
+	}
+
+	return Array.from({ length: total }, (_, index) =>
+		chunks.get(index + 1),
+	).join("");
+}
+
+// ==========================================
+// Direct Decryption
+// ==========================================
+
+/**
+ * Decrypt a Seal encrypted object with its backup key, without key servers
+ *
+ * @param encryptedObject - Encrypted object bytes as stored on Walrus
+ * @param keyHex - Backup key from the recovery kit (hex)
+ * @returns Decrypted payload
+ * @throws Error if the object is not AES-256-GCM or the key does not match
+ */
+export async function decryptWithBackupKey(
+	encryptedObject: Uint8Array,
+	keyHex: string,
+): Promise<Uint8Array> {
+	const { ciphertext } = EncryptedObject.parse(encryptedObject);
+	if (!ciphertext.Aes256Gcm) {
+		throw new Error(
+			`Unsupported Seal ciphertext: ${ciphertext.$kind} (expected Aes256Gcm)`,
+		);
+	}
+
+	const key = await crypto.subtle.importKey(
+		"raw",
+		fromHex(keyHex) as BufferSource,
+		"AES-GCM",
+		false,
+		["decrypt"],
+	);
+	try {
+		return new Uint8Array(
+			await crypto.subtle.decrypt(
+				{
+					name: "AES-GCM",
+					iv: SEAL_DEM_IV,
+					additionalData: new Uint8Array(ciphertext.Aes256Gcm.aad ?? []),
+				},
+				key,
+				new Uint8Array(ciphertext.Aes256Gcm.blob),
+			),
+		);
+	} catch {
+		throw new Error("Failed to decrypt blob: backup key does not match");
+	}
+}
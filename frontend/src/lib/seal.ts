@@ -13,11 +13,32 @@
  * Official Documentation: https://seal-docs.wal.app/
  */
 
-import { fromHex } from "@mysten/bcs";
-import { EncryptedObject, SealClient, SessionKey } from "@mysten/seal";
+import { fromBase64, fromHex, toBase64, toHex } from "@mysten/bcs";
+import {
+	type DecryptOptions,
+	EncryptedObject,
+	SealClient,
+	SessionKey,
+} from "@mysten/seal";
+import { bcs } from "@mysten/sui/bcs";
 import type { SuiClient } from "@mysten/sui/client";
 import { Transaction } from "@mysten/sui/transactions";
 import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { registerBackupKey } from "@/lib/recoveryKit";
+import { decodeJsonEnvelope, encodeJsonEnvelope } from "@/lib/sealEnvelope";
+import { getEntryNonce } from "@/lib/sealIdGenerator";
+import {
+	applyKeyServerUrlOverrides,
+	parseSealKeyServerConfig,
+	recordSealDecrypt,
+	type SealKeyServerConfig,
+	type SealKeyServerEntry,
+} from "@/lib/sealKeyServers";
+import {
+	getSessionLifecycleState,
+	waitForSessionKey,
+} from "@/lib/sessionLifecycle";
+import { registerCompressionSavings } from "@/lib/storageSpend";
 import type { HealthData } from "@/types/healthData";
 
 // ==========================================
@@ -25,31 +46,40 @@ import type { HealthData } from "@/types/healthData";
 // ==========================================
 
 /**
- * Seal KeyServer ObjectIds from environment
- * Comma-separated list of key server object IDs
+ * Seal key server configuration from environment (weights, URL overrides,
+ * threshold; see lib/sealKeyServers.ts for the format)
  */
-export const SEAL_KEY_SERVERS =
-	process.env.NEXT_PUBLIC_SEAL_KEY_SERVERS?.split(",")
-		.map((id) => id.trim())
-		.filter(Boolean) || [];
+let sealKeyServerConfig: SealKeyServerConfig | null = null;
 
 /**
- * Calculate appropriate threshold based on number of key servers
- * - 1 server: threshold = 1 (single point of failure, but functional)
- * - 2+ servers: threshold = 2 (recommended for redundancy and security)
+ * Get the parsed key server configuration
  *
- * @param keyServerCount - Number of key servers configured
- * @returns Appropriate threshold value (1 or 2)
+ * @returns Key servers and threshold
+ * @throws SealKeyServerConfigError if the configuration is missing or invalid
+ */
+export function getSealKeyServerConfig(): SealKeyServerConfig {
+	if (!sealKeyServerConfig) {
+		sealKeyServerConfig = parseSealKeyServerConfig(
+			process.env.NEXT_PUBLIC_SEAL_KEY_SERVERS,
+			process.env.NEXT_PUBLIC_SEAL_THRESHOLD,
+		);
+	}
+	return sealKeyServerConfig;
+}
+
+/**
+ * Threshold (total key server weight) used for new encryptions
  *
  * @example
  * ```typescript
- * calculateThreshold(1) // Returns 1
- * calculateThreshold(2) // Returns 2
- * calculateThreshold(5) // Returns 2
+ * // NEXT_PUBLIC_SEAL_KEY_SERVERS=0xA,0xB,0xC
+ * getSealThreshold() // Returns 2
+ * // NEXT_PUBLIC_SEAL_KEY_SERVERS={"threshold":3,"servers":[...5 servers]}
+ * getSealThreshold() // Returns 3
  * ```
  */
-export function calculateThreshold(keyServerCount: number): number {
-	return Math.min(2, Math.max(1, keyServerCount));
+export function getSealThreshold(): number {
+	return getSealKeyServerConfig().threshold;
 }
 
 /**
@@ -85,21 +115,145 @@ const VERIFY_KEY_SERVERS =
 // ==========================================
 
 /**
- * Get allowlisted key servers for the network
+ * Key server metadata as loaded by the Seal SDK
+ */
+type LoadedKeyServers = Awaited<ReturnType<SealClient["getKeyServers"]>>;
+
+/**
+ * SealClient applying the configured URL overrides and recording which
+ * key servers supplied the keys of each decrypt (for diagnostics).
+ * Decrypts started with an expired SessionKey wait for the refreshed one
+ * (lib/sessionLifecycle.ts); blobs under an entry seal_id are approved
+ * through the data type PTB (approveEntrySealId).
+ */
+class ConfiguredSealClient extends SealClient {
+	constructor(
+		options: ConstructorParameters<typeof SealClient>[0],
+		private readonly servers: SealKeyServerEntry[],
+	) {
+		super(options);
+	}
+
+	async getKeyServers(): Promise<LoadedKeyServers> {
+		return applyKeyServerUrlOverrides(
+			await super.getKeyServers(),
+			this.servers,
+		);
+	}
+
+	async decrypt(options: DecryptOptions): Promise<Uint8Array> {
+		let request: DecryptOptions = {
+			...options,
+			sessionKey: await waitForSessionKey(options.sessionKey),
+		};
+		let plaintext: Uint8Array;
+		try {
+			const { id } = EncryptedObject.parse(request.data);
+			request = {
+				...request,
+				txBytes: approveEntrySealId(request.txBytes, id),
+			};
+			plaintext = await super.decrypt(request);
+		} catch (error) {
+			recordSealDecrypt({
+				ok: false,
+				servers: [],
+				error: error instanceof Error ? error.message : String(error),
+				at: Date.now(),
+			});
+			throw error;
+		}
+
+		// 復号に使われた鍵はキャッシュ済みのため、追加のリクエストは発生しない
+		let servers: string[] = [];
+		try {
+			const { id, threshold } = EncryptedObject.parse(request.data);
+			const derivedKeys = await this.getDerivedKeys({
+				id,
+				threshold,
+				txBytes: request.txBytes,
+				sessionKey: request.sessionKey,
+			});
+			servers = [...derivedKeys.keys()];
+		} catch (error) {
+			console.warn("[Seal] Could not determine answering key servers:", error);
+		}
+		recordSealDecrypt({ ok: true, servers, error: null, at: Date.now() });
+
+		return plaintext;
+	}
+}
+
+/**
+ * Point the seal_approve call of a PTB at an entry seal_id
  *
- * @param network - Sui network (testnet, mainnet, devnet)
- * @returns Array of key server object IDs
+ * Readers build one PTB per data type with its seal_id. A blob encrypted
+ * under an entry seal_id (data type seal_id + entry nonce) needs a
+ * seal_approve call carrying that id instead: key servers only return keys
+ * for ids the PTB approves. The call is replaced rather than duplicated so a
+ * consent token scoped to the entry alone still passes.
+ *
+ * @param txBytes - Transaction kind bytes with seal_approve* calls
+ * @param id - Encryption identity of the blob (hex)
+ * @returns PTB approving `id` (the input if it already does or no call matches)
  */
-function resolveKeyServers(
-	network: "mainnet" | "testnet" | "devnet" | "localnet",
-): string[] {
-	if (SEAL_KEY_SERVERS.length > 0) {
-		return SEAL_KEY_SERVERS;
+export function approveEntrySealId(
+	txBytes: Uint8Array,
+	id: string,
+): Uint8Array {
+	const kind = bcs.TransactionKind.parse(txBytes);
+	const ptb = kind.ProgrammableTransaction;
+	if (!ptb) {
+		return txBytes;
 	}
-	// No SDK helper available in @mysten/seal v0.9.x; require env configuration.
-	throw new Error(
-		`No Seal key servers configured for ${network}. Set NEXT_PUBLIC_SEAL_KEY_SERVERS.`,
-	);
+
+	const target = normalizeHexId(id);
+	let entryCall: number | null = null;
+	for (const [index, command] of ptb.commands.entries()) {
+		const call = command.MoveCall;
+		const inputIndex = call?.arguments[0]?.Input;
+		const input = inputIndex === undefined ? null : ptb.inputs[inputIndex];
+		if (!call?.function.startsWith("seal_approve") || !input?.Pure) {
+			continue;
+		}
+		const approvedId = toHex(
+			Uint8Array.from(bcs.vector(bcs.u8()).parse(fromBase64(input.Pure.bytes))),
+		);
+		if (approvedId === target) {
+			return txBytes;
+		}
+		if (entryCall === null && getEntryNonce(target, approvedId)) {
+			entryCall = index;
+		}
+	}
+	const call = entryCall === null ? null : ptb.commands[entryCall].MoveCall;
+	if (entryCall === null || !call) {
+		return txBytes;
+	}
+
+	ptb.inputs.push({
+		$kind: "Pure",
+		Pure: {
+			bytes: toBase64(
+				bcs.vector(bcs.u8()).serialize(fromHex(target)).toBytes(),
+			),
+		},
+	});
+	ptb.commands[entryCall] = {
+		$kind: "MoveCall",
+		MoveCall: {
+			...call,
+			arguments: [
+				{ $kind: "Input", Input: ptb.inputs.length - 1 },
+				...call.arguments.slice(1),
+			],
+		},
+	};
+	return bcs.TransactionKind.serialize(kind).toBytes();
+}
+
+function normalizeHexId(id: string): string {
+	return (id.startsWith("0x") ? id.slice(2) : id).toLowerCase();
 }
 
 /**
@@ -107,46 +261,60 @@ function resolveKeyServers(
  *
  * @param suiClient - Sui blockchain client
  * @returns Initialized SealClient instance
- * @throws Error if KeyServer configuration is invalid
+ * @throws SealKeyServerConfigError if KeyServer configuration is invalid
  */
-// Cache SealClient to avoid re-creating (reduces key fetch / auth prompts)
+// Cache SealClient to avoid re-creating (reduces key fetch / auth prompts).
+// Ending the session starts a new client so that cached decryption keys are dropped.
 let cachedSealClient: { key: string; client: SealClient } | null = null;
 
 export function createSealClient(suiClient: SuiClient): SealClient {
-	// Get key server object IDs
-	const serverObjectIds = resolveKeyServers(SUI_NETWORK);
+	const { servers } = getSealKeyServerConfig();
 
-	if (serverObjectIds.length === 0) {
-		throw new Error(
-			"No Seal key servers configured. Set NEXT_PUBLIC_SEAL_KEY_SERVERS or use allowlisted servers.",
-		);
-	}
-
-	const serverKey = `${SUI_NETWORK}:${VERIFY_KEY_SERVERS}:${serverObjectIds.join(
-		",",
-	)}`;
+	const serverKey = `${SUI_NETWORK}:${VERIFY_KEY_SERVERS}:${JSON.stringify(
+		servers,
+	)}:${getSessionLifecycleState().generation}`;
 
 	if (cachedSealClient && cachedSealClient.key === serverKey) {
 		return cachedSealClient.client;
 	}
 
-	// Create server configs with equal weights
-	const serverConfigs = serverObjectIds.map((objectId) => ({
-		objectId,
-		weight: 1,
-	}));
-
-	// Initialize SealClient
-	const client = new SealClient({
-		suiClient,
-		serverConfigs,
-		verifyKeyServers: VERIFY_KEY_SERVERS,
-	});
+	// Initialize SealClient with the configured weights
+	const client = new ConfiguredSealClient(
+		{
+			suiClient,
+			serverConfigs: servers.map(({ objectId, weight }) => ({
+				objectId,
+				weight,
+			})),
+			verifyKeyServers: VERIFY_KEY_SERVERS,
+		},
+		servers,
+	);
 
 	cachedSealClient = { key: serverKey, client };
 	return client;
 }
 
+/**
+ * Load the configured key servers with their on-chain name and effective URL
+ *
+ * @param suiClient - Sui blockchain client
+ * @returns Configured servers in configuration order
+ */
+export async function loadSealKeyServers(
+	suiClient: SuiClient,
+): Promise<Array<SealKeyServerEntry & { name: string; url: string }>> {
+	const keyServers = await createSealClient(suiClient).getKeyServers();
+	return getSealKeyServerConfig().servers.map((server) => {
+		const loaded = keyServers.get(server.objectId);
+		return {
+			...server,
+			name: loaded?.name ?? "",
+			url: server.url ?? loaded?.url ?? "",
+		};
+	});
+}
+
 /**
  * Create a SessionKey for time-limited decryption access
  *
@@ -156,6 +324,9 @@ export function createSealClient(suiClient: SuiClient): SealClient {
  * 3. User signs message with wallet
  * 4. Set signature with setPersonalMessageSignature()
  *
+ * zkLogin signatures are verified through `suiClient`, so zkLogin accounts
+ * sign with their wallet's signPersonalMessage like any other account.
+ *
  * @param options - SessionKey creation options
  * @returns Initialized SessionKey (not yet signed)
  */
@@ -184,26 +355,40 @@ export async function createSessionKey(options: {
  * 1. Call client.encrypt() with threshold, packageId, id, and data
  * 2. Returns { encryptedObject, key }
  * 3. encryptedObject is stored in Walrus
- * 4. key can be used for backup/recovery
+ * 4. key can be used for backup/recovery (collected by lib/recoveryKit.ts)
+ *
+ * The JSON is deflate-compressed inside the envelope when that is smaller;
+ * the saved bytes are recorded in the spend ledger on upload.
  *
  * @param params - Encryption parameters
- * @returns Encrypted data and symmetric key
+ * @returns Encrypted data, symmetric key and bytes saved by compression
  */
 export async function encryptHealthData<T = HealthData>(params: {
 	healthData: T;
 	sealClient: SealClient;
 	sealId: string; // hex string (without package prefix)
 	threshold?: number;
-}): Promise<{ encryptedObject: Uint8Array; backupKey: Uint8Array }> {
+}): Promise<{
+	encryptedObject: Uint8Array;
+	backupKey: Uint8Array;
+	savedBytes: number;
+}> {
 	const { healthData, sealClient, sealId, threshold } = params;
 
-	// If threshold not provided, calculate based on key server count
-	const effectiveThreshold =
-		threshold ?? calculateThreshold(SEAL_KEY_SERVERS.length);
+	// If threshold not provided, use the configured threshold
+	const effectiveThreshold = threshold ?? getSealThreshold();
 
-	// Serialize to JSON
-	const json = JSON.stringify(healthData);
-	const data = new TextEncoder().encode(json);
+	// Serialize to JSON inside the versioned envelope (lib/sealEnvelope.ts)
+	const {
+		bytes: data,
+		originalSize,
+		savedBytes,
+	} = await encodeJsonEnvelope(healthData);
+	if (savedBytes > 0) {
+		console.log(
+			`[Seal] Compressed payload ${originalSize} → ${originalSize - savedBytes} bytes (saved ${savedBytes})`,
+		);
+	}
 
 	// Encrypt with Seal
 	// sealId（hex文字列）をそのまま渡す
@@ -215,7 +400,11 @@ export async function encryptHealthData<T = HealthData>(params: {
 		data,
 	});
 
-	return { encryptedObject, backupKey };
+	// リカバリーキット用にバックアップ鍵を保持（アップロード時にオプトインなら保存）
+	registerBackupKey(encryptedObject, backupKey);
+	registerCompressionSavings(encryptedObject, savedBytes);
+
+	return { encryptedObject, backupKey, savedBytes };
 }
 
 /**
@@ -270,7 +459,10 @@ export async function decryptHealthData(params: {
 				`[decryptHealthData] normalized sealId: ${normalizedSealId.substring(0, 20)}...`,
 			);
 
-			if (normalizedParsedId !== normalizedSealId) {
+			if (
+				normalizedParsedId !== normalizedSealId &&
+				!getEntryNonce(normalizedParsedId, normalizedSealId)
+			) {
 				// 形式の違いにより不一致が発生する可能性があるため、警告のみで復号は継続
 				console.warn(
 					`[decryptHealthData] seal_id形式不一致（復号は継続）: parsed=${normalizedParsedId.substring(0, 20)}, expected=${normalizedSealId.substring(0, 20)}`,
@@ -304,10 +496,12 @@ export async function decryptHealthData(params: {
 			`[decryptHealthData] Decrypted ${decryptedBytes.length} bytes successfully`,
 		);
 
-		// Parse JSON
-		const json = new TextDecoder().decode(decryptedBytes);
-		const healthData = JSON.parse(json) as HealthData;
-		console.log("[decryptHealthData] Successfully parsed health data");
+		// Unwrap envelope (legacy raw JSON is decoded transparently) and parse JSON
+		const { value: healthData, envelope } =
+			await decodeJsonEnvelope<HealthData>(decryptedBytes);
+		console.log(
+			`[decryptHealthData] Successfully parsed health data (envelope v${envelope.version}, schema ${envelope.schemaVersion || "unknown"})`,
+		);
 
 		return healthData;
 	} catch (decryptError) {
@@ -0,0 +1,383 @@
+/**
+ * Seal Plaintext Envelope
+ *
+ * Every plaintext encrypted with Seal (health data, metadata, imaging
+ * binaries) is wrapped in one versioned envelope, so the format of a blob
+ * can be detected after decryption and evolved later.
+ *
+ * Layout (v1):
+ * [0-3]   magic bytes "CPSE"
+ * [4]     envelope version (1)
+ * [5]     compression (0 = none, 1 = deflate)
+ * [6]     content type length N
+ * [7..]   content type (UTF-8, N bytes)
+ * [..]    schema version length M
+ * [..]    schema version (UTF-8, M bytes; empty if not applicable)
+ * [..]    payload
+ *
+ * Payloads are deflate-compressed (CompressionStream) when that makes them
+ * smaller, except content types that are already compressed (JPEG, PNG,
+ * ZIP, ...). Decoding decompresses transparently.
+ *
+ * Blobs written before the envelope existed are still decoded:
+ * - Raw `JSON.stringify` output (health data / metadata)
+ * - The imaging envelope `[uint32 BE mime length][mime][bytes]`
+ * Neither can start with the magic bytes.
+ */
+
+// ==========================================
+// Constants
+// ==========================================
+
+/**
+ * Magic prefix identifying an enveloped plaintext
+ */
+const ENVELOPE_MAGIC = new TextEncoder().encode("CPSE");
+
+/**
+ * Current envelope format version
+ */
+export const ENVELOPE_VERSION = 1;
+
+/**
+ * Content type of JSON payloads
+ */
+export const JSON_CONTENT_TYPE = "application/json";
+
+/**
+ * Content type used when a binary has no MIME type
+ */
+const DEFAULT_BINARY_CONTENT_TYPE = "application/octet-stream";
+
+/**
+ * Maximum length of the content type / schema version fields
+ */
+const MAX_FIELD_LENGTH = 255;
+
+/**
+ * Content types that are already compressed (compressing them again only
+ * costs time)
+ */
+const INCOMPRESSIBLE_CONTENT_TYPE =
+	/^(image\/(jpeg|png|gif|webp|avif|heic|heif)|video\/|audio\/|application\/(zip|gzip|x-7z-compressed|x-rar-compressed|pdf))/i;
+
+// ==========================================
+// Type Definitions
+// ==========================================
+
+/**
+ * Payload compression
+ */
+export enum EnvelopeCompression {
+	None = 0,
+	Deflate = 1,
+}
+
+/**
+ * Encoded envelope with compression statistics
+ */
+export interface EncodedEnvelope {
+	/** Envelope bytes to encrypt */
+	bytes: Uint8Array;
+	/** Compression applied to the payload */
+	compression: EnvelopeCompression;
+	/** Payload size before compression */
+	originalSize: number;
+	/** Bytes saved by compression (0 if not compressed) */
+	savedBytes: number;
+}
+
+/**
+ * Decoded envelope
+ */
+export interface SealEnvelope {
+	/** Envelope format version (0 for legacy unversioned blobs) */
+	version: number;
+	/** MIME type of the payload */
+	contentType: string;
+	/** Compression applied to the payload */
+	compression: EnvelopeCompression;
+	/** Schema version of the payload ("" if unknown or not applicable) */
+	schemaVersion: string;
+	/** Payload bytes (decompressed) */
+	payload: Uint8Array;
+}
+
+// ==========================================
+// Errors
+// ==========================================
+
+/**
+ * Raised when decrypted bytes are not a readable envelope
+ */
+export class EnvelopeFormatError extends Error {
+	constructor(detail: string) {
+		super(`Unreadable payload envelope: ${detail}`);
+		this.name = "EnvelopeFormatError";
+	}
+}
+
+// ==========================================
+// Compression
+// ==========================================
+
+/**
+ * Whether the runtime supports CompressionStream / DecompressionStream
+ */
+function isCompressionAvailable(): boolean {
+	return (
+		typeof CompressionStream !== "undefined" &&
+		typeof DecompressionStream !== "undefined"
+	);
+}
+
+/**
+ * Whether payloads of a content type are worth compressing
+ */
+export function isCompressibleContentType(contentType: string): boolean {
+	return !INCOMPRESSIBLE_CONTENT_TYPE.test(contentType);
+}
+
+async function pipeBytes(
+	bytes: Uint8Array,
+	transform: CompressionStream | DecompressionStream,
+): Promise<Uint8Array> {
+	const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(transform);
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// ==========================================
+// Encoding
+// ==========================================
+
+function encodeField(value: string, name: string): Uint8Array {
+	const bytes = new TextEncoder().encode(value);
+	if (bytes.length > MAX_FIELD_LENGTH) {
+		throw new EnvelopeFormatError(
+			`${name} is longer than ${MAX_FIELD_LENGTH} bytes`,
+		);
+	}
+	return bytes;
+}
+
+/**
+ * Wrap a payload in the current envelope
+ *
+ * @param params - Content type, schema version and payload. `compress`
+ * defaults to true unless the content type is already compressed
+ * @returns Envelope bytes to encrypt with compression statistics
+ */
+export async function encodeEnvelope(params: {
+	contentType: string;
+	schemaVersion?: string;
+	payload: Uint8Array;
+	compress?: boolean;
+}): Promise<EncodedEnvelope> {
+	const contentTypeValue = params.contentType || DEFAULT_BINARY_CONTENT_TYPE;
+	const contentType = encodeField(contentTypeValue, "content type");
+	const schemaVersion = encodeField(
+		params.schemaVersion ?? "",
+		"schema version",
+	);
+
+	// 小さくなる場合のみ圧縮したペイロードを使う
+	let compression = EnvelopeCompression.None;
+	let payload = params.payload;
+	if (
+		(params.compress ?? isCompressibleContentType(contentTypeValue)) &&
+		isCompressionAvailable()
+	) {
+		const compressed = await pipeBytes(
+			params.payload,
+			new CompressionStream("deflate"),
+		);
+		if (compressed.length < params.payload.length) {
+			compression = EnvelopeCompression.Deflate;
+			payload = compressed;
+		}
+	}
+
+	const headerLength =
+		ENVELOPE_MAGIC.length + 3 + contentType.length + 1 + schemaVersion.length;
+	const bytes = new Uint8Array(headerLength + payload.length);
+	let offset = 0;
+	bytes.set(ENVELOPE_MAGIC, offset);
+	offset += ENVELOPE_MAGIC.length;
+	bytes[offset++] = ENVELOPE_VERSION;
+	bytes[offset++] = compression;
+	bytes[offset++] = contentType.length;
+	bytes.set(contentType, offset);
+	offset += contentType.length;
+	bytes[offset++] = schemaVersion.length;
+	bytes.set(schemaVersion, offset);
+	offset += schemaVersion.length;
+	bytes.set(payload, offset);
+
+	return {
+		bytes,
+		compression,
+		originalSize: params.payload.length,
+		savedBytes: params.payload.length - payload.length,
+	};
+}
+
+/**
+ * Wrap a JSON value in the envelope
+ * The schema version is taken from the value's `schema_version`, if any.
+ *
+ * @param value - JSON-serializable value
+ * @returns Envelope bytes to encrypt with compression statistics
+ */
+export function encodeJsonEnvelope(value: unknown): Promise<EncodedEnvelope> {
+	const schemaVersion =
+		value !== null &&
+		typeof value === "object" &&
+		"schema_version" in value &&
+		typeof value.schema_version === "string"
+			? value.schema_version
+			: "";
+	return encodeEnvelope({
+		contentType: JSON_CONTENT_TYPE,
+		schemaVersion,
+		payload: new TextEncoder().encode(JSON.stringify(value)),
+	});
+}
+
+// ==========================================
+// Decoding
+// ==========================================
+
+/**
+ * Whether bytes start with the envelope magic
+ */
+export function isEnveloped(bytes: Uint8Array): boolean {
+	return (
+		bytes.length >= ENVELOPE_MAGIC.length &&
+		ENVELOPE_MAGIC.every((value, index) => bytes[index] === value)
+	);
+}
+
+async function decodeVersionedEnvelope(
+	bytes: Uint8Array,
+): Promise<SealEnvelope> {
+	let offset = ENVELOPE_MAGIC.length;
+	const readByte = (): number => {
+		if (offset >= bytes.length) {
+			throw new EnvelopeFormatError("header is truncated");
+		}
+		return bytes[offset++];
+	};
+	const readField = (): string => {
+		const length = readByte();
+		if (offset + length > bytes.length) {
+			throw new EnvelopeFormatError("header is truncated");
+		}
+		const value = new TextDecoder().decode(
+			bytes.subarray(offset, offset + length),
+		);
+		offset += length;
+		return value;
+	};
+
+	const version = readByte();
+	if (version !== ENVELOPE_VERSION) {
+		throw new EnvelopeFormatError(
+			`envelope version ${version} is not supported (this app reads ${ENVELOPE_VERSION})`,
+		);
+	}
+	const compression = readByte();
+	if (
+		compression !== EnvelopeCompression.None &&
+		compression !== EnvelopeCompression.Deflate
+	) {
+		throw new EnvelopeFormatError(`unknown compression ${compression}`);
+	}
+	const contentType = readField();
+	const schemaVersion = readField();
+
+	let payload: Uint8Array = bytes.slice(offset);
+	if (compression === EnvelopeCompression.Deflate) {
+		if (!isCompressionAvailable()) {
+			throw new EnvelopeFormatError(
+				"this browser cannot decompress the payload (DecompressionStream unavailable)",
+			);
+		}
+		try {
+			payload = await pipeBytes(payload, new DecompressionStream("deflate"));
+		} catch (error) {
+			throw new EnvelopeFormatError(
+				`failed to decompress payload (${error instanceof Error ? error.message : String(error)})`,
+			);
+		}
+	}
+
+	return { version, contentType, compression, schemaVersion, payload };
+}
+
+function decodeLegacyPayload(bytes: Uint8Array): SealEnvelope {
+	// JSON.stringifyの出力は "{" か "[" で始まる
+	if (bytes[0] === 0x7b || bytes[0] === 0x5b) {
+		return {
+			version: 0,
+			contentType: JSON_CONTENT_TYPE,
+			compression: EnvelopeCompression.None,
+			schemaVersion: "",
+			payload: bytes.slice(),
+		};
+	}
+
+	// 旧画像エンベロープ: [uint32 BE mime長][mime][bytes]
+	if (bytes.length >= 4) {
+		const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+		const mimeLength = view.getUint32(0, false);
+		if (mimeLength <= MAX_FIELD_LENGTH && 4 + mimeLength <= bytes.length) {
+			return {
+				version: 0,
+				contentType: new TextDecoder().decode(
+					bytes.subarray(4, 4 + mimeLength),
+				),
+				compression: EnvelopeCompression.None,
+				schemaVersion: "",
+				payload: bytes.slice(4 + mimeLength),
+			};
+		}
+	}
+
+	throw new EnvelopeFormatError("neither an envelope nor a legacy payload");
+}
+
+/**
+ * Unwrap decrypted bytes (current envelope or legacy unversioned payload),
+ * decompressing the payload if needed
+ *
+ * @param bytes - Decrypted Seal plaintext
+ * @returns Envelope fields and payload
+ * @throws EnvelopeFormatError if the bytes cannot be read
+ */
+export async function decodeEnvelope(bytes: Uint8Array): Promise<SealEnvelope> {
+	return isEnveloped(bytes)
+		? decodeVersionedEnvelope(bytes)
+		: decodeLegacyPayload(bytes);
+}
+
+/**
+ * Unwrap and parse a JSON payload
+ *
+ * @param bytes - Decrypted Seal plaintext
+ * @returns Parsed value with its envelope fields
+ * @throws EnvelopeFormatError if the payload is not JSON
+ */
+export async function decodeJsonEnvelope<T = unknown>(
+	bytes: Uint8Array,
+): Promise<{ value: T; envelope: SealEnvelope }> {
+	const envelope = await decodeEnvelope(bytes);
+	if (envelope.contentType !== JSON_CONTENT_TYPE) {
+		throw new EnvelopeFormatError(
+			`expected ${JSON_CONTENT_TYPE}, got ${envelope.contentType}`,
+		);
+	}
+	return {
+		value: JSON.parse(new TextDecoder().decode(envelope.payload)) as T,
+		envelope,
+	};
+}
@@ -6,7 +6,28 @@
  *
  * This ensures that each data type has a unique seal_id per wallet,
  * enabling scope-based encryption and access control.
+ *
+ * A data type can be moved to a fresh identity (see lib/sealIdRotation.ts):
+ * the rotated seal_id appends a random rotation nonce,
+ * SHA256(address + "::" + "cure_pocket" + "::" + dataType + "::" + nonce),
+ * and is only known from the passport's EntryData afterwards.
+ *
+ * A single partition (one prescription, one lab date)
+ * can get its own entry seal_id so that it can be shared on its own:
+ * entry seal_id = data type seal_id + random entry nonce (16 bytes). The
+ * contract accepts it wherever the data type seal_id is accepted, and a
+ * consent scope "<dataType>#<nonce>" opens only that entry.
+ */
+
+/**
+ * Length of a rotation nonce in bytes
  */
+const ROTATION_NONCE_BYTES = 16;
+
+/**
+ * Length of an entry nonce in bytes (ENTRY_NONCE_LENGTH in seal_accessor.move)
+ */
+export const ENTRY_NONCE_BYTES = 16;
 
 /**
  * Generate seal_id from wallet address and data type
@@ -16,6 +37,8 @@
  *
  * @param address - Sui wallet address (normalized 0x... format)
  * @param dataType - Data type identifier (e.g., "medications", "lab_results", "basic_profile")
+ * @param rotationNonce - Rotation nonce (hex) for a rotated identity; omit for the original one
+ * @param entryNonce - Entry nonce (hex) for an entry seal_id; omit for the data type seal_id
  * @returns Promise<seal_id as hex string>
  *
  * @example
@@ -27,8 +50,12 @@
 export async function generateSealId(
 	address: string,
 	dataType: string,
+	rotationNonce?: string,
+	entryNonce?: string,
 ): Promise<string> {
-	const input = `${address}::cure_pocket::${dataType}`;
+	const input = rotationNonce
+		? `${address}::cure_pocket::${dataType}::${rotationNonce}`
+		: `${address}::cure_pocket::${dataType}`;
 
 	const cryptoObj = globalThis.crypto;
 	if (!cryptoObj?.subtle) {
@@ -39,5 +66,107 @@ export async function generateSealId(
 	const data = encoder.encode(input);
 	const hashBuffer = await cryptoObj.subtle.digest("SHA-256", data);
 	const hashArray = Array.from(new Uint8Array(hashBuffer));
-	return hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
+	const sealId = hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
+	return entryNonce ? deriveEntrySealId(sealId, entryNonce) : sealId;
+}
+
+/**
+ * Generate a random rotation nonce for a new seal_id
+ *
+ * @returns Nonce as hex string
+ */
+export function generateRotationNonce(): string {
+	const bytes = globalThis.crypto.getRandomValues(
+		new Uint8Array(ROTATION_NONCE_BYTES),
+	);
+	return Array.from(bytes)
+		.map((b) => b.toString(16).padStart(2, "0"))
+		.join("");
+}
+
+/**
+ * Generate a random entry nonce for a new entry seal_id
+ *
+ * @returns Nonce as hex string
+ */
+export function generateEntryNonce(): string {
+	const bytes = globalThis.crypto.getRandomValues(
+		new Uint8Array(ENTRY_NONCE_BYTES),
+	);
+	return Array.from(bytes)
+		.map((b) => b.toString(16).padStart(2, "0"))
+		.join("");
+}
+
+/**
+ * Build the entry seal_id of a partition under a data type seal_id
+ *
+ * @param dataTypeSealId - seal_id recorded in EntryData (hex)
+ * @param entryNonce - Entry nonce (hex)
+ * @returns Entry seal_id as hex string
+ * @throws Error if the nonce is not ENTRY_NONCE_BYTES of hex
+ */
+export function deriveEntrySealId(
+	dataTypeSealId: string,
+	entryNonce: string,
+): string {
+	if (!new RegExp(`^[0-9a-f]{${ENTRY_NONCE_BYTES * 2}}$`).test(entryNonce)) {
+		throw new Error(`Invalid entry nonce: ${entryNonce}`);
+	}
+	return `${normalizeSealId(dataTypeSealId)}${entryNonce}`;
+}
+
+/**
+ * Entry nonce of an entry seal_id
+ *
+ * @param sealId - seal_id a blob is encrypted under (hex)
+ * @param dataTypeSealId - seal_id recorded in EntryData (hex)
+ * @returns Entry nonce, or null if sealId is the data type seal_id itself
+ *   or not an entry seal_id under it
+ */
+export function getEntryNonce(
+	sealId: string,
+	dataTypeSealId: string,
+): string | null {
+	const id = normalizeSealId(sealId);
+	const prefix = normalizeSealId(dataTypeSealId);
+	if (
+		id.length !== prefix.length + ENTRY_NONCE_BYTES * 2 ||
+		!id.startsWith(prefix)
+	) {
+		return null;
+	}
+	return id.slice(prefix.length);
+}
+
+/**
+ * seal_id the data blob of a metadata entry is encrypted under
+ *
+ * @param entry - Metadata entry (seal_id is set for entries with their own identity)
+ * @param dataTypeSealId - seal_id recorded in EntryData (hex)
+ * @returns Entry seal_id, or the data type seal_id
+ */
+export function getEntrySealId(
+	entry: { seal_id?: string },
+	dataTypeSealId: string,
+): string {
+	return entry.seal_id ?? dataTypeSealId;
+}
+
+/**
+ * Consent scope that opens a single entry
+ *
+ * @param dataType - Data type of the entry
+ * @param entryNonce - Entry nonce (hex)
+ * @returns Scope string "<dataType>#<nonce>" (consent_token.move)
+ */
+export function getEntryConsentScope(
+	dataType: string,
+	entryNonce: string,
+): string {
+	return `${dataType}#${entryNonce}`;
+}
+
+function normalizeSealId(sealId: string): string {
+	return (sealId.startsWith("0x") ? sealId.slice(2) : sealId).toLowerCase();
 }
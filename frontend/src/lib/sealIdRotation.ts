@@ -0,0 +1,604 @@
+/**
+ * Seal ID Rotation
+ *
+ * Moves one data type to a fresh encryption identity. Every data blob and
+ * the metadata blob of the type are decrypted under the current seal_id,
+ * re-encrypted under a new one derived with a rotation nonce
+ * (lib/sealIdGenerator.ts) and uploaded; a single replace_data_entry then
+ * swaps seal_id and metadata_blob_id of the EntryData together. Key servers
+ * only release keys for the seal_id recorded in EntryData, so the old
+ * identity stops decrypting at that moment. Approvals that follow EntryData
+ * do not stop: active consent tokens of the type are revoked in the same
+ * transaction, and a session key keeps working until its TTL expires.
+ *
+ * Progress is kept in a rotation job so an interrupted rotation resumes
+ * without re-uploading blobs that were already re-encrypted.
+ *
+ * Storage: localStorage, one JSON object per owner address keyed by data type.
+ *
+ * Entries with their own entry seal_id keep their entry nonce and move
+ * under the new seal_id (getRotatedEntrySealId).
+ *
+ * imaging_meta entries point at image binaries encrypted under the
+ * imaging_binary seal_id. Rotating imaging_meta re-encrypts those binaries
+ * under a new imaging_binary seal_id derived with the same rotation nonce,
+ * and both EntryData values are swapped in the same transaction.
+ *
+ * Once a type has been rotated its seal_id can no longer be derived from
+ * the address; saves must use the on-chain one (see resolveSealId).
+ *
+ * Saves queued in the outbox (lib/outbox.ts) hold payloads encrypted under
+ * the current seal_id, so a type with queued saves is not rotated until
+ * they are sent (SealIdRotationBlockedError).
+ */
+
+import {
+	deriveEntrySealId,
+	generateSealId,
+	getEntryNonce,
+} from "@/lib/sealIdGenerator";
+import {
+	type EntryData,
+	getDataEntry,
+	getPassportIdByAddress,
+} from "@/lib/suiClient";
+import type { DataType } from "@/types/healthData";
+import type {
+	BaseMetadata,
+	BaseMetadataEntry,
+	ImagingMetadataEntry,
+} from "@/types/metadata";
+
+// ==========================================
+// Constants
+// ==========================================
+
+/**
+ * localStorage key prefix (owner address is appended)
+ */
+const ROTATION_JOB_STORAGE_PREFIX = "curepocket_seal_rotation_v1:";
+
+// ==========================================
+// Type Definitions
+// ==========================================
+
+/**
+ * Persisted state of a rotation
+ */
+export interface SealIdRotationJob {
+	/** Owner wallet address */
+	owner: string;
+	/** MedicalPassport object ID */
+	passportId: string;
+	/** Data type being rotated */
+	dataType: DataType;
+	/** Rotation nonce the new seal_id is derived with (hex) */
+	rotationNonce: string;
+	/** seal_id the data is currently encrypted under */
+	oldSealId: string;
+	/** seal_id the data is re-encrypted under */
+	newSealId: string;
+	/** metadata_blob_id of the EntryData the job was built from */
+	sourceMetadataBlobId: string;
+	/** Data blobs to re-encrypt (blob_id of each metadata entry) */
+	blobIds: string[];
+	/** Re-encrypted data blobs: source blob_id → new entry storage fields */
+	rotated: Record<string, BaseMetadataEntry>;
+	/** Re-encrypted metadata blob ID (null until uploaded) */
+	metadataBlobId: string | null;
+	/** Image binaries rotated along with imaging_meta (null for other types) */
+	binary: SealIdRotationBinaryJob | null;
+	/** Error of the last attempt (null if none) */
+	error: string | null;
+	/** Start time (Unix timestamp ms) */
+	startedAt: number;
+	/** Last progress time (Unix timestamp ms) */
+	updatedAt: number;
+}
+
+/**
+ * Image binaries of an imaging_meta rotation
+ */
+export interface SealIdRotationBinaryJob {
+	/** seal_id the binaries are currently encrypted under (imaging_binary EntryData) */
+	oldSealId: string;
+	/** seal_id the binaries are re-encrypted under */
+	newSealId: string;
+	/** metadata_blob_id of the imaging_binary EntryData the job was built from */
+	sourceBlobId: string;
+	/** Binaries to re-encrypt (binary_blob_id of each entry and the EntryData blob) */
+	blobIds: string[];
+	/** Re-encrypted binaries: source blob ID → storage fields of the new upload */
+	rotated: Record<string, BaseMetadataEntry>;
+}
+
+/**
+ * How a saved job relates to the current EntryData
+ * - resume: the data type is still on the old seal_id
+ * - completed: the EntryData already carries the new seal_id
+ * - stale: the data type was removed or rotated elsewhere
+ */
+export type SealIdRotationResumeState = "resume" | "completed" | "stale";
+
+/**
+ * Rotation progress counts
+ */
+export interface SealIdRotationCounts {
+	/** Finished steps (data blobs, image binaries, metadata blob, passport update) */
+	done: number;
+	/** Total steps */
+	total: number;
+}
+
+// ==========================================
+// Errors
+// ==========================================
+
+/**
+ * Rotation refused because saves of the data type are still queued
+ */
+export class SealIdRotationBlockedError extends Error {
+	constructor(
+		public readonly dataType: DataType,
+		/** Outbox items of the data type */
+		public readonly queuedSaves: number,
+	) {
+		super(
+			`${dataType} has ${queuedSaves} queued save(s) encrypted under the current seal_id; rotate after they are sent`,
+		);
+		this.name = "SealIdRotationBlockedError";
+	}
+}
+
+// ==========================================
+// Seal ID Resolution
+// ==========================================
+
+/**
+ * Seal ID to encrypt data of a type with
+ *
+ * Uses the seal_id recorded in the passport's EntryData when the type
+ * exists there (it may have been rotated), otherwise derives the original
+ * one from the address.
+ *
+ * @param params - Owner address, data type and passport ID (looked up from the address if omitted)
+ * @returns seal_id as hex string
+ */
+export async function resolveSealId(params: {
+	passportId?: string | null;
+	address: string;
+	dataType: DataType | string;
+}): Promise<string> {
+	const { address, dataType } = params;
+	const passportId =
+		params.passportId ?? (await getPassportIdByAddress(address));
+	if (passportId) {
+		const entry = await getDataEntry(passportId, dataType);
+		if (entry?.sealId) {
+			return entry.sealId;
+		}
+	}
+	return generateSealId(address, dataType);
+}
+
+// ==========================================
+// Job State
+// ==========================================
+
+/**
+ * Image binaries an imaging_binary EntryData and imaging_meta entries reference
+ *
+ * @param metadata - Decrypted imaging_meta metadata
+ * @param binaryEntry - Current imaging_binary EntryData
+ * @returns Unique binary blob IDs (the EntryData blob included)
+ */
+function getBinaryBlobIds(
+	metadata: BaseMetadata<BaseMetadataEntry>,
+	binaryEntry: EntryData,
+): string[] {
+	const blobIds = (metadata.entries as ImagingMetadataEntry[])
+		.map((e) => e.binary_blob_id)
+		.filter((blobId): blobId is string => !!blobId);
+	return [...new Set([...blobIds, binaryEntry.metadataBlobId])];
+}
+
+/**
+ * Create a rotation job for the current EntryData and metadata
+ *
+ * For imaging_meta, pass the imaging_binary EntryData and the new
+ * imaging_binary seal_id to rotate the image binaries as well.
+ *
+ * @param params - Owner, passport, data type, EntryData, decrypted metadata and new identity
+ * @returns New job with nothing re-encrypted yet
+ */
+export function createRotationJob(params: {
+	owner: string;
+	passportId: string;
+	dataType: DataType;
+	entry: EntryData;
+	metadata: BaseMetadata<BaseMetadataEntry>;
+	rotationNonce: string;
+	newSealId: string;
+	binaryEntry?: EntryData | null;
+	newBinarySealId?: string;
+	now?: number;
+}): SealIdRotationJob {
+	const { binaryEntry, newBinarySealId } = params;
+	const now = params.now ?? Date.now();
+	return {
+		owner: params.owner,
+		passportId: params.passportId,
+		dataType: params.dataType,
+		rotationNonce: params.rotationNonce,
+		oldSealId: params.entry.sealId,
+		newSealId: params.newSealId,
+		sourceMetadataBlobId: params.entry.metadataBlobId,
+		blobIds: [...new Set(params.metadata.entries.map((e) => e.blob_id))],
+		rotated: {},
+		metadataBlobId: null,
+		binary:
+			binaryEntry && newBinarySealId
+				? {
+						oldSealId: binaryEntry.sealId,
+						newSealId: newBinarySealId,
+						sourceBlobId: binaryEntry.metadataBlobId,
+						blobIds: getBinaryBlobIds(params.metadata, binaryEntry),
+						rotated: {},
+					}
+				: null,
+		error: null,
+		startedAt: now,
+		updatedAt: now,
+	};
+}
+
+/**
+ * Compare a saved job with the current EntryData
+ *
+ * @param job - Saved rotation job
+ * @param entry - Current EntryData (null if the data type was removed)
+ * @returns Whether to resume, finish or drop the job
+ */
+export function getRotationResumeState(
+	job: SealIdRotationJob,
+	entry: EntryData | null,
+): SealIdRotationResumeState {
+	if (entry?.sealId === job.newSealId) {
+		return "completed";
+	}
+	if (!entry || entry.sealId !== job.oldSealId) {
+		return "stale";
+	}
+	return "resume";
+}
+
+/**
+ * Rebuild a job after the data type was saved while it was interrupted
+ *
+ * Re-encrypted blobs (and image binaries) that the new metadata still
+ * references are kept; the metadata blob must be re-encrypted again.
+ *
+ * @param job - Saved rotation job
+ * @param entry - Current EntryData (still on the old seal_id)
+ * @param metadata - Current decrypted metadata
+ * @param binaryEntry - Current imaging_binary EntryData (imaging_meta jobs)
+ * @returns Job for the current metadata (unchanged if nothing was saved)
+ */
+export function rebaseRotationJob(
+	job: SealIdRotationJob,
+	entry: EntryData,
+	metadata: BaseMetadata<BaseMetadataEntry>,
+	binaryEntry?: EntryData | null,
+): SealIdRotationJob {
+	const binaryMoved =
+		!!job.binary && binaryEntry?.metadataBlobId !== job.binary.sourceBlobId;
+	if (entry.metadataBlobId === job.sourceMetadataBlobId && !binaryMoved) {
+		return job;
+	}
+	const blobIds = [...new Set(metadata.entries.map((e) => e.blob_id))];
+	let binary: SealIdRotationBinaryJob | null = null;
+	if (job.binary && binaryEntry) {
+		const binaryBlobIds = getBinaryBlobIds(metadata, binaryEntry);
+		binary = {
+			...job.binary,
+			oldSealId: binaryEntry.sealId,
+			sourceBlobId: binaryEntry.metadataBlobId,
+			blobIds: binaryBlobIds,
+			// Uploads of binaries read under another seal_id cannot be reused
+			rotated:
+				binaryEntry.sealId === job.binary.oldSealId
+					? keepRotated(job.binary.rotated, binaryBlobIds)
+					: {},
+		};
+	}
+	return {
+		...job,
+		sourceMetadataBlobId: entry.metadataBlobId,
+		blobIds,
+		rotated: keepRotated(job.rotated, blobIds),
+		metadataBlobId: null,
+		binary,
+		updatedAt: Date.now(),
+	};
+}
+
+function keepRotated(
+	rotated: Record<string, BaseMetadataEntry>,
+	blobIds: string[],
+): Record<string, BaseMetadataEntry> {
+	const kept: Record<string, BaseMetadataEntry> = {};
+	for (const blobId of blobIds) {
+		if (rotated[blobId]) {
+			kept[blobId] = rotated[blobId];
+		}
+	}
+	return kept;
+}
+
+/**
+ * Record a re-encrypted data blob
+ *
+ * @param job - Rotation job
+ * @param sourceBlobId - blob_id the data was read from
+ * @param fields - Storage fields of the re-encrypted upload (toEntryBlobFields, plus seal_id for entry seal_ids)
+ * @returns Updated job (input is not mutated)
+ */
+export function recordRotatedBlob(
+	job: SealIdRotationJob,
+	sourceBlobId: string,
+	fields: BaseMetadataEntry,
+): SealIdRotationJob {
+	return {
+		...job,
+		rotated: { ...job.rotated, [sourceBlobId]: fields },
+		error: null,
+		updatedAt: Date.now(),
+	};
+}
+
+/**
+ * Record a re-encrypted image binary
+ *
+ * @param job - imaging_meta rotation job
+ * @param sourceBlobId - Binary blob ID the image was read from
+ * @param fields - Storage fields of the re-encrypted upload (toEntryBlobFields)
+ * @returns Updated job (input is not mutated)
+ * @throws Error if the job does not rotate image binaries
+ */
+export function recordRotatedBinary(
+	job: SealIdRotationJob,
+	sourceBlobId: string,
+	fields: BaseMetadataEntry,
+): SealIdRotationJob {
+	if (!job.binary) {
+		throw new Error(`${job.dataType} rotation has no image binaries`);
+	}
+	return {
+		...job,
+		binary: {
+			...job.binary,
+			rotated: { ...job.binary.rotated, [sourceBlobId]: fields },
+		},
+		error: null,
+		updatedAt: Date.now(),
+	};
+}
+
+/**
+ * seal_id to re-encrypt the data blob of an entry under
+ *
+ * @param entry - Metadata entry being rotated
+ * @param job - Rotation job
+ * @returns Entry seal_id with the same nonce under the new seal_id, or the new seal_id
+ */
+export function getRotatedEntrySealId(
+	entry: BaseMetadataEntry,
+	job: SealIdRotationJob,
+): string {
+	const nonce = entry.seal_id
+		? getEntryNonce(entry.seal_id, job.oldSealId)
+		: null;
+	return nonce ? deriveEntrySealId(job.newSealId, nonce) : job.newSealId;
+}
+
+/**
+ * Point metadata entries at their re-encrypted data blobs
+ *
+ * The storage fields of each entry (blob_id, end_epoch, chunk_manifest,
+ * sha256, size, seal_id) are replaced by those of the re-encrypted upload,
+ * and for imaging_meta the binary_* fields by those of the re-encrypted
+ * image binary.
+ *
+ * @param metadata - Metadata the job was built from
+ * @param job - Rotation job with every data blob (and image binary) re-encrypted
+ * @returns Updated metadata (input is not mutated)
+ * @throws Error if a data blob or image binary has not been re-encrypted
+ */
+export function applyRotatedBlobs<TEntry extends BaseMetadataEntry>(
+	metadata: BaseMetadata<TEntry>,
+	job: SealIdRotationJob,
+): BaseMetadata<TEntry> {
+	const entries = metadata.entries.map((entry) => {
+		const fields = job.rotated[entry.blob_id];
+		if (!fields) {
+			throw new Error(`Blob ${entry.blob_id} has not been re-encrypted`);
+		}
+		const {
+			blob_id: _blobId,
+			end_epoch: _endEpoch,
+			chunk_manifest: _chunkManifest,
+			sha256: _sha256,
+			size: _size,
+			seal_id: _sealId,
+			...rest
+		} = entry;
+		return applyRotatedBinary({ ...rest, ...fields }, job) as TEntry;
+	});
+	return { ...metadata, entries, updated_at: Date.now() };
+}
+
+function applyRotatedBinary(
+	entry: BaseMetadataEntry,
+	job: SealIdRotationJob,
+): BaseMetadataEntry {
+	const imaging = entry as ImagingMetadataEntry;
+	if (!job.binary || !imaging.binary_blob_id) {
+		return entry;
+	}
+	const fields = job.binary.rotated[imaging.binary_blob_id];
+	if (!fields) {
+		throw new Error(
+			`Image binary ${imaging.binary_blob_id} has not been re-encrypted`,
+		);
+	}
+	const {
+		binary_blob_id: _blobId,
+		binary_end_epoch: _endEpoch,
+		binary_chunk_manifest: _chunkManifest,
+		binary_sha256: _sha256,
+		binary_size: _size,
+		...rest
+	} = imaging;
+	return {
+		...rest,
+		binary_blob_id: fields.blob_id,
+		...(fields.end_epoch !== undefined && {
+			binary_end_epoch: fields.end_epoch,
+		}),
+		...(fields.chunk_manifest && {
+			binary_chunk_manifest: fields.chunk_manifest,
+		}),
+		...(fields.sha256 && { binary_sha256: fields.sha256 }),
+		...(fields.size !== undefined && { binary_size: fields.size }),
+	} as ImagingMetadataEntry;
+}
+
+/**
+ * Count finished steps of a job
+ *
+ * @param job - Rotation job
+ * @returns Data blobs and image binaries re-encrypted plus metadata upload, out of all steps
+ */
+export function getRotationCounts(
+	job: SealIdRotationJob,
+): SealIdRotationCounts {
+	const rotatedBlobs = job.blobIds.filter((id) => job.rotated[id]).length;
+	const binary = job.binary;
+	const rotatedBinaries = binary
+		? binary.blobIds.filter((id) => binary.rotated[id]).length
+		: 0;
+	return {
+		done: rotatedBlobs + rotatedBinaries + (job.metadataBlobId ? 1 : 0),
+		// data blobs + image binaries + metadata blob + passport update
+		total: job.blobIds.length + (binary?.blobIds.length ?? 0) + 2,
+	};
+}
+
+/**
+ * Blobs a job has uploaded that the SBT does not reference yet
+ *
+ * Blob GC treats them as reachable while the job is unfinished, so a
+ * paused rotation resumes with its uploads intact.
+ *
+ * @param job - Rotation job
+ * @returns Re-encrypted data blob and image binary IDs (chunk blobs included) and the metadata blob ID
+ */
+export function getRotationJobBlobIds(job: SealIdRotationJob): string[] {
+	const blobIds: string[] = [];
+	for (const fields of [
+		...Object.values(job.rotated),
+		...Object.values(job.binary?.rotated ?? {}),
+	]) {
+		blobIds.push(fields.blob_id);
+		for (const chunk of fields.chunk_manifest?.chunks ?? []) {
+			blobIds.push(chunk.blob_id);
+		}
+	}
+	if (job.metadataBlobId) {
+		blobIds.push(job.metadataBlobId);
+	}
+	return blobIds;
+}
+
+// ==========================================
+// Job Persistence
+// ==========================================
+
+function storageKey(owner: string): string {
+	return `${ROTATION_JOB_STORAGE_PREFIX}${owner.toLowerCase()}`;
+}
+
+function readJobs(owner: string): Record<string, SealIdRotationJob> {
+	if (typeof window === "undefined") {
+		return {};
+	}
+	const stored = localStorage.getItem(storageKey(owner));
+	if (!stored) {
+		return {};
+	}
+	try {
+		const parsed = JSON.parse(stored);
+		return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+			? (parsed as Record<string, SealIdRotationJob>)
+			: {};
+	} catch (error) {
+		console.warn("[SealIdRotation] Corrupted rotation jobs, ignoring", error);
+		return {};
+	}
+}
+
+function writeJobs(
+	owner: string,
+	jobs: Record<string, SealIdRotationJob>,
+): void {
+	if (Object.keys(jobs).length === 0) {
+		localStorage.removeItem(storageKey(owner));
+		return;
+	}
+	localStorage.setItem(storageKey(owner), JSON.stringify(jobs));
+}
+
+/**
+ * Load unfinished rotation jobs of an owner
+ *
+ * @param owner - Owner wallet address
+ * @returns Jobs (empty outside the browser or if unreadable)
+ */
+export function loadRotationJobs(owner: string): SealIdRotationJob[] {
+	return Object.values(readJobs(owner));
+}
+
+/**
+ * Load the unfinished rotation job of one data type
+ *
+ * @param owner - Owner wallet address
+ * @param dataType - Data type
+ * @returns Job, or null if none
+ */
+export function loadRotationJob(
+	owner: string,
+	dataType: DataType,
+): SealIdRotationJob | null {
+	return readJobs(owner)[dataType] ?? null;
+}
+
+/**
+ * Save a rotation job (replaces the job of the same data type)
+ */
+export function saveRotationJob(job: SealIdRotationJob): void {
+	if (typeof window === "undefined") {
+		return;
+	}
+	writeJobs(job.owner, { ...readJobs(job.owner), [job.dataType]: job });
+}
+
+/**
+ * Remove the rotation job of a data type (finished or discarded)
+ */
+export function clearRotationJob(owner: string, dataType: DataType): void {
+	if (typeof window === "undefined") {
+		return;
+	}
+	const { [dataType]: _removed, ...rest } = readJobs(owner);
+	writeJobs(owner, rest);
+}
@@ -0,0 +1,422 @@
+/**
+ * Seal Key Server Configuration & Diagnostics
+ *
+ * NEXT_PUBLIC_SEAL_KEY_SERVERS accepts either the legacy comma-separated
+ * list of key server object IDs (every server weight 1) or a JSON document
+ * describing a t-of-n policy:
+ *
+ * ```json
+ * {
+ *   "threshold": 3,
+ *   "servers": [
+ *     { "objectId": "0x...", "weight": 2, "url": "https://seal.example.com" },
+ *     { "objectId": "0x..." }
+ *   ]
+ * }
+ * ```
+ *
+ * - `weight` (default 1) is the number of shares the server holds
+ * - `url` overrides the URL registered on-chain (e.g. a proxy)
+ * - `threshold` is the total weight needed to decrypt. Without it,
+ *   NEXT_PUBLIC_SEAL_THRESHOLD is used, and otherwise min(2, total weight)
+ *
+ * Weights and threshold are written into each encrypted object, so changing
+ * them only affects data encrypted afterwards.
+ *
+ * The diagnostics part pings each server and remembers which servers
+ * supplied keys for the last decrypt (see lib/seal.ts).
+ */
+
+import { isValidSuiObjectId, normalizeSuiObjectId } from "@mysten/sui/utils";
+
+// ==========================================
+// Type Definitions
+// ==========================================
+
+/**
+ * One configured key server
+ */
+export interface SealKeyServerEntry {
+	/** Key server object ID (normalized) */
+	objectId: string;
+	/** Number of shares held by this server (positive integer) */
+	weight: number;
+	/** Base URL overriding the on-chain registration */
+	url?: string;
+}
+
+/**
+ * Parsed key server configuration
+ */
+export interface SealKeyServerConfig {
+	servers: SealKeyServerEntry[];
+	/** Total weight required to decrypt */
+	threshold: number;
+	/** Sum of all server weights */
+	totalWeight: number;
+}
+
+/**
+ * Result of pinging one key server
+ */
+export interface KeyServerPingResult {
+	objectId: string;
+	/** URL that was pinged */
+	url: string;
+	ok: boolean;
+	/** Round-trip time (ms) */
+	latencyMs: number | null;
+	/** Error message if the ping failed */
+	error: string | null;
+	/** Ping time (Unix timestamp ms) */
+	checkedAt: number;
+}
+
+/**
+ * Reachability of the configured set against the threshold
+ */
+export interface KeyServerReachability {
+	/** Sum of the weights of servers that answered the ping */
+	reachableWeight: number;
+	/** Number of servers that answered the ping */
+	reachableCount: number;
+	threshold: number;
+	totalWeight: number;
+	/** True when the reachable weight cannot meet the threshold */
+	belowThreshold: boolean;
+}
+
+/**
+ * Outcome of the most recent Seal decrypt
+ */
+export interface SealDecryptRecord {
+	ok: boolean;
+	/** Object IDs of the key servers whose keys were used */
+	servers: string[];
+	/** Error message if the decrypt failed */
+	error: string | null;
+	/** Decrypt time (Unix timestamp ms) */
+	at: number;
+}
+
+// ==========================================
+// Errors
+// ==========================================
+
+/**
+ * Raised when NEXT_PUBLIC_SEAL_KEY_SERVERS / NEXT_PUBLIC_SEAL_THRESHOLD
+ * cannot be used
+ */
+export class SealKeyServerConfigError extends Error {
+	constructor(detail: string) {
+		super(`Invalid Seal key server configuration: ${detail}`);
+		this.name = "SealKeyServerConfigError";
+	}
+}
+
+// ==========================================
+// Configuration
+// ==========================================
+
+/**
+ * Default ping timeout (ms)
+ */
+const DEFAULT_PING_TIMEOUT_MS = 5_000;
+
+/**
+ * Threshold used when none is configured
+ * - 1 server: threshold = 1 (single point of failure, but functional)
+ * - 2+ servers: threshold = 2 (recommended for redundancy and security)
+ *
+ * @param totalWeight - Sum of the configured server weights
+ * @returns Default threshold (1 or 2)
+ */
+export function defaultThreshold(totalWeight: number): number {
+	return Math.min(2, Math.max(1, totalWeight));
+}
+
+function parseThreshold(value: unknown): number | undefined {
+	if (value === undefined || value === null || value === "") {
+		return undefined;
+	}
+	const threshold = typeof value === "string" ? Number(value) : value;
+	if (
+		typeof threshold !== "number" ||
+		!Number.isInteger(threshold) ||
+		threshold < 1
+	) {
+		throw new SealKeyServerConfigError(
+			`threshold must be a positive integer (got ${JSON.stringify(value)})`,
+		);
+	}
+	return threshold;
+}
+
+function parseServerEntry(value: unknown, index: number): SealKeyServerEntry {
+	const raw =
+		typeof value === "string"
+			? { objectId: value }
+			: (value as Record<string, unknown> | null);
+	if (!raw || typeof raw !== "object") {
+		throw new SealKeyServerConfigError(`servers[${index}] is not an object`);
+	}
+
+	const objectId = typeof raw.objectId === "string" ? raw.objectId.trim() : "";
+	if (!objectId || !isValidSuiObjectId(normalizeSuiObjectId(objectId))) {
+		throw new SealKeyServerConfigError(
+			`servers[${index}].objectId is not a Sui object ID`,
+		);
+	}
+
+	const weight = raw.weight ?? 1;
+	if (typeof weight !== "number" || !Number.isInteger(weight) || weight < 1) {
+		throw new SealKeyServerConfigError(
+			`servers[${index}].weight must be a positive integer`,
+		);
+	}
+
+	const entry: SealKeyServerEntry = {
+		objectId: normalizeSuiObjectId(objectId),
+		weight,
+	};
+
+	if (raw.url !== undefined) {
+		let url: URL | null = null;
+		try {
+			url = typeof raw.url === "string" ? new URL(raw.url) : null;
+		} catch {
+			url = null;
+		}
+		if (!url || (url.protocol !== "https:" && url.protocol !== "http:")) {
+			throw new SealKeyServerConfigError(
+				`servers[${index}].url must be an http(s) URL`,
+			);
+		}
+		entry.url = url.toString().replace(/\/+$/, "");
+	}
+
+	return entry;
+}
+
+/**
+ * Parse the key server configuration
+ *
+ * @param raw - NEXT_PUBLIC_SEAL_KEY_SERVERS (JSON or comma-separated IDs)
+ * @param thresholdRaw - NEXT_PUBLIC_SEAL_THRESHOLD (used when the JSON has none)
+ * @returns Validated configuration
+ * @throws SealKeyServerConfigError if the configuration is unusable
+ */
+export function parseSealKeyServerConfig(
+	raw: string | undefined,
+	thresholdRaw?: string,
+): SealKeyServerConfig {
+	const text = raw?.trim() ?? "";
+	if (!text) {
+		throw new SealKeyServerConfigError(
+			"no key servers configured. Set NEXT_PUBLIC_SEAL_KEY_SERVERS.",
+		);
+	}
+
+	let serverValues: unknown[];
+	let jsonThreshold: unknown;
+	if (text.startsWith("{") || text.startsWith("[")) {
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(text);
+		} catch (error) {
+			throw new SealKeyServerConfigError(
+				`not valid JSON (${error instanceof Error ? error.message : String(error)})`,
+			);
+		}
+		if (Array.isArray(parsed)) {
+			serverValues = parsed;
+		} else {
+			const document = parsed as { servers?: unknown; threshold?: unknown };
+			if (!Array.isArray(document.servers)) {
+				throw new SealKeyServerConfigError('"servers" must be an array');
+			}
+			serverValues = document.servers;
+			jsonThreshold = document.threshold;
+		}
+	} else {
+		serverValues = text
+			.split(",")
+			.map((id) => id.trim())
+			.filter(Boolean);
+	}
+
+	const servers = serverValues.map(parseServerEntry);
+	if (servers.length === 0) {
+		throw new SealKeyServerConfigError("no key servers configured");
+	}
+	const seen = new Set<string>();
+	for (const server of servers) {
+		if (seen.has(server.objectId)) {
+			throw new SealKeyServerConfigError(
+				`key server ${server.objectId} is listed twice`,
+			);
+		}
+		seen.add(server.objectId);
+	}
+
+	const totalWeight = servers.reduce((sum, server) => sum + server.weight, 0);
+	const threshold =
+		parseThreshold(jsonThreshold) ??
+		parseThreshold(thresholdRaw) ??
+		defaultThreshold(totalWeight);
+	if (threshold > totalWeight) {
+		throw new SealKeyServerConfigError(
+			`threshold ${threshold} exceeds the total weight ${totalWeight}`,
+		);
+	}
+
+	return { servers, threshold, totalWeight };
+}
+
+/**
+ * Replace on-chain key server URLs with configured overrides
+ *
+ * @param keyServers - Key servers loaded by the Seal SDK (object ID → server)
+ * @param servers - Configured servers
+ * @returns New map with overridden URLs (input is not modified)
+ */
+export function applyKeyServerUrlOverrides<T extends { url: string }>(
+	keyServers: Map<string, T>,
+	servers: SealKeyServerEntry[],
+): Map<string, T> {
+	const overrides = new Map(
+		servers
+			.filter((server) => server.url)
+			.map((server) => [server.objectId, server.url as string]),
+	);
+	if (overrides.size === 0) {
+		return keyServers;
+	}
+	return new Map(
+		[...keyServers].map(([objectId, server]) => {
+			const url = overrides.get(objectId);
+			return [objectId, url ? { ...server, url } : server];
+		}),
+	);
+}
+
+// ==========================================
+// Diagnostics
+// ==========================================
+
+/**
+ * Ping a key server's service endpoint
+ *
+ * @param server - Object ID and base URL of the server
+ * @param options - Timeout and fetch implementation
+ * @returns Ping result (never throws)
+ */
+export async function pingKeyServer(
+	server: { objectId: string; url: string },
+	options: { timeoutMs?: number; fetchFn?: typeof fetch } = {},
+): Promise<KeyServerPingResult> {
+	const { timeoutMs = DEFAULT_PING_TIMEOUT_MS, fetchFn = fetch } = options;
+	const controller = new AbortController();
+	const timer = setTimeout(() => controller.abort(), timeoutMs);
+	const startedAt = Date.now();
+
+	try {
+		const response = await fetchFn(
+			`${server.url}/v1/service?service_id=${server.objectId}`,
+			{ signal: controller.signal },
+		);
+		const latencyMs = Date.now() - startedAt;
+		return {
+			objectId: server.objectId,
+			url: server.url,
+			ok: response.ok,
+			latencyMs,
+			error: response.ok ? null : `HTTP ${response.status}`,
+			checkedAt: startedAt,
+		};
+	} catch (error) {
+		return {
+			objectId: server.objectId,
+			url: server.url,
+			ok: false,
+			latencyMs: null,
+			error: controller.signal.aborted
+				? `Timed out after ${timeoutMs}ms`
+				: error instanceof Error
+					? error.message
+					: String(error),
+			checkedAt: startedAt,
+		};
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+/**
+ * Compare the servers that answered a ping with the threshold
+ *
+ * @param config - Key server configuration
+ * @param results - Ping results
+ * @returns Reachable weight and whether it falls below the threshold
+ */
+export function summarizeKeyServerReachability(
+	config: SealKeyServerConfig,
+	results: KeyServerPingResult[],
+): KeyServerReachability {
+	const reachable = new Set(
+		results.filter((result) => result.ok).map((result) => result.objectId),
+	);
+	const reachableServers = config.servers.filter((server) =>
+		reachable.has(server.objectId),
+	);
+	const reachableWeight = reachableServers.reduce(
+		(sum, server) => sum + server.weight,
+		0,
+	);
+
+	return {
+		reachableWeight,
+		reachableCount: reachableServers.length,
+		threshold: config.threshold,
+		totalWeight: config.totalWeight,
+		belowThreshold: reachableWeight < config.threshold,
+	};
+}
+
+// ==========================================
+// Last Decrypt
+// ==========================================
+
+type SealDecryptListener = (record: SealDecryptRecord) => void;
+
+let lastDecrypt: SealDecryptRecord | null = null;
+const listeners = new Set<SealDecryptListener>();
+
+/**
+ * Outcome of the most recent decrypt in this page, if any
+ */
+export function getLastSealDecrypt(): SealDecryptRecord | null {
+	return lastDecrypt;
+}
+
+/**
+ * Subscribe to decrypt outcomes
+ *
+ * @returns Unsubscribe function
+ */
+export function onSealDecrypt(listener: SealDecryptListener): () => void {
+	listeners.add(listener);
+	return () => {
+		listeners.delete(listener);
+	};
+}
+
+/**
+ * Record the outcome of a decrypt (called by the Seal client in lib/seal.ts)
+ */
+export function recordSealDecrypt(record: SealDecryptRecord): void {
+	lastDecrypt = record;
+	for (const listener of listeners) {
+		listener(record);
+	}
+}
@@ -1,7 +1,7 @@
 /**
  * SessionKey Utilities
  *
- * This module provides utilities for parsing, validating, and managing
+ * This module provides utilities for serializing, verifying, and managing
  * Seal SessionKey instances for time-limited decryption access.
  *
  * SessionKey Architecture:
@@ -10,14 +10,54 @@
  * - SessionKey provides time-limited access to decrypt data
  * - Signature is verified by Seal key servers
  *
+ * X-Session-Key Header (v1):
+ * - base64(JSON) of `SessionKey.export()` plus a format version
+ *   `{ v: 1, address, packageId, mvrName?, creationTimeMs, ttlMin,
+ *     personalMessageSignature, sessionKey }`
+ * - API routes rebuild the key with `SessionKey.import()` after checking the
+ *   package ID, the TTL, the claimed wallet address and the personal-message
+ *   signature; failures are reported as SessionKeyAuthError with a reason
+ * - The header carries the ephemeral session secret: it is a bearer
+ *   credential for the remaining TTL and must only be sent over HTTPS to
+ *   this app's own API routes
+ *
  * Best Practices (from Seal docs):
- * - Store SessionKey securely (HttpOnly cookies recommended)
  * - Validate expiration before each use
  * - Refresh SessionKey before expiration
- * - Never expose SessionKey to client-side JavaScript
  */
 
-import type { SessionKey } from "@mysten/seal";
+import { fromBase64, toBase64 } from "@mysten/bcs";
+import {
+	type ExportedSessionKey,
+	type SealCompatibleClient,
+	SessionKey,
+} from "@mysten/seal";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+
+// ==========================================
+// Constants
+// ==========================================
+
+/**
+ * HTTP header carrying the serialized SessionKey
+ */
+export const SESSION_KEY_HEADER = "X-Session-Key";
+
+/**
+ * Current header format version
+ */
+const SESSION_KEY_HEADER_VERSION = 1;
+
+/**
+ * Tolerated clock skew between browser and server for creation times
+ */
+const CLOCK_SKEW_MS = 60 * 1000;
+
+/**
+ * TTL range accepted by Seal (minutes)
+ */
+const MIN_TTL_MIN = 1;
+const MAX_TTL_MIN = 30;
 
 // ==========================================
 // Type Definitions
@@ -25,71 +65,279 @@ import type { SessionKey } from "@mysten/seal";
 
 /**
  * SessionKey header format for HTTP transmission
- * Base64-encoded JSON containing signature and expiration
+ * (`SessionKey.export()` with a format version; base64-encoded JSON)
  */
 export interface SessionKeyHeader {
-	signature: string; // Base64-encoded signature
-	expiresAt: number; // Unix timestamp in milliseconds
+	/** Header format version */
+	v: number;
+	/** Wallet address that signed the personal message */
+	address: string;
+	/** Package the session key grants access to */
+	packageId: string;
+	/** MVR name, if the key was created with one */
+	mvrName?: string;
+	/** Creation time (Unix timestamp ms) */
+	creationTimeMs: number;
+	/** TTL in minutes */
+	ttlMin: number;
+	/** Wallet signature over the session key's personal message */
+	personalMessageSignature: string;
+	/** Ephemeral session secret key (bech32) */
+	sessionKey: string;
 }
 
+/**
+ * Why a SessionKey was rejected (returned with 401 responses)
+ */
+export type SessionKeyRejectionReason =
+	| "missing"
+	| "malformed"
+	| "wrong_package"
+	| "expired"
+	| "address_mismatch"
+	| "invalid_signature";
+
 // ==========================================
-// SessionKey Parsing & Validation
+// Errors
 // ==========================================
 
 /**
- * Parse SessionKey from HTTP header value
- *
- * Flow:
- * 1. Decode base64 → JSON
- * 2. Validate structure
- * 3. Check expiration
- * 4. Return SessionKey instance
+ * Raised when a SessionKey cannot be used to authenticate a request
+ */
+export class SessionKeyAuthError extends Error {
+	readonly reason: SessionKeyRejectionReason;
+
+	constructor(reason: SessionKeyRejectionReason, detail: string) {
+		super(`Invalid session key: ${detail}`);
+		this.name = "SessionKeyAuthError";
+		this.reason = reason;
+	}
+}
+
+// ==========================================
+// SessionKey Serialization
+// ==========================================
+
+/**
+ * Serialize SessionKey for HTTP transmission
  *
- * @param headerValue - X-Session-Key header value (base64 encoded JSON)
- * @returns Parsed SessionKey instance
- * @throws Error if invalid format or expired
+ * @param sessionKey - Signed SessionKey instance
+ * @returns Base64-encoded JSON string
+ * @throws SessionKeyAuthError if the key is expired or not signed yet
  *
  * @example
  * ```typescript
- * const sessionKey = parseSessionKeyFromHeader(
- *   request.headers.get("X-Session-Key")
- * );
+ * await fetch(url, {
+ *   headers: { [SESSION_KEY_HEADER]: serializeSessionKey(sessionKey) },
+ * });
  * ```
  */
-export function parseSessionKeyFromHeader(
+export function serializeSessionKey(sessionKey: SessionKey): string {
+	validateSessionKey(sessionKey);
+	const exported = sessionKey.export();
+
+	// export() forbids JSON.stringify on itself; copy the fields explicitly
+	const data: SessionKeyHeader = {
+		v: SESSION_KEY_HEADER_VERSION,
+		address: exported.address,
+		packageId: exported.packageId,
+		...(exported.mvrName && { mvrName: exported.mvrName }),
+		creationTimeMs: exported.creationTimeMs,
+		ttlMin: exported.ttlMin,
+		personalMessageSignature: exported.personalMessageSignature ?? "",
+		sessionKey: exported.sessionKey,
+	};
+
+	return toBase64(new TextEncoder().encode(JSON.stringify(data)));
+}
+
+// ==========================================
+// SessionKey Parsing & Verification
+// ==========================================
+
+/**
+ * Decode the X-Session-Key header without verifying it
+ *
+ * @param headerValue - X-Session-Key header value (base64 encoded JSON)
+ * @returns Header fields
+ * @throws SessionKeyAuthError ("missing" / "malformed")
+ */
+export function decodeSessionKeyHeader(
 	headerValue: string | null,
-): SessionKey {
+): SessionKeyHeader {
 	if (!headerValue) {
-		throw new Error("Missing X-Session-Key header");
+		throw new SessionKeyAuthError(
+			"missing",
+			`${SESSION_KEY_HEADER} header is missing`,
+		);
 	}
 
+	let parsed: unknown;
 	try {
-		// Decode base64 → JSON
-		const decoded = Buffer.from(headerValue, "base64").toString("utf-8");
-		const parsed = JSON.parse(decoded) as SessionKeyHeader;
+		parsed = JSON.parse(new TextDecoder().decode(fromBase64(headerValue)));
+	} catch {
+		throw new SessionKeyAuthError("malformed", "header is not base64 JSON");
+	}
 
-		// Validate structure
-		if (!parsed.signature || typeof parsed.expiresAt !== "number") {
-			throw new Error("Invalid SessionKey format");
+	if (!parsed || typeof parsed !== "object") {
+		throw new SessionKeyAuthError("malformed", "header is not an object");
+	}
+	const data = parsed as Partial<SessionKeyHeader>;
+	if (data.v !== SESSION_KEY_HEADER_VERSION) {
+		throw new SessionKeyAuthError(
+			"malformed",
+			`header version ${String(data.v)} is not supported`,
+		);
+	}
+	for (const field of [
+		"address",
+		"packageId",
+		"personalMessageSignature",
+		"sessionKey",
+	] as const) {
+		if (typeof data[field] !== "string" || data[field] === "") {
+			throw new SessionKeyAuthError("malformed", `${field} is missing`);
 		}
+	}
+	if (data.mvrName !== undefined && typeof data.mvrName !== "string") {
+		throw new SessionKeyAuthError("malformed", "mvrName must be a string");
+	}
+	if (
+		typeof data.creationTimeMs !== "number" ||
+		!Number.isFinite(data.creationTimeMs)
+	) {
+		throw new SessionKeyAuthError("malformed", "creationTimeMs is missing");
+	}
+	if (
+		typeof data.ttlMin !== "number" ||
+		!Number.isInteger(data.ttlMin) ||
+		data.ttlMin < MIN_TTL_MIN ||
+		data.ttlMin > MAX_TTL_MIN
+	) {
+		throw new SessionKeyAuthError(
+			"malformed",
+			`ttlMin must be an integer between ${MIN_TTL_MIN} and ${MAX_TTL_MIN}`,
+		);
+	}
 
-		// Check expiration
-		if (isExpired(parsed.expiresAt)) {
-			throw new Error("SessionKey has expired");
-		}
+	return data as SessionKeyHeader;
+}
+
+/**
+ * Expiration time of a SessionKey header
+ *
+ * @param header - Decoded header
+ * @returns Unix timestamp in milliseconds
+ */
+export function getSessionKeyExpiresAt(header: SessionKeyHeader): number {
+	return header.creationTimeMs + header.ttlMin * 60 * 1000;
+}
 
-		// Reconstruct SessionKey from JSON
-		// Note: SessionKey.fromJSON() might be available in future versions
-		// For now, we assume the SessionKey can be reconstructed from the signature
-		// This is a placeholder - actual implementation depends on @mysten/seal API
-		const sessionKey = reconstructSessionKey(parsed);
+/**
+ * Verify the X-Session-Key header of an API request
+ *
+ * Flow:
+ * 1. Decode base64 → JSON and validate structure
+ * 2. Check the package ID and the TTL window
+ * 3. Check the claimed wallet address (if given)
+ * 4. Rebuild the SessionKey and verify the personal-message signature
+ *    against the header address
+ *
+ * @param headerValue - X-Session-Key header value (base64 encoded JSON)
+ * @param options - Sui client, expected package ID and claimed wallet address
+ * @returns Verified SessionKey instance (usable for decryption)
+ * @throws SessionKeyAuthError with the rejection reason
+ *
+ * @example
+ * ```typescript
+ * const sessionKey = await verifySessionKeyHeader(
+ *   request.headers.get(SESSION_KEY_HEADER),
+ *   { suiClient, packageId, address },
+ * );
+ * ```
+ */
+export async function verifySessionKeyHeader(
+	headerValue: string | null,
+	options: {
+		suiClient: SealCompatibleClient;
+		packageId: string;
+		address?: string;
+		now?: number;
+	},
+): Promise<SessionKey> {
+	const { suiClient, packageId, address } = options;
+	if (!packageId) {
+		throw new Error("NEXT_PUBLIC_PACKAGE_ID is not set");
+	}
+	const now = options.now ?? Date.now();
+	const header = decodeSessionKeyHeader(headerValue);
 
-		return sessionKey;
+	if (!sameId(header.packageId, packageId)) {
+		throw new SessionKeyAuthError(
+			"wrong_package",
+			`issued for package ${header.packageId}`,
+		);
+	}
+	if (header.creationTimeMs > now + CLOCK_SKEW_MS) {
+		throw new SessionKeyAuthError(
+			"malformed",
+			"creation time is in the future",
+		);
+	}
+	if (isExpired(getSessionKeyExpiresAt(header), now)) {
+		throw new SessionKeyAuthError("expired", "session key has expired");
+	}
+	if (address && !sameId(header.address, address)) {
+		throw new SessionKeyAuthError(
+			"address_mismatch",
+			`issued for ${header.address}, not ${address}`,
+		);
+	}
+
+	let sessionKey: SessionKey;
+	try {
+		// The signature is set separately so that it is verified
+		const exported: ExportedSessionKey = {
+			address: header.address,
+			packageId: header.packageId,
+			mvrName: header.mvrName,
+			creationTimeMs: header.creationTimeMs,
+			ttlMin: header.ttlMin,
+			sessionKey: header.sessionKey,
+		};
+		sessionKey = SessionKey.import(exported, suiClient);
 	} catch (error) {
-		if (error instanceof Error) {
-			throw new Error(`Failed to parse SessionKey: ${error.message}`);
+		if (error instanceof Error && error.name === "ExpiredSessionKeyError") {
+			throw new SessionKeyAuthError("expired", "session key has expired");
 		}
-		throw new Error("Failed to parse SessionKey: Unknown error");
+		throw new SessionKeyAuthError(
+			"malformed",
+			error instanceof Error ? error.message : "cannot restore session key",
+		);
+	}
+
+	try {
+		await sessionKey.setPersonalMessageSignature(
+			header.personalMessageSignature,
+		);
+	} catch {
+		throw new SessionKeyAuthError(
+			"invalid_signature",
+			`personal message signature does not verify for ${header.address}`,
+		);
+	}
+
+	return sessionKey;
+}
+
+/**
+ * Compare two Sui addresses / object IDs
+ */
+function sameId(a: string, b: string): boolean {
+	try {
+		return normalizeSuiAddress(a) === normalizeSuiAddress(b);
+	} catch {
+		return false;
 	}
 }
 
@@ -97,10 +345,14 @@ export function parseSessionKeyFromHeader(
  * Check if SessionKey is expired
  *
  * @param expiresAt - Expiration timestamp in milliseconds
+ * @param now - Current time in milliseconds (default: Date.now())
  * @returns True if expired
  */
-export function isExpired(expiresAt: number): boolean {
-	return Date.now() >= expiresAt;
+export function isExpired(
+	expiresAt: number,
+	now: number = Date.now(),
+): boolean {
+	return now >= expiresAt;
 }
 
 /**
@@ -118,53 +370,6 @@ export function isExpiringSoon(
 	return Date.now() >= expiresAt - graceMs;
 }
 
-/**
- * Reconstruct SessionKey from parsed header data
- *
- * This is a helper function to rebuild the SessionKey instance.
- * Actual implementation depends on @mysten/seal internal structure.
- *
- * @param data - Parsed SessionKey header data
- * @returns SessionKey instance
- * @throws Error if reconstruction fails
- */
-function reconstructSessionKey(_data: SessionKeyHeader): SessionKey {
-	// TODO: Implement actual SessionKey reconstruction
-	// This depends on @mysten/seal internal API
-	// For now, we throw an error as a placeholder
-	throw new Error(
-		"SessionKey reconstruction not yet implemented. Use SessionKey.fromJSON() when available in @mysten/seal",
-	);
-}
-
-// ==========================================
-// SessionKey Serialization
-// ==========================================
-
-/**
- * Serialize SessionKey for HTTP transmission
- *
- * @param sessionKey - SessionKey instance
- * @returns Base64-encoded JSON string
- *
- * @example
- * ```typescript
- * const headerValue = serializeSessionKey(sessionKey);
- * response.headers.set("X-Session-Key", headerValue);
- * ```
- */
-export function serializeSessionKey(_sessionKey: SessionKey): string {
-	// TODO: Extract signature and expiresAt from SessionKey
-	// This depends on @mysten/seal internal API
-	const data: SessionKeyHeader = {
-		signature: "", // Extract from sessionKey
-		expiresAt: 0, // Extract from sessionKey
-	};
-
-	const json = JSON.stringify(data);
-	return Buffer.from(json).toString("base64");
-}
-
 // ==========================================
 // SessionKey Validation
 // ==========================================
@@ -175,21 +380,44 @@ export function serializeSessionKey(_sessionKey: SessionKey): string {
  * Checks:
  * - SessionKey is not null/undefined
  * - SessionKey has not expired
- * - SessionKey signature is valid format
+ * - SessionKey carries a personal-message signature
+ * - SessionKey belongs to the expected wallet address / package (if given)
  *
  * @param sessionKey - SessionKey to validate
- * @throws Error if invalid
+ * @param expected - Expected wallet address and package ID
+ * @throws SessionKeyAuthError if invalid
  */
-export function validateSessionKey(sessionKey: SessionKey | null): void {
+export function validateSessionKey(
+	sessionKey: SessionKey | null,
+	expected: { address?: string; packageId?: string } = {},
+): asserts sessionKey is SessionKey {
 	if (!sessionKey) {
-		throw new Error("SessionKey is null or undefined");
+		throw new SessionKeyAuthError("missing", "SessionKey is null or undefined");
+	}
+	if (sessionKey.isExpired()) {
+		throw new SessionKeyAuthError("expired", "session key has expired");
+	}
+	if (!sessionKey.export().personalMessageSignature) {
+		throw new SessionKeyAuthError(
+			"invalid_signature",
+			"personal message has not been signed",
+		);
+	}
+	if (expected.address && !sameId(sessionKey.getAddress(), expected.address)) {
+		throw new SessionKeyAuthError(
+			"address_mismatch",
+			`issued for ${sessionKey.getAddress()}, not ${expected.address}`,
+		);
+	}
+	if (
+		expected.packageId &&
+		!sameId(sessionKey.getPackageId(), expected.packageId)
+	) {
+		throw new SessionKeyAuthError(
+			"wrong_package",
+			`issued for package ${sessionKey.getPackageId()}`,
+		);
 	}
-
-	// TODO: Add more validation based on @mysten/seal API
-	// For example:
-	// - Check signature format
-	// - Verify expiration timestamp
-	// - Validate against specific wallet address
 }
 
 /**
@@ -0,0 +1,379 @@
+/**
+ * Session Key Lifecycle
+ *
+ * Page-wide state of the Seal SessionKey. Every useSessionKeyManager
+ * instance reads the same key from here, so one signature serves all
+ * screens and at most one wallet prompt is open at a time.
+ *
+ * Lifecycle:
+ * - TTL: chosen per device (localStorage), 1–30 minutes
+ * - Refresh: once the key is about to expire (isExpiringSoon) the
+ *   SessionKeyLifecycle component asks the user to sign a new one
+ * - Pending decrypts: a decrypt started with an expired key waits for the
+ *   refreshed key instead of failing (waitForSessionKey, called by the Seal
+ *   client in lib/seal.ts)
+ * - End session: removes the persisted key, rejects waiting decrypts and
+ *   bumps `generation` so that decrypted data held in memory is dropped
+ *
+ * Storage: localStorage (signed key export and TTL preference)
+ */
+
+import type { ExportedSessionKey, SessionKey } from "@mysten/seal";
+import { isExpiringSoon } from "@/lib/sessionKey";
+
+// ==========================================
+// Constants
+// ==========================================
+
+/**
+ * localStorage key of the signed SessionKey export
+ */
+const SESSION_KEY_STORAGE = "curepocket_session_key_v1";
+
+/**
+ * localStorage key of the per-device TTL preference
+ */
+const SESSION_TTL_STORAGE = "curepocket_session_ttl_v1";
+
+/**
+ * TTL range accepted by Seal (minutes)
+ */
+const MIN_TTL_MIN = 1;
+const MAX_TTL_MIN = 30;
+
+/**
+ * TTL choices offered in settings (minutes)
+ */
+export const SESSION_TTL_OPTIONS_MIN = [5, 10, 15, 30] as const;
+
+/**
+ * Default TTL (env NEXT_PUBLIC_SESSION_TTL_MIN or 30 minutes)
+ */
+export const DEFAULT_SESSION_TTL_MIN = clampSessionTtl(
+	Number(process.env.NEXT_PUBLIC_SESSION_TTL_MIN || 30),
+);
+
+/**
+ * Minutes before expiry at which the refresh prompt is shown
+ */
+export const SESSION_REFRESH_PROMPT_MIN = 2;
+
+// ==========================================
+// Type Definitions
+// ==========================================
+
+/**
+ * Shared SessionKey state (replaced, never mutated, on every change)
+ */
+export interface SessionLifecycleState {
+	/** Current SessionKey (null if none has been signed or restored) */
+	sessionKey: SessionKey | null;
+	/** Expiration timestamp in milliseconds */
+	expiresAt: number | null;
+	/** Decrypts waiting for a refreshed key */
+	pendingDecrypts: number;
+	/** Whether a new signature is being requested */
+	isRefreshing: boolean;
+	/** Whether the user ended the session (no automatic prompts until they sign again) */
+	ended: boolean;
+	/** Incremented by every endSession() */
+	generation: number;
+}
+
+/**
+ * Why a waiting decrypt was rejected
+ * - ended: the user ended the session
+ * - cancelled: the user dismissed the refresh prompt or the signature failed
+ */
+export type SessionLifecycleErrorReason = "ended" | "cancelled";
+
+/**
+ * Error for decrypts that could not get a refreshed SessionKey
+ */
+export class SessionLifecycleError extends Error {
+	constructor(
+		public readonly reason: SessionLifecycleErrorReason,
+		message: string,
+	) {
+		super(message);
+		this.name = "SessionLifecycleError";
+	}
+}
+
+type SessionLifecycleListener = (state: SessionLifecycleState) => void;
+
+interface PendingDecrypt {
+	resolve: (sessionKey: SessionKey) => void;
+	reject: (error: Error) => void;
+}
+
+// ==========================================
+// Shared State
+// ==========================================
+
+let state: SessionLifecycleState = {
+	sessionKey: null,
+	expiresAt: null,
+	pendingDecrypts: 0,
+	isRefreshing: false,
+	ended: false,
+	generation: 0,
+};
+const listeners = new Set<SessionLifecycleListener>();
+let pending: PendingDecrypt[] = [];
+
+function update(changes: Partial<SessionLifecycleState>): void {
+	state = { ...state, ...changes, pendingDecrypts: pending.length };
+	for (const listener of listeners) {
+		listener(state);
+	}
+}
+
+function rejectPending(error: SessionLifecycleError): void {
+	const rejected = pending;
+	pending = [];
+	for (const waiter of rejected) {
+		waiter.reject(error);
+	}
+}
+
+/**
+ * Current shared state
+ */
+export function getSessionLifecycleState(): SessionLifecycleState {
+	return state;
+}
+
+/**
+ * Subscribe to state changes
+ *
+ * @returns Unsubscribe function
+ */
+export function onSessionLifecycleChange(
+	listener: SessionLifecycleListener,
+): () => void {
+	listeners.add(listener);
+	return () => {
+		listeners.delete(listener);
+	};
+}
+
+/**
+ * Publish a newly signed or restored SessionKey
+ *
+ * Decrypts waiting for a refresh continue with this key.
+ */
+export function setSessionKey(sessionKey: SessionKey, expiresAt: number): void {
+	const resumed = pending;
+	pending = [];
+	update({ sessionKey, expiresAt, isRefreshing: false, ended: false });
+	for (const waiter of resumed) {
+		waiter.resolve(sessionKey);
+	}
+}
+
+/**
+ * Mark that a new signature is being requested
+ */
+export function setSessionRefreshing(isRefreshing: boolean): void {
+	update({ isRefreshing });
+}
+
+/**
+ * Reject waiting decrypts (refresh prompt dismissed or signature failed)
+ *
+ * @param message - Error message for the waiting callers
+ */
+export function cancelPendingDecrypts(
+	message = "Session key refresh was cancelled",
+): void {
+	rejectPending(new SessionLifecycleError("cancelled", message));
+	update({ isRefreshing: false });
+}
+
+/**
+ * End the session: forget the SessionKey everywhere on this device
+ *
+ * Subscribers holding decrypted data must drop it when `generation` changes.
+ */
+export function endSession(): void {
+	clearStoredSessionKey();
+	rejectPending(new SessionLifecycleError("ended", "Session was ended"));
+	update({
+		sessionKey: null,
+		expiresAt: null,
+		isRefreshing: false,
+		ended: true,
+		generation: state.generation + 1,
+	});
+	console.log("[SessionLifecycle] Session ended");
+}
+
+// ==========================================
+// Pending Decrypts
+// ==========================================
+
+/**
+ * SessionKey to decrypt with
+ *
+ * Returns the given key while it is valid. An expired key is replaced by
+ * the shared one if that is valid; otherwise the call waits until the user
+ * signs a new key. Outside a page with a mounted session manager (e.g. API
+ * routes) the key is returned as is and the Seal SDK reports the expiry.
+ * After endSession() every key is refused until a new one is signed.
+ *
+ * @param sessionKey - Key the caller started the decrypt with
+ * @returns Valid SessionKey
+ * @throws SessionLifecycleError if the session is ended or the refresh is cancelled
+ */
+export function waitForSessionKey(sessionKey: SessionKey): Promise<SessionKey> {
+	// Keys captured before the session was ended must not be used again
+	if (state.ended && listeners.size > 0) {
+		return Promise.reject(
+			new SessionLifecycleError("ended", "Session was ended"),
+		);
+	}
+	if (!sessionKey.isExpired()) {
+		return Promise.resolve(sessionKey);
+	}
+	if (state.sessionKey && !state.sessionKey.isExpired()) {
+		return Promise.resolve(state.sessionKey);
+	}
+	if (listeners.size === 0) {
+		return Promise.resolve(sessionKey);
+	}
+	return new Promise<SessionKey>((resolve, reject) => {
+		pending.push({ resolve, reject });
+		console.log(
+			`[SessionLifecycle] Decrypt waiting for a new session key (${pending.length} pending)`,
+		);
+		update({});
+	});
+}
+
+/**
+ * Whether the user should be asked to sign a new key now
+ *
+ * @param current - Key expiry and number of waiting decrypts
+ * @returns True when decrypts are waiting or the key is about to expire
+ */
+export function shouldPromptRefresh(
+	current: Pick<SessionLifecycleState, "expiresAt" | "pendingDecrypts">,
+): boolean {
+	if (current.pendingDecrypts > 0) {
+		return true;
+	}
+	return (
+		current.expiresAt !== null &&
+		isExpiringSoon(current.expiresAt, SESSION_REFRESH_PROMPT_MIN)
+	);
+}
+
+// ==========================================
+// TTL Preference
+// ==========================================
+
+/**
+ * Clamp a TTL to the range accepted by Seal
+ *
+ * @param ttlMin - TTL in minutes
+ * @returns Whole minutes between 1 and 30 (30 if not a number)
+ */
+export function clampSessionTtl(ttlMin: number): number {
+	if (!Number.isFinite(ttlMin)) {
+		return MAX_TTL_MIN;
+	}
+	return Math.min(MAX_TTL_MIN, Math.max(MIN_TTL_MIN, Math.round(ttlMin)));
+}
+
+/**
+ * TTL for new session keys on this device
+ */
+export function getSessionTtlMin(): number {
+	if (typeof window === "undefined") {
+		return DEFAULT_SESSION_TTL_MIN;
+	}
+	const stored = localStorage.getItem(SESSION_TTL_STORAGE);
+	return stored ? clampSessionTtl(Number(stored)) : DEFAULT_SESSION_TTL_MIN;
+}
+
+/**
+ * Save the TTL for new session keys on this device
+ *
+ * Applies from the next signature; the current key keeps its TTL.
+ *
+ * @returns Saved (clamped) TTL
+ */
+export function setSessionTtlMin(ttlMin: number): number {
+	const clamped = clampSessionTtl(ttlMin);
+	localStorage.setItem(SESSION_TTL_STORAGE, String(clamped));
+	return clamped;
+}
+
+// ==========================================
+// Persisted Key
+// ==========================================
+
+/**
+ * Load the persisted SessionKey export for an account
+ *
+ * @param address - Connected wallet address
+ * @param packageId - Package ID the key must be issued for
+ * @returns Signed export, or null if none matches
+ */
+export function loadStoredSessionKey(
+	address: string,
+	packageId: string,
+): ExportedSessionKey | null {
+	if (typeof window === "undefined") {
+		return null;
+	}
+	const stored = localStorage.getItem(SESSION_KEY_STORAGE);
+	if (!stored) {
+		return null;
+	}
+	try {
+		const parsed = JSON.parse(stored) as ExportedSessionKey;
+		if (parsed.address !== address || parsed.packageId !== packageId) {
+			// Different user or package; ignore
+			return null;
+		}
+		// Stored session key must include a personal message signature; otherwise discard
+		if (!parsed.personalMessageSignature) {
+			clearStoredSessionKey();
+			return null;
+		}
+		return parsed;
+	} catch (error) {
+		console.warn("[SessionLifecycle] Corrupted stored session key", error);
+		clearStoredSessionKey();
+		return null;
+	}
+}
+
+/**
+ * Persist a signed SessionKey (avoids repeated signature prompts until expiry)
+ */
+export function saveStoredSessionKey(sessionKey: SessionKey): void {
+	const exported = sessionKey.export();
+	const persistable: ExportedSessionKey = {
+		address: exported.address,
+		packageId: exported.packageId,
+		mvrName: exported.mvrName,
+		creationTimeMs: exported.creationTimeMs,
+		ttlMin: exported.ttlMin,
+		personalMessageSignature: exported.personalMessageSignature,
+		sessionKey: exported.sessionKey,
+	};
+	localStorage.setItem(SESSION_KEY_STORAGE, JSON.stringify(persistable));
+}
+
+/**
+ * Remove the persisted SessionKey
+ */
+export function clearStoredSessionKey(): void {
+	if (typeof window === "undefined") {
+		return;
+	}
+	localStorage.removeItem(SESSION_KEY_STORAGE);
+}
@@ -0,0 +1,515 @@
+/**
+ * Sponsor Server
+ *
+ * Server-side helpers of the sponsor API routes (app/api/sponsor and
+ * app/api/sponsor/execute). The sponsor pays real SUI, so every request
+ * passes these controls before the sponsor builds a transaction:
+ *
+ * - The caller proves control of `sender` with a personal-message signature
+ *   over the transaction kind bytes
+ * - Requests per client IP per hour (SPONSOR_IP_HOURLY_LIMIT)
+ * - Executed sponsorships per sender per UTC day (SPONSOR_DAILY_QUOTA)
+ * - Gas spent by the sponsor per UTC day (SPONSOR_DAILY_BUDGET, MIST)
+ *
+ * A sponsorship counts only once it has executed: the sponsor route builds
+ * the transaction and remembers its digest, and the execute route adds the
+ * sponsor signature, submits it and records the gas actually used. The
+ * sponsor signature is never returned, so a transaction cannot be executed
+ * around the count.
+ *
+ * Each sponsored transaction pays with its own gas coin, reserved until it
+ * executes or its pending sponsorship expires, so concurrent requests never
+ * build on the same coin version. The sponsor address must therefore hold
+ * several SUI coins of at least SPONSOR_MAX_GAS_BUDGET each; their number is
+ * the number of sponsorships that can wait for a signature at once.
+ *
+ * Counters live in a Redis REST store (SPONSOR_STORE_URL and
+ * SPONSOR_STORE_TOKEN, e.g. Upstash) shared by all edge instances. Without
+ * one, development falls back to process memory and production does not
+ * sponsor at all.
+ */
+
+import type { CoinStruct } from "@mysten/sui/client";
+import { decodeSuiPrivateKey } from "@mysten/sui/cryptography";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+
+// ==========================================
+// Constants
+// ==========================================
+
+/**
+ * Default sponsored transactions per sender per UTC day
+ */
+export const DEFAULT_SPONSOR_DAILY_QUOTA = 20;
+
+/**
+ * Default sponsor requests per client IP per hour
+ */
+export const DEFAULT_SPONSOR_IP_HOURLY_LIMIT = 60;
+
+/**
+ * Default gas (MIST) the sponsor spends per UTC day across all senders
+ */
+export const DEFAULT_SPONSOR_DAILY_BUDGET = BigInt(5_000_000_000);
+
+/**
+ * Default maximum gas budget (MIST) of a sponsored transaction
+ */
+export const DEFAULT_SPONSOR_MAX_GAS_BUDGET = BigInt(50_000_000);
+
+/**
+ * How long a sponsored transaction may wait for the patient's signature
+ */
+export const PENDING_SPONSORSHIP_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * How long a gas coin stays reserved (outlives the pending sponsorship, so
+ * an execution never releases a coin reserved by a later request)
+ */
+export const GAS_COIN_RESERVATION_TTL_MS = PENDING_SPONSORSHIP_TTL_MS + 60_000;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// ==========================================
+// Types
+// ==========================================
+
+/**
+ * Key-value store shared by the sponsor routes
+ */
+export interface SponsorStore {
+	/** Add `amount` to a counter kept for `ttlMs`; resolves to the new total */
+	incrementBy(key: string, amount: number, ttlMs: number): Promise<number>;
+	get(key: string): Promise<string | null>;
+	set(key: string, value: string, ttlMs: number): Promise<void>;
+	/** Set a value only if the key is unset; resolves to whether it was set */
+	setIfAbsent(key: string, value: string, ttlMs: number): Promise<boolean>;
+	/** Read and delete a value atomically */
+	take(key: string): Promise<string | null>;
+	delete(key: string): Promise<void>;
+}
+
+/**
+ * Sponsorship limits (environment, or the defaults above)
+ */
+export interface SponsorLimits {
+	dailyQuota: number;
+	ipHourlyLimit: number;
+	dailyBudget: bigint;
+	maxGasBudget: bigint;
+}
+
+/**
+ * Sponsored transaction waiting for execution
+ */
+export interface PendingSponsorship {
+	/** Normalized sender address */
+	sender: string;
+	/** Reserved gas coin of the sponsor */
+	gasCoinId: string;
+}
+
+/**
+ * Gas summary of executed transaction effects
+ */
+export interface GasCostSummary {
+	computationCost: string;
+	storageCost: string;
+	storageRebate: string;
+}
+
+// ==========================================
+// Configuration
+// ==========================================
+
+let storeInstance: SponsorStore | null = null;
+
+/**
+ * Sponsor key pair (SPONSOR_PRIVATE_KEY, `suiprivkey...`)
+ *
+ * @returns Key pair, or null if sponsorship is not configured
+ */
+export function getSponsorKeypair(): Ed25519Keypair | null {
+	const privateKey = process.env.SPONSOR_PRIVATE_KEY;
+	if (!privateKey) {
+		return null;
+	}
+	return Ed25519Keypair.fromSecretKey(
+		decodeSuiPrivateKey(privateKey).secretKey,
+	);
+}
+
+/**
+ * Store shared by the sponsor routes
+ *
+ * @returns Redis REST store, process memory outside production, or null
+ */
+export function getSponsorStore(): SponsorStore | null {
+	if (!storeInstance) {
+		const url = process.env.SPONSOR_STORE_URL;
+		const token = process.env.SPONSOR_STORE_TOKEN;
+		if (url && token) {
+			storeInstance = createRedisSponsorStore(url, token);
+		} else if (process.env.NODE_ENV !== "production") {
+			console.warn(
+				"[Sponsor] SPONSOR_STORE_URL is not set, counting in memory",
+			);
+			storeInstance = createMemorySponsorStore();
+		} else {
+			return null;
+		}
+	}
+	return storeInstance;
+}
+
+function envInteger(name: string, fallback: number): number {
+	const value = Number(process.env[name]);
+	return process.env[name] && Number.isInteger(value) && value >= 0
+		? value
+		: fallback;
+}
+
+function envBigInt(name: string, fallback: bigint): bigint {
+	try {
+		return process.env[name] ? BigInt(process.env[name]) : fallback;
+	} catch {
+		return fallback;
+	}
+}
+
+/**
+ * Sponsorship limits from the environment
+ */
+export function getSponsorLimits(): SponsorLimits {
+	return {
+		dailyQuota: envInteger("SPONSOR_DAILY_QUOTA", DEFAULT_SPONSOR_DAILY_QUOTA),
+		ipHourlyLimit: envInteger(
+			"SPONSOR_IP_HOURLY_LIMIT",
+			DEFAULT_SPONSOR_IP_HOURLY_LIMIT,
+		),
+		dailyBudget: envBigInt(
+			"SPONSOR_DAILY_BUDGET",
+			DEFAULT_SPONSOR_DAILY_BUDGET,
+		),
+		maxGasBudget: envBigInt(
+			"SPONSOR_MAX_GAS_BUDGET",
+			DEFAULT_SPONSOR_MAX_GAS_BUDGET,
+		),
+	};
+}
+
+/**
+ * Client IP of a request (behind Cloudflare or another proxy)
+ *
+ * @param headers - Request headers
+ */
+export function getClientIp(headers: Headers): string {
+	return (
+		headers.get("cf-connecting-ip") ??
+		headers.get("x-forwarded-for")?.split(",")[0].trim() ??
+		"unknown"
+	);
+}
+
+// ==========================================
+// Stores
+// ==========================================
+
+/**
+ * Store in process memory (development and tests)
+ *
+ * @param now - Clock (ms)
+ */
+export function createMemorySponsorStore(
+	now: () => number = Date.now,
+): SponsorStore {
+	const entries = new Map<string, { value: string; expiresAt: number }>();
+
+	const read = (key: string): string | null => {
+		const entry = entries.get(key);
+		if (!entry) {
+			return null;
+		}
+		if (entry.expiresAt <= now()) {
+			entries.delete(key);
+			return null;
+		}
+		return entry.value;
+	};
+
+	return {
+		async incrementBy(key, amount, ttlMs) {
+			const total = Number(read(key) ?? 0) + amount;
+			entries.set(key, { value: String(total), expiresAt: now() + ttlMs });
+			return total;
+		},
+		async get(key) {
+			return read(key);
+		},
+		async set(key, value, ttlMs) {
+			entries.set(key, { value, expiresAt: now() + ttlMs });
+		},
+		async setIfAbsent(key, value, ttlMs) {
+			if (read(key) !== null) {
+				return false;
+			}
+			entries.set(key, { value, expiresAt: now() + ttlMs });
+			return true;
+		},
+		async take(key) {
+			const value = read(key);
+			entries.delete(key);
+			return value;
+		},
+		async delete(key) {
+			entries.delete(key);
+		},
+	};
+}
+
+/**
+ * Store in Redis over its REST interface (Upstash-compatible)
+ *
+ * @param url - REST endpoint
+ * @param token - Bearer token
+ */
+export function createRedisSponsorStore(
+	url: string,
+	token: string,
+): SponsorStore {
+	const command = async (args: (string | number)[]): Promise<unknown> => {
+		const response = await fetch(url, {
+			method: "POST",
+			headers: {
+				Authorization: `Bearer ${token}`,
+				"Content-Type": "application/json",
+			},
+			body: JSON.stringify(args),
+		});
+		const json = (await response.json().catch(() => ({}))) as {
+			result?: unknown;
+			error?: string;
+		};
+		if (!response.ok || json.error) {
+			throw new Error(
+				`Failed to run sponsor store ${args[0]}: ${json.error ?? response.statusText}`,
+			);
+		}
+		return json.result ?? null;
+	};
+
+	return {
+		async incrementBy(key, amount, ttlMs) {
+			const total = Number(await command(["INCRBY", key, amount]));
+			await command(["PEXPIRE", key, ttlMs]);
+			return total;
+		},
+		async get(key) {
+			const value = await command(["GET", key]);
+			return value === null ? null : String(value);
+		},
+		async set(key, value, ttlMs) {
+			await command(["SET", key, value, "PX", ttlMs]);
+		},
+		async setIfAbsent(key, value, ttlMs) {
+			return (await command(["SET", key, value, "NX", "PX", ttlMs])) === "OK";
+		},
+		async take(key) {
+			const value = await command(["GETDEL", key]);
+			return value === null ? null : String(value);
+		},
+		async delete(key) {
+			await command(["DEL", key]);
+		},
+	};
+}
+
+// ==========================================
+// Limits
+// ==========================================
+
+function windowKey(
+	name: string,
+	id: string,
+	windowMs: number,
+	now: number,
+): string {
+	return `sponsor:${name}:${id}:${Math.floor(now / windowMs)}`;
+}
+
+/**
+ * Count a request from a client IP
+ *
+ * @param store - Sponsor store
+ * @param ip - Client IP
+ * @param limit - Requests per hour
+ * @param now - Current time (ms)
+ * @returns Whether the request is within the hourly limit
+ */
+export async function takeIpAllowance(
+	store: SponsorStore,
+	ip: string,
+	limit: number,
+	now: number = Date.now(),
+): Promise<boolean> {
+	const count = await store.incrementBy(
+		windowKey("ip", ip, HOUR_MS, now),
+		1,
+		HOUR_MS,
+	);
+	return count <= limit;
+}
+
+/**
+ * Why a sender may not be sponsored now
+ *
+ * Reserves room for one transaction of the maximum gas budget in the daily
+ * budget, since its actual gas is only known after execution.
+ *
+ * @param store - Sponsor store
+ * @param sender - Normalized sender address
+ * @param limits - Sponsorship limits
+ * @param now - Current time (ms)
+ * @returns Reason, or null if the sender may be sponsored
+ */
+export async function getSponsorLimitRejection(
+	store: SponsorStore,
+	sender: string,
+	limits: SponsorLimits,
+	now: number = Date.now(),
+): Promise<string | null> {
+	const [count, spent] = await Promise.all([
+		store.get(windowKey("sender", sender, DAY_MS, now)),
+		store.get(windowKey("spent", "all", DAY_MS, now)),
+	]);
+	if (Number(count ?? 0) >= limits.dailyQuota) {
+		return "Daily sponsorship quota exceeded";
+	}
+	if (BigInt(spent ?? 0) + limits.maxGasBudget > limits.dailyBudget) {
+		return "Daily sponsorship budget exhausted";
+	}
+	return null;
+}
+
+/**
+ * Gas (MIST) a transaction cost its gas owner
+ *
+ * @param gasUsed - Gas summary of the effects
+ */
+export function getGasCost(gasUsed: GasCostSummary): bigint {
+	const cost =
+		BigInt(gasUsed.computationCost) +
+		BigInt(gasUsed.storageCost) -
+		BigInt(gasUsed.storageRebate);
+	return cost > BigInt(0) ? cost : BigInt(0);
+}
+
+/**
+ * Count an executed sponsorship against the sender's quota and the budget
+ *
+ * @param store - Sponsor store
+ * @param sender - Normalized sender address
+ * @param gasCost - Gas (MIST) the sponsor paid
+ * @param now - Current time (ms)
+ */
+export async function recordSponsorshipExecuted(
+	store: SponsorStore,
+	sender: string,
+	gasCost: bigint,
+	now: number = Date.now(),
+): Promise<void> {
+	await Promise.all([
+		store.incrementBy(windowKey("sender", sender, DAY_MS, now), 1, DAY_MS),
+		store.incrementBy(
+			windowKey("spent", "all", DAY_MS, now),
+			Number(gasCost),
+			DAY_MS,
+		),
+	]);
+}
+
+// ==========================================
+// Pending Sponsorships
+// ==========================================
+
+/**
+ * Remember a sponsored transaction until the execute route submits it
+ *
+ * @param store - Sponsor store
+ * @param digest - Transaction digest
+ * @param pending - Sponsorship details
+ */
+export async function savePendingSponsorship(
+	store: SponsorStore,
+	digest: string,
+	pending: PendingSponsorship,
+): Promise<void> {
+	await store.set(
+		`sponsor:pending:${digest}`,
+		JSON.stringify(pending),
+		PENDING_SPONSORSHIP_TTL_MS,
+	);
+}
+
+/**
+ * Take a sponsored transaction for execution (at most once)
+ *
+ * @param store - Sponsor store
+ * @param digest - Transaction digest
+ * @returns Sponsorship details, or null if unknown, expired or taken
+ */
+export async function takePendingSponsorship(
+	store: SponsorStore,
+	digest: string,
+): Promise<PendingSponsorship | null> {
+	const value = await store.take(`sponsor:pending:${digest}`);
+	return value === null ? null : (JSON.parse(value) as PendingSponsorship);
+}
+
+// ==========================================
+// Gas Coins
+// ==========================================
+
+/**
+ * Reserve one of the sponsor's gas coins for a transaction
+ *
+ * @param store - Sponsor store
+ * @param coins - SUI coins of the sponsor (current versions)
+ * @param minBalance - Smallest balance that covers the maximum gas budget
+ * @returns Reserved coin, or null if every usable coin is in use
+ */
+export async function reserveSponsorGasCoin(
+	store: SponsorStore,
+	coins: CoinStruct[],
+	minBalance: bigint,
+): Promise<CoinStruct | null> {
+	for (const coin of coins) {
+		if (BigInt(coin.balance) < minBalance) {
+			continue;
+		}
+		if (
+			await store.setIfAbsent(
+				`sponsor:coin:${coin.coinObjectId}`,
+				coin.digest,
+				GAS_COIN_RESERVATION_TTL_MS,
+			)
+		) {
+			return coin;
+		}
+	}
+	return null;
+}
+
+/**
+ * Return a gas coin to the pool
+ *
+ * @param store - Sponsor store
+ * @param coinId - Coin object ID
+ */
+export async function releaseSponsorGasCoin(
+	store: SponsorStore,
+	coinId: string,
+): Promise<void> {
+	await store.delete(`sponsor:coin:${coinId}`);
+}
@@ -0,0 +1,246 @@
+/**
+ * Sponsored Transactions
+ *
+ * Patients onboarded with an empty wallet (e.g. at a pharmacy) cannot pay
+ * gas. When sponsorship is enabled and the wallet holds less than
+ * SELF_PAY_MIN_BALANCE_MIST, the app builds only the transaction kind,
+ * signs it as a personal message to prove it controls the sender, and sends
+ * it to the sponsor API route (app/api/sponsor). The route sets the sponsor
+ * as gas owner and returns the full transaction for the wallet to sign. The
+ * execute route (app/api/sponsor/execute) then adds the sponsor signature and
+ * submits both; the sponsor signature never leaves the server, so every
+ * sponsored transaction is counted when it executes.
+ *
+ * The routes sponsor only transactions made of MoveCalls to
+ * SPONSORED_MOVE_FUNCTIONS of this package, within the per-IP, per-sender
+ * and daily budget limits of lib/sponsorServer.ts.
+ */
+
+import { toBase64 } from "@mysten/bcs";
+import type { Transaction } from "@mysten/sui/transactions";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+
+// ==========================================
+// Constants
+// ==========================================
+
+/**
+ * accessor functions the sponsor pays for
+ *
+ * replace_data_entry_if_current is the compare-and-swap form of
+ * replace_data_entry used by saves (lib/dataEntryConflict.ts).
+ */
+export const SPONSORED_MOVE_FUNCTIONS = [
+	"mint_medical_passport",
+	"add_data_entry",
+	"replace_data_entry",
+	"replace_data_entry_if_current",
+	"create_consent_token",
+	"revoke_consent_token",
+] as const;
+
+/**
+ * Wallets holding at least this much SUI (MIST) pay their own gas
+ */
+export const SELF_PAY_MIN_BALANCE_MIST = BigInt(10_000_000);
+
+const SPONSOR_API_PATH = "/api/sponsor";
+
+const SPONSOR_EXECUTE_API_PATH = "/api/sponsor/execute";
+
+// ==========================================
+// Types
+// ==========================================
+
+/**
+ * Request body of the sponsor API route
+ */
+export interface SponsorRequestBody {
+	/** Patient wallet address (transaction sender) */
+	sender: string;
+	/** BCS TransactionKind bytes (base64) */
+	transactionKindBytes: string;
+	/** Sender's personal-message signature over the TransactionKind bytes */
+	signature: string;
+}
+
+/**
+ * Response body of the sponsor API route
+ */
+export interface SponsorResponseBody {
+	/** Full TransactionData bytes with the sponsor's gas (base64) */
+	transactionBytes: string;
+}
+
+/**
+ * Request body of the sponsor execute API route
+ */
+export interface SponsorExecuteRequestBody {
+	/** TransactionData bytes returned by the sponsor API route (base64) */
+	transactionBytes: string;
+	/** Sender signature over transactionBytes */
+	signature: string;
+}
+
+/**
+ * Response body of the sponsor execute API route
+ */
+export interface SponsorExecuteResponseBody {
+	digest: string;
+	/** BCS TransactionEffects (base64), reported back to the wallet */
+	rawEffects: string;
+}
+
+// ==========================================
+// Errors
+// ==========================================
+
+/**
+ * The sponsor API declined or failed to sponsor a transaction
+ */
+export class SponsorshipError extends Error {
+	constructor(
+		message: string,
+		/** HTTP status of the sponsor API (401: bad signature, 403: not allowed, 409: expired, 429: limit) */
+		public readonly status: number,
+	) {
+		super(message);
+		this.name = "SponsorshipError";
+	}
+}
+
+// ==========================================
+// Configuration
+// ==========================================
+
+/**
+ * Whether the app requests sponsorship for wallets without gas
+ */
+export function isSponsorshipEnabled(): boolean {
+	return process.env.NEXT_PUBLIC_SPONSOR_ENABLED === "true";
+}
+
+// ==========================================
+// Validation
+// ==========================================
+
+/**
+ * Why a transaction may not be sponsored
+ *
+ * Every command must be a MoveCall to an allowlisted accessor function of
+ * the package, and no argument may use the gas coin (it is the sponsor's).
+ *
+ * @param tx - Transaction restored from its kind bytes
+ * @param packageId - Package ID allowed as call target
+ * @returns Reason, or null if the transaction may be sponsored
+ */
+export function getSponsorshipRejection(
+	tx: Transaction,
+	packageId: string,
+): string | null {
+	const { commands } = tx.getData();
+	if (commands.length === 0) {
+		return "Transaction has no commands";
+	}
+
+	const allowedPackage = normalizeSuiAddress(packageId);
+	for (const command of commands) {
+		const call = command.MoveCall;
+		if (!call) {
+			return `Command ${command.$kind} is not sponsored`;
+		}
+		const target = `${call.module}::${call.function}`;
+		if (
+			normalizeSuiAddress(call.package) !== allowedPackage ||
+			call.module !== "accessor" ||
+			!(SPONSORED_MOVE_FUNCTIONS as readonly string[]).includes(call.function)
+		) {
+			return `Move call ${target} is not sponsored`;
+		}
+		if (call.arguments.some((arg) => arg.$kind === "GasCoin")) {
+			return `Move call ${target} uses the gas coin`;
+		}
+	}
+	return null;
+}
+
+// ==========================================
+// Client
+// ==========================================
+
+async function postSponsorApi<T>(
+	path: string,
+	body: unknown,
+	isComplete: (json: Partial<T>) => boolean,
+): Promise<T> {
+	let response: Response;
+	try {
+		response = await fetch(path, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify(body),
+		});
+	} catch (error) {
+		throw new SponsorshipError(
+			`Failed to request sponsorship: ${error instanceof Error ? error.message : String(error)}`,
+			0,
+		);
+	}
+
+	const json = (await response.json().catch(() => ({}))) as Partial<
+		T & { error: string }
+	>;
+	if (!response.ok || !isComplete(json)) {
+		throw new SponsorshipError(
+			`Failed to request sponsorship: ${json.error ?? response.statusText}`,
+			response.status,
+		);
+	}
+	return json as T;
+}
+
+/**
+ * Ask the sponsor API to pay gas for a transaction
+ *
+ * @param params.sender - Patient wallet address
+ * @param params.transactionKindBytes - `tx.build({ onlyTransactionKind: true })`
+ * @param params.signature - Sender's personal-message signature over the kind bytes
+ * @returns Sponsored transaction bytes for the sender to sign
+ * @throws SponsorshipError if the sponsor declines
+ */
+export async function requestSponsorship(params: {
+	sender: string;
+	transactionKindBytes: Uint8Array;
+	signature: string;
+}): Promise<SponsorResponseBody> {
+	const body: SponsorRequestBody = {
+		sender: params.sender,
+		transactionKindBytes: toBase64(params.transactionKindBytes),
+		signature: params.signature,
+	};
+	const { transactionBytes } = await postSponsorApi<SponsorResponseBody>(
+		SPONSOR_API_PATH,
+		body,
+		(json) => !!json.transactionBytes,
+	);
+	return { transactionBytes };
+}
+
+/**
+ * Have the sponsor API execute a sponsored transaction signed by the sender
+ *
+ * @param body - Sponsored transaction bytes and the sender signature
+ * @returns Digest and raw effects of the executed transaction
+ * @throws SponsorshipError if the sponsorship expired or execution failed
+ */
+export async function executeSponsoredTransaction(
+	body: SponsorExecuteRequestBody,
+): Promise<SponsorExecuteResponseBody> {
+	const { digest, rawEffects } =
+		await postSponsorApi<SponsorExecuteResponseBody>(
+			SPONSOR_EXECUTE_API_PATH,
+			body,
+			(json) => !!json.digest && !!json.rawEffects,
+		);
+	return { digest, rawEffects };
+}
@@ -0,0 +1,186 @@
+/**
+ * Walrus Storage Expiry Tracking
+ *
+ * Walrus stores each blob until a fixed end epoch. Every metadata entry
+ * records the end epoch of the blobs it references (end_epoch, and
+ * binary_end_epoch for imaging), so expiring data can be found by reading
+ * metadata alone and compared against the current Walrus epoch
+ * (see getCurrentWalrusEpoch in walrusSystem.ts).
+ */
+
+import type { DataType } from "@/types/healthData";
+import type {
+	BaseMetadata,
+	BaseMetadataEntry,
+	ChunkManifest,
+	ImagingMetadataEntry,
+} from "@/types/metadata";
+
+// ==========================================
+// Environment Configuration
+// ==========================================
+
+/**
+ * Warn when a blob has this many epochs (or fewer) remaining
+ */
+export const EXPIRY_WARNING_EPOCHS =
+	Number.parseInt(
+		process.env.NEXT_PUBLIC_WALRUS_EXPIRY_WARNING_EPOCHS || "",
+		10,
+	) || 2;
+
+/**
+ * Data types that have an SBT entry with a metadata blob
+ * (imaging_binary blobs are referenced from imaging_meta entries)
+ */
+export const METADATA_DATA_TYPES: DataType[] = [
+	"basic_profile",
+	"medications",
+	"conditions",
+	"lab_results",
+	"imaging_meta",
+	"self_metrics",
+];
+
+// ==========================================
+// Type Definitions
+// ==========================================
+
+/**
+ * Expiry status of a blob
+ * - expired: end epoch has passed
+ * - expiring: within EXPIRY_WARNING_EPOCHS of the end epoch
+ * - unknown: entry predates end epoch tracking
+ */
+export type BlobExpiryStatus = "expired" | "expiring" | "unknown";
+
+/**
+ * A blob referenced from metadata that needs renewal
+ */
+export interface ExpiringBlob {
+	/** Data type whose metadata references the blob */
+	dataType: DataType;
+	/** Index of the entry in metadata.entries */
+	entryIndex: number;
+	/** Which blob of the entry ("data" = blob_id, "binary" = binary_blob_id) */
+	kind: "data" | "binary";
+	/** Blob ID (manifest blob ID when chunked) */
+	blobId: string;
+	/** Chunk manifest when chunked */
+	chunkManifest?: ChunkManifest;
+	/** Recorded end epoch (null if unknown) */
+	endEpoch: number | null;
+	/** Epochs left before expiry (null if unknown, negative once expired) */
+	epochsRemaining: number | null;
+	/** Expiry status */
+	status: BlobExpiryStatus;
+}
+
+// ==========================================
+// Expiry Detection
+// ==========================================
+
+/**
+ * Classify a blob end epoch against the current epoch
+ *
+ * @returns Status, or null when the blob is not close to expiry
+ */
+export function classifyEndEpoch(
+	endEpoch: number | undefined,
+	currentEpoch: number,
+	warningEpochs: number = EXPIRY_WARNING_EPOCHS,
+): BlobExpiryStatus | null {
+	if (endEpoch === undefined) {
+		return "unknown";
+	}
+	if (endEpoch <= currentEpoch) {
+		return "expired";
+	}
+	if (endEpoch - currentEpoch <= warningEpochs) {
+		return "expiring";
+	}
+	return null;
+}
+
+/**
+ * Find blobs referenced from metadata that are expired or close to expiry
+ *
+ * @param metadata - Decrypted metadata of one data type
+ * @param currentEpoch - Current Walrus epoch
+ * @param warningEpochs - Warning window in epochs
+ * @returns Blobs needing renewal (in entry order)
+ */
+export function findExpiringBlobs(
+	metadata: BaseMetadata<BaseMetadataEntry>,
+	currentEpoch: number,
+	warningEpochs: number = EXPIRY_WARNING_EPOCHS,
+): ExpiringBlob[] {
+	const result: ExpiringBlob[] = [];
+
+	const check = (
+		entryIndex: number,
+		kind: ExpiringBlob["kind"],
+		blobId: string,
+		endEpoch: number | undefined,
+		chunkManifest: ChunkManifest | undefined,
+	) => {
+		const status = classifyEndEpoch(endEpoch, currentEpoch, warningEpochs);
+		if (!status) {
+			return;
+		}
+		result.push({
+			dataType: metadata.data_type,
+			entryIndex,
+			kind,
+			blobId,
+			...(chunkManifest && { chunkManifest }),
+			endEpoch: endEpoch ?? null,
+			epochsRemaining: endEpoch === undefined ? null : endEpoch - currentEpoch,
+			status,
+		});
+	};
+
+	for (const [index, entry] of (metadata.entries ?? []).entries()) {
+		check(index, "data", entry.blob_id, entry.end_epoch, entry.chunk_manifest);
+
+		const imagingEntry = entry as Partial<ImagingMetadataEntry>;
+		if (imagingEntry.binary_blob_id) {
+			check(
+				index,
+				"binary",
+				imagingEntry.binary_blob_id,
+				imagingEntry.binary_end_epoch,
+				imagingEntry.binary_chunk_manifest,
+			);
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Record renewed end epochs on metadata entries
+ *
+ * @param metadata - Metadata the blobs were found in
+ * @param renewed - Renewed blobs with their new end epochs
+ * @returns Updated metadata (input is not mutated)
+ */
+export function applyRenewedEpochs<TEntry extends BaseMetadataEntry>(
+	metadata: BaseMetadata<TEntry>,
+	renewed: Array<{ blob: ExpiringBlob; endEpoch: number | undefined }>,
+): BaseMetadata<TEntry> {
+	const entries = [...metadata.entries];
+
+	for (const { blob, endEpoch } of renewed) {
+		const entry = entries[blob.entryIndex];
+		if (!entry || endEpoch === undefined) {
+			continue;
+		}
+		entries[blob.entryIndex] =
+			blob.kind === "binary"
+				? { ...entry, binary_end_epoch: endEpoch }
+				: { ...entry, end_epoch: endEpoch };
+	}
+
+	return { ...metadata, entries, updated_at: Date.now() };
+}
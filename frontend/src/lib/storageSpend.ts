@@ -0,0 +1,362 @@
+/**
+ * Walrus Storage Spend Ledger and Budget
+ *
+ * The publisher reports the WAL cost of every newly created blob (`cost`,
+ * in FROST). Those costs are recorded per owner so the storage dashboard
+ * can show what the record has cost so far, and compared against a
+ * user-set budget before new uploads.
+ *
+ * Storage: localStorage, one JSON array (ledger) and one number (budget)
+ * per owner address. Unlike the upload journal, ledger records are kept
+ * when blobs are deleted: spend already happened.
+ */
+
+import type { DataType } from "@/types/healthData";
+
+// ==========================================
+// Constants
+// ==========================================
+
+/**
+ * FROST per WAL (Walrus storage costs are reported in FROST)
+ */
+export const FROST_PER_WAL = 1_000_000_000;
+
+/**
+ * localStorage key prefixes (owner address is appended)
+ */
+const STORAGE_SPEND_PREFIX = "curepocket_storage_spend_v1:";
+const STORAGE_BUDGET_PREFIX = "curepocket_storage_budget_v1:";
+
+/**
+ * How long a confirmed budget warning covers further uploads, so a save
+ * that uploads several blobs asks only once
+ */
+const BUDGET_CONFIRMATION_TTL_MS = 10 * 60 * 1000;
+
+// ==========================================
+// Type Definitions
+// ==========================================
+
+/**
+ * One paid Walrus store operation
+ */
+export interface StorageSpendRecord {
+	/** Walrus blob ID */
+	blobId: string;
+	/** Data type the blob belongs to (if known) */
+	dataType?: DataType;
+	/** New upload or storage extension of an existing blob */
+	kind: "upload" | "extend";
+	/** Stored size in bytes */
+	size: number;
+	/** Epochs paid for */
+	epochs: number;
+	/** Cost reported by the publisher (FROST) */
+	cost: number;
+	/** Bytes saved by compressing the payload before encryption */
+	savedBytes?: number;
+	/** Record time (Unix timestamp ms) */
+	recordedAt: number;
+}
+
+/**
+ * Accumulated spend
+ */
+export interface StorageSpendSummary {
+	/** Total cost (FROST) */
+	total: number;
+	/** Cost per data type (FROST); untyped records are only in total */
+	byDataType: Partial<Record<DataType, number>>;
+	/** Bytes kept out of storage by compression */
+	savedBytes: number;
+}
+
+/**
+ * Result of comparing an upload estimate against the budget
+ */
+export interface StorageBudgetWarning {
+	/** Data type of the upload (if known) */
+	dataType?: DataType;
+	/** Spend so far (FROST) */
+	spent: number;
+	/** Estimated cost of the upload (FROST) */
+	estimatedCost: number;
+	/** Budget (FROST) */
+	budget: number;
+}
+
+/**
+ * Asks the user whether to continue an upload that exceeds the budget
+ */
+export type StorageBudgetConfirmHandler = (
+	warning: StorageBudgetWarning,
+) => boolean | Promise<boolean>;
+
+/**
+ * Raised when the user declines an upload that exceeds the budget
+ */
+export class StorageBudgetExceededError extends Error {
+	constructor(public readonly warning: StorageBudgetWarning) {
+		super(
+			`Upload cancelled: storage budget of ${formatWal(warning.budget)} WAL would be exceeded`,
+		);
+		this.name = "StorageBudgetExceededError";
+	}
+}
+
+// ==========================================
+// Formatting
+// ==========================================
+
+/**
+ * Format a FROST amount as WAL (up to 4 decimals)
+ */
+export function formatWal(frost: number): string {
+	return (frost / FROST_PER_WAL).toLocaleString(undefined, {
+		maximumFractionDigits: 4,
+	});
+}
+
+// ==========================================
+// Ledger
+// ==========================================
+
+function spendKey(owner: string): string {
+	return `${STORAGE_SPEND_PREFIX}${owner.toLowerCase()}`;
+}
+
+/**
+ * Load the spend ledger for an owner
+ *
+ * @returns Records (empty outside the browser or if unreadable)
+ */
+export function loadStorageSpend(owner: string): StorageSpendRecord[] {
+	if (typeof window === "undefined") {
+		return [];
+	}
+	const stored = localStorage.getItem(spendKey(owner));
+	if (!stored) {
+		return [];
+	}
+	try {
+		const parsed = JSON.parse(stored);
+		return Array.isArray(parsed) ? (parsed as StorageSpendRecord[]) : [];
+	} catch (error) {
+		console.warn("[StorageSpend] Corrupted ledger, ignoring", error);
+		return [];
+	}
+}
+
+/**
+ * Append paid store operations to an owner's ledger
+ */
+export function recordStorageSpend(
+	owner: string,
+	records: StorageSpendRecord[],
+): void {
+	if (typeof window === "undefined" || records.length === 0) {
+		return;
+	}
+	localStorage.setItem(
+		spendKey(owner),
+		JSON.stringify([...loadStorageSpend(owner), ...records]),
+	);
+}
+
+// ==========================================
+// Compression Savings
+// ==========================================
+
+/**
+ * Bytes saved by compression for encrypted payloads that have not been
+ * uploaded yet, keyed by the payload instance
+ */
+const pendingSavings = new WeakMap<Uint8Array, number>();
+
+/**
+ * Remember how many bytes compression saved for an encrypted payload, to be
+ * recorded with its upload
+ */
+export function registerCompressionSavings(
+	encryptedObject: Uint8Array,
+	savedBytes: number,
+): void {
+	if (savedBytes > 0) {
+		pendingSavings.set(encryptedObject, savedBytes);
+	}
+}
+
+/**
+ * Saved bytes of a payload that is about to be persisted before upload
+ * (e.g. queued in the outbox)
+ */
+export function getPendingCompressionSavings(
+	encryptedObject: Uint8Array,
+): number | undefined {
+	return pendingSavings.get(encryptedObject);
+}
+
+/**
+ * Take the saved bytes registered for a payload being uploaded
+ */
+export function takeCompressionSavings(
+	encryptedObject: Uint8Array,
+): number | undefined {
+	const savedBytes = pendingSavings.get(encryptedObject);
+	pendingSavings.delete(encryptedObject);
+	return savedBytes;
+}
+
+/**
+ * Sum ledger records in total and per data type
+ */
+export function summarizeStorageSpend(
+	records: StorageSpendRecord[],
+): StorageSpendSummary {
+	const byDataType: Partial<Record<DataType, number>> = {};
+	let total = 0;
+	let savedBytes = 0;
+	for (const record of records) {
+		total += record.cost;
+		savedBytes += record.savedBytes ?? 0;
+		if (record.dataType) {
+			byDataType[record.dataType] =
+				(byDataType[record.dataType] ?? 0) + record.cost;
+		}
+	}
+	return { total, byDataType, savedBytes };
+}
+
+/**
+ * Average price paid so far
+ *
+ * @returns FROST per KB per epoch, or undefined when nothing was paid yet
+ */
+export function getObservedStorageRate(
+	records: StorageSpendRecord[],
+): number | undefined {
+	let cost = 0;
+	let units = 0;
+	for (const record of records) {
+		if (record.cost > 0) {
+			cost += record.cost;
+			units += Math.ceil(record.size / 1024) * record.epochs;
+		}
+	}
+	return units > 0 ? cost / units : undefined;
+}
+
+// ==========================================
+// Budget
+// ==========================================
+
+function budgetKey(owner: string): string {
+	return `${STORAGE_BUDGET_PREFIX}${owner.toLowerCase()}`;
+}
+
+/**
+ * Get the owner's storage budget
+ *
+ * @returns Budget in FROST, or null when no budget is set
+ */
+export function getStorageBudget(owner: string): number | null {
+	if (typeof window === "undefined") {
+		return null;
+	}
+	const budget = Number(localStorage.getItem(budgetKey(owner)));
+	return Number.isFinite(budget) && budget > 0 ? budget : null;
+}
+
+/**
+ * Set or clear (null) the owner's storage budget
+ *
+ * @param budget - Budget in FROST
+ */
+export function setStorageBudget(owner: string, budget: number | null): void {
+	if (typeof window === "undefined") {
+		return;
+	}
+	if (budget === null || budget <= 0) {
+		localStorage.removeItem(budgetKey(owner));
+	} else {
+		localStorage.setItem(budgetKey(owner), String(Math.round(budget)));
+	}
+}
+
+/**
+ * Compare an upload estimate against a budget
+ *
+ * @returns Warning when spent + estimate exceeds the budget, otherwise null
+ */
+export function evaluateStorageBudget(
+	spent: number,
+	estimatedCost: number,
+	budget: number | null,
+	dataType?: DataType,
+): StorageBudgetWarning | null {
+	if (budget === null || spent + estimatedCost <= budget) {
+		return null;
+	}
+	return {
+		...(dataType && { dataType }),
+		spent,
+		estimatedCost,
+		budget,
+	};
+}
+
+// ==========================================
+// Upload Confirmation
+// ==========================================
+
+let confirmHandler: StorageBudgetConfirmHandler | null = null;
+let confirmedUntil = 0;
+
+/**
+ * Register the UI that asks before over-budget uploads (null to remove)
+ *
+ * Without a handler, over-budget uploads only log a warning.
+ */
+export function setStorageBudgetConfirmHandler(
+	handler: StorageBudgetConfirmHandler | null,
+): void {
+	confirmHandler = handler;
+	confirmedUntil = 0;
+}
+
+/**
+ * Check an upload against the owner's budget before it starts
+ *
+ * @param owner - Owner wallet address
+ * @param estimatedCost - Estimated cost of the upload (FROST)
+ * @param dataType - Data type of the upload (for the warning)
+ * @throws StorageBudgetExceededError if the user declines
+ */
+export async function confirmStorageSpend(
+	owner: string,
+	estimatedCost: number,
+	dataType?: DataType,
+): Promise<void> {
+	const warning = evaluateStorageBudget(
+		summarizeStorageSpend(loadStorageSpend(owner)).total,
+		estimatedCost,
+		getStorageBudget(owner),
+		dataType,
+	);
+	if (!warning || Date.now() < confirmedUntil) {
+		return;
+	}
+
+	if (!confirmHandler) {
+		console.warn(
+			`[StorageSpend] Upload exceeds budget (${formatWal(warning.spent + warning.estimatedCost)} / ${formatWal(warning.budget)} WAL)`,
+		);
+		return;
+	}
+
+	if (!(await confirmHandler(warning))) {
+		throw new StorageBudgetExceededError(warning);
+	}
+	confirmedUntil = Date.now() + BUDGET_CONFIRMATION_TTL_MS;
+}
@@ -0,0 +1,144 @@
+/**
+ * Walrus Storage Usage and Renewal Projection
+ *
+ * Aggregates the size of the blobs referenced from each data type's
+ * metadata entries, and projects what keeping them for more epochs would
+ * cost with estimateStorageCost, priced at the rate observed from recorded
+ * upload costs (lib/storageSpend.ts) when available.
+ *
+ * Sizes come from the entry (`size` / `binary_size`), then the chunk
+ * manifest, then the local upload journal; entries written before sizes
+ * were recorded may remain unknown.
+ */
+
+import type { UploadJournalEntry } from "@/lib/uploadJournal";
+import { estimateStorageCost } from "@/lib/walrus";
+import type { DataType } from "@/types/healthData";
+import type {
+	BaseMetadata,
+	BaseMetadataEntry,
+	ImagingMetadataEntry,
+} from "@/types/metadata";
+
+// ==========================================
+// Type Definitions
+// ==========================================
+
+/**
+ * Stored data of one data type
+ */
+export interface DataTypeStorageUsage {
+	dataType: DataType;
+	/** Referenced blobs (a chunked payload counts once) */
+	blobs: number;
+	/** Total size of blobs with a known size (bytes) */
+	bytes: number;
+	/** Blobs whose size could not be determined */
+	unknownSizeBlobs: number;
+}
+
+/**
+ * Resolves a blob size from another source (e.g. the upload journal)
+ */
+export type BlobSizeLookup = (blobId: string) => number | undefined;
+
+// ==========================================
+// Aggregation
+// ==========================================
+
+/**
+ * Build a size lookup from upload journal entries
+ *
+ * Chunk entries are skipped: chunked payloads are sized from their manifest.
+ */
+export function journalSizeLookup(
+	journal: UploadJournalEntry[],
+): BlobSizeLookup {
+	const sizes = new Map(
+		journal
+			.filter((entry) => !entry.manifestBlobId)
+			.map((entry) => [entry.blobId, entry.size]),
+	);
+	return (blobId) => sizes.get(blobId);
+}
+
+/**
+ * Aggregate blob sizes per data type from decrypted metadata
+ *
+ * imaging_meta binaries are reported under imaging_binary.
+ *
+ * @param metadata - Decrypted metadata of each data type
+ * @param lookup - Fallback size source for entries without a recorded size
+ * @returns Usage per data type, in the order first seen
+ */
+export function summarizeStorageUsage(
+	metadata: Array<BaseMetadata<BaseMetadataEntry>>,
+	lookup: BlobSizeLookup = () => undefined,
+): DataTypeStorageUsage[] {
+	const usage = new Map<DataType, DataTypeStorageUsage>();
+
+	const add = (dataType: DataType, blobId: string, size?: number) => {
+		const row = usage.get(dataType) ?? {
+			dataType,
+			blobs: 0,
+			bytes: 0,
+			unknownSizeBlobs: 0,
+		};
+		const resolved = size ?? lookup(blobId);
+		row.blobs++;
+		if (resolved === undefined) {
+			row.unknownSizeBlobs++;
+		} else {
+			row.bytes += resolved;
+		}
+		usage.set(dataType, row);
+	};
+
+	for (const data of metadata) {
+		for (const entry of data.entries ?? []) {
+			add(
+				data.data_type,
+				entry.blob_id,
+				entry.size ?? entry.chunk_manifest?.total_size,
+			);
+
+			if (data.data_type === "imaging_meta") {
+				const imaging = entry as ImagingMetadataEntry;
+				if (imaging.binary_blob_id) {
+					add(
+						"imaging_binary",
+						imaging.binary_blob_id,
+						imaging.binary_size ?? imaging.binary_chunk_manifest?.total_size,
+					);
+				}
+			}
+		}
+	}
+
+	return [...usage.values()];
+}
+
+// ==========================================
+// Projection
+// ==========================================
+
+/**
+ * Project the cost of storing the current data for more epochs
+ *
+ * Blobs of unknown size are not included.
+ *
+ * @param usage - Usage per data type
+ * @param epochs - Epochs to project
+ * @param frostPerKbEpoch - Observed price (default pricing when undefined)
+ * @returns Projected cost in FROST
+ */
+export function projectRenewalCost(
+	usage: DataTypeStorageUsage[],
+	epochs: number,
+	frostPerKbEpoch?: number,
+): number {
+	return usage.reduce(
+		(sum, row) => sum + estimateStorageCost(row.bytes, epochs, frostPerKbEpoch),
+		0,
+	);
+}
@@ -10,7 +10,20 @@
  * - MedicalPassport stores references to encrypted medical data
  */
 
-import { getFullnodeUrl, SuiClient } from "@mysten/sui/client";
+import { toHex } from "@mysten/bcs";
+import {
+	getFullnodeUrl,
+	SuiClient,
+	type SuiObjectData,
+} from "@mysten/sui/client";
+import {
+	decodeDataEntryField,
+	decodeMoveObject,
+	getDataEntryFieldId,
+	MEDICAL_PASSPORT_LAYOUT,
+	SchemaDriftError,
+	verifyOnChainLayouts,
+} from "@/lib/onChainSchema";
 import type { MedicalPassport } from "@/types";
 
 // ==========================================
@@ -26,11 +39,6 @@ const SUI_NETWORK = (process.env.NEXT_PUBLIC_SUI_NETWORK || "testnet") as
 	| "devnet"
 	| "localnet";
 
-/**
- * Debug mode flag - only log in development environment
- */
-const isDev = process.env.NODE_ENV === "development";
-
 /**
  * Smart contract addresses
  */
@@ -38,20 +46,6 @@ export const PACKAGE_ID = process.env.NEXT_PUBLIC_PACKAGE_ID || "";
 export const PASSPORT_REGISTRY_ID =
 	process.env.NEXT_PUBLIC_PASSPORT_REGISTRY_ID || "";
 
-// ==========================================
-// Type Definitions
-// ==========================================
-
-/**
- * MedicalPassport object structure from Move contract
- * Note: seal_id is stored per EntryData (not in MedicalPassport)
- */
-interface MedicalPassportObject {
-	id: string; // Sui object ID
-	country_code: string;
-	analytics_opt_in: boolean;
-}
-
 // ==========================================
 // SuiClient Singleton
 // ==========================================
@@ -89,8 +83,11 @@ export function resetSuiClient(): void {
 /**
  * Get MedicalPassport object by object ID
  *
+ * The object is decoded from BCS (lib/onChainSchema.ts).
+ *
  * @param passportObjectId - MedicalPassport Sui object ID
  * @returns MedicalPassport data
+ * @throws SchemaDriftError if the contract layout no longer matches
  * @throws Error if passport not found or fetch fails
  */
 export async function getMedicalPassport(
@@ -99,11 +96,11 @@ export async function getMedicalPassport(
 	const client = getSuiClient();
 
 	try {
+		await verifyOnChainLayouts(client, PACKAGE_ID);
 		const response = await client.getObject({
 			id: passportObjectId,
 			options: {
-				showContent: true,
-				showType: true,
+				showBcs: true,
 			},
 		});
 
@@ -111,21 +108,18 @@ export async function getMedicalPassport(
 			throw new Error(`MedicalPassport not found: ${passportObjectId}`);
 		}
 
-		const content = response.data.content;
-		if (content?.dataType !== "moveObject") {
-			throw new Error("Invalid passport object structure");
-		}
-
-		const fields = content.fields as unknown as MedicalPassportObject;
+		const passport = decodeMoveObject(MEDICAL_PASSPORT_LAYOUT, response.data);
 
-		// Note: fields.seal_id is intentionally ignored
-		// seal_id is now dynamically generated per dataType using generateSealId(address, dataType)
+		// Note: seal_id is stored per EntryData (not in MedicalPassport)
 		return {
 			id: response.data.objectId,
-			countryCode: fields.country_code,
-			analyticsOptIn: fields.analytics_opt_in,
+			countryCode: passport.country_code,
+			analyticsOptIn: passport.analytics_opt_in,
 		};
 	} catch (error) {
+		if (error instanceof SchemaDriftError) {
+			throw error;
+		}
 		if (error instanceof Error) {
 			throw new Error(`Failed to fetch MedicalPassport: ${error.message}`);
 		}
@@ -300,6 +294,23 @@ export interface EntryData {
 	updatedAt: number;
 }
 
+/**
+ * Decode EntryData from its dynamic field object
+ * (`0x2::dynamic_field::Field<String, EntryData>`, fetched with `showBcs`)
+ *
+ * @param object - Dynamic field object data
+ * @returns EntryData with sealId as a hex string
+ * @throws SchemaDriftError if the object does not match the EntryData layout
+ */
+export function decodeEntryDataObject(object: SuiObjectData): EntryData {
+	const { value } = decodeDataEntryField(object);
+	return {
+		sealId: toHex(Uint8Array.from(value.seal_id)),
+		metadataBlobId: value.metadata_blob_id,
+		updatedAt: Number(value.updated_at),
+	};
+}
+
 /**
  * Get EntryData (seal_id + metadata_blob_id) for a specific data type from MedicalPassport Dynamic Fields (v3.0.0)
  *
@@ -307,14 +318,15 @@ export interface EntryData {
  * (e.g., "medications", "basic_profile") and returns the full EntryData including seal_id.
  *
  * Flow:
- * 1. Query Dynamic Field with data type as key (String type)
- * 2. Extract seal_id and metadata_blob_id from field value (EntryData struct)
+ * 1. Derive the Dynamic Field object ID from the data type key (String type)
+ * 2. Decode the field value (EntryData struct) from BCS
  * 3. Return EntryData for decryption
  *
  * @param passportObjectId - MedicalPassport Sui object ID
  * @param dataType - Data type key (e.g., "medications", "basic_profile")
  * @returns EntryData with sealId and metadataBlobId, or null if data type not found
- * @throws Error if query fails (except for "not found" which returns null)
+ * @throws SchemaDriftError if the contract layout no longer matches
+ * @throws Error if query fails
  *
  * @example
  * ```typescript
@@ -332,16 +344,12 @@ export async function getDataEntry(
 	const client = getSuiClient();
 
 	try {
-		// Query dynamic field with data type as key
-		// Dynamic Field key type is String
-		const dynamicFieldName = {
-			type: "0x1::string::String",
-			value: dataType,
-		};
+		await verifyOnChainLayouts(client, PACKAGE_ID);
 
-		const response = await client.getDynamicFieldObject({
-			parentId: passportObjectId,
-			name: dynamicFieldName,
+		// Dynamic Field object ID is derived from the passport ID and the String key
+		const response = await client.getObject({
+			id: getDataEntryFieldId(passportObjectId, dataType),
+			options: { showBcs: true },
 		});
 
 		if (!response.data) {
@@ -349,114 +357,11 @@ export async function getDataEntry(
 			return null;
 		}
 
-		// Extract blob_ids from Dynamic Field value
-		const content = response.data.content;
-		if (!content || content.dataType !== "moveObject") {
-			throw new Error("Invalid dynamic field structure");
-		}
-
-		// Dynamic Field value is EntryData struct: { seal_id, blob_ids, updated_at }
-		// Note: Sui SDK may return different structures depending on version
-		const rawFields = content.fields as Record<string, unknown>;
-
-		// Debug: Log the actual structure to understand the response format
-		if (isDev) {
-			console.log(
-				"[getDataEntry] Raw fields structure:",
-				JSON.stringify(rawFields, null, 2),
-			);
-		}
-
-		// Extract EntryData from multiple possible structures (v3.0.0)
-		// Note: seal_id is stored as vector<u8> on-chain, returned as number array
-		// metadata_blob_id is a single String (not array)
-		type EntryDataShape = {
-			seal_id?: number[] | string; // vector<u8> from on-chain or hex string (legacy)
-			metadata_blob_id?: string; // v3.0.0: single metadata blob ID
-			updated_at?: string | number;
-		};
-		let entryDataRaw: EntryDataShape | undefined;
-
-		if (rawFields.value && typeof rawFields.value === "object") {
-			const value = rawFields.value as Record<string, unknown>;
-
-			// Pattern 1: value.fields contains EntryData (nested structure)
-			if ("fields" in value && typeof value.fields === "object") {
-				entryDataRaw = value.fields as EntryDataShape;
-				if (isDev) {
-					console.log("[getDataEntry] Using nested structure (value.fields)");
-				}
-			}
-			// Pattern 2: value directly contains EntryData fields (v3.0.0: metadata_blob_id)
-			else if ("metadata_blob_id" in value) {
-				entryDataRaw = value as EntryDataShape;
-				if (isDev) {
-					console.log("[getDataEntry] Using direct structure (value)");
-				}
-			}
-		}
-
-		// Validate extraction (v3.0.0: metadata_blob_id)
-		if (
-			!entryDataRaw?.metadata_blob_id ||
-			typeof entryDataRaw.metadata_blob_id !== "string"
-		) {
-			console.error(
-				"[getDataEntry] Failed to extract metadata_blob_id. Full structure:",
-				JSON.stringify(content.fields, null, 2),
-			);
-			throw new Error(
-				"Invalid EntryData structure: metadata_blob_id not found",
-			);
-		}
-
-		if (entryDataRaw?.seal_id === undefined || entryDataRaw.seal_id === null) {
-			console.error(
-				"[getDataEntry] Failed to extract seal_id. Full structure:",
-				JSON.stringify(content.fields, null, 2),
-			);
-			throw new Error("Invalid EntryData structure: seal_id not found");
-		}
-
-		// Convert seal_id from vector<u8> (number array) to hex string if needed
-		let sealIdHex: string;
-		if (Array.isArray(entryDataRaw.seal_id)) {
-			// New format: vector<u8> stored on-chain, returned as number array
-			sealIdHex = entryDataRaw.seal_id
-				.map((b) => b.toString(16).padStart(2, "0"))
-				.join("");
-			if (isDev) {
-				console.log(
-					"[getDataEntry] Converted seal_id from vector<u8> to hex string",
-				);
-			}
-		} else if (typeof entryDataRaw.seal_id === "string") {
-			// Legacy format: hex string stored directly (backward compatibility)
-			sealIdHex = entryDataRaw.seal_id;
-			if (isDev) {
-				console.log("[getDataEntry] Using seal_id as hex string directly");
-			}
-		} else {
-			throw new Error(`Invalid seal_id type: ${typeof entryDataRaw.seal_id}`);
-		}
-
-		return {
-			sealId: sealIdHex,
-			metadataBlobId: entryDataRaw.metadata_blob_id,
-			updatedAt:
-				typeof entryDataRaw.updated_at === "string"
-					? Number.parseInt(entryDataRaw.updated_at, 10)
-					: (entryDataRaw.updated_at ?? 0),
-		};
+		return decodeEntryDataObject(response.data);
 	} catch (error) {
-		// If error is "Dynamic field not found", return null
-		if (
-			error instanceof Error &&
-			error.message.includes("Dynamic field not found")
-		) {
-			return null;
+		if (error instanceof SchemaDriftError) {
+			throw error;
 		}
-
 		if (error instanceof Error) {
 			throw new Error(`Failed to get data entry: ${error.message}`);
 		}
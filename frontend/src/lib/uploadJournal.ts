@@ -0,0 +1,116 @@
+/**
+ * Walrus Upload Journal
+ *
+ * Local record of every deletable blob object uploaded on behalf of an owner.
+ * Saves always upload fresh metadata/data blobs, so the journal is the only
+ * list of previous versions; blob GC compares it with what the SBT still
+ * references to find orphaned blobs.
+ *
+ * Storage: localStorage, one JSON array per owner address.
+ * Only newly created blob objects owned by the user are journaled
+ * (blobs returned as alreadyCertified belong to someone else).
+ */
+
+import type { DataType } from "@/types/healthData";
+
+// ==========================================
+// Constants
+// ==========================================
+
+/**
+ * localStorage key prefix (owner address is appended)
+ */
+const UPLOAD_JOURNAL_STORAGE_PREFIX = "curepocket_upload_journal_v1:";
+
+// ==========================================
+// Type Definitions
+// ==========================================
+
+/**
+ * A single uploaded blob object
+ */
+export interface UploadJournalEntry {
+	/** Walrus blob ID (content-addressed) */
+	blobId: string;
+	/** Sui Blob object ID owned by the user */
+	objectId: string;
+	/** Data type the blob was uploaded for (if known) */
+	dataType?: DataType;
+	/** Manifest blob ID when this blob is a chunk of a chunked payload */
+	manifestBlobId?: string;
+	/** Blob size in bytes */
+	size: number;
+	/** Last Walrus epoch the blob is stored for */
+	endEpoch?: number;
+	/** Upload time (Unix timestamp ms) */
+	uploadedAt: number;
+}
+
+// ==========================================
+// Journal Access
+// ==========================================
+
+function storageKey(owner: string): string {
+	return `${UPLOAD_JOURNAL_STORAGE_PREFIX}${owner.toLowerCase()}`;
+}
+
+/**
+ * Load the upload journal for an owner
+ *
+ * @param owner - Owner wallet address
+ * @returns Journal entries (empty outside the browser or if unreadable)
+ */
+export function loadUploadJournal(owner: string): UploadJournalEntry[] {
+	if (typeof window === "undefined") {
+		return [];
+	}
+	const stored = localStorage.getItem(storageKey(owner));
+	if (!stored) {
+		return [];
+	}
+	try {
+		const parsed = JSON.parse(stored);
+		return Array.isArray(parsed) ? (parsed as UploadJournalEntry[]) : [];
+	} catch (error) {
+		console.warn("[UploadJournal] Corrupted journal, ignoring", error);
+		return [];
+	}
+}
+
+/**
+ * Append uploaded blob objects to an owner's journal
+ *
+ * Entries with an object ID already in the journal are skipped.
+ */
+export function recordUploads(
+	owner: string,
+	entries: UploadJournalEntry[],
+): void {
+	if (typeof window === "undefined" || entries.length === 0) {
+		return;
+	}
+	const journal = loadUploadJournal(owner);
+	const known = new Set(journal.map((entry) => entry.objectId));
+	const added = entries.filter((entry) => !known.has(entry.objectId));
+	localStorage.setItem(
+		storageKey(owner),
+		JSON.stringify([...journal, ...added]),
+	);
+}
+
+/**
+ * Remove blob objects from an owner's journal (e.g. after deletion)
+ */
+export function removeFromUploadJournal(
+	owner: string,
+	objectIds: string[],
+): void {
+	if (typeof window === "undefined" || objectIds.length === 0) {
+		return;
+	}
+	const removed = new Set(objectIds);
+	const journal = loadUploadJournal(owner).filter(
+		(entry) => !removed.has(entry.objectId),
+	);
+	localStorage.setItem(storageKey(owner), JSON.stringify(journal));
+}
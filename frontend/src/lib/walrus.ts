@@ -9,32 +9,54 @@
  * - Content-addressed blobs with on-chain references
  * - HTTP API for upload/download operations
  * - Integration with Sui blockchain for blob objects
+ *
+ * All HTTP calls go through the active WalrusTransport (see
+ * lib/walrusTransport.ts), which handles publisher / aggregator failover.
  */
 
-import type { WalrusBlobReference } from "@/types/healthData";
+import { escrowBackupKey } from "@/lib/recoveryKit";
+import {
+	confirmStorageSpend,
+	getObservedStorageRate,
+	loadStorageSpend,
+	recordStorageSpend,
+	type StorageSpendRecord,
+	takeCompressionSavings,
+} from "@/lib/storageSpend";
+import { recordUploads, type UploadJournalEntry } from "@/lib/uploadJournal";
+import {
+	assembleChunks,
+	buildChunkManifest,
+	decodeChunkManifest,
+	encodeChunkManifest,
+	isChunkManifestBlob,
+	sha256Hex,
+	splitIntoChunks,
+} from "@/lib/walrusChunks";
+import { getWalrusTransport } from "@/lib/walrusTransport";
+import type { DataType, WalrusBlobReference } from "@/types/healthData";
+import type { BaseMetadataEntry, ChunkManifest } from "@/types/metadata";
 
 // ==========================================
 // Environment Configuration
 // ==========================================
 
 /**
- * Walrus Publisher endpoint (for uploads)
+ * Maximum size of a single Walrus blob (1MB default)
+ * Larger payloads are split into chunks of this size.
  */
-const WALRUS_PUBLISHER =
-	process.env.NEXT_PUBLIC_WALRUS_PUBLISHER_URL ||
-	"https://walrus-testnet-publisher.mystenlabs.com";
+export const MAX_BLOB_SIZE = 1 * 1024 * 1024;
 
 /**
- * Walrus Aggregator endpoint (for downloads)
+ * Maximum total payload size accepted by chunked uploads (32MB)
  */
-const WALRUS_AGGREGATOR =
-	process.env.NEXT_PUBLIC_WALRUS_AGGREGATOR_URL ||
-	"https://walrus-testnet-aggregator.mystenlabs.com";
+export const MAX_CHUNKED_PAYLOAD_SIZE = 32 * 1024 * 1024;
 
 /**
- * Maximum blob size (1MB default)
+ * Default number of Walrus epochs to store new blobs for
  */
-const MAX_BLOB_SIZE = 1 * 1024 * 1024;
+export const DEFAULT_STORAGE_EPOCHS =
+	Number.parseInt(process.env.NEXT_PUBLIC_WALRUS_STORAGE_EPOCHS || "", 10) || 1;
 
 // ==========================================
 // Type Definitions
@@ -90,6 +112,21 @@ interface WalrusErrorResponse {
 	message?: string;
 }
 
+/**
+ * Upload options
+ */
+export interface UploadOptions {
+	/** Number of epochs to store (default: DEFAULT_STORAGE_EPOCHS) */
+	epochs?: number;
+	/**
+	 * Owner wallet address. When set, blobs are created as deletable objects
+	 * owned by this address and recorded in the owner's upload journal.
+	 */
+	owner?: string;
+	/** Data type the upload belongs to (recorded in the upload journal) */
+	dataType?: DataType;
+}
+
 // ==========================================
 // Core Walrus Functions
 // ==========================================
@@ -99,111 +136,208 @@ interface WalrusErrorResponse {
  *
  * Upload flow:
  * 1. Validate data size
- * 2. Send PUT request to /v1/blobs
- * 3. Receive blob reference (blobId + objectId)
- * 4. Return reference for on-chain storage
+ * 2. Payloads up to MAX_BLOB_SIZE: single PUT to /v1/blobs
+ * 3. Larger payloads: upload ordered chunks, then a chunk manifest blob
+ * 4. Return blob reference (manifest blob ID for chunked payloads)
+ *
+ * The returned endEpoch is the last epoch for which every backing blob
+ * is stored (the minimum across chunks and manifest).
  *
  * @param data - Encrypted data to upload (Uint8Array)
- * @param epochs - Number of epochs to store (default: 1)
- * @returns Walrus blob reference
+ * @param options - Storage epochs, owner and data type
+ * @returns Walrus blob reference (includes manifest when chunked)
  * @throws Error if upload fails or data exceeds size limit
  */
 export async function uploadToWalrus(
 	data: Uint8Array,
-	_epochs: number = 1,
+	options: UploadOptions = {},
 ): Promise<WalrusBlobReference> {
+	const { epochs = DEFAULT_STORAGE_EPOCHS, owner, dataType } = options;
+
 	// Validate size
-	if (data.length > MAX_BLOB_SIZE) {
+	if (data.length > MAX_CHUNKED_PAYLOAD_SIZE) {
 		throw new Error(
-			`Data size ${data.length} bytes exceeds maximum ${MAX_BLOB_SIZE} bytes`,
+			`Data size ${data.length} bytes exceeds maximum ${MAX_CHUNKED_PAYLOAD_SIZE} bytes`,
 		);
 	}
+	validateEpochs(epochs);
+	await confirmSpend(owner, dataType, data.length, epochs);
 
-	try {
-		// Upload to Walrus
-		const response = await fetch(`${WALRUS_PUBLISHER}/v1/blobs`, {
-			method: "PUT",
-			body: data as unknown as BodyInit,
-			headers: {
-				"Content-Type": "application/octet-stream",
-			},
+	if (data.length <= MAX_BLOB_SIZE) {
+		const ref = await putBlob(data, epochs, owner);
+		journalUploads(owner, dataType, [ref]);
+		recordSpend(owner, dataType, "upload", epochs, [ref], {
+			blobId: ref.blobId,
+			savedBytes: takeCompressionSavings(data),
 		});
+		const sha256 = await sha256Hex(data);
+		await escrowBackupKey(
+			owner,
+			data,
+			{ blobId: ref.blobId, sha256 },
+			dataType,
+		);
+		return { ...ref, sha256 };
+	}
 
-		if (!response.ok) {
-			const errorData = (await response.json()) as WalrusErrorResponse;
-			throw new Error(
-				`Walrus upload failed: ${errorData.error || response.statusText}`,
-			);
+	try {
+		// Upload chunks sequentially to keep memory and publisher load bounded
+		const chunkBytes = splitIntoChunks(data, MAX_BLOB_SIZE);
+		const uploadedChunks: Array<{ blobId: string; bytes: Uint8Array }> = [];
+		const chunkRefs: WalrusBlobReference[] = [];
+		for (const bytes of chunkBytes) {
+			const chunkRef = await putBlob(bytes, epochs, owner);
+			uploadedChunks.push({ blobId: chunkRef.blobId, bytes });
+			chunkRefs.push(chunkRef);
 		}
 
-		const result = (await response.json()) as WalrusUploadResponse;
+		const manifest = await buildChunkManifest({
+			data,
+			chunkSize: MAX_BLOB_SIZE,
+			chunks: uploadedChunks,
+		});
+		const manifestRef = await putBlob(
+			encodeChunkManifest(manifest),
+			epochs,
+			owner,
+		);
+		journalUploads(owner, dataType, [manifestRef]);
+		journalUploads(owner, dataType, chunkRefs, manifestRef.blobId);
+		recordSpend(
+			owner,
+			dataType,
+			"upload",
+			epochs,
+			[...chunkRefs, manifestRef],
+			{
+				blobId: manifestRef.blobId,
+				savedBytes: takeCompressionSavings(data),
+			},
+		);
+		await escrowBackupKey(
+			owner,
+			data,
+			{ blobId: manifestRef.blobId, sha256: manifest.sha256 },
+			dataType,
+		);
+		const endEpochs = [...chunkRefs, manifestRef].map((ref) => ref.endEpoch);
+		const costs = [...chunkRefs, manifestRef].map((ref) => ref.cost);
 
-		// Handle both response types
-		if ("newlyCreated" in result) {
-			return {
-				blobId: result.newlyCreated.blobObject.blobId,
-				uploadedAt: Date.now(),
-				size: result.newlyCreated.blobObject.size,
-			};
-		} else if ("alreadyCertified" in result) {
-			// Blob already exists, return existing reference
-			return {
-				blobId: result.alreadyCertified.blobId,
-				uploadedAt: Date.now(),
-				size: data.length,
-			};
-		} else {
-			throw new Error("Unexpected Walrus response format");
-		}
+		return {
+			blobId: manifestRef.blobId,
+			uploadedAt: Date.now(),
+			size: data.length,
+			endEpoch: minEndEpoch(endEpochs),
+			...(costs.some((cost) => cost !== undefined) && {
+				cost: costs.reduce<number>((sum, cost) => sum + (cost ?? 0), 0),
+			}),
+			manifest,
+			sha256: manifest.sha256,
+		};
 	} catch (error) {
 		if (error instanceof Error) {
-			throw new Error(`Failed to upload to Walrus: ${error.message}`);
+			throw new Error(`Chunked upload failed: ${error.message}`);
 		}
-		throw new Error("Failed to upload to Walrus: Unknown error");
+		throw new Error("Chunked upload failed: Unknown error");
 	}
 }
 
+/**
+ * Build the storage fields of a metadata entry from an upload reference
+ *
+ * Chunked uploads record their manifest alongside the manifest blob ID so
+ * the entry describes every blob that backs it. The storage end epoch is
+ * recorded so expiring blobs can be found without querying Walrus, the
+ * payload digest so downloads can be verified (see lib/blobIntegrity.ts),
+ * and the stored size for the storage dashboard (see lib/storageUsage.ts).
+ *
+ * @param ref - Reference returned by uploadToWalrus
+ * @returns blob_id, end_epoch (when known), chunk_manifest (when chunked), sha256 and size
+ */
+export function toEntryBlobFields(ref: WalrusBlobReference): BaseMetadataEntry {
+	return {
+		blob_id: ref.blobId,
+		...(ref.endEpoch !== undefined && { end_epoch: ref.endEpoch }),
+		...(ref.manifest && { chunk_manifest: ref.manifest }),
+		...(ref.sha256 && { sha256: ref.sha256 }),
+		size: ref.size,
+	};
+}
+
+/**
+ * Extend the storage period of an existing blob
+ *
+ * Walrus blobs are content-addressed, so re-storing the stored bytes with a
+ * new epoch count keeps the same blob ID while pushing out its end epoch.
+ * For chunked payloads every chunk and the manifest blob are re-stored.
+ *
+ * @param blobId - Blob ID (manifest blob ID when chunked)
+ * @param chunkManifest - Chunk manifest recorded for the blob, if any
+ * @param options - Storage epochs from now, owner and data type
+ * @returns New end epoch (minimum across all backing blobs)
+ * @throws Error if a blob cannot be downloaded or re-stored
+ */
+export async function extendBlobStorage(
+	blobId: string,
+	chunkManifest: ChunkManifest | undefined,
+	options: UploadOptions = {},
+): Promise<number | undefined> {
+	const { epochs = DEFAULT_STORAGE_EPOCHS, owner, dataType } = options;
+	validateEpochs(epochs);
+
+	const blobIds = [
+		...(chunkManifest?.chunks.map((chunk) => chunk.blob_id) ?? []),
+		blobId,
+	];
+
+	const endEpochs: Array<number | undefined> = [];
+	for (const id of blobIds) {
+		const bytes = await fetchBlob(id);
+		await confirmSpend(owner, dataType, bytes.length, epochs);
+		const ref = await putBlob(bytes, epochs, owner);
+		if (ref.blobId !== id) {
+			throw new Error(
+				`Failed to extend storage: blob ID changed on re-store (${id} -> ${ref.blobId})`,
+			);
+		}
+		journalUploads(
+			owner,
+			dataType,
+			[ref],
+			id === blobId || !chunkManifest ? undefined : blobId,
+		);
+		recordSpend(owner, dataType, "extend", epochs, [ref]);
+		endEpochs.push(ref.endEpoch);
+	}
+
+	return minEndEpoch(endEpochs);
+}
+
 /**
  * Download blob from Walrus by blob ID
  *
  * Download flow:
- * 1. Send GET request to /v1/blobs/by-blob-id/{blob_id}
- * 2. Receive encrypted data
- * 3. Return as Uint8Array for decryption
+ * 1. Send GET request to /v1/blobs/{blob_id}
+ * 2. If the blob is a chunk manifest, download every chunk in order
+ *    and reassemble with per-chunk SHA-256 verification
+ * 3. Return encrypted data as Uint8Array for decryption
  *
- * @param blobId - Walrus blob ID (content-addressed)
+ * @param blobId - Walrus blob ID (content-addressed, may be a manifest)
  * @returns Encrypted data as Uint8Array
- * @throws Error if download fails or blob not found
+ * @throws Error if download fails, blob not found or chunk integrity check fails
  */
 export async function downloadFromWalrusByBlobId(
 	blobId: string,
 ): Promise<Uint8Array> {
-	try {
-		const response = await fetch(`${WALRUS_AGGREGATOR}/v1/blobs/${blobId}`, {
-			method: "GET",
-		});
-
-		if (!response.ok) {
-			if (response.status === 404) {
-				throw new Error(`Blob not found: ${blobId}`);
-			}
-			throw new Error(`Walrus download failed: ${response.statusText}`);
-		}
-
-		const arrayBuffer = await response.arrayBuffer();
-		return new Uint8Array(arrayBuffer);
-	} catch (error) {
-		if (error instanceof Error) {
-			throw new Error(`Failed to download from Walrus: ${error.message}`);
-		}
-		throw new Error("Failed to download from Walrus: Unknown error");
-	}
+	const bytes = await fetchBlob(blobId);
+	return isChunkManifestBlob(bytes) ? reassembleChunkedBlob(bytes) : bytes;
 }
 
 /**
  * Download blob from Walrus by Sui object ID
  *
  * This is useful when you have the on-chain blob object reference.
+ * Chunk manifests are reassembled the same way as downloadFromWalrusByBlobId.
  *
  * @param objectId - Sui blob object ID
  * @returns Encrypted data as Uint8Array
@@ -212,9 +346,11 @@ export async function downloadFromWalrusByBlobId(
 export async function downloadFromWalrusByObjectId(
 	objectId: string,
 ): Promise<Uint8Array> {
+	let bytes: Uint8Array;
 	try {
-		const response = await fetch(
-			`${WALRUS_AGGREGATOR}/v1/blobs/by-object-id/${objectId}`,
+		const response = await getWalrusTransport().request(
+			"aggregator",
+			`/v1/blobs/by-object-id/${objectId}`,
 			{
 				method: "GET",
 			},
@@ -228,13 +364,15 @@ export async function downloadFromWalrusByObjectId(
 		}
 
 		const arrayBuffer = await response.arrayBuffer();
-		return new Uint8Array(arrayBuffer);
+		bytes = new Uint8Array(arrayBuffer);
 	} catch (error) {
 		if (error instanceof Error) {
 			throw new Error(`Failed to download from Walrus: ${error.message}`);
 		}
 		throw new Error("Failed to download from Walrus: Unknown error");
 	}
+
+	return isChunkManifestBlob(bytes) ? reassembleChunkedBlob(bytes) : bytes;
 }
 
 /**
@@ -245,34 +383,19 @@ export async function downloadFromWalrusByObjectId(
  */
 export async function blobExists(blobId: string): Promise<boolean> {
 	try {
-		const response = await fetch(`${WALRUS_AGGREGATOR}/v1/blobs/${blobId}`, {
-			method: "HEAD",
-		});
+		const response = await getWalrusTransport().request(
+			"aggregator",
+			`/v1/blobs/${blobId}`,
+			{
+				method: "HEAD",
+			},
+		);
 		return response.ok;
 	} catch {
 		return false;
 	}
 }
 
-/**
- * Delete a blob from Walrus (if supported)
- *
- * Note: Walrus is immutable storage, so deletion may not be supported.
- * This function is a placeholder for future deletion mechanisms.
- *
- * @param blobId - Walrus blob ID to delete
- * @returns True if deleted, false otherwise
- */
-export async function deleteBlob(blobId: string): Promise<boolean> {
-	// Walrus is immutable storage
-	// Deletion would require burning the on-chain blob object
-	// This is typically handled through smart contract calls
-	console.warn(
-		`Walrus blob deletion not implemented: ${blobId}. Blobs are immutable.`,
-	);
-	return false;
-}
-
 /**
  * Get blob metadata without downloading content
  *
@@ -288,9 +411,13 @@ export async function getBlobMetadata(blobId: string): Promise<{
 	certified: boolean;
 }> {
 	try {
-		const response = await fetch(`${WALRUS_AGGREGATOR}/v1/blobs/${blobId}`, {
-			method: "HEAD",
-		});
+		const response = await getWalrusTransport().request(
+			"aggregator",
+			`/v1/blobs/${blobId}`,
+			{
+				method: "HEAD",
+			},
+		);
 
 		if (!response.ok) {
 			throw new Error(`Blob not found: ${blobId}`);
@@ -316,22 +443,259 @@ export async function getBlobMetadata(blobId: string): Promise<{
 	}
 }
 
+/**
+ * Default storage price used when no upload costs have been observed yet
+ * (FROST per KB per epoch)
+ */
+export const DEFAULT_FROST_PER_KB_EPOCH = 1_000;
+
 /**
  * Estimate storage cost for a blob
  *
  * This is a rough estimate based on blob size and epoch count.
- * Actual cost may vary based on Walrus pricing.
+ * Actual cost may vary based on Walrus pricing; pass the rate observed from
+ * recorded upload costs (getObservedStorageRate) for a closer figure.
  *
  * @param sizeBytes - Size of blob in bytes
  * @param epochs - Number of epochs to store
- * @returns Estimated cost in MIST (1 SUI = 1,000,000,000 MIST)
+ * @param frostPerKbEpoch - Price in FROST per KB per epoch
+ * @returns Estimated cost in FROST (1 WAL = 1,000,000,000 FROST)
  */
 export function estimateStorageCost(
 	sizeBytes: number,
 	epochs: number = 1,
+	frostPerKbEpoch: number = DEFAULT_FROST_PER_KB_EPOCH,
 ): number {
-	// Placeholder formula: 1 MIST per KB per epoch
-	// TODO: Update with actual Walrus pricing
 	const sizeKB = Math.ceil(sizeBytes / 1024);
-	return sizeKB * epochs * 1_000; // Cost in MIST
+	return Math.ceil(sizeKB * epochs * frostPerKbEpoch);
+}
+
+// ==========================================
+// Internal helpers
+// ==========================================
+
+/**
+ * Validate an epoch count before sending it to the publisher
+ */
+function validateEpochs(epochs: number): void {
+	if (!Number.isInteger(epochs) || epochs < 1) {
+		throw new Error(`Invalid storage epochs: ${epochs}`);
+	}
+}
+
+/**
+ * Earliest end epoch across backing blobs (undefined if any is unknown)
+ */
+function minEndEpoch(endEpochs: Array<number | undefined>): number | undefined {
+	if (endEpochs.some((epoch) => epoch === undefined)) {
+		return undefined;
+	}
+	return Math.min(...(endEpochs as number[]));
+}
+
+/**
+ * Record newly created, owned blob objects in the owner's upload journal
+ */
+function journalUploads(
+	owner: string | undefined,
+	dataType: DataType | undefined,
+	refs: WalrusBlobReference[],
+	manifestBlobId?: string,
+): void {
+	if (!owner) {
+		return;
+	}
+	const entries: UploadJournalEntry[] = refs.flatMap((ref) =>
+		ref.objectId
+			? [
+					{
+						blobId: ref.blobId,
+						objectId: ref.objectId,
+						...(dataType && { dataType }),
+						...(manifestBlobId && { manifestBlobId }),
+						size: ref.size,
+						...(ref.endEpoch !== undefined && { endEpoch: ref.endEpoch }),
+						uploadedAt: ref.uploadedAt,
+					},
+				]
+			: [],
+	);
+	recordUploads(owner, entries);
+}
+
+/**
+ * Ask before an upload that would exceed the owner's storage budget,
+ * estimating at the price observed from earlier uploads
+ */
+async function confirmSpend(
+	owner: string | undefined,
+	dataType: DataType | undefined,
+	sizeBytes: number,
+	epochs: number,
+): Promise<void> {
+	if (!owner) {
+		return;
+	}
+	const rate = getObservedStorageRate(loadStorageSpend(owner));
+	await confirmStorageSpend(
+		owner,
+		estimateStorageCost(sizeBytes, epochs, rate),
+		dataType,
+	);
+}
+
+/**
+ * Record the publisher-reported cost of newly created blobs
+ * (alreadyCertified blobs were paid for by someone else)
+ *
+ * Compression savings are recorded on the payload's primary blob (the
+ * manifest for chunked payloads).
+ */
+function recordSpend(
+	owner: string | undefined,
+	dataType: DataType | undefined,
+	kind: StorageSpendRecord["kind"],
+	epochs: number,
+	refs: WalrusBlobReference[],
+	savings?: { blobId: string; savedBytes: number | undefined },
+): void {
+	if (!owner) {
+		return;
+	}
+	recordStorageSpend(
+		owner,
+		refs.flatMap((ref) =>
+			ref.cost !== undefined
+				? [
+						{
+							blobId: ref.blobId,
+							...(dataType && { dataType }),
+							kind,
+							size: ref.size,
+							epochs,
+							cost: ref.cost,
+							...(savings?.savedBytes &&
+								savings.blobId === ref.blobId && {
+									savedBytes: savings.savedBytes,
+								}),
+							recordedAt: ref.uploadedAt,
+						},
+					]
+				: [],
+		),
+	);
+}
+
+/**
+ * PUT a single blob (at most MAX_BLOB_SIZE) to the publisher
+ *
+ * With an owner, the blob is created deletable and its Sui object is sent
+ * to the owner so it can later be deleted by blob GC.
+ */
+async function putBlob(
+	data: Uint8Array,
+	epochs: number,
+	owner?: string,
+): Promise<WalrusBlobReference> {
+	const query = new URLSearchParams({ epochs: String(epochs) });
+	if (owner) {
+		query.set("deletable", "true");
+		query.set("send_object_to", owner);
+	}
+
+	try {
+		const response = await getWalrusTransport().request(
+			"publisher",
+			`/v1/blobs?${query.toString()}`,
+			{
+				method: "PUT",
+				body: data as unknown as BodyInit,
+				headers: {
+					"Content-Type": "application/octet-stream",
+				},
+			},
+		);
+
+		if (!response.ok) {
+			const errorData = (await response.json()) as WalrusErrorResponse;
+			throw new Error(
+				`Walrus upload failed: ${errorData.error || response.statusText}`,
+			);
+		}
+
+		const result = (await response.json()) as WalrusUploadResponse;
+
+		// Handle both response types
+		if ("newlyCreated" in result) {
+			return {
+				blobId: result.newlyCreated.blobObject.blobId,
+				objectId: result.newlyCreated.blobObject.id,
+				uploadedAt: Date.now(),
+				size: result.newlyCreated.blobObject.size,
+				endEpoch: result.newlyCreated.blobObject.storage.endEpoch,
+				cost: result.newlyCreated.cost,
+			};
+		} else if ("alreadyCertified" in result) {
+			// Blob already exists, return existing reference
+			return {
+				blobId: result.alreadyCertified.blobId,
+				uploadedAt: Date.now(),
+				size: data.length,
+				endEpoch: result.alreadyCertified.endEpoch,
+			};
+		} else {
+			throw new Error("Unexpected Walrus response format");
+		}
+	} catch (error) {
+		if (error instanceof Error) {
+			throw new Error(`Failed to upload to Walrus: ${error.message}`);
+		}
+		throw new Error("Failed to upload to Walrus: Unknown error");
+	}
+}
+
+/**
+ * GET raw blob bytes from the aggregator (no manifest handling)
+ */
+async function fetchBlob(blobId: string): Promise<Uint8Array> {
+	try {
+		const response = await getWalrusTransport().request(
+			"aggregator",
+			`/v1/blobs/${blobId}`,
+			{
+				method: "GET",
+			},
+		);
+
+		if (!response.ok) {
+			if (response.status === 404) {
+				throw new Error(`Blob not found: ${blobId}`);
+			}
+			throw new Error(`Walrus download failed: ${response.statusText}`);
+		}
+
+		const arrayBuffer = await response.arrayBuffer();
+		return new Uint8Array(arrayBuffer);
+	} catch (error) {
+		if (error instanceof Error) {
+			throw new Error(`Failed to download from Walrus: ${error.message}`);
+		}
+		throw new Error("Failed to download from Walrus: Unknown error");
+	}
+}
+
+/**
+ * Download all chunks listed in a manifest blob and reassemble them
+ *
+ * @throws ChunkIntegrityError if any chunk fails verification
+ */
+async function reassembleChunkedBlob(
+	manifestBytes: Uint8Array,
+): Promise<Uint8Array> {
+	const manifest = decodeChunkManifest(manifestBytes);
+	const ordered = [...manifest.chunks].sort((a, b) => a.index - b.index);
+	const chunks = await Promise.all(
+		ordered.map((chunk) => fetchBlob(chunk.blob_id)),
+	);
+	return assembleChunks(manifest, chunks);
 }
@@ -0,0 +1,254 @@
+/**
+ * Walrus Chunked Blob Helpers
+ *
+ * Encrypted payloads larger than a single Walrus blob are split into ordered
+ * chunks, each uploaded as its own blob. A chunk manifest (also stored as a
+ * blob) lists the chunks in order together with their SHA-256 digests, so
+ * downloads can be reassembled and verified chunk by chunk.
+ *
+ * Manifest blob layout:
+ * [0-7]   magic bytes "CPCHUNK1"
+ * [8-..]  UTF-8 JSON of ChunkManifest
+ *
+ * Seal encrypted objects never start with this magic, so a downloaded blob
+ * can be classified unambiguously as either a manifest or a plain payload.
+ */
+
+import type { BlobChunk, ChunkManifest } from "@/types/metadata";
+
+// ==========================================
+// Constants
+// ==========================================
+
+/**
+ * Magic prefix identifying a chunk manifest blob
+ */
+const CHUNK_MANIFEST_MAGIC = new TextEncoder().encode("CPCHUNK1");
+
+/**
+ * Current manifest format version
+ */
+const CHUNK_MANIFEST_VERSION = 1;
+
+// ==========================================
+// Errors
+// ==========================================
+
+/**
+ * Raised when a reassembled payload does not match its manifest
+ */
+export class ChunkIntegrityError extends Error {
+	constructor(
+		message: string,
+		public readonly chunkIndex?: number,
+	) {
+		super(message);
+		this.name = "ChunkIntegrityError";
+	}
+}
+
+// ==========================================
+// Hashing
+// ==========================================
+
+/**
+ * Compute SHA-256 digest as lowercase hex
+ *
+ * @param data - Bytes to hash
+ * @returns Hex-encoded digest
+ */
+export async function sha256Hex(data: Uint8Array): Promise<string> {
+	const cryptoObj = globalThis.crypto;
+	if (!cryptoObj?.subtle) {
+		throw new Error("Web Crypto API is unavailable in this environment");
+	}
+	const hashBuffer = await cryptoObj.subtle.digest(
+		"SHA-256",
+		data as unknown as BufferSource,
+	);
+	return Array.from(new Uint8Array(hashBuffer))
+		.map((b) => b.toString(16).padStart(2, "0"))
+		.join("");
+}
+
+// ==========================================
+// Splitting & Manifest Construction
+// ==========================================
+
+/**
+ * Split bytes into ordered chunks of at most chunkSize bytes
+ *
+ * @param data - Payload to split
+ * @param chunkSize - Maximum chunk size in bytes
+ * @returns Ordered chunk views (no copy)
+ */
+export function splitIntoChunks(
+	data: Uint8Array,
+	chunkSize: number,
+): Uint8Array[] {
+	if (chunkSize <= 0) {
+		throw new Error(`Invalid chunk size: ${chunkSize}`);
+	}
+	const chunks: Uint8Array[] = [];
+	for (let offset = 0; offset < data.length; offset += chunkSize) {
+		chunks.push(data.subarray(offset, offset + chunkSize));
+	}
+	return chunks;
+}
+
+/**
+ * Build a chunk manifest from uploaded chunk references
+ *
+ * @param params - Original payload, chunk size and uploaded chunk blob IDs (in order)
+ * @returns Chunk manifest
+ */
+export async function buildChunkManifest(params: {
+	data: Uint8Array;
+	chunkSize: number;
+	chunks: Array<{ blobId: string; bytes: Uint8Array }>;
+}): Promise<ChunkManifest> {
+	const { data, chunkSize, chunks } = params;
+
+	const chunkEntries: BlobChunk[] = await Promise.all(
+		chunks.map(async (chunk, index) => ({
+			index,
+			blob_id: chunk.blobId,
+			size: chunk.bytes.length,
+			sha256: await sha256Hex(chunk.bytes),
+		})),
+	);
+
+	return {
+		manifest_version: CHUNK_MANIFEST_VERSION,
+		total_size: data.length,
+		chunk_size: chunkSize,
+		sha256: await sha256Hex(data),
+		chunks: chunkEntries,
+	};
+}
+
+// ==========================================
+// Manifest Encoding
+// ==========================================
+
+/**
+ * Encode a manifest into blob bytes (magic + JSON)
+ */
+export function encodeChunkManifest(manifest: ChunkManifest): Uint8Array {
+	const json = new TextEncoder().encode(JSON.stringify(manifest));
+	const bytes = new Uint8Array(CHUNK_MANIFEST_MAGIC.length + json.length);
+	bytes.set(CHUNK_MANIFEST_MAGIC, 0);
+	bytes.set(json, CHUNK_MANIFEST_MAGIC.length);
+	return bytes;
+}
+
+/**
+ * Check whether downloaded blob bytes are a chunk manifest
+ */
+export function isChunkManifestBlob(bytes: Uint8Array): boolean {
+	if (bytes.length < CHUNK_MANIFEST_MAGIC.length) {
+		return false;
+	}
+	return CHUNK_MANIFEST_MAGIC.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * Decode manifest blob bytes
+ *
+ * @throws ChunkIntegrityError if the blob is not a valid manifest
+ */
+export function decodeChunkManifest(bytes: Uint8Array): ChunkManifest {
+	if (!isChunkManifestBlob(bytes)) {
+		throw new ChunkIntegrityError("Blob is not a chunk manifest");
+	}
+
+	let manifest: ChunkManifest;
+	try {
+		manifest = JSON.parse(
+			new TextDecoder().decode(bytes.subarray(CHUNK_MANIFEST_MAGIC.length)),
+		) as ChunkManifest;
+	} catch {
+		throw new ChunkIntegrityError("Chunk manifest is not valid JSON");
+	}
+
+	if (manifest.manifest_version !== CHUNK_MANIFEST_VERSION) {
+		throw new ChunkIntegrityError(
+			`Unsupported chunk manifest version: ${manifest.manifest_version}`,
+		);
+	}
+	if (!Array.isArray(manifest.chunks) || manifest.chunks.length === 0) {
+		throw new ChunkIntegrityError("Chunk manifest has no chunks");
+	}
+
+	return manifest;
+}
+
+// ==========================================
+// Reassembly
+// ==========================================
+
+/**
+ * Reassemble chunk payloads in manifest order with per-chunk verification
+ *
+ * Checks:
+ * - chunk count matches manifest
+ * - each chunk's size and SHA-256 match its manifest entry
+ * - reassembled payload size and SHA-256 match the manifest
+ *
+ * @param manifest - Chunk manifest
+ * @param chunks - Downloaded chunk bytes, indexed by manifest order
+ * @returns Reassembled payload
+ * @throws ChunkIntegrityError on any mismatch
+ */
+export async function assembleChunks(
+	manifest: ChunkManifest,
+	chunks: Uint8Array[],
+): Promise<Uint8Array> {
+	const ordered = [...manifest.chunks].sort((a, b) => a.index - b.index);
+
+	if (chunks.length !== ordered.length) {
+		throw new ChunkIntegrityError(
+			`Expected ${ordered.length} chunks, received ${chunks.length}`,
+		);
+	}
+
+	const result = new Uint8Array(manifest.total_size);
+	let offset = 0;
+
+	for (const [position, entry] of ordered.entries()) {
+		const chunk = chunks[position];
+
+		if (chunk.length !== entry.size) {
+			throw new ChunkIntegrityError(
+				`Chunk ${entry.index} size mismatch: expected ${entry.size}, got ${chunk.length}`,
+				entry.index,
+			);
+		}
+
+		const digest = await sha256Hex(chunk);
+		if (digest !== entry.sha256) {
+			throw new ChunkIntegrityError(
+				`Chunk ${entry.index} digest mismatch (blob ${entry.blob_id})`,
+				entry.index,
+			);
+		}
+
+		if (offset + chunk.length > result.length) {
+			throw new ChunkIntegrityError("Chunks exceed manifest total size");
+		}
+		result.set(chunk, offset);
+		offset += chunk.length;
+	}
+
+	if (offset !== manifest.total_size) {
+		throw new ChunkIntegrityError(
+			`Reassembled size mismatch: expected ${manifest.total_size}, got ${offset}`,
+		);
+	}
+
+	if ((await sha256Hex(result)) !== manifest.sha256) {
+		throw new ChunkIntegrityError("Reassembled payload digest mismatch");
+	}
+
+	return result;
+}
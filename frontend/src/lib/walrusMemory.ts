@@ -0,0 +1,312 @@
+/**
+ * In-Memory Walrus Transport
+ *
+ * A Walrus-compatible stand-in for offline development and CI. It implements
+ * the WalrusTransport interface, so lib/walrus.ts (and every hook that uses
+ * it) works unchanged when it is selected.
+ *
+ * Emulated HTTP API:
+ * - Publisher: PUT /v1/blobs?epochs=N[&deletable=true][&send_object_to=0x…]
+ *   → `newlyCreated` / `alreadyCertified` responses
+ * - Aggregator: GET / HEAD /v1/blobs/{blobId}, /v1/blobs/by-object-id/{id}
+ * - Health: GET /v1/api
+ *
+ * Behaviour:
+ * - Blob IDs are content-addressed (SHA-256, base64url), so identical bytes
+ *   always get the same ID
+ * - Epochs are simulated: they advance with epochDurationMs or advanceEpochs()
+ * - Blobs are readable while any blob object's endEpoch is after the
+ *   current epoch, and return 404 afterwards
+ * - New blobs report a simulated `cost` proportional to size and epochs
+ *
+ * Enable with NEXT_PUBLIC_WALRUS_TRANSPORT=memory (epoch length via
+ * NEXT_PUBLIC_WALRUS_MEMORY_EPOCH_MS). Data lives only for the lifetime of
+ * the JS context (page load / server process).
+ */
+
+import { fromHex, toBase64 } from "@mysten/bcs";
+import { sha256Hex } from "@/lib/walrusChunks";
+import type { WalrusRole, WalrusTransport } from "@/lib/walrusTransport";
+
+// ==========================================
+// Constants
+// ==========================================
+
+/**
+ * Simulated storage price charged in `cost` (FROST per KB per epoch, the
+ * same as the estimateStorageCost default)
+ */
+const FROST_PER_KB_EPOCH = 1_000;
+
+// ==========================================
+// Type Definitions
+// ==========================================
+
+/**
+ * In-memory transport options
+ */
+export interface InMemoryWalrusOptions {
+	/** Epoch at creation (default: 1) */
+	initialEpoch?: number;
+	/** Simulated epoch length in ms; 0 advances only via advanceEpochs() (default: 0) */
+	epochDurationMs?: number;
+	/** Maximum epochs ahead a blob may be stored (default: 53, as on Walrus) */
+	maxEpochsAhead?: number;
+	/** Clock (default: Date.now) */
+	now?: () => number;
+}
+
+/**
+ * In-memory transport with epoch controls
+ */
+export interface InMemoryWalrusTransport extends WalrusTransport {
+	/** Current simulated epoch */
+	getCurrentEpoch(): number;
+	/** Advance the simulated epoch and return the new epoch */
+	advanceEpochs(count?: number): number;
+	/** Drop all stored blobs */
+	reset(): void;
+}
+
+/**
+ * Simulated Sui Blob object
+ */
+interface MemoryBlobObject {
+	id: string;
+	blobId: string;
+	owner: string | null;
+	deletable: boolean;
+	startEpoch: number;
+	endEpoch: number;
+}
+
+// ==========================================
+// Helpers
+// ==========================================
+
+/**
+ * Content-addressed blob ID (base64url of the SHA-256 digest, unpadded)
+ */
+async function contentBlobId(bytes: Uint8Array): Promise<string> {
+	return toBase64(fromHex(await sha256Hex(bytes)))
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_")
+		.replace(/=+$/, "");
+}
+
+/**
+ * JSON response helper
+ */
+function jsonResponse(body: unknown, status = 200): Response {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: { "Content-Type": "application/json" },
+	});
+}
+
+/**
+ * Binary response helper (no body for HEAD)
+ */
+function blobResponse(bytes: Uint8Array, method: string): Response {
+	return new Response(
+		method === "HEAD" ? null : (bytes as unknown as BodyInit),
+		{
+			status: 200,
+			headers: {
+				"Content-Type": "application/octet-stream",
+				"Content-Length": String(bytes.length),
+			},
+		},
+	);
+}
+
+// ==========================================
+// Transport
+// ==========================================
+
+/**
+ * Create an in-memory Walrus transport
+ *
+ * @param options - Simulated epoch settings
+ * @returns Transport emulating the publisher / aggregator HTTP API
+ */
+export function createInMemoryWalrusTransport(
+	options: InMemoryWalrusOptions = {},
+): InMemoryWalrusTransport {
+	const {
+		initialEpoch = 1,
+		epochDurationMs = 0,
+		maxEpochsAhead = 53,
+		now = Date.now,
+	} = options;
+
+	const startedAt = now();
+	let manualEpochs = 0;
+	let objectCounter = 0;
+	const contents = new Map<string, Uint8Array>();
+	const objects = new Map<string, MemoryBlobObject>();
+
+	function getCurrentEpoch(): number {
+		const elapsed =
+			epochDurationMs > 0
+				? Math.floor((now() - startedAt) / epochDurationMs)
+				: 0;
+		return initialEpoch + elapsed + manualEpochs;
+	}
+
+	function isLive(object: MemoryBlobObject): boolean {
+		return object.endEpoch > getCurrentEpoch();
+	}
+
+	function liveObjectsOf(blobId: string): MemoryBlobObject[] {
+		return [...objects.values()].filter(
+			(object) => object.blobId === blobId && isLive(object),
+		);
+	}
+
+	async function putBlob(url: URL, init?: RequestInit): Promise<Response> {
+		const epochs = Number.parseInt(url.searchParams.get("epochs") ?? "1", 10);
+		if (!Number.isInteger(epochs) || epochs < 1 || epochs > maxEpochsAhead) {
+			return jsonResponse(
+				{ error: `epochs must be between 1 and ${maxEpochsAhead}` },
+				400,
+			);
+		}
+
+		const bytes = new Uint8Array(await new Response(init?.body).arrayBuffer());
+		if (bytes.length === 0) {
+			return jsonResponse({ error: "blob must not be empty" }, 400);
+		}
+
+		const deletable = url.searchParams.get("deletable") === "true";
+		const owner = url.searchParams.get("send_object_to");
+		const blobId = await contentBlobId(bytes);
+		const currentEpoch = getCurrentEpoch();
+		const endEpoch = currentEpoch + epochs;
+
+		// A permanent blob stored long enough is reused, as on Walrus
+		if (!deletable) {
+			const certified = liveObjectsOf(blobId).find(
+				(object) => !object.deletable && object.endEpoch >= endEpoch,
+			);
+			if (certified) {
+				return jsonResponse({
+					alreadyCertified: {
+						blobId,
+						objectId: certified.id,
+						endEpoch: certified.endEpoch,
+					},
+				});
+			}
+		}
+
+		objectCounter++;
+		const object: MemoryBlobObject = {
+			id: `0x${objectCounter.toString(16).padStart(64, "0")}`,
+			blobId,
+			owner,
+			deletable,
+			startEpoch: currentEpoch,
+			endEpoch,
+		};
+		objects.set(object.id, object);
+		contents.set(blobId, bytes);
+
+		return jsonResponse({
+			newlyCreated: {
+				blobObject: {
+					id: object.id,
+					storedEpoch: currentEpoch,
+					blobId,
+					size: bytes.length,
+					erasureCodeType: "RedStuff",
+					certifiedEpoch: currentEpoch,
+					storage: {
+						id: `${object.id}:storage`,
+						startEpoch: currentEpoch,
+						endEpoch,
+						storageSize: bytes.length,
+					},
+				},
+				encodedSize: bytes.length,
+				cost: Math.ceil(bytes.length / 1024) * epochs * FROST_PER_KB_EPOCH,
+			},
+		});
+	}
+
+	function getBlob(blobId: string, method: string): Response {
+		const bytes = contents.get(blobId);
+		if (!bytes || liveObjectsOf(blobId).length === 0) {
+			return jsonResponse({ error: `blob ${blobId} not found` }, 404);
+		}
+		return blobResponse(bytes, method);
+	}
+
+	async function request(
+		role: WalrusRole,
+		path: string,
+		init?: RequestInit,
+	): Promise<Response> {
+		const url = new URL(path, "http://walrus.memory");
+		const method = (init?.method ?? "GET").toUpperCase();
+		const segments = url.pathname.split("/").filter(Boolean);
+
+		if (url.pathname === "/v1/api" && method === "GET") {
+			return new Response("in-memory walrus", { status: 200 });
+		}
+
+		if (role === "publisher") {
+			if (url.pathname === "/v1/blobs" && method === "PUT") {
+				return putBlob(url, init);
+			}
+			return jsonResponse({ error: "not found" }, 404);
+		}
+
+		if (method !== "GET" && method !== "HEAD") {
+			return jsonResponse({ error: "method not allowed" }, 405);
+		}
+
+		// /v1/blobs/by-object-id/{objectId}
+		if (segments.length === 4 && segments[2] === "by-object-id") {
+			const object = objects.get(segments[3]);
+			if (!object || !isLive(object)) {
+				return jsonResponse({ error: `object ${segments[3]} not found` }, 404);
+			}
+			return getBlob(object.blobId, method);
+		}
+
+		// /v1/blobs/{blobId}
+		if (
+			segments.length === 3 &&
+			segments[0] === "v1" &&
+			segments[1] === "blobs"
+		) {
+			return getBlob(decodeURIComponent(segments[2]), method);
+		}
+
+		return jsonResponse({ error: "not found" }, 404);
+	}
+
+	return {
+		request,
+		getCurrentEpoch,
+		advanceEpochs(count = 1) {
+			manualEpochs += count;
+			return getCurrentEpoch();
+		},
+		reset() {
+			contents.clear();
+			objects.clear();
+			objectCounter = 0;
+		},
+	};
+}
+
+/**
+ * Whether a transport is the in-memory stand-in
+ */
+export function isInMemoryWalrusTransport(
+	transport: WalrusTransport,
+): transport is InMemoryWalrusTransport {
+	return "getCurrentEpoch" in transport && "advanceEpochs" in transport;
+}
@@ -0,0 +1,175 @@
+/**
+ * Walrus System Object Access
+ *
+ * Walrus keeps its on-chain state in a shared System object on Sui:
+ * System { version, package_id } → dynamic field<u64 version> → SystemStateInner
+ *
+ * This module reads the current epoch and active package from that object
+ * and builds transactions against it (e.g. deleting owned blob objects).
+ */
+
+import type { SuiClient } from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
+import { isInMemoryWalrusTransport } from "@/lib/walrusMemory";
+import { getWalrusTransport } from "@/lib/walrusTransport";
+
+// ==========================================
+// Environment Configuration
+// ==========================================
+
+/**
+ * Walrus system object ID (testnet default)
+ */
+export const WALRUS_SYSTEM_OBJECT_ID =
+	process.env.NEXT_PUBLIC_WALRUS_SYSTEM_OBJECT_ID ||
+	"0x6c2547cbbc38025cf3adac45f63cb0a8d12ecf777cdc75a4971612bf97fdf6af";
+
+// ==========================================
+// Type Definitions
+// ==========================================
+
+/**
+ * Top-level fields of the Walrus System object
+ */
+interface WalrusSystemFields {
+	version?: string | number;
+	package_id?: string;
+}
+
+/**
+ * Fields of the versioned SystemStateInner dynamic field
+ */
+interface WalrusSystemInnerFields {
+	value?: {
+		fields?: { committee?: { fields?: { epoch?: string | number } } };
+	};
+}
+
+// ==========================================
+// System Queries
+// ==========================================
+
+/**
+ * Read top-level System object fields
+ */
+async function getSystemFields(
+	suiClient: SuiClient,
+): Promise<WalrusSystemFields> {
+	const system = await suiClient.getObject({
+		id: WALRUS_SYSTEM_OBJECT_ID,
+		options: { showContent: true },
+	});
+	const content = system.data?.content;
+	if (content?.dataType !== "moveObject") {
+		throw new Error("Walrus system object not found");
+	}
+	return content.fields as WalrusSystemFields;
+}
+
+/**
+ * Read the current Walrus epoch from the system object
+ *
+ * With the in-memory transport the simulated epoch is returned instead.
+ *
+ * @param suiClient - Sui client
+ * @returns Current Walrus epoch
+ * @throws Error if the system object cannot be read
+ */
+export async function getCurrentWalrusEpoch(
+	suiClient: SuiClient,
+): Promise<number> {
+	const transport = getWalrusTransport();
+	if (isInMemoryWalrusTransport(transport)) {
+		return transport.getCurrentEpoch();
+	}
+
+	try {
+		const { version } = await getSystemFields(suiClient);
+		if (version === undefined) {
+			throw new Error("Walrus system object has no version");
+		}
+
+		const inner = await suiClient.getDynamicFieldObject({
+			parentId: WALRUS_SYSTEM_OBJECT_ID,
+			name: { type: "u64", value: String(version) },
+		});
+		const innerContent = inner.data?.content;
+		if (innerContent?.dataType !== "moveObject") {
+			throw new Error("Walrus system state not found");
+		}
+
+		const epoch = (innerContent.fields as WalrusSystemInnerFields).value?.fields
+			?.committee?.fields?.epoch;
+		if (epoch === undefined) {
+			throw new Error("Walrus system state has no committee epoch");
+		}
+
+		return Number(epoch);
+	} catch (error) {
+		if (error instanceof Error) {
+			throw new Error(`Failed to read Walrus epoch: ${error.message}`);
+		}
+		throw new Error("Failed to read Walrus epoch: Unknown error");
+	}
+}
+
+/**
+ * Read the active Walrus package ID from the system object
+ *
+ * @param suiClient - Sui client
+ * @returns Walrus package ID used for Move calls
+ * @throws Error if the system object cannot be read
+ */
+export async function getWalrusPackageId(
+	suiClient: SuiClient,
+): Promise<string> {
+	try {
+		const { package_id } = await getSystemFields(suiClient);
+		if (!package_id) {
+			throw new Error("Walrus system object has no package_id");
+		}
+		return package_id;
+	} catch (error) {
+		if (error instanceof Error) {
+			throw new Error(`Failed to read Walrus package: ${error.message}`);
+		}
+		throw new Error("Failed to read Walrus package: Unknown error");
+	}
+}
+
+// ==========================================
+// Transactions
+// ==========================================
+
+/**
+ * Build a transaction deleting owned, deletable Walrus blob objects
+ *
+ * `system::delete_blob` returns the blob's Storage resource, which is
+ * transferred back to the owner so the remaining storage can be reused.
+ *
+ * @param params - Sui client, blob object IDs and owner address
+ * @returns Transaction ready for signing by the owner
+ */
+export async function buildDeleteBlobsTransaction(params: {
+	suiClient: SuiClient;
+	blobObjectIds: string[];
+	owner: string;
+}): Promise<Transaction> {
+	const { suiClient, blobObjectIds, owner } = params;
+	if (blobObjectIds.length === 0) {
+		throw new Error("At least one blob object must be provided");
+	}
+
+	const packageId = await getWalrusPackageId(suiClient);
+	const tx = new Transaction();
+
+	const storages = blobObjectIds.map((blobObjectId) =>
+		tx.moveCall({
+			target: `${packageId}::system::delete_blob`,
+			arguments: [tx.object(WALRUS_SYSTEM_OBJECT_ID), tx.object(blobObjectId)],
+		}),
+	);
+	tx.transferObjects(storages, owner);
+
+	return tx;
+}
@@ -0,0 +1,479 @@
+/**
+ * Walrus Transport
+ *
+ * All Walrus HTTP traffic (publisher uploads, aggregator downloads) goes
+ * through a WalrusTransport. The default HTTP transport takes ordered lists
+ * of publishers and aggregators and provides:
+ *
+ * - Automatic failover: endpoints are tried in priority order; network
+ *   errors, timeouts, 5xx and 429 move on to the next endpoint
+ * - Retry with exponential backoff (with jitter) between rounds
+ * - Per-endpoint latency tracking (EWMA) and failure counters
+ * - Circuit breaking: failing endpoints are moved to the back of the list
+ *   for a cooldown period, then tried again
+ * - Health probing: on demand or on an interval
+ *
+ * A 404 from one aggregator is not treated as an outage: the next
+ * aggregator is asked, and the 404 is returned only if none has the blob.
+ *
+ * Configuration (comma-separated, in priority order):
+ * - NEXT_PUBLIC_WALRUS_PUBLISHER_URLS (falls back to NEXT_PUBLIC_WALRUS_PUBLISHER_URL)
+ * - NEXT_PUBLIC_WALRUS_AGGREGATOR_URLS (falls back to NEXT_PUBLIC_WALRUS_AGGREGATOR_URL)
+ * - NEXT_PUBLIC_WALRUS_TRANSPORT=memory selects the in-memory stand-in
+ *   (lib/walrusMemory.ts) for offline development and CI
+ */
+
+import { createInMemoryWalrusTransport } from "@/lib/walrusMemory";
+
+// ==========================================
+// Type Definitions
+// ==========================================
+
+/**
+ * Walrus daemon role
+ */
+export type WalrusRole = "publisher" | "aggregator";
+
+/**
+ * Transport used by lib/walrus.ts for every Walrus HTTP call
+ */
+export interface WalrusTransport {
+	/**
+	 * Send a request to an endpoint of the given role
+	 *
+	 * @param role - publisher (uploads) or aggregator (downloads)
+	 * @param path - Path including query string (e.g. "/v1/blobs/abc")
+	 * @param init - Fetch options
+	 * @returns Response from the first endpoint that answered definitively
+	 */
+	request(
+		role: WalrusRole,
+		path: string,
+		init?: RequestInit,
+	): Promise<Response>;
+}
+
+/**
+ * Health and latency statistics of one endpoint
+ */
+export interface WalrusEndpointStats {
+	/** Endpoint base URL */
+	url: string;
+	/** Endpoint role */
+	role: WalrusRole;
+	/** Smoothed latency of successful requests (ms), null until measured */
+	latencyMs: number | null;
+	/** Total successful requests / probes */
+	successCount: number;
+	/** Total failed requests / probes */
+	failureCount: number;
+	/** Failures since the last success */
+	consecutiveFailures: number;
+	/** Endpoint is skipped (moved to the back) until this time (ms) */
+	downUntil: number | null;
+	/** Last error message */
+	lastError: string | null;
+	/** Last request or probe time (ms) */
+	lastCheckedAt: number | null;
+}
+
+/**
+ * HTTP transport configuration
+ */
+export interface HttpWalrusTransportConfig {
+	/** Publisher base URLs in priority order */
+	publishers: string[];
+	/** Aggregator base URLs in priority order */
+	aggregators: string[];
+	/** Rounds over all endpoints before giving up (default: 3) */
+	maxRounds?: number;
+	/** Backoff before the second round (ms, doubled each round; default: 300) */
+	baseBackoffMs?: number;
+	/** Maximum backoff (ms, default: 5000) */
+	maxBackoffMs?: number;
+	/** Per-request timeout (ms) by role */
+	timeoutMs?: Partial<Record<WalrusRole, number>>;
+	/** Consecutive failures before an endpoint is cooled down (default: 2) */
+	failureThreshold?: number;
+	/** Base cooldown for a failing endpoint (ms, default: 30000) */
+	cooldownMs?: number;
+	/** Path used for health probes (default: "/v1/api") */
+	healthPath?: string;
+	/** fetch implementation (default: global fetch) */
+	fetchFn?: typeof fetch;
+	/** sleep implementation (default: setTimeout) */
+	sleepFn?: (ms: number) => Promise<void>;
+}
+
+/**
+ * HTTP transport with failover, backoff and health tracking
+ */
+export interface HttpWalrusTransport extends WalrusTransport {
+	/** Probe every endpoint (or every endpoint of one role) */
+	probe(role?: WalrusRole): Promise<WalrusEndpointStats[]>;
+	/** Current statistics for every endpoint */
+	getStats(): WalrusEndpointStats[];
+}
+
+// ==========================================
+// Errors
+// ==========================================
+
+/**
+ * Raised when no endpoint of a role could serve a request
+ */
+export class WalrusTransportError extends Error {
+	constructor(
+		message: string,
+		public readonly role: WalrusRole,
+		public readonly attempts: number,
+	) {
+		super(message);
+		this.name = "WalrusTransportError";
+	}
+}
+
+// ==========================================
+// Environment Configuration
+// ==========================================
+
+const DEFAULT_PUBLISHER = "https://walrus-testnet-publisher.mystenlabs.com";
+const DEFAULT_AGGREGATOR = "https://walrus-testnet-aggregator.mystenlabs.com";
+
+/**
+ * Parse a comma-separated endpoint list (trailing slashes removed)
+ */
+export function parseEndpointList(
+	...values: Array<string | undefined>
+): string[] {
+	for (const value of values) {
+		const urls = (value ?? "")
+			.split(",")
+			.map((url) => url.trim().replace(/\/+$/, ""))
+			.filter((url) => url.length > 0);
+		if (urls.length > 0) {
+			return [...new Set(urls)];
+		}
+	}
+	return [];
+}
+
+/**
+ * Build transport configuration from environment variables
+ */
+function configFromEnv(): HttpWalrusTransportConfig {
+	return {
+		publishers: parseEndpointList(
+			process.env.NEXT_PUBLIC_WALRUS_PUBLISHER_URLS,
+			process.env.NEXT_PUBLIC_WALRUS_PUBLISHER_URL,
+			DEFAULT_PUBLISHER,
+		),
+		aggregators: parseEndpointList(
+			process.env.NEXT_PUBLIC_WALRUS_AGGREGATOR_URLS,
+			process.env.NEXT_PUBLIC_WALRUS_AGGREGATOR_URL,
+			DEFAULT_AGGREGATOR,
+		),
+	};
+}
+
+// ==========================================
+// HTTP Transport
+// ==========================================
+
+/**
+ * Weight of the newest sample in the latency EWMA
+ */
+const LATENCY_SMOOTHING = 0.3;
+
+/**
+ * Statuses that indicate an endpoint problem rather than a client error
+ */
+function isRetryableStatus(status: number): boolean {
+	return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Create an HTTP transport over ordered publisher / aggregator lists
+ *
+ * @param config - Endpoint lists and retry settings
+ * @returns Transport with failover, backoff and health tracking
+ */
+export function createHttpWalrusTransport(
+	config: HttpWalrusTransportConfig,
+): HttpWalrusTransport {
+	const {
+		maxRounds = 3,
+		baseBackoffMs = 300,
+		maxBackoffMs = 5000,
+		failureThreshold = 2,
+		cooldownMs = 30_000,
+		healthPath = "/v1/api",
+		fetchFn = (...args: Parameters<typeof fetch>) => fetch(...args),
+		sleepFn = (ms: number) => new Promise((r) => setTimeout(r, ms)),
+	} = config;
+	const timeoutMs: Record<WalrusRole, number> = {
+		publisher: config.timeoutMs?.publisher ?? 60_000,
+		aggregator: config.timeoutMs?.aggregator ?? 20_000,
+	};
+
+	const endpoints: WalrusEndpointStats[] = [
+		...config.publishers.map((url) => newStats(url, "publisher")),
+		...config.aggregators.map((url) => newStats(url, "aggregator")),
+	];
+
+	function newStats(url: string, role: WalrusRole): WalrusEndpointStats {
+		return {
+			url,
+			role,
+			latencyMs: null,
+			successCount: 0,
+			failureCount: 0,
+			consecutiveFailures: 0,
+			downUntil: null,
+			lastError: null,
+			lastCheckedAt: null,
+		};
+	}
+
+	function recordSuccess(endpoint: WalrusEndpointStats, latency: number) {
+		endpoint.latencyMs =
+			endpoint.latencyMs === null
+				? latency
+				: Math.round(
+						LATENCY_SMOOTHING * latency +
+							(1 - LATENCY_SMOOTHING) * endpoint.latencyMs,
+					);
+		endpoint.successCount++;
+		endpoint.consecutiveFailures = 0;
+		endpoint.downUntil = null;
+		endpoint.lastError = null;
+		endpoint.lastCheckedAt = Date.now();
+	}
+
+	function recordFailure(endpoint: WalrusEndpointStats, message: string) {
+		endpoint.failureCount++;
+		endpoint.consecutiveFailures++;
+		endpoint.lastError = message;
+		endpoint.lastCheckedAt = Date.now();
+		if (endpoint.consecutiveFailures >= failureThreshold) {
+			// Cooldown doubles with each further failure (capped at 32x)
+			const exponent = Math.min(
+				endpoint.consecutiveFailures - failureThreshold,
+				5,
+			);
+			endpoint.downUntil = Date.now() + cooldownMs * 2 ** exponent;
+		}
+	}
+
+	/**
+	 * Endpoints of a role: available ones in priority order, cooled-down last
+	 */
+	function orderedEndpoints(role: WalrusRole): WalrusEndpointStats[] {
+		const now = Date.now();
+		const ofRole = endpoints.filter((endpoint) => endpoint.role === role);
+		const available = ofRole.filter(
+			(endpoint) => endpoint.downUntil === null || endpoint.downUntil <= now,
+		);
+		const coolingDown = ofRole
+			.filter(
+				(endpoint) => endpoint.downUntil !== null && endpoint.downUntil > now,
+			)
+			.sort((a, b) => (a.downUntil ?? 0) - (b.downUntil ?? 0));
+		return [...available, ...coolingDown];
+	}
+
+	/**
+	 * fetch with a timeout
+	 */
+	async function timedFetch(
+		url: string,
+		init: RequestInit | undefined,
+		timeout: number,
+	): Promise<Response> {
+		const controller = new AbortController();
+		const timer = setTimeout(() => controller.abort(), timeout);
+		try {
+			return await fetchFn(url, { ...init, signal: controller.signal });
+		} catch (error) {
+			if (controller.signal.aborted) {
+				throw new Error(`Timed out after ${timeout}ms`);
+			}
+			throw error;
+		} finally {
+			clearTimeout(timer);
+		}
+	}
+
+	async function request(
+		role: WalrusRole,
+		path: string,
+		init?: RequestInit,
+	): Promise<Response> {
+		if (orderedEndpoints(role).length === 0) {
+			throw new WalrusTransportError(`No Walrus ${role} configured`, role, 0);
+		}
+
+		let attempts = 0;
+		let lastError = "Unknown error";
+
+		for (let round = 0; round < maxRounds; round++) {
+			if (round > 0) {
+				const backoff = Math.min(
+					baseBackoffMs * 2 ** (round - 1),
+					maxBackoffMs,
+				);
+				await sleepFn(backoff + Math.random() * backoff * 0.2);
+			}
+
+			let notFound: Response | null = null;
+
+			for (const endpoint of orderedEndpoints(role)) {
+				attempts++;
+				const startedAt = Date.now();
+				let response: Response;
+				try {
+					response = await timedFetch(
+						`${endpoint.url}${path}`,
+						init,
+						timeoutMs[role],
+					);
+				} catch (error) {
+					lastError = error instanceof Error ? error.message : String(error);
+					recordFailure(endpoint, lastError);
+					console.warn(
+						`[WalrusTransport] ${role} ${endpoint.url} failed: ${lastError}`,
+					);
+					continue;
+				}
+
+				if (isRetryableStatus(response.status)) {
+					lastError = `HTTP ${response.status} ${response.statusText}`;
+					recordFailure(endpoint, lastError);
+					console.warn(
+						`[WalrusTransport] ${role} ${endpoint.url} returned ${response.status}`,
+					);
+					continue;
+				}
+
+				recordSuccess(endpoint, Date.now() - startedAt);
+
+				// Another aggregator may still have the blob
+				if (response.status === 404 && role === "aggregator") {
+					notFound = response;
+					continue;
+				}
+
+				return response;
+			}
+
+			// Every reachable aggregator answered 404: the blob does not exist
+			if (notFound) {
+				return notFound;
+			}
+		}
+
+		throw new WalrusTransportError(
+			`All Walrus ${role} endpoints failed after ${attempts} attempts: ${lastError}`,
+			role,
+			attempts,
+		);
+	}
+
+	async function probe(role?: WalrusRole): Promise<WalrusEndpointStats[]> {
+		const targets = endpoints.filter(
+			(endpoint) => role === undefined || endpoint.role === role,
+		);
+		await Promise.all(
+			targets.map(async (endpoint) => {
+				const startedAt = Date.now();
+				try {
+					const response = await timedFetch(
+						`${endpoint.url}${healthPath}`,
+						{ method: "GET" },
+						timeoutMs.aggregator,
+					);
+					if (response.status >= 500) {
+						recordFailure(endpoint, `HTTP ${response.status}`);
+					} else {
+						recordSuccess(endpoint, Date.now() - startedAt);
+					}
+				} catch (error) {
+					recordFailure(
+						endpoint,
+						error instanceof Error ? error.message : String(error),
+					);
+				}
+			}),
+		);
+		return getStats().filter(
+			(endpoint) => role === undefined || endpoint.role === role,
+		);
+	}
+
+	function getStats(): WalrusEndpointStats[] {
+		return endpoints.map((endpoint) => ({ ...endpoint }));
+	}
+
+	return { request, probe, getStats };
+}
+
+// ==========================================
+// Active Transport
+// ==========================================
+
+/**
+ * Active transport (created lazily from environment)
+ */
+let activeTransport: WalrusTransport | null = null;
+
+/**
+ * Get the transport used for all Walrus calls
+ */
+export function getWalrusTransport(): WalrusTransport {
+	if (!activeTransport) {
+		activeTransport =
+			process.env.NEXT_PUBLIC_WALRUS_TRANSPORT === "memory"
+				? createInMemoryWalrusTransport({
+						epochDurationMs:
+							Number.parseInt(
+								process.env.NEXT_PUBLIC_WALRUS_MEMORY_EPOCH_MS || "",
+								10,
+							) || 0,
+					})
+				: createHttpWalrusTransport(configFromEnv());
+	}
+	return activeTransport;
+}
+
+/**
+ * Replace the active transport (null resets to the environment default)
+ */
+export function setWalrusTransport(transport: WalrusTransport | null): void {
+	activeTransport = transport;
+}
+
+/**
+ * Periodically probe the active transport's endpoints
+ *
+ * Probes immediately, then every intervalMs. No-op for transports without
+ * health probing.
+ *
+ * @param intervalMs - Probe interval (default: 5 minutes)
+ * @returns Function stopping the health checks
+ */
+export function startWalrusHealthChecks(
+	intervalMs: number = 5 * 60 * 1000,
+): () => void {
+	const transport = getWalrusTransport();
+	if (!("probe" in transport)) {
+		return () => {};
+	}
+	const probeAll = () => {
+		(transport as HttpWalrusTransport).probe().catch((error) => {
+			console.warn("[WalrusTransport] Health probe failed:", error);
+		});
+	};
+	probeAll();
+	const timer = setInterval(probeAll, intervalMs);
+	return () => clearInterval(timer);
+}
@@ -0,0 +1,665 @@
+/**
+ * zkLogin Accounts
+ *
+ * Lets patients without a wallet extension sign in with an OpenID Connect
+ * provider (Google, Apple, or the local mock provider in development) and
+ * use the derived Sui address like any wallet account.
+ *
+ * ## Flow
+ * 1. beginZkLogin(): ephemeral Ed25519 keypair valid until maxEpoch, nonce
+ *    committing to it, and the provider's authorization URL
+ * 2. The provider returns an ID token (JWT) carrying that nonce to
+ *    app/api/zklogin/callback
+ * 3. completeZkLogin(): user salt from app/api/zklogin/salt → Sui address
+ *    (jwtToAddress) → zero-knowledge proof from the prover endpoint
+ * 4. ZkLoginSigner signs with the ephemeral key and wraps the signature in
+ *    a zkLogin signature (transactions, and personal messages for Seal
+ *    session keys)
+ *
+ * The prover is pluggable via NEXT_PUBLIC_ZKLOGIN_PROVER_URL. The mock
+ * provider issues unsigned tokens and its prover returns dummy proofs, so
+ * mock accounts work for UI development only: their signatures are
+ * rejected on-chain and by Seal key servers.
+ */
+
+import { toBase64 } from "@mysten/bcs";
+import type { SuiClient } from "@mysten/sui/client";
+import {
+	type IntentScope,
+	type PublicKey,
+	type SignatureScheme,
+	Signer,
+} from "@mysten/sui/cryptography";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import {
+	decodeJwt,
+	genAddressSeed,
+	generateNonce,
+	generateRandomness,
+	getExtendedEphemeralPublicKey,
+	getZkLoginSignature,
+	jwtToAddress,
+	ZkLoginPublicIdentifier,
+	type ZkLoginSignatureInputs,
+} from "@mysten/sui/zklogin";
+
+// ==========================================
+// Constants
+// ==========================================
+
+/**
+ * Issuer of the local mock OIDC provider (app/api/zklogin/mock)
+ */
+export const MOCK_ZKLOGIN_ISSUER = "https://mock-oidc.invalid";
+
+/**
+ * Client ID (aud) of ID tokens issued by the mock provider
+ */
+export const MOCK_ZKLOGIN_CLIENT_ID = "curepocket-dev";
+
+/**
+ * Default prover endpoint (Mysten Labs, devnet/testnet)
+ */
+export const DEFAULT_ZKLOGIN_PROVER_URL =
+	"https://prover-dev.mystenlabs.com/v1";
+
+/**
+ * Epochs the ephemeral keypair stays valid after the current one
+ */
+export const ZKLOGIN_EPOCH_WINDOW = 2;
+
+/**
+ * Path the providers redirect to (posts the ID token to the opener)
+ */
+export const ZKLOGIN_CALLBACK_PATH = "/api/zklogin/callback";
+
+/**
+ * postMessage type sent by the callback page
+ */
+export const ZKLOGIN_CALLBACK_MESSAGE = "curepocket:zklogin";
+
+const SALT_API_PATH = "/api/zklogin/salt";
+const MOCK_PROVER_PATH = "/api/zklogin/mock/prove";
+
+/**
+ * sessionStorage keys (cleared when the tab closes, with the ephemeral key)
+ */
+const PENDING_STORAGE = "curepocket_zklogin_pending_v1";
+const ACCOUNT_STORAGE = "curepocket_zklogin_account_v1";
+
+// ==========================================
+// Types
+// ==========================================
+
+export type ZkLoginProviderId = "google" | "apple" | "mock";
+
+/**
+ * OpenID Connect provider used for zkLogin
+ */
+export interface ZkLoginProvider {
+	id: ZkLoginProviderId;
+	/** Display name ("Sign in with {name}") */
+	name: string;
+	/** Issuer (iss claim) */
+	issuer: string;
+	/** OAuth client ID (aud claim) */
+	clientId: string;
+	authorizationEndpoint: string;
+	scope: string;
+	responseType: "id_token" | "code id_token";
+	/** Apple posts the tokens to the callback (form_post) */
+	responseMode: "fragment" | "form_post";
+}
+
+/**
+ * Login started in the popup, waiting for the ID token
+ */
+export interface ZkLoginPending {
+	providerId: ZkLoginProviderId;
+	/** Ephemeral secret key (suiprivkey...) */
+	ephemeralSecretKey: string;
+	maxEpoch: number;
+	randomness: string;
+	nonce: string;
+}
+
+/**
+ * Signed-in zkLogin account
+ */
+export interface ZkLoginAccount {
+	providerId: ZkLoginProviderId;
+	address: string;
+	/** Ephemeral secret key (suiprivkey...) */
+	ephemeralSecretKey: string;
+	maxEpoch: number;
+	/** Proof inputs including the address seed */
+	inputs: ZkLoginSignatureInputs;
+}
+
+/**
+ * Proof returned by the prover endpoint (without the address seed)
+ */
+export type ZkLoginProof = Omit<ZkLoginSignatureInputs, "addressSeed">;
+
+/**
+ * Request body of the prover endpoint
+ */
+export interface ZkLoginProverRequestBody {
+	jwt: string;
+	extendedEphemeralPublicKey: string;
+	maxEpoch: string;
+	jwtRandomness: string;
+	salt: string;
+	keyClaimName: "sub";
+}
+
+// ==========================================
+// Errors
+// ==========================================
+
+/**
+ * A zkLogin step failed (provider, salt service, or prover)
+ */
+export class ZkLoginError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "ZkLoginError";
+	}
+}
+
+// ==========================================
+// Configuration
+// ==========================================
+
+/**
+ * Whether the local mock OIDC provider is enabled
+ */
+export function isZkLoginMockEnabled(): boolean {
+	return process.env.NEXT_PUBLIC_ZKLOGIN_MOCK === "true";
+}
+
+/**
+ * Providers configured through environment variables
+ *
+ * - NEXT_PUBLIC_ZKLOGIN_GOOGLE_CLIENT_ID: Google
+ * - NEXT_PUBLIC_ZKLOGIN_APPLE_CLIENT_ID: Apple (Services ID)
+ * - NEXT_PUBLIC_ZKLOGIN_MOCK=true: local mock provider
+ */
+export function getZkLoginProviders(): ZkLoginProvider[] {
+	const providers: ZkLoginProvider[] = [];
+
+	const googleClientId = process.env.NEXT_PUBLIC_ZKLOGIN_GOOGLE_CLIENT_ID;
+	if (googleClientId) {
+		providers.push({
+			id: "google",
+			name: "Google",
+			issuer: "https://accounts.google.com",
+			clientId: googleClientId,
+			authorizationEndpoint: "https://accounts.google.com/o/oauth2/v2/auth",
+			scope: "openid",
+			responseType: "id_token",
+			responseMode: "fragment",
+		});
+	}
+
+	const appleClientId = process.env.NEXT_PUBLIC_ZKLOGIN_APPLE_CLIENT_ID;
+	if (appleClientId) {
+		providers.push({
+			id: "apple",
+			name: "Apple",
+			issuer: "https://appleid.apple.com",
+			clientId: appleClientId,
+			authorizationEndpoint: "https://appleid.apple.com/auth/authorize",
+			scope: "email",
+			responseType: "code id_token",
+			responseMode: "form_post",
+		});
+	}
+
+	if (isZkLoginMockEnabled()) {
+		providers.push({
+			id: "mock",
+			name: "Mock OIDC",
+			issuer: MOCK_ZKLOGIN_ISSUER,
+			clientId: MOCK_ZKLOGIN_CLIENT_ID,
+			authorizationEndpoint: "/api/zklogin/mock/authorize",
+			scope: "openid",
+			responseType: "id_token",
+			responseMode: "fragment",
+		});
+	}
+
+	return providers;
+}
+
+/**
+ * Prover endpoint for a provider
+ *
+ * The mock provider always uses its own dummy prover, since the real
+ * prover rejects unsigned tokens.
+ */
+export function getZkLoginProverUrl(providerId: ZkLoginProviderId): string {
+	if (providerId === "mock") {
+		return MOCK_PROVER_PATH;
+	}
+	return (
+		process.env.NEXT_PUBLIC_ZKLOGIN_PROVER_URL || DEFAULT_ZKLOGIN_PROVER_URL
+	);
+}
+
+// ==========================================
+// Login
+// ==========================================
+
+/**
+ * Start a login: ephemeral keypair, nonce, and authorization URL
+ *
+ * @param params.provider - Provider to sign in with
+ * @param params.suiClient - Sui client (current epoch)
+ * @param params.redirectUri - Absolute URL of ZKLOGIN_CALLBACK_PATH
+ * @returns Pending login (to pass to completeZkLogin) and the URL to open
+ */
+export async function beginZkLogin(params: {
+	provider: ZkLoginProvider;
+	suiClient: SuiClient;
+	redirectUri: string;
+}): Promise<{ pending: ZkLoginPending; authorizationUrl: string }> {
+	const { provider, suiClient, redirectUri } = params;
+
+	const { epoch } = await suiClient.getLatestSuiSystemState();
+	const maxEpoch = Number(epoch) + ZKLOGIN_EPOCH_WINDOW;
+	const ephemeralKeypair = new Ed25519Keypair();
+	const randomness = generateRandomness();
+	const nonce = generateNonce(
+		ephemeralKeypair.getPublicKey(),
+		maxEpoch,
+		randomness,
+	);
+
+	const pending: ZkLoginPending = {
+		providerId: provider.id,
+		ephemeralSecretKey: ephemeralKeypair.getSecretKey(),
+		maxEpoch,
+		randomness,
+		nonce,
+	};
+	return {
+		pending,
+		authorizationUrl: buildAuthorizationUrl(provider, nonce, redirectUri),
+	};
+}
+
+/**
+ * Authorization URL requesting an ID token bound to the nonce
+ */
+export function buildAuthorizationUrl(
+	provider: ZkLoginProvider,
+	nonce: string,
+	redirectUri: string,
+): string {
+	const params = new URLSearchParams({
+		client_id: provider.clientId,
+		redirect_uri: redirectUri,
+		response_type: provider.responseType,
+		response_mode: provider.responseMode,
+		scope: provider.scope,
+		nonce,
+	});
+	return `${provider.authorizationEndpoint}?${params.toString()}`;
+}
+
+/**
+ * Read the ID token from the callback URL fragment
+ *
+ * @param hash - `location.hash` of the callback page
+ * @returns ID token, or null if the provider returned none
+ */
+export function parseIdTokenFromHash(hash: string): string | null {
+	const params = new URLSearchParams(hash.replace(/^#/, ""));
+	return params.get("id_token");
+}
+
+/**
+ * Finish a login with the ID token returned by the provider
+ *
+ * @param params.idToken - ID token (JWT)
+ * @param params.pending - Pending login from beginZkLogin
+ * @returns Account with its address and proof
+ * @throws ZkLoginError if the token, salt service, or prover fails
+ */
+export async function completeZkLogin(params: {
+	idToken: string;
+	pending: ZkLoginPending;
+}): Promise<ZkLoginAccount> {
+	const { idToken, pending } = params;
+
+	let claims: ReturnType<typeof decodeJwt>;
+	try {
+		claims = decodeJwt(idToken);
+	} catch (error) {
+		throw new ZkLoginError(
+			`Failed to read ID token: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+	if ((claims as { nonce?: unknown }).nonce !== pending.nonce) {
+		throw new ZkLoginError("ID token nonce does not match the login");
+	}
+
+	const salt = await requestZkLoginSalt(idToken);
+	const address = jwtToAddress(idToken, salt);
+	const ephemeralKeypair = Ed25519Keypair.fromSecretKey(
+		pending.ephemeralSecretKey,
+	);
+
+	const proof = await requestZkLoginProof(
+		getZkLoginProverUrl(pending.providerId),
+		{
+			jwt: idToken,
+			extendedEphemeralPublicKey: getExtendedEphemeralPublicKey(
+				ephemeralKeypair.getPublicKey(),
+			),
+			maxEpoch: String(pending.maxEpoch),
+			jwtRandomness: pending.randomness,
+			salt,
+			keyClaimName: "sub",
+		},
+	);
+
+	const addressSeed = genAddressSeed(
+		BigInt(salt),
+		"sub",
+		claims.sub,
+		claims.aud,
+	).toString();
+
+	console.log(`[zkLogin] Signed in as ${address}`);
+	return {
+		providerId: pending.providerId,
+		address,
+		ephemeralSecretKey: pending.ephemeralSecretKey,
+		maxEpoch: pending.maxEpoch,
+		inputs: { ...proof, addressSeed },
+	};
+}
+
+/**
+ * Fetch the user salt for an ID token from the salt API route
+ *
+ * @returns Salt (decimal string)
+ */
+export async function requestZkLoginSalt(idToken: string): Promise<string> {
+	const json = await postJson<{ salt?: string; error?: string }>(
+		SALT_API_PATH,
+		{ idToken },
+		"fetch zkLogin salt",
+	);
+	if (!json.salt) {
+		throw new ZkLoginError("Failed to fetch zkLogin salt: empty response");
+	}
+	return json.salt;
+}
+
+/**
+ * Fetch the zero-knowledge proof from a prover endpoint
+ *
+ * @param proverUrl - Prover endpoint
+ * @param body - Prover request
+ * @returns Proof inputs without the address seed
+ */
+export async function requestZkLoginProof(
+	proverUrl: string,
+	body: ZkLoginProverRequestBody,
+): Promise<ZkLoginProof> {
+	const json = await postJson<Partial<ZkLoginProof> & { error?: string }>(
+		proverUrl,
+		body,
+		"fetch zkLogin proof",
+	);
+	if (!json.proofPoints || !json.issBase64Details || !json.headerBase64) {
+		throw new ZkLoginError("Failed to fetch zkLogin proof: incomplete proof");
+	}
+	return {
+		proofPoints: json.proofPoints,
+		issBase64Details: json.issBase64Details,
+		headerBase64: json.headerBase64,
+	};
+}
+
+// ==========================================
+// Signer
+// ==========================================
+
+/**
+ * Signer of a zkLogin account
+ *
+ * Signs with the ephemeral key and wraps each signature with the proof, so
+ * it can be passed wherever a keypair is accepted (e.g. the `signer` of
+ * createSessionKey in lib/seal.ts).
+ */
+export class ZkLoginSigner extends Signer {
+	private readonly ephemeralKeypair: Ed25519Keypair;
+	private readonly publicKey: ZkLoginPublicIdentifier;
+
+	constructor(private readonly account: ZkLoginAccount) {
+		super();
+		this.ephemeralKeypair = Ed25519Keypair.fromSecretKey(
+			account.ephemeralSecretKey,
+		);
+		this.publicKey = ZkLoginPublicIdentifier.fromProof(
+			account.address,
+			account.inputs,
+		);
+	}
+
+	sign(bytes: Uint8Array): Promise<Uint8Array<ArrayBuffer>> {
+		return this.ephemeralKeypair.sign(bytes);
+	}
+
+	getKeyScheme(): SignatureScheme {
+		return "ZkLogin";
+	}
+
+	getPublicKey(): PublicKey {
+		return this.publicKey;
+	}
+
+	override toSuiAddress(): string {
+		return this.account.address;
+	}
+
+	override async signWithIntent(
+		bytes: Uint8Array,
+		intent: IntentScope,
+	): Promise<{ bytes: string; signature: string }> {
+		const { signature: userSignature } =
+			await this.ephemeralKeypair.signWithIntent(bytes, intent);
+		const signature = getZkLoginSignature({
+			inputs: this.account.inputs,
+			maxEpoch: this.account.maxEpoch,
+			userSignature,
+		});
+		return {
+			bytes: toBase64(bytes),
+			signature,
+		};
+	}
+}
+
+// ==========================================
+// Persistence
+// ==========================================
+
+/**
+ * Save a pending login until the popup returns
+ */
+export function saveZkLoginPending(pending: ZkLoginPending): void {
+	sessionStorage.setItem(PENDING_STORAGE, JSON.stringify(pending));
+}
+
+/**
+ * Take the pending login (removed from storage)
+ *
+ * @returns Pending login, or null if none
+ */
+export function takeZkLoginPending(): ZkLoginPending | null {
+	const pending = readJson<ZkLoginPending>(PENDING_STORAGE);
+	sessionStorage.removeItem(PENDING_STORAGE);
+	return pending;
+}
+
+/**
+ * Save the signed-in account for silent reconnects in this tab
+ */
+export function saveZkLoginAccount(account: ZkLoginAccount): void {
+	sessionStorage.setItem(ACCOUNT_STORAGE, JSON.stringify(account));
+}
+
+/**
+ * Load the signed-in account if its ephemeral key is still valid
+ *
+ * @param currentEpoch - Current Sui epoch
+ * @returns Account, or null if none (or expired; expired accounts are removed)
+ */
+export function loadZkLoginAccount(
+	currentEpoch: number,
+): ZkLoginAccount | null {
+	const account = readJson<ZkLoginAccount>(ACCOUNT_STORAGE);
+	if (account && currentEpoch > account.maxEpoch) {
+		console.log("[zkLogin] Ephemeral key expired, sign in again");
+		clearZkLoginAccount();
+		return null;
+	}
+	return account;
+}
+
+/**
+ * Forget the signed-in account (sign out)
+ */
+export function clearZkLoginAccount(): void {
+	if (typeof window === "undefined") {
+		return;
+	}
+	sessionStorage.removeItem(ACCOUNT_STORAGE);
+}
+
+// ==========================================
+// Mock provider
+// ==========================================
+
+/**
+ * Unsigned ID token of the mock provider (`alg: none`)
+ *
+ * @param claims.sub - Subject (a stable ID per mock patient)
+ * @param claims.nonce - Nonce from beginZkLogin
+ * @param now - Current time (ms)
+ */
+export function createMockIdToken(
+	claims: { sub: string; nonce: string },
+	now: number = Date.now(),
+): string {
+	const issuedAt = Math.floor(now / 1000);
+	const header = { alg: "none", typ: "JWT" };
+	// issを先頭に置き、証明のissBase64Detailsを切り出しやすくする
+	const payload = {
+		iss: MOCK_ZKLOGIN_ISSUER,
+		aud: MOCK_ZKLOGIN_CLIENT_ID,
+		sub: claims.sub,
+		nonce: claims.nonce,
+		iat: issuedAt,
+		exp: issuedAt + 60 * 60,
+	};
+	return `${base64UrlEncodeJson(header)}.${base64UrlEncodeJson(payload)}.`;
+}
+
+/**
+ * Base64url slice of the JWT payload covering the `"iss":"..."` claim
+ *
+ * This is the part of the proof that lets verifiers read the issuer
+ * (ZkLoginPublicIdentifier.fromProof); the mock prover returns it next to
+ * dummy proof points.
+ */
+export function getIssBase64Details(jwt: string): {
+	value: string;
+	indexMod4: number;
+} {
+	const payloadBase64 = jwt.split(".")[1] ?? "";
+	const payload = new TextDecoder().decode(base64UrlDecode(payloadBase64));
+	const match = /"iss"\s*:\s*"[^"]*"\s*[,}]/.exec(payload);
+	if (!match) {
+		throw new ZkLoginError("ID token has no iss claim");
+	}
+
+	// ペイロードは1文字1バイトのJSONとして位置を数える（issはASCII）
+	const startByte = new TextEncoder().encode(
+		payload.slice(0, match.index),
+	).length;
+	const endByte = startByte + match[0].length;
+	const startChar = Math.floor((startByte * 8) / 6);
+	const endChar = Math.ceil((endByte * 8) / 6);
+	return {
+		value: payloadBase64.slice(startChar, endChar),
+		indexMod4: startChar % 4,
+	};
+}
+
+// ==========================================
+// Internal helpers
+// ==========================================
+
+async function postJson<T>(
+	url: string,
+	body: unknown,
+	action: string,
+): Promise<T> {
+	let response: Response;
+	try {
+		response = await fetch(url, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify(body),
+		});
+	} catch (error) {
+		throw new ZkLoginError(
+			`Failed to ${action}: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+	const json = (await response.json().catch(() => ({}))) as T & {
+		error?: string;
+	};
+	if (!response.ok) {
+		throw new ZkLoginError(
+			`Failed to ${action}: ${json.error ?? response.statusText}`,
+		);
+	}
+	return json;
+}
+
+function readJson<T>(key: string): T | null {
+	if (typeof window === "undefined") {
+		return null;
+	}
+	const stored = sessionStorage.getItem(key);
+	if (!stored) {
+		return null;
+	}
+	try {
+		return JSON.parse(stored) as T;
+	} catch (error) {
+		console.warn("[zkLogin] Corrupted login state", error);
+		return null;
+	}
+}
+
+function base64UrlEncodeJson(value: unknown): string {
+	const bytes = new TextEncoder().encode(JSON.stringify(value));
+	return btoa(String.fromCharCode(...bytes))
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_")
+		.replace(/=+$/, "");
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+	const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+	const padded = base64.padEnd(Math.ceil(base64.length / 4) * 4, "=");
+	return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,185 @@
+/**
+ * zkLogin Salt Service
+ *
+ * Server-side helpers of app/api/zklogin/salt. The salt keeps a patient's
+ * Sui address unlinkable from their OIDC identity, so it is derived from a
+ * server secret (ZKLOGIN_SALT_SECRET) and released only for an ID token
+ * whose signature, audience, and expiry check out:
+ *
+ *   salt = first 16 bytes of HMAC-SHA256(secret, "iss|aud|sub")
+ *
+ * The same login always gets the same salt, hence the same address.
+ * Mock tokens (lib/zkLogin.ts createMockIdToken) are unsigned and accepted
+ * only while NEXT_PUBLIC_ZKLOGIN_MOCK=true.
+ */
+
+import { decodeJwt } from "@mysten/sui/zklogin";
+import { MOCK_ZKLOGIN_ISSUER } from "./zkLogin";
+
+// ==========================================
+// Constants
+// ==========================================
+
+/**
+ * JWKS endpoints of the supported issuers (normalized iss, see decodeJwt)
+ */
+const JWKS_URLS: Record<string, string> = {
+	"https://accounts.google.com": "https://www.googleapis.com/oauth2/v3/certs",
+	"https://appleid.apple.com": "https://appleid.apple.com/auth/keys",
+};
+
+// ==========================================
+// Types
+// ==========================================
+
+/**
+ * Claims of a verified ID token used for the salt
+ */
+export interface VerifiedIdToken {
+	iss: string;
+	aud: string;
+	sub: string;
+}
+
+interface JwtHeader {
+	alg?: string;
+	kid?: string;
+}
+
+// ==========================================
+// Verification
+// ==========================================
+
+/**
+ * Verify an ID token before releasing its salt
+ *
+ * @param idToken - ID token (JWT)
+ * @param options.audiences - Accepted client IDs
+ * @param options.allowMock - Accept unsigned tokens of the mock provider
+ * @param options.now - Current time (ms)
+ * @returns Claims, or null if the token is not acceptable
+ */
+export async function verifyZkLoginIdToken(
+	idToken: string,
+	options: { audiences: string[]; allowMock: boolean; now?: number },
+): Promise<VerifiedIdToken | null> {
+	const [headerBase64, payloadBase64, signatureBase64] = idToken.split(".");
+	if (!headerBase64 || !payloadBase64 || signatureBase64 === undefined) {
+		return null;
+	}
+
+	let header: JwtHeader;
+	let claims: ReturnType<typeof decodeJwt>;
+	try {
+		header = JSON.parse(
+			new TextDecoder().decode(base64UrlDecode(headerBase64)),
+		) as JwtHeader;
+		claims = decodeJwt(idToken);
+	} catch {
+		return null;
+	}
+
+	const nowSec = Math.floor((options.now ?? Date.now()) / 1000);
+	if (
+		!options.audiences.includes(claims.aud) ||
+		typeof claims.exp !== "number" ||
+		claims.exp <= nowSec
+	) {
+		return null;
+	}
+
+	if (claims.iss === MOCK_ZKLOGIN_ISSUER) {
+		return options.allowMock && header.alg === "none"
+			? { iss: claims.iss, aud: claims.aud, sub: claims.sub }
+			: null;
+	}
+
+	const jwksUrl = JWKS_URLS[claims.iss];
+	if (!jwksUrl || header.alg !== "RS256" || !header.kid || !signatureBase64) {
+		return null;
+	}
+	const valid = await verifyRs256(
+		`${headerBase64}.${payloadBase64}`,
+		base64UrlDecode(signatureBase64),
+		jwksUrl,
+		header.kid,
+	);
+	return valid ? { iss: claims.iss, aud: claims.aud, sub: claims.sub } : null;
+}
+
+// ==========================================
+// Salt
+// ==========================================
+
+/**
+ * Derive the user salt of a verified login
+ *
+ * @param secret - ZKLOGIN_SALT_SECRET
+ * @param token - Verified claims
+ * @returns Salt (decimal string below 2^128)
+ */
+export async function deriveZkLoginSalt(
+	secret: string,
+	token: VerifiedIdToken,
+): Promise<string> {
+	const encoder = new TextEncoder();
+	const key = await crypto.subtle.importKey(
+		"raw",
+		encoder.encode(secret),
+		{ name: "HMAC", hash: "SHA-256" },
+		false,
+		["sign"],
+	);
+	const mac = new Uint8Array(
+		await crypto.subtle.sign(
+			"HMAC",
+			key,
+			encoder.encode(`${token.iss}|${token.aud}|${token.sub}`),
+		),
+	);
+	const hex = Array.from(mac.slice(0, 16))
+		.map((byte) => byte.toString(16).padStart(2, "0"))
+		.join("");
+	return BigInt(`0x${hex}`).toString();
+}
+
+// ==========================================
+// Internal helpers
+// ==========================================
+
+async function verifyRs256(
+	signingInput: string,
+	signature: Uint8Array<ArrayBuffer>,
+	jwksUrl: string,
+	kid: string,
+): Promise<boolean> {
+	const response = await fetch(jwksUrl);
+	if (!response.ok) {
+		throw new Error(`Failed to fetch JWKS: ${response.status}`);
+	}
+	const { keys } = (await response.json()) as { keys?: JsonWebKey[] };
+	const jwk = keys?.find((key) => (key as { kid?: string }).kid === kid);
+	if (!jwk) {
+		return false;
+	}
+
+	const key = await crypto.subtle.importKey(
+		"jwk",
+		jwk,
+		{ name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+		false,
+		["verify"],
+	);
+	return crypto.subtle.verify(
+		"RSASSA-PKCS1-v1_5",
+		key,
+		signature,
+		new TextEncoder().encode(signingInput),
+	);
+}
+
+function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+	const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+	const padded = base64.padEnd(Math.ceil(base64.length / 4) * 4, "=");
+	return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,352 @@
+/**
+ * zkLogin Wallets
+ *
+ * Registers one wallet-standard wallet per zkLogin provider
+ * (lib/zkLogin.ts), so WalletButton and the dapp-kit hooks
+ * (useSignAndExecuteTransaction, useSignPersonalMessage, ...) work for
+ * zkLogin accounts exactly as for extension wallets. Seal session keys are
+ * signed through sui:signPersonalMessage like any other wallet.
+ *
+ * ## Connect
+ * - Interactive: opens the provider in a popup; the callback page
+ *   (app/api/zklogin/callback) posts the URL fragment back to this window
+ * - Silent: restores the account saved in this tab if its ephemeral key is
+ *   still valid
+ */
+
+import { toBase64 } from "@mysten/bcs";
+import { Transaction } from "@mysten/sui/transactions";
+import {
+	getWallets,
+	type IdentifierString,
+	ReadonlyWalletAccount,
+	type StandardConnectFeature,
+	type StandardConnectMethod,
+	type StandardDisconnectFeature,
+	type StandardDisconnectMethod,
+	type StandardEventsFeature,
+	type StandardEventsListeners,
+	type StandardEventsOnMethod,
+	type SuiSignAndExecuteTransactionFeature,
+	type SuiSignAndExecuteTransactionMethod,
+	type SuiSignPersonalMessageFeature,
+	type SuiSignPersonalMessageMethod,
+	type SuiSignTransactionFeature,
+	type SuiSignTransactionMethod,
+	type Wallet,
+} from "@mysten/wallet-standard";
+import { getNetworkConfig, getSuiClient } from "./suiClient";
+import {
+	beginZkLogin,
+	clearZkLoginAccount,
+	completeZkLogin,
+	getZkLoginProviders,
+	loadZkLoginAccount,
+	parseIdTokenFromHash,
+	saveZkLoginAccount,
+	saveZkLoginPending,
+	takeZkLoginPending,
+	ZKLOGIN_CALLBACK_MESSAGE,
+	ZKLOGIN_CALLBACK_PATH,
+	type ZkLoginAccount,
+	ZkLoginError,
+	type ZkLoginProvider,
+	type ZkLoginProviderId,
+	ZkLoginSigner,
+} from "./zkLogin";
+
+// ==========================================
+// Constants
+// ==========================================
+
+/**
+ * Custom wallet feature identifying zkLogin wallets (and their provider)
+ */
+export const ZKLOGIN_WALLET_FEATURE = "curepocket:zkLogin";
+
+const POPUP_FEATURES = "popup,width=480,height=640";
+
+/**
+ * Time to finish signing in at the provider
+ */
+const LOGIN_TIMEOUT_MS = 5 * 60 * 1000;
+
+const ICON =
+	"data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHZpZXdCb3g9IjAgMCAyNCAyNCI+PHJlY3Qgd2lkdGg9IjI0IiBoZWlnaHQ9IjI0IiByeD0iNiIgZmlsbD0iIzNiODJmNiIvPjxwYXRoIGQ9Ik04IDExVjhhNCA0IDAgMCAxIDggMHYzIiBzdHJva2U9IiNmZmYiIHN0cm9rZS13aWR0aD0iMiIgZmlsbD0ibm9uZSIvPjxyZWN0IHg9IjYiIHk9IjExIiB3aWR0aD0iMTIiIGhlaWdodD0iOCIgcng9IjIiIGZpbGw9IiNmZmYiLz48L3N2Zz4=" as const;
+
+// ==========================================
+// Types
+// ==========================================
+
+/**
+ * Feature carrying the provider of a zkLogin wallet
+ */
+export type ZkLoginWalletFeature = {
+	[ZKLOGIN_WALLET_FEATURE]: {
+		version: "1.0.0";
+		provider: { id: ZkLoginProviderId; name: string };
+	};
+};
+
+type ZkLoginWalletFeatures = StandardConnectFeature &
+	StandardDisconnectFeature &
+	StandardEventsFeature &
+	SuiSignTransactionFeature &
+	SuiSignAndExecuteTransactionFeature &
+	SuiSignPersonalMessageFeature &
+	ZkLoginWalletFeature;
+
+// ==========================================
+// Wallet
+// ==========================================
+
+/**
+ * Wallet-standard wallet backed by a zkLogin provider
+ */
+export class ZkLoginWallet implements Wallet {
+	readonly version = "1.0.0" as const;
+	readonly icon = ICON;
+	readonly chains: IdentifierString[];
+
+	private account: ZkLoginAccount | null = null;
+	private signer: ZkLoginSigner | null = null;
+	private listeners: Array<StandardEventsListeners["change"]> = [];
+
+	constructor(private readonly provider: ZkLoginProvider) {
+		this.chains = [`sui:${getNetworkConfig().network}`];
+	}
+
+	get name(): string {
+		return `zkLogin (${this.provider.name})`;
+	}
+
+	get accounts(): ReadonlyWalletAccount[] {
+		if (!this.account || !this.signer) {
+			return [];
+		}
+		return [
+			new ReadonlyWalletAccount({
+				address: this.account.address,
+				publicKey: this.signer.getPublicKey().toRawBytes(),
+				chains: this.chains,
+				features: [
+					"sui:signTransaction",
+					"sui:signAndExecuteTransaction",
+					"sui:signPersonalMessage",
+				],
+			}),
+		];
+	}
+
+	get features(): ZkLoginWalletFeatures {
+		return {
+			"standard:connect": { version: "1.0.0", connect: this.connect },
+			"standard:disconnect": { version: "1.0.0", disconnect: this.disconnect },
+			"standard:events": { version: "1.0.0", on: this.on },
+			"sui:signTransaction": {
+				version: "2.0.0",
+				signTransaction: this.signTransaction,
+			},
+			"sui:signAndExecuteTransaction": {
+				version: "2.0.0",
+				signAndExecuteTransaction: this.signAndExecuteTransaction,
+			},
+			"sui:signPersonalMessage": {
+				version: "1.1.0",
+				signPersonalMessage: this.signPersonalMessage,
+			},
+			[ZKLOGIN_WALLET_FEATURE]: {
+				version: "1.0.0",
+				provider: { id: this.provider.id, name: this.provider.name },
+			},
+		};
+	}
+
+	private connect: StandardConnectMethod = async (input) => {
+		if (this.account) {
+			return { accounts: this.accounts };
+		}
+
+		const { epoch } = await getSuiClient().getLatestSuiSystemState();
+		const stored = loadZkLoginAccount(Number(epoch));
+		if (stored?.providerId === this.provider.id) {
+			this.setAccount(stored);
+		} else if (!input?.silent) {
+			this.setAccount(await this.login());
+		}
+		return { accounts: this.accounts };
+	};
+
+	private disconnect: StandardDisconnectMethod = async () => {
+		clearZkLoginAccount();
+		this.setAccount(null);
+	};
+
+	private on: StandardEventsOnMethod = (event, listener) => {
+		if (event !== "change") {
+			return () => {};
+		}
+		this.listeners.push(listener);
+		return () => {
+			this.listeners = this.listeners.filter((l) => l !== listener);
+		};
+	};
+
+	private signTransaction: SuiSignTransactionMethod = async ({
+		transaction,
+	}) => {
+		const signer = this.requireSigner();
+		const tx = Transaction.from(await transaction.toJSON());
+		tx.setSenderIfNotSet(signer.toSuiAddress());
+		const bytes = await tx.build({ client: getSuiClient() });
+		return signer.signTransaction(bytes);
+	};
+
+	private signAndExecuteTransaction: SuiSignAndExecuteTransactionMethod =
+		async (input) => {
+			const { bytes, signature } = await this.signTransaction(input);
+			const result = await getSuiClient().executeTransactionBlock({
+				transactionBlock: bytes,
+				signature,
+				options: { showRawEffects: true },
+			});
+			return {
+				bytes,
+				signature,
+				digest: result.digest,
+				effects: toBase64(new Uint8Array(result.rawEffects ?? [])),
+			};
+		};
+
+	private signPersonalMessage: SuiSignPersonalMessageMethod = async ({
+		message,
+	}) => {
+		return this.requireSigner().signPersonalMessage(message);
+	};
+
+	/**
+	 * Sign in at the provider in a popup and build the account
+	 */
+	private async login(): Promise<ZkLoginAccount> {
+		// ユーザー操作から時間が経つとブロックされるため、通信の前に開いておく
+		const popup = window.open("about:blank", "zklogin", POPUP_FEATURES);
+		if (!popup) {
+			throw new ZkLoginError("Sign-in popup was blocked");
+		}
+
+		try {
+			const { pending, authorizationUrl } = await beginZkLogin({
+				provider: this.provider,
+				suiClient: getSuiClient(),
+				redirectUri: `${window.location.origin}${ZKLOGIN_CALLBACK_PATH}`,
+			});
+			saveZkLoginPending(pending);
+			popup.location.href = authorizationUrl;
+
+			const idToken = await waitForIdToken(popup);
+			const account = await completeZkLogin({
+				idToken,
+				pending: takeZkLoginPending() ?? pending,
+			});
+			saveZkLoginAccount(account);
+			return account;
+		} catch (error) {
+			takeZkLoginPending();
+			popup.close();
+			throw error;
+		}
+	}
+
+	private setAccount(account: ZkLoginAccount | null): void {
+		this.account = account;
+		this.signer = account ? new ZkLoginSigner(account) : null;
+		for (const listener of this.listeners) {
+			listener({ accounts: this.accounts });
+		}
+	}
+
+	private requireSigner(): ZkLoginSigner {
+		if (!this.signer) {
+			throw new ZkLoginError("zkLogin wallet is not connected");
+		}
+		return this.signer;
+	}
+}
+
+// ==========================================
+// Registration
+// ==========================================
+
+/**
+ * Register a wallet for each configured zkLogin provider
+ *
+ * @returns Function that unregisters them
+ */
+export function registerZkLoginWallets(): () => void {
+	const wallets = getZkLoginProviders().map(
+		(provider) => new ZkLoginWallet(provider),
+	);
+	if (wallets.length === 0) {
+		return () => {};
+	}
+	return getWallets().register(...wallets);
+}
+
+/**
+ * Provider of a zkLogin wallet, or null for other wallets
+ */
+export function getZkLoginWalletProvider(
+	wallet: Wallet,
+): { id: ZkLoginProviderId; name: string } | null {
+	const feature = (wallet.features as Partial<ZkLoginWalletFeature>)[
+		ZKLOGIN_WALLET_FEATURE
+	];
+	return feature?.provider ?? null;
+}
+
+// ==========================================
+// Internal helpers
+// ==========================================
+
+/**
+ * Wait for the callback page to post the ID token
+ */
+function waitForIdToken(popup: Window): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const cleanup = () => {
+			window.removeEventListener("message", onMessage);
+			clearInterval(closedTimer);
+			clearTimeout(timeout);
+		};
+
+		const onMessage = (event: MessageEvent) => {
+			if (
+				event.origin !== window.location.origin ||
+				event.data?.type !== ZKLOGIN_CALLBACK_MESSAGE
+			) {
+				return;
+			}
+			cleanup();
+			const idToken = parseIdTokenFromHash(String(event.data.hash ?? ""));
+			if (idToken) {
+				resolve(idToken);
+			} else {
+				reject(new ZkLoginError("Provider returned no ID token"));
+			}
+		};
+
+		// ポップアップを閉じた場合はユーザーによる拒否として扱う
+		const closedTimer = setInterval(() => {
+			if (popup.closed) {
+				cleanup();
+				reject(new ZkLoginError("User rejected the sign-in"));
+			}
+		}, 500);
+		const timeout = setTimeout(() => {
+			cleanup();
+			reject(new ZkLoginError("Sign-in timed out"));
+		}, LOGIN_TIMEOUT_MS);
+
+		window.addEventListener("message", onMessage);
+	});
+}
@@ -8,6 +8,8 @@
  * for global interoperability while maintaining local language support.
  */
 
+import type { ChunkManifest } from "./metadata";
+
 // ==========================================
 // Root & Metadata Types
 // ==========================================
@@ -338,7 +340,12 @@ export interface ApiResponse<T> {
  * Walrus blob reference
  */
 export interface WalrusBlobReference {
-	blobId: string;
+	blobId: string; // Manifest blob ID when the payload was chunked
+	objectId?: string; // Sui Blob object ID, only when a new object was created
 	uploadedAt: number; // Unix timestamp
-	size: number; // Blob size in bytes
+	size: number; // Blob size in bytes (reassembled size when chunked)
+	endEpoch?: number; // Last Walrus epoch the blob is stored for
+	manifest?: ChunkManifest; // Present only for chunked uploads
+	sha256?: string; // SHA-256 (hex) of the stored payload, for download verification
+	cost?: number; // Storage cost in FROST reported for newly created blobs (summed when chunked)
 }
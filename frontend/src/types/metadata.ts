@@ -7,6 +7,7 @@
  * - SBT DataEntry → メタデータBlob → データBlob[] の2層構造
  * - メタデータBlobは各データBlobへの参照とパーティション情報を保持
  * - 同じデータ種のメタデータとデータBlobは全て同一seal_idで暗号化
+ *   （個別共有するエントリのみ、データ種seal_id + エントリnonceの専用seal_idで暗号化）
  */
 
 import type { DataType } from "./healthData";
@@ -33,8 +34,56 @@ export interface BaseMetadata<TEntry extends BaseMetadataEntry> {
  * メタデータエントリの基底型
  */
 export interface BaseMetadataEntry {
-	/** データBlobのWalrus Blob ID */
+	/** データBlobのWalrus Blob ID（チャンク分割時はマニフェストBlobのID） */
 	blob_id: string;
+	/** Walrus保存期限のエポック（この値のエポック終了まで保存、旧データでは省略） */
+	end_epoch?: number;
+	/** チャンク分割アップロード時のマニフェスト（1MB以下の単一Blobでは省略） */
+	chunk_manifest?: ChunkManifest;
+	/** 暗号化データBlob全体のSHA-256（hex、ダウンロード時に検証、旧データでは省略） */
+	sha256?: string;
+	/** 暗号化データBlobのサイズ（bytes、チャンク分割時は合計、旧データでは省略） */
+	size?: number;
+	/** エントリ専用seal_id（hex、データ種seal_id + エントリnonce、省略時はデータ種のseal_id） */
+	seal_id?: string;
+}
+
+// ==========================================
+// チャンク分割Blob
+// ==========================================
+
+/**
+ * チャンク分割された暗号化ペイロードの1チャンク
+ */
+export interface BlobChunk {
+	/** チャンク順序（0始まり） */
+	index: number;
+	/** チャンクのWalrus Blob ID */
+	blob_id: string;
+	/** チャンクサイズ（bytes） */
+	size: number;
+	/** チャンクのSHA-256（hex） */
+	sha256: string;
+}
+
+/**
+ * チャンクマニフェスト
+ *
+ * MAX_BLOB_SIZEを超える暗号化ペイロードを複数のWalrus Blobに分割した際の
+ * 順序付きチャンク一覧。マニフェスト自体もWalrus Blobとして保存され、
+ * そのBlob IDがメタデータエントリのblob_id / binary_blob_idになる。
+ */
+export interface ChunkManifest {
+	/** マニフェスト形式のバージョン */
+	manifest_version: 1;
+	/** 再構成後の合計サイズ（bytes） */
+	total_size: number;
+	/** 分割単位（bytes） */
+	chunk_size: number;
+	/** 再構成後ペイロード全体のSHA-256（hex） */
+	sha256: string;
+	/** 順序付きチャンク一覧 */
+	chunks: BlobChunk[];
 }
 
 // ==========================================
@@ -114,8 +163,16 @@ export interface ImagingMetadataEntry extends BaseMetadataEntry {
 	modality: string;
 	/** 撮影部位 */
 	body_part: string;
-	/** imaging_binaryのBlob ID */
+	/** imaging_binaryのBlob ID（チャンク分割時はマニフェストBlobのID） */
 	binary_blob_id: string;
+	/** imaging_binaryのWalrus保存期限エポック */
+	binary_end_epoch?: number;
+	/** imaging_binaryのチャンクマニフェスト（チャンク分割時のみ） */
+	binary_chunk_manifest?: ChunkManifest;
+	/** imaging_binaryの暗号化BlobのSHA-256（hex） */
+	binary_sha256?: string;
+	/** imaging_binaryの暗号化Blobのサイズ（bytes） */
+	binary_size?: number;
 }
 
 /**